@@ -0,0 +1,29 @@
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import dotenv from 'dotenv'
+import { companyContextStore, getCompanyContextStore } from './services/CompanyContextStore'
+import { createSlottedMCPServer } from './services/SlottedMCPServer'
+
+dotenv.config()
+
+// stdout carries the JSON-RPC stream, so route all logging to stderr
+console.log = console.error
+console.info = console.error
+
+async function main() {
+  // MCP_WORKSPACE_ID selects which brand's Company DNA this process serves;
+  // without it the single-brand store at MCP_CONTEXT_PATH is used
+  const workspaceId = process.env.MCP_WORKSPACE_ID
+  const server = createSlottedMCPServer({
+    store: workspaceId ? getCompanyContextStore(workspaceId) : companyContextStore,
+    workspaceId,
+  })
+  const transport = new StdioServerTransport()
+
+  await server.connect(transport)
+  console.error('🔌 Slotted MCP server running on stdio')
+}
+
+main().catch((error) => {
+  console.error('Failed to start Slotted MCP server:', error)
+  process.exit(1)
+})
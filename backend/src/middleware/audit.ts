@@ -0,0 +1,47 @@
+import type express from 'express'
+import { type AuditInput, auditLog, userActor } from '../services/AuditLog'
+import { checkedWorkspace } from './auth'
+
+const stringOf = (value: unknown) => (typeof value === 'string' && value ? value : undefined)
+
+const generationEntry = (
+  req: express.Request,
+  res: express.Response,
+  operation: string
+): AuditInput | undefined => {
+  if (!req.user) return undefined
+
+  const assetId = stringOf(req.body?.assetId)
+  const topic = stringOf(req.body?.topic)
+  const verb = assetId ? 'Regenerated' : 'Generated'
+  return {
+    workspaceId: checkedWorkspace(res),
+    actor: userActor(req.user),
+    action: assetId ? 'content.regenerated' : 'content.generated',
+    entity: assetId ? { type: 'asset', id: assetId } : { type: 'content' },
+    summary: topic ? `${verb} ${operation} on "${topic}"` : `${verb} ${operation}`,
+    metadata: {
+      operation,
+      topic,
+      streamed: res.getHeader('Content-Type') === 'text/event-stream',
+    },
+  }
+}
+
+/**
+ * Audit every successful generation request on a router. Requests that name
+ * the asset they redo (`assetId` in the body) are recorded as regenerations
+ * of that asset. Streamed responses are recorded once the stream ends, under
+ * the workspace requirePermission checked.
+ */
+export function auditGeneration(area: string): express.RequestHandler {
+  return (req, res, next) => {
+    // Read now: the path is relative to the router only while it handles the request
+    const operation = `${area}${req.path}`
+    res.on('finish', () => {
+      const entry = res.statusCode < 400 ? generationEntry(req, res, operation) : undefined
+      if (entry) void auditLog.record(entry)
+    })
+    next()
+  }
+}
@@ -0,0 +1,152 @@
+import type express from 'express'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Role } from '../services/AccessControl'
+import { userStore } from '../services/UserStore'
+import { type ScopeResolver, requirePermission, requiredWorkspace } from './auth'
+
+const USER = { id: 'user-1', email: 'ana@example.com', name: 'Ana', createdAt: '2026-01-01' }
+
+const request = (
+  parts: { params?: object; query?: object; body?: unknown; signedIn?: boolean } = {}
+) =>
+  ({
+    params: parts.params || {},
+    query: parts.query || {},
+    body: parts.body,
+    user: parts.signedIn === false ? undefined : USER,
+  }) as unknown as express.Request
+
+const response = () => {
+  const res = { statusCode: 200, body: undefined as unknown, locals: {} } as {
+    statusCode: number
+    body: unknown
+    locals: Record<string, unknown>
+    status: (code: number) => typeof res
+    json: (body: unknown) => typeof res
+  }
+  res.status = (code) => {
+    res.statusCode = code
+    return res
+  }
+  res.json = (body) => {
+    res.body = body
+    return res
+  }
+  return res
+}
+
+/**
+ * Run requirePermission and report how the request ended
+ */
+const run = async (
+  permission: Parameters<typeof requirePermission>[0],
+  req: express.Request,
+  resolve?: ScopeResolver
+) => {
+  const res = response()
+  const next = vi.fn()
+  await requirePermission(permission, resolve)(req, res as unknown as express.Response, next)
+  return {
+    status: next.mock.calls.length > 0 ? 'next' : res.statusCode,
+    body: res.body,
+    locals: res.locals,
+    next,
+  }
+}
+
+describe('requirePermission', () => {
+  beforeEach(() => {
+    const roles: Record<string, Role> = { 'ws-a': 'admin', 'ws-b': 'client_viewer' }
+    vi.spyOn(userStore, 'listMemberships').mockResolvedValue(
+      Object.entries(roles).map(([workspaceId, role]) => ({
+        userId: USER.id,
+        workspaceId,
+        role,
+        addedAt: '2026-01-01',
+      }))
+    )
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('requires a signed-in user', async () => {
+    expect((await run('workspace:view', request({ signedIn: false }))).status).toBe(401)
+  })
+
+  it('checks the role in the workspace the request names', async () => {
+    const inA = request({ query: { workspaceId: 'ws-a' } })
+    const inB = request({ query: { workspaceId: 'ws-b' } })
+
+    expect((await run('content:generate', inA)).status).toBe('next')
+    expect((await run('workspace:view', inB)).status).toBe('next')
+    const denied = await run('content:generate', inB)
+    expect(denied.status).toBe(403)
+    expect(denied.body).toEqual({
+      error: "You don't have content:generate access in workspace ws-b",
+    })
+  })
+
+  it('refuses workspaces the user is not a member of', async () => {
+    const req = request({ params: { workspaceId: 'ws-other' } })
+    expect((await run('workspace:view', req)).status).toBe(403)
+  })
+
+  it('refuses requests that name different workspaces', async () => {
+    const req = request({
+      params: { workspaceId: 'ws-b' },
+      query: { workspaceId: 'ws-a' },
+      body: { workspaceId: 'ws-a' },
+    })
+    const result = await run('workspace:view', req)
+    expect(result.status).toBe(400)
+    expect(result.body).toEqual({ error: 'The request names more than one workspaceId' })
+
+    const smuggled = request({ query: { workspaceId: 'ws-a' }, body: { workspaceId: 'ws-b' } })
+    expect((await run('content:generate', smuggled, requiredWorkspace)).status).toBe(400)
+  })
+
+  it('keeps the checked workspace for the handler', async () => {
+    const same = request({ query: { workspaceId: 'ws-a' }, body: { workspaceId: 'ws-a' } })
+    const result = await run('content:generate', same, requiredWorkspace)
+    expect(result.status).toBe('next')
+    expect(result.locals.workspaceId).toBe('ws-a')
+
+    expect((await run('workspace:view', request())).locals.workspaceId).toBeUndefined()
+  })
+
+  it('allows unscoped requests when any membership grants the permission', async () => {
+    expect((await run('workspace:manage', request())).status).toBe('next')
+    vi.mocked(userStore.listMemberships).mockResolvedValue([])
+    expect((await run('workspace:view', request())).status).toBe(403)
+  })
+
+  it('needs the permission in every workspace a resolver returns', async () => {
+    const both: ScopeResolver = () => ['ws-a', 'ws-b']
+    expect((await run('workspace:view', request(), both)).status).toBe('next')
+    expect((await run('content:edit', request(), both)).status).toBe(403)
+  })
+
+  it('answers 400 when requiredWorkspace finds no workspace', async () => {
+    const missing = await run('workspace:view', request({ body: {} }), requiredWorkspace)
+    expect(missing.status).toBe(400)
+    expect(missing.body).toEqual({ error: 'workspaceId is required' })
+
+    const empty = request({ query: { workspaceId: '' } })
+    expect((await run('workspace:view', empty, requiredWorkspace)).status).toBe(400)
+    expect(
+      (await run('workspace:view', request({ body: { workspaceId: 'ws-a' } }), requiredWorkspace))
+        .status
+    ).toBe('next')
+  })
+
+  it('passes other resolver errors on', async () => {
+    const failing: ScopeResolver = () => {
+      throw new Error('store unavailable')
+    }
+    const result = await run('workspace:view', request(), failing)
+    expect(result.status).toBe('next')
+    expect(result.next).toHaveBeenCalledWith(expect.any(Error))
+  })
+})
@@ -0,0 +1,154 @@
+import type express from 'express'
+import { type Permission, hasPermission } from '../services/AccessControl'
+import { type PublicUser, userStore } from '../services/UserStore'
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by authenticate
+      user?: PublicUser
+    }
+  }
+}
+
+/**
+ * The workspace or workspaces a request acts on. `undefined` stands for data
+ * that isn't tied to a workspace, which needs the permission in at least one
+ * of the caller's workspaces.
+ */
+export type WorkspaceScope = string | undefined | (string | undefined)[]
+
+export type ScopeResolver = (req: express.Request) => WorkspaceScope | Promise<WorkspaceScope>
+
+export class ScopeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScopeError'
+  }
+}
+
+const stringOf = (value: unknown) => (typeof value === 'string' && value ? value : undefined)
+
+/**
+ * The session token from `Authorization: Bearer <token>`, or from
+ * ?access_token= for EventSource streams, which can't set headers
+ */
+export const tokenFrom = (req: express.Request): string | undefined => {
+  const header = req.header('authorization')
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length)
+  return stringOf(req.query.access_token)
+}
+
+/**
+ * The workspace named by the route, query or body. A request that names
+ * different workspaces in different places is refused, so the workspace the
+ * permission is checked on is the one the handler acts on.
+ */
+export const requestWorkspace = (req: express.Request): string | undefined => {
+  const named = [
+    stringOf(req.params.workspaceId),
+    stringOf(req.query.workspaceId),
+    stringOf(req.body?.workspaceId),
+  ].filter((id): id is string => id !== undefined)
+  if (named.some((id) => id !== named[0])) {
+    throw new ScopeError('The request names more than one workspaceId')
+  }
+  return named[0]
+}
+
+/**
+ * Like requestWorkspace, but the workspace must be given. Used for listings,
+ * which would otherwise cover every workspace, and for work charged to a
+ * workspace, whose handlers read the id back with it.
+ */
+export const requiredWorkspace = (req: express.Request): string => {
+  const workspaceId = requestWorkspace(req)
+  if (!workspaceId) {
+    throw new ScopeError('workspaceId is required')
+  }
+  return workspaceId
+}
+
+/**
+ * The workspace requirePermission checked, for handlers to act on instead of
+ * reading the request again. Undefined when the request isn't tied to a
+ * single workspace.
+ */
+export const checkedWorkspace = (res: express.Response): string | undefined =>
+  stringOf(res.locals.workspaceId)
+
+/**
+ * Like checkedWorkspace, for routes whose resolver requires the workspace
+ */
+export const requiredCheckedWorkspace = (res: express.Response): string => {
+  const workspaceId = checkedWorkspace(res)
+  if (!workspaceId) {
+    throw new Error('requiredCheckedWorkspace used on a route without a workspace check')
+  }
+  return workspaceId
+}
+
+/**
+ * The signed-in user of a request that passed authenticate
+ */
+export const currentUser = (req: express.Request): PublicUser => {
+  if (!req.user) {
+    throw new Error('currentUser used on a route without authenticate')
+  }
+  return req.user
+}
+
+/**
+ * Reject requests without a valid session
+ */
+export const authenticate: express.RequestHandler = async (req, res, next) => {
+  try {
+    const token = tokenFrom(req)
+    const user = token ? await userStore.authenticate(token) : undefined
+    if (!user) {
+      return res.status(401).json({ error: 'Sign in to continue' })
+    }
+    req.user = user
+    next()
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Allow the request only if the caller's role in every workspace it acts on
+ * grants the permission. Runs after authenticate. A single checked workspace
+ * is kept on res.locals.workspaceId, see checkedWorkspace.
+ */
+export const requirePermission =
+  (permission: Permission, resolve: ScopeResolver = requestWorkspace): express.RequestHandler =>
+  async (req, res, next) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Sign in to continue' })
+      }
+      const scope = await resolve(req)
+      const memberships = await userStore.listMemberships(req.user.id)
+      const allowedIn = (workspaceId: string | undefined) =>
+        memberships.some(
+          (m) =>
+            (workspaceId === undefined || m.workspaceId === workspaceId) &&
+            hasPermission(m.role, permission)
+        )
+
+      const denied = (Array.isArray(scope) ? scope : [scope]).filter((id) => !allowedIn(id))
+      if (denied.length > 0) {
+        const where = denied[0] ? ` in workspace ${denied[0]}` : ''
+        return res.status(403).json({ error: `You don't have ${permission} access${where}` })
+      }
+      if (typeof scope === 'string') {
+        res.locals.workspaceId = scope
+      }
+      next()
+    } catch (error) {
+      if (error instanceof ScopeError) {
+        return res.status(400).json({ error: error.message })
+      }
+      next(error)
+    }
+  }
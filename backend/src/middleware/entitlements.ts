@@ -0,0 +1,32 @@
+import type express from 'express'
+import { EntitlementError, entitlements } from '../services/Entitlements'
+import { requiredCheckedWorkspace } from './auth'
+
+const stringOf = (value: unknown) => (typeof value === 'string' && value ? value : undefined)
+
+/**
+ * Response for an action the workspace's plan doesn't cover: 402, with the
+ * plan to upgrade to
+ */
+export const sendEntitlementError = (res: express.Response, error: EntitlementError) =>
+  res.status(402).json({ error: error.message, code: error.code, upgradeTo: error.upgradeTo })
+
+/**
+ * Refuse generation requests whose `aiConfig.model` isn't in the plan of the
+ * workspace requirePermission checked, before any work starts. The models a
+ * generation actually runs on, the server's fallbacks included, are checked
+ * again when it resolves its providers.
+ */
+export function requireEntitledModel(): express.RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const workspaceId = requiredCheckedWorkspace(res)
+      const model = stringOf(req.body?.aiConfig?.model)
+      if (model) await entitlements.assertModel(workspaceId, model)
+      next()
+    } catch (error) {
+      if (error instanceof EntitlementError) return sendEntitlementError(res, error)
+      next(error)
+    }
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Local stand-in for the social platform APIs used by the publishers in
+ * services/SocialPublisher.ts. Point the publishers at it with:
+ *
+ *   LINKEDIN_API_URL=http://localhost:4010/linkedin
+ *   TWITTER_API_URL=http://localhost:4010/twitter
+ *   FACEBOOK_GRAPH_URL=http://localhost:4010/graph
+ *
+ * and connect a workspace's accounts with any credentials. Webhook URLs are
+ * workspace settings and must be public, so reach /webhook through a tunnel.
+ *
+ * Any token is accepted. Put [stub:<status>] in a post's text to make the
+ * platform answer with that error status (429 includes a retry delay), and
+ * use http://localhost:4010/media/sample.png as a media URL. Published posts
+ * are listed at GET /_posts and cleared with DELETE /_posts.
+ */
+import { createHmac, randomUUID } from 'node:crypto'
+import dotenv from 'dotenv'
+import express from 'express'
+import multer from 'multer'
+
+dotenv.config()
+
+const PORT = Number(process.env.PUBLISHER_STUB_PORT) || 4010
+const BASE_URL = `http://localhost:${PORT}`
+
+// 1x1 transparent PNG
+const SAMPLE_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+)
+
+interface StubPost {
+  platform: string
+  id: string
+  body: unknown
+  createdAt: string
+}
+
+const posts: StubPost[] = []
+const uploads = new Set<string>()
+
+const record = (platform: string, id: string, body: unknown) => {
+  posts.push({ platform, id, body, createdAt: new Date().toISOString() })
+  console.log(`📬 ${platform} stub created ${id}`)
+}
+
+const stubId = () => randomUUID().replace(/-/g, '').slice(0, 16)
+
+/**
+ * The status requested by a [stub:<status>] marker in the text, if any.
+ * LinkedIn commentary arrives with the brackets escaped.
+ */
+const injectedStatus = (text: unknown): number | undefined => {
+  const match = typeof text === 'string' ? text.match(/\\?\[stub:(\d{3})\\?\]/) : null
+  return match ? Number(match[1]) : undefined
+}
+
+const hasBearerToken = (req: express.Request) => /^Bearer \S+/.test(req.headers.authorization || '')
+
+const app = express()
+// The webhook checks its signature against the raw body, so only the
+// platform APIs get parsed JSON
+app.use(['/linkedin', '/twitter', '/graph'], express.json({ limit: '5mb' }))
+
+app.get('/media/sample.png', (_req, res) => {
+  res.type('png').send(SAMPLE_PNG)
+})
+
+app.get('/_posts', (_req, res) => {
+  res.json({ posts })
+})
+
+app.delete('/_posts', (_req, res) => {
+  posts.length = 0
+  uploads.clear()
+  res.status(204).end()
+})
+
+// LinkedIn -------------------------------------------------------------------
+
+const linkedin = express.Router()
+
+const linkedinError = (res: express.Response, status: number, message: string) => {
+  if (status === 429) res.set('Retry-After', '30')
+  res.status(status).json({ status, serviceErrorCode: 100, message })
+}
+
+linkedin.use((req, res, next) => {
+  if (req.path.startsWith('/upload/')) return next()
+  if (!hasBearerToken(req)) return linkedinError(res, 401, 'Invalid access token')
+  if (!req.headers['linkedin-version']) {
+    return linkedinError(res, 426, 'A version must be present. Please specify a LinkedIn-Version')
+  }
+  next()
+})
+
+linkedin.post('/rest/images', (req, res) => {
+  if (req.query.action !== 'initializeUpload' || !req.body?.initializeUploadRequest?.owner) {
+    return linkedinError(res, 400, 'initializeUploadRequest.owner is required')
+  }
+  const image = `urn:li:image:${stubId()}`
+  res.json({
+    value: { uploadUrl: `${BASE_URL}/linkedin/upload/${encodeURIComponent(image)}`, image },
+  })
+})
+
+linkedin.put('/upload/:image', express.raw({ type: () => true, limit: '20mb' }), (req, res) => {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return linkedinError(res, 400, 'Upload body is empty')
+  }
+  uploads.add(req.params.image)
+  res.status(201).end()
+})
+
+linkedin.post('/rest/posts', (req, res) => {
+  const { author, commentary, content } = req.body || {}
+  const status = injectedStatus(commentary)
+  if (status) return linkedinError(res, status, `Stub error ${status}`)
+  if (!author || typeof commentary !== 'string') {
+    return linkedinError(res, 422, 'author and commentary are required')
+  }
+
+  const images = content?.media ? [content.media] : content?.multiImage?.images || []
+  const missing = images.find((image: { id: string }) => !uploads.has(image.id))
+  if (missing) return linkedinError(res, 400, `Image ${missing.id} has not been uploaded`)
+
+  const urn = `urn:li:share:${stubId()}`
+  record('linkedin', urn, req.body)
+  res.status(201).set('x-restli-id', urn).end()
+})
+
+// X / Twitter ----------------------------------------------------------------
+
+const twitter = express.Router()
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 20 * 1024 * 1024 } })
+
+const twitterError = (res: express.Response, status: number, detail: string) => {
+  if (status === 429) {
+    res.set('x-rate-limit-reset', String(Math.ceil(Date.now() / 1000) + 30))
+  }
+  res.status(status).json({ title: status === 429 ? 'Too Many Requests' : 'Error', detail, status })
+}
+
+twitter.use((req, res, next) => {
+  if (!hasBearerToken(req)) return twitterError(res, 401, 'Unauthorized')
+  next()
+})
+
+twitter.post('/2/media/upload', upload.single('media'), (req, res) => {
+  if (!req.file) return twitterError(res, 400, 'media is required')
+  const id = String(Date.now()) + String(Math.floor(Math.random() * 1000))
+  uploads.add(id)
+  res.json({ data: { id, media_key: `3_${id}` } })
+})
+
+twitter.post('/2/media/metadata', (req, res) => {
+  if (!uploads.has(req.body?.id)) return twitterError(res, 400, 'Unknown media id')
+  res.json({ data: { associated_metadata: true } })
+})
+
+twitter.post('/2/tweets', (req, res) => {
+  const { text, media } = req.body || {}
+  const status = injectedStatus(text)
+  if (status) return twitterError(res, status, `Stub error ${status}`)
+  if (typeof text !== 'string' || text.length === 0) {
+    return twitterError(res, 400, 'text is required')
+  }
+  if (Array.from(text).length > 280) return twitterError(res, 403, 'Your Tweet text is too long.')
+  const unknown = (media?.media_ids || []).find((id: string) => !uploads.has(id))
+  if (unknown) return twitterError(res, 400, `Media id ${unknown} is invalid`)
+
+  const id = String(Date.now())
+  record('twitter', id, req.body)
+  res.status(201).json({ data: { id, text } })
+})
+
+// Facebook Pages and Instagram (Graph API) -----------------------------------
+
+const graph = express.Router()
+
+// Processing state of Instagram containers, so video polling can be exercised
+const containers = new Map<string, { polls: number; body: unknown }>()
+
+const graphError = (res: express.Response, status: number, message: string) => {
+  const code = status === 429 ? 32 : status === 401 ? 190 : 100
+  res.status(status === 429 ? 400 : status).json({
+    error: { message, type: 'OAuthException', code, is_transient: status >= 500 },
+  })
+}
+
+graph.use((req, res, next) => {
+  const token = req.body?.access_token || req.query.access_token
+  if (!token) return graphError(res, 401, 'An access token is required')
+  next()
+})
+
+graph.post('/:pageId/photos', (req, res) => {
+  if (!req.body.url) return graphError(res, 400, 'url is required')
+  const id = stubId()
+  uploads.add(id)
+  res.json({ id })
+})
+
+graph.post('/:pageId/videos', (req, res) => {
+  const status = injectedStatus(req.body.description)
+  if (status) return graphError(res, status, `Stub error ${status}`)
+  if (!req.body.file_url) return graphError(res, 400, 'file_url is required')
+  const id = stubId()
+  record('facebook', id, req.body)
+  res.json({ id })
+})
+
+graph.post('/:pageId/feed', (req, res) => {
+  const { message, attached_media: attached = [] } = req.body
+  const status = injectedStatus(message)
+  if (status) return graphError(res, status, `Stub error ${status}`)
+  const missing = attached.find((media: { media_fbid: string }) => !uploads.has(media.media_fbid))
+  if (missing) return graphError(res, 400, `Unknown photo ${missing.media_fbid}`)
+
+  const id = `${req.params.pageId}_${stubId()}`
+  record('facebook', id, req.body)
+  res.json({ id })
+})
+
+graph.post('/:accountId/media', (req, res) => {
+  const status = injectedStatus(req.body.caption)
+  if (status) return graphError(res, status, `Stub error ${status}`)
+  if (req.body.media_type === 'CAROUSEL') {
+    const children = String(req.body.children || '').split(',')
+    if (children.some((child) => !containers.has(child))) {
+      return graphError(res, 400, 'Unknown carousel item')
+    }
+  } else if (!req.body.image_url && !req.body.video_url) {
+    return graphError(res, 400, 'image_url or video_url is required')
+  }
+
+  const id = stubId()
+  containers.set(id, { polls: 0, body: req.body })
+  res.json({ id })
+})
+
+graph.post('/:accountId/media_publish', (req, res) => {
+  const container = containers.get(req.body.creation_id)
+  if (!container) return graphError(res, 400, 'Unknown creation_id')
+  const id = stubId()
+  record('instagram', id, container.body)
+  res.json({ id })
+})
+
+graph.get('/:nodeId', (req, res) => {
+  const container = containers.get(req.params.nodeId)
+  if (container) {
+    // Videos report IN_PROGRESS on the first poll
+    container.polls++
+    return res.json({
+      id: req.params.nodeId,
+      status_code: container.polls > 1 ? 'FINISHED' : 'IN_PROGRESS',
+    })
+  }
+  const post = posts.find((item) => item.id === req.params.nodeId)
+  if (!post) return graphError(res, 404, 'Unsupported get request')
+  res.json({ id: post.id, permalink: `https://www.instagram.com/p/${post.id}/` })
+})
+
+// Generic webhook ------------------------------------------------------------
+
+app.post('/webhook', express.raw({ type: 'application/json' }), (req, res) => {
+  const secret = process.env.PUBLISH_WEBHOOK_SECRET
+  const raw = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '{}'
+  if (secret) {
+    const expected = `sha256=${createHmac('sha256', secret).update(raw).digest('hex')}`
+    if (req.headers['x-slotted-signature'] !== expected) {
+      return res.status(401).json({ error: 'Invalid signature' })
+    }
+  }
+
+  const body = JSON.parse(raw)
+  const status = injectedStatus(body.post?.text)
+  if (status) {
+    if (status === 429) res.set('Retry-After', '30')
+    return res.status(status).json({ error: `Stub error ${status}` })
+  }
+
+  const id = stubId()
+  record('webhook', id, body)
+  res.json({ id, url: `${BASE_URL}/webhook/${id}` })
+})
+
+app.use('/linkedin', linkedin)
+app.use('/twitter', twitter)
+app.use('/graph', graph)
+
+app.listen(PORT, () => {
+  console.log(`🧪 Publisher stub server running on ${BASE_URL}`)
+  console.log(`📋 Published posts: ${BASE_URL}/_posts`)
+})
@@ -0,0 +1,253 @@
+import express from 'express'
+import {
+  ScopeError,
+  type ScopeResolver,
+  currentUser,
+  requirePermission,
+  requiredCheckedWorkspace,
+  requiredWorkspace,
+} from '../middleware/auth'
+import {
+  ASSET_TYPES,
+  type Asset,
+  AssetNotFoundError,
+  AssetStateError,
+  type AssetType,
+  assetStore,
+} from '../services/AssetStore'
+import {
+  type AuditAction,
+  type FieldChange,
+  auditLog,
+  diffFields,
+  userActor,
+} from '../services/AuditLog'
+import { type ScheduledPost, campaignScheduler } from '../services/CampaignScheduler'
+import { reviewNotifier } from '../services/ReviewNotifier'
+
+const router = express.Router()
+
+const queryString = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string')
+
+// Posts that haven't gone out yet and so still depend on their asset's approval
+const UPCOMING: ScheduledPost['status'][] = ['scheduled', 'unplaced', 'awaiting_approval']
+
+// The asset's workspace. Assets from before they belonged to a workspace
+// can't be reached, since nothing says who may see them.
+const assetScope: ScopeResolver = async (req) => {
+  const asset = await assetStore.getAsset(req.params.id).catch(() => undefined)
+  if (asset && !asset.workspaceId) {
+    throw new ScopeError(`Asset ${asset.id} doesn't belong to a workspace`)
+  }
+  return asset?.workspaceId
+}
+
+const handleError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof AssetNotFoundError) {
+    return res.status(404).json({ error: error.message })
+  }
+  if (error instanceof AssetStateError) {
+    return res.status(409).json({ error: error.message })
+  }
+  console.error(`${fallback}:`, error)
+  res.status(500).json({
+    error: error instanceof Error ? error.message : fallback,
+  })
+}
+
+const editableFields = ({ name, content, reviewers }: Asset) => ({ name, content, reviewers })
+
+// Record what the signed-in user did to an asset
+const auditAsset = (
+  req: express.Request,
+  action: AuditAction,
+  asset: Asset,
+  summary: string,
+  extra: { changes?: FieldChange[]; metadata?: Record<string, unknown> } = {}
+) =>
+  auditLog.record({
+    workspaceId: asset.workspaceId,
+    actor: userActor(currentUser(req)),
+    action,
+    entity: { type: 'asset', id: asset.id },
+    summary,
+    ...extra,
+    metadata: { version: asset.version, ...extra.metadata },
+  })
+
+/**
+ * The asset with the scheduled posts waiting on it, soonest first, so
+ * reviewers can see their deadlines
+ */
+const withUpcomingPosts = (assets: Asset[], posts: ScheduledPost[]) =>
+  assets.map((asset) => ({
+    ...asset,
+    upcomingPosts: posts
+      .filter((post) => post.assetId === asset.id && UPCOMING.includes(post.status))
+      .map(({ id, campaignId, channelId, scheduledFor, status }) => ({
+        id,
+        campaignId,
+        channelId,
+        scheduledFor,
+        status,
+      })),
+  }))
+
+// A workspace's assets, most recently changed first (?workspaceId=)
+router.get('/', requirePermission('workspace:view', requiredWorkspace), async (_req, res) => {
+  try {
+    const workspaceId = requiredCheckedWorkspace(res)
+    const [assets, posts] = await Promise.all([
+      assetStore.listAssets(workspaceId),
+      campaignScheduler.listPosts({ workspaceId }),
+    ])
+    res.json({ assets: withUpcomingPosts(assets, posts) })
+  } catch (error) {
+    handleError(res, error, 'Failed to list assets')
+  }
+})
+
+// A workspace's review reminders and escalations, newest first
+// (?workspaceId=). Filter with ?recipient=
+router.get(
+  '/notifications',
+  requirePermission('workspace:view', requiredWorkspace),
+  async (req, res) => {
+    try {
+      const notifications = await reviewNotifier.listNotifications({
+        workspaceId: requiredCheckedWorkspace(res),
+        recipient: queryString(req.query.recipient),
+      })
+      res.json({ notifications })
+    } catch (error) {
+      handleError(res, error, 'Failed to list notifications')
+    }
+  }
+)
+
+// Create a draft asset in the workspace it names, authored by the signed-in
+// user
+router.post('/', requirePermission('content:edit', requiredWorkspace), async (req, res) => {
+  try {
+    const { name, type, content, reviewers } = req.body || {}
+    if (typeof name !== 'string' || !name.trim() || typeof content !== 'string') {
+      return res.status(400).json({ error: 'name and content are required' })
+    }
+    if (!ASSET_TYPES.includes(type as AssetType)) {
+      return res.status(400).json({ error: `type must be one of ${ASSET_TYPES.join(', ')}` })
+    }
+    if (reviewers !== undefined && !isStringList(reviewers)) {
+      return res.status(400).json({ error: 'reviewers must be a list of strings' })
+    }
+
+    const asset = await assetStore.createAsset({
+      workspaceId: requiredCheckedWorkspace(res),
+      name,
+      type,
+      content,
+      author: currentUser(req).name,
+      reviewers,
+    })
+    await auditAsset(req, 'asset.created', asset, `Created "${asset.name}"`)
+    res.status(201).json(asset)
+  } catch (error) {
+    handleError(res, error, 'Failed to create asset')
+  }
+})
+
+router.get('/:id', requirePermission('workspace:view', assetScope), async (req, res) => {
+  try {
+    res.json(await assetStore.getAsset(req.params.id))
+  } catch (error) {
+    handleError(res, error, 'Failed to load asset')
+  }
+})
+
+// Rename an asset, change its reviewers or edit its content. New content
+// sends it back to draft, and posts using it wait for it to be approved again.
+router.patch('/:id', requirePermission('content:edit', assetScope), async (req, res) => {
+  try {
+    const { name, content, reviewers } = req.body || {}
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ error: 'name must be a non-empty string' })
+    }
+    if (content !== undefined && typeof content !== 'string') {
+      return res.status(400).json({ error: 'content must be a string' })
+    }
+    if (reviewers !== undefined && !isStringList(reviewers)) {
+      return res.status(400).json({ error: 'reviewers must be a list of strings' })
+    }
+    // Copied first: the store updates the asset in place
+    const before = editableFields(await assetStore.getAsset(req.params.id))
+    const asset = await assetStore.updateAsset(req.params.id, { name, content, reviewers })
+    const changes = diffFields(before, editableFields(asset))
+    if (changes.length > 0) {
+      await auditAsset(req, 'asset.updated', asset, `Edited "${asset.name}"`, { changes })
+    }
+    res.json(asset)
+  } catch (error) {
+    handleError(res, error, 'Failed to update asset')
+  }
+})
+
+router.post('/:id/submit', requirePermission('content:edit', assetScope), async (req, res) => {
+  try {
+    const asset = await assetStore.submitForReview(req.params.id)
+    await auditAsset(req, 'asset.submitted', asset, `Submitted "${asset.name}" for review`)
+    res.json(asset)
+  } catch (error) {
+    handleError(res, error, 'Failed to submit asset for review')
+  }
+})
+
+// Approve an asset as the signed-in reviewer; posts held for it are released
+// to publish when due
+router.post('/:id/approve', requirePermission('content:review', assetScope), async (req, res) => {
+  try {
+    const { comment } = req.body || {}
+    const asset = await assetStore.approveAsset(
+      req.params.id,
+      currentUser(req).name,
+      typeof comment === 'string' ? comment : undefined
+    )
+    await auditAsset(req, 'asset.approved', asset, `Approved "${asset.name}"`, {
+      metadata: { comment: typeof comment === 'string' ? comment : undefined },
+    })
+    void campaignScheduler.checkScheduledPosts()
+    res.json(asset)
+  } catch (error) {
+    handleError(res, error, 'Failed to approve asset')
+  }
+})
+
+router.post('/:id/reject', requirePermission('content:review', assetScope), async (req, res) => {
+  try {
+    const { comment } = req.body || {}
+    if (typeof comment !== 'string' || !comment.trim()) {
+      return res.status(400).json({ error: 'Say why the asset is rejected in comment' })
+    }
+    const asset = await assetStore.rejectAsset(req.params.id, currentUser(req).name, comment)
+    await auditAsset(req, 'asset.rejected', asset, `Rejected "${asset.name}"`, {
+      metadata: { comment },
+    })
+    res.json(asset)
+  } catch (error) {
+    handleError(res, error, 'Failed to reject asset')
+  }
+})
+
+// Mark approved content as published outside the scheduler
+router.post('/:id/publish', requirePermission('content:publish', assetScope), async (req, res) => {
+  try {
+    const asset = await assetStore.markPublished(req.params.id)
+    await auditAsset(req, 'asset.published', asset, `Marked "${asset.name}" published`)
+    res.json(asset)
+  } catch (error) {
+    handleError(res, error, 'Failed to publish asset')
+  }
+})
+
+export { router as assetRouter }
@@ -0,0 +1,92 @@
+import express from 'express'
+import { requirePermission, requiredCheckedWorkspace, requiredWorkspace } from '../middleware/auth'
+import {
+  AUDIT_ENTITY_TYPES,
+  type AuditEntityType,
+  type AuditQuery,
+  auditLog,
+  toCsv,
+} from '../services/AuditLog'
+
+const router = express.Router()
+
+const queryString = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+const handleError = (res: express.Response, error: unknown, fallback: string) => {
+  console.error(`${fallback}:`, error)
+  res.status(500).json({
+    error: error instanceof Error ? error.message : fallback,
+  })
+}
+
+/**
+ * The audit query for the checked workspace in ?userId=, ?action=, ?entityType=,
+ * ?entityId=, ?from=, ?to= and ?limit=, or an error message
+ */
+const parseQuery = (req: express.Request, workspaceId: string): AuditQuery | string => {
+  const entityType = queryString(req.query.entityType)
+  if (entityType && !AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+    return `entityType must be one of ${AUDIT_ENTITY_TYPES.join(', ')}`
+  }
+
+  const from = queryString(req.query.from)
+  const to = queryString(req.query.to)
+  for (const value of [from, to]) {
+    if (value !== undefined && Number.isNaN(Date.parse(value))) {
+      return 'from and to must be ISO dates'
+    }
+  }
+
+  const limit = Number(req.query.limit)
+  return {
+    workspaceId,
+    actorId: queryString(req.query.userId),
+    action: queryString(req.query.action),
+    entityType,
+    entityId: queryString(req.query.entityId),
+    from: from && new Date(from).toISOString(),
+    to: to && new Date(to).toISOString(),
+    limit: Number.isInteger(limit) && limit > 0 ? limit : undefined,
+  }
+}
+
+// A workspace's audit entries, newest first (?workspaceId=). Filter by user,
+// action, entity and time range; see parseQuery
+router.get('/', requirePermission('workspace:view', requiredWorkspace), async (req, res) => {
+  try {
+    const query = parseQuery(req, requiredCheckedWorkspace(res))
+    if (typeof query === 'string') {
+      return res.status(400).json({ error: query })
+    }
+    res.json({ entries: await auditLog.query(query) })
+  } catch (error) {
+    handleError(res, error, 'Failed to list audit entries')
+  }
+})
+
+// Download the same entries as a file for client reports (?format=csv|json)
+router.get('/export', requirePermission('workspace:view', requiredWorkspace), async (req, res) => {
+  try {
+    const format = queryString(req.query.format) || 'csv'
+    if (format !== 'csv' && format !== 'json') {
+      return res.status(400).json({ error: 'format must be csv or json' })
+    }
+    const query = parseQuery(req, requiredCheckedWorkspace(res))
+    if (typeof query === 'string') {
+      return res.status(400).json({ error: query })
+    }
+
+    const entries = await auditLog.query(query)
+    const filename = `audit-${query.workspaceId}-${new Date().toISOString().slice(0, 10)}.${format}`
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+    if (format === 'csv') {
+      res.type('text/csv').send(toCsv(entries))
+    } else {
+      res.type('application/json').send(JSON.stringify({ entries }, null, 2))
+    }
+  } catch (error) {
+    handleError(res, error, 'Failed to export audit entries')
+  }
+})
+
+export { router as auditRouter }
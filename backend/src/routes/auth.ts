@@ -0,0 +1,137 @@
+import express from 'express'
+import { authenticate, currentUser, tokenFrom } from '../middleware/auth'
+import { permissionsOf } from '../services/AccessControl'
+import {
+  AuthenticationError,
+  UserNotFoundError,
+  UserStateError,
+  userStore,
+} from '../services/UserStore'
+import { workspaceStore } from '../services/WorkspaceStore'
+
+const router = express.Router()
+
+const MIN_PASSWORD_LENGTH = 8
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const handleError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof AuthenticationError) {
+    return res.status(401).json({ error: error.message })
+  }
+  if (error instanceof UserNotFoundError) {
+    return res.status(404).json({ error: error.message })
+  }
+  if (error instanceof UserStateError) {
+    return res.status(409).json({ error: error.message })
+  }
+  console.error(`${fallback}:`, error)
+  res.status(500).json({
+    error: error instanceof Error ? error.message : fallback,
+  })
+}
+
+// Whether the instance still needs its first account
+router.get('/status', async (_req, res) => {
+  try {
+    res.json({ needsSetup: !(await userStore.hasUsers()) })
+  } catch (error) {
+    handleError(res, error, 'Failed to check sign-in status')
+  }
+})
+
+// Create an account and sign in. The first account needs the setupToken and
+// becomes an admin of every existing workspace; after that an invitationToken
+// for the same email is needed.
+router.post('/register', async (req, res) => {
+  try {
+    const { email, name, password, invitationToken, setupToken } = req.body || {}
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return res.status(400).json({ error: 'A valid email is required' })
+    }
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' })
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res
+        .status(400)
+        .json({ error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters` })
+    }
+
+    const workspaces = await workspaceStore.listWorkspaces({ includeArchived: true })
+    const session = await userStore.register(
+      { email, name, password },
+      {
+        invitationToken: typeof invitationToken === 'string' ? invitationToken : undefined,
+        setupToken: typeof setupToken === 'string' ? setupToken : undefined,
+        bootstrapWorkspaceIds: workspaces.map((workspace) => workspace.id),
+      }
+    )
+    res.status(201).json(session)
+  } catch (error) {
+    handleError(res, error, 'Failed to register')
+  }
+})
+
+router.post('/login', async (req, res) => {
+  try {
+    const { email, password } = req.body || {}
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'email and password are required' })
+    }
+    res.json(await userStore.login(email, password))
+  } catch (error) {
+    handleError(res, error, 'Failed to sign in')
+  }
+})
+
+router.post('/logout', authenticate, async (req, res) => {
+  try {
+    await userStore.logout(tokenFrom(req) as string)
+    res.status(204).end()
+  } catch (error) {
+    handleError(res, error, 'Failed to sign out')
+  }
+})
+
+// The signed-in user, with their role and permissions in each workspace
+router.get('/me', authenticate, async (req, res) => {
+  try {
+    const user = currentUser(req)
+    const memberships = await userStore.listMemberships(user.id)
+    res.json({
+      user,
+      memberships: memberships.map(({ workspaceId, role }) => ({
+        workspaceId,
+        role,
+        permissions: permissionsOf(role),
+      })),
+    })
+  } catch (error) {
+    handleError(res, error, 'Failed to load account')
+  }
+})
+
+// An invitation's workspace, role and email, to show before accepting it
+router.get('/invitations/:token', async (req, res) => {
+  try {
+    const invitation = await userStore.getInvitation(req.params.token)
+    const workspace = await workspaceStore
+      .getWorkspace(invitation.workspaceId)
+      .catch(() => undefined)
+    res.json({ ...invitation, workspaceName: workspace?.name })
+  } catch (error) {
+    handleError(res, error, 'Failed to load invitation')
+  }
+})
+
+// Join an invitation's workspace with the signed-in account
+router.post('/invitations/:token/accept', authenticate, async (req, res) => {
+  try {
+    res.json(await userStore.acceptInvitation(req.params.token, currentUser(req).id))
+  } catch (error) {
+    handleError(res, error, 'Failed to accept invitation')
+  }
+})
+
+export { router as authRouter }
@@ -0,0 +1,171 @@
+import express from 'express'
+import {
+  currentUser,
+  requirePermission,
+  requiredCheckedWorkspace,
+  requiredWorkspace,
+} from '../middleware/auth'
+import { sendEntitlementError } from '../middleware/entitlements'
+import {
+  BillingNotConfiguredError,
+  BillingStateError,
+  CheckoutNotFoundError,
+  billingService,
+} from '../services/BillingService'
+import { EntitlementError, entitlements } from '../services/Entitlements'
+import { PLANS } from '../services/Plans'
+import { StripeError, WebhookSignatureError, verifyWebhook } from '../services/StripeClient'
+
+const router = express.Router()
+const webhookRouter = express.Router()
+
+const handleError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof CheckoutNotFoundError) {
+    return res.status(404).json({ error: error.message })
+  }
+  if (error instanceof BillingStateError) {
+    return res.status(409).json({ error: error.message })
+  }
+  if (error instanceof EntitlementError) {
+    return sendEntitlementError(res, error)
+  }
+  if (error instanceof BillingNotConfiguredError) {
+    return res.status(503).json({ error: error.message, code: 'not_configured' })
+  }
+  if (error instanceof StripeError) {
+    console.error(`${fallback}:`, error)
+    return res.status(502).json({ error: error.message })
+  }
+
+  console.error(`${fallback}:`, error)
+  res.status(500).json({
+    error: error instanceof Error ? error.message : fallback,
+  })
+}
+
+// The plans on sale and whether checkout is available
+router.get('/plans', (_req, res) => {
+  res.json({ plans: PLANS, configured: billingService.isConfigured() })
+})
+
+// A workspace's subscription and what it is entitled to (?workspaceId=)
+router.get(
+  '/subscription',
+  requirePermission('workspace:view', requiredWorkspace),
+  async (_req, res) => {
+    try {
+      const workspaceId = requiredCheckedWorkspace(res)
+      const [subscription, entitlement] = await Promise.all([
+        billingService.getSubscription(workspaceId),
+        billingService.getEntitlement(workspaceId),
+      ])
+      res.json({ subscription: subscription || null, entitlement })
+    } catch (error) {
+      handleError(res, error, 'Failed to load subscription')
+    }
+  }
+)
+
+// Start a Stripe Checkout for a plan ({ workspaceId, planId, companyName? }).
+// Responds with the Checkout page to redirect to.
+router.post(
+  '/checkout',
+  requirePermission('workspace:manage', requiredWorkspace),
+  async (req, res) => {
+    try {
+      const { planId, companyName } = req.body || {}
+      if (typeof planId !== 'string') {
+        return res.status(400).json({ error: 'planId is required' })
+      }
+
+      const session = await billingService.startCheckout({
+        workspaceId: requiredCheckedWorkspace(res),
+        planId,
+        customerEmail: currentUser(req).email,
+        companyName: typeof companyName === 'string' ? companyName : undefined,
+      })
+      res.status(201).json(session)
+    } catch (error) {
+      handleError(res, error, 'Failed to start checkout')
+    }
+  }
+)
+
+// How a checkout ended, once the buyer is back (?workspaceId=)
+router.get(
+  '/checkout/:sessionId',
+  requirePermission('workspace:view', requiredWorkspace),
+  async (req, res) => {
+    try {
+      res.json(
+        await billingService.getCheckout(requiredCheckedWorkspace(res), req.params.sessionId)
+      )
+    } catch (error) {
+      handleError(res, error, 'Failed to load checkout')
+    }
+  }
+)
+
+// Cancel a workspace's subscription at the end of the paid period
+// ({ workspaceId })
+router.post(
+  '/subscription/cancel',
+  requirePermission('workspace:manage', requiredWorkspace),
+  async (_req, res) => {
+    try {
+      res.json(await billingService.cancelAtPeriodEnd(requiredCheckedWorkspace(res)))
+    } catch (error) {
+      handleError(res, error, 'Failed to cancel subscription')
+    }
+  }
+)
+
+// What a workspace's plan allows and this month's analysis quota (?workspaceId=)
+router.get(
+  '/entitlements',
+  requirePermission('workspace:view', requiredWorkspace),
+  async (_req, res) => {
+    try {
+      res.json(await entitlements.getStatus(requiredCheckedWorkspace(res)))
+    } catch (error) {
+      handleError(res, error, 'Failed to load entitlements')
+    }
+  }
+)
+
+// Use one of this month's analyses before running one in the browser
+// ({ workspaceId }). 402 without a plan or once the quota is spent.
+router.post(
+  '/entitlements/analyses',
+  requirePermission('content:generate', requiredWorkspace),
+  async (_req, res) => {
+    try {
+      res.status(201).json(await entitlements.consumeAnalysis(requiredCheckedWorkspace(res)))
+    } catch (error) {
+      handleError(res, error, 'Failed to use an analysis')
+    }
+  }
+)
+
+// Stripe webhooks. Mounted ahead of the JSON body parser: the signature
+// covers the raw body. Responds 400 to bad signatures and 500 when applying
+// the event failed, so Stripe retries it.
+webhookRouter.post('/', express.raw({ type: '*/*' }), async (req, res) => {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET
+  if (!secret) {
+    return res.status(503).json({ error: 'Set STRIPE_WEBHOOK_SECRET to receive Stripe webhooks' })
+  }
+
+  try {
+    const event = verifyWebhook(req.body, req.header('stripe-signature'), secret)
+    const outcome = await billingService.handleEvent(event)
+    res.json({ received: true, outcome })
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      return res.status(400).json({ error: error.message })
+    }
+    handleError(res, error, 'Failed to handle Stripe webhook')
+  }
+})
+
+export { router as billingRouter, webhookRouter as stripeWebhookRouter }
@@ -0,0 +1,93 @@
+import express from 'express'
+import { requirePermission } from '../middleware/auth'
+import { calendarFeedService } from '../services/CalendarFeed'
+import { WorkspaceNotFoundError } from '../services/WorkspaceStore'
+
+const router = express.Router()
+const feedRouter = express.Router()
+
+const ICS_TYPE = 'text/calendar; charset=utf-8'
+
+const handleError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof WorkspaceNotFoundError) {
+    return res.status(404).json({ error: error.message })
+  }
+
+  console.error(`${fallback}:`, error)
+  res.status(500).json({
+    error: error instanceof Error ? error.message : fallback,
+  })
+}
+
+// Where calendars reach the feed. PUBLIC_API_URL when the backend sits
+// behind a proxy that changes the host.
+const feedUrl = (req: express.Request, token: string) =>
+  `${process.env.PUBLIC_API_URL || `${req.protocol}://${req.get('host')}`}/api/feeds/${token}.ics`
+
+const fileName = (name: string) => {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+  return `${slug || 'campaigns'}.ics`
+}
+
+// Whether the workspace has a feed
+router.get('/:workspaceId', requirePermission('workspace:view'), async (req, res) => {
+  try {
+    res.json(await calendarFeedService.getStatus(req.params.workspaceId))
+  } catch (error) {
+    handleError(res, error, 'Failed to load calendar feed')
+  }
+})
+
+// Start a feed, or replace its URL. The URL is only shown in this response.
+router.post('/:workspaceId', requirePermission('workspace:manage'), async (req, res) => {
+  try {
+    const { status, token } = await calendarFeedService.createFeed(req.params.workspaceId)
+    res.status(201).json({ ...status, url: feedUrl(req, token) })
+  } catch (error) {
+    handleError(res, error, 'Failed to create calendar feed')
+  }
+})
+
+// Stop the feed; subscribed calendars stop updating
+router.delete('/:workspaceId', requirePermission('workspace:manage'), async (req, res) => {
+  try {
+    await calendarFeedService.revokeFeed(req.params.workspaceId)
+    res.status(204).end()
+  } catch (error) {
+    handleError(res, error, 'Failed to revoke calendar feed')
+  }
+})
+
+// The workspace's calendar as a one-off .ics download
+router.get('/:workspaceId/export.ics', requirePermission('workspace:view'), async (req, res) => {
+  try {
+    const { name, ics } = await calendarFeedService.buildCalendar(req.params.workspaceId)
+    res.setHeader('Content-Type', ICS_TYPE)
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName(name)}"`)
+    res.send(ics)
+  } catch (error) {
+    handleError(res, error, 'Failed to export calendar')
+  }
+})
+
+// The subscribable feed. Mounted without authenticate: calendar apps can't
+// sign in, so the secret token in the URL is the credential.
+feedRouter.get('/:token.ics', async (req, res) => {
+  try {
+    const workspaceId = await calendarFeedService.workspaceForToken(req.params.token)
+    if (!workspaceId) {
+      return res.status(404).json({ error: 'Calendar feed not found' })
+    }
+    const { ics } = await calendarFeedService.buildCalendar(workspaceId)
+    res.setHeader('Content-Type', ICS_TYPE)
+    res.setHeader('Cache-Control', 'private, max-age=300')
+    res.send(ics)
+  } catch (error) {
+    handleError(res, error, 'Failed to serve calendar feed')
+  }
+})
+
+export { router as calendarFeedRouter, feedRouter as calendarFeedPublicRouter }
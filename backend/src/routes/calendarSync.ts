@@ -0,0 +1,166 @@
+import express from 'express'
+import { requirePermission } from '../middleware/auth'
+import {
+  CONFLICT_POLICIES,
+  CalendarInUseError,
+  CalendarNotConfiguredError,
+  CalendarNotConnectedError,
+  CalendarSyncInputError,
+  type ConflictPolicy,
+  type ConnectOptions,
+  calendarSyncService,
+} from '../services/CalendarSync'
+import { GoogleCalendarError } from '../services/GoogleCalendarClient'
+
+const router = express.Router()
+const oauthRouter = express.Router()
+
+const frontendUrl = () => process.env.FRONTEND_URL || 'http://localhost:3000'
+
+const isPolicy = (value: unknown): value is ConflictPolicy =>
+  CONFLICT_POLICIES.includes(value as ConflictPolicy)
+
+const handleError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof CalendarSyncInputError) {
+    return res.status(400).json({ error: error.message })
+  }
+  if (error instanceof CalendarNotConnectedError) {
+    return res.status(404).json({ error: error.message })
+  }
+  if (error instanceof CalendarInUseError) {
+    return res.status(409).json({ error: error.message })
+  }
+  if (error instanceof CalendarNotConfiguredError) {
+    return res.status(503).json({ error: error.message, code: 'not_configured' })
+  }
+  if (error instanceof GoogleCalendarError) {
+    console.error(`${fallback}:`, error)
+    // Google's 404 means the calendar isn't there or isn't shared with us
+    return res
+      .status(error.status === 404 || error.status === 403 ? 409 : 502)
+      .json({ error: error.message })
+  }
+
+  console.error(`${fallback}:`, error)
+  res.status(500).json({
+    error: error instanceof Error ? error.message : fallback,
+  })
+}
+
+// { calendarId?, conflictPolicy? }, or a 400 response
+const connectOptions = (req: express.Request, res: express.Response) => {
+  const { calendarId, conflictPolicy } = req.body || {}
+  if (calendarId !== undefined && typeof calendarId !== 'string') {
+    res.status(400).json({ error: 'calendarId must be a string' })
+    return undefined
+  }
+  if (conflictPolicy !== undefined && !isPolicy(conflictPolicy)) {
+    res.status(400).json({ error: `conflictPolicy must be one of ${CONFLICT_POLICIES.join(', ')}` })
+    return undefined
+  }
+  return { calendarId: calendarId || undefined, conflictPolicy } as ConnectOptions
+}
+
+// The workspace's calendar connection and what the server can connect with
+router.get('/:workspaceId', requirePermission('workspace:view'), async (req, res) => {
+  try {
+    res.json(await calendarSyncService.getStatus(req.params.workspaceId))
+  } catch (error) {
+    handleError(res, error, 'Failed to load calendar connection')
+  }
+})
+
+// Connect a calendar shared with the server's service account
+// ({ calendarId, conflictPolicy? }). A calendar another workspace connected
+// answers 409.
+router.put('/:workspaceId', requirePermission('workspace:manage'), async (req, res) => {
+  try {
+    const options = connectOptions(req, res)
+    if (!options) return
+    res.json(await calendarSyncService.connectServiceAccount(req.params.workspaceId, options))
+  } catch (error) {
+    handleError(res, error, 'Failed to connect calendar')
+  }
+})
+
+// Connect with the caller's Google account ({ calendarId?, conflictPolicy? }).
+// Responds with Google's consent page to redirect to.
+router.post('/:workspaceId/oauth', requirePermission('workspace:manage'), async (req, res) => {
+  try {
+    const options = connectOptions(req, res)
+    if (!options) return
+    res.status(201).json(await calendarSyncService.startOAuth(req.params.workspaceId, options))
+  } catch (error) {
+    handleError(res, error, 'Failed to start Google sign-in')
+  }
+})
+
+// Change how conflicting edits are resolved ({ conflictPolicy })
+router.patch('/:workspaceId', requirePermission('workspace:manage'), async (req, res) => {
+  try {
+    const { conflictPolicy } = req.body || {}
+    if (!isPolicy(conflictPolicy)) {
+      return res
+        .status(400)
+        .json({ error: `conflictPolicy must be one of ${CONFLICT_POLICIES.join(', ')}` })
+    }
+    res.json(await calendarSyncService.setConflictPolicy(req.params.workspaceId, conflictPolicy))
+  } catch (error) {
+    handleError(res, error, 'Failed to update calendar settings')
+  }
+})
+
+router.delete('/:workspaceId', requirePermission('workspace:manage'), async (req, res) => {
+  try {
+    await calendarSyncService.disconnect(req.params.workspaceId)
+    res.status(204).end()
+  } catch (error) {
+    handleError(res, error, 'Failed to disconnect calendar')
+  }
+})
+
+// Two-way sync ({ campaigns, removedCampaignIds? }). Responds with the date
+// changes made in Google Calendar for the client to apply.
+router.post('/:workspaceId/sync', requirePermission('integrations:use'), async (req, res) => {
+  try {
+    const { campaigns, removedCampaignIds } = req.body || {}
+    res.json(
+      await calendarSyncService.sync(req.params.workspaceId, {
+        campaigns,
+        removedCampaignIds: Array.isArray(removedCampaignIds) ? removedCampaignIds : [],
+      })
+    )
+  } catch (error) {
+    handleError(res, error, 'Failed to sync calendar')
+  }
+})
+
+// Where Google sends the user back after consent (GOOGLE_OAUTH_REDIRECT_URI).
+// Mounted without authenticate: the state ties it to the request that
+// started it. Redirects to the app with ?calendar=connected or
+// ?calendar=error&message=….
+oauthRouter.get('/callback', async (req, res) => {
+  const back = (params: Record<string, string>) =>
+    res.redirect(`${frontendUrl()}/?${new URLSearchParams(params)}`)
+
+  const { code, state, error } = req.query
+  if (typeof error === 'string') {
+    return back({ calendar: 'error', message: error })
+  }
+  if (typeof code !== 'string' || typeof state !== 'string') {
+    return back({ calendar: 'error', message: 'Google sent no authorization code' })
+  }
+
+  try {
+    const workspaceId = await calendarSyncService.completeOAuth(state, code)
+    back({ calendar: 'connected', workspaceId })
+  } catch (callbackError) {
+    console.error('Failed to complete Google sign-in:', callbackError)
+    back({
+      calendar: 'error',
+      message: callbackError instanceof Error ? callbackError.message : 'Google sign-in failed',
+    })
+  }
+})
+
+export { router as calendarSyncRouter, oauthRouter as calendarOAuthRouter }
@@ -1,9 +1,22 @@
 import express from 'express'
+import { auditGeneration } from '../middleware/audit'
+import { requirePermission, requiredCheckedWorkspace, requiredWorkspace } from '../middleware/auth'
+import { requireEntitledModel } from '../middleware/entitlements'
 import { CampaignGenerator } from '../services/CampaignGenerator'
+import { entitlements } from '../services/Entitlements'
+import { failureBody, failureStatus } from './generationErrors'
 
 const router = express.Router()
 
-// Generate 13-week campaign topics
+// Generation spends the AI budget of the workspace it names (?workspaceId= or
+// in the body), which every request must give, with models its plan includes,
+// and is audited
+router.use(requirePermission('content:generate', requiredWorkspace))
+router.use(requireEntitledModel())
+router.use(auditGeneration('campaigns'))
+
+// Generate 13-week campaign topics. A marketing calendar uses one of the
+// workspace's monthly analyses.
 router.post('/generate-topics', async (req, res) => {
   try {
     const { mcpContext, weeks = 13, aiConfig } = req.body
@@ -12,7 +25,8 @@ router.post('/generate-topics', async (req, res) => {
       return res.status(400).json({ error: 'MCP context is required' })
     }
 
-    const generator = new CampaignGenerator(aiConfig)
+    await entitlements.consumeAnalysis(requiredCheckedWorkspace(res))
+    const generator = new CampaignGenerator(aiConfig, requiredCheckedWorkspace(res))
     const topics = await generator.generateCampaignTopics(mcpContext, weeks)
 
     res.json({
@@ -23,9 +37,7 @@ router.post('/generate-topics', async (req, res) => {
     })
   } catch (error) {
     console.error('Failed to generate campaign topics:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to generate topics',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to generate topics'))
   }
 })
 
@@ -38,15 +50,13 @@ router.post('/generate-plan', async (req, res) => {
       return res.status(400).json({ error: 'MCP context and topics are required' })
     }
 
-    const generator = new CampaignGenerator(aiConfig)
+    const generator = new CampaignGenerator(aiConfig, requiredCheckedWorkspace(res))
     const plan = await generator.generateDetailedCampaignPlan(mcpContext, topics)
 
     res.json(plan)
   } catch (error) {
     console.error('Failed to generate campaign plan:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to generate plan',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to generate plan'))
   }
 })
 
@@ -59,15 +69,13 @@ router.post('/generate-content', async (req, res) => {
       return res.status(400).json({ error: 'MCP context and topic are required' })
     }
 
-    const generator = new CampaignGenerator(aiConfig)
+    const generator = new CampaignGenerator(aiConfig, requiredCheckedWorkspace(res))
     const content = await generator.generateCampaignContent(mcpContext, topic, contentTypes)
 
     res.json(content)
   } catch (error) {
     console.error('Failed to generate campaign content:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to generate content',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to generate content'))
   }
 })
 
@@ -80,15 +88,13 @@ router.post('/channel-matrix', async (req, res) => {
       return res.status(400).json({ error: 'MCP context is required' })
     }
 
-    const generator = new CampaignGenerator()
+    const generator = new CampaignGenerator(undefined, requiredCheckedWorkspace(res))
     const matrix = await generator.createChannelMatrix(mcpContext, topics)
 
     res.json(matrix)
   } catch (error) {
     console.error('Failed to create channel matrix:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to create channel matrix',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to create channel matrix'))
   }
 })
 
@@ -101,15 +107,13 @@ router.post('/simulate-engagement', async (req, res) => {
       return res.status(400).json({ error: 'MCP context and campaign content are required' })
     }
 
-    const generator = new CampaignGenerator(aiConfig)
+    const generator = new CampaignGenerator(aiConfig, requiredCheckedWorkspace(res))
     const simulation = await generator.simulatePersonaEngagement(mcpContext, campaignContent)
 
     res.json(simulation)
   } catch (error) {
     console.error('Failed to simulate engagement:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to simulate engagement',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to simulate engagement'))
   }
 })
 
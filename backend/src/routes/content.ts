@@ -1,9 +1,71 @@
 import express from 'express'
-import { ContentOrchestrator } from '../services/ContentOrchestrator'
+import { auditGeneration } from '../middleware/audit'
+import { requirePermission, requiredCheckedWorkspace, requiredWorkspace } from '../middleware/auth'
+import { requireEntitledModel } from '../middleware/entitlements'
+import { ContentOrchestrator, type StreamOptions } from '../services/ContentOrchestrator'
+import { CONTENT_PACKAGE_JOB, splitAIConfig } from '../services/ContentPackageJob'
+import { entitlements } from '../services/Entitlements'
+import { jobQueue } from '../services/JobQueue'
+import { failureBody, failureStatus } from './generationErrors'
 
 const router = express.Router()
 
-// Generate blog post
+// Generation spends the AI budget of the workspace it names (?workspaceId= or
+// in the body), which every request must give, with models its plan includes,
+// and is audited
+router.use(requirePermission('content:generate', requiredWorkspace))
+router.use(requireEntitledModel())
+router.use(auditGeneration('content'))
+
+// Blog posts, and packages with one, use one of the workspace's monthly
+// analyses. Charged before generating; a job's retries aren't charged again.
+const chargeAnalysis = async (res: express.Response, contentTypes?: string[]) => {
+  if (ContentOrchestrator.packageSteps(contentTypes).includes('blog')) {
+    await entitlements.consumeAnalysis(requiredCheckedWorkspace(res))
+  }
+}
+
+const wantsStream = (req: express.Request) =>
+  req.query.stream === 'true' || req.headers.accept === 'text/event-stream'
+
+/**
+ * Send generated text as Server-Sent Events: `token` events while the model
+ * writes, then a `done` event with the parsed result (or `error`). Closing the
+ * connection cancels generation.
+ */
+async function streamGeneration(
+  res: express.Response,
+  generate: (stream: StreamOptions) => Promise<unknown>
+): Promise<void> {
+  const controller = new AbortController()
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort()
+  })
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  })
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+
+  try {
+    const result = await generate({
+      onToken: (text) => send('token', { text }),
+      signal: controller.signal,
+    })
+    send('done', result)
+  } catch (error) {
+    if (controller.signal.aborted) return
+    console.error('Streaming generation failed:', error)
+    send('error', failureBody(error, 'Generation failed'))
+  }
+  res.end()
+}
+
+// Generate blog post. Add ?stream=true to receive the text as it is written
 router.post('/generate-blog', async (req, res) => {
   try {
     const { mcpContext, topic, length, customInstructions, aiConfig } = req.body
@@ -12,19 +74,23 @@ router.post('/generate-blog', async (req, res) => {
       return res.status(400).json({ error: 'MCP context and topic are required' })
     }
 
-    const orchestrator = new ContentOrchestrator(aiConfig)
+    await chargeAnalysis(res, ['blog'])
+    const orchestrator = new ContentOrchestrator(aiConfig, requiredCheckedWorkspace(res))
+    if (wantsStream(req)) {
+      return streamGeneration(res, (stream) =>
+        orchestrator.generateBlog(mcpContext, topic, length, customInstructions, stream)
+      )
+    }
     const blog = await orchestrator.generateBlog(mcpContext, topic, length, customInstructions)
 
     res.json(blog)
   } catch (error) {
     console.error('Failed to generate blog:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to generate blog',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to generate blog'))
   }
 })
 
-// Generate video script
+// Generate video script (supports ?stream=true)
 router.post('/generate-video-script', async (req, res) => {
   try {
     const { mcpContext, topic, blogContent, aiConfig } = req.body
@@ -33,15 +99,18 @@ router.post('/generate-video-script', async (req, res) => {
       return res.status(400).json({ error: 'MCP context and topic are required' })
     }
 
-    const orchestrator = new ContentOrchestrator(aiConfig)
+    const orchestrator = new ContentOrchestrator(aiConfig, requiredCheckedWorkspace(res))
+    if (wantsStream(req)) {
+      return streamGeneration(res, (stream) =>
+        orchestrator.generateVideoScript(mcpContext, topic, blogContent, stream)
+      )
+    }
     const script = await orchestrator.generateVideoScript(mcpContext, topic, blogContent)
 
     res.json(script)
   } catch (error) {
     console.error('Failed to generate video script:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to generate video script',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to generate video script'))
   }
 })
 
@@ -54,19 +123,17 @@ router.post('/generate-social', async (req, res) => {
       return res.status(400).json({ error: 'MCP context and topic are required' })
     }
 
-    const orchestrator = new ContentOrchestrator(aiConfig)
+    const orchestrator = new ContentOrchestrator(aiConfig, requiredCheckedWorkspace(res))
     const socialPosts = await orchestrator.generateSocialPosts(mcpContext, topic, platforms)
 
     res.json(socialPosts)
   } catch (error) {
     console.error('Failed to generate social posts:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to generate social posts',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to generate social posts'))
   }
 })
 
-// Generate email campaign
+// Generate email campaign (supports ?stream=true)
 router.post('/generate-email', async (req, res) => {
   try {
     const { mcpContext, topic, type, aiConfig } = req.body
@@ -75,15 +142,18 @@ router.post('/generate-email', async (req, res) => {
       return res.status(400).json({ error: 'MCP context and topic are required' })
     }
 
-    const orchestrator = new ContentOrchestrator(aiConfig)
+    const orchestrator = new ContentOrchestrator(aiConfig, requiredCheckedWorkspace(res))
+    if (wantsStream(req)) {
+      return streamGeneration(res, (stream) =>
+        orchestrator.generateEmail(mcpContext, topic, type, stream)
+      )
+    }
     const email = await orchestrator.generateEmail(mcpContext, topic, type)
 
     res.json(email)
   } catch (error) {
     console.error('Failed to generate email:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to generate email',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to generate email'))
   }
 })
 
@@ -96,15 +166,13 @@ router.post('/generate-voice', async (req, res) => {
       return res.status(400).json({ error: 'Text content is required' })
     }
 
-    const orchestrator = new ContentOrchestrator()
+    const orchestrator = new ContentOrchestrator(undefined, requiredCheckedWorkspace(res))
     const audio = await orchestrator.generateVoice(text, voiceId, settings)
 
     res.json(audio)
   } catch (error) {
     console.error('Failed to generate voice:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to generate voice',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to generate voice'))
   }
 })
 
@@ -117,15 +185,13 @@ router.post('/generate-images', async (req, res) => {
       return res.status(400).json({ error: 'Topic is required' })
     }
 
-    const orchestrator = new ContentOrchestrator(aiConfig)
+    const orchestrator = new ContentOrchestrator(aiConfig, requiredCheckedWorkspace(res))
     const images = await orchestrator.generateImages(mcpContext, topic, imageType, specifications)
 
     res.json(images)
   } catch (error) {
     console.error('Failed to generate images:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to generate images',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to generate images'))
   }
 })
 
@@ -138,15 +204,13 @@ router.post('/create-video', async (req, res) => {
       return res.status(400).json({ error: 'Script is required' })
     }
 
-    const orchestrator = new ContentOrchestrator()
+    const orchestrator = new ContentOrchestrator(undefined, requiredCheckedWorkspace(res))
     const video = await orchestrator.createVideo(script, voiceSettings, videoSettings)
 
     res.json(video)
   } catch (error) {
     console.error('Failed to create video:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to create video',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to create video'))
   }
 })
 
@@ -159,7 +223,8 @@ router.post('/generate-package', async (req, res) => {
       return res.status(400).json({ error: 'MCP context and topic are required' })
     }
 
-    const orchestrator = new ContentOrchestrator(aiConfig)
+    await chargeAnalysis(res, contentTypes)
+    const orchestrator = new ContentOrchestrator(aiConfig, requiredCheckedWorkspace(res))
     const contentPackage = await orchestrator.generateContentPackage(
       mcpContext,
       topic,
@@ -169,9 +234,36 @@ router.post('/generate-package', async (req, res) => {
     res.json(contentPackage)
   } catch (error) {
     console.error('Failed to generate content package:', error)
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to generate content package',
-    })
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to generate content package'))
+  }
+})
+
+// Queue a content package as a background job. Responds immediately with the
+// job; follow it via GET /api/jobs/:id or /api/jobs/:id/events.
+router.post('/generate-package/jobs', async (req, res) => {
+  try {
+    const { mcpContext, topic, contentTypes, aiConfig } = req.body
+
+    if (!mcpContext || !topic) {
+      return res.status(400).json({ error: 'MCP context and topic are required' })
+    }
+
+    await chargeAnalysis(res, contentTypes)
+    const { aiConfig: settings, apiKey } = splitAIConfig(aiConfig)
+    const job = await jobQueue.enqueue(
+      CONTENT_PACKAGE_JOB,
+      { mcpContext, topic, contentTypes, aiConfig: settings },
+      {
+        workspaceId: requiredCheckedWorkspace(res),
+        secrets: apiKey,
+        total: ContentOrchestrator.packageSteps(contentTypes).length,
+      }
+    )
+
+    res.status(202).location(`/api/jobs/${job.id}`).json(job)
+  } catch (error) {
+    console.error('Failed to queue content package:', error)
+    res.status(failureStatus(error)).json(failureBody(error, 'Failed to queue content package'))
   }
 })
 
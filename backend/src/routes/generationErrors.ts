@@ -0,0 +1,24 @@
+import { EntitlementError } from '../services/Entitlements'
+import { StructuredOutputError } from '../services/StructuredOutput'
+import { BudgetExceededError } from '../services/UsageLedger'
+
+/**
+ * Response status for a failed generation: 402 once the workspace has used
+ * up its monthly AI budget or when its plan doesn't cover the generation,
+ * 502 when the model's output still failed validation after repair attempts
+ */
+export const failureStatus = (error: unknown): number => {
+  if (error instanceof BudgetExceededError || error instanceof EntitlementError) return 402
+  if (error instanceof StructuredOutputError) return 502
+  return 500
+}
+
+/**
+ * Error response body, listing validation issues for invalid AI output and
+ * the plan to upgrade to when the plan falls short
+ */
+export const failureBody = (error: unknown, fallback: string) => ({
+  error: error instanceof Error ? error.message : fallback,
+  ...(error instanceof StructuredOutputError && { issues: error.issues }),
+  ...(error instanceof EntitlementError && { code: error.code, upgradeTo: error.upgradeTo }),
+})
@@ -1,10 +1,13 @@
 import express from 'express'
 import { google } from 'googleapis'
+import { checkedWorkspace, requirePermission } from '../middleware/auth'
 import { GoogleDriveService } from '../services/GoogleDriveService'
 import { GoogleSheetsService } from '../services/GoogleSheetsService'
 
 const router = express.Router()
 
+router.use(requirePermission('integrations:use'))
+
 // Test Google Workspace connection
 router.post('/test-connection', async (req, res) => {
   try {
@@ -46,13 +49,18 @@ router.post('/test-connection', async (req, res) => {
 router.post('/drive/create-campaign-folders', async (req, res) => {
   try {
     const { companyName, campaignName, parentFolderId, config } = req.body
+    const workspaceId = checkedWorkspace(res)
 
     const driveService = new GoogleDriveService(config)
-    const result = await driveService.createCampaignFolders(
-      companyName,
-      campaignName,
-      parentFolderId
-    )
+
+    // Without an explicit parent, file campaigns under the workspace's root folder
+    const parentId =
+      parentFolderId ||
+      (workspaceId
+        ? (await driveService.createCompanyRootFolder(companyName, workspaceId)).id
+        : undefined)
+
+    const result = await driveService.createCampaignFolders(companyName, campaignName, parentId)
 
     res.json(result)
   } catch (error) {
@@ -67,9 +75,10 @@ router.post('/drive/create-campaign-folders', async (req, res) => {
 router.post('/drive/create-company-folder', async (req, res) => {
   try {
     const { companyName, config } = req.body
+    const workspaceId = checkedWorkspace(res)
 
     const driveService = new GoogleDriveService(config)
-    const result = await driveService.createCompanyRootFolder(companyName)
+    const result = await driveService.createCompanyRootFolder(companyName, workspaceId)
 
     res.json(result)
   } catch (error) {
@@ -0,0 +1,143 @@
+import express from 'express'
+import {
+  type ScopeResolver,
+  currentUser,
+  requirePermission,
+  requiredCheckedWorkspace,
+  requiredWorkspace,
+} from '../middleware/auth'
+import { auditLog, userActor } from '../services/AuditLog'
+import {
+  type Job,
+  JobNotFoundError,
+  JobStateError,
+  type JobStatus,
+  isFinishedJob,
+  jobQueue,
+} from '../services/JobQueue'
+
+const router = express.Router()
+
+const HEARTBEAT_MS = 15000
+
+const handleError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof JobNotFoundError) {
+    return res.status(404).json({ error: error.message })
+  }
+  if (error instanceof JobStateError) {
+    return res.status(409).json({ error: error.message })
+  }
+
+  console.error(`${fallback}:`, error)
+  res.status(500).json({
+    error: error instanceof Error ? error.message : fallback,
+  })
+}
+
+const queryString = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+const jobScope: ScopeResolver = async (req) => {
+  const job = await jobQueue.getJob(req.params.id).catch(() => undefined)
+  return job?.workspaceId
+}
+
+// A workspace's jobs, newest first (?workspaceId=). Filter with ?type= and ?status=
+router.get('/', requirePermission('workspace:view', requiredWorkspace), async (req, res) => {
+  try {
+    const jobs = await jobQueue.listJobs({
+      type: queryString(req.query.type),
+      status: queryString(req.query.status) as JobStatus | undefined,
+      workspaceId: requiredCheckedWorkspace(res),
+    })
+    res.json({ jobs })
+  } catch (error) {
+    handleError(res, error, 'Failed to list jobs')
+  }
+})
+
+// Get a job's status, progress, checkpoints and result (for polling)
+router.get('/:id', requirePermission('workspace:view', jobScope), async (req, res) => {
+  try {
+    res.json(await jobQueue.getJob(req.params.id))
+  } catch (error) {
+    handleError(res, error, 'Failed to get job')
+  }
+})
+
+// Stream job updates as Server-Sent Events until the job finishes
+router.get('/:id/events', requirePermission('workspace:view', jobScope), async (req, res) => {
+  try {
+    const job = await jobQueue.getJob(req.params.id)
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    })
+
+    const send = (update: Job) => {
+      res.write(`event: job\ndata: ${JSON.stringify(update)}\n\n`)
+      if (isFinishedJob(update)) {
+        close()
+      }
+    }
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS)
+    const unsubscribe = jobQueue.subscribe(job.id, send)
+    const close = () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+      res.end()
+    }
+
+    res.on('close', () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+    })
+
+    send(job)
+  } catch (error) {
+    if (!res.headersSent) {
+      handleError(res, error, 'Failed to stream job')
+    }
+  }
+})
+
+// Cancel a queued or running job
+router.post('/:id/cancel', requirePermission('content:generate', jobScope), async (req, res) => {
+  try {
+    res.json(await jobQueue.cancel(req.params.id))
+  } catch (error) {
+    handleError(res, error, 'Failed to cancel job')
+  }
+})
+
+// Retry a failed or cancelled job from its last checkpoint
+router.post('/:id/retry', requirePermission('content:generate', jobScope), async (req, res) => {
+  try {
+    const job = await jobQueue.retry(req.params.id)
+    await auditLog.record({
+      workspaceId: job.workspaceId,
+      actor: userActor(currentUser(req)),
+      action: 'content.regenerated',
+      entity: { type: 'job', id: job.id },
+      summary: `Retried ${job.type} job`,
+      metadata: { type: job.type, attempts: job.attempts },
+    })
+    res.json(job)
+  } catch (error) {
+    handleError(res, error, 'Failed to retry job')
+  }
+})
+
+// Delete a finished job
+router.delete('/:id', requirePermission('content:generate', jobScope), async (req, res) => {
+  try {
+    await jobQueue.deleteJob(req.params.id)
+    res.status(204).end()
+  } catch (error) {
+    handleError(res, error, 'Failed to delete job')
+  }
+})
+
+export { router as jobRouter }
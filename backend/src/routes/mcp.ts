@@ -0,0 +1,152 @@
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import express from 'express'
+import {
+  currentUser,
+  requirePermission,
+  requiredCheckedWorkspace,
+  requiredWorkspace,
+} from '../middleware/auth'
+import { type Permission, hasPermission } from '../services/AccessControl'
+import { auditLog, diffFields, userActor } from '../services/AuditLog'
+import { InvalidContextError, getCompanyContextStore } from '../services/CompanyContextStore'
+import { createSlottedMCPServer } from '../services/SlottedMCPServer'
+import { userStore } from '../services/UserStore'
+
+const router = express.Router()
+
+// Active SSE sessions, who opened them and for which workspace, keyed by the
+// transport session id
+const sessions = new Map<
+  string,
+  { transport: SSEServerTransport; userId: string; workspaceId: string }
+>()
+
+/**
+ * Whether the user's current role in the workspace grants the permission.
+ * Read on every use, so a session stops working for a removed or demoted
+ * member without reconnecting.
+ */
+const allowed = async (userId: string, workspaceId: string, permission: Permission) => {
+  const role = await userStore.getRole(userId, workspaceId)
+  return role !== undefined && hasPermission(role, permission)
+}
+
+// Open an MCP session over Server-Sent Events serving the Company DNA of the
+// brand in ?workspaceId=. Clients that sign in with ?access_token= get
+// it back in the messages endpoint, since they can't send headers either.
+// Viewing is enough to connect; each tool call is checked against the
+// caller's role (content:generate to generate, workspace:edit to save).
+router.get('/sse', requirePermission('workspace:view', requiredWorkspace), async (req, res) => {
+  try {
+    const workspaceId = requiredCheckedWorkspace(res)
+    const user = currentUser(req)
+    const store = getCompanyContextStore(workspaceId)
+    const token = typeof req.query.access_token === 'string' ? req.query.access_token : undefined
+    const endpoint = `${req.baseUrl}/messages${token ? `?access_token=${encodeURIComponent(token)}` : ''}`
+    const transport = new SSEServerTransport(endpoint, res)
+    sessions.set(transport.sessionId, { transport, userId: user.id, workspaceId })
+
+    res.on('close', () => {
+      sessions.delete(transport.sessionId)
+    })
+
+    const server = createSlottedMCPServer({
+      store,
+      workspaceId,
+      actor: userActor(user),
+      authorize: async (permission) => {
+        if (!(await allowed(user.id, workspaceId, permission))) {
+          throw new Error(`You don't have ${permission} access in workspace ${workspaceId}`)
+        }
+      },
+    })
+    await server.connect(transport)
+  } catch (error) {
+    console.error('Failed to open MCP session:', error)
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to open MCP session',
+      })
+    }
+  }
+})
+
+// Receive client messages for an SSE session the caller opened
+router.post('/messages', async (req, res) => {
+  const sessionId = req.query.sessionId as string
+  const session = sessions.get(sessionId)
+
+  if (!session || session.userId !== currentUser(req).id) {
+    return res.status(404).json({ error: `No active MCP session: ${sessionId}` })
+  }
+
+  try {
+    if (!(await allowed(session.userId, session.workspaceId, 'workspace:view'))) {
+      return res
+        .status(403)
+        .json({ error: `You don't have workspace:view access in workspace ${session.workspaceId}` })
+    }
+    await session.transport.handlePostMessage(req, res, req.body)
+  } catch (error) {
+    console.error('Failed to handle MCP message:', error)
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to handle MCP message',
+      })
+    }
+  }
+})
+
+// Get the Company DNA currently served to MCP clients (?workspaceId=)
+router.get(
+  '/context',
+  requirePermission('workspace:view', requiredWorkspace),
+  async (_req, res) => {
+    try {
+      const context = await getCompanyContextStore(requiredCheckedWorkspace(res)).getContext()
+      if (!context) {
+        return res.status(404).json({ error: 'No company context available' })
+      }
+
+      res.json(context)
+    } catch (error) {
+      console.error('Failed to load MCP context:', error)
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to load context',
+      })
+    }
+  }
+)
+
+// Publish Company DNA from the frontend context engine (?workspaceId=).
+// Changed fields are recorded in the audit log.
+router.put('/context', requirePermission('workspace:edit', requiredWorkspace), async (req, res) => {
+  try {
+    const workspaceId = requiredCheckedWorkspace(res)
+    const store = getCompanyContextStore(workspaceId)
+    const previous = await store.getContext()
+    const context = await store.setContext(req.body)
+    const changes = diffFields(previous, context)
+    if (changes.length > 0) {
+      await auditLog.record({
+        workspaceId,
+        actor: userActor(currentUser(req)),
+        action: 'context.published',
+        entity: { type: 'context', id: workspaceId },
+        summary: `Published Company DNA to MCP clients (${changes.length} field(s) changed)`,
+        changes,
+      })
+    }
+    res.json({ success: true, updatedAt: new Date().toISOString() })
+  } catch (error) {
+    if (error instanceof InvalidContextError) {
+      return res.status(400).json({ error: 'Invalid Company DNA', issues: error.issues })
+    }
+    console.error('Failed to save MCP context:', error)
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to save context',
+    })
+  }
+})
+
+export { router as mcpRouter }
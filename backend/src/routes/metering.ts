@@ -0,0 +1,191 @@
+import express from 'express'
+import {
+  currentUser,
+  requirePermission,
+  requiredCheckedWorkspace,
+  requiredWorkspace,
+} from '../middleware/auth'
+import { invoiceCsv, invoicePdf } from '../services/InvoiceDocument'
+import {
+  BROWSER_BILLABLE_KINDS,
+  type BillableKind,
+  MeteringConfigError,
+  metering,
+  validateRates,
+} from '../services/Metering'
+import { StripeError } from '../services/StripeClient'
+import { WorkspaceNotFoundError } from '../services/WorkspaceStore'
+
+const router = express.Router()
+
+const queryString = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+const handleError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof WorkspaceNotFoundError) {
+    return res.status(404).json({ error: error.message })
+  }
+  if (error instanceof MeteringConfigError) {
+    return res.status(503).json({ error: error.message, code: 'not_configured' })
+  }
+  if (error instanceof StripeError) {
+    console.error(`${fallback}:`, error)
+    return res.status(502).json({ error: error.message })
+  }
+
+  console.error(`${fallback}:`, error)
+  res.status(500).json({
+    error: error instanceof Error ? error.message : fallback,
+  })
+}
+
+/**
+ * The date in ?date= (any day in the billing period wanted), now when
+ * absent, or undefined when it isn't a date
+ */
+const requestDate = (req: express.Request): Date | undefined => {
+  const date = queryString(req.query.date)
+  if (date === undefined) return new Date()
+  return Number.isNaN(Date.parse(date)) ? undefined : new Date(date)
+}
+
+// Billable event counts for a workspace's billing period (?workspaceId=, ?date=)
+router.get('/usage', requirePermission('workspace:view', requiredWorkspace), async (req, res) => {
+  try {
+    const date = requestDate(req)
+    if (!date) {
+      return res.status(400).json({ error: 'date must be an ISO date' })
+    }
+    const workspaceId = requiredCheckedWorkspace(res)
+    const [summary, rates] = await Promise.all([
+      metering.summarize(workspaceId, date),
+      metering.getRates(workspaceId),
+    ])
+    res.json({ ...summary, rates, stripeReporting: metering.isReportingToStripe() })
+  } catch (error) {
+    handleError(res, error, 'Failed to summarize usage')
+  }
+})
+
+// The events behind a period's counts, newest first (?workspaceId=, ?date=)
+router.get('/events', requirePermission('workspace:view', requiredWorkspace), async (req, res) => {
+  try {
+    const date = requestDate(req)
+    if (!date) {
+      return res.status(400).json({ error: 'date must be an ISO date' })
+    }
+    const workspaceId = requiredCheckedWorkspace(res)
+    const period = await metering.periodFor(workspaceId, date)
+    res.json({ period, events: await metering.listEvents(workspaceId, period) })
+  } catch (error) {
+    handleError(res, error, 'Failed to list usage events')
+  }
+})
+
+// Count a billable event the frontend produced: a calendar or blog post
+// generated in the browser. Generation on the backend is counted there. Each
+// event names a reference of the client's choosing, and an event repeating
+// one is counted once.
+router.post(
+  '/events',
+  requirePermission('content:generate', requiredWorkspace),
+  async (req, res) => {
+    try {
+      const { kind, reference } = req.body || {}
+      if (!BROWSER_BILLABLE_KINDS.includes(kind as BillableKind)) {
+        return res
+          .status(400)
+          .json({ error: `kind must be one of ${BROWSER_BILLABLE_KINDS.join(', ')}` })
+      }
+      if (typeof reference !== 'string' || reference === '') {
+        return res.status(400).json({ error: 'reference is required' })
+      }
+
+      const event = await metering.record({
+        workspaceId: requiredCheckedWorkspace(res),
+        kind,
+        reference,
+        actorId: currentUser(req).id,
+      })
+      if (!event) {
+        return res.status(500).json({ error: 'Failed to record usage event' })
+      }
+      res.status(201).json(event)
+    } catch (error) {
+      handleError(res, error, 'Failed to record usage event')
+    }
+  }
+)
+
+// What the workspace's client is charged per event
+router.get(
+  '/rates/:workspaceId',
+  requirePermission('workspace:view', requiredWorkspace),
+  async (_req, res) => {
+    try {
+      res.json(await metering.getRates(requiredCheckedWorkspace(res)))
+    } catch (error) {
+      handleError(res, error, 'Failed to load rates')
+    }
+  }
+)
+
+router.put(
+  '/rates/:workspaceId',
+  requirePermission('workspace:manage', requiredWorkspace),
+  async (req, res) => {
+    try {
+      const update = validateRates(req.body)
+      if (typeof update === 'string') {
+        return res.status(400).json({ error: update })
+      }
+      res.json(await metering.setRates(requiredCheckedWorkspace(res), update))
+    } catch (error) {
+      handleError(res, error, 'Failed to save rates')
+    }
+  }
+)
+
+// The invoice for a billing period (?workspaceId=, ?date=, ?format=json|csv|pdf)
+router.get('/invoice', requirePermission('workspace:view', requiredWorkspace), async (req, res) => {
+  try {
+    const format = queryString(req.query.format) || 'json'
+    if (!['json', 'csv', 'pdf'].includes(format)) {
+      return res.status(400).json({ error: 'format must be json, csv or pdf' })
+    }
+    const date = requestDate(req)
+    if (!date) {
+      return res.status(400).json({ error: 'date must be an ISO date' })
+    }
+
+    const invoice = await metering.buildInvoice(requiredCheckedWorkspace(res), date)
+    if (format === 'json') {
+      return res.json(invoice)
+    }
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="invoice-${invoice.number}.${format}"`
+    )
+    if (format === 'csv') {
+      res.type('text/csv').send(invoiceCsv(invoice))
+    } else {
+      res.type('application/pdf').send(invoicePdf(invoice))
+    }
+  } catch (error) {
+    handleError(res, error, 'Failed to build invoice')
+  }
+})
+
+// Report events Stripe hasn't received yet, e.g. after an outage
+router.post(
+  '/stripe/sync',
+  requirePermission('workspace:manage', requiredWorkspace),
+  async (_req, res) => {
+    try {
+      res.json(await metering.syncStripe(requiredCheckedWorkspace(res)))
+    } catch (error) {
+      handleError(res, error, 'Failed to report usage to Stripe')
+    }
+  }
+)
+
+export { router as meteringRouter }
@@ -0,0 +1,151 @@
+import express from 'express'
+import {
+  currentUser,
+  requirePermission,
+  requiredCheckedWorkspace,
+  requiredWorkspace,
+} from '../middleware/auth'
+import { auditLog, userActor } from '../services/AuditLog'
+import { publishingAccounts } from '../services/PublishingAccounts'
+import {
+  PlatformCredentialSchemas,
+  PublishError,
+  PublishablePostSchema,
+  isPublishPlatform,
+} from '../services/SocialPublisher'
+
+const router = express.Router()
+
+// Platforms the workspace has connected, with their limits
+router.get(
+  '/platforms',
+  requirePermission('workspace:view', requiredWorkspace),
+  async (_req, res) => {
+    try {
+      res.json({ platforms: await publishingAccounts.listAccounts(requiredCheckedWorkspace(res)) })
+    } catch (error) {
+      console.error('Failed to list publishing platforms:', error)
+      res.status(500).json({ error: 'Failed to list publishing platforms' })
+    }
+  }
+)
+
+// Connect the workspace's own account on a platform, replacing any earlier
+// one. The credentials are kept for publishing and never sent back.
+router.put(
+  '/accounts/:platform',
+  requirePermission('workspace:manage', requiredWorkspace),
+  async (req, res) => {
+    const { platform } = req.params
+    if (!isPublishPlatform(platform)) {
+      return res.status(404).json({ error: `No publisher for ${platform}` })
+    }
+
+    const parsed = PlatformCredentialSchemas[platform].safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: `Invalid ${platform} credentials`,
+        issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      })
+    }
+
+    try {
+      const workspaceId = requiredCheckedWorkspace(res)
+      await publishingAccounts.connect(workspaceId, platform, parsed.data)
+      const accounts = await publishingAccounts.listAccounts(workspaceId)
+      res.json(accounts.find((account) => account.platform === platform))
+    } catch (error) {
+      console.error(`Failed to connect ${platform}:`, error)
+      res.status(500).json({ error: `Failed to connect ${platform}` })
+    }
+  }
+)
+
+router.delete(
+  '/accounts/:platform',
+  requirePermission('workspace:manage', requiredWorkspace),
+  async (req, res) => {
+    const { platform } = req.params
+    if (!isPublishPlatform(platform)) {
+      return res.status(404).json({ error: `No publisher for ${platform}` })
+    }
+
+    try {
+      const removed = await publishingAccounts.disconnect(requiredCheckedWorkspace(res), platform)
+      if (!removed) {
+        return res.status(404).json({ error: `${platform} is not connected` })
+      }
+      res.status(204).end()
+    } catch (error) {
+      console.error(`Failed to disconnect ${platform}:`, error)
+      res.status(500).json({ error: `Failed to disconnect ${platform}` })
+    }
+  }
+)
+
+// Publish a post now with the workspace's account. Failures report whether
+// retrying can help and how long the platform asked to wait.
+router.post(
+  '/:platform',
+  requirePermission('content:publish', requiredWorkspace),
+  async (req, res) => {
+    const { platform } = req.params
+    if (!isPublishPlatform(platform)) {
+      return res.status(404).json({ error: `No publisher for ${platform}` })
+    }
+
+    const parsed = PublishablePostSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid post',
+        issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      })
+    }
+
+    const workspaceId = requiredCheckedWorkspace(res)
+    const publisher = await publishingAccounts.getPublisher(workspaceId, platform)
+    if (!publisher) {
+      return res.status(503).json({
+        error: `${platform} publishing is not configured`,
+        code: 'not_configured',
+        retryable: false,
+      })
+    }
+
+    try {
+      const result = await publisher.publish(parsed.data)
+      console.log(`📣 Published ${parsed.data.id} to ${platform} as ${result.platformPostId}`)
+      await auditLog.record({
+        workspaceId,
+        actor: userActor(currentUser(req)),
+        action: 'content.published',
+        entity: { type: 'post', id: parsed.data.id },
+        summary: `Published to ${platform}${parsed.data.title ? `: "${parsed.data.title}"` : ''}`,
+        metadata: {
+          platform,
+          campaignId: parsed.data.campaignId,
+          platformPostId: result.platformPostId,
+          url: result.url,
+        },
+      })
+      res.status(201).json(result)
+    } catch (error) {
+      console.error(`Failed to publish ${parsed.data.id} to ${platform}:`, error)
+      if (error instanceof PublishError) {
+        // Problems with the post itself are the caller's to fix; the rest are upstream
+        return res.status(error.options.status === undefined && !error.retryable ? 422 : 502).json({
+          error: error.message,
+          code: error.code,
+          retryable: error.retryable,
+          retryAfterMs: error.retryAfterMs,
+        })
+      }
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to publish post',
+        retryable: false,
+      })
+    }
+  }
+)
+
+export { router as publishingRouter }
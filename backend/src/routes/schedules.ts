@@ -0,0 +1,523 @@
+import express from 'express'
+import {
+  type ScopeResolver,
+  currentUser,
+  requirePermission,
+  requiredCheckedWorkspace,
+  requiredWorkspace,
+} from '../middleware/auth'
+import { hasPermission } from '../services/AccessControl'
+import { auditLog, userActor } from '../services/AuditLog'
+import {
+  CATCH_UP_POLICIES,
+  type CatchUpPolicy,
+  type DeadLetterAction,
+  LATE_APPROVAL_POLICIES,
+  type LateApprovalPolicy,
+  type PostStatus,
+  ScheduleNotFoundError,
+  ScheduleStateError,
+  type SchedulingRuleInput,
+  campaignScheduler,
+} from '../services/CampaignScheduler'
+import { userStore } from '../services/UserStore'
+import { isValidTimeZone } from '../services/ZonedTime'
+
+const router = express.Router()
+
+const FREQUENCIES = ['daily', 'weekly', 'biweekly', 'monthly']
+
+const queryString = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string')
+
+// Where the post in the path, or the posts in body.postIds, live
+const postScope: ScopeResolver = (req) => {
+  const postIds = req.params.postId ? [req.params.postId] : req.body?.postIds
+  return campaignScheduler.postWorkspaces(isStringList(postIds) ? postIds : [])
+}
+
+const scheduleScope: ScopeResolver = async (req) => {
+  const schedule = await campaignScheduler
+    .getCampaignSchedule(req.params.campaignId)
+    .catch(() => undefined)
+  return schedule?.workspaceId
+}
+
+const DEAD_LETTER_ACTIONS: DeadLetterAction[] = ['replay', 'edit', 'cancel']
+
+const TIME_SLOT_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+// timeZone may be null to clear it
+const RULE_FIELDS: Record<string, { valid: (value: unknown) => boolean; message: string }> = {
+  name: {
+    valid: (value) => typeof value === 'string' && value.trim() !== '',
+    message: 'name is required',
+  },
+  channelType: {
+    valid: (value) => typeof value === 'string' && value !== '',
+    message: 'channelType is required',
+  },
+  daysOfWeek: {
+    valid: (value) =>
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.every((day) => Number.isInteger(day) && day >= 0 && day <= 6),
+    message: 'daysOfWeek must list days from 0 (Sunday) to 6',
+  },
+  timeSlots: {
+    valid: (value) =>
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.every((slot) => typeof slot === 'string' && TIME_SLOT_PATTERN.test(slot)),
+    message: 'timeSlots must list times as HH:MM',
+  },
+  maxPostsPerDay: {
+    valid: (value) => Number.isInteger(value) && (value as number) >= 1,
+    message: 'maxPostsPerDay must be a whole number of at least 1',
+  },
+  minIntervalHours: {
+    valid: (value) => typeof value === 'number' && value >= 0,
+    message: 'minIntervalHours must be a number of hours, 0 or more',
+  },
+  timeZone: {
+    valid: (value) => value === null || isValidTimeZone(value),
+    message: 'timeZone must be an IANA time zone, e.g. America/New_York',
+  },
+}
+
+const REQUIRED_RULE_FIELDS = ['name', 'channelType', 'daysOfWeek', 'timeSlots']
+
+/**
+ * What's wrong with the rule fields in a body, if anything. Updates only
+ * check the fields they include.
+ */
+const ruleError = (body: Record<string, unknown>, partial: boolean) => {
+  for (const [key, field] of Object.entries(RULE_FIELDS)) {
+    if (body[key] === undefined) {
+      if (!partial && REQUIRED_RULE_FIELDS.includes(key)) return field.message
+    } else if (!field.valid(body[key])) {
+      return field.message
+    }
+  }
+  return undefined
+}
+
+const pickRule = (body: Record<string, unknown>): Partial<SchedulingRuleInput> =>
+  Object.fromEntries(
+    Object.keys(RULE_FIELDS)
+      .filter((key) => body[key] !== undefined)
+      .map((key) => [key, body[key] ?? undefined])
+  )
+
+const handleError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof ScheduleNotFoundError) {
+    return res.status(404).json({ error: error.message })
+  }
+  if (error instanceof ScheduleStateError) {
+    return res.status(409).json({ error: error.message })
+  }
+  console.error(`${fallback}:`, error)
+  res.status(500).json({
+    error: error instanceof Error ? error.message : fallback,
+  })
+}
+
+// A workspace's schedules, newest first (?workspaceId=)
+router.get('/', requirePermission('workspace:view', requiredWorkspace), async (_req, res) => {
+  try {
+    const schedules = await campaignScheduler.listSchedules(requiredCheckedWorkspace(res))
+    res.json({ schedules })
+  } catch (error) {
+    handleError(res, error, 'Failed to list schedules')
+  }
+})
+
+/**
+ * What's wrong with a new schedule's fields, if anything
+ */
+const scheduleError = (body: Record<string, unknown>) => {
+  const { campaignId, campaignTitle, startDate, endDate, frequency, catchUpPolicy } = body
+  if (typeof campaignId !== 'string' || !campaignId || typeof campaignTitle !== 'string') {
+    return 'campaignId and campaignTitle are required'
+  }
+  if (Number.isNaN(Date.parse(String(startDate))) || Number.isNaN(Date.parse(String(endDate)))) {
+    return 'startDate and endDate must be dates'
+  }
+  if (!Array.isArray(body.channels) || !Array.isArray(body.content)) {
+    return 'channels and content must be arrays'
+  }
+  if (frequency !== undefined && !FREQUENCIES.includes(frequency as string)) {
+    return `frequency must be one of ${FREQUENCIES.join(', ')}`
+  }
+  if (catchUpPolicy !== undefined && !CATCH_UP_POLICIES.includes(catchUpPolicy as CatchUpPolicy)) {
+    return `catchUpPolicy must be one of ${CATCH_UP_POLICIES.join(', ')}`
+  }
+  if (body.priority !== undefined && !Number.isInteger(body.priority)) {
+    return 'priority must be a whole number'
+  }
+  return approvalError(body)
+}
+
+/**
+ * What's wrong with a new schedule's approval settings, if anything
+ */
+const approvalError = (body: Record<string, unknown>) => {
+  const { reviewers, escalateTo, lateApprovalPolicy } = body
+  if (
+    (reviewers !== undefined && !isStringList(reviewers)) ||
+    (escalateTo !== undefined && !isStringList(escalateTo))
+  ) {
+    return 'reviewers and escalateTo must be lists of strings'
+  }
+  if (
+    lateApprovalPolicy !== undefined &&
+    !LATE_APPROVAL_POLICIES.includes(lateApprovalPolicy as LateApprovalPolicy)
+  ) {
+    return `lateApprovalPolicy must be one of ${LATE_APPROVAL_POLICIES.join(', ')}`
+  }
+  const assetIds = (body.content as { assetId?: unknown }[]).map((entry) => entry?.assetId)
+  if (assetIds.some((assetId) => assetId !== undefined && typeof assetId !== 'string')) {
+    return 'content assetId must be a string'
+  }
+  return undefined
+}
+
+// Create a schedule in the workspace it names, replacing the workspace's
+// schedule with the same campaignId but keeping its published posts; ids
+// another workspace uses, and schedules still publishing, answer 409.
+// Posts are placed into channel rule slots between startDate and endDate,
+// competing with the workspace's other schedules by priority. Content entries
+// may name an assetId of the same workspace; those posts publish only once the
+// asset is approved, and reviewers are reminded and escalated to as slots near.
+// Only callers who may publish (content:publish) can set requiresApproval or
+// autoPublish; for anyone else the schedule requires approval and publishes
+// once approved.
+router.post('/', requirePermission('schedule:manage', requiredWorkspace), async (req, res) => {
+  try {
+    const {
+      campaignId,
+      campaignTitle,
+      startDate,
+      endDate,
+      channels,
+      content,
+      frequency,
+      autoPublish,
+      requiresApproval,
+      priority,
+      catchUpPolicy,
+      reviewers,
+      escalateTo,
+      lateApprovalPolicy,
+    } = req.body || {}
+
+    const error = scheduleError(req.body || {})
+    if (error) {
+      return res.status(400).json({ error })
+    }
+
+    const workspaceId = requiredCheckedWorkspace(res)
+    const role = await userStore.getRole(currentUser(req).id, workspaceId)
+    const canPublish = role !== undefined && hasPermission(role, 'content:publish')
+
+    const schedule = await campaignScheduler.createCampaignSchedule({
+      campaignId,
+      campaignTitle,
+      workspaceId,
+      startDate,
+      endDate,
+      channels,
+      content,
+      frequency,
+      autoPublish: canPublish && typeof autoPublish === 'boolean' ? autoPublish : undefined,
+      requiresApproval:
+        canPublish && typeof requiresApproval === 'boolean' ? requiresApproval : undefined,
+      priority,
+      catchUpPolicy,
+      reviewers,
+      escalateTo,
+      lateApprovalPolicy,
+    })
+    res.status(201).json(schedule)
+  } catch (error) {
+    handleError(res, error, 'Failed to create schedule')
+  }
+})
+
+// A workspace's posts across schedules, soonest first (?workspaceId=). Filter with ?status=;
+// ?status=missed lists posts waiting for a catch-up decision, ?status=unplaced
+// posts no rule slot was free for, ?status=awaiting_approval posts held after
+// approval was late. Each post's placement says why it is where it is.
+router.get('/posts', requirePermission('workspace:view', requiredWorkspace), async (req, res) => {
+  try {
+    const posts = await campaignScheduler.listPosts({
+      status: queryString(req.query.status) as PostStatus | undefined,
+      workspaceId: requiredCheckedWorkspace(res),
+    })
+    res.json({ posts })
+  } catch (error) {
+    handleError(res, error, 'Failed to list posts')
+  }
+})
+
+// Edit the content of a post that hasn't been published. An approved campaign
+// that requires approval needs approving again; asset posts take their text
+// from the asset, so changing it answers 409.
+router.patch(
+  '/posts/:postId',
+  requirePermission('schedule:manage', postScope),
+  async (req, res) => {
+    try {
+      const post = await campaignScheduler.updatePost(req.params.postId, req.body || {})
+      res.json(post)
+    } catch (error) {
+      handleError(res, error, 'Failed to update post')
+    }
+  }
+)
+
+router.post(
+  '/posts/:postId/cancel',
+  requirePermission('schedule:manage', postScope),
+  async (req, res) => {
+    try {
+      const post = await campaignScheduler.cancelPost(req.params.postId)
+      res.json(post)
+    } catch (error) {
+      handleError(res, error, 'Failed to cancel post')
+    }
+  }
+)
+
+// Move a post to a time of your choosing. It stays there when the allocator
+// re-places the workspace.
+router.post(
+  '/posts/:postId/reschedule',
+  requirePermission('schedule:manage', postScope),
+  async (req, res) => {
+    try {
+      const { scheduledFor } = req.body || {}
+      if (typeof scheduledFor !== 'string') {
+        return res.status(400).json({ error: 'scheduledFor is required' })
+      }
+      const post = await campaignScheduler.reschedulePost(req.params.postId, scheduledFor)
+      res.json(post)
+    } catch (error) {
+      handleError(res, error, 'Failed to reschedule post')
+    }
+  }
+)
+
+// Publish or skip a post that missed its slot under the "ask" catch-up policy
+router.post(
+  '/posts/:postId/missed',
+  requirePermission('schedule:manage', postScope),
+  async (req, res) => {
+    try {
+      const { action } = req.body || {}
+      if (action !== 'publish' && action !== 'skip') {
+        return res.status(400).json({ error: 'action must be publish or skip' })
+      }
+      const post = await campaignScheduler.resolveMissedPost(req.params.postId, action)
+      res.json(post)
+    } catch (error) {
+      handleError(res, error, 'Failed to resolve missed post')
+    }
+  }
+)
+
+// Posts that ran out of retries or failed permanently, most recent first. Each
+// keeps its error, why it was dead-lettered and its recent attempts.
+router.get(
+  '/dead-letter',
+  requirePermission('workspace:view', requiredWorkspace),
+  async (_req, res) => {
+    try {
+      const posts = await campaignScheduler.listDeadLetters(requiredCheckedWorkspace(res))
+      res.json({ posts })
+    } catch (error) {
+      handleError(res, error, 'Failed to list dead-lettered posts')
+    }
+  }
+)
+
+// Replay, edit or cancel dead-lettered posts in bulk: { postIds, content?, scheduledFor? }.
+// Results are per post, so one post that can't be changed doesn't fail the rest.
+router.post(
+  '/dead-letter/:action',
+  requirePermission('schedule:manage', postScope),
+  async (req, res) => {
+    try {
+      const action = req.params.action as DeadLetterAction
+      if (!DEAD_LETTER_ACTIONS.includes(action)) {
+        return res
+          .status(404)
+          .json({ error: `Unknown action ${action}; use ${DEAD_LETTER_ACTIONS.join(', ')}` })
+      }
+      const { postIds, content, scheduledFor } = req.body || {}
+      if (
+        !Array.isArray(postIds) ||
+        postIds.length === 0 ||
+        !postIds.every((id) => typeof id === 'string')
+      ) {
+        return res.status(400).json({ error: 'postIds must be a non-empty array of post ids' })
+      }
+      if (content !== undefined && (typeof content !== 'object' || content === null)) {
+        return res.status(400).json({ error: 'content must be an object' })
+      }
+      if (action === 'edit' && content === undefined) {
+        return res.status(400).json({ error: 'content is required to edit posts' })
+      }
+      if (scheduledFor !== undefined && typeof scheduledFor !== 'string') {
+        return res.status(400).json({ error: 'scheduledFor must be a date string' })
+      }
+
+      const results = await campaignScheduler.resolveDeadLetters(postIds, action, {
+        content,
+        scheduledFor,
+      })
+      res.json({ results })
+    } catch (error) {
+      handleError(res, error, 'Failed to update dead-lettered posts')
+    }
+  }
+)
+
+// The rules a workspace's posts follow (?workspaceId=): the defaults, the
+// server operator's rules for every workspace, then the workspace's own
+router.get('/rules', requirePermission('workspace:view', requiredWorkspace), async (_req, res) => {
+  try {
+    const rules = await campaignScheduler.getSchedulingRules(requiredCheckedWorkspace(res))
+    res.json({ rules })
+  } catch (error) {
+    handleError(res, error, 'Failed to list scheduling rules')
+  }
+})
+
+// Add a custom rule to a workspace (?workspaceId=). It overrides the default
+// for its channel there.
+router.post(
+  '/rules',
+  requirePermission('workspace:manage', requiredWorkspace),
+  async (req, res) => {
+    try {
+      const body = req.body || {}
+      const error = ruleError(body, false)
+      if (error) {
+        return res.status(400).json({ error })
+      }
+
+      const rule = await campaignScheduler.addSchedulingRule(requiredCheckedWorkspace(res), {
+        maxPostsPerDay: 1,
+        minIntervalHours: 0,
+        ...pickRule(body),
+      } as SchedulingRuleInput)
+      res.status(201).json(rule)
+    } catch (error) {
+      handleError(res, error, 'Failed to add scheduling rule')
+    }
+  }
+)
+
+// Change one of a workspace's custom rules (?workspaceId=); default rules and
+// the operator's rules are read-only
+router.patch(
+  '/rules/:ruleId',
+  requirePermission('workspace:manage', requiredWorkspace),
+  async (req, res) => {
+    try {
+      const body = req.body || {}
+      const error = ruleError(body, true)
+      if (error) {
+        return res.status(400).json({ error })
+      }
+      res.json(
+        await campaignScheduler.updateSchedulingRule(
+          requiredCheckedWorkspace(res),
+          req.params.ruleId,
+          pickRule(body)
+        )
+      )
+    } catch (error) {
+      handleError(res, error, 'Failed to update scheduling rule')
+    }
+  }
+)
+
+router.delete(
+  '/rules/:ruleId',
+  requirePermission('workspace:manage', requiredWorkspace),
+  async (req, res) => {
+    try {
+      await campaignScheduler.deleteSchedulingRule(requiredCheckedWorkspace(res), req.params.ruleId)
+      res.status(204).end()
+    } catch (error) {
+      handleError(res, error, 'Failed to delete scheduling rule')
+    }
+  }
+)
+
+router.get('/:campaignId', requirePermission('workspace:view', scheduleScope), async (req, res) => {
+  try {
+    res.json(await campaignScheduler.getCampaignSchedule(req.params.campaignId))
+  } catch (error) {
+    handleError(res, error, 'Failed to load schedule')
+  }
+})
+
+// Change a schedule's priority, which re-places the workspace's pending posts
+router.patch(
+  '/:campaignId',
+  requirePermission('schedule:manage', scheduleScope),
+  async (req, res) => {
+    try {
+      const { priority } = req.body || {}
+      if (!Number.isInteger(priority)) {
+        return res.status(400).json({ error: 'priority must be a whole number' })
+      }
+      res.json(await campaignScheduler.setCampaignPriority(req.params.campaignId, priority))
+    } catch (error) {
+      handleError(res, error, 'Failed to update schedule')
+    }
+  }
+)
+
+router.delete(
+  '/:campaignId',
+  requirePermission('schedule:manage', scheduleScope),
+  async (req, res) => {
+    try {
+      await campaignScheduler.deleteSchedule(req.params.campaignId)
+      res.status(204).end()
+    } catch (error) {
+      handleError(res, error, 'Failed to delete schedule')
+    }
+  }
+)
+
+// Approve a campaign as the signed-in reviewer; its posts start publishing
+// when due, once any assets they use are approved too
+router.post(
+  '/:campaignId/approve',
+  requirePermission('content:review', scheduleScope),
+  async (req, res) => {
+    try {
+      const user = currentUser(req)
+      const schedule = await campaignScheduler.approveCampaign(req.params.campaignId, user.name)
+      await auditLog.record({
+        workspaceId: schedule.workspaceId,
+        actor: userActor(user),
+        action: 'campaign.approved',
+        entity: { type: 'campaign', id: schedule.campaignId },
+        summary: `Approved campaign "${schedule.campaignTitle}"`,
+      })
+      res.json(schedule)
+    } catch (error) {
+      handleError(res, error, 'Failed to approve schedule')
+    }
+  }
+)
+
+export { router as scheduleRouter }
@@ -0,0 +1,127 @@
+import express from 'express'
+import { requirePermission, requiredCheckedWorkspace, requiredWorkspace } from '../middleware/auth'
+import { usageLedger, usageMonth } from '../services/UsageLedger'
+import { isValidWorkspaceId } from '../services/WorkspaceStore'
+
+const router = express.Router()
+
+const queryString = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+const isTokenCount = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+const handleError = (res: express.Response, error: unknown, fallback: string) => {
+  console.error(`${fallback}:`, error)
+  res.status(500).json({
+    error: error instanceof Error ? error.message : fallback,
+  })
+}
+
+// A workspace's usage records, newest first (?workspaceId=). Filter with ?from=
+// and ?to= (ISO timestamps) and cap with ?limit=
+router.get('/', requirePermission('workspace:view', requiredWorkspace), async (req, res) => {
+  try {
+    const limit = Number(req.query.limit)
+    const records = await usageLedger.listRecords({
+      workspaceId: requiredCheckedWorkspace(res),
+      from: queryString(req.query.from),
+      to: queryString(req.query.to),
+      limit: Number.isInteger(limit) && limit > 0 ? limit : undefined,
+    })
+    res.json({ records })
+  } catch (error) {
+    handleError(res, error, 'Failed to list usage')
+  }
+})
+
+// A workspace's monthly totals by model and operation (?workspaceId=).
+// ?month=YYYY-MM defaults to this month
+router.get('/summary', requirePermission('workspace:view', requiredWorkspace), async (req, res) => {
+  try {
+    const month = queryString(req.query.month) || usageMonth()
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+      return res.status(400).json({ error: 'month must be formatted YYYY-MM' })
+    }
+
+    const summary = await usageLedger.summarize(requiredCheckedWorkspace(res), month)
+    res.json(summary)
+  } catch (error) {
+    handleError(res, error, 'Failed to summarize usage')
+  }
+})
+
+// Record usage from generation that ran in the browser against the workspace
+// it names. Cost is priced here so every record uses the same rates.
+router.post('/', requirePermission('content:generate', requiredWorkspace), async (req, res) => {
+  try {
+    const { operation, provider, model, promptTokens, completionTokens, estimated } = req.body || {}
+
+    if (
+      typeof operation !== 'string' ||
+      typeof provider !== 'string' ||
+      typeof model !== 'string'
+    ) {
+      return res.status(400).json({ error: 'operation, provider and model are required' })
+    }
+    if (!isTokenCount(promptTokens) || !isTokenCount(completionTokens)) {
+      return res.status(400).json({ error: 'Token counts must be non-negative integers' })
+    }
+
+    const record = await usageLedger.record({
+      workspaceId: requiredCheckedWorkspace(res),
+      operation,
+      provider,
+      model,
+      promptTokens,
+      completionTokens,
+      estimated: Boolean(estimated),
+      source: 'frontend',
+    })
+    res.status(201).json(record)
+  } catch (error) {
+    handleError(res, error, 'Failed to record usage')
+  }
+})
+
+// Get a workspace's monthly budget
+router.get('/budgets/:workspaceId', requirePermission('workspace:view'), async (req, res) => {
+  try {
+    const budget = await usageLedger.getBudget(req.params.workspaceId)
+    if (!budget) {
+      return res.status(404).json({ error: 'No budget set for this workspace' })
+    }
+    res.json(budget)
+  } catch (error) {
+    handleError(res, error, 'Failed to load budget')
+  }
+})
+
+// Set a workspace's monthly budget in USD. AI calls fail with 402 once it is spent.
+router.put('/budgets/:workspaceId', requirePermission('workspace:manage'), async (req, res) => {
+  try {
+    const { monthlyLimitUsd } = req.body || {}
+    if (!isValidWorkspaceId(req.params.workspaceId)) {
+      return res.status(400).json({ error: 'Workspace id must be 1-64 letters, digits, - or _' })
+    }
+    if (typeof monthlyLimitUsd !== 'number' || !(monthlyLimitUsd >= 0)) {
+      return res.status(400).json({ error: 'monthlyLimitUsd must be a non-negative number' })
+    }
+
+    const budget = await usageLedger.setBudget(req.params.workspaceId, monthlyLimitUsd)
+    res.json(budget)
+  } catch (error) {
+    handleError(res, error, 'Failed to save budget')
+  }
+})
+
+// Remove a workspace's budget
+router.delete('/budgets/:workspaceId', requirePermission('workspace:manage'), async (req, res) => {
+  try {
+    await usageLedger.clearBudget(req.params.workspaceId)
+    res.status(204).end()
+  } catch (error) {
+    handleError(res, error, 'Failed to remove budget')
+  }
+})
+
+export { router as usageRouter }
@@ -0,0 +1,358 @@
+import express from 'express'
+import { currentUser, requirePermission } from '../middleware/auth'
+import { isRole } from '../services/AccessControl'
+import { auditLog, diffFields, userActor } from '../services/AuditLog'
+import { BillingNotConfiguredError } from '../services/BillingService'
+import { campaignScheduler } from '../services/CampaignScheduler'
+import { StripeError } from '../services/StripeClient'
+import { UserNotFoundError, UserStateError, userStore } from '../services/UserStore'
+import { deleteWorkspace } from '../services/WorkspaceDeletion'
+import {
+  WORKSPACE_DOCUMENT_KEYS,
+  type WorkspaceDocumentKey,
+  WorkspaceNotFoundError,
+  isWorkspaceDocumentKey,
+  workspaceStore,
+} from '../services/WorkspaceStore'
+import { isValidTimeZone } from '../services/ZonedTime'
+
+const router = express.Router()
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// The workspace in the path, for requirePermission
+const pathWorkspace = (req: express.Request) => req.params.id
+
+// Changes to the brand context are audited field by field; the save time
+// changes on every save and would only add noise
+const CONTEXT_DIFF_IGNORE = ['metadata.updatedAt']
+
+const handleError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof WorkspaceNotFoundError || error instanceof UserNotFoundError) {
+    return res.status(404).json({ error: error.message })
+  }
+  if (error instanceof UserStateError) {
+    return res.status(409).json({ error: error.message })
+  }
+  if (error instanceof BillingNotConfiguredError) {
+    return res.status(503).json({ error: error.message, code: 'not_configured' })
+  }
+  if (error instanceof StripeError) {
+    console.error(`${fallback}:`, error)
+    return res.status(502).json({ error: error.message })
+  }
+
+  console.error(`${fallback}:`, error)
+  res.status(500).json({
+    error: error instanceof Error ? error.message : fallback,
+  })
+}
+
+// List the workspaces the caller belongs to, with their role in each.
+// Archived workspaces are hidden unless ?includeArchived=true
+router.get('/', async (req, res) => {
+  try {
+    const memberships = await userStore.listMemberships(currentUser(req).id)
+    const roles = new Map(memberships.map((m) => [m.workspaceId, m.role]))
+    const workspaces = await workspaceStore.listWorkspaces({
+      includeArchived: req.query.includeArchived === 'true',
+    })
+    res.json({
+      workspaces: workspaces
+        .filter((workspace) => roles.has(workspace.id))
+        .map((workspace) => ({ ...workspace, role: roles.get(workspace.id) })),
+    })
+  } catch (error) {
+    handleError(res, error, 'Failed to list workspaces')
+  }
+})
+
+// Create a workspace. The server picks its id, so no one can claim the id of
+// another tenant's or a deleted workspace. The creator becomes its admin.
+router.post('/', async (req, res) => {
+  try {
+    const { name } = req.body || {}
+    const workspace = await workspaceStore.createWorkspace({ name })
+    await userStore.addMember(workspace.id, currentUser(req).id, 'admin')
+    res.status(201).json(workspace)
+  } catch (error) {
+    handleError(res, error, 'Failed to create workspace')
+  }
+})
+
+// Get a workspace with all of its documents
+router.get('/:id', requirePermission('workspace:view', pathWorkspace), async (req, res) => {
+  try {
+    const workspace = await workspaceStore.getWorkspace(req.params.id)
+    res.json(workspace)
+  } catch (error) {
+    handleError(res, error, 'Failed to load workspace')
+  }
+})
+
+// Rename, archive or restore a workspace, or set the time zone its schedules
+// run in. Changing the time zone re-places the workspace's pending posts.
+router.patch('/:id', requirePermission('workspace:manage', pathWorkspace), async (req, res) => {
+  try {
+    const { name, archived, timeZone } = req.body || {}
+    if (name !== undefined && typeof name !== 'string') {
+      return res.status(400).json({ error: 'Workspace name must be a string' })
+    }
+    if (archived !== undefined && typeof archived !== 'boolean') {
+      return res.status(400).json({ error: 'archived must be a boolean' })
+    }
+    if (timeZone !== undefined && timeZone !== null && !isValidTimeZone(timeZone)) {
+      return res
+        .status(400)
+        .json({ error: 'timeZone must be an IANA time zone, e.g. Europe/Berlin' })
+    }
+
+    const workspace = await workspaceStore.updateWorkspace(req.params.id, {
+      name,
+      archived,
+      timeZone,
+    })
+    if (timeZone !== undefined) {
+      await campaignScheduler.rebalanceWorkspaces([workspace.id])
+    }
+    res.json(workspace)
+  } catch (error) {
+    handleError(res, error, 'Failed to update workspace')
+  }
+})
+
+// Clone a workspace, including all of its documents. Only the original's
+// admins can, since the copy hands its private documents to whoever made it:
+// the caller becomes the clone's admin, and members aren't copied.
+router.post(
+  '/:id/clone',
+  requirePermission('workspace:manage', pathWorkspace),
+  async (req, res) => {
+    try {
+      const { name } = req.body || {}
+      const workspace = await workspaceStore.cloneWorkspace(req.params.id, { name })
+      await userStore.addMember(workspace.id, currentUser(req).id, 'admin')
+      res.status(201).json(workspace)
+    } catch (error) {
+      handleError(res, error, 'Failed to clone workspace')
+    }
+  }
+)
+
+// Delete a workspace and everything kept for it: documents, members,
+// schedules, feeds, billing, usage and audit entries
+router.delete('/:id', requirePermission('workspace:manage', pathWorkspace), async (req, res) => {
+  try {
+    await deleteWorkspace(req.params.id)
+    res.status(204).end()
+  } catch (error) {
+    handleError(res, error, 'Failed to delete workspace')
+  }
+})
+
+// Reject unknown document keys before hitting the store
+router.param('key', (_req, res, next, key: string) => {
+  if (!isWorkspaceDocumentKey(key)) {
+    return res.status(400).json({
+      error: `Unknown document "${key}". Expected one of: ${WORKSPACE_DOCUMENT_KEYS.join(', ')}`,
+    })
+  }
+  next()
+})
+
+// Get one workspace document (context, channels, marketingState, purchases)
+router.get(
+  '/:id/documents/:key',
+  requirePermission('workspace:view', pathWorkspace),
+  async (req, res) => {
+    try {
+      const document = await workspaceStore.getDocument(
+        req.params.id,
+        req.params.key as WorkspaceDocumentKey
+      )
+      if (!document) {
+        return res.status(404).json({ error: `No ${req.params.key} saved for this workspace` })
+      }
+
+      res.json(document)
+    } catch (error) {
+      handleError(res, error, 'Failed to load workspace document')
+    }
+  }
+)
+
+// Save a workspace document ({ data, baseRevision? }). Responds 409 with the
+// stored copy when baseRevision isn't the current revision, so the client
+// can adopt it. Context changes are audited.
+router.put(
+  '/:id/documents/:key',
+  requirePermission('workspace:edit', pathWorkspace),
+  async (req, res) => {
+    try {
+      const { data, baseRevision } = req.body || {}
+      if (data === undefined) {
+        return res.status(400).json({ error: 'Document data is required' })
+      }
+      if (baseRevision !== undefined && !Number.isInteger(baseRevision)) {
+        return res.status(400).json({ error: 'baseRevision must be a whole number' })
+      }
+
+      const result = await workspaceStore.putDocument(
+        req.params.id,
+        req.params.key as WorkspaceDocumentKey,
+        { data, baseRevision }
+      )
+      if (result.status === 'conflict') {
+        return res.status(409).json(result)
+      }
+
+      if (req.params.key === 'context') {
+        const changes = diffFields(result.previous?.data, data, CONTEXT_DIFF_IGNORE)
+        if (changes.length > 0) {
+          await auditLog.record({
+            workspaceId: req.params.id,
+            actor: userActor(currentUser(req)),
+            action: 'context.updated',
+            entity: { type: 'context', id: req.params.id },
+            summary: `Changed ${changes.length} context field(s)`,
+            changes,
+            metadata: { revision: result.document.revision },
+          })
+        }
+      }
+      res.json({ status: result.status, document: result.document })
+    } catch (error) {
+      handleError(res, error, 'Failed to save workspace document')
+    }
+  }
+)
+
+// Delete a workspace document
+router.delete(
+  '/:id/documents/:key',
+  requirePermission('workspace:edit', pathWorkspace),
+  async (req, res) => {
+    try {
+      await workspaceStore.deleteDocument(req.params.id, req.params.key as WorkspaceDocumentKey)
+      if (req.params.key === 'context') {
+        await auditLog.record({
+          workspaceId: req.params.id,
+          actor: userActor(currentUser(req)),
+          action: 'context.deleted',
+          entity: { type: 'context', id: req.params.id },
+          summary: 'Deleted the workspace context',
+        })
+      }
+      res.status(204).end()
+    } catch (error) {
+      handleError(res, error, 'Failed to delete workspace document')
+    }
+  }
+)
+
+// Members of a workspace with their roles
+router.get('/:id/members', requirePermission('workspace:view', pathWorkspace), async (req, res) => {
+  try {
+    await workspaceStore.getWorkspace(req.params.id)
+    res.json({ members: await userStore.listMembers(req.params.id) })
+  } catch (error) {
+    handleError(res, error, 'Failed to list members')
+  }
+})
+
+// Change a member's role
+router.patch(
+  '/:id/members/:userId',
+  requirePermission('workspace:manage', pathWorkspace),
+  async (req, res) => {
+    try {
+      const { role } = req.body || {}
+      if (!isRole(role)) {
+        return res
+          .status(400)
+          .json({ error: 'role must be admin, reviewer, author or client_viewer' })
+      }
+      res.json(await userStore.setMemberRole(req.params.id, req.params.userId, role))
+    } catch (error) {
+      handleError(res, error, 'Failed to change member role')
+    }
+  }
+)
+
+router.delete(
+  '/:id/members/:userId',
+  requirePermission('workspace:manage', pathWorkspace),
+  async (req, res) => {
+    try {
+      await userStore.removeMember(req.params.id, req.params.userId)
+      res.status(204).end()
+    } catch (error) {
+      handleError(res, error, 'Failed to remove member')
+    }
+  }
+)
+
+// Pending invitations
+router.get(
+  '/:id/invitations',
+  requirePermission('workspace:manage', pathWorkspace),
+  async (req, res) => {
+    try {
+      res.json({ invitations: await userStore.listInvitations(req.params.id) })
+    } catch (error) {
+      handleError(res, error, 'Failed to list invitations')
+    }
+  }
+)
+
+// Invite someone by email. The response carries the only copy of the
+// invitation link; share it with the invitee.
+router.post(
+  '/:id/invitations',
+  requirePermission('workspace:manage', pathWorkspace),
+  async (req, res) => {
+    try {
+      const { email, role } = req.body || {}
+      if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+        return res.status(400).json({ error: 'A valid email is required' })
+      }
+      if (!isRole(role)) {
+        return res
+          .status(400)
+          .json({ error: 'role must be admin, reviewer, author or client_viewer' })
+      }
+
+      await workspaceStore.getWorkspace(req.params.id)
+      const { invitation, token } = await userStore.createInvitation({
+        workspaceId: req.params.id,
+        email,
+        role,
+        invitedBy: currentUser(req).id,
+      })
+      res.status(201).json({
+        ...invitation,
+        token,
+        link: `${FRONTEND_URL}/?invite=${encodeURIComponent(token)}`,
+      })
+    } catch (error) {
+      handleError(res, error, 'Failed to create invitation')
+    }
+  }
+)
+
+router.delete(
+  '/:id/invitations/:invitationId',
+  requirePermission('workspace:manage', pathWorkspace),
+  async (req, res) => {
+    try {
+      await userStore.revokeInvitation(req.params.id, req.params.invitationId)
+      res.status(204).end()
+    } catch (error) {
+      handleError(res, error, 'Failed to revoke invitation')
+    }
+  }
+)
+
+export { router as workspaceRouter }
@@ -1,9 +1,27 @@
 import cors from 'cors'
 import dotenv from 'dotenv'
 import express from 'express'
+import { authenticate } from './middleware/auth'
+import { assetRouter } from './routes/assets'
+import { auditRouter } from './routes/audit'
+import { billingRouter, stripeWebhookRouter } from './routes/billing'
+import { authRouter } from './routes/auth'
+import { calendarFeedPublicRouter, calendarFeedRouter } from './routes/calendarFeed'
+import { calendarOAuthRouter, calendarSyncRouter } from './routes/calendarSync'
 import { campaignRouter } from './routes/campaigns'
 import { contentRouter } from './routes/content'
 import { googleWorkspaceRouter } from './routes/googleWorkspace'
+import { jobRouter } from './routes/jobs'
+import { mcpRouter } from './routes/mcp'
+import { meteringRouter } from './routes/metering'
+import { publishingRouter } from './routes/publishing'
+import { scheduleRouter } from './routes/schedules'
+import { usageRouter } from './routes/usage'
+import { workspaceRouter } from './routes/workspaces'
+import { campaignScheduler } from './services/CampaignScheduler'
+import { CONTENT_PACKAGE_JOB, runContentPackageJob } from './services/ContentPackageJob'
+import { jobQueue } from './services/JobQueue'
+import { userStore } from './services/UserStore'
 
 dotenv.config()
 
@@ -17,13 +35,40 @@ app.use(
     credentials: true,
   })
 )
+// Stripe signs the raw body, so its webhook is routed before JSON parsing
+app.use('/api/billing/webhook', stripeWebhookRouter)
 app.use(express.json({ limit: '50mb' }))
 app.use(express.urlencoded({ extended: true, limit: '50mb' }))
 
-// Routes
-app.use('/api/google', googleWorkspaceRouter)
-app.use('/api/campaigns', campaignRouter)
-app.use('/api/content', contentRouter)
+// Routes. Everything except sign-in needs a session; each router checks the
+// caller's role in the workspace it acts on.
+app.use('/api/auth', authRouter)
+// Google's consent redirect carries no session; it is matched by its state
+app.use('/api/calendar/oauth', calendarOAuthRouter)
+// Calendar apps poll the ICS feed without a session; its URL carries a secret token
+app.use('/api/feeds', calendarFeedPublicRouter)
+app.use('/api/google', authenticate, googleWorkspaceRouter)
+app.use('/api/campaigns', authenticate, campaignRouter)
+app.use('/api/content', authenticate, contentRouter)
+app.use('/api/mcp', authenticate, mcpRouter)
+app.use('/api/workspaces', authenticate, workspaceRouter)
+app.use('/api/jobs', authenticate, jobRouter)
+app.use('/api/usage', authenticate, usageRouter)
+app.use('/api/publishing', authenticate, publishingRouter)
+app.use('/api/schedules', authenticate, scheduleRouter)
+app.use('/api/assets', authenticate, assetRouter)
+app.use('/api/audit', authenticate, auditRouter)
+app.use('/api/billing', authenticate, billingRouter)
+app.use('/api/metering', authenticate, meteringRouter)
+app.use('/api/calendar', authenticate, calendarSyncRouter)
+app.use('/api/calendar-feed', authenticate, calendarFeedRouter)
+
+// Background jobs
+jobQueue.register(CONTENT_PACKAGE_JOB, runContentPackageJob)
+void jobQueue.start()
+
+// Scheduled publishing
+void campaignScheduler.start()
 
 // Health check
 app.get('/health', (req, res) => {
@@ -46,5 +91,7 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 app.listen(PORT, () => {
   console.log(`🚀 Slotted Backend running on port ${PORT}`)
   console.log(`📊 Health check: http://localhost:${PORT}/health`)
+  console.log(`🔌 MCP (SSE): http://localhost:${PORT}/api/mcp/sse`)
   console.log(`🔗 Frontend CORS: ${process.env.FRONTEND_URL || 'http://localhost:3000'}`)
+  void userStore.announceSetup()
 })
@@ -0,0 +1,579 @@
+// Using built-in fetch (Node 18+)
+
+export type ProviderName = 'openai' | 'anthropic' | 'google' | 'mock'
+
+export interface AIConfig {
+  provider: ProviderName
+  model: string
+  apiKey: string
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface AIRequest {
+  prompt: string
+  system?: string
+  // Receive text as it is generated; aborting `signal` stops generation
+  onToken?: (text: string) => void
+  signal?: AbortSignal
+  // Names the kind of output wanted so the mock provider can answer in shape
+  task?: string
+  params?: Record<string, unknown>
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface AIResponse {
+  content: string
+  provider: string
+  model: string
+  // Token counts reported by the provider, when it reports them
+  usage?: TokenUsage
+}
+
+/**
+ * One text-generation backend. Services talk to providers only through this
+ * interface, so a chain of providers can stand in for a single one.
+ */
+export interface AIProvider {
+  readonly name: string
+  readonly model: string
+  generate(request: AIRequest): Promise<AIResponse>
+}
+
+export class AIProviderError extends Error {
+  constructor(
+    public provider: string,
+    message: string,
+    public status?: number
+  ) {
+    super(`${provider}: ${message}`)
+    this.name = 'AIProviderError'
+  }
+
+  get isRateLimit(): boolean {
+    return this.status === 429
+  }
+}
+
+export const DEFAULT_PROVIDER_CHAIN: ProviderName[] = ['anthropic', 'openai', 'google']
+
+const PROVIDER_NAMES: ProviderName[] = ['openai', 'anthropic', 'google', 'mock']
+
+interface StreamEvent {
+  text?: string
+  promptTokens?: number
+  completionTokens?: number
+}
+
+/**
+ * Read a server-sent event stream, forwarding each text delta and returning
+ * the full text. Token counts are taken from the last event that has them.
+ */
+async function collectStream(
+  response: Response,
+  onToken: (text: string) => void,
+  parseEvent: (event: any) => StreamEvent
+): Promise<{ text: string; usage?: TokenUsage }> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let text = ''
+  let promptTokens: number | undefined
+  let completionTokens: number | undefined
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      const data = line.startsWith('data:') ? line.slice(5).trim() : ''
+      if (!data || data === '[DONE]') continue
+
+      const event = parseEvent(JSON.parse(data))
+      promptTokens = event.promptTokens ?? promptTokens
+      completionTokens = event.completionTokens ?? completionTokens
+      if (event.text) {
+        text += event.text
+        onToken(event.text)
+      }
+    }
+  }
+
+  const usage =
+    promptTokens !== undefined || completionTokens !== undefined
+      ? { promptTokens: promptTokens || 0, completionTokens: completionTokens || 0 }
+      : undefined
+  return { text, usage }
+}
+
+async function ensureOk(provider: string, response: Response): Promise<void> {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    throw new AIProviderError(
+      provider,
+      `responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+      response.status
+    )
+  }
+}
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai'
+
+  constructor(private config: AIConfig) {}
+
+  get model(): string {
+    return this.config.model
+  }
+
+  async generate(request: AIRequest): Promise<AIResponse> {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ]
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages,
+        temperature: this.config.temperature || 0.7,
+        max_tokens: this.config.maxTokens || 4000,
+        stream: Boolean(request.onToken),
+      }),
+      signal: request.signal,
+    })
+    await ensureOk(this.name, response)
+
+    const content = request.onToken
+      ? await collectStream(
+          response,
+          request.onToken,
+          (event) => event.choices?.[0]?.delta?.content
+        )
+      : ((await response.json()) as any).choices[0].message.content
+
+    return { content, provider: this.name, model: this.model }
+  }
+}
+
+export class AnthropicProvider implements AIProvider {
+  readonly name = 'anthropic'
+
+  constructor(private config: AIConfig) {}
+
+  get model(): string {
+    return this.config.model
+  }
+
+  async generate(request: AIRequest): Promise<AIResponse> {
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'x-api-key': this.config.apiKey,
+        'Content-Type': 'application/json',
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        max_tokens: this.config.maxTokens || 4000,
+        ...(request.system ? { system: request.system } : {}),
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: this.config.temperature || 0.7,
+        stream: Boolean(request.onToken),
+      }),
+      signal: request.signal,
+    })
+    await ensureOk(this.name, response)
+
+    if (request.onToken) {
+      const { text, usage } = await collectStream(response, request.onToken, (event) => ({
+        text: event.type === 'content_block_delta' ? event.delta?.text : undefined,
+        // message_start carries the prompt tokens, message_delta the running output count
+        promptTokens: event.message?.usage?.input_tokens,
+        completionTokens: event.usage?.output_tokens ?? event.message?.usage?.output_tokens,
+      }))
+      return { content: text, provider: this.name, model: this.model, usage }
+    }
+
+    const data = (await response.json()) as any
+    return {
+      content: data.content[0].text,
+      provider: this.name,
+      model: this.model,
+      usage: data.usage && {
+        promptTokens: data.usage.input_tokens,
+        completionTokens: data.usage.output_tokens,
+      },
+    }
+  }
+}
+
+export class GeminiProvider implements AIProvider {
+  readonly name = 'google'
+
+  constructor(private config: AIConfig) {}
+
+  get model(): string {
+    return this.config.model
+  }
+
+  async generate(request: AIRequest): Promise<AIResponse> {
+    const method = request.onToken ? 'streamGenerateContent?alt=sse&' : 'generateContent?'
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${this.config.model}:${method}key=${this.config.apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+          contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+          generationConfig: {
+            temperature: this.config.temperature || 0.7,
+            maxOutputTokens: this.config.maxTokens || 4000,
+          },
+        }),
+        signal: request.signal,
+      }
+    )
+    await ensureOk(this.name, response)
+
+    const parseEvent = (data: any): StreamEvent => ({
+      text: (data.candidates?.[0]?.content?.parts || [])
+        .map((part: any) => part.text || '')
+        .join(''),
+      promptTokens: data.usageMetadata?.promptTokenCount,
+      completionTokens: data.usageMetadata?.candidatesTokenCount,
+    })
+
+    if (request.onToken) {
+      const { text, usage } = await collectStream(response, request.onToken, parseEvent)
+      return { content: text, provider: this.name, model: this.model, usage }
+    }
+
+    const event = parseEvent(await response.json())
+    return {
+      content: event.text || '',
+      provider: this.name,
+      model: this.model,
+      usage:
+        event.promptTokens !== undefined
+          ? { promptTokens: event.promptTokens, completionTokens: event.completionTokens || 0 }
+          : undefined,
+    }
+  }
+}
+
+const MOCK_CAMPAIGN_TOPICS = [
+  'Company Introduction and Vision',
+  'Industry Trends and Insights',
+  'Product/Service Deep Dive',
+  'Customer Success Stories',
+  'Behind the Scenes',
+  'Thought Leadership',
+  'Educational Content',
+  'Problem-Solution Focus',
+  'Community Building',
+  'Expert Interviews',
+  'Data and Analytics',
+  'Future Outlook',
+  'Year-End Recap',
+]
+
+const mockTopics = (weeks: number) =>
+  Array.from({ length: weeks }, (_, i) => ({
+    week: i + 1,
+    title: MOCK_CAMPAIGN_TOPICS[i] || `Campaign Topic ${i + 1}`,
+    description: `Generated campaign topic for week ${i + 1}`,
+    primaryChannel: 'Blog',
+    secondaryChannels: ['Social Media'],
+    contentTypes: ['blog', 'social'],
+    estimatedEffort: 6,
+  }))
+
+const MOCK_TEXT = 'Placeholder content from the local mock provider.'
+
+const MOCK_BRAND_VOICE = {
+  personality: ['Professional', 'Approachable'],
+  tone: 'professional',
+  communicationStyle: 'Clear and helpful',
+}
+
+// Canned answers, valid against the callers' schemas, for tasks whose
+// callers parse structured output
+const MOCK_RESPONSES: Record<string, (request: AIRequest) => unknown> = {
+  'campaign-topics': (request) =>
+    mockTopics(Number(request.params?.weeks) || MOCK_CAMPAIGN_TOPICS.length),
+  'campaign-plan': () => ({
+    overview: MOCK_TEXT,
+    quarterlyThemes: ['Brand Awareness', 'Product Education', 'Customer Success'],
+    campaigns: mockTopics(MOCK_CAMPAIGN_TOPICS.length),
+    channelStrategy: { primary: ['Blog'], secondary: ['Social Media'], experimental: [] },
+    timeline: `${MOCK_CAMPAIGN_TOPICS.length} weeks`,
+    kpiMapping: { 'Brand Awareness': ['Reach', 'Impressions'] },
+  }),
+  'campaign-blog': () => ({
+    title: 'Mock Blog Post',
+    outline: [],
+    content: MOCK_TEXT,
+    wordCount: 7,
+  }),
+  'campaign-video': () => ({ title: 'Mock Video', script: MOCK_TEXT, duration: 60, scenes: [] }),
+  'campaign-social': () => ({
+    platforms: { linkedin: { post: MOCK_TEXT, hashtags: [], timing: '9:00 AM' } },
+  }),
+  'campaign-email': () => ({
+    subject: 'Mock Email',
+    preview: '',
+    content: MOCK_TEXT,
+    cta: 'Learn More',
+  }),
+  'persona-engagement': () => ({
+    personaResponse: MOCK_TEXT,
+    engagementScore: 5,
+    optimizationRecommendations: [],
+  }),
+  blog: () => ({
+    title: 'Mock Blog Post',
+    outline: [],
+    content: MOCK_TEXT,
+    seoKeywords: [],
+    metaDescription: '',
+  }),
+  'video-script': () => ({
+    title: 'Mock Video Script',
+    script: MOCK_TEXT,
+    duration: 60,
+    scenes: [],
+    callToAction: 'Learn More',
+  }),
+  social: () => ({
+    post: MOCK_TEXT,
+    hashtags: [],
+    timing: '9:00 AM',
+    engagement: [],
+    visualSuggestions: [],
+  }),
+  email: () => ({
+    subject: 'Mock Email',
+    previewText: '',
+    content: MOCK_TEXT,
+    plainText: MOCK_TEXT,
+    callToAction: 'Learn More',
+    segmentation: [],
+  }),
+  'extract-company-dna': () => ({
+    brandDNA: {
+      valuePropositions: [],
+      coreOfferings: [],
+      targetAudience: { demographics: '', psychographics: '', painPoints: [] },
+      brandVoice: MOCK_BRAND_VOICE,
+      brandColors: { primary: '#2563eb', secondary: '#3b82f6', accent: '#10b981' },
+    },
+    marketingInsights: {
+      competitiveAdvantage: '',
+      marketPosition: '',
+      contentThemes: [],
+      recommendedChannels: [],
+    },
+    confidenceScore: 0,
+  }),
+  'analyze-brand-voice': () => ({ ...MOCK_BRAND_VOICE, confidenceScore: 0 }),
+}
+
+// FNV-1a, so the same prompt always gives the same mock output
+const hashPrompt = (text: string): string => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Deterministic offline provider for development and tests. Never calls the
+ * network; the same request always produces the same output.
+ */
+export class MockProvider implements AIProvider {
+  readonly name = 'mock'
+  readonly model = 'mock-1'
+
+  async generate(request: AIRequest): Promise<AIResponse> {
+    request.signal?.throwIfAborted()
+
+    const respond = request.task ? MOCK_RESPONSES[request.task] : undefined
+    const content = respond ? JSON.stringify(respond(request)) : this.placeholder(request)
+
+    if (request.onToken) {
+      for (const token of content.split(/(?<=\s)/)) {
+        request.signal?.throwIfAborted()
+        request.onToken(token)
+      }
+    }
+
+    return { content, provider: this.name, model: this.model }
+  }
+
+  private placeholder(request: AIRequest): string {
+    const firstLine =
+      request.prompt
+        .split('\n')
+        .map((line) => line.trim())
+        .find(Boolean)
+        ?.slice(0, 120) || 'Generate content'
+
+    return [
+      '# Mock response',
+      '',
+      firstLine,
+      '',
+      `This is placeholder content from the local mock provider (ref ${hashPrompt(`${request.system || ''}${request.prompt}`)}).`,
+      'Configure an AI provider to generate real content.',
+    ].join('\n')
+  }
+}
+
+/**
+ * Tries providers in order, moving to the next one on a rate limit or any
+ * other failure. Cancellation is never retried, and neither is a failure
+ * after text has already been streamed to the caller.
+ */
+export class FallbackProvider implements AIProvider {
+  constructor(private providers: AIProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('A fallback chain needs at least one provider')
+    }
+  }
+
+  get name(): string {
+    return this.providers.map((provider) => provider.name).join(' → ')
+  }
+
+  get model(): string {
+    return this.providers[0].model
+  }
+
+  async generate(request: AIRequest): Promise<AIResponse> {
+    let lastError: unknown
+
+    for (const provider of this.providers) {
+      request.signal?.throwIfAborted()
+
+      let streamed = false
+      const onToken = request.onToken
+        ? (text: string) => {
+            streamed = true
+            request.onToken?.(text)
+          }
+        : undefined
+
+      try {
+        return await provider.generate({ ...request, onToken })
+      } catch (error) {
+        if (request.signal?.aborted || streamed) throw error
+
+        lastError = error
+        const rateLimited = error instanceof AIProviderError && error.isRateLimit
+        console.warn(
+          `⚠️ ${provider.name} ${rateLimited ? 'rate limited' : 'failed'}, trying next provider:`,
+          error instanceof Error ? error.message : error
+        )
+      }
+    }
+
+    throw lastError
+  }
+}
+
+export function createProvider(config: AIConfig): AIProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIProvider(config)
+    case 'anthropic':
+      return new AnthropicProvider(config)
+    case 'google':
+      return new GeminiProvider(config)
+    case 'mock':
+      return new MockProvider()
+    default:
+      throw new Error(`Unsupported AI provider: ${config.provider}`)
+  }
+}
+
+/**
+ * Providers configured through the environment, in `AI_PROVIDER_CHAIN` order
+ * (default anthropic,openai,google). Providers without an API key are
+ * skipped; "mock" needs none.
+ */
+export function resolveProviderConfigsFromEnv(): AIConfig[] {
+  const chain = (process.env.AI_PROVIDER_CHAIN || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name): name is ProviderName => PROVIDER_NAMES.includes(name as ProviderName))
+
+  const env: Record<ProviderName, { apiKey?: string; model: string }> = {
+    anthropic: {
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      model: process.env.MCP_ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022',
+    },
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.MCP_OPENAI_MODEL || 'gpt-4o',
+    },
+    google: {
+      apiKey: process.env.GOOGLE_AI_API_KEY,
+      model: process.env.MCP_GOOGLE_MODEL || 'gemini-2.0-flash',
+    },
+    mock: { apiKey: '', model: 'mock-1' },
+  }
+
+  return (chain.length > 0 ? chain : DEFAULT_PROVIDER_CHAIN)
+    .filter((provider) => provider === 'mock' || env[provider].apiKey)
+    .map((provider) => ({
+      provider,
+      model: env[provider].model,
+      apiKey: env[provider].apiKey || '',
+    }))
+}
+
+/**
+ * The providers a generation may use, in the order they are tried: the
+ * request's own configuration first, then the providers configured in the
+ * environment as fallbacks
+ */
+export function resolveProviderConfigs(aiConfig?: AIConfig): AIConfig[] {
+  return [
+    ...(aiConfig ? [aiConfig] : []),
+    ...resolveProviderConfigsFromEnv().filter(
+      (config) =>
+        !aiConfig || config.provider !== aiConfig.provider || config.model !== aiConfig.model
+    ),
+  ]
+}
+
+/**
+ * One provider trying `configs` in order. Undefined when there are none.
+ */
+export function createProviderChain(configs: AIConfig[]): AIProvider | undefined {
+  if (configs.length === 0) return undefined
+  if (configs.length === 1) return createProvider(configs[0])
+  return new FallbackProvider(configs.map(createProvider))
+}
+
+export const mockProvider = new MockProvider()
@@ -0,0 +1,51 @@
+/**
+ * Workspace roles and what each may do. A user's role is per workspace, so
+ * the same person can be an admin of their own brand and a client viewer of
+ * another.
+ */
+export type Role = 'admin' | 'reviewer' | 'author' | 'client_viewer'
+
+export const ROLES: Role[] = ['admin', 'reviewer', 'author', 'client_viewer']
+
+export type Permission =
+  // Read schedules, assets, jobs, usage and workspace documents
+  | 'workspace:view'
+  // Change workspace documents such as the company context
+  | 'workspace:edit'
+  // Rename, archive, delete, set time zone, budget and rules, manage members
+  | 'workspace:manage'
+  // Run AI generation, which spends the workspace's budget
+  | 'content:generate'
+  // Create, edit and submit assets for review
+  | 'content:edit'
+  // Approve or reject assets and campaigns
+  | 'content:review'
+  // Create schedules, move, cancel and replay posts
+  | 'schedule:manage'
+  // Publish right away, outside the approval flow
+  | 'content:publish'
+  // Use Google Drive, Sheets and Calendar sync
+  | 'integrations:use'
+
+const AUTHOR_PERMISSIONS: Permission[] = [
+  'workspace:view',
+  'workspace:edit',
+  'content:generate',
+  'content:edit',
+  'schedule:manage',
+  'integrations:use',
+]
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  client_viewer: ['workspace:view'],
+  author: AUTHOR_PERMISSIONS,
+  reviewer: [...AUTHOR_PERMISSIONS, 'content:review'],
+  admin: [...AUTHOR_PERMISSIONS, 'content:review', 'content:publish', 'workspace:manage'],
+}
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role)
+
+export const permissionsOf = (role: Role): Permission[] => ROLE_PERMISSIONS[role]
+
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission)
@@ -0,0 +1,217 @@
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { JsonFileStore } from './JsonFileStore'
+
+/**
+ * draft → pending_review → approved → published, with rejected sending an
+ * asset back for edits. Editing content always returns it to draft, so an
+ * approval only ever covers the version the reviewer saw.
+ */
+export type AssetStatus = 'draft' | 'pending_review' | 'approved' | 'rejected' | 'published'
+
+export type AssetType = 'blog' | 'social' | 'email' | 'script' | 'image' | 'video' | 'audio'
+
+export const ASSET_TYPES: AssetType[] = [
+  'blog',
+  'social',
+  'email',
+  'script',
+  'image',
+  'video',
+  'audio',
+]
+
+export interface Asset {
+  id: string
+  // Missing only on assets created before they belonged to a workspace
+  workspaceId?: string
+  name: string
+  type: AssetType
+  content: string
+  status: AssetStatus
+  author: string
+  // Who is asked to review it
+  reviewers: string[]
+  // Who last approved or rejected it
+  reviewer?: string
+  reviewComments: string[]
+  version: number
+  createdAt: string
+  updatedAt: string
+  submittedAt?: string
+  approvedAt?: string
+}
+
+export interface CreateAssetInput {
+  workspaceId: string
+  name: string
+  type: AssetType
+  content: string
+  author: string
+  reviewers?: string[]
+}
+
+interface AssetData {
+  assets: Record<string, Asset>
+}
+
+export class AssetNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Asset not found: ${id}`)
+    this.name = 'AssetNotFoundError'
+  }
+}
+
+export class AssetStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AssetStateError'
+  }
+}
+
+const DEFAULT_ASSET_PATH = path.resolve(process.cwd(), 'data', 'assets.json')
+
+// Approved content stays approved once it has gone out
+export const isAssetApproved = (asset: Asset) =>
+  asset.status === 'approved' || asset.status === 'published'
+
+export class AssetStore {
+  private store: JsonFileStore<AssetData>
+
+  constructor(filePath = process.env.ASSET_DATA_PATH || DEFAULT_ASSET_PATH) {
+    this.store = new JsonFileStore<AssetData>(filePath, () => ({ assets: {} }))
+  }
+
+  async listAssets(workspaceId?: string): Promise<Asset[]> {
+    const data = await this.store.read()
+    return Object.values(data.assets)
+      .filter((asset) => !workspaceId || asset.workspaceId === workspaceId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  }
+
+  async getAsset(id: string): Promise<Asset> {
+    const data = await this.store.read()
+    const asset = data.assets[id]
+    if (!asset) {
+      throw new AssetNotFoundError(id)
+    }
+    return asset
+  }
+
+  async createAsset(input: CreateAssetInput): Promise<Asset> {
+    const now = new Date().toISOString()
+    const asset: Asset = {
+      id: randomUUID(),
+      workspaceId: input.workspaceId,
+      name: input.name,
+      type: input.type,
+      content: input.content,
+      status: 'draft',
+      author: input.author,
+      reviewers: input.reviewers || [],
+      reviewComments: [],
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    }
+    await this.store.update((data) => {
+      data.assets[asset.id] = asset
+    })
+    return asset
+  }
+
+  /**
+   * Edit an asset. New content is a new version and needs approving again.
+   */
+  async updateAsset(
+    id: string,
+    updates: { name?: string; content?: string; reviewers?: string[] }
+  ): Promise<Asset> {
+    return this.patch(id, (asset) => {
+      if (updates.name !== undefined) asset.name = updates.name
+      if (updates.reviewers !== undefined) asset.reviewers = updates.reviewers
+      if (updates.content !== undefined && updates.content !== asset.content) {
+        asset.content = updates.content
+        asset.version++
+        asset.status = 'draft'
+        asset.approvedAt = undefined
+      }
+    })
+  }
+
+  async submitForReview(id: string): Promise<Asset> {
+    return this.patch(id, (asset) => {
+      if (asset.status !== 'draft' && asset.status !== 'rejected') {
+        throw new AssetStateError(`Asset ${id} is ${asset.status} and can't be submitted`)
+      }
+      asset.status = 'pending_review'
+      asset.submittedAt = new Date().toISOString()
+    })
+  }
+
+  async approveAsset(id: string, reviewer: string, comment?: string): Promise<Asset> {
+    return this.review(id, reviewer, comment, (asset) => {
+      asset.status = 'approved'
+      asset.approvedAt = new Date().toISOString()
+    })
+  }
+
+  async rejectAsset(id: string, reviewer: string, comment: string): Promise<Asset> {
+    return this.review(id, reviewer, comment, (asset) => {
+      asset.status = 'rejected'
+    })
+  }
+
+  /**
+   * Record that approved content went out, e.g. in a scheduled post
+   */
+  async markPublished(id: string): Promise<Asset> {
+    return this.patch(id, (asset) => {
+      if (!isAssetApproved(asset)) {
+        throw new AssetStateError(`Asset ${id} is ${asset.status} and can't be published`)
+      }
+      asset.status = 'published'
+    })
+  }
+
+  /**
+   * Drop a deleted workspace's assets
+   */
+  async removeWorkspace(workspaceId: string): Promise<void> {
+    await this.store.update((data) => {
+      for (const asset of Object.values(data.assets)) {
+        if (asset.workspaceId === workspaceId) delete data.assets[asset.id]
+      }
+    })
+  }
+
+  private review(
+    id: string,
+    reviewer: string,
+    comment: string | undefined,
+    decide: (asset: Asset) => void
+  ): Promise<Asset> {
+    return this.patch(id, (asset) => {
+      if (asset.status !== 'pending_review') {
+        throw new AssetStateError(`Asset ${id} is ${asset.status}, not pending review`)
+      }
+      decide(asset)
+      asset.reviewer = reviewer
+      if (comment) asset.reviewComments.push(comment)
+    })
+  }
+
+  private patch(id: string, mutate: (asset: Asset) => void): Promise<Asset> {
+    return this.store.update((data) => {
+      const asset = data.assets[id]
+      if (!asset) {
+        throw new AssetNotFoundError(id)
+      }
+      mutate(asset)
+      asset.updatedAt = new Date().toISOString()
+      return asset
+    })
+  }
+}
+
+export const assetStore = new AssetStore()
@@ -0,0 +1,249 @@
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { JsonFileStore } from './JsonFileStore'
+
+export type AuditAction =
+  | 'context.updated'
+  | 'context.deleted'
+  | 'context.published'
+  | 'content.generated'
+  | 'content.regenerated'
+  | 'content.published'
+  | 'asset.created'
+  | 'asset.updated'
+  | 'asset.submitted'
+  | 'asset.approved'
+  | 'asset.rejected'
+  | 'asset.published'
+  | 'campaign.approved'
+  | 'post.published'
+  | 'post.publish_failed'
+
+export type AuditEntityType = 'context' | 'content' | 'asset' | 'campaign' | 'post' | 'job'
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  'context',
+  'content',
+  'asset',
+  'campaign',
+  'post',
+  'job',
+]
+
+export interface AuditActor {
+  // Absent for the system, e.g. the scheduler publishing on its own
+  id?: string
+  name: string
+  kind: 'user' | 'system'
+}
+
+export interface FieldChange {
+  // Dotted path to the changed field, e.g. "brandVoice.tone"
+  path: string
+  before?: unknown
+  after?: unknown
+}
+
+export interface AuditEntry {
+  id: string
+  at: string
+  workspaceId?: string
+  actor: AuditActor
+  action: AuditAction
+  entity: { type: AuditEntityType; id?: string }
+  // One line for people reading the log, e.g. Approved "Spring launch"
+  summary: string
+  changes?: FieldChange[]
+  metadata?: Record<string, unknown>
+}
+
+export type AuditInput = Omit<AuditEntry, 'id' | 'at'>
+
+export interface AuditQuery {
+  workspaceId?: string
+  actorId?: string
+  action?: string
+  entityType?: string
+  entityId?: string
+  // ISO timestamps; from is inclusive, to exclusive
+  from?: string
+  to?: string
+  limit?: number
+}
+
+interface AuditData {
+  entries: AuditEntry[]
+}
+
+const DEFAULT_AUDIT_PATH = path.resolve(process.cwd(), 'data', 'audit.json')
+
+// Enough to review any real edit without one save bloating the log
+const MAX_CHANGES = 200
+const MAX_VALUE_LENGTH = 2000
+
+export const SYSTEM_ACTOR: AuditActor = { name: 'Scheduler', kind: 'system' }
+
+export const userActor = (user: { id: string; name: string }): AuditActor => ({
+  id: user.id,
+  name: user.name,
+  kind: 'user',
+})
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const clip = (value: unknown): unknown => {
+  if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) {
+    return `${value.slice(0, MAX_VALUE_LENGTH)}… (${value.length} characters)`
+  }
+  return value
+}
+
+const isIgnored = (path: string, ignore: string[]) =>
+  ignore.some((ignored) => path === ignored || path.startsWith(`${ignored}.`))
+
+// Both versions as objects to walk into. A missing side counts as an empty
+// object, so added and removed objects are listed leaf by leaf.
+const objectPair = (
+  a: unknown,
+  b: unknown
+): [Record<string, unknown>, Record<string, unknown>] | undefined => {
+  const left = a === undefined ? {} : a
+  const right = b === undefined ? {} : b
+  return isPlainObject(left) && isPlainObject(right) ? [left, right] : undefined
+}
+
+const childPath = (prefix: string, key: string) => (prefix ? `${prefix}.${key}` : key)
+
+/**
+ * Field-level differences between two versions of a document. Objects are
+ * walked down to their leaves; arrays are compared as a whole. Paths in
+ * `ignore` (and anything under them) are skipped, e.g. a save timestamp.
+ */
+export function diffFields(before: unknown, after: unknown, ignore: string[] = []): FieldChange[] {
+  const changes: FieldChange[] = []
+
+  const walk = (a: unknown, b: unknown, prefix: string) => {
+    if (changes.length >= MAX_CHANGES || (prefix && isIgnored(prefix, ignore))) return
+
+    const pair = objectPair(a, b)
+    if (pair) {
+      const [left, right] = pair
+      for (const key of new Set([...Object.keys(left), ...Object.keys(right)])) {
+        walk(left[key], right[key], childPath(prefix, key))
+      }
+    } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ path: prefix, before: clip(a), after: clip(b) })
+    }
+  }
+
+  walk(before, after, '')
+  return changes.slice(0, MAX_CHANGES)
+}
+
+const CSV_COLUMNS = [
+  'at',
+  'workspaceId',
+  'actor',
+  'actorId',
+  'action',
+  'entityType',
+  'entityId',
+  'summary',
+  'changes',
+] as const
+
+export const csvCell = (value: unknown): string => {
+  const raw = value === undefined || value === null ? '' : String(value)
+  // Spreadsheets run cells starting with these as formulas, and may drop a
+  // leading tab or carriage return before reading the rest as one
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const describeChange = ({ path, before, after }: FieldChange) =>
+  `${path}: ${JSON.stringify(before) ?? '(none)'} → ${JSON.stringify(after) ?? '(none)'}`
+
+/**
+ * Entries as CSV for client reports, one row per entry with its field
+ * changes joined into a single column
+ */
+export function toCsv(entries: AuditEntry[]): string {
+  const rows = entries.map((entry) =>
+    [
+      entry.at,
+      entry.workspaceId,
+      entry.actor.name,
+      entry.actor.id,
+      entry.action,
+      entry.entity.type,
+      entry.entity.id,
+      entry.summary,
+      entry.changes?.map(describeChange).join('; '),
+    ]
+      .map(csvCell)
+      .join(',')
+  )
+  return `${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`
+}
+
+/**
+ * Append-only record of who changed context, generated or reviewed content
+ * and published posts. Entries are never edited or removed.
+ */
+export class AuditLog {
+  private store: JsonFileStore<AuditData>
+
+  constructor(filePath = process.env.AUDIT_DATA_PATH || DEFAULT_AUDIT_PATH) {
+    this.store = new JsonFileStore<AuditData>(filePath, () => ({ entries: [] }))
+  }
+
+  /**
+   * Append an entry. Recording never fails the action being recorded; a
+   * failure is logged instead.
+   */
+  async record(input: AuditInput): Promise<AuditEntry | undefined> {
+    const entry: AuditEntry = { id: randomUUID(), at: new Date().toISOString(), ...input }
+    try {
+      await this.store.update((data) => {
+        data.entries.push(entry)
+      })
+      return entry
+    } catch (error) {
+      console.error(`Failed to record audit entry ${input.action}:`, error)
+      return undefined
+    }
+  }
+
+  /**
+   * Entries matching the query, newest first
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const { entries } = await this.store.read()
+    const matches = entries
+      .filter(
+        (entry) =>
+          (!query.workspaceId || entry.workspaceId === query.workspaceId) &&
+          (!query.actorId || entry.actor.id === query.actorId) &&
+          (!query.action || entry.action === query.action) &&
+          (!query.entityType || entry.entity.type === query.entityType) &&
+          (!query.entityId || entry.entity.id === query.entityId) &&
+          (!query.from || entry.at >= query.from) &&
+          (!query.to || entry.at < query.to)
+      )
+      .reverse()
+
+    return query.limit ? matches.slice(0, query.limit) : matches
+  }
+
+  /**
+   * Drop a deleted workspace's entries. The log is otherwise never edited.
+   */
+  async removeWorkspace(workspaceId: string): Promise<void> {
+    await this.store.update((data) => {
+      data.entries = data.entries.filter((entry) => entry.workspaceId !== workspaceId)
+    })
+  }
+}
+
+export const auditLog = new AuditLog()
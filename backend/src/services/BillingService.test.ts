@@ -0,0 +1,191 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { BillingService } from './BillingService'
+import { findPlan } from './Plans'
+import type { StripeClient, StripeEvent, StripeSubscription } from './StripeClient'
+
+const WORKSPACE = 'ws-1'
+
+const subscription = (overrides: Partial<StripeSubscription> = {}): StripeSubscription => ({
+  id: 'sub_1',
+  status: 'active',
+  customer: 'cus_1',
+  cancel_at_period_end: false,
+  canceled_at: null,
+  trial_end: null,
+  current_period_end: 1_775_000_000,
+  metadata: { workspaceId: WORKSPACE, planId: 'mvp2-agency' },
+  ...overrides,
+})
+
+let eventCount = 0
+const subscriptionEvent = (
+  type: string,
+  object: StripeSubscription,
+  created: number
+): StripeEvent => ({
+  id: `evt_${++eventCount}`,
+  type,
+  created,
+  data: { object: object as unknown as Record<string, unknown> },
+})
+
+describe('BillingService webhooks', () => {
+  let dir: string
+  let billing: BillingService
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    dir = await mkdtemp(path.join(tmpdir(), 'billing-'))
+    billing = new BillingService(path.join(dir, 'billing.json'), undefined, 0, () => undefined)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('entitles a workspace through trial, payment retries and cancellation', async () => {
+    await billing.handleEvent(
+      subscriptionEvent(
+        'customer.subscription.created',
+        subscription({ status: 'trialing', trial_end: 1_774_000_000 }),
+        100
+      )
+    )
+    expect(await billing.getEntitlement(WORKSPACE)).toEqual({
+      workspaceId: WORKSPACE,
+      active: true,
+      status: 'trialing',
+      planId: 'mvp2-agency',
+      limitations: findPlan('mvp2-agency')?.limitations,
+    })
+
+    await billing.handleEvent(
+      subscriptionEvent('customer.subscription.updated', subscription({ status: 'active' }), 200)
+    )
+    expect((await billing.getEntitlement(WORKSPACE)).status).toBe('active')
+
+    // Stripe retrying a failed payment keeps the plan's features
+    await billing.handleEvent(
+      subscriptionEvent('customer.subscription.updated', subscription({ status: 'unpaid' }), 300)
+    )
+    expect(await billing.getEntitlement(WORKSPACE)).toMatchObject({
+      active: true,
+      status: 'past_due',
+    })
+
+    await billing.handleEvent(
+      subscriptionEvent(
+        'customer.subscription.deleted',
+        subscription({ status: 'canceled', canceled_at: 400 }),
+        400
+      )
+    )
+    const entitlement = await billing.getEntitlement(WORKSPACE)
+    expect(entitlement).toMatchObject({ active: false, status: 'canceled' })
+    expect(entitlement.limitations).toBeUndefined()
+  })
+
+  it('treats an incomplete first payment as not entitled', async () => {
+    await billing.handleEvent(
+      subscriptionEvent(
+        'customer.subscription.created',
+        subscription({ status: 'incomplete' }),
+        100
+      )
+    )
+    expect(await billing.getEntitlement(WORKSPACE)).toMatchObject({
+      active: false,
+      status: 'incomplete',
+    })
+  })
+
+  it('ignores events older than the state already applied', async () => {
+    await billing.handleEvent(
+      subscriptionEvent('customer.subscription.deleted', subscription({ status: 'canceled' }), 500)
+    )
+    // Delivered late
+    await billing.handleEvent(
+      subscriptionEvent('customer.subscription.updated', subscription({ status: 'active' }), 400)
+    )
+    expect((await billing.getEntitlement(WORKSPACE)).status).toBe('canceled')
+  })
+
+  it('applies each event once', async () => {
+    const event = subscriptionEvent('customer.subscription.created', subscription(), 100)
+    expect(await billing.handleEvent(event)).toBe('processed')
+    expect(await billing.handleEvent(event)).toBe('duplicate')
+  })
+
+  it('applies an event once when Stripe delivers it twice at the same time', async () => {
+    const event = subscriptionEvent('customer.subscription.created', subscription(), 100)
+    const outcomes = await Promise.all([billing.handleEvent(event), billing.handleEvent(event)])
+    expect(outcomes.sort()).toEqual(['duplicate', 'processed'])
+  })
+
+  it("doesn't let the end of a replaced subscription revoke the new one", async () => {
+    await billing.handleEvent(
+      subscriptionEvent('customer.subscription.created', subscription({ id: 'sub_2' }), 200)
+    )
+    await billing.handleEvent(
+      subscriptionEvent(
+        'customer.subscription.deleted',
+        subscription({ id: 'sub_1', status: 'canceled' }),
+        300
+      )
+    )
+    expect(await billing.getSubscription(WORKSPACE)).toMatchObject({
+      stripeSubscriptionId: 'sub_2',
+      status: 'active',
+    })
+  })
+
+  it('ignores subscriptions without a workspace or plan', async () => {
+    await billing.handleEvent(
+      subscriptionEvent('customer.subscription.created', subscription({ metadata: null }), 100)
+    )
+    expect(await billing.getSubscription(WORKSPACE)).toBeUndefined()
+  })
+
+  it('entitles the workspace a completed checkout was for', async () => {
+    const stripe = {
+      getSubscription: async (id: string) =>
+        subscription({ id, metadata: { planId: 'mvp2-agency' } }),
+    } as unknown as StripeClient
+    billing = new BillingService(path.join(dir, 'checkout.json'), undefined, 0, () => stripe)
+
+    const outcome = await billing.handleEvent({
+      id: 'evt_checkout',
+      type: 'checkout.session.completed',
+      created: 100,
+      data: {
+        object: {
+          id: 'cs_1',
+          subscription: 'sub_9',
+          client_reference_id: WORKSPACE,
+          metadata: null,
+        },
+      },
+    })
+    expect(outcome).toBe('processed')
+    expect(await billing.getEntitlement(WORKSPACE)).toMatchObject({
+      active: true,
+      planId: 'mvp2-agency',
+    })
+  })
+
+  it('ignores event types it does not handle', async () => {
+    expect(
+      await billing.handleEvent({
+        id: 'evt_invoice',
+        type: 'invoice.paid',
+        created: 100,
+        data: { object: {} },
+      })
+    ).toBe('ignored')
+  })
+})
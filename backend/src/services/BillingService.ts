@@ -0,0 +1,409 @@
+import path from 'node:path'
+import { JsonFileStore } from './JsonFileStore'
+import { type PlanLimitations, findPlan } from './Plans'
+import {
+  type StripeCheckoutSession,
+  type StripeClient,
+  type StripeEvent,
+  type StripeSubscription,
+  resolveStripe,
+} from './StripeClient'
+
+/**
+ * trialing → active, with past_due while Stripe retries a failed payment and
+ * canceled once it gives up or the subscription ends. incomplete means the
+ * first payment never went through.
+ */
+export type SubscriptionStatus = 'trialing' | 'active' | 'past_due' | 'canceled' | 'incomplete'
+
+export interface WorkspaceSubscription {
+  workspaceId: string
+  planId: string
+  status: SubscriptionStatus
+  stripeCustomerId: string
+  stripeSubscriptionId: string
+  trialEndsAt?: string
+  currentPeriodEnd?: string
+  // Ends at currentPeriodEnd instead of renewing
+  cancelAtPeriodEnd: boolean
+  canceledAt?: string
+  // Stripe time (epoch seconds) of the state last applied, so a webhook
+  // delivered late can't undo a newer one
+  syncedAt: number
+  updatedAt: string
+}
+
+/**
+ * What a workspace's plan lets it do. Without an entitling subscription
+ * there are no limitations to apply, and `active` is false.
+ */
+export interface Entitlement {
+  workspaceId: string
+  active: boolean
+  planId?: string
+  status?: SubscriptionStatus
+  limitations?: PlanLimitations
+}
+
+export interface CheckoutInput {
+  workspaceId: string
+  planId: string
+  customerEmail?: string
+  companyName?: string
+}
+
+export interface CheckoutResult {
+  sessionId: string
+  status: StripeCheckoutSession['status']
+  subscription?: WorkspaceSubscription
+}
+
+export type WebhookOutcome = 'processed' | 'duplicate' | 'ignored'
+
+interface BillingData {
+  subscriptions: Record<string, WorkspaceSubscription>
+  // Recently handled webhook event ids; Stripe may deliver an event twice
+  processedEvents: string[]
+}
+
+export class BillingNotConfiguredError extends Error {
+  constructor() {
+    super('Billing is not configured; set STRIPE_SECRET_KEY')
+    this.name = 'BillingNotConfiguredError'
+  }
+}
+
+export class BillingStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BillingStateError'
+  }
+}
+
+export class CheckoutNotFoundError extends Error {
+  constructor(sessionId: string) {
+    super(`Checkout session not found: ${sessionId}`)
+    this.name = 'CheckoutNotFoundError'
+  }
+}
+
+const DEFAULT_BILLING_PATH = path.resolve(process.cwd(), 'data', 'billing.json')
+
+const MAX_PROCESSED_EVENTS = 1000
+
+// Subscriptions that keep the plan's features. past_due keeps them while
+// Stripe retries the payment.
+const ENTITLING: SubscriptionStatus[] = ['trialing', 'active', 'past_due']
+
+const STRIPE_STATUSES: Record<string, SubscriptionStatus> = {
+  trialing: 'trialing',
+  active: 'active',
+  past_due: 'past_due',
+  unpaid: 'past_due',
+  canceled: 'canceled',
+  incomplete_expired: 'canceled',
+  incomplete: 'incomplete',
+  paused: 'incomplete',
+}
+
+const isoFromEpoch = (seconds: number | null | undefined) =>
+  seconds ? new Date(seconds * 1000).toISOString() : undefined
+
+const periodEndOf = (subscription: StripeSubscription) =>
+  subscription.current_period_end ?? subscription.items?.data[0]?.current_period_end
+
+const workspaceOf = (
+  data: BillingData,
+  subscription: StripeSubscription,
+  hint: string | undefined
+): string | undefined =>
+  subscription.metadata?.workspaceId ||
+  hint ||
+  Object.values(data.subscriptions).find((s) => s.stripeSubscriptionId === subscription.id)
+    ?.workspaceId
+
+/**
+ * Whether Stripe state should be skipped: older than what is stored, or the
+ * end of a subscription the workspace has since replaced
+ */
+const isOutdated = (
+  current: WorkspaceSubscription,
+  subscriptionId: string,
+  status: SubscriptionStatus,
+  asOf: number
+): boolean =>
+  current.stripeSubscriptionId === subscriptionId
+    ? current.syncedAt > asOf
+    : ENTITLING.includes(current.status) && !ENTITLING.includes(status)
+
+/**
+ * Workspace subscriptions bought through Stripe Checkout. Stripe is the
+ * source of truth: its webhooks keep the stored state current, and the
+ * stored state is what entitlements are read from.
+ */
+export class BillingService {
+  private store: JsonFileStore<BillingData>
+  // Events being applied now, so a delivery that arrives mid-apply waits
+  private eventsInFlight = new Map<string, Promise<WebhookOutcome>>()
+
+  constructor(
+    filePath = process.env.BILLING_DATA_PATH || DEFAULT_BILLING_PATH,
+    private frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000',
+    private trialDays = Number(process.env.STRIPE_TRIAL_DAYS) || 0,
+    private resolveClient: () => StripeClient | undefined = resolveStripe
+  ) {
+    this.store = new JsonFileStore<BillingData>(filePath, () => ({
+      subscriptions: {},
+      processedEvents: [],
+    }))
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.resolveClient())
+  }
+
+  async getSubscription(workspaceId: string): Promise<WorkspaceSubscription | undefined> {
+    const data = await this.store.read()
+    return data.subscriptions[workspaceId]
+  }
+
+  async getEntitlement(workspaceId: string): Promise<Entitlement> {
+    const subscription = await this.getSubscription(workspaceId)
+    if (!subscription || !ENTITLING.includes(subscription.status)) {
+      return {
+        workspaceId,
+        active: false,
+        planId: subscription?.planId,
+        status: subscription?.status,
+      }
+    }
+    return {
+      workspaceId,
+      active: true,
+      planId: subscription.planId,
+      status: subscription.status,
+      limitations: findPlan(subscription.planId)?.limitations,
+    }
+  }
+
+  /**
+   * Start a Stripe Checkout for a monthly subscription to a plan. Returns the
+   * page to send the buyer to; they come back to the app with
+   * ?checkout=success&session_id=… or ?checkout=cancelled.
+   */
+  async startCheckout(input: CheckoutInput): Promise<{ sessionId: string; url: string }> {
+    const stripe = this.client()
+    const plan = findPlan(input.planId)
+    if (!plan) {
+      throw new BillingStateError(`Unknown plan: ${input.planId}`)
+    }
+    const current = await this.getSubscription(input.workspaceId)
+    if (current && ENTITLING.includes(current.status)) {
+      throw new BillingStateError('This workspace already has a subscription; cancel it first')
+    }
+
+    const session = await stripe.createCheckoutSession({
+      mode: 'subscription',
+      client_reference_id: input.workspaceId,
+      // Reuse the workspace's Stripe customer so its invoices stay together
+      customer: current?.stripeCustomerId,
+      customer_email: current ? undefined : input.customerEmail,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: plan.currency,
+            unit_amount: Math.round(plan.price * 100),
+            recurring: { interval: 'month' },
+            product_data: { name: plan.name, metadata: { planId: plan.id } },
+          },
+        },
+      ],
+      metadata: {
+        workspaceId: input.workspaceId,
+        planId: plan.id,
+        companyName: input.companyName,
+      },
+      subscription_data: {
+        metadata: { workspaceId: input.workspaceId, planId: plan.id },
+        trial_period_days: this.trialDays > 0 ? this.trialDays : undefined,
+      },
+      success_url: `${this.frontendUrl}/?checkout=success&session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${this.frontendUrl}/?checkout=cancelled`,
+    })
+    if (!session.url) {
+      throw new BillingStateError('Stripe did not return a checkout page')
+    }
+
+    console.log(`💳 Checkout ${session.id} started for ${plan.name} in ${input.workspaceId}`)
+    return { sessionId: session.id, url: session.url }
+  }
+
+  /**
+   * A workspace's checkout, once the buyer is back. A completed checkout's
+   * subscription is synced straight away rather than waiting for its webhook.
+   */
+  async getCheckout(workspaceId: string, sessionId: string): Promise<CheckoutResult> {
+    const stripe = this.client()
+    const session = await stripe.getCheckoutSession(sessionId)
+    if (session.client_reference_id !== workspaceId) {
+      throw new CheckoutNotFoundError(sessionId)
+    }
+
+    let subscription: WorkspaceSubscription | undefined
+    if (session.status === 'complete' && session.subscription) {
+      subscription = await this.applySubscription(
+        await stripe.getSubscription(session.subscription),
+        Math.floor(Date.now() / 1000),
+        workspaceId
+      )
+    }
+    return { sessionId: session.id, status: session.status, subscription }
+  }
+
+  /**
+   * Stop renewing. The plan's features last until the paid period ends, when
+   * Stripe cancels the subscription and its webhook revokes them.
+   */
+  async cancelAtPeriodEnd(workspaceId: string): Promise<WorkspaceSubscription> {
+    const stripe = this.client()
+    const current = await this.getSubscription(workspaceId)
+    if (!current || !ENTITLING.includes(current.status)) {
+      throw new BillingStateError('This workspace has no subscription to cancel')
+    }
+
+    const updated = await stripe.updateSubscription(current.stripeSubscriptionId, {
+      cancel_at_period_end: true,
+    })
+    const subscription = await this.applySubscription(
+      updated,
+      Math.floor(Date.now() / 1000),
+      workspaceId
+    )
+    return subscription || current
+  }
+
+  /**
+   * Cancel a deleted workspace's subscription right away, so it isn't billed
+   * again, and forget it
+   */
+  async removeWorkspace(workspaceId: string): Promise<void> {
+    const current = await this.getSubscription(workspaceId)
+    if (current && ENTITLING.includes(current.status)) {
+      await this.client().cancelSubscription(current.stripeSubscriptionId)
+    }
+    await this.store.update((data) => {
+      delete data.subscriptions[workspaceId]
+    })
+  }
+
+  /**
+   * Apply a verified webhook event. Each event is applied once, however
+   * often Stripe delivers it: a delivery that arrives while the event is
+   * being applied waits for that attempt, and the event is only recorded as
+   * processed once it applied, so a failed attempt can be redelivered.
+   */
+  async handleEvent(event: StripeEvent): Promise<WebhookOutcome> {
+    const running = this.eventsInFlight.get(event.id)
+    if (running) {
+      await running
+      return 'duplicate'
+    }
+
+    const attempt = this.applyOnce(event)
+    this.eventsInFlight.set(event.id, attempt)
+    try {
+      return await attempt
+    } finally {
+      this.eventsInFlight.delete(event.id)
+    }
+  }
+
+  private async applyOnce(event: StripeEvent): Promise<WebhookOutcome> {
+    const { processedEvents } = await this.store.read()
+    if (processedEvents.includes(event.id)) return 'duplicate'
+
+    const outcome = await this.applyEvent(event)
+    await this.store.update((data) => {
+      if (!data.processedEvents.includes(event.id)) {
+        data.processedEvents = [...data.processedEvents, event.id].slice(-MAX_PROCESSED_EVENTS)
+      }
+    })
+    return outcome
+  }
+
+  private async applyEvent(event: StripeEvent): Promise<WebhookOutcome> {
+    switch (event.type) {
+      case 'checkout.session.completed': {
+        const session = event.data.object as unknown as StripeCheckoutSession
+        if (!session.subscription) return 'ignored'
+        const subscription = await this.client().getSubscription(session.subscription)
+        const workspaceId = session.client_reference_id || session.metadata?.workspaceId
+        await this.applySubscription(subscription, event.created, workspaceId || undefined)
+        return 'processed'
+      }
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        await this.applySubscription(
+          event.data.object as unknown as StripeSubscription,
+          event.created
+        )
+        return 'processed'
+      default:
+        return 'ignored'
+    }
+  }
+
+  /**
+   * Store a Stripe subscription's state against its workspace, unless it is
+   * outdated
+   */
+  private async applySubscription(
+    subscription: StripeSubscription,
+    asOf: number,
+    workspaceHint?: string
+  ): Promise<WorkspaceSubscription | undefined> {
+    return this.store.update((data) => {
+      const workspaceId = workspaceOf(data, subscription, workspaceHint)
+      const current = workspaceId ? data.subscriptions[workspaceId] : undefined
+      const planId = subscription.metadata?.planId || current?.planId
+      if (!workspaceId || !planId) {
+        console.warn(`⚠️ Stripe subscription ${subscription.id} has no workspace or plan; ignored`)
+        return undefined
+      }
+
+      const status = STRIPE_STATUSES[subscription.status] || 'incomplete'
+      if (current && isOutdated(current, subscription.id, status, asOf)) {
+        return current
+      }
+
+      const next: WorkspaceSubscription = {
+        workspaceId,
+        planId,
+        status,
+        stripeCustomerId: subscription.customer,
+        stripeSubscriptionId: subscription.id,
+        trialEndsAt: isoFromEpoch(subscription.trial_end),
+        currentPeriodEnd: isoFromEpoch(periodEndOf(subscription)),
+        cancelAtPeriodEnd: subscription.cancel_at_period_end,
+        canceledAt: isoFromEpoch(subscription.canceled_at),
+        syncedAt: asOf,
+        updatedAt: new Date().toISOString(),
+      }
+      data.subscriptions[workspaceId] = next
+      if (current?.status !== status) {
+        console.log(`💳 Workspace ${workspaceId} subscription is now ${status} (${planId})`)
+      }
+      return next
+    })
+  }
+
+  private client(): StripeClient {
+    const client = this.resolveClient()
+    if (!client) throw new BillingNotConfiguredError()
+    return client
+  }
+}
+
+export const billingService = new BillingService()
@@ -0,0 +1,200 @@
+// Using built-in fetch (Node 18+)
+import { z } from 'zod'
+import type { AIConfig } from './AIProvider'
+import type { CompanyDNA } from './CompanyContextStore'
+import { entitlements } from './Entitlements'
+import { metering } from './Metering'
+import { UnsafeUrlError, fetchPublicUrl } from './PublicUrl'
+import { generateStructured } from './StructuredOutput'
+import { usageLedger } from './UsageLedger'
+
+const BrandToneSchema = z.enum(['professional', 'friendly', 'authoritative', 'casual', 'technical'])
+
+// The model's analysis; company details and metadata are filled in from the request
+export const BrandAnalysisSchema = z.object({
+  industry: z.string().optional(),
+  estimatedSize: z.enum(['startup', 'small', 'medium', 'enterprise']).optional(),
+  description: z.string().optional(),
+  brandDNA: z.object({
+    valuePropositions: z.array(z.string()),
+    coreOfferings: z.array(z.string()),
+    targetAudience: z.object({
+      demographics: z.string(),
+      psychographics: z.string(),
+      painPoints: z.array(z.string()),
+    }),
+    brandVoice: z.object({
+      personality: z.array(z.string()),
+      tone: BrandToneSchema,
+      communicationStyle: z.string(),
+    }),
+    brandColors: z.object({
+      primary: z.string(),
+      secondary: z.string(),
+      accent: z.string(),
+    }),
+  }),
+  marketingInsights: z.object({
+    competitiveAdvantage: z.string(),
+    marketPosition: z.string(),
+    contentThemes: z.array(z.string()),
+    recommendedChannels: z.array(z.string()),
+  }),
+  confidenceScore: z.number().min(0).max(1).optional(),
+})
+
+export const BrandVoiceAnalysisSchema = z.object({
+  personality: z.array(z.string()),
+  tone: BrandToneSchema,
+  communicationStyle: z.string(),
+  vocabulary: z.array(z.string()).default([]),
+  recommendations: z.array(z.string()).default([]),
+  confidenceScore: z.number().min(0).max(1),
+})
+
+export type BrandVoiceAnalysis = z.infer<typeof BrandVoiceAnalysisSchema>
+
+export class BrandAnalyzer {
+  private aiConfig?: AIConfig
+  // Workspace that AI usage is recorded and budgeted against
+  private workspaceId: string
+
+  constructor(aiConfig: AIConfig | undefined, workspaceId: string) {
+    this.aiConfig = aiConfig
+    this.workspaceId = workspaceId
+  }
+
+  /**
+   * Uses one of the workspace's monthly analyses; website analysis needs a
+   * plan that includes it
+   */
+  async extractCompanyDNA(input: {
+    companyName: string
+    website?: string
+    industry?: string
+    description?: string
+  }): Promise<CompanyDNA> {
+    if (input.website) await entitlements.assertWebsiteAnalysis(this.workspaceId)
+    await entitlements.consumeAnalysis(this.workspaceId)
+
+    let websiteContent = ''
+    if (input.website) {
+      websiteContent = await this.fetchWebsiteText(input.website)
+    }
+
+    const prompt = `
+You are an expert brand strategist analyzing a company to extract comprehensive brand DNA.
+
+COMPANY INFORMATION:
+- Name: ${input.companyName}
+- Industry: ${input.industry || 'Unknown'}
+- Description: ${input.description || 'Not provided'}
+
+WEBSITE CONTENT:
+${websiteContent || 'No website content available'}
+
+Return a JSON object with this exact structure:
+{
+  "industry": "string",
+  "estimatedSize": "startup | small | medium | enterprise",
+  "description": "string",
+  "brandDNA": {
+    "valuePropositions": ["string"],
+    "coreOfferings": ["string"],
+    "targetAudience": { "demographics": "string", "psychographics": "string", "painPoints": ["string"] },
+    "brandVoice": {
+      "personality": ["string"],
+      "tone": "professional | friendly | authoritative | casual | technical",
+      "communicationStyle": "string"
+    },
+    "brandColors": { "primary": "#hex", "secondary": "#hex", "accent": "#hex" }
+  },
+  "marketingInsights": {
+    "competitiveAdvantage": "string",
+    "marketPosition": "string",
+    "contentThemes": ["string"],
+    "recommendedChannels": ["string"]
+  },
+  "confidenceScore": 0.85
+}
+
+Return only valid JSON, no additional text.`
+
+    const analysis = await this.callAI(prompt, 'extract-company-dna', BrandAnalysisSchema)
+    await metering.record({ workspaceId: this.workspaceId, kind: 'dna_extraction' })
+
+    return {
+      company: {
+        name: input.companyName,
+        industry: analysis.industry || input.industry || 'Unknown',
+        size: analysis.estimatedSize || 'startup',
+        description: analysis.description || input.description || '',
+        website: input.website,
+      },
+      brandDNA: analysis.brandDNA,
+      marketingInsights: analysis.marketingInsights,
+      metadata: {
+        extractedAt: new Date().toISOString(),
+        websiteAnalyzed: Boolean(websiteContent),
+        confidenceScore: analysis.confidenceScore ?? 0.5,
+        version: '2.0.0',
+      },
+    }
+  }
+
+  async analyzeBrandVoice(
+    content: string,
+    context?: Record<string, unknown>
+  ): Promise<BrandVoiceAnalysis> {
+    const prompt = `
+You are an expert brand strategist. Analyze the brand voice of the content below.
+
+${context ? `ADDITIONAL CONTEXT:\n${JSON.stringify(context, null, 2)}\n` : ''}
+CONTENT:
+${content}
+
+Return a JSON object with personality (array of traits), tone (professional | friendly | authoritative | casual | technical), communicationStyle, vocabulary (array of characteristic words or phrases), recommendations (array), confidenceScore (0-1).
+
+Return only valid JSON, no additional text.`
+
+    return this.callAI(prompt, 'analyze-brand-voice', BrandVoiceAnalysisSchema)
+  }
+
+  private async fetchWebsiteText(url: string): Promise<string> {
+    try {
+      const response = await fetchPublicUrl(url, { headers: { 'User-Agent': 'SlottedBot/1.0' } })
+      if (!response.ok) {
+        return ''
+      }
+
+      const html = await response.text()
+      return html
+        .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, 8000)
+    } catch (error) {
+      if (error instanceof UnsafeUrlError) throw error
+      console.error(`Failed to fetch website ${url}:`, error)
+      return ''
+    }
+  }
+
+  private async callAI<T>(
+    prompt: string,
+    task: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  ): Promise<T> {
+    const provider = await entitlements.resolveProviders(this.workspaceId, this.aiConfig)
+    if (!provider) {
+      throw new Error('AI configuration not provided')
+    }
+
+    return generateStructured(usageLedger.meter(provider, { workspaceId: this.workspaceId }), {
+      prompt,
+      task,
+      schema,
+    })
+  }
+}
@@ -0,0 +1,224 @@
+import { createHash, randomBytes } from 'node:crypto'
+import path from 'node:path'
+import {
+  type CampaignSchedule,
+  type PostStatus,
+  type ScheduledPost,
+  campaignScheduler,
+} from './CampaignScheduler'
+import { type IcsEvent, toIcs } from './ICalendar'
+import { JsonFileStore } from './JsonFileStore'
+import { workspaceStore } from './WorkspaceStore'
+
+export interface FeedMilestone {
+  id: string
+  title: string
+  date: string
+  completed?: boolean
+}
+
+/**
+ * The 'campaignMilestones' workspace document: each campaign's milestones,
+ * by campaign id, as the app generates them
+ */
+export type CampaignMilestones = Record<string, FeedMilestone[]>
+
+export interface FeedStatus {
+  workspaceId: string
+  active: boolean
+  createdAt?: string
+}
+
+interface FeedRecord {
+  workspaceId: string
+  // Only a hash is kept; the token itself is handed out once
+  tokenHash: string
+  createdAt: string
+}
+
+interface FeedData {
+  feeds: Record<string, FeedRecord>
+}
+
+const DEFAULT_FEED_PATH = path.resolve(process.cwd(), 'data', 'calendar-feeds.json')
+
+// How often subscribed calendars are asked to check for changes
+const REFRESH_MINUTES = 60
+
+// Posts are shown as short events at their slot
+const POST_MINUTES = 15
+
+// Posts that won't go out at their slot
+const HIDDEN_POSTS: PostStatus[] = ['cancelled', 'skipped', 'unplaced']
+
+const CONFIRMED_POSTS: PostStatus[] = ['scheduled', 'publishing', 'published']
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+const nextDay = (date: string) =>
+  new Date(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + 86_400_000).toISOString().slice(0, 10)
+
+// UIDs stay the same across exports and feed refreshes, so calendars update
+// events in place
+const uid = (kind: 'campaign' | 'milestone' | 'post', id: string) =>
+  `${kind}-${encodeURIComponent(id)}@slotted`
+
+const isMilestones = (data: unknown): data is CampaignMilestones =>
+  typeof data === 'object' &&
+  data !== null &&
+  Object.values(data).every(
+    (milestones) =>
+      Array.isArray(milestones) &&
+      milestones.every(
+        (m) =>
+          typeof m?.id === 'string' &&
+          typeof m.title === 'string' &&
+          /^\d{4}-\d{2}-\d{2}$/.test(m.date)
+      )
+  )
+
+/**
+ * An event's revision for calendars: seconds from its campaign's scheduling
+ * to its last change, so it grows with every change. Events saved before
+ * changes were tracked start at 0.
+ */
+const sequence = (schedule: CampaignSchedule, changedAt?: string): number =>
+  changedAt
+    ? Math.max(0, Math.floor((Date.parse(changedAt) - Date.parse(schedule.createdAt)) / 1000))
+    : 0
+
+const revision = (schedule: CampaignSchedule, changedAt?: string) => ({
+  sequence: sequence(schedule, changedAt),
+  lastModified: changedAt ? new Date(changedAt) : undefined,
+})
+
+const campaignEvent = (schedule: CampaignSchedule): IcsEvent => ({
+  uid: uid('campaign', schedule.campaignId),
+  summary: `📢 ${schedule.campaignTitle}`,
+  description: [
+    schedule.channels.length && `Channels: ${schedule.channels.join(', ')}`,
+    `${schedule.posts.length} scheduled posts`,
+  ]
+    .filter(Boolean)
+    .join('\n'),
+  categories: ['Campaign'],
+  status: 'CONFIRMED',
+  start: { date: schedule.startDate.slice(0, 10) },
+  end: { date: nextDay(schedule.endDate) },
+  ...revision(schedule, schedule.updatedAt),
+})
+
+// Milestones are published together, so each changes when the document does
+const milestoneEvent = (
+  schedule: CampaignSchedule,
+  milestone: FeedMilestone,
+  changedAt?: string
+): IcsEvent => ({
+  uid: uid('milestone', milestone.id),
+  summary: `🎯 ${milestone.title}${milestone.completed ? ' ✓' : ''}`,
+  description: `Milestone of ${schedule.campaignTitle}`,
+  categories: ['Milestone'],
+  status: 'CONFIRMED',
+  start: { date: milestone.date },
+  end: { date: nextDay(milestone.date) },
+  ...revision(schedule, changedAt),
+})
+
+const postEvent = (schedule: CampaignSchedule, post: ScheduledPost): IcsEvent => {
+  const at = new Date(post.publishedAt || post.scheduledFor)
+  const headline = post.content.title || post.content.text.split('\n')[0].slice(0, 60)
+  return {
+    uid: uid('post', post.id),
+    summary: `${post.channelId}: ${headline}`,
+    description: [`${schedule.campaignTitle} · ${post.status}`, post.content.text, post.platformUrl]
+      .filter(Boolean)
+      .join('\n\n'),
+    categories: ['Post', post.channelId],
+    status: CONFIRMED_POSTS.includes(post.status) ? 'CONFIRMED' : 'TENTATIVE',
+    start: { dateTime: at },
+    end: { dateTime: new Date(at.getTime() + POST_MINUTES * 60_000) },
+    ...revision(schedule, post.updatedAt),
+  }
+}
+
+/**
+ * A workspace's campaign calendar as iCalendar: each scheduled campaign as
+ * an all-day span, its milestones, and its posts at their slots. Served as
+ * a download and as a feed calendars subscribe to with a secret URL.
+ */
+export class CalendarFeedService {
+  private store: JsonFileStore<FeedData>
+
+  constructor(filePath = process.env.CALENDAR_FEED_DATA_PATH || DEFAULT_FEED_PATH) {
+    this.store = new JsonFileStore<FeedData>(filePath, () => ({ feeds: {} }))
+  }
+
+  async getStatus(workspaceId: string): Promise<FeedStatus> {
+    const data = await this.store.read()
+    const feed = data.feeds[workspaceId]
+    return { workspaceId, active: Boolean(feed), createdAt: feed?.createdAt }
+  }
+
+  /**
+   * Start a feed with a new secret token, replacing any earlier one so its
+   * URL stops working. The token is only returned here.
+   */
+  async createFeed(workspaceId: string): Promise<{ status: FeedStatus; token: string }> {
+    await workspaceStore.getWorkspace(workspaceId)
+    const token = randomBytes(32).toString('base64url')
+    const createdAt = new Date().toISOString()
+    await this.store.update((data) => {
+      data.feeds[workspaceId] = { workspaceId, tokenHash: hashToken(token), createdAt }
+    })
+    return { status: { workspaceId, active: true, createdAt }, token }
+  }
+
+  async revokeFeed(workspaceId: string): Promise<void> {
+    await this.store.update((data) => {
+      delete data.feeds[workspaceId]
+    })
+  }
+
+  /**
+   * The workspace a feed token belongs to, if it is current
+   */
+  async workspaceForToken(token: string): Promise<string | undefined> {
+    const data = await this.store.read()
+    const tokenHash = hashToken(token)
+    return Object.values(data.feeds).find((feed) => feed.tokenHash === tokenHash)?.workspaceId
+  }
+
+  /**
+   * The workspace's calendar as an .ics file
+   */
+  async buildCalendar(workspaceId: string): Promise<{ name: string; ics: string }> {
+    const workspace = await workspaceStore.getWorkspace(workspaceId)
+    const schedules = await campaignScheduler.listSchedules(workspaceId)
+    const document = workspace.documents.campaignMilestones
+    const milestones = isMilestones(document?.data) ? document.data : {}
+
+    // Milestones of campaigns no longer scheduled are left out
+    const events = schedules.flatMap((schedule) => [
+      campaignEvent(schedule),
+      ...(milestones[schedule.campaignId] || []).map((m) =>
+        milestoneEvent(schedule, m, document?.updatedAt)
+      ),
+      ...schedule.posts
+        .filter((post) => !HIDDEN_POSTS.includes(post.status))
+        .map((post) => postEvent(schedule, post)),
+    ])
+
+    const name = `${workspace.name} campaigns`
+    return {
+      name,
+      ics: toIcs({
+        name,
+        description: `Campaigns, milestones and scheduled posts from Slotted for ${workspace.name}`,
+        refreshMinutes: REFRESH_MINUTES,
+        events,
+      }),
+    }
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService()
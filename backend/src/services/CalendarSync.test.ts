@@ -0,0 +1,272 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  CalendarInUseError,
+  CalendarSyncInputError,
+  CalendarSyncService,
+  type ConflictPolicy,
+  type SyncCampaign,
+} from './CalendarSync'
+import type { CalendarApi, CalendarEvent, EventPage } from './GoogleCalendarClient'
+
+const WORKSPACE = 'ws-1'
+const CALENDAR_ID = 'marketing@group.calendar.google.com'
+
+/**
+ * An in-memory Google Calendar. Incremental listings return the events
+ * changed in Google since the last listing.
+ */
+class FakeCalendar implements CalendarApi {
+  events = new Map<string, CalendarEvent>()
+  private changed = new Set<string>()
+
+  async getCalendar(id: string) {
+    return { id, summary: 'Marketing' }
+  }
+
+  async listEvents(_calendarId: string, options: { syncToken?: string }): Promise<EventPage> {
+    const ids = options.syncToken ? [...this.changed] : [...this.events.keys()]
+    this.changed.clear()
+    return {
+      items: ids.map((id) => this.events.get(id) as CalendarEvent),
+      nextSyncToken: 'sync-token',
+    }
+  }
+
+  async insertEvent(_calendarId: string, event: CalendarEvent): Promise<CalendarEvent> {
+    const created = {
+      ...event,
+      id: `event-${this.events.size + 1}`,
+      status: 'confirmed' as const,
+      updated: '2026-01-01T00:00:00Z',
+    }
+    this.events.set(created.id, created)
+    return created
+  }
+
+  async patchEvent(_calendarId: string, id: string, event: CalendarEvent): Promise<CalendarEvent> {
+    const patched = { ...this.events.get(id), ...event, updated: '2026-01-01T00:00:00Z' }
+    this.events.set(id, patched)
+    return patched
+  }
+
+  async deleteEvent(_calendarId: string, id: string): Promise<void> {
+    this.events.delete(id)
+  }
+
+  // Edits made by someone in Google Calendar
+
+  move(id: string, start: string, endExclusive: string, updated: string): void {
+    const event = this.events.get(id) as CalendarEvent
+    this.events.set(id, { ...event, start: { date: start }, end: { date: endExclusive }, updated })
+    this.changed.add(id)
+  }
+
+  cancel(id: string): void {
+    const event = this.events.get(id) as CalendarEvent
+    this.events.set(id, { ...event, status: 'cancelled', updated: '2026-01-15T00:00:00Z' })
+    this.changed.add(id)
+  }
+
+  only(): CalendarEvent {
+    expect(this.events.size).toBe(1)
+    return [...this.events.values()][0]
+  }
+}
+
+const campaign = (overrides: Partial<SyncCampaign> = {}): SyncCampaign => ({
+  id: 'spring',
+  title: 'Spring launch',
+  startDate: '2026-03-02',
+  endDate: '2026-03-06',
+  updatedAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+})
+
+describe('CalendarSyncService', () => {
+  let dir: string
+  let google: FakeCalendar
+
+  const createService = () =>
+    new CalendarSyncService(
+      path.join(dir, 'calendar-sync.json'),
+      () => google,
+      () => undefined
+    )
+
+  const connect = async (conflictPolicy: ConflictPolicy) => {
+    const service = createService()
+    await service.connectServiceAccount(WORKSPACE, { calendarId: CALENDAR_ID, conflictPolicy })
+    await service.sync(WORKSPACE, { campaigns: [campaign()] })
+    return service
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'calendar-sync-'))
+    google = new FakeCalendar()
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('creates an all-day event per campaign, ending the day after', async () => {
+    await connect('latest')
+    expect(google.only()).toMatchObject({
+      start: { date: '2026-03-02' },
+      end: { date: '2026-03-07' },
+      extendedProperties: {
+        private: { slottedWorkspaceId: WORKSPACE, slottedCampaignId: 'spring' },
+      },
+    })
+  })
+
+  it('returns dates moved in Google Calendar for the client to apply', async () => {
+    const service = await connect('slotted')
+    const { id } = google.only()
+    google.move(id as string, '2026-03-09', '2026-03-14', '2026-01-10T00:00:00Z')
+
+    const result = await service.sync(WORKSPACE, { campaigns: [campaign()] })
+    expect(result.conflicts).toEqual([])
+    expect(result.updates).toEqual([
+      { campaignId: 'spring', startDate: '2026-03-09', endDate: '2026-03-13' },
+    ])
+  })
+
+  describe('when both sides moved the campaign', () => {
+    const movedInSlotted = (updatedAt?: string) =>
+      campaign({ startDate: '2026-03-16', endDate: '2026-03-20', updatedAt })
+
+    const syncConflict = async (policy: ConflictPolicy, slottedEditedAt?: string) => {
+      const service = await connect(policy)
+      const { id } = google.only()
+      google.move(id as string, '2026-03-09', '2026-03-14', '2026-01-10T00:00:00Z')
+      return service.sync(WORKSPACE, { campaigns: [movedInSlotted(slottedEditedAt)] })
+    }
+
+    it("keeps Slotted's dates under the slotted policy", async () => {
+      const result = await syncConflict('slotted', '2026-01-05T00:00:00Z')
+
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({
+          campaignId: 'spring',
+          slotted: { start: '2026-03-16', end: '2026-03-20' },
+          google: { start: '2026-03-09', end: '2026-03-13' },
+          resolvedTo: 'slotted',
+        }),
+      ])
+      expect(result.updates).toEqual([])
+      expect(google.only()).toMatchObject({
+        start: { date: '2026-03-16' },
+        end: { date: '2026-03-21' },
+      })
+    })
+
+    it("keeps Google's dates under the google policy", async () => {
+      const result = await syncConflict('google', '2026-01-20T00:00:00Z')
+
+      expect(result.conflicts[0].resolvedTo).toBe('google')
+      expect(result.updates).toEqual([
+        { campaignId: 'spring', startDate: '2026-03-09', endDate: '2026-03-13' },
+      ])
+      expect(google.only()).toMatchObject({ start: { date: '2026-03-09' } })
+    })
+
+    it('keeps the most recent edit under the latest policy', async () => {
+      expect((await syncConflict('latest', '2026-01-20T00:00:00Z')).conflicts[0].resolvedTo).toBe(
+        'slotted'
+      )
+    })
+
+    it('lets Google win under the latest policy when its edit is newer', async () => {
+      const result = await syncConflict('latest', '2026-01-05T00:00:00Z')
+      expect(result.conflicts[0].resolvedTo).toBe('google')
+      expect(result.updates[0]).toMatchObject({ startDate: '2026-03-09' })
+    })
+
+    it('lets Google win under the latest policy when Slotted has no edit time', async () => {
+      expect((await syncConflict('latest')).conflicts[0].resolvedTo).toBe('google')
+    })
+
+    it('is no conflict when both moved it to the same dates', async () => {
+      const service = await connect('latest')
+      const { id } = google.only()
+      google.move(id as string, '2026-03-16', '2026-03-21', '2026-01-10T00:00:00Z')
+
+      const result = await service.sync(WORKSPACE, { campaigns: [movedInSlotted()] })
+      expect(result.conflicts).toEqual([])
+      expect(result.updates).toEqual([])
+    })
+  })
+
+  describe('when the event was deleted in Google Calendar', () => {
+    it('leaves an unchanged campaign off the calendar', async () => {
+      const service = await connect('slotted')
+      google.cancel(google.only().id as string)
+
+      const result = await service.sync(WORKSPACE, { campaigns: [campaign()] })
+      expect(result).toMatchObject({ conflicts: [], detached: 1, created: 0 })
+      expect((await service.getStatus(WORKSPACE)).linkedEvents).toBe(0)
+    })
+
+    it.each<[ConflictPolicy, 'slotted' | 'google']>([
+      ['latest', 'slotted'],
+      ['slotted', 'slotted'],
+      ['google', 'google'],
+    ])('resolves a campaign edited in Slotted under the %s policy to %s', async (policy, side) => {
+      const service = await connect(policy)
+      google.cancel(google.only().id as string)
+
+      const result = await service.sync(WORKSPACE, {
+        campaigns: [campaign({ title: 'Spring launch (extended)' })],
+      })
+      expect(result.conflicts).toEqual([expect.objectContaining({ resolvedTo: side })])
+      expect(result.created).toBe(side === 'slotted' ? 1 : 0)
+      expect(result.detached).toBe(side === 'google' ? 1 : 0)
+    })
+  })
+
+  it('deletes the events of removed campaigns', async () => {
+    const service = await connect('latest')
+    const result = await service.sync(WORKSPACE, { campaigns: [], removedCampaignIds: ['spring'] })
+    expect(result.deleted).toBe(1)
+    expect(google.events.size).toBe(0)
+  })
+
+  it('keeps the stored calendar unchanged when a sync fails', async () => {
+    const service = await connect('latest')
+    const before = await service.getStatus(WORKSPACE)
+    google.insertEvent = async () => {
+      throw new Error('Google Calendar: unavailable')
+    }
+
+    await expect(
+      service.sync(WORKSPACE, { campaigns: [campaign({ id: 'summer', title: 'Summer' })] })
+    ).rejects.toThrow('unavailable')
+    expect(await service.getStatus(WORKSPACE)).toEqual(before)
+  })
+
+  it('needs a named calendar to connect with the service account', async () => {
+    const service = createService()
+    await expect(service.connectServiceAccount(WORKSPACE, {})).rejects.toBeInstanceOf(
+      CalendarSyncInputError
+    )
+    await expect(
+      service.connectServiceAccount(WORKSPACE, { calendarId: 'primary' })
+    ).rejects.toBeInstanceOf(CalendarSyncInputError)
+  })
+
+  it('refuses a calendar another workspace connected', async () => {
+    const service = await connect('latest')
+    await expect(
+      service.connectServiceAccount('ws-2', { calendarId: CALENDAR_ID })
+    ).rejects.toBeInstanceOf(CalendarInUseError)
+    expect((await service.getStatus('ws-2')).connected).toBe(false)
+
+    // Reconnecting its own calendar is fine
+    await service.connectServiceAccount(WORKSPACE, { calendarId: CALENDAR_ID })
+    expect((await service.getStatus(WORKSPACE)).linkedEvents).toBe(1)
+  })
+})
@@ -0,0 +1,834 @@
+import { randomBytes } from 'node:crypto'
+import path from 'node:path'
+import {
+  type CalendarApi,
+  type CalendarEvent,
+  type OAuthConfig,
+  SyncTokenExpiredError,
+  consentUrl,
+  exchangeCode,
+  oauthCalendar,
+  resolveOAuthConfig,
+  serviceAccountCalendar,
+} from './GoogleCalendarClient'
+import { JsonFileStore } from './JsonFileStore'
+
+/**
+ * Which side wins when a campaign's dates changed in both Slotted and Google
+ * Calendar since the last sync: the most recent edit, or always one side
+ */
+export type ConflictPolicy = 'latest' | 'slotted' | 'google'
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['latest', 'slotted', 'google']
+
+export type CalendarAuthMethod = 'service-account' | 'oauth'
+
+export interface SyncMilestone {
+  id: string
+  title: string
+  date: string
+  completed?: boolean
+}
+
+/**
+ * A campaign as the client holds it. Dates are calendar days (YYYY-MM-DD),
+ * endDate inclusive.
+ */
+export interface SyncCampaign {
+  id: string
+  title: string
+  description?: string
+  startDate: string
+  endDate: string
+  channel?: string
+  campaignType?: string
+  status?: string
+  // When it was last edited in Slotted; without it Google wins conflicts
+  // under the 'latest' policy
+  updatedAt?: string
+  milestones?: SyncMilestone[]
+}
+
+export interface SyncInput {
+  campaigns: SyncCampaign[]
+  // Campaigns deleted in Slotted, whose events should go too
+  removedCampaignIds?: string[]
+}
+
+/**
+ * New dates for a campaign, or one of its milestones, moved in Google
+ * Calendar. A milestone's date is its startDate.
+ */
+export interface CalendarUpdate {
+  campaignId: string
+  milestoneId?: string
+  startDate: string
+  endDate: string
+}
+
+export interface SyncConflict {
+  campaignId: string
+  milestoneId?: string
+  title: string
+  slotted: DateRange
+  // Undefined when the event was deleted there
+  google?: DateRange
+  resolvedTo: 'slotted' | 'google'
+}
+
+export interface SyncResult {
+  updates: CalendarUpdate[]
+  conflicts: SyncConflict[]
+  created: number
+  updated: number
+  deleted: number
+  // Events deleted in Google Calendar and left off it
+  detached: number
+  syncedAt: string
+}
+
+export interface CalendarStatus {
+  workspaceId: string
+  connected: boolean
+  method?: CalendarAuthMethod
+  calendarId?: string
+  calendarName?: string
+  conflictPolicy?: ConflictPolicy
+  lastSyncedAt?: string
+  linkedEvents: number
+  // What the server is set up for
+  serviceAccountAvailable: boolean
+  oauthAvailable: boolean
+}
+
+export interface ConnectOptions {
+  calendarId?: string
+  conflictPolicy?: ConflictPolicy
+}
+
+interface DateRange {
+  start: string
+  // Inclusive
+  end: string
+}
+
+/**
+ * A Slotted campaign or milestone and the event it is kept in step with
+ */
+interface EventLink {
+  // 'campaign:<id>' or 'milestone:<id>'
+  itemId: string
+  kind: 'campaign' | 'milestone'
+  campaignId: string
+  milestoneId?: string
+  eventId: string
+  // What both sides agreed on at the last sync
+  synced: DateRange & { title: string }
+  // The event's dates when last seen, and when Google last changed it
+  remote: DateRange
+  remoteUpdated?: string
+  remoteDeleted?: boolean
+  // Deleted in Google Calendar while unchanged in Slotted; stays off the
+  // calendar until it is edited in Slotted
+  detached?: boolean
+}
+
+interface WorkspaceCalendar {
+  workspaceId: string
+  method: CalendarAuthMethod
+  calendarId: string
+  calendarName: string
+  refreshToken?: string
+  conflictPolicy: ConflictPolicy
+  // Google's token for changes since the last sync
+  syncToken?: string
+  lastSyncedAt?: string
+  connectedAt: string
+  links: Record<string, EventLink>
+}
+
+interface PendingAuth {
+  workspaceId: string
+  calendarId: string
+  conflictPolicy: ConflictPolicy
+  createdAt: string
+}
+
+interface CalendarSyncData {
+  calendars: Record<string, WorkspaceCalendar>
+  // OAuth consents in progress, by state
+  pendingAuth: Record<string, PendingAuth>
+}
+
+/**
+ * A campaign or milestone as it should appear on the calendar
+ */
+interface LocalItem extends DateRange {
+  itemId: string
+  kind: EventLink['kind']
+  campaignId: string
+  milestoneId?: string
+  title: string
+  description: string
+  colorId?: string
+  updatedAt?: string
+}
+
+export class CalendarNotConnectedError extends Error {
+  constructor(workspaceId: string) {
+    super(`Workspace ${workspaceId} has no Google Calendar connected`)
+    this.name = 'CalendarNotConnectedError'
+  }
+}
+
+export class CalendarNotConfiguredError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CalendarNotConfiguredError'
+  }
+}
+
+export class CalendarInUseError extends Error {
+  constructor(calendarId: string) {
+    super(`Calendar ${calendarId} is already connected to another workspace`)
+    this.name = 'CalendarInUseError'
+  }
+}
+
+export class CalendarSyncInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CalendarSyncInputError'
+  }
+}
+
+const DEFAULT_CALENDAR_SYNC_PATH = path.resolve(process.cwd(), 'data', 'calendar-sync.json')
+
+// How long a consent link stays valid
+const PENDING_AUTH_MS = 15 * 60 * 1000
+
+const DAY_MS = 86_400_000
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+// Google Calendar's event colours, by campaign type
+const CAMPAIGN_COLORS: Record<string, string> = {
+  product_launch: '11',
+  awareness: '9',
+  seasonal: '6',
+  retention: '10',
+  lead_generation: '3',
+}
+
+const MILESTONE_COLOR = '5'
+
+const shiftDay = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+
+const sameDates = (a: DateRange, b: DateRange) => a.start === b.start && a.end === b.end
+
+/**
+ * The days an event covers. All-day events end the day after their last
+ * day; timed ones (if someone changed that) count by the day they start and
+ * end on.
+ */
+const eventDates = (event: CalendarEvent): DateRange | undefined => {
+  const start = event.start?.date || event.start?.dateTime?.slice(0, 10)
+  if (!start) return undefined
+  const end = event.end?.date
+    ? shiftDay(event.end.date, -1)
+    : event.end?.dateTime?.slice(0, 10) || start
+  return { start, end: end < start ? start : end }
+}
+
+const recordRemote = (link: EventLink, event: CalendarEvent) => {
+  const dates = eventDates(event)
+  if (event.status === 'cancelled' || !dates) {
+    link.remoteDeleted = true
+    return
+  }
+  link.remote = dates
+  link.remoteUpdated = event.updated
+  link.remoteDeleted = false
+}
+
+const campaignDescription = (campaign: SyncCampaign) =>
+  [
+    campaign.description,
+    campaign.channel && `Channel: ${campaign.channel}`,
+    campaign.status && `Status: ${campaign.status}`,
+    'Managed by Slotted; moving this event moves the campaign.',
+  ]
+    .filter(Boolean)
+    .join('\n')
+
+const localItems = (campaign: SyncCampaign): LocalItem[] => [
+  {
+    itemId: `campaign:${campaign.id}`,
+    kind: 'campaign',
+    campaignId: campaign.id,
+    title: campaign.title,
+    description: campaignDescription(campaign),
+    colorId: campaign.campaignType && CAMPAIGN_COLORS[campaign.campaignType],
+    start: campaign.startDate,
+    end: campaign.endDate,
+    updatedAt: campaign.updatedAt,
+  },
+  ...(campaign.milestones || []).map(
+    (milestone): LocalItem => ({
+      itemId: `milestone:${milestone.id}`,
+      kind: 'milestone',
+      campaignId: campaign.id,
+      milestoneId: milestone.id,
+      title: milestone.completed ? `${milestone.title} ✓` : milestone.title,
+      description: `Milestone of ${campaign.title}`,
+      colorId: MILESTONE_COLOR,
+      start: milestone.date,
+      end: milestone.date,
+      updatedAt: campaign.updatedAt,
+    })
+  ),
+]
+
+const toEvent = (workspaceId: string, item: LocalItem, dates: DateRange): CalendarEvent => ({
+  summary: `${item.kind === 'campaign' ? '📢' : '🎯'} ${item.title}`,
+  description: item.description,
+  start: { date: dates.start },
+  end: { date: shiftDay(dates.end, 1) },
+  ...(item.colorId && { colorId: item.colorId }),
+  extendedProperties: {
+    private: {
+      slottedWorkspaceId: workspaceId,
+      slottedItemId: item.itemId,
+      slottedCampaignId: item.campaignId,
+      ...(item.milestoneId && { slottedMilestoneId: item.milestoneId }),
+    },
+  },
+})
+
+const validateInput = (input: SyncInput) => {
+  if (!Array.isArray(input.campaigns)) {
+    throw new CalendarSyncInputError('campaigns must be an array')
+  }
+  for (const campaign of input.campaigns) {
+    if (!campaign?.id || !campaign.title) {
+      throw new CalendarSyncInputError('Each campaign needs an id and a title')
+    }
+    const dates = [
+      campaign.startDate,
+      campaign.endDate,
+      ...(campaign.milestones || []).map((m) => m.date),
+    ]
+    if (!dates.every((date) => typeof date === 'string' && DATE.test(date))) {
+      throw new CalendarSyncInputError(`Campaign ${campaign.id} has dates that aren't YYYY-MM-DD`)
+    }
+    if (campaign.endDate < campaign.startDate) {
+      throw new CalendarSyncInputError(`Campaign ${campaign.id} ends before it starts`)
+    }
+  }
+}
+
+/**
+ * Which side's dates to keep when both changed since the last sync
+ */
+const resolveConflict = (
+  policy: ConflictPolicy,
+  item: LocalItem,
+  link: EventLink
+): 'slotted' | 'google' => {
+  if (policy !== 'latest') return policy
+  const local = item.updatedAt ? Date.parse(item.updatedAt) : Number.NaN
+  const remote = link.remoteUpdated ? Date.parse(link.remoteUpdated) : Number.NaN
+  if (Number.isNaN(local)) return 'google'
+  return Number.isNaN(remote) || local >= remote ? 'slotted' : 'google'
+}
+
+const emptyResult = (): SyncResult => ({
+  updates: [],
+  conflicts: [],
+  created: 0,
+  updated: 0,
+  deleted: 0,
+  detached: 0,
+  syncedAt: new Date().toISOString(),
+})
+
+/**
+ * Two-way sync between a workspace's campaigns and a Google Calendar. Slotted
+ * pushes campaigns and milestones as all-day events; changes made in Google
+ * Calendar are read back incrementally with sync tokens and returned as date
+ * updates for the client to apply. Titles and descriptions stay Slotted's.
+ */
+export class CalendarSyncService {
+  private store: JsonFileStore<CalendarSyncData>
+  // The latest sync of each workspace, which the next one waits for
+  private syncChains = new Map<string, Promise<void>>()
+
+  constructor(
+    filePath = process.env.CALENDAR_SYNC_DATA_PATH || DEFAULT_CALENDAR_SYNC_PATH,
+    private resolveServiceAccount: () => CalendarApi | undefined = serviceAccountCalendar,
+    private resolveOAuth: () => OAuthConfig | undefined = resolveOAuthConfig,
+    private oauthApi: (config: OAuthConfig, refreshToken: string) => CalendarApi = oauthCalendar
+  ) {
+    this.store = new JsonFileStore<CalendarSyncData>(filePath, () => ({
+      calendars: {},
+      pendingAuth: {},
+    }))
+  }
+
+  async getStatus(workspaceId: string): Promise<CalendarStatus> {
+    const data = await this.store.read()
+    const calendar = data.calendars[workspaceId]
+    return {
+      workspaceId,
+      connected: Boolean(calendar),
+      method: calendar?.method,
+      calendarId: calendar?.calendarId,
+      calendarName: calendar?.calendarName,
+      conflictPolicy: calendar?.conflictPolicy,
+      lastSyncedAt: calendar?.lastSyncedAt,
+      linkedEvents: calendar
+        ? Object.values(calendar.links).filter((link) => !link.detached).length
+        : 0,
+      serviceAccountAvailable: Boolean(this.resolveServiceAccount()),
+      oauthAvailable: Boolean(this.resolveOAuth()),
+    }
+  }
+
+  /**
+   * Connect a calendar shared with the server's service account. The
+   * calendar has to be named: the account's own calendar, and any calendar
+   * another workspace connected, would be shared between workspaces.
+   */
+  async connectServiceAccount(
+    workspaceId: string,
+    options: ConnectOptions
+  ): Promise<CalendarStatus> {
+    const api = this.resolveServiceAccount()
+    if (!api) {
+      throw new CalendarNotConfiguredError(
+        'Set GOOGLE_APPLICATION_CREDENTIALS to connect calendars with a service account'
+      )
+    }
+    const { calendarId } = options
+    if (!calendarId || calendarId === 'primary') {
+      throw new CalendarSyncInputError(
+        'Share a calendar with the service account and connect it by its calendarId'
+      )
+    }
+    const calendar = await api.getCalendar(calendarId)
+    await this.saveConnection(workspaceId, {
+      method: 'service-account',
+      calendarId,
+      calendarName: calendar.summary,
+      conflictPolicy: options.conflictPolicy || 'latest',
+    })
+    return this.getStatus(workspaceId)
+  }
+
+  /**
+   * Start connecting the signed-in user's own calendar. Returns Google's
+   * consent page; Google then redirects to GOOGLE_OAUTH_REDIRECT_URI, which
+   * calls completeOAuth.
+   */
+  async startOAuth(workspaceId: string, options: ConnectOptions): Promise<{ url: string }> {
+    const config = this.oauthConfig()
+    const state = randomBytes(24).toString('hex')
+    await this.store.update((data) => {
+      const cutoff = Date.now() - PENDING_AUTH_MS
+      for (const [key, pending] of Object.entries(data.pendingAuth)) {
+        if (Date.parse(pending.createdAt) < cutoff) delete data.pendingAuth[key]
+      }
+      data.pendingAuth[state] = {
+        workspaceId,
+        // The signed-in user's own calendar unless they name another
+        calendarId: options.calendarId || 'primary',
+        conflictPolicy: options.conflictPolicy || 'latest',
+        createdAt: new Date().toISOString(),
+      }
+    })
+    return { url: consentUrl(config, state) }
+  }
+
+  /**
+   * Finish an OAuth consent: keep the refresh token and connect the
+   * calendar. Returns the workspace it was for.
+   */
+  async completeOAuth(state: string, code: string): Promise<string> {
+    const config = this.oauthConfig()
+    const pending = await this.store.update((data) => {
+      const found = data.pendingAuth[state]
+      delete data.pendingAuth[state]
+      return found
+    })
+    if (!pending || Date.parse(pending.createdAt) < Date.now() - PENDING_AUTH_MS) {
+      throw new CalendarSyncInputError('This Google sign-in link has expired; connect again')
+    }
+
+    const refreshToken = await exchangeCode(config, code)
+    const calendar = await this.oauthApi(config, refreshToken).getCalendar(pending.calendarId)
+    await this.saveConnection(pending.workspaceId, {
+      method: 'oauth',
+      calendarId: pending.calendarId,
+      calendarName: calendar.summary,
+      refreshToken,
+      conflictPolicy: pending.conflictPolicy,
+    })
+    return pending.workspaceId
+  }
+
+  async setConflictPolicy(workspaceId: string, policy: ConflictPolicy): Promise<CalendarStatus> {
+    await this.store.update((data) => {
+      const calendar = data.calendars[workspaceId]
+      if (!calendar) throw new CalendarNotConnectedError(workspaceId)
+      calendar.conflictPolicy = policy
+    })
+    return this.getStatus(workspaceId)
+  }
+
+  /**
+   * Stop syncing. Events already on the calendar are left there.
+   */
+  async disconnect(workspaceId: string): Promise<void> {
+    await this.store.update((data) => {
+      delete data.calendars[workspaceId]
+    })
+  }
+
+  /**
+   * Forget a deleted workspace's connection and any consent in progress
+   */
+  async removeWorkspace(workspaceId: string): Promise<void> {
+    await this.store.update((data) => {
+      delete data.calendars[workspaceId]
+      for (const [state, pending] of Object.entries(data.pendingAuth)) {
+        if (pending.workspaceId === workspaceId) delete data.pendingAuth[state]
+      }
+    })
+  }
+
+  /**
+   * Read what changed in Google Calendar since the last sync, push what
+   * changed in Slotted, and return the date changes the client should apply.
+   * Campaigns not in `input` are left alone, so a single campaign can be
+   * synced on its own. Syncs of one workspace run one at a time.
+   */
+  async sync(workspaceId: string, input: SyncInput): Promise<SyncResult> {
+    validateInput(input)
+    const run = (this.syncChains.get(workspaceId) || Promise.resolve()).then(() =>
+      this.runSync(workspaceId, input)
+    )
+    const chain = run.then(
+      () => undefined,
+      () => undefined
+    )
+    this.syncChains.set(workspaceId, chain)
+    void chain.then(() => {
+      if (this.syncChains.get(workspaceId) === chain) this.syncChains.delete(workspaceId)
+    })
+    return run
+  }
+
+  /**
+   * Sync a copy of the workspace's calendar, so the store isn't held while
+   * Google is called, and save it only once the sync succeeded. Events a
+   * failed sync created are adopted on the next one.
+   */
+  private async runSync(workspaceId: string, input: SyncInput): Promise<SyncResult> {
+    const stored = (await this.store.read()).calendars[workspaceId]
+    if (!stored) throw new CalendarNotConnectedError(workspaceId)
+    const calendar = structuredClone(stored)
+    const api = this.apiFor(calendar)
+    const result = emptyResult()
+
+    await this.pullChanges(api, calendar)
+    for (const campaign of input.campaigns) {
+      const items = localItems(campaign)
+      for (const item of items) {
+        await this.reconcile(api, calendar, item, result)
+      }
+      // Milestones no longer on the campaign
+      const current = new Set(items.map((item) => item.itemId))
+      await this.removeLinks(
+        api,
+        calendar,
+        (link) => link.campaignId === campaign.id && !current.has(link.itemId),
+        result
+      )
+    }
+    const removed = new Set(input.removedCampaignIds || [])
+    await this.removeLinks(api, calendar, (link) => removed.has(link.campaignId), result)
+
+    await this.store.update((data) => {
+      // Disconnected or reconnected while syncing; that connection stands
+      const connected = data.calendars[workspaceId]
+      if (connected?.connectedAt !== calendar.connectedAt) return
+      // Only what syncing changes, keeping a conflict policy set meanwhile
+      connected.links = calendar.links
+      connected.syncToken = calendar.syncToken
+      connected.lastSyncedAt = result.syncedAt
+    })
+    return result
+  }
+
+  private oauthConfig(): OAuthConfig {
+    const config = this.resolveOAuth()
+    if (!config) {
+      throw new CalendarNotConfiguredError(
+        'Set GOOGLE_OAUTH_CLIENT_ID, GOOGLE_OAUTH_CLIENT_SECRET and GOOGLE_OAUTH_REDIRECT_URI to connect Google accounts'
+      )
+    }
+    return config
+  }
+
+  private apiFor(calendar: WorkspaceCalendar): CalendarApi {
+    const api =
+      calendar.method === 'oauth'
+        ? calendar.refreshToken && this.oauthApi(this.oauthConfig(), calendar.refreshToken)
+        : this.resolveServiceAccount()
+    if (!api) {
+      throw new CalendarNotConfiguredError(
+        'The Google credentials this calendar was connected with are no longer configured'
+      )
+    }
+    return api
+  }
+
+  private async saveConnection(
+    workspaceId: string,
+    connection: Pick<
+      WorkspaceCalendar,
+      'method' | 'calendarId' | 'calendarName' | 'conflictPolicy' | 'refreshToken'
+    >
+  ): Promise<void> {
+    await this.store.update((data) => {
+      // Every service account connection is to the same Google account
+      const taken =
+        connection.method === 'service-account' &&
+        Object.values(data.calendars).some(
+          (other) =>
+            other.workspaceId !== workspaceId &&
+            other.method === 'service-account' &&
+            other.calendarId === connection.calendarId
+        )
+      if (taken) throw new CalendarInUseError(connection.calendarId)
+
+      const existing = data.calendars[workspaceId]
+      // Reconnecting the same calendar keeps its events linked
+      const keep = existing?.calendarId === connection.calendarId
+      data.calendars[workspaceId] = {
+        workspaceId,
+        ...connection,
+        syncToken: keep ? existing.syncToken : undefined,
+        lastSyncedAt: keep ? existing.lastSyncedAt : undefined,
+        connectedAt: new Date().toISOString(),
+        links: keep ? existing.links : {},
+      }
+    })
+  }
+
+  /**
+   * Every event changed since the last sync token, or every event when
+   * there is none, with the token for next time
+   */
+  private async listChanges(
+    api: CalendarApi,
+    calendarId: string,
+    syncToken?: string
+  ): Promise<{ events: CalendarEvent[]; syncToken?: string }> {
+    let page = await api.listEvents(calendarId, { syncToken })
+    const events = [...page.items]
+    while (page.nextPageToken) {
+      page = await api.listEvents(calendarId, { syncToken, pageToken: page.nextPageToken })
+      events.push(...page.items)
+    }
+    return { events, syncToken: page.nextSyncToken }
+  }
+
+  /**
+   * Record on each link what Google Calendar now has for its event
+   */
+  private async pullChanges(api: CalendarApi, calendar: WorkspaceCalendar): Promise<void> {
+    let full = !calendar.syncToken
+    let changes: { events: CalendarEvent[]; syncToken?: string }
+    try {
+      changes = await this.listChanges(api, calendar.calendarId, calendar.syncToken)
+    } catch (error) {
+      if (!(error instanceof SyncTokenExpiredError)) throw error
+      full = true
+      changes = await this.listChanges(api, calendar.calendarId)
+    }
+
+    const byEvent = new Map(Object.values(calendar.links).map((link) => [link.eventId, link]))
+    const seen = new Set<EventLink>()
+    for (const event of changes.events) {
+      const link = (event.id && byEvent.get(event.id)) || this.adopt(calendar, event)
+      if (!link) continue
+      seen.add(link)
+      recordRemote(link, event)
+    }
+    // A full listing has every event, so linked ones missing from it are gone
+    if (full) {
+      for (const link of Object.values(calendar.links)) {
+        if (!seen.has(link)) link.remoteDeleted = true
+      }
+    }
+    calendar.syncToken = changes.syncToken
+  }
+
+  /**
+   * Link an event Slotted created but lost track of, e.g. after
+   * reconnecting, so it isn't created twice. Its title is refreshed on the
+   * next push.
+   */
+  private adopt(calendar: WorkspaceCalendar, event: CalendarEvent): EventLink | undefined {
+    const properties = event.extendedProperties?.private
+    const dates = eventDates(event)
+    if (
+      !event.id ||
+      !dates ||
+      event.status === 'cancelled' ||
+      properties?.slottedWorkspaceId !== calendar.workspaceId ||
+      !properties.slottedItemId ||
+      !properties.slottedCampaignId ||
+      calendar.links[properties.slottedItemId]
+    ) {
+      return undefined
+    }
+    const link: EventLink = {
+      itemId: properties.slottedItemId,
+      kind: properties.slottedMilestoneId ? 'milestone' : 'campaign',
+      campaignId: properties.slottedCampaignId,
+      milestoneId: properties.slottedMilestoneId,
+      eventId: event.id,
+      synced: { ...dates, title: '' },
+      remote: dates,
+      remoteUpdated: event.updated,
+    }
+    calendar.links[link.itemId] = link
+    return link
+  }
+
+  private async reconcile(
+    api: CalendarApi,
+    calendar: WorkspaceCalendar,
+    item: LocalItem,
+    result: SyncResult
+  ): Promise<void> {
+    const link = calendar.links[item.itemId]
+    if (!link || link.remoteDeleted || link.detached) {
+      return this.reconcileMissing(api, calendar, item, link, result)
+    }
+
+    const remoteChanged = !sameDates(link.remote, link.synced)
+    const localDatesChanged = !sameDates(item, link.synced)
+    let dates: DateRange = item
+    if (remoteChanged && localDatesChanged && !sameDates(item, link.remote)) {
+      const resolvedTo = resolveConflict(calendar.conflictPolicy, item, link)
+      result.conflicts.push({
+        campaignId: item.campaignId,
+        milestoneId: item.milestoneId,
+        title: item.title,
+        slotted: { start: item.start, end: item.end },
+        google: { ...link.remote },
+        resolvedTo,
+      })
+      if (resolvedTo === 'google') dates = link.remote
+    } else if (remoteChanged) {
+      dates = link.remote
+    }
+
+    if (!sameDates(dates, item)) {
+      result.updates.push({
+        campaignId: item.campaignId,
+        milestoneId: item.milestoneId,
+        startDate: dates.start,
+        endDate: dates.end,
+      })
+    }
+    if (item.title !== link.synced.title || !sameDates(dates, link.remote)) {
+      const event = await api.patchEvent(
+        calendar.calendarId,
+        link.eventId,
+        toEvent(calendar.workspaceId, item, dates)
+      )
+      link.remoteUpdated = event.updated
+      result.updated += 1
+    }
+    link.synced = { start: dates.start, end: dates.end, title: item.title }
+    link.remote = { start: dates.start, end: dates.end }
+  }
+
+  /**
+   * An item with no event: new, deleted in Google Calendar, or left off it
+   */
+  private async reconcileMissing(
+    api: CalendarApi,
+    calendar: WorkspaceCalendar,
+    item: LocalItem,
+    link: EventLink | undefined,
+    result: SyncResult
+  ): Promise<void> {
+    const localChanged = link && (item.title !== link.synced.title || !sameDates(item, link.synced))
+    if (link?.remoteDeleted) {
+      // Deleted in Google Calendar after being edited in Slotted
+      const resolvedTo = localChanged && calendar.conflictPolicy !== 'google' ? 'slotted' : 'google'
+      if (localChanged) {
+        result.conflicts.push({
+          campaignId: item.campaignId,
+          milestoneId: item.milestoneId,
+          title: item.title,
+          slotted: { start: item.start, end: item.end },
+          resolvedTo,
+        })
+      }
+      if (resolvedTo === 'google') {
+        link.synced = { start: item.start, end: item.end, title: item.title }
+        link.remoteDeleted = false
+        link.detached = true
+        result.detached += 1
+        return
+      }
+    } else if (link && !localChanged) {
+      return
+    }
+
+    const event = await api.insertEvent(
+      calendar.calendarId,
+      toEvent(calendar.workspaceId, item, item)
+    )
+    calendar.links[item.itemId] = this.linkFor(item, event)
+    result.created += 1
+  }
+
+  private linkFor(item: LocalItem, event: CalendarEvent): EventLink {
+    const dates = { start: item.start, end: item.end }
+    return {
+      itemId: item.itemId,
+      kind: item.kind,
+      campaignId: item.campaignId,
+      milestoneId: item.milestoneId,
+      eventId: event.id as string,
+      synced: { ...dates, title: item.title },
+      remote: dates,
+      remoteUpdated: event.updated,
+    }
+  }
+
+  private async removeLinks(
+    api: CalendarApi,
+    calendar: WorkspaceCalendar,
+    matches: (link: EventLink) => boolean,
+    result: SyncResult
+  ): Promise<void> {
+    for (const link of Object.values(calendar.links).filter(matches)) {
+      if (!link.remoteDeleted && !link.detached) {
+        await api.deleteEvent(calendar.calendarId, link.eventId)
+        result.deleted += 1
+      }
+      delete calendar.links[link.itemId]
+    }
+  }
+}
+
+export const calendarSyncService = new CalendarSyncService()
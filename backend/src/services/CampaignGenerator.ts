@@ -1,80 +1,113 @@
-// Using built-in fetch (Node 18+)
-
-export interface AIConfig {
-  provider: 'openai' | 'anthropic'
-  model: string
-  apiKey: string
-  temperature?: number
-  maxTokens?: number
+import { z } from 'zod'
+import type { AIConfig } from './AIProvider'
+import { entitlements } from './Entitlements'
+import { generateStructured } from './StructuredOutput'
+import { usageLedger } from './UsageLedger'
+
+export type { AIConfig }
+
+export const CampaignTopicSchema = z.object({
+  week: z.number().int().min(1),
+  title: z.string().min(1),
+  description: z.string(),
+  primaryChannel: z.string(),
+  secondaryChannels: z.array(z.string()),
+  contentTypes: z.array(z.string()),
+  estimatedEffort: z.number().min(1).max(10),
+  seasonalRelevance: z.string().optional(),
+})
+
+export type CampaignTopic = z.infer<typeof CampaignTopicSchema>
+
+export const DetailedCampaignPlanSchema = z.object({
+  overview: z.string(),
+  quarterlyThemes: z.array(z.string()),
+  campaigns: z.array(CampaignTopicSchema),
+  channelStrategy: z.object({
+    primary: z.array(z.string()),
+    secondary: z.array(z.string()),
+    experimental: z.array(z.string()),
+  }),
+  timeline: z.string(),
+  kpiMapping: z.record(z.array(z.string())),
+})
+
+export type DetailedCampaignPlan = z.infer<typeof DetailedCampaignPlanSchema>
+
+export const CampaignContentSchema = z.object({
+  blog: z.object({
+    title: z.string().min(1),
+    outline: z.array(z.string()),
+    content: z.string().min(1),
+    wordCount: z.number(),
+  }),
+  video: z.object({
+    title: z.string().min(1),
+    script: z.string().min(1),
+    duration: z.number(),
+    scenes: z.array(z.string()),
+  }),
+  social: z.object({
+    platforms: z.record(
+      z.object({
+        post: z.string().min(1),
+        hashtags: z.array(z.string()),
+        timing: z.string(),
+      })
+    ),
+  }),
+  email: z.object({
+    subject: z.string().min(1),
+    preview: z.string(),
+    content: z.string().min(1),
+    cta: z.string(),
+  }),
+})
+
+export type CampaignContent = z.infer<typeof CampaignContentSchema>
+
+export const PersonaEngagementSchema = z.object({
+  personaResponse: z.string(),
+  engagementScore: z.number().min(1).max(10),
+  optimizationRecommendations: z.array(z.string()),
+})
+
+export type PersonaEngagement = z.infer<typeof PersonaEngagementSchema>
+
+// JSON structure requested for each campaign content type
+const CONTENT_FORMATS: Record<keyof CampaignContent, string> = {
+  blog: '{ "title": "string", "outline": ["string"], "content": "full markdown", "wordCount": 2000 }',
+  video:
+    '{ "title": "string", "script": "full script with timing", "duration": 180, "scenes": ["scene description"] }',
+  social:
+    '{ "platforms": { "linkedin": { "post": "string", "hashtags": ["string"], "timing": "best time to post" } } }',
+  email:
+    '{ "subject": "string", "preview": "preview text", "content": "full email", "cta": "call to action" }',
 }
 
-export interface CampaignTopic {
-  week: number
-  title: string
-  description: string
-  primaryChannel: string
-  secondaryChannels: string[]
-  contentTypes: string[]
-  estimatedEffort: number
-  seasonalRelevance?: string
-}
-
-export interface DetailedCampaignPlan {
-  overview: string
-  quarterlyThemes: string[]
-  campaigns: CampaignTopic[]
-  channelStrategy: {
-    primary: string[]
-    secondary: string[]
-    experimental: string[]
-  }
-  timeline: string
-  kpiMapping: Record<string, string[]>
-}
-
-export interface CampaignContent {
-  blog: {
-    title: string
-    outline: string[]
-    content: string
-    wordCount: number
-  }
-  video: {
-    title: string
-    script: string
-    duration: number
-    scenes: string[]
-  }
-  social: {
-    platforms: Record<
-      string,
-      {
-        post: string
-        hashtags: string[]
-        timing: string
-      }
-    >
-  }
-  email: {
-    subject: string
-    preview: string
-    content: string
-    cta: string
-  }
-}
+const isContentType = (type: string): type is keyof CampaignContent =>
+  type in CampaignContentSchema.shape
 
 export class CampaignGenerator {
   private aiConfig?: AIConfig
+  // Workspace that AI usage is recorded and budgeted against
+  private workspaceId: string
 
-  constructor(aiConfig?: AIConfig) {
+  constructor(aiConfig: AIConfig | undefined, workspaceId: string) {
     this.aiConfig = aiConfig
+    this.workspaceId = workspaceId
   }
 
   async generateCampaignTopics(mcpContext: any, weeks = 13): Promise<CampaignTopic[]> {
     const prompt = this.buildTopicGenerationPrompt(mcpContext, weeks)
-    const response = await this.callAI(prompt)
-
-    return this.parseCampaignTopics(response, weeks)
+    const topics = await this.callAI(
+      prompt,
+      'campaign-topics',
+      z.array(CampaignTopicSchema).min(weeks, `Expected ${weeks} topics`),
+      { weeks }
+    )
+
+    return topics.slice(0, weeks)
   }
 
   async generateDetailedCampaignPlan(
@@ -82,9 +115,7 @@ export class CampaignGenerator {
     topics: string[]
   ): Promise<DetailedCampaignPlan> {
     const prompt = this.buildPlanGenerationPrompt(mcpContext, topics)
-    const response = await this.callAI(prompt)
-
-    return this.parseCampaignPlan(response, mcpContext, topics)
+    return this.callAI(prompt, 'campaign-plan', DetailedCampaignPlanSchema)
   }
 
   async generateCampaignContent(
@@ -92,12 +123,16 @@ export class CampaignGenerator {
     topic: string,
     contentTypes: string[] = ['blog', 'video', 'social', 'email']
   ): Promise<CampaignContent> {
-    const content: Partial<CampaignContent> = {}
+    const content: Partial<Record<keyof CampaignContent, unknown>> = {}
 
     for (const type of contentTypes) {
+      if (!isContentType(type)) {
+        throw new Error(`Unsupported campaign content type: ${type}`)
+      }
+
       const prompt = this.buildContentGenerationPrompt(mcpContext, topic, type)
-      const response = await this.callAI(prompt)
-      content[type as keyof CampaignContent] = this.parseContentResponse(response, type)
+      const schema: z.ZodTypeAny = CampaignContentSchema.shape[type]
+      content[type] = await this.callAI(prompt, `campaign-${type}`, schema)
     }
 
     return content as CampaignContent
@@ -119,11 +154,12 @@ export class CampaignGenerator {
     return matrix
   }
 
-  async simulatePersonaEngagement(mcpContext: any, campaignContent: any): Promise<any> {
+  async simulatePersonaEngagement(
+    mcpContext: any,
+    campaignContent: any
+  ): Promise<PersonaEngagement> {
     const prompt = this.buildEngagementSimulationPrompt(mcpContext, campaignContent)
-    const response = await this.callAI(prompt)
-
-    return this.parseEngagementSimulation(response)
+    return this.callAI(prompt, 'persona-engagement', PersonaEngagementSchema)
   }
 
   private buildTopicGenerationPrompt(mcpContext: any, weeks: number): string {
@@ -176,14 +212,32 @@ REQUIREMENTS:
 - Suggest content amplification strategies
 - Outline resource requirements
 
-Return as structured JSON with overview, themes, channel strategy, timeline, and KPI mapping.
+FORMAT: Return as JSON with this structure:
+{
+  "overview": "Summary of the campaign strategy",
+  "quarterlyThemes": ["Theme"],
+  "campaigns": [
+    {
+      "week": 1,
+      "title": "Topic Title",
+      "description": "Campaign focus",
+      "primaryChannel": "Blog",
+      "secondaryChannels": ["Social Media"],
+      "contentTypes": ["blog", "social"],
+      "estimatedEffort": 6
+    }
+  ],
+  "channelStrategy": { "primary": ["Blog"], "secondary": ["Social Media"], "experimental": [] },
+  "timeline": "Timeline summary",
+  "kpiMapping": { "Brand Awareness": ["Reach", "Impressions"] }
+}
 `
   }
 
   private buildContentGenerationPrompt(
     mcpContext: any,
     topic: string,
-    contentType: string
+    contentType: keyof CampaignContent
   ): string {
     const typePrompts = {
       blog: `Create a comprehensive blog post about "${topic}". Include title, outline, and full content (${mcpContext.contentPreferences?.lengthPreferences?.blog || 2000} words).`,
@@ -198,12 +252,13 @@ ${this.formatMCPContext(mcpContext)}
 
 CAMPAIGN TOPIC: ${topic}
 
-TASK: ${typePrompts[contentType as keyof typeof typePrompts]}
+TASK: ${typePrompts[contentType]}
 
 BRAND VOICE: ${mcpContext.brandDNA?.brandTone?.communicationStyle || 'conversational'}
 TARGET AUDIENCE: ${mcpContext.brandDNA?.targetAudience?.demographics || 'general business audience'}
 
-Return as structured JSON appropriate for the content type.
+FORMAT: Return as JSON with this structure:
+${CONTENT_FORMATS[contentType]}
 `
   }
 
@@ -224,7 +279,7 @@ Analyze:
 - Likelihood to take desired action
 - Suggestions for improvement
 
-Return as JSON with persona response, engagement score (1-10), and optimization recommendations.
+Return as JSON with personaResponse (string), engagementScore (number from 1 to 10) and optimizationRecommendations (array).
 `
   }
 
@@ -245,161 +300,27 @@ Primary Channels: ${mcpContext.marketingGoals?.channels?.primary?.join(', ') ||
 `
   }
 
-  private async callAI(prompt: string): Promise<string> {
-    if (!this.aiConfig) {
+  /**
+   * Generate JSON output validated against `schema`, asking the model to
+   * repair invalid responses
+   */
+  private async callAI<T>(
+    prompt: string,
+    task: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    params?: Record<string, unknown>
+  ): Promise<T> {
+    const provider = await entitlements.resolveProviders(this.workspaceId, this.aiConfig)
+    if (!provider) {
       throw new Error('AI configuration not provided')
     }
 
-    if (this.aiConfig.provider === 'openai') {
-      return this.callOpenAI(prompt)
-    } else if (this.aiConfig.provider === 'anthropic') {
-      return this.callAnthropic(prompt)
-    } else {
-      throw new Error(`Unsupported AI provider: ${this.aiConfig.provider}`)
-    }
-  }
-
-  private async callOpenAI(prompt: string): Promise<string> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${this.aiConfig!.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: this.aiConfig!.model,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: this.aiConfig!.temperature || 0.7,
-        max_tokens: this.aiConfig!.maxTokens || 4000,
-      }),
-    })
-
-    const data = (await response.json()) as any
-    return data.choices[0].message.content
-  }
-
-  private async callAnthropic(prompt: string): Promise<string> {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': this.aiConfig!.apiKey,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: this.aiConfig!.model,
-        max_tokens: this.aiConfig!.maxTokens || 4000,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: this.aiConfig!.temperature || 0.7,
-      }),
+    return generateStructured(usageLedger.meter(provider, { workspaceId: this.workspaceId }), {
+      prompt,
+      task,
+      params,
+      schema,
     })
-
-    const data = (await response.json()) as any
-    return data.content[0].text
-  }
-
-  private parseCampaignTopics(response: string, weeks: number): CampaignTopic[] {
-    try {
-      const parsed = JSON.parse(response)
-      return Array.isArray(parsed) ? parsed.slice(0, weeks) : []
-    } catch (error) {
-      // Fallback: extract topics from text response
-      return this.generateFallbackTopics(weeks)
-    }
-  }
-
-  private parseCampaignPlan(
-    response: string,
-    mcpContext: any,
-    topics: string[]
-  ): DetailedCampaignPlan {
-    try {
-      return JSON.parse(response)
-    } catch (error) {
-      // Fallback plan
-      return {
-        overview: 'AI-generated campaign plan based on company context',
-        quarterlyThemes: ['Brand Awareness', 'Product Education', 'Customer Success'],
-        campaigns: topics.map((topic, i) => ({
-          week: i + 1,
-          title: topic,
-          description: `Campaign focus for week ${i + 1}`,
-          primaryChannel: mcpContext.marketingGoals?.channels?.primary?.[0] || 'Blog',
-          secondaryChannels: mcpContext.marketingGoals?.channels?.secondary || ['Social Media'],
-          contentTypes: ['blog', 'social'],
-          estimatedEffort: 6,
-        })),
-        channelStrategy: mcpContext.marketingGoals?.channels || {
-          primary: ['Blog'],
-          secondary: ['Social Media'],
-          experimental: [],
-        },
-        timeline: '13 weeks',
-        kpiMapping: {
-          'Brand Awareness': ['Reach', 'Impressions'],
-          Engagement: ['Likes', 'Comments', 'Shares'],
-          Conversion: ['Click-through Rate', 'Lead Generation'],
-        },
-      }
-    }
-  }
-
-  private parseContentResponse(response: string, type: string): any {
-    try {
-      return JSON.parse(response)
-    } catch (error) {
-      // Return basic fallback structure
-      const fallbacks = {
-        blog: { title: 'Generated Blog Post', outline: [], content: response, wordCount: 0 },
-        video: { title: 'Generated Video', script: response, duration: 0, scenes: [] },
-        social: { platforms: { linkedin: { post: response, hashtags: [], timing: '9am' } } },
-        email: { subject: 'Generated Email', preview: '', content: response, cta: 'Learn More' },
-      }
-      return fallbacks[type as keyof typeof fallbacks] || response
-    }
-  }
-
-  private parseEngagementSimulation(response: string): any {
-    try {
-      return JSON.parse(response)
-    } catch (error) {
-      return {
-        personaResponse: 'Positive initial interest',
-        engagementScore: 7,
-        optimizationRecommendations: [
-          'Add more specific examples',
-          'Include stronger call-to-action',
-        ],
-      }
-    }
-  }
-
-  private generateFallbackTopics(weeks: number): CampaignTopic[] {
-    const fallbackTopics = [
-      'Company Introduction and Vision',
-      'Industry Trends and Insights',
-      'Product/Service Deep Dive',
-      'Customer Success Stories',
-      'Behind the Scenes',
-      'Thought Leadership',
-      'Educational Content',
-      'Problem-Solution Focus',
-      'Community Building',
-      'Expert Interviews',
-      'Data and Analytics',
-      'Future Outlook',
-      'Year-End Recap',
-    ]
-
-    return Array.from({ length: weeks }, (_, i) => ({
-      week: i + 1,
-      title: fallbackTopics[i] || `Campaign Topic ${i + 1}`,
-      description: `Generated campaign topic for week ${i + 1}`,
-      primaryChannel: 'Blog',
-      secondaryChannels: ['Social Media'],
-      contentTypes: ['blog', 'social'],
-      estimatedEffort: 6,
-    }))
   }
 
   private async generateChannelRecommendations(mcpContext: any): Promise<string[]> {
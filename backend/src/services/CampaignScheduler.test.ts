@@ -0,0 +1,400 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { assetStore } from './AssetStore'
+import { auditLog } from './AuditLog'
+import {
+  CampaignScheduler,
+  type CatchUpPolicy,
+  type CreateScheduleInput,
+  type ScheduledPost,
+  retryDelayMs,
+} from './CampaignScheduler'
+import { metering } from './Metering'
+import type { PublishLock } from './PublishLock'
+import { publishingAccounts } from './PublishingAccounts'
+import {
+  PublishError,
+  type PublishResult,
+  type PublishablePost,
+  type SocialPublisher,
+} from './SocialPublisher'
+import { type Workspace, type WorkspaceSummary, workspaceStore } from './WorkspaceStore'
+
+const WORKSPACE = 'ws-1'
+
+// A Sunday; the campaigns below run the week after
+const NOW = new Date('2026-03-01T00:00:00Z')
+
+const GRACE_MS = 15 * 60_000
+
+const outage = (retryAfterMs?: number) =>
+  new PublishError('twitter', 'service unavailable', {
+    code: 'unavailable',
+    status: 503,
+    retryable: true,
+    retryAfterMs,
+  })
+
+class MemoryLock implements PublishLock {
+  private claimed = new Set<string>()
+
+  async claim(attemptId: string): Promise<boolean> {
+    if (this.claimed.has(attemptId)) return false
+    this.claimed.add(attemptId)
+    return true
+  }
+}
+
+const scheduleInput = (overrides: Partial<CreateScheduleInput> = {}): CreateScheduleInput => ({
+  campaignId: 'spring',
+  campaignTitle: 'Spring launch',
+  workspaceId: WORKSPACE,
+  startDate: '2026-03-02',
+  endDate: '2026-03-02',
+  channels: ['twitter'],
+  content: [{ text: 'Spring is here' }],
+  autoPublish: true,
+  requiresApproval: false,
+  ...overrides,
+})
+
+describe('CampaignScheduler', () => {
+  let dir: string
+  let scheduler: CampaignScheduler
+  let publish: ReturnType<typeof vi.fn<(post: PublishablePost) => Promise<PublishResult>>>
+
+  const createScheduler = (defaultPolicy: CatchUpPolicy = 'ask') =>
+    new CampaignScheduler(
+      path.join(dir, 'schedules.json'),
+      new MemoryLock(),
+      60_000,
+      GRACE_MS,
+      defaultPolicy
+    )
+
+  const post = async (postId: string): Promise<ScheduledPost> => {
+    const posts = await scheduler.listPosts({ workspaceId: WORKSPACE })
+    return posts.find((p) => p.id === postId) as ScheduledPost
+  }
+
+  const checkAt = async (at: string) => {
+    vi.setSystemTime(new Date(at))
+    await scheduler.checkScheduledPosts()
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    publish = vi.fn(async (post: PublishablePost) => ({
+      platform: 'twitter' as const,
+      platformPostId: `tw-${post.id}`,
+      mediaIds: [],
+      publishedAt: new Date().toISOString(),
+    }))
+    const publisher: SocialPublisher = { platform: 'twitter', maxLength: 280, publish }
+    vi.spyOn(publishingAccounts, 'getPublisher').mockResolvedValue(publisher)
+    vi.spyOn(workspaceStore, 'getWorkspace').mockResolvedValue({
+      id: WORKSPACE,
+      timeZone: 'UTC',
+    } as Workspace)
+    vi.spyOn(workspaceStore, 'listWorkspaces').mockResolvedValue([
+      { id: WORKSPACE } as WorkspaceSummary,
+    ])
+    vi.spyOn(assetStore, 'listAssets').mockResolvedValue([])
+    vi.spyOn(auditLog, 'record').mockResolvedValue(undefined)
+    vi.spyOn(metering, 'record').mockResolvedValue(undefined)
+
+    dir = await mkdtemp(path.join(tmpdir(), 'scheduler-'))
+    scheduler = createScheduler()
+  })
+
+  afterEach(async () => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  describe('slot allocation', () => {
+    it("places each post in its window's first rule slot in the workspace's time zone", async () => {
+      const schedule = await scheduler.createCampaignSchedule(
+        scheduleInput({ endDate: '2026-03-03' })
+      )
+
+      expect(schedule.posts.map((p) => [p.id, p.status, p.scheduledFor])).toEqual([
+        ['spring_twitter_0', 'scheduled', '2026-03-02T09:00:00.000Z'],
+        ['spring_twitter_1', 'scheduled', '2026-03-03T09:00:00.000Z'],
+      ])
+      expect(schedule.posts[0].placement?.ruleId).toBe('twitter-optimal')
+    })
+
+    it('moves a lower priority campaign out of a slot a higher priority one needs', async () => {
+      const facebook = { channels: ['facebook'], startDate: '2026-03-03', endDate: '2026-03-09' }
+      await scheduler.createCampaignSchedule(
+        scheduleInput({ ...facebook, frequency: 'weekly', priority: 0 })
+      )
+      await scheduler.createCampaignSchedule(
+        scheduleInput({
+          ...facebook,
+          campaignId: 'sale',
+          campaignTitle: 'Sale',
+          frequency: 'weekly',
+          priority: 5,
+        })
+      )
+
+      // One Facebook post a day, at least 24 hours apart
+      expect((await post('sale_facebook_0')).scheduledFor).toBe('2026-03-03T13:00:00.000Z')
+      const moved = await post('spring_facebook_0')
+      expect(moved.scheduledFor).toBe('2026-03-04T13:00:00.000Z')
+      expect(moved.placement?.reasons[0]).toContain('"Sale" (priority 5)')
+    })
+
+    it('leaves posts unplaced when no slot in their window is free', async () => {
+      const facebook = { channels: ['facebook'], startDate: '2026-03-03', endDate: '2026-03-03' }
+      await scheduler.createCampaignSchedule(scheduleInput({ ...facebook, priority: 5 }))
+      const schedule = await scheduler.createCampaignSchedule(
+        scheduleInput({ ...facebook, campaignId: 'sale', campaignTitle: 'Sale' })
+      )
+
+      expect(schedule.posts[0].status).toBe('unplaced')
+      expect(schedule.posts[0].placement?.reasons.at(-1)).toBe(
+        'No open "Facebook Optimal Times" slot from 2026-03-03 to 2026-03-03'
+      )
+    })
+
+    it('keeps a post rescheduled by hand where it was put', async () => {
+      await scheduler.createCampaignSchedule(scheduleInput())
+      await scheduler.reschedulePost('spring_twitter_0', '2026-03-02T10:30:00Z')
+      await scheduler.setCampaignPriority('spring', 9)
+
+      expect(await post('spring_twitter_0')).toMatchObject({
+        status: 'scheduled',
+        pinned: true,
+        scheduledFor: '2026-03-02T10:30:00.000Z',
+      })
+    })
+  })
+
+  describe('catch-up', () => {
+    it('publishes a post within the grace period of its slot', async () => {
+      await scheduler.createCampaignSchedule(scheduleInput({ catchUpPolicy: 'skip' }))
+      await checkAt('2026-03-02T09:10:00Z')
+
+      expect(publish).toHaveBeenCalledTimes(1)
+      expect(await post('spring_twitter_0')).toMatchObject({
+        status: 'published',
+        platformPostId: 'tw-spring_twitter_0',
+        publishedLateMinutes: undefined,
+      })
+    })
+
+    it('publishes a post past the grace period late under publish_late', async () => {
+      await scheduler.createCampaignSchedule(scheduleInput({ catchUpPolicy: 'publish_late' }))
+      await checkAt('2026-03-02T10:00:00Z')
+
+      expect(await post('spring_twitter_0')).toMatchObject({
+        status: 'published',
+        publishedLateMinutes: 60,
+      })
+    })
+
+    it('skips a post past the grace period under skip', async () => {
+      await scheduler.createCampaignSchedule(scheduleInput({ catchUpPolicy: 'skip' }))
+      await checkAt('2026-03-02T10:00:00Z')
+
+      expect(publish).not.toHaveBeenCalled()
+      expect(await post('spring_twitter_0')).toMatchObject({
+        status: 'skipped',
+        error: 'Missed its slot by 60 minutes',
+      })
+    })
+
+    it('holds a post past the grace period under ask until someone decides', async () => {
+      await scheduler.createCampaignSchedule(scheduleInput())
+      await checkAt('2026-03-02T10:00:00Z')
+      expect(publish).not.toHaveBeenCalled()
+      expect((await post('spring_twitter_0')).status).toBe('missed')
+
+      await scheduler.resolveMissedPost('spring_twitter_0', 'publish')
+      await vi.waitFor(async () =>
+        expect((await post('spring_twitter_0')).status).toBe('published')
+      )
+      expect(publish).toHaveBeenCalledTimes(1)
+    })
+
+    it("falls back to the scheduler's policy when the campaign has none", async () => {
+      scheduler = createScheduler('skip')
+      await scheduler.createCampaignSchedule(scheduleInput())
+      await checkAt('2026-03-02T10:00:00Z')
+
+      expect((await post('spring_twitter_0')).status).toBe('skipped')
+    })
+  })
+
+  describe('retries and the dead-letter queue', () => {
+    const POST_ID = 'spring_twitter_0'
+
+    // Fail every send from the 09:00 slot on, following each retry
+    const failUntilDeadLettered = async () => {
+      publish.mockRejectedValue(outage())
+      await checkAt('2026-03-02T09:00:00Z')
+      for (let current = await post(POST_ID); current.status === 'scheduled'; ) {
+        await checkAt(current.nextAttemptAt as string)
+        current = await post(POST_ID)
+      }
+    }
+
+    beforeEach(async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0)
+      await scheduler.createCampaignSchedule(scheduleInput())
+    })
+
+    it('doubles the wait after each failure up to the cap, less jitter', () => {
+      expect([1, 2, 3, 7, 10].map((retry) => retryDelayMs(retry) / 60_000)).toEqual([
+        1, 2, 4, 60, 60,
+      ])
+      vi.spyOn(Math, 'random').mockReturnValue(0.5)
+      expect(retryDelayMs(3)).toBe(0.9 * 4 * 60_000)
+    })
+
+    it('retries a failed send after the backoff delay', async () => {
+      publish.mockRejectedValueOnce(outage()).mockRejectedValueOnce(outage())
+      await checkAt('2026-03-02T09:00:00Z')
+      expect(await post(POST_ID)).toMatchObject({
+        status: 'scheduled',
+        retryCount: 1,
+        nextAttemptAt: '2026-03-02T09:01:00.000Z',
+        error: 'twitter: service unavailable',
+      })
+
+      // Not due before then
+      await checkAt('2026-03-02T09:00:59Z')
+      expect(publish).toHaveBeenCalledTimes(1)
+
+      await checkAt('2026-03-02T09:01:00Z')
+      expect((await post(POST_ID)).nextAttemptAt).toBe('2026-03-02T09:03:00.000Z')
+
+      await checkAt('2026-03-02T09:03:00Z')
+      expect(await post(POST_ID)).toMatchObject({ status: 'published', retryCount: 2 })
+      expect((await post(POST_ID)).attempts?.map((a) => a.code)).toEqual([
+        'unavailable',
+        'unavailable',
+      ])
+    })
+
+    it('waits as long as the platform asks when that is longer', async () => {
+      publish.mockRejectedValueOnce(outage(10 * 60_000))
+      await checkAt('2026-03-02T09:00:00Z')
+      expect((await post(POST_ID)).nextAttemptAt).toBe('2026-03-02T09:10:00.000Z')
+    })
+
+    it('dead-letters a post once its retries run out', async () => {
+      await failUntilDeadLettered()
+
+      expect(publish).toHaveBeenCalledTimes(5)
+      expect(await post(POST_ID)).toMatchObject({
+        status: 'failed',
+        deadLetterReason: 'retries_exhausted',
+        error: 'Gave up after 5 attempts: twitter: service unavailable',
+        deadLetteredAt: '2026-03-02T09:15:00.000Z',
+      })
+      expect((await scheduler.listDeadLetters(WORKSPACE)).map((p) => p.id)).toEqual([POST_ID])
+    })
+
+    it('dead-letters a post straight away on a permanent error', async () => {
+      publish.mockRejectedValue(
+        new PublishError('twitter', 'text too long', { code: 'invalid', retryable: false })
+      )
+      await checkAt('2026-03-02T09:00:00Z')
+
+      expect(publish).toHaveBeenCalledTimes(1)
+      expect(await post(POST_ID)).toMatchObject({
+        status: 'failed',
+        deadLetterReason: 'permanent_error',
+        retryCount: 1,
+      })
+    })
+
+    it('replays a dead-lettered post with a fresh set of retries', async () => {
+      await failUntilDeadLettered()
+      publish.mockReset().mockResolvedValue({
+        platform: 'twitter',
+        platformPostId: 'tw-replayed',
+        mediaIds: [],
+        publishedAt: new Date().toISOString(),
+      })
+
+      const [result] = await scheduler.resolveDeadLetters([POST_ID], 'replay')
+      expect(result.post).toMatchObject({ status: 'scheduled', retryCount: 0 })
+      await vi.waitFor(async () =>
+        expect(await post(POST_ID)).toMatchObject({
+          status: 'published',
+          platformPostId: 'tw-replayed',
+          deadLetterReason: undefined,
+        })
+      )
+    })
+
+    it('replays a dead-lettered post at a chosen time', async () => {
+      await failUntilDeadLettered()
+      await scheduler.resolveDeadLetters([POST_ID], 'replay', {
+        scheduledFor: '2026-03-03T12:00:00Z',
+      })
+
+      expect(await post(POST_ID)).toMatchObject({
+        status: 'scheduled',
+        nextAttemptAt: '2026-03-03T12:00:00.000Z',
+      })
+    })
+
+    it('edits a dead-lettered post without queueing it', async () => {
+      await failUntilDeadLettered()
+      const [result] = await scheduler.resolveDeadLetters([POST_ID], 'edit', {
+        content: { text: 'Spring is finally here' },
+      })
+
+      expect(result.error).toBeUndefined()
+      expect(await post(POST_ID)).toMatchObject({
+        status: 'failed',
+        content: { text: 'Spring is finally here' },
+      })
+    })
+
+    it('cancels dead-lettered posts and reports the ones it cannot act on', async () => {
+      await failUntilDeadLettered()
+      const results = await scheduler.resolveDeadLetters([POST_ID, POST_ID, 'unknown'], 'cancel')
+
+      expect(results).toEqual([
+        { postId: POST_ID, post: expect.objectContaining({ status: 'cancelled' }) },
+        { postId: POST_ID, error: `Post ${POST_ID} is cancelled, not dead-lettered` },
+        { postId: 'unknown', error: 'Post unknown not found' },
+      ])
+      expect(await scheduler.listDeadLetters(WORKSPACE)).toEqual([])
+    })
+
+    it('dead-letters posts a restart interrupted while publishing', async () => {
+      // The send never returns, as if the process died during it
+      publish.mockReturnValue(new Promise(() => undefined))
+      vi.setSystemTime(new Date('2026-03-02T09:00:00Z'))
+      void scheduler.checkScheduledPosts()
+      await vi.waitFor(async () => expect((await post(POST_ID)).status).toBe('publishing'))
+
+      scheduler = createScheduler()
+      await scheduler.start()
+      scheduler.stop()
+
+      expect(publish).toHaveBeenCalledTimes(1)
+      expect(await post(POST_ID)).toMatchObject({
+        status: 'failed',
+        deadLetterReason: 'interrupted',
+        error: 'Publishing was interrupted by a restart; check twitter before replaying',
+      })
+    })
+  })
+})
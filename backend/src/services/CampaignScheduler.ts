@@ -0,0 +1,1483 @@
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { type Asset, assetStore, isAssetApproved } from './AssetStore'
+import { type AuditAction, SYSTEM_ACTOR, auditLog } from './AuditLog'
+import { JsonFileStore } from './JsonFileStore'
+import { metering } from './Metering'
+import { FileClaimLock, type PublishLock } from './PublishLock'
+import { publishingAccounts } from './PublishingAccounts'
+import { type ReviewNotificationInput, reviewNotifier } from './ReviewNotifier'
+import {
+  type BookedSlot,
+  type ResolvedRule,
+  type SlotPlacement,
+  type SlotRequest,
+  type SlotWindow,
+  allocateSlots,
+  postingWindows,
+} from './SlotAllocator'
+import {
+  type PostMedia,
+  PublishError,
+  type PublishResult,
+  isPublishPlatform,
+} from './SocialPublisher'
+import { workspaceStore } from './WorkspaceStore'
+import {
+  formatLocalDate,
+  formatZoned,
+  localDateOf,
+  parseLocalDate,
+  serverTimeZone,
+  shiftLocalDate,
+  zonedTimeToUtc,
+} from './ZonedTime'
+
+export type PostStatus =
+  | 'scheduled'
+  | 'publishing'
+  | 'published'
+  // In the dead-letter queue: out of retries, or failed in a way retrying can't fix
+  | 'failed'
+  | 'cancelled'
+  // Missed its slot and waiting for someone to publish or skip it
+  | 'missed'
+  | 'skipped'
+  // No slot in its window satisfies the channel rule; never published
+  | 'unplaced'
+  // Approval came too late and was escalated; placed again once approved
+  | 'awaiting_approval'
+
+/**
+ * What to do with a post found more than the grace period past its slot,
+ * e.g. after the server was down: publish it late, skip it, or hold it as
+ * `missed` until someone decides
+ */
+export type CatchUpPolicy = 'publish_late' | 'skip' | 'ask'
+
+export const CATCH_UP_POLICIES: CatchUpPolicy[] = ['publish_late', 'skip', 'ask']
+
+/**
+ * What to do with a post whose slot arrives before its content is approved:
+ * move it to a later slot (up to APPROVAL_MAX_RESCHEDULES times, then
+ * escalate), or escalate straight away and hold it as `awaiting_approval`
+ */
+export type LateApprovalPolicy = 'reschedule' | 'escalate'
+
+export const LATE_APPROVAL_POLICIES: LateApprovalPolicy[] = ['reschedule', 'escalate']
+
+/**
+ * Why a post landed in the dead-letter queue
+ */
+export type DeadLetterReason =
+  | 'retries_exhausted'
+  | 'permanent_error'
+  // The send may or may not have reached the platform
+  | 'interrupted'
+  | 'claimed_elsewhere'
+
+export interface PublishAttempt {
+  at: string
+  error: string
+  code?: string
+  retryable: boolean
+  // How long the platform asked to wait, if it did
+  retryAfterMs?: number
+}
+
+export type DeadLetterAction = 'replay' | 'edit' | 'cancel'
+
+export interface DeadLetterResult {
+  postId: string
+  post?: ScheduledPost
+  error?: string
+}
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly'
+
+export interface ScheduledPost {
+  id: string
+  campaignId: string
+  channelType: 'social_media' | 'email' | 'blog' | 'press_release' | 'ad_campaign'
+  channelId: string // e.g., 'twitter', 'facebook', 'instagram', 'linkedin'
+  content: {
+    title?: string
+    text: string
+    media?: PostMedia[]
+    hashtags?: string[]
+    mentions?: string[]
+  }
+  scheduledFor: string // ISO date string; its last slot, or its window's start, while unplaced
+  status: PostStatus
+  // The approval-tracked asset the content comes from; the post waits for its approval
+  assetId?: string
+  // The asset version whose text the post carries, refreshed to the approved
+  // version before publishing
+  assetVersion?: number
+  approvalReminderSentAt?: string
+  // Times the post was moved because approval was late
+  approvalDelays?: number
+  // Dates the allocator may place the post on
+  slotWindow?: SlotWindow
+  // Rescheduled by hand; the allocator leaves it where it is
+  pinned?: boolean
+  placement?: SlotPlacement
+  retryCount: number
+  // Identifies the next send of this post; claimed once before publishing
+  attemptId: string
+  // When a failed post is retried, instead of scheduledFor
+  nextAttemptAt?: string
+  publishedAt?: string
+  // Minutes past its slot the post went out, when published late
+  publishedLateMinutes?: number
+  platformPostId?: string
+  platformUrl?: string
+  error?: string
+  // Most recent failed sends, oldest first
+  attempts?: PublishAttempt[]
+  // Last time anything about the post changed, including its status
+  updatedAt?: string
+  deadLetterReason?: DeadLetterReason
+  deadLetteredAt?: string
+  metrics?: {
+    impressions?: number
+    clicks?: number
+    engagements?: number
+    shares?: number
+  }
+}
+
+export interface CampaignSchedule {
+  campaignId: string
+  campaignTitle: string
+  workspaceId?: string
+  startDate: string
+  endDate: string
+  posts: ScheduledPost[]
+  frequency: ScheduleFrequency | 'custom'
+  channels: string[]
+  autoPublish: boolean
+  requiresApproval: boolean
+  // Higher priority campaigns get first pick of contested slots
+  priority: number
+  // Overrides SCHEDULER_CATCH_UP_POLICY for this campaign
+  catchUpPolicy?: CatchUpPolicy
+  // Told when approval is due, along with each asset's own reviewers
+  reviewers?: string[]
+  // Told when approval is late and escalated; APPROVAL_ESCALATION_CONTACTS otherwise
+  escalateTo?: string[]
+  // Overrides SCHEDULER_LATE_APPROVAL_POLICY for this campaign
+  lateApprovalPolicy?: LateApprovalPolicy
+  approvedBy?: string
+  approvedAt?: string
+  createdAt: string
+  // Last time the schedule itself changed, e.g. its dates; posts keep their own
+  updatedAt?: string
+}
+
+export interface SchedulingRule {
+  id: string
+  name: string
+  channelType: string
+  daysOfWeek: number[] // 0=Sunday, 1=Monday, etc.
+  timeSlots: string[] // e.g., ['09:00', '13:00', '17:00']
+  // Falls back to the workspace's time zone, then the server's
+  timeZone?: string
+  maxPostsPerDay: number
+  minIntervalHours: number
+  // Custom rules only; applies to one workspace. Rules without one apply to
+  // every workspace and are set by the server operator in the schedule data,
+  // not through the API.
+  workspaceId?: string
+}
+
+export type SchedulingRuleInput = Omit<SchedulingRule, 'id' | 'workspaceId'>
+
+export interface ScheduleContentInput {
+  // Use an asset's content; its posts publish only once it is approved
+  assetId?: string
+  title?: string
+  text?: string
+  description?: string
+  media?: PostMedia[]
+  hashtags?: string[]
+  mentions?: string[]
+}
+
+export interface CreateScheduleInput {
+  campaignId: string
+  campaignTitle: string
+  workspaceId: string
+  startDate: string
+  endDate: string
+  channels: string[]
+  content: ScheduleContentInput[]
+  frequency?: ScheduleFrequency
+  autoPublish?: boolean
+  requiresApproval?: boolean
+  priority?: number
+  catchUpPolicy?: CatchUpPolicy
+  reviewers?: string[]
+  escalateTo?: string[]
+  lateApprovalPolicy?: LateApprovalPolicy
+}
+
+// A content entry with its asset's text filled in
+type PostContentInput = ScheduleContentInput & { assetVersion?: number }
+
+interface ScheduleData {
+  schedules: Record<string, CampaignSchedule>
+  // Custom rules, which override the defaults for their channel; the
+  // default rules are not stored
+  rules: SchedulingRule[]
+}
+
+export class ScheduleNotFoundError extends Error {
+  constructor(what: string) {
+    super(`${what} not found`)
+    this.name = 'ScheduleNotFoundError'
+  }
+}
+
+export class ScheduleStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScheduleStateError'
+  }
+}
+
+const DEFAULT_SCHEDULE_PATH = path.resolve(process.cwd(), 'data', 'schedules.json')
+
+const MAX_PUBLISH_ATTEMPTS = Number(process.env.SCHEDULER_MAX_ATTEMPTS) || 5
+const RETRY_BASE_MS = (Number(process.env.SCHEDULER_RETRY_BASE_MINUTES) || 1) * 60_000
+const RETRY_MAX_MS = (Number(process.env.SCHEDULER_RETRY_MAX_MINUTES) || 60) * 60_000
+const MAX_ATTEMPT_HISTORY = 10
+
+const APPROVAL_REMINDER_MS = (Number(process.env.APPROVAL_REMINDER_HOURS) || 24) * 3_600_000
+const APPROVAL_MAX_RESCHEDULES = Number(process.env.APPROVAL_MAX_RESCHEDULES) || 2
+const APPROVAL_ESCALATION_CONTACTS = (process.env.APPROVAL_ESCALATION_CONTACTS || '')
+  .split(',')
+  .map((contact) => contact.trim())
+  .filter(Boolean)
+const DEFAULT_LATE_APPROVAL_POLICY: LateApprovalPolicy =
+  process.env.SCHEDULER_LATE_APPROVAL_POLICY === 'escalate' ? 'escalate' : 'reschedule'
+// Days a post moved for late approval may be placed in
+const APPROVAL_RESCHEDULE_DAYS = 7
+
+/**
+ * Wait before retry number `retry` (1-based): doubling from the base up to
+ * the cap, less up to 20% jitter so posts that failed together spread out,
+ * and never sooner than the platform asked
+ */
+export const retryDelayMs = (retry: number, retryAfterMs = 0): number => {
+  const backoff = Math.min(RETRY_BASE_MS * 2 ** (retry - 1), RETRY_MAX_MS)
+  return Math.max(Math.round(backoff * (1 - Math.random() * 0.2)), retryAfterMs)
+}
+
+// Without a time zone of their own, these follow each workspace's
+const DEFAULT_RULES: SchedulingRule[] = [
+  {
+    id: 'twitter-optimal',
+    name: 'Twitter Optimal Times',
+    channelType: 'twitter',
+    daysOfWeek: [1, 2, 3, 4, 5], // Weekdays
+    timeSlots: ['09:00', '12:00', '15:00', '18:00'],
+    maxPostsPerDay: 3,
+    minIntervalHours: 2,
+  },
+  {
+    id: 'facebook-optimal',
+    name: 'Facebook Optimal Times',
+    channelType: 'facebook',
+    daysOfWeek: [2, 3, 4], // Tue-Thu
+    timeSlots: ['13:00', '15:00'],
+    maxPostsPerDay: 1,
+    minIntervalHours: 24,
+  },
+  {
+    id: 'linkedin-optimal',
+    name: 'LinkedIn Business Hours',
+    channelType: 'linkedin',
+    daysOfWeek: [2, 3, 4], // Tue-Thu
+    timeSlots: ['08:00', '12:00', '17:00'],
+    maxPostsPerDay: 1,
+    minIntervalHours: 24,
+  },
+  {
+    id: 'instagram-optimal',
+    name: 'Instagram Peak Hours',
+    channelType: 'instagram',
+    daysOfWeek: [1, 2, 3, 4, 5, 6], // Mon-Sat
+    timeSlots: ['11:00', '14:00', '17:00'],
+    maxPostsPerDay: 2,
+    minIntervalHours: 6,
+  },
+]
+
+const isCatchUpPolicy = (value: unknown): value is CatchUpPolicy =>
+  CATCH_UP_POLICIES.includes(value as CatchUpPolicy)
+
+const dueAt = (post: ScheduledPost) => new Date(post.nextAttemptAt || post.scheduledFor).getTime()
+
+// Pending posts the allocator has to work around rather than move
+const HOLDS_SLOT: PostStatus[] = ['scheduled', 'publishing', 'published']
+
+// Sent, sending, pinned, retrying and overdue posts keep their time
+const isMovable = (post: ScheduledPost, now: number) =>
+  Boolean(post.slotWindow) &&
+  !post.pinned &&
+  (post.status === 'unplaced' ||
+    (post.status === 'scheduled' && !post.nextAttemptAt && Date.parse(post.scheduledFor) > now))
+
+/**
+ * The rule a channel follows in a workspace: the workspace's own custom rule,
+ * else a custom rule for every workspace, else the default
+ */
+const resolveRule = (
+  customRules: SchedulingRule[],
+  workspaceId: string | undefined,
+  channel: string,
+  timeZone: string
+): ResolvedRule | undefined => {
+  const rule =
+    (workspaceId &&
+      customRules.find((r) => r.channelType === channel && r.workspaceId === workspaceId)) ||
+    customRules.find((r) => r.channelType === channel && !r.workspaceId) ||
+    DEFAULT_RULES.find((r) => r.channelType === channel)
+  return rule ? { ...rule, timeZone: rule.timeZone || timeZone } : undefined
+}
+
+/**
+ * Why a post can't go out yet, if it can't: its campaign or its asset still
+ * needs approving
+ */
+const approvalBlocker = (
+  schedule: CampaignSchedule,
+  post: ScheduledPost,
+  assets: Map<string, Asset>
+): string | undefined => {
+  if (schedule.requiresApproval && !schedule.approvedAt) {
+    return `Campaign "${schedule.campaignTitle}" isn't approved`
+  }
+  if (!post.assetId) return undefined
+  const asset = assets.get(post.assetId)
+  if (!asset) return `Asset ${post.assetId} no longer exists`
+  return isAssetApproved(asset)
+    ? undefined
+    : `Asset "${asset.name}" is ${asset.status.replace('_', ' ')}`
+}
+
+const workspaceTimeZone = async (workspaceId?: string): Promise<string> => {
+  const workspace = workspaceId
+    ? await workspaceStore.getWorkspace(workspaceId).catch(() => undefined)
+    : undefined
+  return workspace?.timeZone || serverTimeZone()
+}
+
+/**
+ * Durable campaign scheduler. Schedules are persisted, so posts that came due
+ * while the server was down are found on the next check and handled by the
+ * campaign's catch-up policy instead of being dropped. Every send claims its
+ * attempt first, so a post is never published twice even if two scheduler
+ * processes overlap, e.g. during a restart.
+ */
+export class CampaignScheduler {
+  private store: JsonFileStore<ScheduleData>
+  private timer: NodeJS.Timeout | null = null
+  private checking = false
+
+  constructor(
+    filePath = process.env.SCHEDULE_DATA_PATH || DEFAULT_SCHEDULE_PATH,
+    private lock: PublishLock = new FileClaimLock(),
+    private intervalMs = Number(process.env.SCHEDULER_INTERVAL_MS) || 30_000,
+    // Posts later than this are handled by the catch-up policy
+    private graceMs = (Number(process.env.SCHEDULER_GRACE_MINUTES) || 15) * 60_000,
+    private defaultPolicy: CatchUpPolicy = isCatchUpPolicy(process.env.SCHEDULER_CATCH_UP_POLICY)
+      ? process.env.SCHEDULER_CATCH_UP_POLICY
+      : 'ask'
+  ) {
+    this.store = new JsonFileStore<ScheduleData>(filePath, () => ({ schedules: {}, rules: [] }))
+  }
+
+  /**
+   * Settle posts interrupted mid-publish by a restart, catch up on anything
+   * that came due while stopped, and start checking for due posts
+   */
+  async start(): Promise<void> {
+    if (this.timer) return
+
+    const interrupted = await this.updateSchedules((data) => {
+      const posts = Object.values(data.schedules)
+        .flatMap((schedule) => schedule.posts)
+        .filter((post) => post.status === 'publishing')
+      // The platform may or may not have received these, so sending them
+      // again could duplicate them
+      for (const post of posts) {
+        this.deadLetter(
+          post,
+          'interrupted',
+          `Publishing was interrupted by a restart; check ${post.channelId} before replaying`
+        )
+      }
+      return posts.length
+    })
+    if (interrupted > 0) {
+      console.log(`⚠️ ${interrupted} post(s) were interrupted while publishing and need review`)
+    }
+
+    if (this.lock instanceof FileClaimLock) {
+      await this.lock.prune()
+    }
+
+    this.timer = setInterval(() => {
+      void this.checkScheduledPosts()
+    }, this.intervalMs)
+    this.timer.unref()
+    console.log(`📅 Campaign scheduler started (checking every ${this.intervalMs / 1000}s)`)
+
+    await this.checkScheduledPosts()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Create a campaign schedule, or replace the workspace's schedule with the
+   * same campaign id. Its posts are placed into channel rule slots alongside
+   * every other schedule in the workspace. Campaign ids are unique across
+   * workspaces, so an id another workspace uses is refused. A replaced
+   * schedule keeps its published posts, and their slots aren't generated
+   * again, and its creation time; it can't be replaced while any of its
+   * posts are publishing.
+   */
+  async createCampaignSchedule(input: CreateScheduleInput): Promise<CampaignSchedule> {
+    const frequency = input.frequency || 'daily'
+    const timeZone = await workspaceTimeZone(input.workspaceId)
+    const content = await this.withAssetContent(input.workspaceId, input.content)
+
+    const schedule = await this.updateSchedules((data) => {
+      const existing = data.schedules[input.campaignId]
+      if (existing && existing.workspaceId !== input.workspaceId) {
+        throw new ScheduleStateError(
+          `Campaign id ${input.campaignId} is already in use; choose another`
+        )
+      }
+      if (existing?.posts.some((post) => post.status === 'publishing')) {
+        throw new ScheduleStateError(
+          `Schedule ${input.campaignId} is publishing, try again shortly`
+        )
+      }
+      const published = (existing?.posts || []).filter((post) => post.status === 'published')
+      const sent = new Set(published.map((post) => post.id))
+      const generated = this.generateScheduledPosts({ ...input, content }, frequency, (channel) =>
+        resolveRule(data.rules, input.workspaceId, channel, timeZone)
+      )
+      const schedule: CampaignSchedule = {
+        campaignId: input.campaignId,
+        campaignTitle: input.campaignTitle,
+        workspaceId: input.workspaceId,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        posts: [...published, ...generated.filter((post) => !sent.has(post.id))],
+        frequency,
+        channels: input.channels,
+        autoPublish: input.autoPublish ?? false,
+        requiresApproval: input.requiresApproval ?? true,
+        priority: input.priority ?? 0,
+        catchUpPolicy: input.catchUpPolicy,
+        reviewers: input.reviewers,
+        escalateTo: input.escalateTo,
+        lateApprovalPolicy: input.lateApprovalPolicy,
+        createdAt: existing?.createdAt || new Date().toISOString(),
+      }
+      data.schedules[schedule.campaignId] = schedule
+      this.rebalance(data, input.workspaceId, timeZone)
+      schedule.posts.sort((a, b) => dueAt(a) - dueAt(b))
+      return schedule
+    })
+
+    const unplaced = schedule.posts.filter((post) => post.status === 'unplaced').length
+    console.log(
+      `📅 Created schedule for campaign ${schedule.campaignId} with ${schedule.posts.length} posts${unplaced ? ` (${unplaced} unplaced)` : ''}`
+    )
+    return schedule
+  }
+
+  async getCampaignSchedule(campaignId: string): Promise<CampaignSchedule> {
+    const data = await this.store.read()
+    const schedule = data.schedules[campaignId]
+    if (!schedule) {
+      throw new ScheduleNotFoundError(`Schedule ${campaignId}`)
+    }
+    return schedule
+  }
+
+  async listSchedules(workspaceId?: string): Promise<CampaignSchedule[]> {
+    const data = await this.store.read()
+    return Object.values(data.schedules)
+      .filter((schedule) => !workspaceId || schedule.workspaceId === workspaceId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  /**
+   * Posts across all schedules, soonest first
+   */
+  async listPosts(filter: { status?: PostStatus; workspaceId?: string } = {}) {
+    const schedules = await this.listSchedules(filter.workspaceId)
+    return schedules
+      .flatMap((schedule) => schedule.posts)
+      .filter((post) => !filter.status || post.status === filter.status)
+      .sort((a, b) => dueAt(a) - dueAt(b))
+  }
+
+  /**
+   * The workspaces of the given posts, for access checks. Unknown posts are
+   * left out; whatever acts on them reports those.
+   */
+  async postWorkspaces(postIds: string[]): Promise<(string | undefined)[]> {
+    const wanted = new Set(postIds)
+    const schedules = await this.listSchedules()
+    return schedules
+      .filter((schedule) => schedule.posts.some((post) => wanted.has(post.id)))
+      .map((schedule) => schedule.workspaceId)
+  }
+
+  async deleteSchedule(campaignId: string): Promise<void> {
+    const workspaceId = await this.updateSchedules((data) => {
+      const schedule = data.schedules[campaignId]
+      if (!schedule) {
+        throw new ScheduleNotFoundError(`Schedule ${campaignId}`)
+      }
+      if (schedule.posts.some((post) => post.status === 'publishing')) {
+        throw new ScheduleStateError(`Schedule ${campaignId} is publishing, try again shortly`)
+      }
+      delete data.schedules[campaignId]
+      return schedule.workspaceId
+    })
+    // Its slots are free for the rest of the workspace
+    await this.rebalanceWorkspaces([workspaceId])
+  }
+
+  /**
+   * Drop a deleted workspace's schedules and custom rules, so none of its
+   * posts go out
+   */
+  async removeWorkspace(workspaceId: string): Promise<void> {
+    await this.updateSchedules((data) => {
+      for (const schedule of Object.values(data.schedules)) {
+        if (schedule.workspaceId === workspaceId) delete data.schedules[schedule.campaignId]
+      }
+      data.rules = data.rules.filter((rule) => rule.workspaceId !== workspaceId)
+    })
+  }
+
+  /**
+   * Change which campaign wins contested slots; the workspace is re-placed
+   */
+  async setCampaignPriority(campaignId: string, priority: number): Promise<CampaignSchedule> {
+    const workspaceId = await this.updateSchedules((data) => {
+      const schedule = data.schedules[campaignId]
+      if (!schedule) {
+        throw new ScheduleNotFoundError(`Schedule ${campaignId}`)
+      }
+      schedule.priority = priority
+      return schedule.workspaceId
+    })
+    await this.rebalanceWorkspaces([workspaceId])
+    return this.getCampaignSchedule(campaignId)
+  }
+
+  /**
+   * Change a pending post's content. An approved campaign that requires
+   * approval has to be approved again before the edit goes out.
+   */
+  async updatePost(
+    postId: string,
+    content: Partial<ScheduledPost['content']>
+  ): Promise<ScheduledPost> {
+    return this.patchPending(postId, (post, schedule) => {
+      this.editContent(schedule, post, content)
+    })
+  }
+
+  async cancelPost(postId: string): Promise<ScheduledPost> {
+    const post = await this.patchPending(postId, (current) => {
+      current.status = 'cancelled'
+    })
+    await this.rebalanceCampaign(post.campaignId)
+    return post
+  }
+
+  async reschedulePost(postId: string, newDateTime: string): Promise<ScheduledPost> {
+    if (Number.isNaN(Date.parse(newDateTime))) {
+      throw new ScheduleStateError(`Invalid date: ${newDateTime}`)
+    }
+    const post = await this.patchPending(postId, (current) => {
+      current.scheduledFor = new Date(newDateTime).toISOString()
+      current.nextAttemptAt = undefined
+      current.pinned = true
+      current.placement = { reasons: [`Rescheduled by hand to ${current.scheduledFor}`] }
+      this.requeue(current)
+    })
+    // Posts that now clash with it move instead
+    await this.rebalanceCampaign(post.campaignId)
+    return post
+  }
+
+  /**
+   * Decide what happens to a post held as `missed`: publish it now or skip it.
+   * Rescheduling it is done with reschedulePost.
+   */
+  async resolveMissedPost(postId: string, action: 'publish' | 'skip'): Promise<ScheduledPost> {
+    const post = await this.patchPost(postId, (current) => {
+      if (current.status !== 'missed') {
+        throw new ScheduleStateError(`Post ${postId} is ${current.status}, not missed`)
+      }
+      if (action === 'skip') {
+        current.status = 'skipped'
+        return
+      }
+      current.nextAttemptAt = new Date().toISOString()
+      this.requeue(current)
+    })
+
+    if (action === 'publish') void this.checkScheduledPosts()
+    return post
+  }
+
+  /**
+   * Posts in the dead-letter queue, most recently failed first
+   */
+  async listDeadLetters(workspaceId?: string): Promise<ScheduledPost[]> {
+    const posts = await this.listPosts({ status: 'failed', workspaceId })
+    return posts.sort((a, b) => (b.deadLetteredAt || '').localeCompare(a.deadLetteredAt || ''))
+  }
+
+  /**
+   * Act on several dead-lettered posts at once. `replay` queues a post again
+   * with a fresh set of retries, at `scheduledFor` or right away; `edit`
+   * changes its content and leaves it in the queue; `cancel` drops it. Content
+   * changes apply to replays too and are held for approval like any edit.
+   * Posts that aren't dead-lettered, or whose change is refused, are reported
+   * rather than failing the batch.
+   */
+  async resolveDeadLetters(
+    postIds: string[],
+    action: DeadLetterAction,
+    options: { content?: Partial<ScheduledPost['content']>; scheduledFor?: string } = {}
+  ): Promise<DeadLetterResult[]> {
+    if (options.scheduledFor !== undefined && Number.isNaN(Date.parse(options.scheduledFor))) {
+      throw new ScheduleStateError(`Invalid date: ${options.scheduledFor}`)
+    }
+
+    const results = await this.updateSchedules((data) => {
+      const posts = new Map(
+        Object.values(data.schedules).flatMap((schedule) =>
+          schedule.posts.map((post) => [post.id, { post, schedule }] as const)
+        )
+      )
+      return postIds.map((postId): DeadLetterResult => {
+        const found = posts.get(postId)
+        if (!found) return { postId, error: `Post ${postId} not found` }
+        const { post, schedule } = found
+        if (post.status !== 'failed') {
+          return { postId, error: `Post ${postId} is ${post.status}, not dead-lettered` }
+        }
+
+        try {
+          this.applyDeadLetterAction(schedule, post, action, options)
+        } catch (error) {
+          if (error instanceof ScheduleStateError) return { postId, error: error.message }
+          throw error
+        }
+        return { postId, post }
+      })
+    })
+
+    const resolved = results.filter((result) => result.post).length
+    console.log(`📬 ${action} ${resolved} of ${postIds.length} dead-lettered post(s)`)
+    if (action === 'replay' && resolved > 0) void this.checkScheduledPosts()
+    return results
+  }
+
+  /**
+   * Approve campaign for publishing. Posts with assets still wait for those
+   * to be approved too.
+   */
+  async approveCampaign(campaignId: string, approvedBy: string): Promise<CampaignSchedule> {
+    const schedule = await this.updateSchedules((data) => {
+      const current = data.schedules[campaignId]
+      if (!current) {
+        throw new ScheduleNotFoundError(`Schedule ${campaignId}`)
+      }
+      if (current.requiresApproval) {
+        current.approvedBy = approvedBy
+        current.approvedAt = new Date().toISOString()
+        current.autoPublish = true
+      }
+      return current
+    })
+    console.log(`✅ Campaign ${campaignId} approved for publishing by ${approvedBy}`)
+
+    void this.checkScheduledPosts()
+    return schedule
+  }
+
+  /**
+   * The rules a workspace's posts follow: the defaults, then the operator's
+   * rules for every workspace, then the workspace's own
+   */
+  async getSchedulingRules(workspaceId: string): Promise<SchedulingRule[]> {
+    const data = await this.store.read()
+    const custom = data.rules.filter(
+      (rule) => !rule.workspaceId || rule.workspaceId === workspaceId
+    )
+    return [...DEFAULT_RULES, ...custom]
+  }
+
+  /**
+   * Add a custom rule to a workspace. It overrides the default, and any
+   * operator rule, for its channel there.
+   */
+  async addSchedulingRule(workspaceId: string, rule: SchedulingRuleInput): Promise<SchedulingRule> {
+    const newRule: SchedulingRule = { ...rule, workspaceId, id: `custom_${randomUUID()}` }
+    await this.updateSchedules((data) => {
+      data.rules.push(newRule)
+    })
+    console.log(`Added custom scheduling rule: ${newRule.name}`)
+
+    await this.rebalanceWorkspaces([workspaceId])
+    return newRule
+  }
+
+  async updateSchedulingRule(
+    workspaceId: string,
+    ruleId: string,
+    updates: Partial<SchedulingRuleInput>
+  ): Promise<SchedulingRule> {
+    const rule = await this.updateSchedules((data) => {
+      const rule = this.findCustomRule(data, workspaceId, ruleId)
+      Object.assign(rule, updates)
+      return rule
+    })
+
+    await this.rebalanceWorkspaces([workspaceId])
+    return rule
+  }
+
+  async deleteSchedulingRule(workspaceId: string, ruleId: string): Promise<void> {
+    await this.updateSchedules((data) => {
+      this.findCustomRule(data, workspaceId, ruleId)
+      data.rules = data.rules.filter((r) => r.id !== ruleId)
+    })
+    await this.rebalanceWorkspaces([workspaceId])
+  }
+
+  /**
+   * Place the pending posts of the given workspaces again, e.g. after a rule,
+   * priority or time zone they depend on changed. Rebalances every workspace
+   * with schedules when none are given.
+   */
+  async rebalanceWorkspaces(workspaceIds?: (string | undefined)[]): Promise<void> {
+    const ids = workspaceIds || [
+      ...new Set(Object.values((await this.store.read()).schedules).map((s) => s.workspaceId)),
+    ]
+    const timeZones = await Promise.all(ids.map(workspaceTimeZone))
+
+    await this.updateSchedules((data) => {
+      ids.forEach((workspaceId, i) => this.rebalance(data, workspaceId, timeZones[i]))
+    })
+  }
+
+  /**
+   * Publish every due post of auto-publishing schedules, applying the
+   * catch-up policy to posts past the grace period. Posts still waiting on
+   * approval are held back and their reviewers notified first. Schedules of
+   * archived or deleted workspaces publish nothing; an archived workspace's
+   * posts are caught up by their policy once it is restored.
+   */
+  async checkScheduledPosts(): Promise<void> {
+    if (this.checking) return
+    this.checking = true
+
+    try {
+      const now = Date.now()
+      const assets = new Map((await assetStore.listAssets()).map((asset) => [asset.id, asset]))
+      const activeWorkspaces = new Set(
+        (await workspaceStore.listWorkspaces()).map((workspace) => workspace.id)
+      )
+      const { toPublish, notifications, replace } = await this.updateSchedules((data) => ({
+        ...this.enforceApprovals(data, assets, now),
+        toPublish: Object.values(data.schedules)
+          .filter(
+            (schedule) =>
+              schedule.autoPublish &&
+              (!schedule.workspaceId || activeWorkspaces.has(schedule.workspaceId))
+          )
+          .flatMap((schedule) => this.collectDuePosts(schedule, now)),
+      }))
+
+      if (replace.length > 0) await this.rebalanceWorkspaces(replace)
+      for (const notification of notifications) {
+        await reviewNotifier.notify(notification)
+      }
+      for (const post of toPublish) {
+        await this.publishPost(post, now)
+      }
+    } catch (error) {
+      console.error('Failed to check scheduled posts:', error)
+    } finally {
+      this.checking = false
+    }
+  }
+
+  /**
+   * Hold back posts whose campaign or asset isn't approved. Reviewers are
+   * reminded once a post is within APPROVAL_REMINDER_HOURS of its slot; when
+   * the slot arrives the post is moved to a later one or escalated, as the
+   * late approval policy says. Escalated posts are placed again once
+   * approved. Returns the notifications to send and the workspaces to
+   * re-place.
+   */
+  private enforceApprovals(data: ScheduleData, assets: Map<string, Asset>, now: number) {
+    const notifications: ReviewNotificationInput[] = []
+    const replace = new Set<string | undefined>()
+
+    for (const schedule of Object.values(data.schedules)) {
+      // Neither publishing nor waiting to be approved
+      if (!schedule.autoPublish && !schedule.requiresApproval) continue
+
+      for (const post of schedule.posts) {
+        const before = post.status
+        const notification = this.enforceApproval(schedule, post, assets, now)
+        if (notification) notifications.push(notification)
+        if (before !== post.status && post.status === 'unplaced') replace.add(schedule.workspaceId)
+      }
+    }
+    return { notifications, replace: [...replace] }
+  }
+
+  private enforceApproval(
+    schedule: CampaignSchedule,
+    post: ScheduledPost,
+    assets: Map<string, Asset>,
+    now: number
+  ): ReviewNotificationInput | undefined {
+    if (post.status !== 'scheduled' && post.status !== 'awaiting_approval') return undefined
+
+    const asset = post.assetId ? assets.get(post.assetId) : undefined
+    if (asset && asset.workspaceId !== schedule.workspaceId) {
+      this.deadLetter(post, 'permanent_error', `Asset ${post.assetId} belongs to another workspace`)
+      return undefined
+    }
+    const blocker = approvalBlocker(schedule, post, assets)
+    if (!blocker) {
+      // Asset posts publish the version that was approved
+      if (asset && post.assetVersion !== asset.version) {
+        post.content.text = asset.content
+        post.assetVersion = asset.version
+      }
+      if (post.status === 'awaiting_approval') this.reopenSlotWindow(post, 0, now)
+      return undefined
+    }
+    if (post.status === 'awaiting_approval') return undefined
+
+    const timeZone = post.placement?.timeZone || serverTimeZone()
+    const notice = {
+      workspaceId: schedule.workspaceId,
+      recipients: [...new Set([...(schedule.reviewers || []), ...(asset?.reviewers || [])])],
+      campaignId: schedule.campaignId,
+      postId: post.id,
+      assetId: post.assetId,
+      dueAt: new Date(dueAt(post)).toISOString(),
+    }
+    const slot = `${formatZoned(new Date(dueAt(post)), timeZone)} (${timeZone})`
+
+    if (dueAt(post) <= now) {
+      return this.handleLateApproval(
+        schedule,
+        post,
+        notice,
+        `${blocker}; its ${post.channelId} post missed ${slot}`,
+        now
+      )
+    }
+    if (post.approvalReminderSentAt || dueAt(post) - now > APPROVAL_REMINDER_MS) return undefined
+
+    post.approvalReminderSentAt = new Date(now).toISOString()
+    return {
+      ...notice,
+      kind: 'approval_due',
+      message: `${blocker}; its ${post.channelId} post goes out ${slot} if approved by then`,
+    }
+  }
+
+  /**
+   * Move a post whose slot arrived before approval, or escalate it once it
+   * has been moved too often or the policy says to
+   */
+  private handleLateApproval(
+    schedule: CampaignSchedule,
+    post: ScheduledPost,
+    notice: Omit<ReviewNotificationInput, 'kind' | 'message'>,
+    problem: string,
+    now: number
+  ): ReviewNotificationInput {
+    const policy = schedule.lateApprovalPolicy || DEFAULT_LATE_APPROVAL_POLICY
+    if (policy === 'reschedule' && (post.approvalDelays || 0) < APPROVAL_MAX_RESCHEDULES) {
+      post.approvalDelays = (post.approvalDelays || 0) + 1
+      this.reopenSlotWindow(post, 1, now)
+      return {
+        ...notice,
+        kind: 'approval_rescheduled',
+        message: `${problem} and moves to the next open slot`,
+      }
+    }
+
+    post.status = 'awaiting_approval'
+    post.error = problem
+    return {
+      ...notice,
+      kind: 'approval_escalated',
+      recipients: [
+        ...new Set([
+          ...notice.recipients,
+          ...(schedule.escalateTo || APPROVAL_ESCALATION_CONTACTS),
+        ]),
+      ],
+      message: `${problem} and is on hold until approved`,
+    }
+  }
+
+  /**
+   * Send a post back to the allocator with a week of slots starting
+   * `startInDays` from today
+   */
+  private reopenSlotWindow(post: ScheduledPost, startInDays: number, now: number): void {
+    const timeZone = post.placement?.timeZone || serverTimeZone()
+    const from = shiftLocalDate(localDateOf(new Date(now), timeZone), startInDays)
+    post.slotWindow = {
+      from: formatLocalDate(from),
+      to: formatLocalDate(shiftLocalDate(from, APPROVAL_RESCHEDULE_DAYS - 1)),
+    }
+    post.status = 'unplaced'
+    post.pinned = false
+    post.nextAttemptAt = undefined
+    post.approvalReminderSentAt = undefined
+    post.error = undefined
+  }
+
+  /**
+   * Copies of the schedule's posts to publish now. Posts past the grace
+   * period are marked skipped or missed instead when the policy says so.
+   */
+  private collectDuePosts(schedule: CampaignSchedule, now: number): ScheduledPost[] {
+    const policy = schedule.catchUpPolicy || this.defaultPolicy
+    const due: ScheduledPost[] = []
+
+    for (const post of schedule.posts) {
+      if (post.status !== 'scheduled' || dueAt(post) > now) continue
+
+      const lateMs = now - dueAt(post)
+      if (lateMs <= this.graceMs || policy === 'publish_late') {
+        due.push({ ...post })
+      } else {
+        post.status = policy === 'skip' ? 'skipped' : 'missed'
+        post.error = `Missed its slot by ${Math.round(lateMs / 60_000)} minutes`
+      }
+    }
+    return due
+  }
+
+  /**
+   * Publish one post. The attempt is claimed first; if it was already
+   * claimed, another scheduler process sent it or crashed while sending, so
+   * the post is failed for review rather than sent again.
+   */
+  private async publishPost(post: ScheduledPost, now: number): Promise<void> {
+    const claimed = await this.lock.claim(post.attemptId)
+    try {
+      await this.patchPost(post.id, (current) => {
+        // Changed (cancelled, rescheduled) since it was picked up
+        if (current.attemptId !== post.attemptId || current.status !== 'scheduled') {
+          throw new ScheduleStateError(`Post ${post.id} changed before it was published`)
+        }
+        if (claimed) {
+          current.status = 'publishing'
+        } else {
+          this.deadLetter(
+            current,
+            'claimed_elsewhere',
+            `Another scheduler already claimed this send; check ${post.channelId} before replaying`
+          )
+        }
+      })
+    } catch (error) {
+      if (error instanceof ScheduleStateError || error instanceof ScheduleNotFoundError) return
+      throw error
+    }
+    if (!claimed) {
+      console.warn(`⚠️ Post ${post.id} was already claimed by another scheduler`)
+      return
+    }
+
+    console.log(`📣 Publishing post ${post.id} to ${post.channelId}`)
+    let result: PublishResult
+    try {
+      result = await this.sendToPublisher(post)
+    } catch (error) {
+      console.error(`❌ Failed to publish post ${post.id}:`, error)
+      await this.patchPost(post.id, (current) => this.recordFailure(current, error))
+      await this.auditPublish(
+        post,
+        'post.publish_failed',
+        `Failed to publish to ${post.channelId}`,
+        {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }
+      )
+      return
+    }
+
+    // The platform has the post now, so nothing below may queue it again
+    const lateMinutes = Math.floor((now - new Date(post.scheduledFor).getTime()) / 60_000)
+    try {
+      await this.patchPost(post.id, (current) => {
+        current.status = 'published'
+        current.publishedAt = result.publishedAt
+        current.platformPostId = result.platformPostId
+        current.platformUrl = result.url
+        current.publishedLateMinutes = lateMinutes * 60_000 > this.graceMs ? lateMinutes : undefined
+        current.error = undefined
+      })
+      console.log(`✅ Published post ${post.id} as ${result.platformPostId}`)
+    } catch (error) {
+      // Left as publishing, which no check picks up again; the next start
+      // dead-letters it for review
+      console.error(
+        `❌ Published post ${post.id} as ${result.platformPostId} but failed to save it:`,
+        error
+      )
+    }
+    await this.auditPublish(post, 'post.published', `Published to ${post.channelId}`, {
+      platformPostId: result.platformPostId,
+      url: result.url,
+    })
+    await this.meterPublish(post).catch((error) =>
+      console.warn(`⚠️ Failed to meter published post ${post.id}:`, error)
+    )
+
+    if (post.assetId) {
+      await assetStore
+        .markPublished(post.assetId)
+        .catch((error) => console.warn(`⚠️ Failed to mark asset ${post.assetId} published:`, error))
+    }
+  }
+
+  private async auditPublish(
+    post: ScheduledPost,
+    action: AuditAction,
+    summary: string,
+    metadata: Record<string, unknown>
+  ): Promise<void> {
+    // Never let auditing turn a sent post into a failed one
+    const [workspaceId] = await this.postWorkspaces([post.id]).catch(() => [undefined])
+    await auditLog.record({
+      workspaceId,
+      actor: SYSTEM_ACTOR,
+      action,
+      entity: { type: 'post', id: post.id },
+      summary: post.content.title ? `${summary}: "${post.content.title}"` : summary,
+      metadata: { campaignId: post.campaignId, assetId: post.assetId, ...metadata },
+    })
+  }
+
+  private async meterPublish(post: ScheduledPost): Promise<void> {
+    const [workspaceId] = await this.postWorkspaces([post.id]).catch(() => [undefined])
+    if (workspaceId) {
+      await metering.record({ workspaceId, kind: 'scheduled_publish', reference: post.id })
+    }
+  }
+
+  /**
+   * Queue a retry after a failed send, backing off further each time, or
+   * dead-letter the post once retries run out or the error is permanent.
+   * Unexpected errors (not from a publisher) are assumed transient.
+   */
+  private recordFailure(post: ScheduledPost, error: unknown): void {
+    const attempt: PublishAttempt = {
+      at: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof PublishError ? error.code : undefined,
+      retryable: !(error instanceof PublishError) || error.retryable,
+      retryAfterMs: error instanceof PublishError ? error.retryAfterMs : undefined,
+    }
+    post.retryCount++
+    post.attempts = [...(post.attempts || []), attempt].slice(-MAX_ATTEMPT_HISTORY)
+
+    if (!attempt.retryable) {
+      this.deadLetter(post, 'permanent_error', attempt.error)
+    } else if (post.retryCount >= MAX_PUBLISH_ATTEMPTS) {
+      this.deadLetter(
+        post,
+        'retries_exhausted',
+        `Gave up after ${post.retryCount} attempts: ${attempt.error}`
+      )
+    } else {
+      const delay = retryDelayMs(post.retryCount, attempt.retryAfterMs)
+      post.nextAttemptAt = new Date(Date.now() + delay).toISOString()
+      post.error = attempt.error
+      this.requeue(post)
+      console.log(`🔁 Retrying post ${post.id} in ${Math.round(delay / 1000)}s`)
+    }
+  }
+
+  private applyDeadLetterAction(
+    schedule: CampaignSchedule,
+    post: ScheduledPost,
+    action: DeadLetterAction,
+    options: { content?: Partial<ScheduledPost['content']>; scheduledFor?: string }
+  ): void {
+    if (options.content) this.editContent(schedule, post, options.content)
+    if (action === 'cancel') {
+      post.status = 'cancelled'
+    } else if (action === 'replay') {
+      post.retryCount = 0
+      post.error = undefined
+      post.deadLetterReason = undefined
+      post.deadLetteredAt = undefined
+      post.nextAttemptAt = new Date(options.scheduledFor || Date.now()).toISOString()
+      this.requeue(post)
+    }
+  }
+
+  /**
+   * Apply a content edit. An asset post's text is the asset's and is changed
+   * by editing the asset, which sends it back for review. Any other change
+   * to an approved campaign that requires approval withdraws the approval,
+   * so nothing goes out that a reviewer hasn't seen.
+   */
+  private editContent(
+    schedule: CampaignSchedule,
+    post: ScheduledPost,
+    content: Partial<ScheduledPost['content']>
+  ): void {
+    if (post.assetId && content.text !== undefined && content.text !== post.content.text) {
+      throw new ScheduleStateError(
+        `Post ${post.id} publishes asset ${post.assetId}'s text; edit the asset instead`
+      )
+    }
+    const before = JSON.stringify(post.content)
+    post.content = { ...post.content, ...content }
+    if (
+      schedule.requiresApproval &&
+      schedule.approvedAt &&
+      JSON.stringify(post.content) !== before
+    ) {
+      schedule.approvedAt = undefined
+      schedule.approvedBy = undefined
+      console.log(
+        `📝 Campaign ${schedule.campaignId} needs approval again after post ${post.id} was edited`
+      )
+    }
+  }
+
+  private deadLetter(post: ScheduledPost, reason: DeadLetterReason, message: string): void {
+    post.status = 'failed'
+    post.error = message
+    post.deadLetterReason = reason
+    post.deadLetteredAt = new Date().toISOString()
+  }
+
+  /**
+   * Send a post with the credentials of its schedule's workspace. Posts of
+   * schedules without a workspace have no account to publish with.
+   */
+  private async sendToPublisher(post: ScheduledPost): Promise<PublishResult> {
+    const [workspaceId] = await this.postWorkspaces([post.id])
+    const publisher =
+      workspaceId && isPublishPlatform(post.channelId)
+        ? await publishingAccounts.getPublisher(workspaceId, post.channelId)
+        : undefined
+    if (!publisher) {
+      throw new PublishError(post.channelId, 'publishing is not configured for this channel', {
+        code: 'not_configured',
+        retryable: false,
+      })
+    }
+
+    return publisher.publish({
+      id: post.id,
+      campaignId: post.campaignId,
+      title: post.content.title,
+      text: post.content.text,
+      media: post.content.media || [],
+      hashtags: post.content.hashtags || [],
+      mentions: post.content.mentions || [],
+    })
+  }
+
+  /**
+   * Run the slot allocator over every schedule in a workspace. Pending posts
+   * that can still move are placed again in priority order, each recording
+   * why it landed where it did; posts left without a slot become unplaced.
+   */
+  private rebalance(
+    data: ScheduleData,
+    workspaceId: string | undefined,
+    timeZone: string,
+    now = Date.now()
+  ): void {
+    const { rules, requests, booked, movable } = this.collectSlots(data, workspaceId, timeZone, now)
+
+    let moved = 0
+    for (const { postId, scheduledFor, placement } of allocateSlots(requests, booked, rules, now)) {
+      const post = movable.get(postId) as ScheduledPost
+      post.placement = placement
+      if (!scheduledFor) {
+        if (post.status !== 'unplaced') moved++
+        post.status = 'unplaced'
+      } else if (post.status === 'unplaced' || post.scheduledFor !== scheduledFor) {
+        post.scheduledFor = scheduledFor
+        // A send already picked up for the old slot is abandoned
+        this.requeue(post)
+        moved++
+      }
+    }
+    if (moved > 0) {
+      console.log(`📅 Re-placed ${moved} post(s) in workspace ${workspaceId || '(none)'}`)
+    }
+  }
+
+  /**
+   * The workspace's posts split into those to place and those holding their
+   * slots, with the rule each channel follows
+   */
+  private collectSlots(
+    data: ScheduleData,
+    workspaceId: string | undefined,
+    timeZone: string,
+    now: number
+  ) {
+    const rules = new Map<string, ResolvedRule>()
+    const requests: SlotRequest[] = []
+    const booked: BookedSlot[] = []
+    const movable = new Map<string, ScheduledPost>()
+
+    const schedules = Object.values(data.schedules).filter((s) => s.workspaceId === workspaceId)
+    for (const schedule of schedules) {
+      for (const post of schedule.posts) {
+        const rule = resolveRule(data.rules, workspaceId, post.channelId, timeZone)
+        if (rule) rules.set(post.channelId, rule)
+
+        const slot = {
+          postId: post.id,
+          channel: post.channelId,
+          campaignTitle: schedule.campaignTitle,
+          priority: schedule.priority ?? 0,
+        }
+        if (isMovable(post, now)) {
+          movable.set(post.id, post)
+          requests.push({
+            ...slot,
+            window: post.slotWindow as SlotWindow,
+            createdAt: schedule.createdAt,
+          })
+        } else if (HOLDS_SLOT.includes(post.status)) {
+          booked.push({ ...slot, at: post.scheduledFor })
+        }
+      }
+    }
+    return { rules, requests, booked, movable }
+  }
+
+  private async rebalanceCampaign(campaignId: string): Promise<void> {
+    const schedule = (await this.store.read()).schedules[campaignId]
+    if (schedule) await this.rebalanceWorkspaces([schedule.workspaceId])
+  }
+
+  /**
+   * A workspace's custom rule to change; default rules and the operator's
+   * rules for every workspace are read-only
+   */
+  private findCustomRule(data: ScheduleData, workspaceId: string, ruleId: string): SchedulingRule {
+    const rule = data.rules.find((r) => r.id === ruleId)
+    if (DEFAULT_RULES.some((r) => r.id === ruleId) || (rule && !rule.workspaceId)) {
+      throw new ScheduleStateError(
+        `${ruleId} applies to every workspace; add a custom rule for its channel to override it`
+      )
+    }
+    if (!rule || rule.workspaceId !== workspaceId) {
+      throw new ScheduleNotFoundError(`Scheduling rule ${ruleId}`)
+    }
+    return rule
+  }
+
+  /**
+   * Put a post back in the queue under a fresh attempt id, so the next send
+   * can be claimed
+   */
+  private requeue(post: ScheduledPost): void {
+    post.status = 'scheduled'
+    post.attemptId = randomUUID()
+  }
+
+  /**
+   * Change the stored schedules, stamping `updatedAt` on every schedule and
+   * post the change touched so calendar subscribers know which events to
+   * refresh. A schedule counts as changed when its own fields or its number
+   * of posts do.
+   */
+  private updateSchedules<R>(mutate: (data: ScheduleData) => R | Promise<R>): Promise<R> {
+    return this.store.update(async (data) => {
+      const allPosts = () => Object.values(data.schedules).flatMap((schedule) => schedule.posts)
+      const scheduleState = (schedule: CampaignSchedule) =>
+        JSON.stringify({ ...schedule, posts: schedule.posts.length })
+      const before = new Map(allPosts().map((post) => [post.id, JSON.stringify(post)]))
+      const schedulesBefore = new Map(
+        Object.values(data.schedules).map((schedule) => [
+          schedule.campaignId,
+          scheduleState(schedule),
+        ])
+      )
+      const result = await mutate(data)
+      const now = new Date().toISOString()
+      for (const schedule of Object.values(data.schedules)) {
+        if (schedulesBefore.get(schedule.campaignId) !== scheduleState(schedule)) {
+          schedule.updatedAt = now
+        }
+      }
+      for (const post of allPosts()) {
+        if (before.get(post.id) !== JSON.stringify(post)) post.updatedAt = now
+      }
+      return result
+    })
+  }
+
+  private async patchPost(
+    postId: string,
+    mutate: (post: ScheduledPost, schedule: CampaignSchedule) => void
+  ): Promise<ScheduledPost> {
+    return this.updateSchedules((data) => {
+      for (const schedule of Object.values(data.schedules)) {
+        const post = schedule.posts.find((p) => p.id === postId)
+        if (post) {
+          mutate(post, schedule)
+          return post
+        }
+      }
+      throw new ScheduleNotFoundError(`Post ${postId}`)
+    })
+  }
+
+  /**
+   * Change a post that hasn't been sent: scheduled, unplaced or waiting on a
+   * decision or an approval
+   */
+  private patchPending(
+    postId: string,
+    mutate: (post: ScheduledPost, schedule: CampaignSchedule) => void
+  ): Promise<ScheduledPost> {
+    return this.patchPost(postId, (post, schedule) => {
+      if (!['scheduled', 'unplaced', 'missed', 'awaiting_approval'].includes(post.status)) {
+        throw new ScheduleStateError(`Post ${postId} is ${post.status} and can't be changed`)
+      }
+      mutate(post, schedule)
+    })
+  }
+
+  /**
+   * One unplaced post per channel per posting window, cycling through the
+   * content. The allocator picks their slots.
+   */
+  private generateScheduledPosts(
+    input: CreateScheduleInput & { content: PostContentInput[] },
+    frequency: ScheduleFrequency,
+    ruleFor: (channel: string) => ResolvedRule | undefined
+  ): ScheduledPost[] {
+    const posts: ScheduledPost[] = []
+
+    for (const channel of input.channels) {
+      const rule = ruleFor(channel)
+      if (!rule || input.content.length === 0) continue
+
+      const windows = postingWindows(input.startDate, input.endDate, rule, frequency)
+      for (const [index, window] of windows.entries()) {
+        const postContent = input.content[index % input.content.length]
+
+        posts.push({
+          id: `${input.campaignId}_${channel}_${index}`,
+          campaignId: input.campaignId,
+          channelType: this.mapChannelToType(channel),
+          channelId: channel,
+          content: {
+            text: postContent.text || postContent.description || '',
+            title: postContent.title,
+            media: postContent.media || [],
+            hashtags: postContent.hashtags || [],
+            mentions: postContent.mentions || [],
+          },
+          scheduledFor: zonedTimeToUtc(
+            parseLocalDate(window.from, rule.timeZone),
+            0,
+            0,
+            rule.timeZone
+          ).toISOString(),
+          status: 'unplaced',
+          slotWindow: window,
+          assetId: postContent.assetId,
+          assetVersion: postContent.assetVersion,
+          retryCount: 0,
+          attemptId: randomUUID(),
+        })
+      }
+    }
+
+    return posts
+  }
+
+  /**
+   * Content entries with an asset take its text, whatever text they give, so
+   * only what reviewers approve is published. The asset must exist in the
+   * schedule's workspace; it doesn't have to be approved yet.
+   */
+  private async withAssetContent(
+    workspaceId: string,
+    content: ScheduleContentInput[]
+  ): Promise<PostContentInput[]> {
+    return Promise.all(
+      content.map(async (entry) => {
+        if (!entry.assetId) return entry
+        const asset = await assetStore.getAsset(entry.assetId).catch(() => undefined)
+        if (!asset || asset.workspaceId !== workspaceId) {
+          throw new ScheduleNotFoundError(`Asset ${entry.assetId}`)
+        }
+        return {
+          ...entry,
+          text: asset.content,
+          title: entry.title || asset.name,
+          assetVersion: asset.version,
+        }
+      })
+    )
+  }
+
+  /**
+   * Map channel string to channel type
+   */
+  private mapChannelToType(channel: string): ScheduledPost['channelType'] {
+    if (['twitter', 'facebook', 'instagram', 'linkedin', 'tiktok'].includes(channel)) {
+      return 'social_media'
+    }
+    if (channel === 'email') return 'email'
+    if (channel === 'blog') return 'blog'
+    if (channel === 'press') return 'press_release'
+    return 'ad_campaign'
+  }
+}
+
+export const campaignScheduler = new CampaignScheduler()
@@ -0,0 +1,201 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { z } from 'zod'
+import { isValidWorkspaceId } from './WorkspaceStore'
+
+/**
+ * Company DNA as the frontend publishes it and the MCP tools save it. Keep in
+ * sync with CompanyDNASchema in src/services/ai/modern-ai-orchestrator.ts,
+ * which the frontend validates with before publishing.
+ */
+export const CompanyDNASchema = z.object({
+  company: z.object({
+    name: z.string().min(1),
+    industry: z.string(),
+    size: z.enum(['startup', 'small', 'medium', 'enterprise']),
+    description: z.string(),
+    website: z.string().url().optional(),
+  }),
+  brandDNA: z.object({
+    valuePropositions: z.array(z.string()),
+    coreOfferings: z.array(z.string()),
+    targetAudience: z.object({
+      demographics: z.string(),
+      psychographics: z.string(),
+      painPoints: z.array(z.string()),
+    }),
+    brandVoice: z.object({
+      personality: z.array(z.string()),
+      tone: z.enum(['professional', 'friendly', 'authoritative', 'casual', 'technical']),
+      communicationStyle: z.string(),
+    }),
+    brandColors: z.object({
+      primary: z.string(),
+      secondary: z.string(),
+      accent: z.string(),
+    }),
+  }),
+  marketingInsights: z.object({
+    competitiveAdvantage: z.string(),
+    marketPosition: z.string(),
+    contentThemes: z.array(z.string()),
+    recommendedChannels: z.array(z.string()),
+  }),
+  metadata: z.object({
+    extractedAt: z.string(),
+    websiteAnalyzed: z.boolean(),
+    confidenceScore: z.number().min(0).max(1),
+    version: z.string(),
+  }),
+})
+
+export type CompanyDNA = z.infer<typeof CompanyDNASchema>
+
+/**
+ * The part of the unified Slotted context (src/schemas/slottedContext.ts)
+ * that the content and campaign generators read
+ */
+export interface MCPContext {
+  company: CompanyDNA['company']
+  brandDNA: Omit<CompanyDNA['brandDNA'], 'brandVoice'> & {
+    brandTone: { personality: string[]; communicationStyle: string }
+  }
+  marketingGoals: {
+    channels: { primary: string[]; secondary: string[]; experimental: string[] }
+  }
+  gtmStrategy: { competitiveAdvantage: string; marketPosition: string }
+  metadata: CompanyDNA['metadata']
+}
+
+/**
+ * Company DNA that doesn't match CompanyDNASchema; `issues` name each field
+ */
+export class InvalidContextError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid Company DNA: ${issues.join('; ')}`)
+    this.name = 'InvalidContextError'
+  }
+}
+
+const DEFAULT_CONTEXT_PATH = path.resolve(process.cwd(), 'data', 'company-dna.json')
+
+export class CompanyContextStore {
+  private context: CompanyDNA | null = null
+  private loaded = false
+  private filePath: string
+
+  constructor(filePath = process.env.MCP_CONTEXT_PATH || DEFAULT_CONTEXT_PATH) {
+    this.filePath = filePath
+  }
+
+  async getContext(): Promise<CompanyDNA | null> {
+    if (!this.loaded) {
+      await this.load()
+    }
+    return this.context
+  }
+
+  /**
+   * Validate and store Company DNA, returning it as saved. Fields the schema
+   * doesn't know are dropped.
+   */
+  async setContext(input: unknown): Promise<CompanyDNA> {
+    const parsed = CompanyDNASchema.safeParse(input)
+    if (!parsed.success) {
+      throw new InvalidContextError(
+        parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      )
+    }
+
+    const context = parsed.data
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.writeFile(this.filePath, JSON.stringify(context, null, 2), 'utf8')
+    this.context = context
+    this.loaded = true
+    return context
+  }
+
+  /**
+   * Map Company DNA onto the mcpContext shape the content and campaign
+   * generators already understand.
+   */
+  toMCPContext(context: CompanyDNA): MCPContext {
+    return {
+      company: context.company,
+      brandDNA: {
+        valuePropositions: context.brandDNA.valuePropositions,
+        coreOfferings: context.brandDNA.coreOfferings,
+        targetAudience: context.brandDNA.targetAudience,
+        brandTone: {
+          personality: context.brandDNA.brandVoice.personality,
+          communicationStyle: context.brandDNA.brandVoice.communicationStyle,
+        },
+        brandColors: context.brandDNA.brandColors,
+      },
+      marketingGoals: {
+        channels: {
+          primary: context.marketingInsights.recommendedChannels,
+          secondary: [],
+          experimental: [],
+        },
+      },
+      gtmStrategy: {
+        competitiveAdvantage: context.marketingInsights.competitiveAdvantage,
+        marketPosition: context.marketingInsights.marketPosition,
+      },
+      metadata: context.metadata,
+    }
+  }
+
+  /**
+   * Forget the context and delete its file
+   */
+  async clear(): Promise<void> {
+    this.context = null
+    this.loaded = true
+    await fs.rm(this.filePath, { force: true })
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8')
+      this.context = JSON.parse(raw)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load company context from ${this.filePath}:`, error)
+      }
+      this.context = null
+    }
+    this.loaded = true
+  }
+}
+
+// Single-brand store, only for the stdio server run without MCP_WORKSPACE_ID
+export const companyContextStore = new CompanyContextStore()
+
+const workspaceStores = new Map<string, CompanyContextStore>()
+
+/**
+ * Company DNA store for one workspace (brand)
+ */
+export function getCompanyContextStore(workspaceId: string): CompanyContextStore {
+  if (!isValidWorkspaceId(workspaceId)) {
+    throw new Error(`Invalid workspace id: ${workspaceId}`)
+  }
+
+  let store = workspaceStores.get(workspaceId)
+  if (!store) {
+    const baseDir = path.dirname(process.env.MCP_CONTEXT_PATH || DEFAULT_CONTEXT_PATH)
+    store = new CompanyContextStore(path.join(baseDir, 'workspaces', `${workspaceId}.json`))
+    workspaceStores.set(workspaceId, store)
+  }
+  return store
+}
+
+/**
+ * Delete a deleted workspace's Company DNA
+ */
+export async function removeCompanyContextStore(workspaceId: string): Promise<void> {
+  await getCompanyContextStore(workspaceId).clear()
+  workspaceStores.delete(workspaceId)
+}
@@ -1,67 +1,109 @@
 // Using built-in fetch (Node 18+)
-
-export interface AIConfig {
-  provider: 'openai' | 'anthropic'
-  model: string
-  apiKey: string
-  temperature?: number
-  maxTokens?: number
+import { z } from 'zod'
+import type { AIConfig } from './AIProvider'
+import { entitlements } from './Entitlements'
+import { metering } from './Metering'
+import { generateStructured } from './StructuredOutput'
+import { usageLedger } from './UsageLedger'
+
+export type { AIConfig }
+
+export const BlogContentSchema = z.object({
+  title: z.string().min(1),
+  outline: z.array(z.string()),
+  content: z.string().min(1),
+  wordCount: z.number(),
+  readTime: z.number(),
+  seoKeywords: z.array(z.string()),
+  metaDescription: z.string(),
+})
+
+export type BlogContent = z.infer<typeof BlogContentSchema>
+
+export const VideoScriptSchema = z.object({
+  title: z.string().min(1),
+  script: z.string().min(1),
+  duration: z.number().positive(),
+  scenes: z.array(
+    z.object({
+      timeStart: z.number().nonnegative(),
+      timeEnd: z.number().nonnegative(),
+      description: z.string(),
+      visualCue: z.string(),
+      audio: z.string(),
+    })
+  ),
+  callToAction: z.string(),
+})
+
+export type VideoScript = z.infer<typeof VideoScriptSchema>
+
+export const SocialPostSchema = z.object({
+  platform: z.string(),
+  post: z.string().min(1),
+  hashtags: z.array(z.string()),
+  timing: z.string(),
+  engagement: z.array(z.string()),
+  visualSuggestions: z.array(z.string()),
+})
+
+export type SocialPost = z.infer<typeof SocialPostSchema>
+
+export const EmailCampaignSchema = z.object({
+  subject: z.string().min(1),
+  previewText: z.string(),
+  content: z.string().min(1),
+  plainText: z.string(),
+  callToAction: z.string(),
+  segmentation: z.array(z.string()),
+})
+
+export type EmailCampaign = z.infer<typeof EmailCampaignSchema>
+
+// Word count and read time are measured from the content rather than trusted
+const BlogResponseSchema = BlogContentSchema.omit({ wordCount: true, readTime: true })
+// The platform is known from the request
+const SocialResponseSchema = SocialPostSchema.omit({ platform: true })
+
+/**
+ * Receive generated text as it arrives instead of waiting for the full
+ * response. Aborting the signal stops generation.
+ */
+export interface StreamOptions {
+  onToken: (text: string) => void
+  signal?: AbortSignal
 }
 
-export interface BlogContent {
-  title: string
-  outline: string[]
-  content: string
-  wordCount: number
-  readTime: number
-  seoKeywords: string[]
-  metaDescription: string
-}
+export const CONTENT_PACKAGE_TYPES = ['blog', 'video', 'social', 'email', 'images'] as const
 
-export interface VideoScript {
-  title: string
-  script: string
-  duration: number
-  scenes: Array<{
-    timeStart: number
-    timeEnd: number
-    description: string
-    visualCue: string
-    audio: string
-  }>
-  callToAction: string
-}
+export type ContentPackageType = (typeof CONTENT_PACKAGE_TYPES)[number]
 
-export interface SocialPost {
-  platform: string
-  post: string
-  hashtags: string[]
-  timing: string
-  engagement: string[]
-  visualSuggestions: string[]
-}
+const DEFAULT_PACKAGE_TYPES = ['blog', 'video', 'social', 'email']
 
-export interface EmailCampaign {
-  subject: string
-  previewText: string
-  content: string
-  plainText: string
-  callToAction: string
-  segmentation: string[]
+export interface ContentPackageOptions {
+  // Content already generated by an earlier attempt, keyed by content type
+  checkpoints?: Record<string, unknown>
+  onStepStarted?: (type: ContentPackageType) => void | Promise<void>
+  onContentGenerated?: (type: ContentPackageType, content: unknown) => void | Promise<void>
+  signal?: AbortSignal
 }
 
 export class ContentOrchestrator {
   private aiConfig?: AIConfig
+  // Workspace that AI usage is recorded and budgeted against
+  private workspaceId: string
 
-  constructor(aiConfig?: AIConfig) {
+  constructor(aiConfig: AIConfig | undefined, workspaceId: string) {
     this.aiConfig = aiConfig
+    this.workspaceId = workspaceId
   }
 
   async generateBlog(
     mcpContext: any,
     topic: string,
     length = 2000,
-    customInstructions?: string
+    customInstructions?: string,
+    stream?: StreamOptions
   ): Promise<BlogContent> {
     const prompt = `
 COMPANY CONTEXT:
@@ -83,17 +125,20 @@ REQUIREMENTS:
 
 ${customInstructions ? `Additional instructions: ${customInstructions}` : ''}
 
-Return as JSON with title, outline (array), content (full markdown), wordCount, readTime, seoKeywords (array), metaDescription
+Return as JSON with title, outline (array), content (full markdown), seoKeywords (array), metaDescription
 `
 
-    const response = await this.callAI(prompt)
-    return this.parseBlogResponse(response, length)
+    const blog = await this.callAI(prompt, 'blog', BlogResponseSchema, stream)
+    await metering.record({ workspaceId: this.workspaceId, kind: 'blog_post' })
+    const wordCount = this.countWords(blog.content)
+    return { ...blog, wordCount, readTime: Math.ceil(wordCount / 200) }
   }
 
   async generateVideoScript(
     mcpContext: any,
     topic: string,
-    blogContent?: string
+    blogContent?: string,
+    stream?: StreamOptions
   ): Promise<VideoScript> {
     const sourceContent = blogContent ? `Based on this blog content:\n${blogContent}\n\n` : ''
 
@@ -116,8 +161,7 @@ REQUIREMENTS:
 Return as JSON with title, script (full text), duration (seconds), scenes array with timeStart/timeEnd/description/visualCue/audio, callToAction
 `
 
-    const response = await this.callAI(prompt)
-    return this.parseVideoResponse(response)
+    return this.callAI(prompt, 'video-script', VideoScriptSchema, stream)
   }
 
   async generateSocialPosts(
@@ -142,11 +186,11 @@ BRAND REQUIREMENTS:
 - Personality: ${mcpContext.brandDNA?.brandTone?.personality?.join(', ') || 'professional, approachable'}
 - Target audience: ${mcpContext.brandDNA?.targetAudience?.demographics || 'business professionals'}
 
-Return as JSON with post (optimized text), hashtags (array), timing (best time to post), engagement (suggested engagement tactics), visualSuggestions (array)
+Return as JSON with post (optimized text), hashtags (array), timing (best time to post), engagement (array of suggested engagement tactics), visualSuggestions (array)
 `
 
-      const response = await this.callAI(prompt)
-      posts[platform] = this.parseSocialResponse(response, platform)
+      const post = await this.callAI(prompt, 'social', SocialResponseSchema)
+      posts[platform] = { platform, ...post }
     }
 
     return posts
@@ -155,7 +199,8 @@ Return as JSON with post (optimized text), hashtags (array), timing (best time t
   async generateEmail(
     mcpContext: any,
     topic: string,
-    type: 'newsletter' | 'promotion' | 'announcement' = 'newsletter'
+    type: 'newsletter' | 'promotion' | 'announcement' = 'newsletter',
+    stream?: StreamOptions
   ): Promise<EmailCampaign> {
     const prompt = `
 COMPANY CONTEXT:
@@ -176,8 +221,7 @@ REQUIREMENTS:
 Return as JSON with subject, previewText, content (HTML), plainText, callToAction, segmentation (array of audience segments)
 `
 
-    const response = await this.callAI(prompt)
-    return this.parseEmailResponse(response)
+    return this.callAI(prompt, 'email', EmailCampaignSchema, stream)
   }
 
   async generateVoice(
@@ -266,10 +310,21 @@ Return as JSON with subject, previewText, content (HTML), plainText, callToActio
     }
   }
 
+  /**
+   * Content types of a package that will actually be generated, in order.
+   * Video scripts are based on the blog, so they need it in the package.
+   */
+  static packageSteps(contentTypes: string[] = DEFAULT_PACKAGE_TYPES): ContentPackageType[] {
+    return CONTENT_PACKAGE_TYPES.filter(
+      (type) => contentTypes.includes(type) && (type !== 'video' || contentTypes.includes('blog'))
+    )
+  }
+
   async generateContentPackage(
     mcpContext: any,
     topic: string,
-    contentTypes: string[] = ['blog', 'video', 'social', 'email']
+    contentTypes: string[] = DEFAULT_PACKAGE_TYPES,
+    options: ContentPackageOptions = {}
   ): Promise<any> {
     const contentPackage: any = {
       topic,
@@ -277,33 +332,51 @@ Return as JSON with subject, previewText, content (HTML), plainText, callToActio
       content: {},
     }
 
-    // Generate all content types in sequence
-    if (contentTypes.includes('blog')) {
-      contentPackage.content.blog = await this.generateBlog(mcpContext, topic)
-    }
+    // Generate all content types in sequence, reusing any already generated
+    for (const type of ContentOrchestrator.packageSteps(contentTypes)) {
+      if (options.signal?.aborted) {
+        throw new Error('Content package generation cancelled')
+      }
+
+      const checkpoint = options.checkpoints?.[type]
+      if (checkpoint !== undefined) {
+        contentPackage.content[type] = checkpoint
+        continue
+      }
 
-    if (contentTypes.includes('video') && contentPackage.content.blog) {
-      contentPackage.content.video = await this.generateVideoScript(
+      await options.onStepStarted?.(type)
+      contentPackage.content[type] = await this.generatePackageContent(
+        type,
         mcpContext,
         topic,
-        contentPackage.content.blog.content
+        contentPackage.content
       )
+      await options.onContentGenerated?.(type, contentPackage.content[type])
     }
 
-    if (contentTypes.includes('social')) {
-      const platforms = mcpContext.marketingGoals?.channels?.primary || ['linkedin']
-      contentPackage.content.social = await this.generateSocialPosts(mcpContext, topic, platforms)
-    }
-
-    if (contentTypes.includes('email')) {
-      contentPackage.content.email = await this.generateEmail(mcpContext, topic)
-    }
+    return contentPackage
+  }
 
-    if (contentTypes.includes('images')) {
-      contentPackage.content.images = await this.generateImages(mcpContext, topic)
+  private async generatePackageContent(
+    type: ContentPackageType,
+    mcpContext: any,
+    topic: string,
+    generated: Record<string, any>
+  ): Promise<unknown> {
+    switch (type) {
+      case 'blog':
+        return this.generateBlog(mcpContext, topic)
+      case 'video':
+        return this.generateVideoScript(mcpContext, topic, generated.blog?.content)
+      case 'social': {
+        const platforms = mcpContext.marketingGoals?.channels?.primary || ['linkedin']
+        return this.generateSocialPosts(mcpContext, topic, platforms)
+      }
+      case 'email':
+        return this.generateEmail(mcpContext, topic)
+      case 'images':
+        return this.generateImages(mcpContext, topic)
     }
-
-    return contentPackage
   }
 
   private formatMCPContext(mcpContext: any): string {
@@ -381,123 +454,28 @@ Primary Channels: ${mcpContext.marketingGoals?.channels?.primary?.join(', ') ||
     }
   }
 
-  private async callAI(prompt: string): Promise<string> {
-    if (!this.aiConfig) {
+  /**
+   * Generate JSON output validated against `schema`, asking the model to
+   * repair invalid responses
+   */
+  private async callAI<T>(
+    prompt: string,
+    task: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    stream?: StreamOptions
+  ): Promise<T> {
+    const provider = await entitlements.resolveProviders(this.workspaceId, this.aiConfig)
+    if (!provider) {
       throw new Error('AI configuration not provided')
     }
 
-    if (this.aiConfig.provider === 'openai') {
-      return this.callOpenAI(prompt)
-    } else if (this.aiConfig.provider === 'anthropic') {
-      return this.callAnthropic(prompt)
-    } else {
-      throw new Error(`Unsupported AI provider: ${this.aiConfig.provider}`)
-    }
-  }
-
-  private async callOpenAI(prompt: string): Promise<string> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${this.aiConfig!.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: this.aiConfig!.model,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: this.aiConfig!.temperature || 0.7,
-        max_tokens: this.aiConfig!.maxTokens || 4000,
-      }),
+    return generateStructured(usageLedger.meter(provider, { workspaceId: this.workspaceId }), {
+      prompt,
+      task,
+      schema,
+      onToken: stream?.onToken,
+      signal: stream?.signal,
     })
-
-    const data = (await response.json()) as any
-    return data.choices[0].message.content
-  }
-
-  private async callAnthropic(prompt: string): Promise<string> {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': this.aiConfig!.apiKey,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: this.aiConfig!.model,
-        max_tokens: this.aiConfig!.maxTokens || 4000,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: this.aiConfig!.temperature || 0.7,
-      }),
-    })
-
-    const data = (await response.json()) as any
-    return data.content[0].text
-  }
-
-  private parseBlogResponse(response: string, targetLength: number): BlogContent {
-    try {
-      const parsed = JSON.parse(response)
-      return {
-        ...parsed,
-        wordCount: parsed.wordCount || this.countWords(parsed.content || ''),
-        readTime: Math.ceil((parsed.wordCount || targetLength) / 200),
-      }
-    } catch (error) {
-      return {
-        title: 'Generated Blog Post',
-        outline: [],
-        content: response,
-        wordCount: this.countWords(response),
-        readTime: Math.ceil(this.countWords(response) / 200),
-        seoKeywords: [],
-        metaDescription: '',
-      }
-    }
-  }
-
-  private parseVideoResponse(response: string): VideoScript {
-    try {
-      return JSON.parse(response)
-    } catch (error) {
-      return {
-        title: 'Generated Video Script',
-        script: response,
-        duration: 180,
-        scenes: [],
-        callToAction: 'Learn more about our services',
-      }
-    }
-  }
-
-  private parseSocialResponse(response: string, platform: string): SocialPost {
-    try {
-      const parsed = JSON.parse(response)
-      return { platform, ...parsed }
-    } catch (error) {
-      return {
-        platform,
-        post: response,
-        hashtags: [],
-        timing: '9:00 AM',
-        engagement: [],
-        visualSuggestions: [],
-      }
-    }
-  }
-
-  private parseEmailResponse(response: string): EmailCampaign {
-    try {
-      return JSON.parse(response)
-    } catch (error) {
-      return {
-        subject: 'Newsletter Update',
-        previewText: '',
-        content: response,
-        plainText: response.replace(/<[^>]*>/g, ''),
-        callToAction: 'Learn More',
-        segmentation: [],
-      }
-    }
   }
 
   private countWords(text: string): number {
@@ -0,0 +1,67 @@
+import { type AIConfig, ContentOrchestrator } from './ContentOrchestrator'
+import type { JobHandler } from './JobQueue'
+import { resolveAIConfigFromEnv } from './SlottedMCPServer'
+
+export const CONTENT_PACKAGE_JOB = 'content-package'
+
+export interface ContentPackageJobInput {
+  mcpContext: any
+  topic: string
+  contentTypes?: string[]
+  // Provider settings without the API key, which is kept in memory only
+  aiConfig?: Omit<AIConfig, 'apiKey'>
+}
+
+/**
+ * Split a request's AI config into the part that is safe to persist with the
+ * job and the API key that isn't
+ */
+export function splitAIConfig(aiConfig?: AIConfig): {
+  aiConfig?: Omit<AIConfig, 'apiKey'>
+  apiKey?: string
+} {
+  if (!aiConfig) return {}
+  const { apiKey, ...settings } = aiConfig
+  return { aiConfig: settings, apiKey }
+}
+
+/**
+ * Generate a content package one content type at a time, checkpointing each
+ * so a retry or restart only regenerates what is missing
+ */
+export const runContentPackageJob: JobHandler = async ({
+  job,
+  secrets,
+  signal,
+  checkpoint,
+  setProgress,
+}) => {
+  const input = job.input as ContentPackageJobInput
+  const apiKey = secrets as string | undefined
+
+  // After a restart the request's key is gone; fall back to the server's keys
+  const aiConfig =
+    input.aiConfig && apiKey ? { ...input.aiConfig, apiKey } : resolveAIConfigFromEnv()
+  if (!aiConfig) {
+    throw new Error('No AI provider configured. Send aiConfig or set an API key on the backend.')
+  }
+
+  const steps = ContentOrchestrator.packageSteps(input.contentTypes)
+  let completed = steps.filter((type) => job.checkpoints[type] !== undefined).length
+  await setProgress({ completed, total: steps.length })
+
+  if (!job.workspaceId) {
+    throw new Error('Content package jobs need a workspace to charge')
+  }
+  const orchestrator = new ContentOrchestrator(aiConfig, job.workspaceId)
+  return orchestrator.generateContentPackage(input.mcpContext, input.topic, input.contentTypes, {
+    checkpoints: job.checkpoints,
+    signal,
+    onStepStarted: (type) => setProgress({ step: type }),
+    onContentGenerated: async (type, content) => {
+      completed += 1
+      await checkpoint(type, content)
+      await setProgress({ completed, step: undefined })
+    },
+  })
+}
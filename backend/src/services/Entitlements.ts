@@ -0,0 +1,238 @@
+import path from 'node:path'
+import {
+  type AIConfig,
+  type AIProvider,
+  createProviderChain,
+  resolveProviderConfigs,
+} from './AIProvider'
+import { type BillingService, type Entitlement, billingService } from './BillingService'
+import { JsonFileStore } from './JsonFileStore'
+import { PLANS, type Plan } from './Plans'
+import { usageMonth } from './UsageLedger'
+
+export type EntitlementCode =
+  | 'no_plan'
+  | 'quota_exhausted'
+  | 'website_analysis'
+  | 'model_not_included'
+  | 'export_format_not_included'
+
+export interface QuotaUsage {
+  // YYYY-MM (UTC); counts start over each month
+  month: string
+  analysesUsed: number
+  // Undefined when the plan doesn't cap analyses
+  analysesLimit?: number
+  remaining?: number
+  resetsAt: string
+}
+
+export interface EntitlementStatus extends Entitlement {
+  // False while billing isn't configured: nothing is limited
+  enforced: boolean
+  usage: QuotaUsage
+}
+
+interface QuotaData {
+  // workspaceId → month → analyses used
+  analyses: Record<string, Record<string, number>>
+}
+
+/**
+ * Thrown when the workspace's plan doesn't cover an action. `upgradeTo` is
+ * the cheapest plan that would.
+ */
+export class EntitlementError extends Error {
+  constructor(
+    message: string,
+    public code: EntitlementCode,
+    public upgradeTo?: Pick<Plan, 'id' | 'name' | 'price'>
+  ) {
+    super(message)
+    this.name = 'EntitlementError'
+  }
+}
+
+const DEFAULT_QUOTA_PATH = path.resolve(process.cwd(), 'data', 'quotas.json')
+
+// Months of counts kept per workspace
+const MONTHS_KEPT = 12
+
+const nextMonthStart = (month: string): string => {
+  const [year, monthIndex] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, monthIndex, 1)).toISOString()
+}
+
+/**
+ * Plan models are families ("claude-3-5-sonnet"). A dated model id
+ * ("claude-3-5-sonnet-20241022") belongs to its family; a variant such as
+ * gpt-4o-mini doesn't.
+ */
+export const includesModel = (models: string[], model: string): boolean =>
+  models.some(
+    (family) =>
+      model === family || (model.startsWith(family) && /^-\d/.test(model.slice(family.length)))
+  )
+
+const cheapestPlan = (allows: (plan: Plan) => boolean) => {
+  const plan = PLANS.filter(allows).sort((a, b) => a.price - b.price)[0]
+  return plan && { id: plan.id, name: plan.name, price: plan.price }
+}
+
+/**
+ * What each workspace's plan allows, and how much of its monthly analysis
+ * quota is left. Plans come from billing; without billing configured every
+ * workspace is unrestricted.
+ */
+export class EntitlementService {
+  private store: JsonFileStore<QuotaData>
+
+  constructor(
+    filePath = process.env.QUOTA_DATA_PATH || DEFAULT_QUOTA_PATH,
+    private billing: BillingService = billingService
+  ) {
+    this.store = new JsonFileStore<QuotaData>(filePath, () => ({ analyses: {} }))
+  }
+
+  async getStatus(workspaceId: string, month = usageMonth()): Promise<EntitlementStatus> {
+    const [entitlement, data] = await Promise.all([
+      this.billing.getEntitlement(workspaceId),
+      this.store.read(),
+    ])
+    const analysesUsed = data.analyses[workspaceId]?.[month] ?? 0
+    const analysesLimit = entitlement.limitations?.analysesPerMonth
+    return {
+      ...entitlement,
+      enforced: this.billing.isConfigured(),
+      usage: {
+        month,
+        analysesUsed,
+        analysesLimit,
+        remaining:
+          analysesLimit === undefined ? undefined : Math.max(0, analysesLimit - analysesUsed),
+        resetsAt: nextMonthStart(month),
+      },
+    }
+  }
+
+  /**
+   * Use one of this month's analyses (Company DNA, a marketing calendar or a
+   * blog post). Throws EntitlementError without a plan or once the quota is
+   * spent.
+   */
+  async consumeAnalysis(workspaceId: string): Promise<EntitlementStatus> {
+    const status = await this.getStatus(workspaceId)
+    if (!status.enforced) return status
+    this.assertActive(status)
+
+    const month = status.usage.month
+    const limit = status.usage.analysesLimit
+    await this.store.update((data) => {
+      const months = data.analyses[workspaceId] || {}
+      const used = months[month] ?? 0
+      if (limit !== undefined && used >= limit) {
+        throw new EntitlementError(
+          `This month's analysis quota (${limit}) is used up; it resets ${status.usage.resetsAt.slice(0, 10)}`,
+          'quota_exhausted',
+          cheapestPlan(
+            (plan) => (plan.limitations.analysesPerMonth ?? Number.POSITIVE_INFINITY) > limit
+          )
+        )
+      }
+      months[month] = used + 1
+      data.analyses[workspaceId] = Object.fromEntries(
+        Object.entries(months)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .slice(-MONTHS_KEPT)
+      )
+    })
+    return this.getStatus(workspaceId, month)
+  }
+
+  async assertWebsiteAnalysis(workspaceId: string): Promise<void> {
+    const status = await this.getStatus(workspaceId)
+    if (!status.enforced) return
+    this.assertActive(status)
+    if (!status.limitations?.websiteAnalysis) {
+      throw new EntitlementError(
+        'Website analysis is not included in this plan',
+        'website_analysis',
+        cheapestPlan((plan) => plan.limitations.websiteAnalysis)
+      )
+    }
+  }
+
+  async assertModel(workspaceId: string, model: string): Promise<void> {
+    const status = await this.getStatus(workspaceId)
+    if (!status.enforced) return
+    this.assertActive(status)
+    if (!includesModel(status.limitations?.aiModels || [], model)) {
+      throw new EntitlementError(
+        `${model} is not included in this plan`,
+        'model_not_included',
+        cheapestPlan((plan) => includesModel(plan.limitations.aiModels, model))
+      )
+    }
+  }
+
+  /**
+   * The provider a generation for the workspace runs on: the request's model
+   * and the server's fallbacks, keeping only those the plan includes (the
+   * offline mock always is). Throws EntitlementError when none of the
+   * configured models is included; undefined when none is configured.
+   */
+  async resolveProviders(
+    workspaceId: string,
+    aiConfig?: AIConfig
+  ): Promise<AIProvider | undefined> {
+    const configs = resolveProviderConfigs(aiConfig)
+    const status = await this.getStatus(workspaceId)
+    if (!status.enforced || configs.length === 0) return createProviderChain(configs)
+    this.assertActive(status)
+
+    const models = status.limitations?.aiModels || []
+    const included = configs.filter(
+      (config) => config.provider === 'mock' || includesModel(models, config.model)
+    )
+    if (included.length === 0) {
+      const { model } = configs[0]
+      throw new EntitlementError(
+        `${model} is not included in this plan`,
+        'model_not_included',
+        cheapestPlan((plan) => includesModel(plan.limitations.aiModels, model))
+      )
+    }
+    return createProviderChain(included)
+  }
+
+  async assertExportFormat(workspaceId: string, format: string): Promise<void> {
+    const status = await this.getStatus(workspaceId)
+    if (!status.enforced) return
+    this.assertActive(status)
+    if (!status.limitations?.exportFormats.includes(format)) {
+      throw new EntitlementError(
+        `${format.toUpperCase()} export is not included in this plan`,
+        'export_format_not_included',
+        cheapestPlan((plan) => plan.limitations.exportFormats.includes(format))
+      )
+    }
+  }
+
+  async removeWorkspace(workspaceId: string): Promise<void> {
+    await this.store.update((data) => {
+      delete data.analyses[workspaceId]
+    })
+  }
+
+  private assertActive(status: EntitlementStatus): void {
+    if (!status.active) {
+      throw new EntitlementError(
+        'This workspace needs an active plan',
+        'no_plan',
+        cheapestPlan(() => true)
+      )
+    }
+  }
+}
+
+export const entitlements = new EntitlementService()
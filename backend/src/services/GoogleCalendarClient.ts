@@ -0,0 +1,235 @@
+import { type calendar_v3, google } from 'googleapis'
+
+/**
+ * The parts of a Google Calendar event the sync reads and writes. All-day
+ * events carry `date`; timed events `dateTime`. See
+ * https://developers.google.com/calendar/api/v3/reference/events.
+ */
+export interface CalendarEvent {
+  id?: string
+  status?: 'confirmed' | 'tentative' | 'cancelled'
+  summary?: string
+  description?: string
+  start?: { date?: string; dateTime?: string }
+  // Exclusive: an all-day event on March 3 ends on March 4
+  end?: { date?: string; dateTime?: string }
+  colorId?: string
+  // RFC 3339 time of the last change, on either side
+  updated?: string
+  extendedProperties?: { private?: Record<string, string> }
+}
+
+export interface EventPage {
+  items: CalendarEvent[]
+  nextPageToken?: string
+  // Only on the last page
+  nextSyncToken?: string
+}
+
+/**
+ * What the calendar sync needs from Google Calendar, so it can run against
+ * a fake in development
+ */
+export interface CalendarApi {
+  getCalendar(calendarId: string): Promise<{ id: string; summary: string; timeZone?: string }>
+  // With a syncToken, only events changed since it was issued, including
+  // deleted ones as status 'cancelled'
+  listEvents(
+    calendarId: string,
+    options: { syncToken?: string; pageToken?: string }
+  ): Promise<EventPage>
+  insertEvent(calendarId: string, event: CalendarEvent): Promise<CalendarEvent>
+  patchEvent(calendarId: string, eventId: string, event: CalendarEvent): Promise<CalendarEvent>
+  deleteEvent(calendarId: string, eventId: string): Promise<void>
+}
+
+export class GoogleCalendarError extends Error {
+  constructor(
+    message: string,
+    public status?: number
+  ) {
+    super(`Google Calendar: ${message}`)
+    this.name = 'GoogleCalendarError'
+  }
+}
+
+/**
+ * Google no longer accepts the sync token (410 Gone); list everything again
+ * to get a new one
+ */
+export class SyncTokenExpiredError extends GoogleCalendarError {
+  constructor() {
+    super('sync token expired', 410)
+    this.name = 'SyncTokenExpiredError'
+  }
+}
+
+export const CALENDAR_SCOPES = ['https://www.googleapis.com/auth/calendar']
+
+type GoogleAuthClient = NonNullable<calendar_v3.Options['auth']>
+
+const statusOf = (error: unknown): number | undefined => {
+  const { code, status, response } = error as {
+    code?: unknown
+    status?: unknown
+    response?: { status?: number }
+  }
+  if (typeof code === 'number') return code
+  if (typeof status === 'number') return status
+  return response?.status
+}
+
+const asCalendarError = (error: unknown): GoogleCalendarError => {
+  const status = statusOf(error)
+  if (status === 410) return new SyncTokenExpiredError()
+  return new GoogleCalendarError(error instanceof Error ? error.message : String(error), status)
+}
+
+/**
+ * Google Calendar through googleapis, signed in as a service account or as
+ * the user who granted OAuth access
+ */
+export class GoogleCalendarClient implements CalendarApi {
+  private calendar: calendar_v3.Calendar
+
+  constructor(auth: GoogleAuthClient) {
+    this.calendar = google.calendar({ version: 'v3', auth })
+  }
+
+  async getCalendar(calendarId: string) {
+    const { data } = await this.call(() => this.calendar.calendars.get({ calendarId }))
+    return {
+      id: data.id || calendarId,
+      summary: data.summary || calendarId,
+      timeZone: data.timeZone || undefined,
+    }
+  }
+
+  async listEvents(calendarId: string, options: { syncToken?: string; pageToken?: string }) {
+    const { data } = await this.call(() =>
+      this.calendar.events.list({
+        calendarId,
+        syncToken: options.syncToken,
+        pageToken: options.pageToken,
+        // Deleted events are how removals come through
+        showDeleted: true,
+        maxResults: 250,
+      })
+    )
+    return {
+      items: (data.items || []) as CalendarEvent[],
+      nextPageToken: data.nextPageToken || undefined,
+      nextSyncToken: data.nextSyncToken || undefined,
+    }
+  }
+
+  async insertEvent(calendarId: string, event: CalendarEvent) {
+    const { data } = await this.call(() =>
+      this.calendar.events.insert({ calendarId, requestBody: event as calendar_v3.Schema$Event })
+    )
+    return data as CalendarEvent
+  }
+
+  async patchEvent(calendarId: string, eventId: string, event: CalendarEvent) {
+    const { data } = await this.call(() =>
+      this.calendar.events.patch({
+        calendarId,
+        eventId,
+        requestBody: event as calendar_v3.Schema$Event,
+      })
+    )
+    return data as CalendarEvent
+  }
+
+  async deleteEvent(calendarId: string, eventId: string) {
+    try {
+      await this.call(() => this.calendar.events.delete({ calendarId, eventId }))
+    } catch (error) {
+      // Already gone is what we wanted
+      if (error instanceof GoogleCalendarError && (error.status === 404 || error.status === 410)) {
+        return
+      }
+      throw error
+    }
+  }
+
+  private async call<R>(request: () => Promise<R>): Promise<R> {
+    try {
+      return await request()
+    } catch (error) {
+      throw asCalendarError(error)
+    }
+  }
+}
+
+export interface OAuthConfig {
+  clientId: string
+  clientSecret: string
+  redirectUri: string
+}
+
+/**
+ * OAuth client settings from GOOGLE_OAUTH_CLIENT_ID, GOOGLE_OAUTH_CLIENT_SECRET
+ * and GOOGLE_OAUTH_REDIRECT_URI, or undefined when they aren't all set
+ */
+export function resolveOAuthConfig(): OAuthConfig | undefined {
+  const { GOOGLE_OAUTH_CLIENT_ID, GOOGLE_OAUTH_CLIENT_SECRET, GOOGLE_OAUTH_REDIRECT_URI } =
+    process.env
+  return GOOGLE_OAUTH_CLIENT_ID && GOOGLE_OAUTH_CLIENT_SECRET && GOOGLE_OAUTH_REDIRECT_URI
+    ? {
+        clientId: GOOGLE_OAUTH_CLIENT_ID,
+        clientSecret: GOOGLE_OAUTH_CLIENT_SECRET,
+        redirectUri: GOOGLE_OAUTH_REDIRECT_URI,
+      }
+    : undefined
+}
+
+const oauthClient = (config: OAuthConfig) =>
+  new google.auth.OAuth2(config.clientId, config.clientSecret, config.redirectUri)
+
+/**
+ * Google's consent page for calendar access. `state` comes back on the
+ * redirect to tie it to the request.
+ */
+export const consentUrl = (config: OAuthConfig, state: string): string =>
+  oauthClient(config).generateAuthUrl({
+    // A refresh token, so syncs keep working after the user leaves
+    access_type: 'offline',
+    prompt: 'consent',
+    scope: CALENDAR_SCOPES,
+    state,
+  })
+
+/**
+ * Exchange the code from the consent redirect for a refresh token
+ */
+export async function exchangeCode(config: OAuthConfig, code: string): Promise<string> {
+  try {
+    const { tokens } = await oauthClient(config).getToken(code)
+    if (!tokens.refresh_token) {
+      throw new GoogleCalendarError('Google returned no refresh token; connect again')
+    }
+    return tokens.refresh_token
+  } catch (error) {
+    throw error instanceof GoogleCalendarError ? error : asCalendarError(error)
+  }
+}
+
+/**
+ * A calendar client signed in with a stored OAuth refresh token
+ */
+export function oauthCalendar(config: OAuthConfig, refreshToken: string): CalendarApi {
+  const client = oauthClient(config)
+  client.setCredentials({ refresh_token: refreshToken })
+  return new GoogleCalendarClient(client)
+}
+
+/**
+ * A calendar client signed in as the service account in
+ * GOOGLE_APPLICATION_CREDENTIALS, or undefined when it isn't set. The
+ * calendar has to be shared with the service account's email.
+ */
+export function serviceAccountCalendar(): CalendarApi | undefined {
+  if (!process.env.GOOGLE_APPLICATION_CREDENTIALS) return undefined
+  return new GoogleCalendarClient(new google.auth.GoogleAuth({ scopes: CALENDAR_SCOPES }))
+}
@@ -43,12 +43,17 @@ export class GoogleDriveService {
     }
   }
 
-  async createFolder(name: string, parentId?: string): Promise<DriveFolder> {
+  async createFolder(
+    name: string,
+    parentId?: string,
+    appProperties?: Record<string, string>
+  ): Promise<DriveFolder> {
     try {
       const fileMetadata = {
         name,
         mimeType: 'application/vnd.google-apps.folder',
         parents: parentId ? [parentId] : undefined,
+        appProperties,
       }
 
       const response = await this.executeWithRetry(async () => {
@@ -72,9 +77,42 @@ export class GoogleDriveService {
     }
   }
 
-  async createCompanyRootFolder(companyName: string): Promise<DriveFolder> {
+  /**
+   * Get or create the root folder for a brand. With a workspace id the folder
+   * is tagged and reused, so each workspace keeps exactly one root folder even
+   * when two clients share a company name.
+   */
+  async createCompanyRootFolder(companyName: string, workspaceId?: string): Promise<DriveFolder> {
     const sanitizedName = `${companyName} - Slotted Marketing Hub`
-    return this.createFolder(sanitizedName)
+    if (!workspaceId) {
+      return this.createFolder(sanitizedName)
+    }
+
+    const existing = await this.findWorkspaceRootFolder(workspaceId)
+    if (existing) {
+      return existing
+    }
+    return this.createFolder(sanitizedName, undefined, { slottedWorkspaceId: workspaceId })
+  }
+
+  async findWorkspaceRootFolder(workspaceId: string): Promise<DriveFolder | null> {
+    const safeId = workspaceId.replace(/'/g, "\\'")
+    const response = await this.executeWithRetry(async () => {
+      return await this.drive.files.list({
+        q: `appProperties has { key='slottedWorkspaceId' and value='${safeId}' } and mimeType='application/vnd.google-apps.folder' and trashed=false`,
+        fields: 'files(id,name,parents,webViewLink,createdTime)',
+      })
+    })
+
+    const folder = response.data.files?.[0]
+    return folder
+      ? {
+          id: folder.id,
+          name: folder.name,
+          webViewLink: folder.webViewLink,
+          createdTime: folder.createdTime,
+        }
+      : null
   }
 
   async createCampaignFolders(
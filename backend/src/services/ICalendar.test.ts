@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { escapeText, foldLine, toIcs } from './ICalendar'
+
+const octets = (line: string) => Buffer.byteLength(line)
+
+describe('foldLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = `SUMMARY:${'a'.repeat(67)}`
+    expect(foldLine(line)).toBe(line)
+  })
+
+  it('folds long lines with CRLF and a leading space, at most 75 octets each', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`
+    const folded = foldLine(line)
+    const parts = folded.split('\r\n')
+
+    expect(parts.length).toBeGreaterThan(1)
+    expect(parts.slice(1).every((part) => part.startsWith(' '))).toBe(true)
+    expect(parts.every((part) => octets(part) <= 75)).toBe(true)
+    expect(parts.map((part, i) => (i ? part.slice(1) : part)).join('')).toBe(line)
+  })
+
+  it('never splits a multi-byte character', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}🚀${'ü'.repeat(30)}`
+    const parts = foldLine(line).split('\r\n')
+
+    expect(parts.every((part) => octets(part) <= 75)).toBe(true)
+    expect(parts.map((part, i) => (i ? part.slice(1) : part)).join('')).toBe(line)
+    // A split surrogate pair wouldn't survive encoding
+    expect(parts.every((part) => Buffer.from(part).toString() === part)).toBe(true)
+  })
+})
+
+describe('escapeText', () => {
+  it('escapes backslashes, separators and line breaks', () => {
+    expect(escapeText('a\\b;c,d\r\ne\nf')).toBe('a\\\\b\\;c\\,d\\ne\\nf')
+  })
+})
+
+describe('toIcs', () => {
+  const ics = toIcs(
+    {
+      name: 'Spring, 2026',
+      refreshMinutes: 60,
+      events: [
+        {
+          uid: 'campaign-1@slotted',
+          summary: 'Launch',
+          description: `Line one\n${'long '.repeat(30)}`,
+          start: { date: '2026-03-03' },
+          end: { date: '2026-03-04' },
+        },
+        {
+          uid: 'post-1@slotted',
+          summary: 'Post',
+          start: { dateTime: new Date('2026-03-04T09:30:00Z') },
+          end: { dateTime: new Date('2026-03-04T10:00:00Z') },
+          sequence: 3600,
+          lastModified: new Date('2026-02-20T12:00:00Z'),
+        },
+      ],
+    },
+    new Date('2026-03-01T00:00:00Z')
+  )
+
+  it('ends every line with CRLF and has no bare line feeds', () => {
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/)
+  })
+
+  it('keeps every physical line within 75 octets', () => {
+    expect(ics.split('\r\n').every((line) => octets(line) <= 75)).toBe(true)
+  })
+
+  it('writes all-day dates and UTC instants', () => {
+    expect(ics).toContain('DTSTART;VALUE=DATE:20260303\r\n')
+    expect(ics).toContain('DTSTART:20260304T093000Z\r\n')
+    expect(ics).toContain('DTSTAMP:20260301T000000Z\r\n')
+    expect(ics).toContain('TRANSP:TRANSPARENT\r\n')
+    expect(ics).toContain('TRANSP:OPAQUE\r\n')
+  })
+
+  it('writes the revision only for events that have one', () => {
+    expect(ics).toContain('SEQUENCE:3600\r\nLAST-MODIFIED:20260220T120000Z\r\n')
+    expect(ics.match(/SEQUENCE:/g)).toHaveLength(1)
+  })
+
+  it('escapes the calendar name and sets the refresh interval', () => {
+    expect(ics).toContain('X-WR-CALNAME:Spring\\, 2026\r\n')
+    expect(ics).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT60M\r\n')
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * Writing iCalendar (RFC 5545) files: the format Outlook, Apple Calendar and
+ * Google Calendar import and subscribe to
+ */
+
+/**
+ * An all-day date (YYYY-MM-DD) or an instant, written in UTC
+ */
+export type IcsTime = { date: string } | { dateTime: Date }
+
+export interface IcsEvent {
+  // Stays the same across exports, so calendars replace the event instead
+  // of adding it again
+  uid: string
+  summary: string
+  description?: string
+  categories?: string[]
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED'
+  start: IcsTime
+  // Exclusive: an all-day event on March 3 ends on March 4
+  end: IcsTime
+  // Revision of the event; calendars keep the copy with the highest
+  sequence?: number
+  lastModified?: Date
+}
+
+export interface IcsCalendar {
+  name: string
+  description?: string
+  // How often subscribers should fetch the feed again
+  refreshMinutes?: number
+  events: IcsEvent[]
+}
+
+const PRODUCT_ID = '-//Slotted//Campaign Calendar//EN'
+
+// Lines longer than this many octets are folded
+const MAX_LINE_OCTETS = 75
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and line breaks
+ */
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n|\r/g, '\\n')
+
+/**
+ * Fold a content line at 75 octets, continuing on lines that start with a
+ * space. Never splits a UTF-8 character.
+ */
+export const foldLine = (line: string): string => {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  for (const char of line) {
+    const size = Buffer.byteLength(char)
+    // Continuation lines spend one octet on the leading space
+    const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+// 2026-03-04T09:30:00.000Z → 20260304T093000Z
+const formatInstant = (date: Date) => `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`
+
+const formatTime = (name: string, time: IcsTime) =>
+  'date' in time
+    ? `${name};VALUE=DATE:${time.date.replace(/-/g, '')}`
+    : `${name}:${formatInstant(time.dateTime)}`
+
+const eventLines = (event: IcsEvent, stamp: string): string[] => [
+  'BEGIN:VEVENT',
+  `UID:${event.uid}`,
+  `DTSTAMP:${stamp}`,
+  ...(event.sequence !== undefined ? [`SEQUENCE:${event.sequence}`] : []),
+  ...(event.lastModified ? [`LAST-MODIFIED:${formatInstant(event.lastModified)}`] : []),
+  formatTime('DTSTART', event.start),
+  formatTime('DTEND', event.end),
+  `SUMMARY:${escapeText(event.summary)}`,
+  ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+  ...(event.categories?.length ? [`CATEGORIES:${event.categories.map(escapeText).join(',')}`] : []),
+  ...(event.status ? [`STATUS:${event.status}`] : []),
+  // All-day campaigns shouldn't block anyone's free time
+  `TRANSP:${'date' in event.start ? 'TRANSPARENT' : 'OPAQUE'}`,
+  'END:VEVENT',
+]
+
+/**
+ * A calendar as an .ics file, with CRLF line endings
+ */
+export function toIcs(calendar: IcsCalendar, now = new Date()): string {
+  const stamp = formatInstant(now)
+  const refresh = calendar.refreshMinutes && `PT${calendar.refreshMinutes}M`
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `NAME:${escapeText(calendar.name)}`,
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    ...(calendar.description
+      ? [
+          `DESCRIPTION:${escapeText(calendar.description)}`,
+          `X-WR-CALDESC:${escapeText(calendar.description)}`,
+        ]
+      : []),
+    // RFC 7986, and what Outlook reads
+    ...(refresh
+      ? [`REFRESH-INTERVAL;VALUE=DURATION:${refresh}`, `X-PUBLISHED-TTL:${refresh}`]
+      : []),
+    ...calendar.events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ]
+  return `${lines.map(foldLine).join('\r\n')}\r\n`
+}
@@ -0,0 +1,90 @@
+import { csvCell } from './AuditLog'
+import type { Invoice } from './Metering'
+
+const CSV_COLUMNS = ['description', 'quantity', 'unitAmount', 'amount', 'currency'] as const
+
+const money = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency.toUpperCase()}`
+
+const day = (iso: string) => iso.slice(0, 10)
+
+// Periods end at the start of the next one; show the last day billed
+const lastDay = (end: string) => day(new Date(Date.parse(end) - 1).toISOString())
+
+/**
+ * Invoice line items as CSV, with the total as the last row
+ */
+export function invoiceCsv(invoice: Invoice): string {
+  const rows = [
+    ...invoice.lines.map((line) => [
+      line.description,
+      line.quantity,
+      line.unitAmount.toFixed(2),
+      line.amount.toFixed(2),
+      invoice.currency,
+    ]),
+    ['Total', '', '', invoice.total.toFixed(2), invoice.currency],
+  ].map((row) => row.map(csvCell).join(','))
+  return `${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`
+}
+
+// Text for a PDF string literal in the standard Helvetica (WinAnsi) font
+const pdfText = (text: string) =>
+  text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?').replace(/[\\()]/g, (char) => `\\${char}`)
+
+/**
+ * Single-page A4 invoice PDF. Written by hand: the layout is a plain table
+ * in a built-in font, which needs no PDF library.
+ */
+export function invoicePdf(invoice: Invoice): Buffer {
+  const lines: Array<[number, number, number, string]> = []
+  const text = (x: number, y: number, size: number, value: string) =>
+    lines.push([x, y, size, value])
+
+  text(50, 780, 20, 'Invoice')
+  text(50, 755, 10, `Invoice ${invoice.number}`)
+  text(50, 741, 10, `Issued ${day(invoice.issuedAt)}`)
+  text(50, 727, 10, `Billed to ${invoice.workspaceName}`)
+  text(50, 713, 10, `Period ${day(invoice.period.start)} to ${lastDay(invoice.period.end)}`)
+
+  let y = 675
+  text(50, y, 10, 'Description')
+  text(330, y, 10, 'Qty')
+  text(380, y, 10, 'Unit')
+  text(470, y, 10, 'Amount')
+  for (const line of invoice.lines) {
+    y -= 18
+    text(50, y, 10, line.description)
+    text(330, y, 10, String(line.quantity))
+    text(380, y, 10, line.unitAmount.toFixed(2))
+    text(470, y, 10, line.amount.toFixed(2))
+  }
+  if (invoice.lines.length === 0) {
+    y -= 18
+    text(50, y, 10, 'No billable activity in this period')
+  }
+  text(380, y - 30, 12, `Total ${money(invoice.total, invoice.currency)}`)
+
+  const content = lines
+    .map(([x, ty, size, value]) => `BT /F1 ${size} Tf ${x} ${ty} Td (${pdfText(value)}) Tj ET`)
+    .join('\n')
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+  ]
+
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'))
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`
+  })
+  const xref = Buffer.byteLength(pdf, 'latin1')
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+  return Buffer.from(pdf, 'latin1')
+}
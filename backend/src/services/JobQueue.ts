@@ -0,0 +1,348 @@
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { JsonFileStore } from './JsonFileStore'
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface JobProgress {
+  completed: number
+  total: number
+  // Step currently being worked on, e.g. the content type being generated
+  step?: string
+}
+
+export interface Job {
+  id: string
+  type: string
+  status: JobStatus
+  input: unknown
+  workspaceId?: string
+  progress: JobProgress
+  // Partial results saved as the job goes, so a retry or restart resumes
+  // instead of starting over
+  checkpoints: Record<string, unknown>
+  result?: unknown
+  error?: string
+  attempts: number
+  createdAt: string
+  updatedAt: string
+  startedAt?: string
+  finishedAt?: string
+}
+
+export interface JobContext {
+  job: Job
+  // Values passed at enqueue time that are never written to disk (API keys).
+  // Undefined after a server restart.
+  secrets?: unknown
+  signal: AbortSignal
+  checkpoint(step: string, data: unknown): Promise<void>
+  setProgress(progress: Partial<JobProgress>): Promise<void>
+}
+
+export type JobHandler = (context: JobContext) => Promise<unknown>
+
+export type JobListener = (job: Job) => void
+
+export interface EnqueueOptions {
+  workspaceId?: string
+  secrets?: unknown
+  total?: number
+}
+
+interface JobData {
+  jobs: Record<string, Job>
+}
+
+export class JobNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Job not found: ${id}`)
+    this.name = 'JobNotFoundError'
+  }
+}
+
+export class JobStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JobStateError'
+  }
+}
+
+const DEFAULT_JOB_PATH = path.resolve(process.cwd(), 'data', 'jobs.json')
+
+export const isFinishedJob = (job: Job): boolean =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled'
+
+/**
+ * Durable background jobs for work that outlives an HTTP request, such as
+ * multi-step AI generation. Jobs are persisted so they survive restarts:
+ * anything that was running when the server stopped is queued again and
+ * resumes from its last checkpoint.
+ */
+export class JobQueue {
+  private store: JsonFileStore<JobData>
+  private handlers = new Map<string, JobHandler>()
+  private running = new Map<string, AbortController>()
+  private secrets = new Map<string, unknown>()
+  private listeners = new Map<string, Set<JobListener>>()
+  private started = false
+
+  constructor(
+    filePath = process.env.JOB_DATA_PATH || DEFAULT_JOB_PATH,
+    private concurrency = Number(process.env.JOB_CONCURRENCY) || 2
+  ) {
+    this.store = new JsonFileStore<JobData>(filePath, () => ({ jobs: {} }))
+  }
+
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler)
+  }
+
+  /**
+   * Requeue jobs interrupted by a restart and start processing
+   */
+  async start(): Promise<void> {
+    if (this.started) return
+    this.started = true
+
+    const interrupted = await this.store.update((data) =>
+      Object.values(data.jobs).filter((job) => job.status === 'running')
+    )
+    for (const job of interrupted) {
+      await this.patch(job.id, { status: 'queued', progress: { ...job.progress, step: undefined } })
+    }
+    if (interrupted.length > 0) {
+      console.log(`🔁 Resuming ${interrupted.length} interrupted job(s)`)
+    }
+
+    void this.pump()
+  }
+
+  async enqueue(type: string, input: unknown, options: EnqueueOptions = {}): Promise<Job> {
+    if (!this.handlers.has(type)) {
+      throw new Error(`No handler registered for job type: ${type}`)
+    }
+
+    const now = new Date().toISOString()
+    const job: Job = {
+      id: randomUUID(),
+      type,
+      status: 'queued',
+      input,
+      workspaceId: options.workspaceId,
+      progress: { completed: 0, total: options.total ?? 1 },
+      checkpoints: {},
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    await this.store.update((data) => {
+      data.jobs[job.id] = job
+    })
+    if (options.secrets !== undefined) {
+      this.secrets.set(job.id, options.secrets)
+    }
+
+    void this.pump()
+    return job
+  }
+
+  async getJob(id: string): Promise<Job> {
+    const data = await this.store.read()
+    const job = data.jobs[id]
+    if (!job) {
+      throw new JobNotFoundError(id)
+    }
+    return job
+  }
+
+  async listJobs(
+    filter: { type?: string; status?: JobStatus; workspaceId?: string } = {}
+  ): Promise<Job[]> {
+    const data = await this.store.read()
+    return Object.values(data.jobs)
+      .filter(
+        (job) =>
+          (!filter.type || job.type === filter.type) &&
+          (!filter.status || job.status === filter.status) &&
+          (!filter.workspaceId || job.workspaceId === filter.workspaceId)
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  /**
+   * Stop a queued or running job. Checkpoints are kept so it can be retried.
+   */
+  async cancel(id: string): Promise<Job> {
+    const job = await this.getJob(id)
+    if (isFinishedJob(job)) {
+      throw new JobStateError(`Job ${id} has already ${job.status}`)
+    }
+
+    this.running.get(id)?.abort()
+    return this.patch(id, {
+      status: 'cancelled',
+      finishedAt: new Date().toISOString(),
+    })
+  }
+
+  /**
+   * Queue a failed or cancelled job again, resuming from its checkpoints
+   */
+  async retry(id: string): Promise<Job> {
+    const job = await this.getJob(id)
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      throw new JobStateError(`Only failed or cancelled jobs can be retried (job is ${job.status})`)
+    }
+    if (this.running.has(id)) {
+      throw new JobStateError(`Job ${id} is still stopping, try again shortly`)
+    }
+
+    const updated = await this.patch(id, {
+      status: 'queued',
+      error: undefined,
+      finishedAt: undefined,
+    })
+    void this.pump()
+    return updated
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    const job = await this.getJob(id)
+    if (!isFinishedJob(job)) {
+      throw new JobStateError(`Cancel job ${id} before deleting it`)
+    }
+
+    await this.store.update((data) => {
+      delete data.jobs[id]
+    })
+    this.secrets.delete(id)
+    this.listeners.delete(id)
+  }
+
+  /**
+   * Stop and drop a deleted workspace's jobs
+   */
+  async removeWorkspace(workspaceId: string): Promise<void> {
+    const ids = await this.store.update((data) => {
+      const jobs = Object.values(data.jobs).filter((job) => job.workspaceId === workspaceId)
+      for (const job of jobs) delete data.jobs[job.id]
+      return jobs.map((job) => job.id)
+    })
+    for (const id of ids) {
+      this.running.get(id)?.abort()
+      this.secrets.delete(id)
+      this.listeners.delete(id)
+    }
+  }
+
+  /**
+   * Listen for status and progress changes of one job
+   */
+  subscribe(id: string, listener: JobListener): () => void {
+    const listeners = this.listeners.get(id) || new Set()
+    listeners.add(listener)
+    this.listeners.set(id, listeners)
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) this.listeners.delete(id)
+    }
+  }
+
+  private async pump(): Promise<void> {
+    if (!this.started) return
+
+    const data = await this.store.read()
+    const queued = Object.values(data.jobs)
+      .filter((job) => job.status === 'queued' && this.handlers.has(job.type))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+    for (const job of queued) {
+      if (this.running.size >= this.concurrency) break
+      if (!this.running.has(job.id)) {
+        void this.run(job.id)
+      }
+    }
+  }
+
+  private async run(id: string): Promise<void> {
+    const controller = new AbortController()
+    this.running.set(id, controller)
+
+    try {
+      // Cancelled between being picked up and starting
+      if ((await this.getJob(id)).status !== 'queued') return
+
+      const job = await this.patch(id, (current) => ({
+        status: 'running',
+        attempts: current.attempts + 1,
+        startedAt: new Date().toISOString(),
+      }))
+      const handler = this.handlers.get(job.type) as JobHandler
+
+      const result = await handler({
+        job,
+        secrets: this.secrets.get(id),
+        signal: controller.signal,
+        checkpoint: async (step, checkpointData) => {
+          if (controller.signal.aborted) return
+          await this.patch(id, (current) => ({
+            checkpoints: { ...current.checkpoints, [step]: checkpointData },
+          }))
+        },
+        setProgress: async (progress) => {
+          if (controller.signal.aborted) return
+          await this.patch(id, (current) => ({ progress: { ...current.progress, ...progress } }))
+        },
+      })
+
+      if (!controller.signal.aborted) {
+        await this.patch(id, (current) => ({
+          status: 'completed',
+          result,
+          progress: { completed: current.progress.total, total: current.progress.total },
+          finishedAt: new Date().toISOString(),
+        }))
+        this.secrets.delete(id)
+        console.log(`✅ Job ${job.type} ${id} completed`)
+      }
+    } catch (error) {
+      // A cancelled job has already been marked; its handler error is expected
+      if (!controller.signal.aborted) {
+        console.error(`❌ Job ${id} failed:`, error)
+        await this.patch(id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Job failed',
+          finishedAt: new Date().toISOString(),
+        }).catch((patchError) => console.error('Failed to record job failure:', patchError))
+      }
+    } finally {
+      this.running.delete(id)
+      void this.pump()
+    }
+  }
+
+  private async patch(
+    id: string,
+    updates: Partial<Job> | ((job: Job) => Partial<Job>)
+  ): Promise<Job> {
+    const job = await this.store.update((data) => {
+      const current = data.jobs[id]
+      if (!current) {
+        throw new JobNotFoundError(id)
+      }
+      Object.assign(current, typeof updates === 'function' ? updates(current) : updates, {
+        updatedAt: new Date().toISOString(),
+      })
+      return current
+    })
+
+    for (const listener of this.listeners.get(id) || []) {
+      listener(job)
+    }
+    return job
+  }
+}
+
+export const jobQueue = new JobQueue()
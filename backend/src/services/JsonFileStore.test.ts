@@ -0,0 +1,59 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { JsonFileStore, StoreCorruptError } from './JsonFileStore'
+
+interface Counters {
+  counts: Record<string, number>
+}
+
+describe('JsonFileStore', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'json-store-'))
+    filePath = path.join(dir, 'counters.json')
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  const createStore = () => new JsonFileStore<Counters>(filePath, () => ({ counts: {} }))
+
+  it('starts empty when the file does not exist', async () => {
+    expect(await createStore().read()).toEqual({ counts: {} })
+  })
+
+  it('refuses a file it cannot parse and leaves it in place', async () => {
+    await writeFile(filePath, '{"counts": {', 'utf8')
+    const store = createStore()
+
+    await expect(store.read()).rejects.toBeInstanceOf(StoreCorruptError)
+    await expect(
+      store.update((data) => {
+        data.counts.a = 1
+      })
+    ).rejects.toBeInstanceOf(StoreCorruptError)
+    expect(await readFile(filePath, 'utf8')).toBe('{"counts": {')
+  })
+
+  it('keeps the data as it was when a mutation throws partway', async () => {
+    const store = createStore()
+    await store.update((data) => {
+      data.counts.a = 1
+    })
+
+    await expect(
+      store.update((data) => {
+        data.counts.a = 2
+        throw new Error('halfway')
+      })
+    ).rejects.toThrow('halfway')
+
+    expect(await store.read()).toEqual({ counts: { a: 1 } })
+    expect(JSON.parse(await readFile(filePath, 'utf8'))).toEqual({ counts: { a: 1 } })
+  })
+})
@@ -0,0 +1,85 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+/**
+ * The store's file exists but can't be read or parsed. The file is left as
+ * it is for an operator to repair; nothing is written over it.
+ */
+export class StoreCorruptError extends Error {
+  constructor(filePath: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause)
+    super(`${filePath} could not be loaded (${reason}); repair or move it aside and restart`)
+    this.name = 'StoreCorruptError'
+  }
+}
+
+/**
+ * Small JSON-file persistence helper for local/self-hosted deployments.
+ * Reads are cached after the first load and writes are serialized and
+ * written atomically (temp file + rename) so concurrent requests can't
+ * interleave partial files.
+ */
+export class JsonFileStore<T> {
+  private data: T | null = null
+  private writeChain: Promise<void> = Promise.resolve()
+
+  constructor(
+    private filePath: string,
+    private createDefault: () => T
+  ) {}
+
+  async read(): Promise<T> {
+    if (!this.data) {
+      this.data = await this.load()
+    }
+    return this.data
+  }
+
+  /**
+   * Apply a mutation to the stored data and persist it. Mutations run one at
+   * a time, in call order, on a copy that replaces the cached data only once
+   * it is saved: a mutation that throws halfway, or a failed write, leaves
+   * the data as it was.
+   */
+  async update<R>(mutate: (data: T) => R | Promise<R>): Promise<R> {
+    const run = this.writeChain.then(async () => {
+      const draft = structuredClone(await this.read())
+      const result = await mutate(draft)
+      await this.persist(draft)
+      this.data = draft
+      return result
+    })
+
+    this.writeChain = run.then(
+      () => undefined,
+      () => undefined
+    )
+    return run
+  }
+
+  // Only a missing file starts empty; anything else would be overwritten
+  private async load(): Promise<T> {
+    let raw: string
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.createDefault()
+      }
+      throw new StoreCorruptError(this.filePath, error)
+    }
+
+    try {
+      return JSON.parse(raw)
+    } catch (error) {
+      throw new StoreCorruptError(this.filePath, error)
+    }
+  }
+
+  private async persist(data: T): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8')
+    await fs.rename(tempPath, this.filePath)
+  }
+}
@@ -0,0 +1,452 @@
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { type BillingService, billingService } from './BillingService'
+import { JsonFileStore } from './JsonFileStore'
+import { findPlan } from './Plans'
+import { type StripeClient, resolveStripe } from './StripeClient'
+import { type WorkspaceStore, workspaceStore } from './WorkspaceStore'
+
+export type BillableKind = 'dna_extraction' | 'calendar' | 'blog_post' | 'scheduled_publish'
+
+export const BILLABLE_KINDS: BillableKind[] = [
+  'dna_extraction',
+  'calendar',
+  'blog_post',
+  'scheduled_publish',
+]
+
+// Produced in the browser and filed through the API. The backend records
+// extractions, its own generations and publishes itself, so clients can't.
+export const BROWSER_BILLABLE_KINDS: BillableKind[] = ['calendar', 'blog_post']
+
+export const KIND_LABELS: Record<BillableKind, string> = {
+  dna_extraction: 'Company DNA extractions',
+  calendar: 'Marketing calendars',
+  blog_post: 'Blog posts',
+  scheduled_publish: 'Scheduled publishes',
+}
+
+export interface MeterEvent {
+  id: string
+  workspaceId: string
+  kind: BillableKind
+  quantity: number
+  occurredAt: string
+  // What was billed, e.g. a post id. An event repeating a workspace, kind
+  // and reference is counted once.
+  reference?: string
+  actorId?: string
+  // Set once Stripe has the event; stripeError holds the last failure
+  stripeReportedAt?: string
+  stripeError?: string
+}
+
+export type MeterInput = Pick<MeterEvent, 'workspaceId' | 'kind' | 'reference' | 'actorId'> & {
+  quantity?: number
+}
+
+/**
+ * What a workspace's client is charged per billable event, in `currency`
+ * units (e.g. 2.5 = $2.50)
+ */
+export interface RateCard {
+  currency: string
+  rates: Record<BillableKind, number>
+  // Stripe customer to report usage against, when it isn't the customer of
+  // the workspace's own subscription
+  stripeCustomerId?: string
+  updatedAt?: string
+}
+
+export interface BillingPeriod {
+  // ISO timestamps; start is inclusive, end exclusive
+  start: string
+  end: string
+}
+
+export interface UsageSummary {
+  workspaceId: string
+  period: BillingPeriod
+  counts: Record<BillableKind, number>
+}
+
+export interface InvoiceLine {
+  description: string
+  kind?: BillableKind
+  planId?: string
+  quantity: number
+  unitAmount: number
+  amount: number
+}
+
+export interface Invoice {
+  number: string
+  workspaceId: string
+  workspaceName: string
+  period: BillingPeriod
+  currency: string
+  lines: InvoiceLine[]
+  total: number
+  issuedAt: string
+}
+
+export interface StripeSyncResult {
+  reported: number
+  failed: number
+  // Why nothing could be reported, e.g. no Stripe customer
+  skipped?: string
+}
+
+interface MeteringData {
+  events: MeterEvent[]
+  rateCards: Record<string, RateCard>
+}
+
+interface PurchaseRecord {
+  email: string
+  planId: string
+  purchasedAt: string
+}
+
+export class MeteringConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MeteringConfigError'
+  }
+}
+
+const DEFAULT_METERING_PATH = path.resolve(process.cwd(), 'data', 'metering.json')
+
+export const DEFAULT_RATES: RateCard = {
+  currency: 'usd',
+  rates: {
+    dna_extraction: 5,
+    calendar: 3,
+    blog_post: 2,
+    scheduled_publish: 0.25,
+  },
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100
+
+const emptyCounts = (): Record<BillableKind, number> => ({
+  dna_extraction: 0,
+  calendar: 0,
+  blog_post: 0,
+  scheduled_publish: 0,
+})
+
+// The anchor day in the given month, moved back to the month's last day
+// when the month is shorter (an anchor on the 31st bills on 30 April)
+const anchorIn = (year: number, month: number, day: number) => {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month, Math.min(day, lastDay)))
+}
+
+/**
+ * The billing period containing `date`. Periods run monthly from `anchorDay`
+ * (UTC), the day of the month the workspace first purchased a plan.
+ */
+export function billingPeriod(date: Date, anchorDay = 1): BillingPeriod {
+  let year = date.getUTCFullYear()
+  let month = date.getUTCMonth()
+  if (anchorIn(year, month, anchorDay) > date) {
+    month -= 1
+    if (month < 0) {
+      month = 11
+      year -= 1
+    }
+  }
+  return {
+    start: anchorIn(year, month, anchorDay).toISOString(),
+    end: anchorIn(year, month + 1, anchorDay).toISOString(),
+  }
+}
+
+const isBillableKind = (kind: unknown): kind is BillableKind =>
+  BILLABLE_KINDS.includes(kind as BillableKind)
+
+// Why a partial rates object is invalid, if it is
+const invalidRates = (rates: unknown): string | undefined => {
+  if (typeof rates !== 'object' || rates === null) return 'rates must be an object'
+  for (const [kind, rate] of Object.entries(rates)) {
+    if (!isBillableKind(kind)) return `Unknown billable kind ${kind}`
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0) {
+      return `The ${kind} rate must be a number of at least 0`
+    }
+  }
+  return undefined
+}
+
+/**
+ * A rate card update from a request body, or an error message
+ */
+export const validateRates = (input: unknown): Partial<RateCard> | string => {
+  if (typeof input !== 'object' || input === null) return 'rates are required'
+  const { currency, rates, stripeCustomerId } = input as Partial<RateCard>
+  if (currency !== undefined && !/^[a-z]{3}$/.test(currency)) {
+    return 'currency must be a three-letter ISO code, e.g. usd'
+  }
+  const ratesError = rates === undefined ? undefined : invalidRates(rates)
+  if (ratesError) return ratesError
+  if (stripeCustomerId !== undefined && typeof stripeCustomerId !== 'string') {
+    return 'stripeCustomerId must be a string'
+  }
+  return { currency, rates: rates as RateCard['rates'] | undefined, stripeCustomerId }
+}
+
+/**
+ * Counts billable events per workspace so agencies reselling Slotted can
+ * bill their clients per analysis and per generated asset. Events are
+ * grouped into monthly billing periods anchored on the workspace's first
+ * purchase, priced from its rate card, and optionally reported to Stripe
+ * Billing Meters (named STRIPE_METER_EVENT_PREFIX + kind).
+ */
+export class MeteringService {
+  private store: JsonFileStore<MeteringData>
+
+  constructor(
+    filePath = process.env.METERING_DATA_PATH || DEFAULT_METERING_PATH,
+    private meterEventPrefix = process.env.STRIPE_METER_EVENT_PREFIX || '',
+    private workspaces: WorkspaceStore = workspaceStore,
+    private billing: BillingService = billingService,
+    private resolveClient: () => StripeClient | undefined = resolveStripe
+  ) {
+    this.store = new JsonFileStore<MeteringData>(filePath, () => ({ events: [], rateCards: {} }))
+  }
+
+  isReportingToStripe(): boolean {
+    return Boolean(this.meterEventPrefix && this.resolveClient())
+  }
+
+  /**
+   * Count a billable event and report it to Stripe when configured.
+   * Metering never fails the action being metered; a failure is logged
+   * instead.
+   */
+  async record(input: MeterInput): Promise<MeterEvent | undefined> {
+    let event: MeterEvent | undefined
+    try {
+      await this.store.update((data) => {
+        const duplicate =
+          input.reference &&
+          data.events.find(
+            (e) =>
+              e.workspaceId === input.workspaceId &&
+              e.kind === input.kind &&
+              e.reference === input.reference
+          )
+        if (duplicate) {
+          event = duplicate
+          return
+        }
+        event = {
+          id: randomUUID(),
+          workspaceId: input.workspaceId,
+          kind: input.kind,
+          quantity: input.quantity ?? 1,
+          occurredAt: new Date().toISOString(),
+          reference: input.reference,
+          actorId: input.actorId,
+        }
+        data.events.push(event)
+      })
+    } catch (error) {
+      console.error(`Failed to meter ${input.kind} for ${input.workspaceId}:`, error)
+      return undefined
+    }
+
+    if (event && !event.stripeReportedAt && this.isReportingToStripe()) {
+      await this.syncStripe(input.workspaceId).catch((error) =>
+        console.error(`Failed to report usage for ${input.workspaceId} to Stripe:`, error)
+      )
+    }
+    return event
+  }
+
+  /**
+   * A workspace's events in a period, newest first
+   */
+  async listEvents(workspaceId: string, period?: BillingPeriod): Promise<MeterEvent[]> {
+    const { events } = await this.store.read()
+    return events
+      .filter(
+        (event) =>
+          event.workspaceId === workspaceId &&
+          (!period || (event.occurredAt >= period.start && event.occurredAt < period.end))
+      )
+      .reverse()
+  }
+
+  async getRates(workspaceId: string): Promise<RateCard> {
+    const data = await this.store.read()
+    const card = data.rateCards[workspaceId]
+    return card
+      ? { ...card, rates: { ...DEFAULT_RATES.rates, ...card.rates } }
+      : { ...DEFAULT_RATES, rates: { ...DEFAULT_RATES.rates } }
+  }
+
+  async setRates(workspaceId: string, update: Partial<RateCard>): Promise<RateCard> {
+    const current = await this.getRates(workspaceId)
+    const card: RateCard = {
+      currency: update.currency ?? current.currency,
+      rates: { ...current.rates, ...update.rates },
+      stripeCustomerId:
+        update.stripeCustomerId === undefined
+          ? current.stripeCustomerId
+          : update.stripeCustomerId || undefined,
+      updatedAt: new Date().toISOString(),
+    }
+    await this.store.update((data) => {
+      data.rateCards[workspaceId] = card
+    })
+    return card
+  }
+
+  /**
+   * The workspace's billing period containing `date`
+   */
+  async periodFor(workspaceId: string, date = new Date()): Promise<BillingPeriod> {
+    const purchases = await this.purchases(workspaceId)
+    const first = purchases
+      .map((purchase) => purchase.purchasedAt)
+      .filter((at) => !Number.isNaN(Date.parse(at)))
+      .sort()[0]
+    return billingPeriod(date, first ? new Date(first).getUTCDate() : 1)
+  }
+
+  async summarize(workspaceId: string, date = new Date()): Promise<UsageSummary> {
+    const period = await this.periodFor(workspaceId, date)
+    const counts = emptyCounts()
+    for (const event of await this.listEvents(workspaceId, period)) {
+      counts[event.kind] += event.quantity
+    }
+    return { workspaceId, period, counts }
+  }
+
+  /**
+   * Invoice for the billing period containing `date`: plans purchased in the
+   * period, then usage priced from the workspace's rate card
+   */
+  async buildInvoice(workspaceId: string, date = new Date()): Promise<Invoice> {
+    const [summary, card, purchases, workspace] = await Promise.all([
+      this.summarize(workspaceId, date),
+      this.getRates(workspaceId),
+      this.purchases(workspaceId),
+      this.workspaces.getWorkspace(workspaceId),
+    ])
+    const { period } = summary
+
+    const planLines = purchases
+      .filter(
+        (purchase) => purchase.purchasedAt >= period.start && purchase.purchasedAt < period.end
+      )
+      .map((purchase): InvoiceLine => {
+        const plan = findPlan(purchase.planId)
+        const price = plan?.price ?? 0
+        return {
+          description: `${plan?.name ?? purchase.planId} plan (${purchase.purchasedAt.slice(0, 10)})`,
+          planId: purchase.planId,
+          quantity: 1,
+          unitAmount: price,
+          amount: price,
+        }
+      })
+
+    const usageLines = BILLABLE_KINDS.filter((kind) => summary.counts[kind] > 0).map(
+      (kind): InvoiceLine => ({
+        description: KIND_LABELS[kind],
+        kind,
+        quantity: summary.counts[kind],
+        unitAmount: card.rates[kind],
+        amount: roundCents(summary.counts[kind] * card.rates[kind]),
+      })
+    )
+
+    const lines = [...planLines, ...usageLines]
+    return {
+      number: `${workspaceId}-${period.start.slice(0, 10).replace(/-/g, '')}`,
+      workspaceId,
+      workspaceName: workspace.name,
+      period,
+      currency: card.currency,
+      lines,
+      total: roundCents(lines.reduce((sum, line) => sum + line.amount, 0)),
+      issuedAt: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Report the workspace's events Stripe doesn't have yet. Events carry
+   * their id as the Stripe identifier, so retrying one already received is
+   * harmless.
+   */
+  async syncStripe(workspaceId: string): Promise<StripeSyncResult> {
+    const client = this.resolveClient()
+    if (!client || !this.meterEventPrefix) {
+      throw new MeteringConfigError(
+        'Set STRIPE_SECRET_KEY and STRIPE_METER_EVENT_PREFIX to report usage to Stripe'
+      )
+    }
+    const customer =
+      (await this.getRates(workspaceId)).stripeCustomerId ||
+      (await this.billing.getSubscription(workspaceId))?.stripeCustomerId
+    if (!customer) {
+      return { reported: 0, failed: 0, skipped: 'No Stripe customer for this workspace' }
+    }
+
+    const pending = (await this.listEvents(workspaceId))
+      .filter((e) => !e.stripeReportedAt)
+      .reverse()
+    const outcomes = new Map<string, Pick<MeterEvent, 'stripeReportedAt' | 'stripeError'>>()
+    for (const event of pending) {
+      try {
+        await client.createMeterEvent({
+          event_name: `${this.meterEventPrefix}${event.kind}`,
+          identifier: event.id,
+          timestamp: Math.floor(Date.parse(event.occurredAt) / 1000),
+          payload: { stripe_customer_id: customer, value: String(event.quantity) },
+        })
+        outcomes.set(event.id, { stripeReportedAt: new Date().toISOString() })
+      } catch (error) {
+        outcomes.set(event.id, {
+          stripeError: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    await this.store.update((data) => {
+      for (const event of data.events) {
+        const outcome = outcomes.get(event.id)
+        if (outcome) Object.assign(event, { stripeError: undefined }, outcome)
+      }
+    })
+    const reported = [...outcomes.values()].filter((o) => o.stripeReportedAt).length
+    return { reported, failed: outcomes.size - reported }
+  }
+
+  // Purchase records synced from the frontend's PaymentStateManager
+  /**
+   * Drop a deleted workspace's events and rate card
+   */
+  async removeWorkspace(workspaceId: string): Promise<void> {
+    await this.store.update((data) => {
+      data.events = data.events.filter((event) => event.workspaceId !== workspaceId)
+      delete data.rateCards[workspaceId]
+    })
+  }
+
+  private async purchases(workspaceId: string): Promise<PurchaseRecord[]> {
+    const document = await this.workspaces.getDocument(workspaceId, 'purchases')
+    if (!Array.isArray(document?.data)) return []
+    return document.data
+      .map((entry: unknown) => (Array.isArray(entry) ? entry[1] : undefined))
+      .filter(
+        (purchase: unknown): purchase is PurchaseRecord =>
+          typeof (purchase as PurchaseRecord)?.planId === 'string' &&
+          typeof (purchase as PurchaseRecord)?.purchasedAt === 'string'
+      )
+  }
+}
+
+export const metering = new MeteringService()
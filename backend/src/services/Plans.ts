@@ -0,0 +1,138 @@
+/**
+ * The plans workspaces can subscribe to. Ids, names, prices and limitations
+ * mirror MVP1_PLANS, MVP2_PLANS and MVP3_PLANS in the frontend
+ * (src/services/payments/stripe-integration.ts), which also holds the
+ * marketing copy; keep the two in step.
+ */
+export interface PlanLimitations {
+  analysesPerMonth?: number
+  websiteAnalysis: boolean
+  aiModels: string[]
+  exportFormats: string[]
+}
+
+export interface Plan {
+  id: string
+  name: string
+  // Monthly price in whole currency units
+  price: number
+  currency: string
+  limitations: PlanLimitations
+}
+
+const BASIC_MODELS = ['gpt-4o']
+const ALL_MODELS = ['gpt-4o', 'claude-3-5-sonnet', 'gemini-2.0-flash']
+
+export const PLANS: Plan[] = [
+  {
+    id: 'mvp1-basic',
+    name: 'Basic Analysis',
+    price: 29,
+    currency: 'usd',
+    limitations: {
+      analysesPerMonth: 1,
+      websiteAnalysis: false,
+      aiModels: BASIC_MODELS,
+      exportFormats: ['json'],
+    },
+  },
+  {
+    id: 'mvp1-enhanced',
+    name: 'Enhanced Analysis',
+    price: 49,
+    currency: 'usd',
+    limitations: {
+      analysesPerMonth: 1,
+      websiteAnalysis: true,
+      aiModels: ALL_MODELS,
+      exportFormats: ['json', 'pdf'],
+    },
+  },
+  {
+    id: 'mvp1-bulk',
+    name: 'Bulk Package',
+    price: 199,
+    currency: 'usd',
+    limitations: {
+      analysesPerMonth: 5,
+      websiteAnalysis: true,
+      aiModels: ALL_MODELS,
+      exportFormats: ['json', 'pdf', 'csv'],
+    },
+  },
+  {
+    id: 'mvp2-basic',
+    name: 'Basic Calendar',
+    price: 99,
+    currency: 'usd',
+    limitations: {
+      analysesPerMonth: 1,
+      websiteAnalysis: false,
+      aiModels: BASIC_MODELS,
+      exportFormats: ['csv'],
+    },
+  },
+  {
+    id: 'mvp2-enhanced',
+    name: 'Enhanced Calendar',
+    price: 199,
+    currency: 'usd',
+    limitations: {
+      analysesPerMonth: 1,
+      websiteAnalysis: true,
+      aiModels: ALL_MODELS,
+      exportFormats: ['csv', 'xlsx', 'json'],
+    },
+  },
+  {
+    id: 'mvp2-agency',
+    name: 'Agency Package',
+    price: 499,
+    currency: 'usd',
+    limitations: {
+      analysesPerMonth: 5,
+      websiteAnalysis: true,
+      aiModels: ALL_MODELS,
+      exportFormats: ['csv', 'xlsx', 'json', 'pdf'],
+    },
+  },
+  {
+    id: 'mvp3-basic',
+    name: 'Basic Blog Post',
+    price: 49,
+    currency: 'usd',
+    limitations: {
+      analysesPerMonth: 1,
+      websiteAnalysis: false,
+      aiModels: BASIC_MODELS,
+      exportFormats: ['markdown'],
+    },
+  },
+  {
+    id: 'mvp3-enhanced',
+    name: 'Enhanced Blog Post',
+    price: 99,
+    currency: 'usd',
+    limitations: {
+      analysesPerMonth: 1,
+      websiteAnalysis: true,
+      aiModels: ['gpt-4o', 'claude-3-5-sonnet'],
+      exportFormats: ['markdown', 'html', 'json'],
+    },
+  },
+  {
+    id: 'mvp3-content-package',
+    name: 'Content Package',
+    price: 299,
+    currency: 'usd',
+    limitations: {
+      analysesPerMonth: 5,
+      websiteAnalysis: true,
+      aiModels: ALL_MODELS,
+      exportFormats: ['markdown', 'html', 'json', 'pdf'],
+    },
+  },
+]
+
+export const findPlan = (planId: string): Plan | undefined =>
+  PLANS.find((plan) => plan.id === planId)
@@ -0,0 +1,170 @@
+/**
+ * Fetching URLs that users hand us, like websites to analyze or media to
+ * publish, without letting them reach the deployment's own network: loopback,
+ * private, link-local and other internal address ranges are refused, and so
+ * are redirects into them. Requests connect to the address that was checked,
+ * so a host that resolves differently the second time can't slip through.
+ */
+
+import { lookup } from 'node:dns/promises'
+import http from 'node:http'
+import https from 'node:https'
+import { BlockList, type LookupFunction, isIP } from 'node:net'
+import { Readable } from 'node:stream'
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnsafeUrlError'
+  }
+}
+
+const INTERNAL_RANGES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  INTERNAL_RANGES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  // NAT64 addresses can point anywhere in IPv4
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  INTERNAL_RANGES.addSubnet(network, prefix, 'ipv6')
+}
+
+// Redirects followed before giving up
+const MAX_REDIRECTS = 5
+
+// Longest a fetch may take, body included, across all of its redirects
+const FETCH_TIMEOUT_MS = 30_000
+
+// Statuses whose responses have no body
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+export const isInternalAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) can point anywhere in IPv4
+  if (/^::ffff:/i.test(address)) return true
+  return INTERNAL_RANGES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * The URL and the address to connect to, if it is http(s) and its host
+ * resolves only to public addresses
+ */
+async function resolvePublicUrl(raw: string): Promise<{ url: URL; address: string }> {
+  let url: URL
+  try {
+    url = new URL(raw)
+  } catch {
+    throw new UnsafeUrlError(`Not a valid URL: ${raw}`)
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnsafeUrlError(`Only http and https URLs can be fetched: ${raw}`)
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true })).map((entry) => entry.address)
+  if (addresses.length === 0 || addresses.some(isInternalAddress)) {
+    throw new UnsafeUrlError(`${url.hostname} is not a public address`)
+  }
+  return { url, address: addresses[0] }
+}
+
+/**
+ * The URL, if it is http(s) and its host resolves only to public addresses
+ */
+export async function assertPublicUrl(raw: string): Promise<URL> {
+  return (await resolvePublicUrl(raw)).url
+}
+
+/**
+ * Send one request to `address` whatever the URL's host resolves to now.
+ * The host still names the site for TLS and the Host header.
+ */
+async function requestAt(
+  url: URL,
+  address: string,
+  init: RequestInit,
+  signal: AbortSignal
+): Promise<Response> {
+  const request = new Request(url, init)
+  const body = request.body ? Buffer.from(await request.arrayBuffer()) : undefined
+  const family = isIP(address)
+  const pinned: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }])
+    } else {
+      callback(null, address, family)
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const send = url.protocol === 'https:' ? https.request : http.request
+    const outgoing = send(
+      url,
+      {
+        method: request.method,
+        headers: Object.fromEntries(request.headers),
+        lookup: pinned,
+        signal,
+      },
+      (incoming) => {
+        const headers = new Headers()
+        for (const [name, value] of Object.entries(incoming.headers)) {
+          for (const item of Array.isArray(value) ? value : [value]) {
+            if (item !== undefined) headers.append(name, item)
+          }
+        }
+        const status = incoming.statusCode || 502
+        const hasBody = request.method !== 'HEAD' && !NULL_BODY_STATUSES.includes(status)
+        if (!hasBody) incoming.resume()
+        resolve(
+          new Response(hasBody ? (Readable.toWeb(incoming) as ReadableStream) : null, {
+            status,
+            statusText: incoming.statusMessage,
+            headers,
+          })
+        )
+      }
+    )
+    outgoing.on('error', reject)
+    outgoing.end(body)
+  })
+}
+
+/**
+ * fetch() for user-supplied URLs, checking the URL and every redirect and
+ * giving up after FETCH_TIMEOUT_MS
+ */
+export async function fetchPublicUrl(raw: string, init: RequestInit = {}): Promise<Response> {
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  const signal = init.signal ? AbortSignal.any([init.signal, timeout]) : timeout
+  let url = raw
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const target = await resolvePublicUrl(url)
+    const response = await requestAt(target.url, target.address, init, signal)
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response
+    }
+    await response.body?.cancel()
+    url = new URL(location, url).toString()
+  }
+  throw new UnsafeUrlError(`Too many redirects fetching ${raw}`)
+}
@@ -0,0 +1,65 @@
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+/**
+ * Guards against sending the same publish attempt twice. Each attempt can be
+ * claimed exactly once, by one process, ever: a claim is never released, so
+ * a process that crashes mid-publish leaves the attempt claimed rather than
+ * letting another process send it again.
+ */
+export interface PublishLock {
+  claim(attemptId: string): Promise<boolean>
+}
+
+const DEFAULT_LOCK_DIR = path.resolve(process.cwd(), 'data', 'publish-claims')
+
+// Claims older than this are for attempts long since finished
+const CLAIM_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+/**
+ * Claims stored as files created with O_EXCL, which the filesystem grants to
+ * exactly one caller. Scheduler processes that share `SCHEDULER_LOCK_DIR`
+ * (on one host or a shared volume) can never both publish an attempt.
+ */
+export class FileClaimLock implements PublishLock {
+  constructor(private dir = process.env.SCHEDULER_LOCK_DIR || DEFAULT_LOCK_DIR) {}
+
+  async claim(attemptId: string): Promise<boolean> {
+    if (!/^[\w-]+$/.test(attemptId)) {
+      throw new Error(`Invalid publish attempt id: ${attemptId}`)
+    }
+
+    await fs.mkdir(this.dir, { recursive: true })
+    try {
+      await fs.writeFile(
+        path.join(this.dir, `${attemptId}.claim`),
+        JSON.stringify({ host: os.hostname(), pid: process.pid, claimedAt: new Date() }),
+        { flag: 'wx' }
+      )
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false
+      throw error
+    }
+  }
+
+  /**
+   * Delete claims old enough that their attempts can't still be due
+   */
+  async prune(olderThanMs = CLAIM_RETENTION_MS): Promise<number> {
+    const cutoff = Date.now() - olderThanMs
+    const files = await fs.readdir(this.dir).catch(() => [] as string[])
+    let removed = 0
+
+    for (const file of files.filter((name) => name.endsWith('.claim'))) {
+      const filePath = path.join(this.dir, file)
+      const stats = await fs.stat(filePath).catch(() => undefined)
+      if (stats && stats.mtimeMs < cutoff) {
+        await fs.unlink(filePath).catch(() => undefined)
+        removed++
+      }
+    }
+    return removed
+  }
+}
@@ -0,0 +1,108 @@
+import path from 'node:path'
+import { JsonFileStore } from './JsonFileStore'
+import {
+  PUBLISH_PLATFORMS,
+  type PlatformCredentials,
+  type PublishPlatform,
+  type SocialPublisher,
+  resolvePublisher,
+} from './SocialPublisher'
+
+export interface PlatformAccountStatus {
+  platform: PublishPlatform
+  configured: boolean
+  // Longest text the platform accepts; undefined when it has no limit
+  maxLength?: number
+  connectedAt?: string
+}
+
+interface PublishingAccountData {
+  // workspaceId → the platforms it connected
+  workspaces: Record<string, PlatformCredentials>
+  // workspaceId → platform → when it was connected
+  connectedAt: Record<string, Partial<Record<PublishPlatform, string>>>
+}
+
+const DEFAULT_PUBLISHING_PATH = path.resolve(process.cwd(), 'data', 'publishing.json')
+
+/**
+ * The social accounts each workspace publishes to. Every workspace connects
+ * its own; a platform a workspace hasn't connected is not configured for it,
+ * whatever other workspaces have. Credentials are never returned by the API.
+ */
+export class PublishingAccountStore {
+  private store: JsonFileStore<PublishingAccountData>
+
+  constructor(filePath = process.env.PUBLISHING_DATA_PATH || DEFAULT_PUBLISHING_PATH) {
+    this.store = new JsonFileStore<PublishingAccountData>(filePath, () => ({
+      workspaces: {},
+      connectedAt: {},
+    }))
+  }
+
+  /**
+   * The publisher for `platform` with the workspace's credentials, or
+   * undefined when the workspace hasn't connected it
+   */
+  async getPublisher(
+    workspaceId: string,
+    platform: PublishPlatform
+  ): Promise<SocialPublisher | undefined> {
+    const data = await this.store.read()
+    return resolvePublisher(platform, data.workspaces[workspaceId] || {})
+  }
+
+  async listAccounts(workspaceId: string): Promise<PlatformAccountStatus[]> {
+    const data = await this.store.read()
+    const credentials = data.workspaces[workspaceId] || {}
+    return PUBLISH_PLATFORMS.map((platform) => {
+      const publisher = resolvePublisher(platform, credentials)
+      return {
+        platform,
+        configured: Boolean(publisher),
+        maxLength:
+          publisher && Number.isFinite(publisher.maxLength) ? publisher.maxLength : undefined,
+        connectedAt: publisher ? data.connectedAt[workspaceId]?.[platform] : undefined,
+      }
+    })
+  }
+
+  async connect<P extends PublishPlatform>(
+    workspaceId: string,
+    platform: P,
+    credentials: NonNullable<PlatformCredentials[P]>
+  ): Promise<void> {
+    await this.store.update((data) => {
+      data.workspaces[workspaceId] = { ...data.workspaces[workspaceId], [platform]: credentials }
+      data.connectedAt[workspaceId] = {
+        ...data.connectedAt[workspaceId],
+        [platform]: new Date().toISOString(),
+      }
+    })
+  }
+
+  /**
+   * Forget the workspace's credentials for `platform`. Returns false when it
+   * wasn't connected.
+   */
+  async disconnect(workspaceId: string, platform: PublishPlatform): Promise<boolean> {
+    let removed = false
+    await this.store.update((data) => {
+      const credentials = data.workspaces[workspaceId]
+      if (!credentials?.[platform]) return
+      delete credentials[platform]
+      delete data.connectedAt[workspaceId]?.[platform]
+      removed = true
+    })
+    return removed
+  }
+
+  async removeWorkspace(workspaceId: string): Promise<void> {
+    await this.store.update((data) => {
+      delete data.workspaces[workspaceId]
+      delete data.connectedAt[workspaceId]
+    })
+  }
+}
+
+export const publishingAccounts = new PublishingAccountStore()
@@ -0,0 +1,111 @@
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { JsonFileStore } from './JsonFileStore'
+
+export type ReviewNotificationKind =
+  // A post's slot is coming up and its content isn't approved yet
+  | 'approval_due'
+  // Approval was late, so the post moved to a later slot
+  | 'approval_rescheduled'
+  // Approval was late and the post is held until someone steps in
+  | 'approval_escalated'
+
+export interface ReviewNotification {
+  id: string
+  kind: ReviewNotificationKind
+  workspaceId?: string
+  // Reviewer or escalation contacts, e.g. email addresses
+  recipients: string[]
+  message: string
+  campaignId: string
+  postId: string
+  assetId?: string
+  dueAt: string
+  createdAt: string
+  // Whether APPROVAL_WEBHOOK_URL accepted it; false when no webhook is set
+  delivered: boolean
+}
+
+export type ReviewNotificationInput = Omit<ReviewNotification, 'id' | 'createdAt' | 'delivered'>
+
+interface NotificationData {
+  notifications: ReviewNotification[]
+}
+
+const DEFAULT_NOTIFICATION_PATH = path.resolve(process.cwd(), 'data', 'notifications.json')
+
+// Oldest notifications are dropped past this
+const MAX_STORED_NOTIFICATIONS = 1000
+
+/**
+ * Tells reviewers about approvals that are due or late. Every notification is
+ * kept for the app to show, and also posted to APPROVAL_WEBHOOK_URL when set,
+ * as JSON with a `text` field so a Slack or Teams incoming webhook can take
+ * it directly.
+ */
+export class ReviewNotifier {
+  private store: JsonFileStore<NotificationData>
+
+  constructor(
+    filePath = process.env.NOTIFICATION_DATA_PATH || DEFAULT_NOTIFICATION_PATH,
+    private webhookUrl = process.env.APPROVAL_WEBHOOK_URL
+  ) {
+    this.store = new JsonFileStore<NotificationData>(filePath, () => ({ notifications: [] }))
+  }
+
+  async notify(input: ReviewNotificationInput): Promise<ReviewNotification> {
+    const notification: ReviewNotification = {
+      ...input,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      delivered: await this.deliver(input),
+    }
+
+    await this.store.update((data) => {
+      data.notifications = [...data.notifications, notification].slice(-MAX_STORED_NOTIFICATIONS)
+    })
+    console.log(`🔔 ${notification.kind} for post ${notification.postId}: ${notification.message}`)
+    return notification
+  }
+
+  /**
+   * Newest first, optionally only those sent to one recipient
+   */
+  async listNotifications(
+    filter: { workspaceId?: string; recipient?: string } = {}
+  ): Promise<ReviewNotification[]> {
+    const data = await this.store.read()
+    return data.notifications
+      .filter((n) => !filter.workspaceId || n.workspaceId === filter.workspaceId)
+      .filter((n) => !filter.recipient || n.recipients.includes(filter.recipient))
+      .reverse()
+  }
+
+  async removeWorkspace(workspaceId: string): Promise<void> {
+    await this.store.update((data) => {
+      data.notifications = data.notifications.filter((n) => n.workspaceId !== workspaceId)
+    })
+  }
+
+  private async deliver(input: ReviewNotificationInput): Promise<boolean> {
+    if (!this.webhookUrl) return false
+
+    const mentions = input.recipients.length > 0 ? ` (${input.recipients.join(', ')})` : ''
+    try {
+      const response = await fetch(this.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: `${input.message}${mentions}`, ...input }),
+      })
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status}`)
+      }
+      return true
+    } catch (error) {
+      console.warn('⚠️ Failed to deliver review notification:', error)
+      return false
+    }
+  }
+}
+
+export const reviewNotifier = new ReviewNotifier()
@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type BookedSlot,
+  type ResolvedRule,
+  type SlotRequest,
+  allocateSlots,
+  candidateSlots,
+  postingWindows,
+} from './SlotAllocator'
+
+// A Sunday, before every window below
+const NOW = Date.parse('2026-03-01T00:00:00Z')
+
+const rule = (overrides: Partial<ResolvedRule> = {}): ResolvedRule => ({
+  id: 'twitter-test',
+  name: 'Twitter test',
+  channelType: 'twitter',
+  daysOfWeek: [1, 2, 3, 4, 5],
+  timeSlots: ['15:00', '09:00'],
+  maxPostsPerDay: 2,
+  minIntervalHours: 4,
+  timeZone: 'UTC',
+  ...overrides,
+})
+
+const rules = (twitter: ResolvedRule) => new Map([['twitter', twitter]])
+
+const request = (postId: string, overrides: Partial<SlotRequest> = {}): SlotRequest => ({
+  postId,
+  channel: 'twitter',
+  window: { from: '2026-03-02', to: '2026-03-02' },
+  campaignTitle: 'Spring launch',
+  priority: 0,
+  createdAt: '2026-02-01T00:00:00Z',
+  ...overrides,
+})
+
+const booked = (at: string, overrides: Partial<BookedSlot> = {}): BookedSlot => ({
+  postId: `booked-${at}`,
+  channel: 'twitter',
+  at,
+  campaignTitle: 'Winter sale',
+  priority: 5,
+  ...overrides,
+})
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString())
+
+describe('candidateSlots', () => {
+  it("offers the rule's times in order on its days only", () => {
+    // Saturday to Monday: the weekend is off
+    const slots = candidateSlots({ from: '2026-03-07', to: '2026-03-09' }, rule())
+    expect(iso(slots)).toEqual(['2026-03-09T09:00:00.000Z', '2026-03-09T15:00:00.000Z'])
+  })
+
+  it("reads times in the rule's time zone, across a DST change", () => {
+    const slots = candidateSlots(
+      { from: '2026-03-06', to: '2026-03-09' },
+      rule({ timeSlots: ['09:00'], timeZone: 'America/New_York' })
+    )
+    // EST before 8 March, EDT after
+    expect(iso(slots)).toEqual(['2026-03-06T14:00:00.000Z', '2026-03-09T13:00:00.000Z'])
+  })
+
+  it('leaves out slots that have passed', () => {
+    const slots = candidateSlots(
+      { from: '2026-03-02', to: '2026-03-02' },
+      rule(),
+      Date.parse('2026-03-02T10:00:00Z')
+    )
+    expect(iso(slots)).toEqual(['2026-03-02T15:00:00.000Z'])
+  })
+})
+
+describe('postingWindows', () => {
+  it('splits weekly campaigns into 7 day blocks', () => {
+    expect(postingWindows('2026-03-02', '2026-03-15', rule(), 'weekly')).toEqual([
+      { from: '2026-03-02', to: '2026-03-08' },
+      { from: '2026-03-09', to: '2026-03-15' },
+    ])
+  })
+
+  it('leaves out days the rule offers no slot on', () => {
+    expect(postingWindows('2026-03-06', '2026-03-09', rule(), 'daily')).toEqual([
+      { from: '2026-03-06', to: '2026-03-06' },
+      { from: '2026-03-09', to: '2026-03-09' },
+    ])
+  })
+})
+
+describe('allocateSlots', () => {
+  it('works around a booked post and says which slot it passed over', () => {
+    const [assignment] = allocateSlots(
+      [request('p1')],
+      [booked('2026-03-02T09:00:00Z')],
+      rules(rule()),
+      NOW
+    )
+
+    expect(assignment.scheduledFor).toBe('2026-03-02T15:00:00.000Z')
+    expect(assignment.placement.reasons[0]).toMatch(
+      /^Skipped .*09:00.*within 4h of "Winter sale" \(priority 5\)/
+    )
+    expect(assignment.placement.reasons.at(-1)).toMatch(/^Placed at .*15:00 \(UTC\)/)
+  })
+
+  it('moves to the next day once a day has its most posts', () => {
+    const [assignment] = allocateSlots(
+      [request('p1', { window: { from: '2026-03-02', to: '2026-03-03' } })],
+      [booked('2026-03-02T09:00:00Z'), booked('2026-03-02T15:00:00Z')],
+      rules(rule({ minIntervalHours: 0 })),
+      NOW
+    )
+
+    expect(assignment.scheduledFor).toBe('2026-03-03T09:00:00.000Z')
+    expect(assignment.placement.reasons[0]).toContain('already has 2 post(s) that day (max 2)')
+  })
+
+  it('keeps posts of one channel apart by the minimum interval', () => {
+    const assignments = allocateSlots(
+      [request('p1'), request('p2'), request('p3')],
+      [],
+      rules(rule({ timeSlots: ['09:00', '11:00', '15:00'], maxPostsPerDay: 3 })),
+      NOW
+    )
+
+    expect(assignments.map((a) => a.scheduledFor)).toEqual([
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-02T15:00:00.000Z',
+      undefined,
+    ])
+  })
+
+  it('ignores posts booked on other channels', () => {
+    const [assignment] = allocateSlots(
+      [request('p1')],
+      [booked('2026-03-02T09:00:00Z', { channel: 'facebook' })],
+      rules(rule()),
+      NOW
+    )
+    expect(assignment.scheduledFor).toBe('2026-03-02T09:00:00.000Z')
+  })
+
+  it('gives a contested slot to the higher priority campaign', () => {
+    const assignments = allocateSlots(
+      [
+        request('low', { campaignTitle: 'Low', priority: 1 }),
+        request('high', { campaignTitle: 'High', priority: 3 }),
+      ],
+      [],
+      rules(rule({ timeSlots: ['09:00'], maxPostsPerDay: 1 })),
+      NOW
+    )
+    const byPost = new Map(assignments.map((a) => [a.postId, a]))
+
+    expect(byPost.get('high')?.scheduledFor).toBe('2026-03-02T09:00:00.000Z')
+    expect(byPost.get('low')?.scheduledFor).toBeUndefined()
+    expect(byPost.get('low')?.placement.reasons).toEqual([
+      expect.stringContaining('from "High" (priority 3)'),
+      'No open "Twitter test" slot from 2026-03-02 to 2026-03-02',
+    ])
+  })
+
+  it('gives a tied slot to the older schedule', () => {
+    const assignments = allocateSlots(
+      [
+        request('newer', { createdAt: '2026-02-10T00:00:00Z' }),
+        request('older', { createdAt: '2026-02-01T00:00:00Z' }),
+      ],
+      [],
+      rules(rule({ timeSlots: ['09:00'], maxPostsPerDay: 1 })),
+      NOW
+    )
+    expect(assignments.find((a) => a.scheduledFor)?.postId).toBe('older')
+  })
+
+  it('leaves posts unplaced when their slots have passed or there is no rule', () => {
+    const [late, unruled] = allocateSlots(
+      [request('late'), request('unruled', { channel: 'tiktok' })],
+      [],
+      rules(rule()),
+      Date.parse('2026-03-03T00:00:00Z')
+    )
+
+    expect(late.scheduledFor).toBeUndefined()
+    expect(late.placement.reasons).toEqual([
+      'No open "Twitter test" slot from 2026-03-02 to 2026-03-02, all of its slots have passed',
+    ])
+    expect(unruled).toEqual({
+      postId: 'unruled',
+      placement: { reasons: ['No scheduling rule for tiktok'] },
+    })
+  })
+})
@@ -0,0 +1,220 @@
+import type { ScheduleFrequency, SchedulingRule } from './CampaignScheduler'
+import {
+  type LocalDate,
+  compareLocalDates,
+  formatLocalDate,
+  formatZoned,
+  localDateOf,
+  parseLocalDate,
+  shiftLocalDate,
+  weekdayOf,
+  zonedTimeToUtc,
+} from './ZonedTime'
+
+/**
+ * The local dates, inclusive, a post may be placed on. Kept as dates rather
+ * than instants so a post follows its workspace when the time zone changes.
+ */
+export interface SlotWindow {
+  from: string // YYYY-MM-DD
+  to: string
+}
+
+// A rule with its time zone settled, from the rule itself or its workspace
+export type ResolvedRule = SchedulingRule & { timeZone: string }
+
+export interface SlotPlacement {
+  ruleId?: string
+  timeZone?: string
+  // Why the post is where it is, in order: the slots passed over, then the outcome
+  reasons: string[]
+}
+
+export interface SlotRequest {
+  postId: string
+  channel: string
+  window: SlotWindow
+  campaignTitle: string
+  priority: number
+  // Breaks priority ties in favor of the older schedule
+  createdAt: string
+}
+
+// A post that keeps its time: published, sending, pinned by hand or retrying
+export interface BookedSlot {
+  postId: string
+  channel: string
+  at: string
+  campaignTitle: string
+  priority: number
+}
+
+export interface SlotAssignment {
+  postId: string
+  // Missing when no slot in the window satisfies the rule
+  scheduledFor?: string
+  placement: SlotPlacement
+}
+
+interface CalendarEntry extends BookedSlot {
+  time: number
+  day: string
+}
+
+// Skipped slots listed per post before the rest are summarized
+const MAX_SKIP_REASONS = 5
+
+const toWindowDates = (window: SlotWindow, timeZone: string) => ({
+  from: parseLocalDate(window.from, timeZone),
+  to: parseLocalDate(window.to, timeZone),
+})
+
+const describe = (entry: CalendarEntry) => `"${entry.campaignTitle}" (priority ${entry.priority})`
+
+/**
+ * Every slot the rule offers within the window that isn't already past
+ */
+export function candidateSlots(window: SlotWindow, rule: ResolvedRule, notBefore = 0): Date[] {
+  const { from, to } = toWindowDates(window, rule.timeZone)
+  const times = rule.timeSlots
+    .map((slot) => slot.split(':').map(Number))
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1])
+  const slots: Date[] = []
+
+  for (let day = from; compareLocalDates(day, to) <= 0; day = shiftLocalDate(day, 1)) {
+    if (!rule.daysOfWeek.includes(weekdayOf(day))) continue
+    for (const [hours, minutes] of times) {
+      const at = zonedTimeToUtc(day, hours, minutes, rule.timeZone)
+      if (at.getTime() >= notBefore) slots.push(at)
+    }
+  }
+  return slots
+}
+
+/**
+ * Split a campaign's dates into one window per post for a channel: each
+ * posting day when daily, otherwise 7 or 14 day blocks or calendar months.
+ * Windows the rule offers no slot in are left out.
+ */
+export function postingWindows(
+  startDate: string,
+  endDate: string,
+  rule: ResolvedRule,
+  frequency: ScheduleFrequency
+): SlotWindow[] {
+  const last = parseLocalDate(endDate, rule.timeZone)
+  const windows: SlotWindow[] = []
+
+  let day = parseLocalDate(startDate, rule.timeZone)
+  while (compareLocalDates(day, last) <= 0) {
+    const next: LocalDate =
+      frequency === 'weekly'
+        ? shiftLocalDate(day, 7)
+        : frequency === 'biweekly'
+          ? shiftLocalDate(day, 14)
+          : frequency === 'monthly'
+            ? shiftLocalDate(day, 0, 1)
+            : shiftLocalDate(day, 1)
+    const windowEnd = shiftLocalDate(next, -1)
+    const window = {
+      from: formatLocalDate(day),
+      to: formatLocalDate(compareLocalDates(windowEnd, last) < 0 ? windowEnd : last),
+    }
+
+    if (candidateSlots(window, rule).length > 0) windows.push(window)
+    day = next
+  }
+  return windows
+}
+
+/**
+ * Why a slot can't take another post on its channel, if it can't
+ */
+function findConflict(at: Date, entries: CalendarEntry[], rule: ResolvedRule): string | undefined {
+  const day = formatLocalDate(localDateOf(at, rule.timeZone))
+  const sameDay = entries.filter((entry) => entry.day === day)
+  if (sameDay.length >= rule.maxPostsPerDay) {
+    return `${rule.channelType} already has ${sameDay.length} post(s) that day (max ${rule.maxPostsPerDay}), from ${sameDay.map(describe).join(', ')}`
+  }
+
+  const minIntervalMs = rule.minIntervalHours * 3_600_000
+  const tooClose = entries.find((entry) => Math.abs(entry.time - at.getTime()) < minIntervalMs)
+  if (tooClose) {
+    return `within ${rule.minIntervalHours}h of ${describe(tooClose)} at ${formatZoned(new Date(tooClose.time), rule.timeZone)}`
+  }
+  return undefined
+}
+
+/**
+ * Place posts into rule slots so that no channel exceeds its rule's posts
+ * per day or comes closer than its minimum interval. Requests are placed
+ * greedily, highest campaign priority first (older schedules first on a
+ * tie), each in the earliest open slot of its window; lower priority posts
+ * take what is left or stay unplaced. Booked posts hold their slots.
+ */
+export function allocateSlots(
+  requests: SlotRequest[],
+  booked: BookedSlot[],
+  rules: Map<string, ResolvedRule>,
+  now = Date.now()
+): SlotAssignment[] {
+  const calendar = new Map<string, CalendarEntry[]>()
+  const book = (slot: BookedSlot, rule: ResolvedRule) => {
+    const time = Date.parse(slot.at)
+    const entries = calendar.get(slot.channel) || []
+    entries.push({
+      ...slot,
+      time,
+      day: formatLocalDate(localDateOf(new Date(time), rule.timeZone)),
+    })
+    calendar.set(slot.channel, entries)
+  }
+
+  for (const slot of booked) {
+    const rule = rules.get(slot.channel)
+    if (rule) book(slot, rule)
+  }
+
+  const ordered = [...requests].sort(
+    (a, b) =>
+      b.priority - a.priority ||
+      a.createdAt.localeCompare(b.createdAt) ||
+      a.window.from.localeCompare(b.window.from)
+  )
+
+  return ordered.map((request): SlotAssignment => {
+    const rule = rules.get(request.channel)
+    if (!rule) {
+      return {
+        postId: request.postId,
+        placement: { reasons: [`No scheduling rule for ${request.channel}`] },
+      }
+    }
+
+    const skipped: string[] = []
+    const at = candidateSlots(request.window, rule, now).find((slot) => {
+      const conflict = findConflict(slot, calendar.get(request.channel) || [], rule)
+      if (conflict) skipped.push(`Skipped ${formatZoned(slot, rule.timeZone)}: ${conflict}`)
+      return !conflict
+    })
+
+    const reasons = skipped.slice(0, MAX_SKIP_REASONS)
+    if (skipped.length > MAX_SKIP_REASONS) {
+      reasons.push(`Skipped ${skipped.length - MAX_SKIP_REASONS} more taken slot(s)`)
+    }
+    const placement = { ruleId: rule.id, timeZone: rule.timeZone, reasons }
+
+    if (!at) {
+      reasons.push(
+        `No open "${rule.name}" slot from ${request.window.from} to ${request.window.to}${skipped.length ? '' : ', all of its slots have passed'}`
+      )
+      return { postId: request.postId, placement }
+    }
+
+    book({ ...request, at: at.toISOString() }, rule)
+    reasons.push(
+      `Placed at ${formatZoned(at, rule.timeZone)} (${rule.timeZone}), the first open "${rule.name}" slot from ${request.window.from}`
+    )
+    return { postId: request.postId, scheduledFor: at.toISOString(), placement }
+  })
+}
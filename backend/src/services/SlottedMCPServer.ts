@@ -0,0 +1,253 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { z } from 'zod'
+import { resolveProviderConfigsFromEnv } from './AIProvider'
+import type { Permission } from './AccessControl'
+import { type AuditActor, auditLog, diffFields } from './AuditLog'
+import { BrandAnalyzer } from './BrandAnalyzer'
+import type { CompanyContextStore, CompanyDNA } from './CompanyContextStore'
+import { type AIConfig, ContentOrchestrator } from './ContentOrchestrator'
+import { entitlements } from './Entitlements'
+
+export interface SlottedMCPServerOptions {
+  store: CompanyContextStore
+  aiConfig?: AIConfig
+  // Workspace that tool calls record AI usage against. Without one the
+  // generation tools refuse to run.
+  workspaceId?: string
+  // Checked before every resource read and tool call, rejecting to refuse it.
+  // Sessions opened over HTTP check the caller's current role; the stdio
+  // server, which the operator runs, allows everything.
+  authorize?: (permission: Permission) => Promise<void>
+  // Who saved Company DNA or generated content, for the audit log
+  actor?: AuditActor
+}
+
+const OPERATOR_ACTOR: AuditActor = { name: 'MCP server', kind: 'system' }
+
+/**
+ * Resolve an AI configuration from the backend environment: the first
+ * provider in `AI_PROVIDER_CHAIN` with an API key. Anthropic comes first by
+ * default for brand work, matching the frontend orchestrator.
+ */
+export function resolveAIConfigFromEnv(): AIConfig | undefined {
+  return resolveProviderConfigsFromEnv()[0]
+}
+
+const SOCIAL_PLATFORMS = ['linkedin', 'twitter', 'facebook', 'instagram']
+
+const jsonResult = (data: unknown) => ({
+  content: [{ type: 'text' as const, text: JSON.stringify(data, null, 2) }],
+})
+
+const errorResult = (error: unknown) => ({
+  isError: true,
+  content: [
+    {
+      type: 'text' as const,
+      text: error instanceof Error ? error.message : 'Tool execution failed',
+    },
+  ],
+})
+
+/**
+ * Build an MCP server exposing Company DNA resources and the Slotted
+ * generation tools. A fresh instance is needed per transport connection.
+ */
+export function createSlottedMCPServer(options: SlottedMCPServerOptions): McpServer {
+  const { store } = options
+  const aiConfig = options.aiConfig || resolveAIConfigFromEnv()
+  const authorize = options.authorize || (async () => {})
+  const actor = options.actor || OPERATOR_ACTOR
+
+  const server = new McpServer({ name: 'slotted-mcp', version: '2.0.0' })
+
+  const requireContext = async (): Promise<CompanyDNA> => {
+    const context = await store.getContext()
+    if (!context) {
+      throw new Error('No company context available. Please extract company DNA first.')
+    }
+    return context
+  }
+
+  const requireWorkspace = (): string => {
+    if (!options.workspaceId) {
+      throw new Error('Generation needs a workspace to charge. Set MCP_WORKSPACE_ID.')
+    }
+    return options.workspaceId
+  }
+
+  const registerContextResource = (
+    name: string,
+    uri: string,
+    title: string,
+    select: (context: CompanyDNA) => unknown
+  ) => {
+    server.registerResource(
+      name,
+      uri,
+      { title, description: `${title} for the active company`, mimeType: 'application/json' },
+      async (resourceUri) => {
+        await authorize('workspace:view')
+        const context = await requireContext()
+        return {
+          contents: [
+            {
+              uri: resourceUri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify(select(context), null, 2),
+            },
+          ],
+        }
+      }
+    )
+  }
+
+  registerContextResource('company-profile', 'company://profile', 'Company Profile', (ctx) => ({
+    company: ctx.company,
+    lastUpdated: ctx.metadata.extractedAt,
+  }))
+
+  registerContextResource('brand-dna', 'company://brand-dna', 'Brand DNA', (ctx) => ({
+    brandDNA: ctx.brandDNA,
+    confidenceScore: ctx.metadata.confidenceScore,
+  }))
+
+  registerContextResource(
+    'marketing-insights',
+    'company://marketing-insights',
+    'Marketing Insights',
+    (ctx) => ({
+      insights: ctx.marketingInsights,
+      recommendedChannels: ctx.marketingInsights.recommendedChannels,
+    })
+  )
+
+  registerContextResource('company-dna', 'company://dna', 'Complete Company DNA', (ctx) => ctx)
+
+  server.registerTool(
+    'extract_company_dna',
+    {
+      description: 'Extract comprehensive company DNA from website and basic information',
+      inputSchema: {
+        companyName: z.string().describe('Company name'),
+        website: z.string().url().optional().describe('Company website URL'),
+        industry: z.string().optional().describe('Company industry'),
+        description: z.string().optional().describe('Company description'),
+        save: z.boolean().optional().describe('Store the result as the active company context'),
+      },
+    },
+    async ({ save, ...input }) => {
+      try {
+        await authorize('content:generate')
+        if (save) await authorize('workspace:edit')
+        const workspaceId = requireWorkspace()
+        const dna = await new BrandAnalyzer(aiConfig, workspaceId).extractCompanyDNA(input)
+        if (save) {
+          const previous = await store.getContext()
+          const saved = await store.setContext(dna)
+          server.sendResourceListChanged()
+          const changes = diffFields(previous, saved)
+          await auditLog.record({
+            workspaceId,
+            actor,
+            action: 'context.published',
+            entity: { type: 'context', id: workspaceId },
+            summary: `Saved extracted Company DNA for MCP clients (${changes.length} field(s) changed)`,
+            changes,
+            metadata: { via: 'mcp' },
+          })
+        }
+        return jsonResult(dna)
+      } catch (error) {
+        return errorResult(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'analyze_brand_voice',
+    {
+      description: 'Analyze brand voice and personality from company content',
+      inputSchema: {
+        content: z.string().describe('Content to analyze for brand voice'),
+        context: z.record(z.any()).optional().describe('Additional context for analysis'),
+      },
+    },
+    async ({ content, context }) => {
+      try {
+        await authorize('content:generate')
+        const analysis = await new BrandAnalyzer(aiConfig, requireWorkspace()).analyzeBrandVoice(
+          content,
+          context
+        )
+        return jsonResult(analysis)
+      } catch (error) {
+        return errorResult(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'generate_marketing_content',
+    {
+      description: 'Generate marketing content based on company DNA',
+      inputSchema: {
+        contentType: z
+          .enum(['blog', 'social', 'email', 'video-script'])
+          .describe('Type of content to generate'),
+        topic: z.string().describe('Content topic or theme'),
+        length: z.number().optional().describe('Desired content length'),
+        tone: z
+          .enum(['professional', 'casual', 'friendly', 'authoritative'])
+          .optional()
+          .describe('Content tone'),
+      },
+    },
+    async ({ contentType, topic, length, tone }) => {
+      try {
+        await authorize('content:generate')
+        const workspaceId = requireWorkspace()
+        const mcpContext = store.toMCPContext(await requireContext())
+        const orchestrator = new ContentOrchestrator(aiConfig, workspaceId)
+        const toneInstruction = tone ? `Use a ${tone} tone.` : undefined
+
+        const generate = async () => {
+          switch (contentType) {
+            case 'blog':
+              // A blog post uses one of the workspace's monthly analyses
+              await entitlements.consumeAnalysis(workspaceId)
+              return orchestrator.generateBlog(mcpContext, topic, length, toneInstruction)
+            case 'social': {
+              const platforms = mcpContext.marketingGoals.channels.primary
+                .map((channel: string) => channel.toLowerCase())
+                .filter((channel: string) => SOCIAL_PLATFORMS.includes(channel))
+              return orchestrator.generateSocialPosts(
+                mcpContext,
+                topic,
+                platforms.length > 0 ? platforms : undefined
+              )
+            }
+            case 'email':
+              return orchestrator.generateEmail(mcpContext, topic)
+            case 'video-script':
+              return orchestrator.generateVideoScript(mcpContext, topic)
+          }
+        }
+        const result = await generate()
+        await auditLog.record({
+          workspaceId,
+          actor,
+          action: 'content.generated',
+          entity: { type: 'content' },
+          summary: `Generated mcp/${contentType} on "${topic}"`,
+          metadata: { operation: `mcp/${contentType}`, topic, via: 'mcp' },
+        })
+        return jsonResult(result)
+      } catch (error) {
+        return errorResult(error)
+      }
+    }
+  )
+
+  return server
+}
@@ -0,0 +1,866 @@
+import { createHmac, randomUUID } from 'node:crypto'
+import { z } from 'zod'
+import { UnsafeUrlError, fetchPublicUrl } from './PublicUrl'
+
+export const PUBLISH_PLATFORMS = [
+  'linkedin',
+  'twitter',
+  'facebook',
+  'instagram',
+  'webhook',
+] as const
+
+export type PublishPlatform = (typeof PUBLISH_PLATFORMS)[number]
+
+export const isPublishPlatform = (value: string): value is PublishPlatform =>
+  PUBLISH_PLATFORMS.includes(value as PublishPlatform)
+
+export const PostMediaSchema = z.object({
+  type: z.enum(['image', 'video', 'gif']),
+  url: z.string().url(),
+  alt: z.string().optional(),
+})
+
+/**
+ * A scheduled post as the publishers receive it. `id` is the scheduler's own
+ * post id, used to make deliveries traceable on the platform side.
+ */
+export const PublishablePostSchema = z.object({
+  id: z.string().min(1),
+  campaignId: z.string().optional(),
+  title: z.string().optional(),
+  text: z.string(),
+  media: z.array(PostMediaSchema).default([]),
+  hashtags: z.array(z.string()).default([]),
+  mentions: z.array(z.string()).default([]),
+})
+
+export type PostMedia = z.infer<typeof PostMediaSchema>
+export type PublishablePost = z.infer<typeof PublishablePostSchema>
+
+/**
+ * What each platform needs to publish for a workspace. Workspaces connect
+ * their own accounts; nothing here is shared between workspaces.
+ */
+export const PlatformCredentialSchemas = {
+  linkedin: z.object({
+    accessToken: z.string().min(1),
+    // urn:li:person:… or urn:li:organization:…
+    authorUrn: z.string().regex(/^urn:li:(person|organization):\S+$/),
+  }),
+  twitter: z.object({
+    // OAuth 2.0 user access token with tweet.write and media.write scopes
+    accessToken: z.string().min(1),
+  }),
+  facebook: z.object({
+    pageId: z.string().min(1),
+    pageAccessToken: z.string().min(1),
+  }),
+  instagram: z.object({
+    // Instagram professional account id connected to the Facebook page
+    accountId: z.string().min(1),
+    // Defaults to the Facebook page access token
+    accessToken: z.string().min(1).optional(),
+  }),
+  webhook: z.object({
+    url: z.string().url(),
+    // Signs the body as X-Slotted-Signature: sha256=<hex HMAC>
+    secret: z.string().min(1).optional(),
+  }),
+} satisfies Record<PublishPlatform, z.ZodTypeAny>
+
+export type PlatformCredentials = {
+  [P in PublishPlatform]?: z.infer<(typeof PlatformCredentialSchemas)[P]>
+}
+
+export interface PublishResult {
+  platform: PublishPlatform
+  // The platform's id for the created post, e.g. a tweet id or LinkedIn URN
+  platformPostId: string
+  url?: string
+  // Platform ids of the uploaded media, in post order
+  mediaIds: string[]
+  publishedAt: string
+}
+
+/**
+ * Publishes posts to one platform. The scheduler talks to platforms only
+ * through this interface, so a stub server can stand in for the real APIs.
+ */
+export interface SocialPublisher {
+  readonly platform: PublishPlatform
+  // Longest text the platform accepts, after hashtags and mentions are added
+  readonly maxLength: number
+  publish(post: PublishablePost): Promise<PublishResult>
+}
+
+/**
+ * Publishing failed. `retryable` is false for errors that will fail the same
+ * way again (bad content, revoked access); `retryAfterMs` is the wait the
+ * platform asked for, when it said.
+ */
+export class PublishError extends Error {
+  constructor(
+    public platform: string,
+    message: string,
+    public options: {
+      code: string
+      status?: number
+      retryable: boolean
+      retryAfterMs?: number
+    }
+  ) {
+    super(`${platform}: ${message}`)
+    this.name = 'PublishError'
+  }
+
+  get code(): string {
+    return this.options.code
+  }
+
+  get retryable(): boolean {
+    return this.options.retryable
+  }
+
+  get retryAfterMs(): number | undefined {
+    return this.options.retryAfterMs
+  }
+}
+
+interface ErrorDetail {
+  message?: string
+  code?: string
+  retryable?: boolean
+  retryAfterMs?: number
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504]
+
+const asText = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+/**
+ * The fields a platform's error body may have. The body is the platform's
+ * JSON, unchecked, so every field stays unknown until it's read.
+ */
+type ErrorBody<Fields extends string> = { [Field in Fields]?: unknown }
+
+/**
+ * Milliseconds to wait from a Retry-After header, given either as seconds or
+ * as an HTTP date
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Fetch a platform API, turning network failures and error responses into
+ * PublishErrors. `describeError` reads the platform's own error body; `send`
+ * is fetchPublicUrl for URLs that came from users.
+ */
+async function platformFetch<Body extends object = object>(
+  platform: string,
+  url: string,
+  init: RequestInit,
+  describeError: (body: Body, response: Response) => ErrorDetail = () => ({}),
+  send: (url: string, init: RequestInit) => Promise<Response> = fetch
+): Promise<Response> {
+  let response: Response
+  try {
+    response = await send(url, init)
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) {
+      throw new PublishError(platform, error.message, { code: 'unsafe_url', retryable: false })
+    }
+    throw new PublishError(
+      platform,
+      `request failed: ${error instanceof Error ? error.message : error}`,
+      { code: 'network_error', retryable: true }
+    )
+  }
+  if (response.ok) return response
+
+  const raw = await response.text().catch(() => '')
+  let body: unknown
+  try {
+    body = JSON.parse(raw)
+  } catch {
+    body = undefined
+  }
+
+  const detail = describeError(
+    (typeof body === 'object' && body !== null ? body : {}) as Body,
+    response
+  )
+  throw new PublishError(
+    platform,
+    `responded ${response.status}: ${detail.message || raw.slice(0, 200) || response.statusText}`,
+    {
+      code: detail.code || (response.status === 429 ? 'rate_limited' : `http_${response.status}`),
+      status: response.status,
+      retryable: detail.retryable ?? RETRYABLE_STATUSES.includes(response.status),
+      retryAfterMs: detail.retryAfterMs ?? parseRetryAfter(response.headers.get('retry-after')),
+    }
+  )
+}
+
+const contentError = (platform: string, code: string, message: string) =>
+  new PublishError(platform, message, { code, retryable: false })
+
+/**
+ * Post text with hashtags and mentions that aren't already in it appended
+ */
+export function composeText(post: PublishablePost): string {
+  const tags = [
+    ...post.mentions.map((mention) => `@${mention.replace(/^@/, '')}`),
+    ...post.hashtags.map((tag) => `#${tag.replace(/^#/, '')}`),
+  ].filter((tag) => !post.text.includes(tag))
+
+  return tags.length > 0 ? `${post.text.trimEnd()}\n\n${tags.join(' ')}` : post.text
+}
+
+function assertLength(platform: string, length: number, maxLength: number) {
+  if (length > maxLength) {
+    throw contentError(
+      platform,
+      'text_too_long',
+      `post is ${length} characters; the limit is ${maxLength}`
+    )
+  }
+}
+
+// Characters, not UTF-16 units, so emoji count once
+const characterCount = (text: string) => Array.from(text).length
+
+/**
+ * Download a media file so it can be uploaded to platforms that don't fetch
+ * from a URL themselves. Media URLs come from users, so internal addresses
+ * are refused.
+ */
+async function downloadMedia(
+  platform: string,
+  media: PostMedia
+): Promise<{ data: Blob; contentType: string }> {
+  const response = await platformFetch(
+    `${platform} media`,
+    media.url,
+    {},
+    (_body, res) => ({
+      code: 'media_unavailable',
+      message: `could not download ${media.url}`,
+      retryable: res.status >= 500,
+    }),
+    fetchPublicUrl
+  )
+  const contentType = response.headers.get('content-type') || 'application/octet-stream'
+  return { data: new Blob([await response.arrayBuffer()], { type: contentType }), contentType }
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// LinkedIn -------------------------------------------------------------------
+
+interface LinkedInConfig {
+  accessToken: string
+  // urn:li:person:… or urn:li:organization:…
+  authorUrn: string
+  apiUrl?: string
+  apiVersion?: string
+}
+
+// Characters LinkedIn's "little text" commentary format treats as markup
+const LINKEDIN_RESERVED = /[\\|{}@[\]()<>#*_~]/g
+
+export class LinkedInPublisher implements SocialPublisher {
+  readonly platform = 'linkedin'
+  readonly maxLength = 3000
+
+  constructor(private config: LinkedInConfig) {}
+
+  private get apiUrl(): string {
+    return this.config.apiUrl || 'https://api.linkedin.com'
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      Authorization: `Bearer ${this.config.accessToken}`,
+      'LinkedIn-Version': this.config.apiVersion || '202405',
+      'X-Restli-Protocol-Version': '2.0.0',
+      'Content-Type': 'application/json',
+    }
+  }
+
+  private describeError = (body: ErrorBody<'message' | 'serviceErrorCode'>): ErrorDetail => ({
+    message: asText(body.message),
+    code: body.serviceErrorCode !== undefined ? `linkedin_${body.serviceErrorCode}` : undefined,
+  })
+
+  async publish(post: PublishablePost): Promise<PublishResult> {
+    const text = composeText(post)
+    assertLength(this.platform, characterCount(text), this.maxLength)
+    if (post.media.some((media) => media.type === 'video')) {
+      throw contentError(this.platform, 'unsupported_media', 'video posts are not supported yet')
+    }
+
+    const images: { id: string; altText?: string }[] = []
+    for (const media of post.media) {
+      images.push({ id: await this.uploadImage(media), altText: media.alt })
+    }
+
+    const response = await platformFetch(
+      this.platform,
+      `${this.apiUrl}/rest/posts`,
+      {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({
+          author: this.config.authorUrn,
+          commentary: text.replace(LINKEDIN_RESERVED, '\\$&'),
+          visibility: 'PUBLIC',
+          distribution: {
+            feedDistribution: 'MAIN_FEED',
+            targetEntities: [],
+            thirdPartyDistributionChannels: [],
+          },
+          lifecycleState: 'PUBLISHED',
+          isReshareDisabledByAuthor: false,
+          ...(images.length === 1 && { content: { media: images[0] } }),
+          ...(images.length > 1 && { content: { multiImage: { images } } }),
+        }),
+      },
+      this.describeError
+    )
+
+    const urn = response.headers.get('x-restli-id')
+    if (!urn) {
+      throw new PublishError(this.platform, 'response did not include the post id', {
+        code: 'missing_post_id',
+        retryable: false,
+      })
+    }
+
+    return {
+      platform: this.platform,
+      platformPostId: urn,
+      url: `https://www.linkedin.com/feed/update/${urn}`,
+      mediaIds: images.map((image) => image.id),
+      publishedAt: new Date().toISOString(),
+    }
+  }
+
+  private async uploadImage(media: PostMedia): Promise<string> {
+    const init = await platformFetch(
+      this.platform,
+      `${this.apiUrl}/rest/images?action=initializeUpload`,
+      {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({ initializeUploadRequest: { owner: this.config.authorUrn } }),
+      },
+      this.describeError
+    )
+    const { value } = (await init.json()) as { value: { uploadUrl: string; image: string } }
+
+    const { data, contentType } = await downloadMedia(this.platform, media)
+    await platformFetch(
+      this.platform,
+      value.uploadUrl,
+      {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${this.config.accessToken}`,
+          'Content-Type': contentType,
+        },
+        body: data,
+      },
+      this.describeError
+    )
+
+    return value.image
+  }
+}
+
+// X / Twitter ----------------------------------------------------------------
+
+interface TwitterConfig {
+  // OAuth 2.0 user access token with tweet.write and media.write scopes
+  accessToken: string
+  apiUrl?: string
+}
+
+// Every link counts as this many characters, however long it is
+const TWITTER_URL_LENGTH = 23
+const TWITTER_MAX_IMAGES = 4
+
+export class TwitterPublisher implements SocialPublisher {
+  readonly platform = 'twitter'
+  readonly maxLength = 280
+
+  constructor(private config: TwitterConfig) {}
+
+  private get apiUrl(): string {
+    return this.config.apiUrl || 'https://api.x.com'
+  }
+
+  private describeError = (
+    body: ErrorBody<'detail' | 'errors' | 'title'>,
+    response: Response
+  ): ErrorDetail => {
+    const reset = Number(response.headers.get('x-rate-limit-reset'))
+    const [first] = Array.isArray(body.errors) ? body.errors : []
+    return {
+      message:
+        asText(body.detail) ||
+        asText((first as ErrorBody<'message'> | undefined)?.message) ||
+        asText(body.title),
+      retryAfterMs:
+        response.status === 429 && reset > 0 ? Math.max(0, reset * 1000 - Date.now()) : undefined,
+    }
+  }
+
+  async publish(post: PublishablePost): Promise<PublishResult> {
+    const text = composeText(post)
+    const weightedLength = characterCount(
+      text.replace(/https?:\/\/\S+/g, 'x'.repeat(TWITTER_URL_LENGTH))
+    )
+    assertLength(this.platform, weightedLength, this.maxLength)
+    this.checkMedia(post.media)
+
+    const mediaIds: string[] = []
+    for (const media of post.media) {
+      mediaIds.push(await this.uploadMedia(media))
+    }
+
+    const response = await platformFetch(
+      this.platform,
+      `${this.apiUrl}/2/tweets`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.config.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          text,
+          ...(mediaIds.length > 0 && { media: { media_ids: mediaIds } }),
+        }),
+      },
+      this.describeError
+    )
+    const { data } = (await response.json()) as { data: { id: string } }
+
+    return {
+      platform: this.platform,
+      platformPostId: data.id,
+      url: `https://x.com/i/web/status/${data.id}`,
+      mediaIds,
+      publishedAt: new Date().toISOString(),
+    }
+  }
+
+  private checkMedia(media: PostMedia[]): void {
+    if (media.some((item) => item.type === 'video')) {
+      throw contentError(this.platform, 'unsupported_media', 'video posts are not supported yet')
+    }
+    if (media.some((item) => item.type === 'gif') && media.length > 1) {
+      throw contentError(this.platform, 'too_many_media', 'a GIF must be the only media in a post')
+    }
+    if (media.length > TWITTER_MAX_IMAGES) {
+      throw contentError(
+        this.platform,
+        'too_many_media',
+        `posts can have at most ${TWITTER_MAX_IMAGES} images`
+      )
+    }
+  }
+
+  private async uploadMedia(media: PostMedia): Promise<string> {
+    const { data } = await downloadMedia(this.platform, media)
+    const form = new FormData()
+    form.append('media', data)
+    form.append('media_category', media.type === 'gif' ? 'tweet_gif' : 'tweet_image')
+
+    const response = await platformFetch(
+      this.platform,
+      `${this.apiUrl}/2/media/upload`,
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${this.config.accessToken}` },
+        body: form,
+      },
+      this.describeError
+    )
+    const { data: uploaded } = (await response.json()) as { data: { id: string } }
+
+    if (media.alt) {
+      await platformFetch(
+        this.platform,
+        `${this.apiUrl}/2/media/metadata`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${this.config.accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ id: uploaded.id, metadata: { alt_text: { text: media.alt } } }),
+        },
+        this.describeError
+      )
+    }
+
+    return uploaded.id
+  }
+}
+
+// Facebook Pages and Instagram (Graph API) -----------------------------------
+
+// Graph error codes for throttling and temporary outages
+const GRAPH_RETRYABLE_CODES = [1, 2, 4, 17, 32, 341, 613]
+
+const describeGraphError = (body: ErrorBody<'error'>): ErrorDetail => {
+  const error: ErrorBody<'error_user_msg' | 'message' | 'code' | 'is_transient'> =
+    typeof body.error === 'object' && body.error !== null ? body.error : {}
+  const code = typeof error.code === 'number' ? error.code : undefined
+  return {
+    message: asText(error.error_user_msg) || asText(error.message),
+    code: error.code !== undefined ? `graph_${error.code}` : undefined,
+    retryable:
+      error.is_transient === true ||
+      (code !== undefined && GRAPH_RETRYABLE_CODES.includes(code)) ||
+      undefined,
+  }
+}
+
+async function graphPost<T>(
+  platform: string,
+  graphUrl: string,
+  path: string,
+  accessToken: string,
+  params: Record<string, unknown>
+): Promise<T> {
+  const response = await platformFetch(
+    platform,
+    `${graphUrl}/${path}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...params, access_token: accessToken }),
+    },
+    describeGraphError
+  )
+  return (await response.json()) as T
+}
+
+async function graphGet<T>(
+  platform: string,
+  graphUrl: string,
+  path: string,
+  accessToken: string,
+  fields: string
+): Promise<T> {
+  const query = new URLSearchParams({ fields, access_token: accessToken })
+  const response = await platformFetch(
+    platform,
+    `${graphUrl}/${path}?${query}`,
+    {},
+    describeGraphError
+  )
+  return (await response.json()) as T
+}
+
+const DEFAULT_GRAPH_URL = 'https://graph.facebook.com/v19.0'
+
+interface FacebookConfig {
+  pageId: string
+  pageAccessToken: string
+  graphUrl?: string
+}
+
+export class FacebookPublisher implements SocialPublisher {
+  readonly platform = 'facebook'
+  readonly maxLength = 63206
+
+  constructor(private config: FacebookConfig) {}
+
+  private post<T>(path: string, params: Record<string, unknown>): Promise<T> {
+    return graphPost<T>(
+      this.platform,
+      this.config.graphUrl || DEFAULT_GRAPH_URL,
+      path,
+      this.config.pageAccessToken,
+      params
+    )
+  }
+
+  async publish(post: PublishablePost): Promise<PublishResult> {
+    const message = composeText(post)
+    assertLength(this.platform, characterCount(message), this.maxLength)
+
+    const { pageId } = this.config
+    const videos = post.media.filter((media) => media.type === 'video')
+    if (videos.length > 0 && post.media.length > 1) {
+      throw contentError(
+        this.platform,
+        'too_many_media',
+        'a video must be the only media in a post'
+      )
+    }
+
+    let platformPostId: string
+    const mediaIds: string[] = []
+
+    if (videos.length === 1) {
+      const video = await this.post<{ id: string }>(`${pageId}/videos`, {
+        file_url: videos[0].url,
+        description: message,
+        ...(post.title && { title: post.title }),
+      })
+      platformPostId = video.id
+      mediaIds.push(video.id)
+    } else {
+      // Photos are uploaded unpublished, then attached to a single feed post
+      for (const media of post.media) {
+        const photo = await this.post<{ id: string }>(`${pageId}/photos`, {
+          url: media.url,
+          published: false,
+          ...(media.alt && { alt_text_custom: media.alt }),
+        })
+        mediaIds.push(photo.id)
+      }
+      const feedPost = await this.post<{ id: string }>(`${pageId}/feed`, {
+        message,
+        ...(mediaIds.length > 0 && {
+          attached_media: mediaIds.map((id) => ({ media_fbid: id })),
+        }),
+      })
+      platformPostId = feedPost.id
+    }
+
+    return {
+      platform: this.platform,
+      platformPostId,
+      url: `https://www.facebook.com/${platformPostId}`,
+      mediaIds,
+      publishedAt: new Date().toISOString(),
+    }
+  }
+}
+
+interface InstagramConfig {
+  // Instagram professional account id connected to the Facebook page
+  accountId: string
+  accessToken: string
+  graphUrl?: string
+}
+
+const INSTAGRAM_MAX_CAROUSEL = 10
+const INSTAGRAM_MAX_HASHTAGS = 30
+// Video containers are processed asynchronously before they can be published
+const INSTAGRAM_POLL_INTERVAL_MS = 3000
+const INSTAGRAM_POLL_ATTEMPTS = 100
+
+export class InstagramPublisher implements SocialPublisher {
+  readonly platform = 'instagram'
+  readonly maxLength = 2200
+
+  constructor(private config: InstagramConfig) {}
+
+  private get graphUrl(): string {
+    return this.config.graphUrl || DEFAULT_GRAPH_URL
+  }
+
+  private post<T>(path: string, params: Record<string, unknown>): Promise<T> {
+    return graphPost<T>(this.platform, this.graphUrl, path, this.config.accessToken, params)
+  }
+
+  private get<T>(path: string, fields: string): Promise<T> {
+    return graphGet<T>(this.platform, this.graphUrl, path, this.config.accessToken, fields)
+  }
+
+  async publish(post: PublishablePost): Promise<PublishResult> {
+    const caption = composeText(post)
+    assertLength(this.platform, characterCount(caption), this.maxLength)
+    this.checkPost(caption, post.media)
+
+    const { accountId } = this.config
+    const isCarousel = post.media.length > 1
+    const mediaIds: string[] = []
+
+    for (const media of post.media) {
+      const container = await this.post<{ id: string }>(`${accountId}/media`, {
+        ...(media.type === 'video'
+          ? { media_type: isCarousel ? 'VIDEO' : 'REELS', video_url: media.url }
+          : { image_url: media.url }),
+        ...(media.alt && media.type !== 'video' && { alt_text: media.alt }),
+        ...(isCarousel ? { is_carousel_item: true } : { caption }),
+      })
+      if (media.type === 'video') await this.waitUntilReady(container.id)
+      mediaIds.push(container.id)
+    }
+
+    const creationId = isCarousel
+      ? (
+          await this.post<{ id: string }>(`${accountId}/media`, {
+            media_type: 'CAROUSEL',
+            children: mediaIds.join(','),
+            caption,
+          })
+        ).id
+      : mediaIds[0]
+
+    const published = await this.post<{ id: string }>(`${accountId}/media_publish`, {
+      creation_id: creationId,
+    })
+    const { permalink } = await this.get<{ permalink?: string }>(published.id, 'permalink').catch(
+      () => ({ permalink: undefined })
+    )
+
+    return {
+      platform: this.platform,
+      platformPostId: published.id,
+      url: permalink,
+      mediaIds,
+      publishedAt: new Date().toISOString(),
+    }
+  }
+
+  private checkPost(caption: string, media: PostMedia[]): void {
+    if (media.length === 0) {
+      throw contentError(this.platform, 'media_required', 'posts need at least one image or video')
+    }
+    if (media.length > INSTAGRAM_MAX_CAROUSEL) {
+      throw contentError(
+        this.platform,
+        'too_many_media',
+        `carousels can have at most ${INSTAGRAM_MAX_CAROUSEL} items`
+      )
+    }
+    if ((caption.match(/#[^\s#]+/g) || []).length > INSTAGRAM_MAX_HASHTAGS) {
+      throw contentError(
+        this.platform,
+        'too_many_hashtags',
+        `captions can have at most ${INSTAGRAM_MAX_HASHTAGS} hashtags`
+      )
+    }
+  }
+
+  private async waitUntilReady(containerId: string): Promise<void> {
+    for (let attempt = 0; attempt < INSTAGRAM_POLL_ATTEMPTS; attempt++) {
+      const { status_code } = await this.get<{ status_code?: string }>(containerId, 'status_code')
+      if (status_code === 'FINISHED') return
+      if (status_code === 'ERROR' || status_code === 'EXPIRED') {
+        throw contentError(this.platform, 'media_rejected', `video processing ended ${status_code}`)
+      }
+      await delay(INSTAGRAM_POLL_INTERVAL_MS)
+    }
+    throw new PublishError(this.platform, 'video processing did not finish in time', {
+      code: 'media_timeout',
+      retryable: true,
+    })
+  }
+}
+
+// Generic webhook ------------------------------------------------------------
+
+interface WebhookConfig {
+  url: string
+  // Signs the body as X-Slotted-Signature: sha256=<hex HMAC>
+  secret?: string
+}
+
+/**
+ * Delivers posts to any HTTP endpoint, e.g. Zapier or an in-house CMS. The
+ * endpoint may answer with `{ id, url }` for the post it created. Workspaces
+ * choose the URL, so internal addresses are refused.
+ */
+export class WebhookPublisher implements SocialPublisher {
+  readonly platform = 'webhook'
+  readonly maxLength = Number.POSITIVE_INFINITY
+
+  constructor(private config: WebhookConfig) {}
+
+  async publish(post: PublishablePost): Promise<PublishResult> {
+    const deliveryId = randomUUID()
+    const body = JSON.stringify({
+      event: 'post.publish',
+      deliveryId,
+      post: { ...post, composedText: composeText(post) },
+      sentAt: new Date().toISOString(),
+    })
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Slotted-Delivery': deliveryId,
+    }
+    if (this.config.secret) {
+      const signature = createHmac('sha256', this.config.secret).update(body).digest('hex')
+      headers['X-Slotted-Signature'] = `sha256=${signature}`
+    }
+
+    const response = await platformFetch(
+      this.platform,
+      this.config.url,
+      { method: 'POST', headers, body },
+      (error: ErrorBody<'error' | 'message'>) => ({
+        message: asText(error.error) || asText(error.message),
+      }),
+      fetchPublicUrl
+    )
+    const result = (await response.json().catch(() => ({}))) as { id?: unknown; url?: unknown }
+
+    return {
+      platform: this.platform,
+      platformPostId: asText(result.id) || deliveryId,
+      url: asText(result.url),
+      mediaIds: [],
+      publishedAt: new Date().toISOString(),
+    }
+  }
+}
+
+/**
+ * The publisher for `platform` built from a workspace's own credentials, or
+ * undefined when the workspace hasn't connected it. Only the API addresses
+ * come from the environment: the *_API_URL and FACEBOOK_GRAPH_URL variables
+ * point publishers at the stub server.
+ */
+export function resolvePublisher(
+  platform: PublishPlatform,
+  credentials: PlatformCredentials
+): SocialPublisher | undefined {
+  const env = process.env
+  switch (platform) {
+    case 'linkedin':
+      return credentials.linkedin
+        ? new LinkedInPublisher({
+            ...credentials.linkedin,
+            apiUrl: env.LINKEDIN_API_URL,
+            apiVersion: env.LINKEDIN_API_VERSION,
+          })
+        : undefined
+    case 'twitter':
+      return credentials.twitter
+        ? new TwitterPublisher({ ...credentials.twitter, apiUrl: env.TWITTER_API_URL })
+        : undefined
+    case 'facebook':
+      return credentials.facebook
+        ? new FacebookPublisher({ ...credentials.facebook, graphUrl: env.FACEBOOK_GRAPH_URL })
+        : undefined
+    case 'instagram': {
+      const accessToken =
+        credentials.instagram?.accessToken || credentials.facebook?.pageAccessToken
+      return credentials.instagram && accessToken
+        ? new InstagramPublisher({
+            accountId: credentials.instagram.accountId,
+            accessToken,
+            graphUrl: env.FACEBOOK_GRAPH_URL,
+          })
+        : undefined
+    }
+    case 'webhook':
+      return credentials.webhook ? new WebhookPublisher(credentials.webhook) : undefined
+  }
+}
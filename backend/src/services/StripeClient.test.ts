@@ -0,0 +1,63 @@
+import { createHmac } from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import { WebhookSignatureError, verifyWebhook } from './StripeClient'
+
+const SECRET = 'whsec_test'
+const NOW = Date.parse('2026-03-04T12:00:00Z')
+
+const payload = JSON.stringify({
+  id: 'evt_1',
+  type: 'customer.subscription.updated',
+  created: NOW / 1000,
+  data: { object: {} },
+})
+
+const sign = (body: string, timestamp: number, secret = SECRET) =>
+  `t=${timestamp},v1=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+
+describe('verifyWebhook', () => {
+  it('returns the event for a valid signature', () => {
+    const event = verifyWebhook(payload, sign(payload, NOW / 1000), SECRET, NOW)
+    expect(event.id).toBe('evt_1')
+  })
+
+  it('accepts a Buffer payload and any matching v1 signature', () => {
+    const header = `${sign(payload, NOW / 1000, 'whsec_old')},${sign(payload, NOW / 1000).split(',')[1]}`
+    expect(verifyWebhook(Buffer.from(payload), header, SECRET, NOW).type).toBe(
+      'customer.subscription.updated'
+    )
+  })
+
+  it('rejects a signature made with another secret', () => {
+    expect(() =>
+      verifyWebhook(payload, sign(payload, NOW / 1000, 'whsec_other'), SECRET, NOW)
+    ).toThrow(WebhookSignatureError)
+  })
+
+  it('rejects a body that was changed after signing', () => {
+    const header = sign(payload, NOW / 1000)
+    expect(() => verifyWebhook(payload.replace('evt_1', 'evt_2'), header, SECRET, NOW)).toThrow(
+      'does not match'
+    )
+  })
+
+  it('rejects signatures older than the tolerance, even when they match', () => {
+    const timestamp = NOW / 1000 - 301
+    expect(() => verifyWebhook(payload, sign(payload, timestamp), SECRET, NOW)).toThrow(
+      'outside the tolerance'
+    )
+  })
+
+  it('rejects timestamps too far in the future', () => {
+    const timestamp = NOW / 1000 + 301
+    expect(() => verifyWebhook(payload, sign(payload, timestamp), SECRET, NOW)).toThrow(
+      WebhookSignatureError
+    )
+  })
+
+  it('rejects missing and malformed headers', () => {
+    expect(() => verifyWebhook(payload, undefined, SECRET, NOW)).toThrow('Missing')
+    expect(() => verifyWebhook(payload, 'v1=abc', SECRET, NOW)).toThrow('Malformed')
+    expect(() => verifyWebhook(payload, `t=${NOW / 1000}`, SECRET, NOW)).toThrow('Malformed')
+  })
+})
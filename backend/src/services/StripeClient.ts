@@ -0,0 +1,230 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+/**
+ * The parts of Stripe's objects the billing service reads. Stripe sends
+ * much more; see https://docs.stripe.com/api.
+ */
+export interface StripeCheckoutSession {
+  id: string
+  url: string | null
+  status: 'open' | 'complete' | 'expired' | null
+  payment_status?: string
+  customer: string | null
+  subscription: string | null
+  client_reference_id: string | null
+  metadata: Record<string, string> | null
+}
+
+export interface StripeSubscription {
+  id: string
+  status: string
+  customer: string
+  cancel_at_period_end: boolean
+  canceled_at: number | null
+  trial_end: number | null
+  // Moved onto the subscription items in newer API versions
+  current_period_end?: number
+  items?: { data: { current_period_end?: number }[] }
+  metadata: Record<string, string> | null
+}
+
+export interface StripeEvent {
+  id: string
+  type: string
+  created: number
+  data: { object: Record<string, unknown> }
+}
+
+export interface StripeMeterEvent {
+  identifier: string
+  event_name: string
+  timestamp: number
+}
+
+export interface StripeConfig {
+  secretKey: string
+  // Point at stripe-mock (http://localhost:12111) for local testing
+  apiUrl?: string
+  apiVersion?: string
+}
+
+export class StripeError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public code?: string
+  ) {
+    super(`Stripe: ${message}`)
+    this.name = 'StripeError'
+  }
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookSignatureError'
+  }
+}
+
+const DEFAULT_API_URL = 'https://api.stripe.com'
+
+// Stripe rejects webhook replays older than this by default, and so do we
+const SIGNATURE_TOLERANCE_SECONDS = 300
+
+/**
+ * Stripe's form encoding: nested objects and arrays become
+ * `line_items[0][price_data][currency]=usd`
+ */
+export function encodeForm(
+  params: Record<string, unknown>,
+  prefix = '',
+  form = new URLSearchParams()
+): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue
+    const name = prefix ? `${prefix}[${key}]` : key
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        if (typeof item === 'object' && item !== null) {
+          encodeForm(item as Record<string, unknown>, `${name}[${index}]`, form)
+        } else {
+          form.append(`${name}[${index}]`, String(item))
+        }
+      })
+    } else if (typeof value === 'object') {
+      encodeForm(value as Record<string, unknown>, name, form)
+    } else {
+      form.append(name, String(value))
+    }
+  }
+  return form
+}
+
+/**
+ * Check a webhook's `Stripe-Signature` header against the raw request body
+ * and return the event. Throws WebhookSignatureError when the signature
+ * doesn't match or is too old to rule out a replay.
+ */
+export function verifyWebhook(
+  payload: Buffer | string,
+  header: string | undefined,
+  secret: string,
+  now = Date.now()
+): StripeEvent {
+  if (!header) throw new WebhookSignatureError('Missing Stripe-Signature header')
+
+  const parts = header.split(',').map((part) => part.split('='))
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1])
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value)
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new WebhookSignatureError('Malformed Stripe-Signature header')
+  }
+
+  const body = typeof payload === 'string' ? payload : payload.toString('utf8')
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest()
+  const matches = signatures.some((signature) => {
+    const given = Buffer.from(signature, 'hex')
+    return given.length === expected.length && timingSafeEqual(given, expected)
+  })
+  if (!matches) throw new WebhookSignatureError('Webhook signature does not match')
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new WebhookSignatureError('Webhook timestamp is outside the tolerance')
+  }
+
+  return JSON.parse(body)
+}
+
+/**
+ * Minimal client for the Stripe REST API, covering Checkout, subscriptions
+ * and metered usage
+ */
+export class StripeClient {
+  constructor(private config: StripeConfig) {}
+
+  async createCheckoutSession(params: Record<string, unknown>): Promise<StripeCheckoutSession> {
+    return this.request('POST', '/v1/checkout/sessions', params)
+  }
+
+  async getCheckoutSession(sessionId: string): Promise<StripeCheckoutSession> {
+    return this.request('GET', `/v1/checkout/sessions/${encodeURIComponent(sessionId)}`)
+  }
+
+  async getSubscription(subscriptionId: string): Promise<StripeSubscription> {
+    return this.request('GET', `/v1/subscriptions/${encodeURIComponent(subscriptionId)}`)
+  }
+
+  async updateSubscription(
+    subscriptionId: string,
+    params: Record<string, unknown>
+  ): Promise<StripeSubscription> {
+    return this.request('POST', `/v1/subscriptions/${encodeURIComponent(subscriptionId)}`, params)
+  }
+
+  /**
+   * End a subscription now instead of at the end of the period
+   */
+  async cancelSubscription(subscriptionId: string): Promise<StripeSubscription> {
+    return this.request('DELETE', `/v1/subscriptions/${encodeURIComponent(subscriptionId)}`)
+  }
+
+  /**
+   * Report usage to a Billing Meter. Stripe ignores a second event with the
+   * same identifier, so a report can be retried safely.
+   */
+  async createMeterEvent(params: {
+    event_name: string
+    identifier: string
+    timestamp: number
+    payload: { stripe_customer_id: string; value: string }
+  }): Promise<StripeMeterEvent> {
+    return this.request('POST', '/v1/billing/meter_events', params)
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    params?: Record<string, unknown>
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.config.secretKey}`,
+    }
+    if (this.config.apiVersion) headers['Stripe-Version'] = this.config.apiVersion
+    if (params) headers['Content-Type'] = 'application/x-www-form-urlencoded'
+
+    let response: Response
+    try {
+      response = await fetch(`${this.config.apiUrl || DEFAULT_API_URL}${path}`, {
+        method,
+        headers,
+        body: params ? encodeForm(params).toString() : undefined,
+      })
+    } catch (error) {
+      throw new StripeError(`request failed: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const body: any = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new StripeError(
+        body.error?.message || `responded ${response.status}`,
+        response.status,
+        body.error?.code
+      )
+    }
+    return body
+  }
+}
+
+/**
+ * The client configured through STRIPE_SECRET_KEY, or undefined when billing
+ * isn't set up. STRIPE_API_URL points it at stripe-mock.
+ */
+export function resolveStripe(): StripeClient | undefined {
+  const { STRIPE_SECRET_KEY, STRIPE_API_URL, STRIPE_API_VERSION } = process.env
+  return STRIPE_SECRET_KEY
+    ? new StripeClient({
+        secretKey: STRIPE_SECRET_KEY,
+        apiUrl: STRIPE_API_URL,
+        apiVersion: STRIPE_API_VERSION,
+      })
+    : undefined
+}
@@ -0,0 +1,315 @@
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import type { AIProvider, AIRequest, AIResponse, TokenUsage } from './AIProvider'
+import { JsonFileStore } from './JsonFileStore'
+
+export type UsageSource = 'backend' | 'frontend'
+
+export interface UsageRecord {
+  id: string
+  workspaceId: string
+  // What the tokens were spent on, e.g. "blog" or "extract-company-dna"
+  operation: string
+  provider: string
+  model: string
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+  // True when the provider didn't report token counts and they were
+  // estimated from the text length
+  estimated: boolean
+  source: UsageSource
+  createdAt: string
+}
+
+export interface UsageBudget {
+  monthlyLimitUsd: number
+  updatedAt: string
+}
+
+export interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+}
+
+export interface UsageSummary extends UsageTotals {
+  workspaceId?: string
+  // Calendar month in UTC, e.g. "2025-03"
+  month: string
+  byModel: Record<string, UsageTotals>
+  byOperation: Record<string, UsageTotals>
+  budget?: UsageBudget
+  remainingUsd?: number
+}
+
+export interface UsageScope {
+  workspaceId: string
+  operation?: string
+}
+
+export interface UsageEntry {
+  workspaceId: string
+  operation: string
+  provider: string
+  model: string
+  promptTokens: number
+  completionTokens: number
+  estimated?: boolean
+  source?: UsageSource
+}
+
+export interface UsageQuery {
+  workspaceId?: string
+  from?: string
+  to?: string
+  limit?: number
+}
+
+interface UsageData {
+  records: UsageRecord[]
+  budgets: Record<string, UsageBudget>
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    public workspaceId: string,
+    public limitUsd: number,
+    public spentUsd: number
+  ) {
+    super(
+      `Monthly AI budget of $${limitUsd.toFixed(2)} reached for this workspace ($${spentUsd.toFixed(2)} spent)`
+    )
+    this.name = 'BudgetExceededError'
+  }
+}
+
+// USD per million tokens [prompt, completion]. Matched by model-name prefix,
+// so dated snapshots (claude-3-5-sonnet-20241022) share their family's price.
+export const MODEL_PRICING: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4-turbo': [10, 30],
+  'gpt-4': [30, 60],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3-5-haiku': [0.8, 4],
+  'claude-3-haiku': [0.25, 1.25],
+  'claude-3-opus': [15, 75],
+  'gemini-2.0-flash': [0.1, 0.4],
+  'gemini-1.5-pro': [1.25, 5],
+  'gemini-1.5-flash': [0.075, 0.3],
+  'mock-1': [0, 0],
+}
+
+const DEFAULT_USAGE_PATH = path.resolve(process.cwd(), 'data', 'usage.json')
+
+const pricingFor = (model: string): [number, number] | undefined => {
+  const match = Object.keys(MODEL_PRICING)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+  return match ? MODEL_PRICING[match] : undefined
+}
+
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const pricing = pricingFor(model)
+  if (!pricing) return 0
+  const [promptPrice, completionPrice] = pricing
+  return (usage.promptTokens * promptPrice + usage.completionTokens * completionPrice) / 1_000_000
+}
+
+// Rough count for providers that don't report usage (about 4 characters a token)
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4)
+
+export const usageMonth = (date = new Date()): string => date.toISOString().slice(0, 7)
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  costUsd: 0,
+})
+
+const addTo = (totals: UsageTotals, record: UsageRecord) => {
+  totals.calls += 1
+  totals.promptTokens += record.promptTokens
+  totals.completionTokens += record.completionTokens
+  totals.costUsd += record.costUsd
+}
+
+/**
+ * Checks the workspace budget before each generation and records the tokens
+ * it used afterwards. Recording never fails the generation itself.
+ */
+class MeteredProvider implements AIProvider {
+  constructor(
+    private provider: AIProvider,
+    private ledger: UsageLedger,
+    private scope: UsageScope
+  ) {}
+
+  get name(): string {
+    return this.provider.name
+  }
+
+  get model(): string {
+    return this.provider.model
+  }
+
+  async generate(request: AIRequest): Promise<AIResponse> {
+    await this.ledger.assertWithinBudget(this.scope.workspaceId)
+
+    const response = await this.provider.generate(request)
+    const usage = response.usage || {
+      promptTokens: estimateTokens(`${request.system || ''}${request.prompt}`),
+      completionTokens: estimateTokens(response.content),
+    }
+
+    try {
+      await this.ledger.record({
+        workspaceId: this.scope.workspaceId,
+        operation: this.scope.operation || request.task || 'generate',
+        provider: response.provider,
+        model: response.model,
+        ...usage,
+        estimated: !response.usage,
+      })
+    } catch (error) {
+      console.error('Failed to record AI usage:', error)
+    }
+
+    return response
+  }
+}
+
+/**
+ * Ledger of tokens and estimated spend for every AI call, with optional
+ * monthly budgets per workspace. Usage from generation in the browser is
+ * reported here too, so one ledger covers the whole workspace.
+ */
+export class UsageLedger {
+  private store: JsonFileStore<UsageData>
+
+  constructor(filePath = process.env.USAGE_DATA_PATH || DEFAULT_USAGE_PATH) {
+    this.store = new JsonFileStore<UsageData>(filePath, () => ({ records: [], budgets: {} }))
+  }
+
+  /**
+   * Wrap a provider so its generations are metered against a workspace
+   */
+  meter(provider: AIProvider, scope: UsageScope): AIProvider {
+    return new MeteredProvider(provider, this, scope)
+  }
+
+  async record(entry: UsageEntry): Promise<UsageRecord> {
+    const record: UsageRecord = {
+      id: randomUUID(),
+      workspaceId: entry.workspaceId,
+      operation: entry.operation,
+      provider: entry.provider,
+      model: entry.model,
+      promptTokens: entry.promptTokens,
+      completionTokens: entry.completionTokens,
+      costUsd: estimateCost(entry.model, entry),
+      estimated: Boolean(entry.estimated),
+      source: entry.source || 'backend',
+      createdAt: new Date().toISOString(),
+    }
+
+    await this.store.update((data) => {
+      data.records.push(record)
+    })
+    return record
+  }
+
+  /**
+   * Records matching the query, newest first
+   */
+  async listRecords(query: UsageQuery = {}): Promise<UsageRecord[]> {
+    const { records } = await this.store.read()
+    const matches = records
+      .filter(
+        (record) =>
+          (!query.workspaceId || record.workspaceId === query.workspaceId) &&
+          (!query.from || record.createdAt >= query.from) &&
+          (!query.to || record.createdAt < query.to)
+      )
+      .reverse()
+
+    return query.limit ? matches.slice(0, query.limit) : matches
+  }
+
+  /**
+   * Totals for a workspace (or all usage) over one calendar month
+   */
+  async summarize(workspaceId?: string, month = usageMonth()): Promise<UsageSummary> {
+    const data = await this.store.read()
+    const summary: UsageSummary = {
+      workspaceId,
+      month,
+      ...emptyTotals(),
+      byModel: {},
+      byOperation: {},
+    }
+
+    for (const record of data.records) {
+      if (workspaceId && record.workspaceId !== workspaceId) continue
+      if (!record.createdAt.startsWith(month)) continue
+
+      addTo(summary, record)
+      summary.byModel[record.model] ||= emptyTotals()
+      addTo(summary.byModel[record.model], record)
+      summary.byOperation[record.operation] ||= emptyTotals()
+      addTo(summary.byOperation[record.operation], record)
+    }
+
+    const budget = workspaceId ? data.budgets[workspaceId] : undefined
+    if (budget) {
+      summary.budget = budget
+      summary.remainingUsd = Math.max(0, budget.monthlyLimitUsd - summary.costUsd)
+    }
+    return summary
+  }
+
+  async getBudget(workspaceId: string): Promise<UsageBudget | undefined> {
+    const { budgets } = await this.store.read()
+    return budgets[workspaceId]
+  }
+
+  async setBudget(workspaceId: string, monthlyLimitUsd: number): Promise<UsageBudget> {
+    const budget = { monthlyLimitUsd, updatedAt: new Date().toISOString() }
+    await this.store.update((data) => {
+      data.budgets[workspaceId] = budget
+    })
+    return budget
+  }
+
+  async clearBudget(workspaceId: string): Promise<void> {
+    await this.store.update((data) => {
+      delete data.budgets[workspaceId]
+    })
+  }
+
+  /**
+   * Throw a BudgetExceededError once the workspace has spent its monthly
+   * budget. Workspaces without a budget are never blocked.
+   */
+  async assertWithinBudget(workspaceId: string): Promise<void> {
+    const summary = await this.summarize(workspaceId)
+    if (summary.budget && summary.costUsd >= summary.budget.monthlyLimitUsd) {
+      throw new BudgetExceededError(workspaceId, summary.budget.monthlyLimitUsd, summary.costUsd)
+    }
+  }
+
+  /**
+   * Drop a deleted workspace's usage records and budget
+   */
+  async removeWorkspace(workspaceId: string): Promise<void> {
+    await this.store.update((data) => {
+      data.records = data.records.filter((record) => record.workspaceId !== workspaceId)
+      delete data.budgets[workspaceId]
+    })
+  }
+}
+
+export const usageLedger = new UsageLedger()
@@ -0,0 +1,482 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'node:crypto'
+import path from 'node:path'
+import type { Role } from './AccessControl'
+import { JsonFileStore } from './JsonFileStore'
+
+export interface User {
+  id: string
+  email: string
+  name: string
+  // scrypt$<salt>$<hash>, both base64
+  passwordHash: string
+  createdAt: string
+}
+
+export type PublicUser = Omit<User, 'passwordHash'>
+
+export interface Membership {
+  userId: string
+  workspaceId: string
+  role: Role
+  addedAt: string
+}
+
+export interface Invitation {
+  id: string
+  email: string
+  workspaceId: string
+  role: Role
+  invitedBy: string
+  createdAt: string
+  expiresAt: string
+  acceptedAt?: string
+  // Only a hash is kept; the token itself is handed out once
+  tokenHash: string
+}
+
+export type PublicInvitation = Omit<Invitation, 'tokenHash'>
+
+interface Session {
+  tokenHash: string
+  userId: string
+  createdAt: string
+  expiresAt: string
+}
+
+interface UserData {
+  users: Record<string, User>
+  memberships: Membership[]
+  invitations: Invitation[]
+  sessions: Session[]
+}
+
+export class AuthenticationError extends Error {
+  constructor(message = 'Sign in to continue') {
+    super(message)
+    this.name = 'AuthenticationError'
+  }
+}
+
+export class UserNotFoundError extends Error {
+  constructor(what: string) {
+    super(`${what} not found`)
+    this.name = 'UserNotFoundError'
+  }
+}
+
+export class UserStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UserStateError'
+  }
+}
+
+const DEFAULT_USER_PATH = path.resolve(process.cwd(), 'data', 'users.json')
+
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 24 * 30) * 3_600_000
+const INVITATION_TTL_MS = (Number(process.env.INVITATION_TTL_DAYS) || 7) * 86_400_000
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+const newToken = () => randomBytes(32).toString('base64url')
+
+const deriveKey = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, 64, (error, key) => (error ? reject(error) : resolve(key)))
+  )
+
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16)
+  const key = await deriveKey(password, salt)
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`
+}
+
+const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [, salt, hash] = stored.split('$')
+  const expected = Buffer.from(hash || '', 'base64')
+  const key = await deriveKey(password, Buffer.from(salt || '', 'base64'))
+  return expected.length === key.length && timingSafeEqual(expected, key)
+}
+
+// Checked against when the email is unknown, so both cases take as long
+const DUMMY_PASSWORD_HASH = `scrypt$${Buffer.alloc(16).toString('base64')}$${Buffer.alloc(64).toString('base64')}`
+
+const toPublicUser = ({ passwordHash: _passwordHash, ...user }: User): PublicUser => user
+
+const toPublicInvitation = ({ tokenHash: _tokenHash, ...invitation }: Invitation) => invitation
+
+const isPending = (invitation: Invitation, now = Date.now()) =>
+  !invitation.acceptedAt && Date.parse(invitation.expiresAt) > now
+
+/**
+ * Accounts, sign-in sessions and per-workspace memberships. The first
+ * account to register sets the instance up and must present the setup
+ * token; everyone after that joins by invitation to a workspace.
+ */
+export class UserStore {
+  private store: JsonFileStore<UserData>
+  // SETUP_TOKEN, or one made up per process and printed by announceSetup
+  private readonly setupToken: string
+
+  constructor(
+    filePath = process.env.USER_DATA_PATH || DEFAULT_USER_PATH,
+    setupToken = process.env.SETUP_TOKEN
+  ) {
+    this.store = new JsonFileStore<UserData>(filePath, () => ({
+      users: {},
+      memberships: [],
+      invitations: [],
+      sessions: [],
+    }))
+    this.setupToken = setupToken || newToken()
+  }
+
+  /**
+   * Print the setup token while the instance has no account yet, unless the
+   * operator chose it through SETUP_TOKEN
+   */
+  async announceSetup(): Promise<void> {
+    if (process.env.SETUP_TOKEN || (await this.hasUsers())) return
+    console.log(
+      `🔑 No accounts yet. Create the first (admin) account with setup token ${this.setupToken}`
+    )
+  }
+
+  async hasUsers(): Promise<boolean> {
+    const data = await this.store.read()
+    return Object.keys(data.users).length > 0
+  }
+
+  /**
+   * Create an account and sign it in. The first account needs the setup
+   * token and becomes an admin of `bootstrapWorkspaceIds`, the workspaces
+   * that exist already; later ones need an invitation sent to their email.
+   */
+  async register(
+    input: { email: string; name: string; password: string },
+    options: {
+      invitationToken?: string
+      setupToken?: string
+      bootstrapWorkspaceIds?: string[]
+    } = {}
+  ): Promise<{ user: PublicUser; token: string }> {
+    const email = normalizeEmail(input.email)
+    const passwordHash = await hashPassword(input.password)
+    const token = newToken()
+
+    const user = await this.store.update((data) => {
+      if (Object.values(data.users).some((u) => u.email === email)) {
+        throw new UserStateError(`An account for ${email} already exists; sign in instead`)
+      }
+      const isFirst = Object.keys(data.users).length === 0
+      if (isFirst && !this.isSetupToken(options.setupToken)) {
+        throw new AuthenticationError(
+          'The first account needs the setup token (SETUP_TOKEN, or printed in the server log)'
+        )
+      }
+      const invitation = isFirst ? undefined : this.findInvitation(data, options.invitationToken)
+      if (invitation && invitation.email !== email) {
+        throw new UserStateError(`This invitation is for ${invitation.email}`)
+      }
+
+      const now = new Date().toISOString()
+      const user: User = {
+        id: randomUUID(),
+        email,
+        name: input.name.trim(),
+        passwordHash,
+        createdAt: now,
+      }
+      data.users[user.id] = user
+
+      if (invitation) {
+        this.join(data, invitation, user.id)
+      } else {
+        for (const workspaceId of options.bootstrapWorkspaceIds || []) {
+          data.memberships.push({ userId: user.id, workspaceId, role: 'admin', addedAt: now })
+        }
+      }
+      this.startSession(data, user.id, token)
+      return user
+    })
+
+    console.log(`👤 Registered ${user.email}`)
+    return { user: toPublicUser(user), token }
+  }
+
+  async login(emailInput: string, password: string): Promise<{ user: PublicUser; token: string }> {
+    const email = normalizeEmail(emailInput)
+    const data = await this.store.read()
+    const user = Object.values(data.users).find((u) => u.email === email)
+
+    const valid = await verifyPassword(password, user?.passwordHash || DUMMY_PASSWORD_HASH)
+    if (!user || !valid) {
+      throw new AuthenticationError('Invalid email or password')
+    }
+
+    const token = newToken()
+    await this.store.update((current) => {
+      const now = Date.now()
+      current.sessions = current.sessions.filter((s) => Date.parse(s.expiresAt) > now)
+      this.startSession(current, user.id, token)
+    })
+    return { user: toPublicUser(user), token }
+  }
+
+  /**
+   * The user a session token belongs to, if it is valid
+   */
+  async authenticate(token: string): Promise<PublicUser | undefined> {
+    const data = await this.store.read()
+    const tokenHash = hashToken(token)
+    const session = data.sessions.find((s) => s.tokenHash === tokenHash)
+    if (!session || Date.parse(session.expiresAt) <= Date.now()) return undefined
+
+    const user = data.users[session.userId]
+    return user ? toPublicUser(user) : undefined
+  }
+
+  async logout(token: string): Promise<void> {
+    const tokenHash = hashToken(token)
+    await this.store.update((data) => {
+      data.sessions = data.sessions.filter((s) => s.tokenHash !== tokenHash)
+    })
+  }
+
+  async listMemberships(userId: string): Promise<Membership[]> {
+    const data = await this.store.read()
+    return data.memberships.filter((m) => m.userId === userId)
+  }
+
+  async getRole(userId: string, workspaceId: string): Promise<Role | undefined> {
+    const data = await this.store.read()
+    return data.memberships.find((m) => m.userId === userId && m.workspaceId === workspaceId)?.role
+  }
+
+  /**
+   * Make someone a member, e.g. the creator of a new workspace. Existing
+   * members keep their role.
+   */
+  async addMember(workspaceId: string, userId: string, role: Role): Promise<Membership> {
+    return this.store.update((data) => {
+      const existing = data.memberships.find(
+        (m) => m.userId === userId && m.workspaceId === workspaceId
+      )
+      if (existing) return existing
+
+      const membership = { userId, workspaceId, role, addedAt: new Date().toISOString() }
+      data.memberships.push(membership)
+      return membership
+    })
+  }
+
+  async listMembers(
+    workspaceId: string
+  ): Promise<(PublicUser & { role: Role; addedAt: string })[]> {
+    const data = await this.store.read()
+    return data.memberships
+      .filter((m) => m.workspaceId === workspaceId && data.users[m.userId])
+      .map((m) => ({ ...toPublicUser(data.users[m.userId]), role: m.role, addedAt: m.addedAt }))
+      .sort((a, b) => a.email.localeCompare(b.email))
+  }
+
+  /**
+   * Change a member's role. A workspace always keeps at least one admin.
+   */
+  async setMemberRole(workspaceId: string, userId: string, role: Role): Promise<Membership> {
+    return this.store.update((data) => {
+      const membership = this.findMembership(data, workspaceId, userId)
+      if (membership.role === 'admin' && role !== 'admin') {
+        this.assertAnotherAdmin(data, workspaceId, userId)
+      }
+      membership.role = role
+      return membership
+    })
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<void> {
+    await this.store.update((data) => {
+      const membership = this.findMembership(data, workspaceId, userId)
+      if (membership.role === 'admin') {
+        this.assertAnotherAdmin(data, workspaceId, userId)
+      }
+      data.memberships = data.memberships.filter((m) => m !== membership)
+    })
+  }
+
+  /**
+   * Forget a deleted workspace's members and invitations
+   */
+  async removeWorkspace(workspaceId: string): Promise<void> {
+    await this.store.update((data) => {
+      data.memberships = data.memberships.filter((m) => m.workspaceId !== workspaceId)
+      data.invitations = data.invitations.filter((i) => i.workspaceId !== workspaceId)
+    })
+  }
+
+  /**
+   * Invite someone to a workspace. The token is only returned here; it goes
+   * in the link the invitee opens to register or join.
+   */
+  async createInvitation(input: {
+    workspaceId: string
+    email: string
+    role: Role
+    invitedBy: string
+  }): Promise<{ invitation: PublicInvitation; token: string }> {
+    const token = newToken()
+    const now = Date.now()
+    const invitation: Invitation = {
+      id: randomUUID(),
+      email: normalizeEmail(input.email),
+      workspaceId: input.workspaceId,
+      role: input.role,
+      invitedBy: input.invitedBy,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + INVITATION_TTL_MS).toISOString(),
+      tokenHash: hashToken(token),
+    }
+
+    await this.store.update((data) => {
+      const member = Object.values(data.users).find((u) => u.email === invitation.email)
+      if (
+        member &&
+        data.memberships.some(
+          (m) => m.userId === member.id && m.workspaceId === invitation.workspaceId
+        )
+      ) {
+        throw new UserStateError(`${invitation.email} is already a member`)
+      }
+      // A new invitation replaces any pending one for the same person
+      data.invitations = data.invitations.filter(
+        (i) =>
+          !(
+            i.workspaceId === invitation.workspaceId &&
+            i.email === invitation.email &&
+            !i.acceptedAt
+          )
+      )
+      data.invitations.push(invitation)
+    })
+    return { invitation: toPublicInvitation(invitation), token }
+  }
+
+  async listInvitations(workspaceId: string): Promise<PublicInvitation[]> {
+    const data = await this.store.read()
+    return data.invitations
+      .filter((i) => i.workspaceId === workspaceId && isPending(i))
+      .map(toPublicInvitation)
+  }
+
+  async revokeInvitation(workspaceId: string, invitationId: string): Promise<void> {
+    await this.store.update((data) => {
+      const before = data.invitations.length
+      data.invitations = data.invitations.filter(
+        (i) => !(i.id === invitationId && i.workspaceId === workspaceId)
+      )
+      if (data.invitations.length === before) {
+        throw new UserNotFoundError(`Invitation ${invitationId}`)
+      }
+    })
+  }
+
+  /**
+   * A pending invitation, for showing before it is accepted
+   */
+  async getInvitation(token: string): Promise<PublicInvitation> {
+    const data = await this.store.read()
+    return toPublicInvitation(this.findInvitation(data, token))
+  }
+
+  /**
+   * Join the invitation's workspace as a signed-in user
+   */
+  async acceptInvitation(token: string, userId: string): Promise<Membership> {
+    return this.store.update((data) => {
+      const invitation = this.findInvitation(data, token)
+      const user = data.users[userId]
+      if (!user || user.email !== invitation.email) {
+        throw new UserStateError(`This invitation is for ${invitation.email}`)
+      }
+      return this.join(data, invitation, userId)
+    })
+  }
+
+  private join(data: UserData, invitation: Invitation, userId: string): Membership {
+    invitation.acceptedAt = new Date().toISOString()
+    const existing = data.memberships.find(
+      (m) => m.userId === userId && m.workspaceId === invitation.workspaceId
+    )
+    if (existing) {
+      existing.role = invitation.role
+      return existing
+    }
+    const membership: Membership = {
+      userId,
+      workspaceId: invitation.workspaceId,
+      role: invitation.role,
+      addedAt: invitation.acceptedAt,
+    }
+    data.memberships.push(membership)
+    return membership
+  }
+
+  private isSetupToken(token: string | undefined): boolean {
+    // Compared as hashes, which have the same length whatever was sent
+    return (
+      token !== undefined &&
+      timingSafeEqual(
+        Buffer.from(hashToken(token), 'hex'),
+        Buffer.from(hashToken(this.setupToken), 'hex')
+      )
+    )
+  }
+
+  private findInvitation(data: UserData, token: string | undefined): Invitation {
+    if (!token) {
+      throw new UserStateError('Registration is by invitation; ask a workspace admin for one')
+    }
+    const tokenHash = hashToken(token)
+    const invitation = data.invitations.find((i) => i.tokenHash === tokenHash)
+    if (!invitation) {
+      throw new UserNotFoundError('Invitation')
+    }
+    if (!isPending(invitation)) {
+      throw new UserStateError('This invitation has expired or was already used')
+    }
+    return invitation
+  }
+
+  private findMembership(data: UserData, workspaceId: string, userId: string): Membership {
+    const membership = data.memberships.find(
+      (m) => m.userId === userId && m.workspaceId === workspaceId
+    )
+    if (!membership) {
+      throw new UserNotFoundError(`Member ${userId}`)
+    }
+    return membership
+  }
+
+  private assertAnotherAdmin(data: UserData, workspaceId: string, userId: string): void {
+    const otherAdmin = data.memberships.some(
+      (m) => m.workspaceId === workspaceId && m.role === 'admin' && m.userId !== userId
+    )
+    if (!otherAdmin) {
+      throw new UserStateError('A workspace needs at least one admin')
+    }
+  }
+
+  private startSession(data: UserData, userId: string, token: string): void {
+    const now = Date.now()
+    data.sessions.push({
+      tokenHash: hashToken(token),
+      userId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+    })
+  }
+}
+
+export const userStore = new UserStore()
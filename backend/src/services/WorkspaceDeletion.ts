@@ -0,0 +1,46 @@
+import { assetStore } from './AssetStore'
+import { auditLog } from './AuditLog'
+import { billingService } from './BillingService'
+import { calendarFeedService } from './CalendarFeed'
+import { calendarSyncService } from './CalendarSync'
+import { campaignScheduler } from './CampaignScheduler'
+import { removeCompanyContextStore } from './CompanyContextStore'
+import { entitlements } from './Entitlements'
+import { jobQueue } from './JobQueue'
+import { metering } from './Metering'
+import { publishingAccounts } from './PublishingAccounts'
+import { reviewNotifier } from './ReviewNotifier'
+import { usageLedger } from './UsageLedger'
+import { userStore } from './UserStore'
+import { workspaceStore } from './WorkspaceStore'
+
+/**
+ * Delete a workspace and everything kept for it: its subscription, schedules,
+ * feed, calendar connection, social accounts, assets, jobs, usage, metering,
+ * audit entries, Company DNA, members and invitations.
+ *
+ * The subscription is cancelled first, so a Stripe failure leaves the
+ * workspace untouched, and schedules go before the workspace itself so
+ * none of its posts are published in between.
+ */
+export async function deleteWorkspace(workspaceId: string): Promise<void> {
+  await workspaceStore.getWorkspace(workspaceId)
+  await billingService.removeWorkspace(workspaceId)
+  await campaignScheduler.removeWorkspace(workspaceId)
+  await workspaceStore.deleteWorkspace(workspaceId)
+
+  await Promise.all([
+    calendarFeedService.revokeFeed(workspaceId),
+    calendarSyncService.removeWorkspace(workspaceId),
+    assetStore.removeWorkspace(workspaceId),
+    jobQueue.removeWorkspace(workspaceId),
+    usageLedger.removeWorkspace(workspaceId),
+    metering.removeWorkspace(workspaceId),
+    publishingAccounts.removeWorkspace(workspaceId),
+    entitlements.removeWorkspace(workspaceId),
+    reviewNotifier.removeWorkspace(workspaceId),
+    auditLog.removeWorkspace(workspaceId),
+    removeCompanyContextStore(workspaceId),
+  ])
+  await userStore.removeWorkspace(workspaceId)
+}
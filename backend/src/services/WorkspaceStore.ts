@@ -0,0 +1,261 @@
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { JsonFileStore } from './JsonFileStore'
+
+/**
+ * Documents a workspace syncs from the frontend. Each maps to one of the
+ * browser stores that used to live only in localStorage.
+ */
+export const WORKSPACE_DOCUMENT_KEYS = [
+  'context',
+  'channels',
+  'marketingState',
+  'purchases',
+  'retailResults',
+  'campaignMilestones',
+] as const
+
+export type WorkspaceDocumentKey = (typeof WORKSPACE_DOCUMENT_KEYS)[number]
+
+export interface WorkspaceDocument {
+  key: WorkspaceDocumentKey
+  data: unknown
+  revision: number
+  updatedAt: string
+}
+
+export interface Workspace {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  archivedAt?: string
+  clonedFrom?: string
+  // IANA zone the workspace's posting schedules run in; the server's if unset
+  timeZone?: string
+  documents: Partial<Record<WorkspaceDocumentKey, WorkspaceDocument>>
+}
+
+export interface WorkspaceSummary {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  archivedAt?: string
+  clonedFrom?: string
+  timeZone?: string
+  documentKeys: WorkspaceDocumentKey[]
+}
+
+export interface DocumentWrite {
+  data: unknown
+  // Revision the client last saw; omitted on the first push from a client
+  baseRevision?: number
+}
+
+export type DocumentWriteResult =
+  // previous is the copy the write replaced, if any
+  | { status: 'saved'; document: WorkspaceDocument; previous?: WorkspaceDocument }
+  | { status: 'conflict'; document: WorkspaceDocument }
+
+interface WorkspaceData {
+  workspaces: Record<string, Workspace>
+}
+
+export class WorkspaceNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Workspace not found: ${id}`)
+    this.name = 'WorkspaceNotFoundError'
+  }
+}
+
+const DEFAULT_WORKSPACE_PATH = path.resolve(process.cwd(), 'data', 'workspaces.json')
+
+const WORKSPACE_ID_PATTERN = /^[\w-]{1,64}$/
+
+// Ids double as file and URL path segments, so keep them to a safe charset
+export const isValidWorkspaceId = (id: unknown): id is string =>
+  typeof id === 'string' && WORKSPACE_ID_PATTERN.test(id)
+
+export const isWorkspaceDocumentKey = (key: string): key is WorkspaceDocumentKey =>
+  (WORKSPACE_DOCUMENT_KEYS as readonly string[]).includes(key)
+
+const toSummary = (workspace: Workspace): WorkspaceSummary => ({
+  id: workspace.id,
+  name: workspace.name,
+  createdAt: workspace.createdAt,
+  updatedAt: workspace.updatedAt,
+  archivedAt: workspace.archivedAt,
+  clonedFrom: workspace.clonedFrom,
+  timeZone: workspace.timeZone,
+  documentKeys: Object.keys(workspace.documents) as WorkspaceDocumentKey[],
+})
+
+export class WorkspaceStore {
+  private store: JsonFileStore<WorkspaceData>
+
+  constructor(filePath = process.env.WORKSPACE_DATA_PATH || DEFAULT_WORKSPACE_PATH) {
+    this.store = new JsonFileStore<WorkspaceData>(filePath, () => ({ workspaces: {} }))
+  }
+
+  async listWorkspaces(options: { includeArchived?: boolean } = {}): Promise<WorkspaceSummary[]> {
+    const data = await this.store.read()
+    return Object.values(data.workspaces)
+      .filter((workspace) => options.includeArchived || !workspace.archivedAt)
+      .map(toSummary)
+  }
+
+  async getWorkspace(id: string): Promise<Workspace> {
+    const data = await this.store.read()
+    const workspace = data.workspaces[id]
+    if (!workspace) {
+      throw new WorkspaceNotFoundError(id)
+    }
+    return workspace
+  }
+
+  async createWorkspace(input: { name?: string }): Promise<Workspace> {
+    return this.store.update((data) => {
+      const id = randomUUID()
+      const now = new Date().toISOString()
+      const workspace: Workspace = {
+        id,
+        name: input.name?.trim() || 'My Workspace',
+        createdAt: now,
+        updatedAt: now,
+        documents: {},
+      }
+      data.workspaces[id] = workspace
+      return workspace
+    })
+  }
+
+  async updateWorkspace(
+    id: string,
+    // A null time zone clears it
+    updates: { name?: string; archived?: boolean; timeZone?: string | null }
+  ): Promise<Workspace> {
+    return this.store.update((data) => {
+      const workspace = data.workspaces[id]
+      if (!workspace) {
+        throw new WorkspaceNotFoundError(id)
+      }
+
+      const now = new Date().toISOString()
+      if (updates.name !== undefined) {
+        workspace.name = updates.name.trim() || workspace.name
+      }
+      if (updates.archived === true && !workspace.archivedAt) {
+        workspace.archivedAt = now
+      } else if (updates.archived === false) {
+        workspace.archivedAt = undefined
+      }
+      if (updates.timeZone !== undefined) {
+        workspace.timeZone = updates.timeZone || undefined
+      }
+      workspace.updatedAt = now
+      return workspace
+    })
+  }
+
+  /**
+   * Copy a workspace and all of its documents into a new workspace. The copy
+   * starts at revision 1 so it syncs independently of the source.
+   */
+  async cloneWorkspace(sourceId: string, input: { name?: string }): Promise<Workspace> {
+    return this.store.update((data) => {
+      const source = data.workspaces[sourceId]
+      if (!source) {
+        throw new WorkspaceNotFoundError(sourceId)
+      }
+
+      const id = randomUUID()
+      const now = new Date().toISOString()
+      const documents: Workspace['documents'] = {}
+      for (const [key, document] of Object.entries(source.documents)) {
+        if (document) {
+          documents[key as WorkspaceDocumentKey] = {
+            ...structuredClone(document),
+            revision: 1,
+            updatedAt: now,
+          }
+        }
+      }
+
+      const workspace: Workspace = {
+        id,
+        name: input.name?.trim() || `${source.name} (Copy)`,
+        createdAt: now,
+        updatedAt: now,
+        clonedFrom: source.id,
+        timeZone: source.timeZone,
+        documents,
+      }
+      data.workspaces[id] = workspace
+      return workspace
+    })
+  }
+
+  async deleteWorkspace(id: string): Promise<void> {
+    await this.store.update((data) => {
+      if (!data.workspaces[id]) {
+        throw new WorkspaceNotFoundError(id)
+      }
+      delete data.workspaces[id]
+    })
+  }
+
+  async getDocument(id: string, key: WorkspaceDocumentKey): Promise<WorkspaceDocument | null> {
+    const workspace = await this.getWorkspace(id)
+    return workspace.documents[key] || null
+  }
+
+  /**
+   * Write a document with optimistic concurrency. A write based on the
+   * current revision wins; any other write to an existing document, however
+   * recent the client says it is, gets the stored document back as a
+   * conflict for the client to adopt. `updatedAt` is the server's time of
+   * the write, so client clocks play no part.
+   */
+  async putDocument(
+    id: string,
+    key: WorkspaceDocumentKey,
+    write: DocumentWrite
+  ): Promise<DocumentWriteResult> {
+    return this.store.update((data) => {
+      const workspace = data.workspaces[id]
+      if (!workspace) {
+        throw new WorkspaceNotFoundError(id)
+      }
+
+      const current = workspace.documents[key]
+      if (current && write.baseRevision !== current.revision) {
+        return { status: 'conflict' as const, document: current }
+      }
+
+      const now = new Date().toISOString()
+      const document: WorkspaceDocument = {
+        key,
+        data: write.data,
+        revision: (current?.revision || 0) + 1,
+        updatedAt: now,
+      }
+      workspace.documents[key] = document
+      workspace.updatedAt = now
+      return { status: 'saved' as const, document, previous: current }
+    })
+  }
+
+  async deleteDocument(id: string, key: WorkspaceDocumentKey): Promise<void> {
+    await this.store.update((data) => {
+      const workspace = data.workspaces[id]
+      if (!workspace) {
+        throw new WorkspaceNotFoundError(id)
+      }
+      delete workspace.documents[key]
+      workspace.updatedAt = new Date().toISOString()
+    })
+  }
+}
+
+export const workspaceStore = new WorkspaceStore()
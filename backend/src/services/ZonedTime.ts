@@ -0,0 +1,128 @@
+/**
+ * Wall-clock dates and times in IANA time zones, built on Intl. Scheduling
+ * rules are written in local time ("Tuesdays at 13:00") and have to land on
+ * the right instant on either side of a DST change.
+ */
+
+export interface LocalDate {
+  year: number
+  month: number // 1-12
+  day: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+const partsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    // Throws a RangeError for unknown zones
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export const serverTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== 'string' || !timeZone) return false
+  try {
+    partsFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const zonedFields = (instant: number, timeZone: string) => {
+  const fields: Record<string, number> = {}
+  for (const part of partsFormatter(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value)
+  }
+  return fields
+}
+
+// How far the zone's wall clock is ahead of UTC at an instant
+const offsetAt = (instant: number, timeZone: string): number => {
+  const f = zonedFields(instant, timeZone)
+  const wallClock = Date.UTC(f.year, f.month - 1, f.day, f.hour, f.minute)
+  return wallClock - (instant - (((instant % 60_000) + 60_000) % 60_000))
+}
+
+/**
+ * The instant a wall-clock time occurs in a zone. Times skipped by a DST
+ * change resolve to the same clock reading after the change.
+ */
+export const zonedTimeToUtc = (
+  date: LocalDate,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date => {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute)
+  const guess = wallClock - offsetAt(wallClock, timeZone)
+  // The offset at the guess is right unless a DST change lies in between
+  const corrected = wallClock - offsetAt(guess, timeZone)
+  if (offsetAt(corrected, timeZone) === wallClock - corrected) return new Date(corrected)
+  // Inside a skipped hour neither reads back as the requested time; the later
+  // one is the same clock reading after the change
+  return new Date(Math.max(guess, corrected))
+}
+
+export const localDateOf = (instant: Date, timeZone: string): LocalDate => {
+  const { year, month, day } = zonedFields(instant.getTime(), timeZone)
+  return { year, month, day }
+}
+
+export const shiftLocalDate = (date: LocalDate, days: number, months = 0): LocalDate => {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1 + months, date.day + days))
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  }
+}
+
+// 0=Sunday, matching SchedulingRule.daysOfWeek
+export const weekdayOf = (date: LocalDate): number =>
+  new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay()
+
+export const formatLocalDate = (date: LocalDate): string =>
+  [date.year, date.month, date.day].map((n, i) => String(n).padStart(i ? 2 : 4, '0')).join('-')
+
+export const compareLocalDates = (a: LocalDate, b: LocalDate): number =>
+  a.year - b.year || a.month - b.month || a.day - b.day
+
+/**
+ * The local date a schedule boundary names. "2025-03-04" is taken as written;
+ * a full timestamp is read as the date it falls on in the zone.
+ */
+export const parseLocalDate = (value: string, timeZone: string): LocalDate => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (match) {
+    return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }
+  }
+  return localDateOf(new Date(value), timeZone)
+}
+
+/**
+ * Short human-readable time in a zone, e.g. "Tue, Mar 4, 13:00"
+ */
+export const formatZoned = (instant: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(instant)
@@ -101,7 +101,6 @@ export const App: React.FC = () => {
 
           <MarketingCalendarGenerator
             companyDNA={appState.companyDNA || undefined}
-            userEmail={appState.userEmail}
             onCalendarGenerated={(calendar) => {
               setAppState((prev) => ({ ...prev, marketingCalendar: calendar }))
             }}
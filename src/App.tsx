@@ -1,16 +1,30 @@
 import type React from 'react'
 import { useEffect, useState } from 'react'
 import { motion } from 'framer-motion'
+import { AccountMenu } from './components/auth/AccountMenu'
+import { SignInGate } from './components/auth/SignInGate'
 import { CompanyDNAExtractor } from './components/mvp1/CompanyDNAExtractor'
 import { MarketingCalendarGenerator } from './components/mvp2/MarketingCalendarGenerator'
 // import MarketingPlanner from './components/planning/MarketingPlanner'
+import { AIConfigPanel } from './components/dashboard/AIConfigPanel'
+import { AuditLogPanel } from './components/dashboard/AuditLogPanel'
+import { BillingPanel } from './components/dashboard/BillingPanel'
+import { CalendarFeedPanel } from './components/dashboard/CalendarFeedPanel'
+import { ClientBillingPanel } from './components/dashboard/ClientBillingPanel'
+import { DeadLetterPanel } from './components/dashboard/DeadLetterPanel'
+import { GoogleCalendarPanel } from './components/dashboard/GoogleCalendarPanel'
+import { TeamPanel } from './components/dashboard/TeamPanel'
+import { UsagePanel } from './components/dashboard/UsagePanel'
 import { OnboardingWizard } from './components/onboarding/OnboardingWizard'
+import { RetailComparisonPanel } from './components/planning/RetailComparisonPanel'
 import SlottedStartPage from './components/SlottedStartPage'
+import { WorkspaceSwitcher } from './components/workspaces/WorkspaceSwitcher'
 import { SlottedContextProvider } from './contexts/SlottedContext'
 import type { CompanyDNA } from './services/ai/modern-ai-orchestrator'
 import type { MarketingCalendar } from './services/campaigns/campaign-generator'
 import type { SlottedContext } from './schemas/slottedContext'
 import { modernMCPEngine } from './services/mcp/modern-mcp-server'
+import { workspaceManager } from './services/persistence/workspaces'
 
 // App state interface
 interface AppState {
@@ -63,6 +77,17 @@ export const App: React.FC = () => {
     return unsubscribe
   }, [])
 
+  // Drop the previous brand's in-memory results when switching workspaces
+  useEffect(() => {
+    return workspaceManager.onWorkspaceChange(() => {
+      setAppState((prev) => ({
+        ...prev,
+        slottedContext: null,
+        marketingCalendar: null,
+      }))
+    })
+  }, [])
+
   if (appState.isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
@@ -85,6 +110,7 @@ export const App: React.FC = () => {
 
   // Render different views based on current state
   return (
+    <SignInGate>
     <SlottedContextProvider>
       <div className="App">
         {(() => {
@@ -137,7 +163,6 @@ export const App: React.FC = () => {
 
                   <MarketingCalendarGenerator
                     companyDNA={appState.companyDNA}
-                    userEmail={appState.userEmail}
                     onCalendarGenerated={(calendar) => {
                       setAppState((prev) => ({ ...prev, marketingCalendar: calendar }))
                     }}
@@ -278,6 +303,7 @@ export const App: React.FC = () => {
         })()}
       </div>
     </SlottedContextProvider>
+    </SignInGate>
   )
 }
 
@@ -414,12 +440,16 @@ const LandingPage: React.FC<LandingPageProps> = ({ appState, setAppState }) => {
               <span className="text-2xl font-bold text-gray-900">Slotted</span>
             </div>
 
-            {appState.companyDNA && (
-              <div className="hidden sm:flex items-center space-x-2 text-sm text-gray-600 bg-green-50 px-3 py-2 rounded-lg">
-                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                <span className="font-medium">DNA: {appState.companyDNA.company.name}</span>
-              </div>
-            )}
+            <div className="flex items-center space-x-3">
+              {appState.companyDNA && (
+                <div className="hidden sm:flex items-center space-x-2 text-sm text-gray-600 bg-green-50 px-3 py-2 rounded-lg">
+                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+                  <span className="font-medium">DNA: {appState.companyDNA.company.name}</span>
+                </div>
+              )}
+              <WorkspaceSwitcher />
+              <AccountMenu />
+            </div>
           </div>
         </div>
       </header>
@@ -546,6 +576,22 @@ const LandingPage: React.FC<LandingPageProps> = ({ appState, setAppState }) => {
         </div>
       </section>
 
+      {/* AI Providers, Usage, Failed Posts & Team */}
+      <section className="pb-16 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8 items-start">
+          <AIConfigPanel />
+          <UsagePanel />
+          <DeadLetterPanel />
+          <TeamPanel />
+          <AuditLogPanel />
+          <BillingPanel />
+          <ClientBillingPanel />
+          <RetailComparisonPanel />
+          <GoogleCalendarPanel />
+          <CalendarFeedPanel />
+        </div>
+      </section>
+
       {/* Value Proposition */}
       <section className="py-16 px-4 sm:px-6 lg:px-8 bg-white/50">
         <div className="max-w-6xl mx-auto">
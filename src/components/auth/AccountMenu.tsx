@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react'
+import { ROLE_LABELS, authSession } from '../../services/auth/session'
+import { workspaceManager } from '../../services/persistence/workspaces'
+import { Button } from '../ui'
+
+/**
+ * Header badge with the signed-in user, their role in the active brand and a
+ * sign-out button. Hidden when working locally without an account.
+ */
+export function AccountMenu() {
+  const [user, setUser] = useState(() => authSession.getUser())
+  const [activeId, setActiveId] = useState(() => workspaceManager.getActiveWorkspaceId())
+  // Memberships change without the user changing, e.g. after a role edit
+  const [, setRevision] = useState(0)
+
+  useEffect(() => {
+    const unsubscribeSession = authSession.onChange((next) => {
+      setUser(next)
+      setRevision((revision) => revision + 1)
+    })
+    const unsubscribeWorkspace = workspaceManager.onWorkspaceChange((workspace) =>
+      setActiveId(workspace.id)
+    )
+    return () => {
+      unsubscribeSession()
+      unsubscribeWorkspace()
+    }
+  }, [])
+
+  if (!user) return null
+
+  const role = authSession.roleIn(activeId)
+
+  return (
+    <div className="flex items-center space-x-2">
+      <div className="hidden sm:block text-right leading-tight">
+        <p className="text-sm font-medium text-gray-900">{user.name}</p>
+        <p className="text-xs text-gray-500">{role ? ROLE_LABELS[role] : 'No access'}</p>
+      </div>
+      <Button variant="outline" size="sm" onClick={() => void authSession.logout()}>
+        Sign out
+      </Button>
+    </div>
+  )
+}
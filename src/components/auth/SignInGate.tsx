@@ -0,0 +1,214 @@
+import type React from 'react'
+import { useEffect, useState } from 'react'
+import { type InvitationDetails, ROLE_LABELS, authSession } from '../../services/auth/session'
+import { workspaceManager } from '../../services/persistence/workspaces'
+
+type Mode = 'login' | 'register'
+
+// Invitation links open the app with ?invite=<token>
+const readInviteToken = () => new URLSearchParams(window.location.search).get('invite')
+
+const clearInviteToken = () => {
+  const url = new URL(window.location.href)
+  url.searchParams.delete('invite')
+  window.history.replaceState(null, '', url)
+}
+
+/**
+ * Join the invited workspace and switch to it
+ */
+const joinInvitedWorkspace = async (token: string) => {
+  const invitation = await authSession.getInvitation(token)
+  await authSession.acceptInvitation(token)
+  clearInviteToken()
+  await workspaceManager.refreshFromServer()
+  workspaceManager.switchWorkspace(invitation.workspaceId)
+}
+
+const AuthForm: React.FC<{
+  needsSetup: boolean
+  invitation: InvitationDetails | null
+  inviteToken: string | null
+}> = ({ needsSetup, invitation, inviteToken }) => {
+  const [mode, setMode] = useState<Mode>(needsSetup || invitation ? 'register' : 'login')
+  const [email, setEmail] = useState(invitation?.email || '')
+  const [name, setName] = useState('')
+  const [password, setPassword] = useState('')
+  const [setupToken, setSetupToken] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsBusy(true)
+    setError(null)
+    try {
+      if (mode === 'register') {
+        await authSession.register({
+          email,
+          name,
+          password,
+          invitationToken: inviteToken || undefined,
+          setupToken: needsSetup ? setupToken.trim() : undefined,
+        })
+      } else {
+        await authSession.login(email, password)
+      }
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Failed to sign in')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const inputClass =
+    'w-full border-2 border-slate-300 px-3 py-2 rounded-xl focus:outline-none focus:border-blue-600'
+
+  return (
+    <form
+      onSubmit={(event) => void handleSubmit(event)}
+      className="w-full max-w-sm bg-white/90 rounded-2xl shadow-2xl border border-white/40 p-8 space-y-4"
+    >
+      <h1 className="text-2xl font-bold text-slate-900">
+        {mode === 'register' ? 'Create your account' : 'Sign in to Slotted'}
+      </h1>
+      {needsSetup && (
+        <p className="text-sm text-slate-600">
+          This is the first account, so it becomes the admin of every workspace. Enter the setup
+          token from the backend's SETUP_TOKEN or its startup log.
+        </p>
+      )}
+      {invitation && (
+        <p className="text-sm text-slate-600">
+          You're invited to {invitation.workspaceName || 'a workspace'} as{' '}
+          {ROLE_LABELS[invitation.role]}.
+        </p>
+      )}
+      {mode === 'register' && (
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Your name"
+          aria-label="Name"
+          required
+          className={inputClass}
+        />
+      )}
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email"
+        aria-label="Email"
+        required
+        className={inputClass}
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password (8+ characters)"
+        aria-label="Password"
+        required
+        minLength={8}
+        className={inputClass}
+      />
+      {needsSetup && (
+        <input
+          value={setupToken}
+          onChange={(e) => setSetupToken(e.target.value)}
+          placeholder="Setup token"
+          aria-label="Setup token"
+          required
+          className={inputClass}
+        />
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={isBusy}
+        className="w-full px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl hover:from-blue-700 hover:to-blue-800 disabled:opacity-50"
+      >
+        {mode === 'register' ? 'Create account' : 'Sign in'}
+      </button>
+      {!needsSetup && (
+        <button
+          type="button"
+          onClick={() => setMode(mode === 'register' ? 'login' : 'register')}
+          className="w-full text-sm text-blue-600 hover:text-blue-700"
+        >
+          {mode === 'register' ? 'I already have an account' : 'I have an invitation'}
+        </button>
+      )}
+    </form>
+  )
+}
+
+/**
+ * Shows the app only to signed-in users. Handles first-run setup and
+ * invitation links. Without a reachable backend the app runs locally, as it
+ * always has, with nothing shared.
+ */
+export const SignInGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState(() => authSession.getUser())
+  const [status, setStatus] = useState<'checking' | 'online' | 'offline'>('checking')
+  const [needsSetup, setNeedsSetup] = useState(false)
+  const [inviteToken] = useState(readInviteToken)
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+
+  useEffect(() => authSession.onChange(setUser), [])
+
+  useEffect(() => {
+    authSession
+      .getStatus()
+      .then((result) => {
+        setNeedsSetup(result.needsSetup)
+        setStatus('online')
+      })
+      .catch(() => {
+        console.warn('⚠️ Backend unreachable, working locally without an account')
+        setStatus('offline')
+      })
+    if (inviteToken) {
+      authSession
+        .getInvitation(inviteToken)
+        .then(setInvitation)
+        .catch(() => setInvitation(null))
+    }
+  }, [inviteToken])
+
+  // Once signed in, pick up the user's workspaces and any pending invitation
+  useEffect(() => {
+    if (!user) return
+    void authSession.refresh().catch(() => undefined)
+    if (inviteToken && readInviteToken()) {
+      joinInvitedWorkspace(inviteToken).catch((error) => {
+        console.warn('⚠️ Could not accept invitation:', error)
+        clearInviteToken()
+      })
+    } else {
+      void workspaceManager.refreshFromServer()
+    }
+  }, [user, inviteToken])
+
+  if (user || status === 'offline') return <>{children}</>
+
+  if (status === 'checking') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
+        <p className="text-gray-600 text-lg font-medium">Checking sign-in…</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center p-4">
+      <AuthForm
+        key={invitation?.id || 'form'}
+        needsSetup={needsSetup}
+        invitation={invitation}
+        inviteToken={inviteToken}
+      />
+    </div>
+  )
+}
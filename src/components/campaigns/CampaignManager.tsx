@@ -2,6 +2,9 @@ import type React from 'react'
 import { useState } from 'react'
 import { useSlottedContext } from '../../contexts/SlottedContext'
 import { aiOrchestrator } from '../../services/ai/aiOrchestrator'
+import { authFetch } from '../../services/auth/session'
+import { getBackendUrl } from '../../services/backend-url'
+import { workspaceManager } from '../../services/persistence/workspaces'
 
 interface Campaign {
   week: number
@@ -33,24 +36,22 @@ export const CampaignManager: React.FC<CampaignManagerProps> = ({ onCampaignSele
 
     setIsGenerating(true)
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL || 'http://localhost:3001'}/api/campaigns/generate-topics`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
+      const response = await authFetch(`${getBackendUrl()}/api/campaigns/generate-topics`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          workspaceId: workspaceManager.getActiveWorkspaceId(),
+          mcpContext: context,
+          weeks: 13,
+          aiConfig: {
+            provider: 'openai', // This should come from your AI config
+            model: 'gpt-4o',
+            apiKey: 'stored-securely', // In production, handle securely
           },
-          body: JSON.stringify({
-            mcpContext: context,
-            weeks: 13,
-            aiConfig: {
-              provider: 'openai', // This should come from your AI config
-              model: 'gpt-4o',
-              apiKey: 'stored-securely', // In production, handle securely
-            },
-          }),
-        }
-      )
+        }),
+      })
 
       if (!response.ok) {
         throw new Error('Failed to generate campaigns')
@@ -97,8 +98,8 @@ export const CampaignManager: React.FC<CampaignManagerProps> = ({ onCampaignSele
     try {
       // Create Google Sheets calendar
       const credentials = localStorage.getItem('google_credentials')
-      const calendarResponse = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL || 'http://localhost:3001'}/api/google/sheets/create-campaign-calendar`,
+      const calendarResponse = await authFetch(
+        `${getBackendUrl()}/api/google/sheets/create-campaign-calendar`,
         {
           method: 'POST',
           headers: {
@@ -120,8 +121,8 @@ export const CampaignManager: React.FC<CampaignManagerProps> = ({ onCampaignSele
       const calendarData = await calendarResponse.json()
 
       // Create company root folder
-      const folderResponse = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL || 'http://localhost:3001'}/api/google/drive/create-company-folder`,
+      const folderResponse = await authFetch(
+        `${getBackendUrl()}/api/google/drive/create-company-folder`,
         {
           method: 'POST',
           headers: {
@@ -129,6 +130,7 @@ export const CampaignManager: React.FC<CampaignManagerProps> = ({ onCampaignSele
           },
           body: JSON.stringify({
             companyName: context.company.name,
+            workspaceId: workspaceManager.getActiveWorkspaceId(),
             config: JSON.parse(credentials!),
           }),
         }
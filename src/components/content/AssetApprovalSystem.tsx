@@ -12,6 +12,8 @@ interface Asset {
   reviewer?: string
   reviewComments?: string[]
   version: number
+  // Scheduled posts waiting on this asset, soonest first
+  upcomingPosts?: { channelId: string; scheduledFor: string; status: string }[]
 }
 
 interface AssetApprovalSystemProps {
@@ -20,7 +22,9 @@ interface AssetApprovalSystemProps {
   onReject: (assetId: string, comments: string) => void
   onPublish: (assetId: string) => void
   onEdit: (assetId: string) => void
-  userRole: 'author' | 'reviewer' | 'admin'
+  // Send a draft or rejected asset for review
+  onSubmit?: (assetId: string) => void
+  userRole: 'author' | 'reviewer' | 'admin' | 'client_viewer'
 }
 
 export const AssetApprovalSystem: React.FC<AssetApprovalSystemProps> = ({
@@ -29,6 +33,7 @@ export const AssetApprovalSystem: React.FC<AssetApprovalSystemProps> = ({
   onReject,
   onPublish,
   onEdit,
+  onSubmit,
   userRole
 }) => {
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null)
@@ -84,8 +89,26 @@ export const AssetApprovalSystem: React.FC<AssetApprovalSystemProps> = ({
     setSelectedAsset(null)
   }, [onReject, reviewComment])
 
+  // Posts made from unapproved assets are held back, so flag the next one
+  const renderDeadline = (asset: Asset) => {
+    const next = asset.upcomingPosts?.[0]
+    if (!next) return null
+    const isApproved = asset.status === 'approved' || asset.status === 'published'
+    const hoursLeft = (new Date(next.scheduledFor).getTime() - Date.now()) / 3_600_000
+    const when = next.status === 'scheduled'
+      ? new Date(next.scheduledFor).toLocaleString()
+      : `(${next.status.replace('_', ' ')})`
+    const color = isApproved ? 'text-gray-400' : hoursLeft < 24 ? 'text-red-600 font-medium' : 'text-orange-600'
+    return (
+      <p className={`text-xs ${color}`}>
+        {isApproved ? 'Posts' : 'Needs approval for'} {next.channelId} {when}
+      </p>
+    )
+  }
+
   const canReview = userRole === 'reviewer' || userRole === 'admin'
   const canPublish = userRole === 'admin'
+  const canEdit = userRole !== 'client_viewer'
 
   return (
     <div className="bg-white rounded-lg shadow-lg border border-gray-200">
@@ -146,6 +169,7 @@ export const AssetApprovalSystem: React.FC<AssetApprovalSystemProps> = ({
                       Reviewed by {asset.reviewer}
                     </p>
                   )}
+                  {renderDeadline(asset)}
                 </div>
               </div>
               
@@ -155,6 +179,18 @@ export const AssetApprovalSystem: React.FC<AssetApprovalSystemProps> = ({
                 </span>
                 
                 <div className="flex items-center space-x-2">
+                  {(asset.status === 'draft' || asset.status === 'rejected') && onSubmit && canEdit && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onSubmit(asset.id)
+                      }}
+                      className="px-3 py-1 text-sm bg-yellow-500 text-white rounded-md hover:bg-yellow-600"
+                    >
+                      📨 Submit for review
+                    </button>
+                  )}
+
                   {asset.status === 'pending_review' && canReview && (
                     <>
                       <button
@@ -191,15 +227,17 @@ export const AssetApprovalSystem: React.FC<AssetApprovalSystemProps> = ({
                     </button>
                   )}
                   
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      onEdit(asset.id)
-                    }}
-                    className="px-3 py-1 text-sm bg-gray-600 text-white rounded-md hover:bg-gray-700"
-                  >
-                    ✏️ Edit
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onEdit(asset.id)
+                      }}
+                      className="px-3 py-1 text-sm bg-gray-600 text-white rounded-md hover:bg-gray-700"
+                    >
+                      ✏️ Edit
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,253 @@
+import type React from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { useSlottedContext } from '../../contexts/SlottedContext'
+import { modernAIOrchestrator } from '../../services/ai/modern-ai-orchestrator'
+import {
+  type ContentJob,
+  type ContentPackageType,
+  cancelJob,
+  enqueueContentPackage,
+  getJob,
+  isFinishedJob,
+  retryJob,
+  watchJob,
+} from '../../services/content/content-jobs'
+import { workspaceManager } from '../../services/persistence/workspaces'
+
+interface ContentPackageJobPanelProps {
+  topic: string
+  onContentGenerated: (type: ContentPackageType, content: unknown) => void
+}
+
+const ACTIVE_JOB_KEY = 'slotted_content_job'
+
+const PACKAGE_TYPES: Array<{ id: ContentPackageType; name: string; icon: string }> = [
+  { id: 'blog', name: 'Blog', icon: '📝' },
+  { id: 'video', name: 'Video Script', icon: '🎬' },
+  { id: 'social', name: 'Social', icon: '📱' },
+  { id: 'email', name: 'Email', icon: '📧' },
+]
+
+const STATUS_STYLES: Record<ContentJob['status'], string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-yellow-100 text-yellow-700',
+}
+
+const storedJob = () => {
+  const id = localStorage.getItem(workspaceManager.scopedKey(ACTIVE_JOB_KEY))
+  return id ? { id } : null
+}
+
+/**
+ * Generates a full content package as a backend job with live progress.
+ * The job keeps running if the page is closed and is picked up again on
+ * return.
+ */
+export const ContentPackageJobPanel: React.FC<ContentPackageJobPanelProps> = ({
+  topic,
+  onContentGenerated,
+}) => {
+  const { context } = useSlottedContext()
+  const [contentTypes, setContentTypes] = useState<ContentPackageType[]>([
+    'blog',
+    'video',
+    'social',
+    'email',
+  ])
+  const [job, setJob] = useState<ContentJob | null>(null)
+  // A new object restarts watching, e.g. after a retry of the same job
+  const [watched, setWatched] = useState<{ id: string } | null>(storedJob)
+  const [error, setError] = useState<string | null>(null)
+  const onContentGeneratedRef = useRef(onContentGenerated)
+  onContentGeneratedRef.current = onContentGenerated
+
+  // Each brand tracks its own job
+  useEffect(() => {
+    return workspaceManager.onWorkspaceChange(() => {
+      setJob(null)
+      setWatched(storedJob())
+    })
+  }, [])
+
+  useEffect(() => {
+    if (!watched) return
+    const jobId = watched.id
+
+    let delivered = false
+    const stop = watchJob(jobId, (update) => {
+      setJob(update)
+      if (update.status === 'completed' && update.result && !delivered) {
+        delivered = true
+        for (const [type, content] of Object.entries(update.result.content)) {
+          onContentGeneratedRef.current(type as ContentPackageType, content)
+        }
+        localStorage.removeItem(workspaceManager.scopedKey(ACTIVE_JOB_KEY))
+      }
+    })
+
+    // Show the stored job right away instead of waiting for the first event
+    getJob(jobId).then(
+      (current) => setJob((prev) => prev || current),
+      () => {
+        localStorage.removeItem(workspaceManager.scopedKey(ACTIVE_JOB_KEY))
+        setWatched(null)
+      }
+    )
+
+    return stop
+  }, [watched])
+
+  const toggleType = (type: ContentPackageType) => {
+    setContentTypes((prev) =>
+      prev.includes(type) ? prev.filter((candidate) => candidate !== type) : [...prev, type]
+    )
+  }
+
+  const handleStart = async () => {
+    if (!context || !topic.trim()) return
+    setError(null)
+
+    try {
+      const queued = await enqueueContentPackage({
+        mcpContext: context,
+        topic,
+        contentTypes,
+        aiConfig: modernAIOrchestrator.getProviderConfig(),
+      })
+      localStorage.setItem(workspaceManager.scopedKey(ACTIVE_JOB_KEY), queued.id)
+      setJob(queued)
+      setWatched({ id: queued.id })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start content package')
+    }
+  }
+
+  const handleAction = async (action: (id: string) => Promise<ContentJob>) => {
+    if (!job) return
+    setError(null)
+
+    try {
+      const updated = await action(job.id)
+      setJob(updated)
+      if (!isFinishedJob(updated)) {
+        setWatched({ id: updated.id })
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Job action failed')
+    }
+  }
+
+  const isActive = job !== null && !isFinishedJob(job)
+  const percent = job?.progress.total
+    ? Math.round((job.progress.completed / job.progress.total) * 100)
+    : 0
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">📦 Full Content Package</h3>
+          <p className="text-sm text-gray-600">
+            Generate every content type for the shared topic in the background
+          </p>
+        </div>
+        {job && (
+          <span
+            className={`px-3 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[job.status]}`}
+          >
+            {job.status}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        {PACKAGE_TYPES.map((type) => (
+          <label key={type.id} className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={contentTypes.includes(type.id)}
+              onChange={() => toggleType(type.id)}
+              disabled={isActive}
+            />
+            <span>
+              {type.icon} {type.name}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {job && (
+        <div className="mb-4">
+          <div className="flex justify-between text-sm text-gray-600 mb-1">
+            <span>
+              {job.progress.step
+                ? `Generating ${job.progress.step}...`
+                : `${job.progress.completed} of ${job.progress.total} complete`}
+            </span>
+            <span>{percent}%</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2 mt-3">
+            {PACKAGE_TYPES.filter((type) => contentTypes.includes(type.id)).map((type) => (
+              <span
+                key={type.id}
+                className={`px-2 py-1 rounded text-xs ${
+                  job.checkpoints[type.id] !== undefined
+                    ? 'bg-green-50 text-green-700'
+                    : job.progress.step === type.id
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'bg-gray-50 text-gray-500'
+                }`}
+              >
+                {type.icon} {type.name}
+                {job.checkpoints[type.id] !== undefined ? ' ✓' : ''}
+              </span>
+            ))}
+          </div>
+          {job.error && <p className="text-sm text-red-600 mt-2">{job.error}</p>}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      <div className="flex space-x-3">
+        {!isActive && (
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={!topic.trim() || contentTypes.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {topic.trim() ? 'Generate Package' : 'Enter a shared topic first'}
+          </button>
+        )}
+        {isActive && (
+          <button
+            type="button"
+            onClick={() => handleAction(cancelJob)}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+        )}
+        {(job?.status === 'failed' || job?.status === 'cancelled') && (
+          <button
+            type="button"
+            onClick={() => handleAction(retryJob)}
+            className="px-4 py-2 bg-white border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50"
+          >
+            Resume
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,11 @@
 import React, { useState, useCallback } from 'react'
 import { useSlottedContext } from '../../contexts/SlottedContext'
-import { modernAIOrchestrator } from '../../services/ai/modern-ai-orchestrator'
+import { useGenerationStream } from '../../hooks/useGenerationStream'
+import {
+  GenerationCancelledError,
+  modernAIOrchestrator
+} from '../../services/ai/modern-ai-orchestrator'
+import { StreamingPreview } from './StreamingPreview'
 
 interface EmailCampaign {
   subject: string
@@ -31,6 +36,7 @@ export const EmailGenerator: React.FC<EmailGeneratorProps> = ({
   const [generatedEmail, setGeneratedEmail] = useState<EmailCampaign | null>(null)
   const [currentStep, setCurrentStep] = useState('')
   const [progress, setProgress] = useState(0)
+  const stream = useGenerationStream()
   const [emailOptions, setEmailOptions] = useState({
     topic: topic,
     type: 'newsletter' as 'newsletter' | 'promotion' | 'announcement' | 'nurture',
@@ -66,10 +72,10 @@ export const EmailGenerator: React.FC<EmailGeneratorProps> = ({
       setProgress(50)
 
       const response = await modernAIOrchestrator.generateContent({
-        type: 'email',
-        customInstructions: prompt,
-        maxTokens: 2000
+        prompt,
+        ...stream.start()
       })
+      stream.finish()
 
       setCurrentStep('Optimizing subject line and preview...')
       setProgress(80)
@@ -83,6 +89,11 @@ export const EmailGenerator: React.FC<EmailGeneratorProps> = ({
       onEmailGenerated(email)
       setCurrentStep('Email generation complete!')
     } catch (error) {
+      stream.finish()
+      if (error instanceof GenerationCancelledError) {
+        setCurrentStep('Generation cancelled')
+        return
+      }
       console.error('Email generation failed:', error)
       alert('Email generation failed. Please try again.')
       setCurrentStep('Generation failed')
@@ -94,10 +105,10 @@ export const EmailGenerator: React.FC<EmailGeneratorProps> = ({
   const buildEmailPrompt = (options: any, context: any) => {
     return `
 COMPANY CONTEXT:
-- Company: ${context.companyName}
-- Industry: ${context.industry}
-- Brand Voice: ${context.brandVoice}
-- Target Audience: ${context.targetAudience}
+- Company: ${context.company?.name}
+- Industry: ${context.company?.industry}
+- Brand Voice: ${context.brandDNA?.brandTone?.styleDescription}
+- Target Audience: ${context.brandDNA?.targetAudience?.demographics}
 
 TASK: Create a ${options.type} email about "${options.topic}"
 
@@ -364,6 +375,11 @@ Return as JSON with this exact structure:
               style={{ width: `${progress}%` }}
             ></div>
           </div>
+          <StreamingPreview
+            text={stream.streamedText}
+            isStreaming={stream.isStreaming}
+            onCancel={stream.cancel}
+          />
         </div>
       )}
 
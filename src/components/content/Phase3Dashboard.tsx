@@ -3,6 +3,7 @@ import { BlogContentGeneratorComponent } from '../mvp3/BlogContentGenerator'
 import { ScriptGenerator } from './ScriptGenerator'
 import { EmailGenerator } from './EmailGenerator'
 import { SocialMediaGenerator } from './SocialMediaGenerator'
+import { ContentPackageJobPanel } from './ContentPackageJobPanel'
 import { useSlottedContext } from '../../contexts/SlottedContext'
 
 interface GeneratedContent {
@@ -29,6 +30,13 @@ export const Phase3Dashboard: React.FC = () => {
     setGeneratedContent(prev => [newContent, ...prev])
   }
 
+  const handlePackageContent = (type: string, content: any) => {
+    const dashboardType = type === 'video' ? 'script' : type
+    if (['blog', 'script', 'email', 'social'].includes(dashboardType)) {
+      handleContentGenerated(dashboardType as GeneratedContent['type'], content)
+    }
+  }
+
   const getContentTitle = (type: string, content: any): string => {
     switch (type) {
       case 'blog':
@@ -98,20 +106,20 @@ export const Phase3Dashboard: React.FC = () => {
         {/* Company Context */}
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mb-6">
           <h3 className="text-lg font-semibold text-blue-900 mb-3">
-            🧬 Using Company DNA: {context.companyName}
+            🧬 Using Company DNA: {context.company?.name}
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
             <div>
               <span className="font-medium text-blue-800">Industry:</span>
-              <span className="ml-2 text-blue-700">{context.industry}</span>
+              <span className="ml-2 text-blue-700">{context.company?.industry}</span>
             </div>
             <div>
               <span className="font-medium text-blue-800">Brand Voice:</span>
-              <span className="ml-2 text-blue-700">{context.brandVoice}</span>
+              <span className="ml-2 text-blue-700">{context.brandDNA?.brandTone?.styleDescription}</span>
             </div>
             <div>
               <span className="font-medium text-blue-800">Target Audience:</span>
-              <span className="ml-2 text-blue-700">{context.targetAudience}</span>
+              <span className="ml-2 text-blue-700">{context.brandDNA?.targetAudience?.demographics}</span>
             </div>
             <div>
               <span className="font-medium text-blue-800">Generated Content:</span>
@@ -188,6 +196,8 @@ export const Phase3Dashboard: React.FC = () => {
 
         {/* Main Content Area */}
         <div className="lg:col-span-3">
+          <ContentPackageJobPanel topic={sharedTopic} onContentGenerated={handlePackageContent} />
+
           {/* Tab Navigation */}
           <div className="bg-white rounded-lg shadow-lg border border-gray-200 mb-6">
             <div className="border-b border-gray-200">
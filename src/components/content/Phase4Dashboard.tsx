@@ -1,4 +1,11 @@
-import React, { useState, useCallback } from 'react'
+import React, { useState, useCallback, useEffect } from 'react'
+import {
+  type ApprovalAsset,
+  type ReviewNotification,
+  assetApprovals
+} from '../../services/approvals/asset-approvals'
+import { ROLE_LABELS, type Role, authSession } from '../../services/auth/session'
+import { workspaceManager } from '../../services/persistence/workspaces'
 import { ContentEditor } from './ContentEditor'
 import { AssetApprovalSystem } from './AssetApprovalSystem'
 import { RegenerationAgent } from './RegenerationAgent'
@@ -15,6 +22,7 @@ interface Asset {
   reviewer?: string
   reviewComments?: string[]
   version: number
+  upcomingPosts?: ApprovalAsset['upcomingPosts']
 }
 
 interface ContentVersion {
@@ -25,6 +33,12 @@ interface ContentVersion {
   changes: string
 }
 
+const toAsset = (asset: ApprovalAsset): Asset => ({
+  ...asset,
+  createdAt: new Date(asset.createdAt),
+  updatedAt: new Date(asset.updatedAt)
+})
+
 export const Phase4Dashboard: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'editor' | 'approval' | 'regeneration'>('editor')
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null)
@@ -69,61 +83,126 @@ export const Phase4Dashboard: React.FC = () => {
     }
   ])
 
+  // The sample assets above stand in until the backend answers; once it does,
+  // its assets are used, and scheduled posts made from them wait for approval
+  const [isOffline, setIsOffline] = useState(true)
+  const [notifications, setNotifications] = useState<ReviewNotification[]>([])
+
+  const refreshAssets = useCallback(async () => {
+    try {
+      const [remoteAssets, remoteNotifications] = await Promise.all([
+        assetApprovals.listAssets(),
+        assetApprovals.getNotifications()
+      ])
+      setAssets(remoteAssets.map(toAsset))
+      setNotifications(remoteNotifications)
+      setIsOffline(false)
+    } catch {
+      setIsOffline(true)
+    }
+  }, [])
+
+  useEffect(() => {
+    void refreshAssets()
+    return workspaceManager.onWorkspaceChange(() => void refreshAssets())
+  }, [refreshAssets])
+
+  // Send a change to the backend, or make it locally to the sample assets
+  const applyChange = useCallback((
+    assetId: string,
+    remote: () => Promise<unknown>,
+    local: (asset: Asset) => Asset
+  ) => {
+    if (isOffline) {
+      setAssets(prev => prev.map(asset => asset.id === assetId ? local(asset) : asset))
+      return
+    }
+    remote()
+      .then(refreshAssets)
+      .catch((error) => {
+        console.error('Failed to update asset:', error)
+        alert(error instanceof Error ? error.message : 'Failed to update asset')
+      })
+  }, [isOffline, refreshAssets])
+
+  // Signed in, the role comes from the account; the picker only previews roles on sample data
+  const [accountRole, setAccountRole] = useState<Role | undefined>(() =>
+    authSession.roleIn(workspaceManager.getActiveWorkspaceId())
+  )
+
+  useEffect(() => {
+    const update = () => setAccountRole(authSession.roleIn(workspaceManager.getActiveWorkspaceId()))
+    const unsubscribeSession = authSession.onChange(update)
+    const unsubscribeWorkspace = workspaceManager.onWorkspaceChange(update)
+    return () => {
+      unsubscribeSession()
+      unsubscribeWorkspace()
+    }
+  }, [])
+
+  const role: Role = isOffline ? userRole : accountRole || 'client_viewer'
+  const canReview = role === 'reviewer' || role === 'admin'
+  const reviewerName = authSession.getUser()?.name || (role === 'admin' ? 'Admin' : 'Reviewer')
+
   const handleSaveContent = useCallback((content: string, version: ContentVersion) => {
     if (selectedAsset) {
-      setAssets(prev => prev.map(asset => 
-        asset.id === selectedAsset.id 
-          ? {
-              ...asset,
-              content,
-              updatedAt: new Date(),
-              version: asset.version + 1,
-              status: 'draft'
-            }
-          : asset
-      ))
+      applyChange(
+        selectedAsset.id,
+        () => assetApprovals.updateAsset(selectedAsset.id, { content }),
+        asset => ({
+          ...asset,
+          content,
+          updatedAt: new Date(),
+          version: asset.version + 1,
+          status: 'draft'
+        })
+      )
     }
-  }, [selectedAsset])
+  }, [selectedAsset, applyChange])
+
+  const handleSubmitAsset = useCallback((assetId: string) => {
+    applyChange(
+      assetId,
+      () => assetApprovals.submitForReview(assetId),
+      asset => ({ ...asset, status: 'pending_review', updatedAt: new Date() })
+    )
+  }, [applyChange])
 
   const handleApproveAsset = useCallback((assetId: string, comments?: string) => {
-    setAssets(prev => prev.map(asset => 
-      asset.id === assetId 
-        ? {
-            ...asset,
-            status: 'approved',
-            reviewer: userRole === 'admin' ? 'Admin' : 'Reviewer',
-            reviewComments: comments ? [...(asset.reviewComments || []), comments] : asset.reviewComments,
-            updatedAt: new Date()
-          }
-        : asset
-    ))
-  }, [userRole])
+    applyChange(
+      assetId,
+      () => assetApprovals.approveAsset(assetId, reviewerName, comments || undefined),
+      asset => ({
+        ...asset,
+        status: 'approved',
+        reviewer: reviewerName,
+        reviewComments: comments ? [...(asset.reviewComments || []), comments] : asset.reviewComments,
+        updatedAt: new Date()
+      })
+    )
+  }, [applyChange, reviewerName])
 
   const handleRejectAsset = useCallback((assetId: string, comments: string) => {
-    setAssets(prev => prev.map(asset => 
-      asset.id === assetId 
-        ? {
-            ...asset,
-            status: 'rejected',
-            reviewer: userRole === 'admin' ? 'Admin' : 'Reviewer',
-            reviewComments: [...(asset.reviewComments || []), comments],
-            updatedAt: new Date()
-          }
-        : asset
-    ))
-  }, [userRole])
+    applyChange(
+      assetId,
+      () => assetApprovals.rejectAsset(assetId, reviewerName, comments),
+      asset => ({
+        ...asset,
+        status: 'rejected',
+        reviewer: reviewerName,
+        reviewComments: [...(asset.reviewComments || []), comments],
+        updatedAt: new Date()
+      })
+    )
+  }, [applyChange, reviewerName])
 
   const handlePublishAsset = useCallback((assetId: string) => {
-    setAssets(prev => prev.map(asset => 
-      asset.id === assetId 
-        ? {
-            ...asset,
-            status: 'published',
-            updatedAt: new Date()
-          }
-        : asset
-    ))
-  }, [])
+    applyChange(
+      assetId,
+      () => assetApprovals.publishAsset(assetId),
+      asset => ({ ...asset, status: 'published', updatedAt: new Date() })
+    )
+  }, [applyChange])
 
   const handleEditAsset = useCallback((assetId: string) => {
     const asset = assets.find(a => a.id === assetId)
@@ -141,21 +220,21 @@ export const Phase4Dashboard: React.FC = () => {
 
   const handleRegenerateWithStyle = useCallback((newContent: string, style: any) => {
     if (selectedAsset) {
-      setAssets(prev => prev.map(asset => 
-        asset.id === selectedAsset.id 
-          ? {
-              ...asset,
-              content: newContent,
-              updatedAt: new Date(),
-              version: asset.version + 1,
-              status: 'draft'
-            }
-          : asset
-      ))
+      applyChange(
+        selectedAsset.id,
+        () => assetApprovals.updateAsset(selectedAsset.id, { content: newContent }),
+        asset => ({
+          ...asset,
+          content: newContent,
+          updatedAt: new Date(),
+          version: asset.version + 1,
+          status: 'draft'
+        })
+      )
       setSelectedAsset(prev => prev ? { ...prev, content: newContent } : null)
     }
     setShowRegenerationAgent(false)
-  }, [selectedAsset])
+  }, [selectedAsset, applyChange])
 
   const getTabIcon = (tab: string) => {
     switch (tab) {
@@ -180,15 +259,21 @@ export const Phase4Dashboard: React.FC = () => {
             </div>
             
             <div className="flex items-center space-x-4">
-              <select
-                value={userRole}
-                onChange={(e) => setUserRole(e.target.value as 'author' | 'reviewer' | 'admin')}
-                className="px-3 py-1 border border-gray-300 rounded-md text-sm"
-              >
-                <option value="author">Author</option>
-                <option value="reviewer">Reviewer</option>
-                <option value="admin">Admin</option>
-              </select>
+              {isOffline ? (
+                <select
+                  value={userRole}
+                  onChange={(e) => setUserRole(e.target.value as 'author' | 'reviewer' | 'admin')}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="author">Author</option>
+                  <option value="reviewer">Reviewer</option>
+                  <option value="admin">Admin</option>
+                </select>
+              ) : (
+                <span className="px-3 py-1 bg-gray-100 text-gray-700 rounded-md text-sm">
+                  {ROLE_LABELS[role]}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -259,7 +344,7 @@ export const Phase4Dashboard: React.FC = () => {
                 initialContent={selectedAsset.content}
                 contentType={selectedAsset.type}
                 onSave={handleSaveContent}
-                onApprove={userRole !== 'author' ? () => handleApproveAsset(selectedAsset.id) : undefined}
+                onApprove={canReview ? () => handleApproveAsset(selectedAsset.id) : undefined}
                 onRegenerate={handleRegenerateContent}
               />
             ) : (
@@ -273,14 +358,39 @@ export const Phase4Dashboard: React.FC = () => {
         )}
 
         {activeTab === 'approval' && (
-          <AssetApprovalSystem
-            assets={assets}
-            onApprove={handleApproveAsset}
-            onReject={handleRejectAsset}
-            onPublish={handlePublishAsset}
-            onEdit={handleEditAsset}
-            userRole={userRole}
-          />
+          <div className="space-y-6">
+            {isOffline && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+                Showing sample assets. Start the backend to review real assets and hold scheduled posts until they're approved.
+              </div>
+            )}
+
+            {canReview && notifications.length > 0 && (
+              <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-4">
+                <h3 className="font-medium text-gray-900 mb-2">Review Alerts</h3>
+                <ul className="space-y-1 text-sm">
+                  {notifications.slice(0, 5).map(notification => (
+                    <li
+                      key={notification.id}
+                      className={notification.kind === 'approval_escalated' ? 'text-red-600' : 'text-gray-700'}
+                    >
+                      {notification.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <AssetApprovalSystem
+              assets={assets}
+              onApprove={handleApproveAsset}
+              onReject={handleRejectAsset}
+              onPublish={handlePublishAsset}
+              onEdit={handleEditAsset}
+              onSubmit={handleSubmitAsset}
+              userRole={role}
+            />
+          </div>
         )}
 
         {activeTab === 'regeneration' && (
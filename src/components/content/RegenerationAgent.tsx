@@ -258,10 +258,10 @@ export const RegenerationAgent: React.FC<RegenerationAgentProps> = ({
           <div className="text-sm text-gray-600">
             <p>Regeneration will use your company context:</p>
             <ul className="list-disc list-inside mt-1 space-y-1">
-              <li>Company: {context.companyName}</li>
-              <li>Industry: {context.industry}</li>
-              <li>Target Audience: {context.targetAudience}</li>
-              <li>Brand Voice: {context.brandVoice}</li>
+              <li>Company: {context.company?.name}</li>
+              <li>Industry: {context.company?.industry}</li>
+              <li>Target Audience: {context.brandDNA?.targetAudience?.demographics}</li>
+              <li>Brand Voice: {context.brandDNA?.brandTone?.styleDescription}</li>
             </ul>
           </div>
         </div>
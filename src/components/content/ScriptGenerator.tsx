@@ -1,6 +1,11 @@
 import React, { useState, useCallback } from 'react'
 import { useSlottedContext } from '../../contexts/SlottedContext'
-import { modernAIOrchestrator } from '../../services/ai/modern-ai-orchestrator'
+import { useGenerationStream } from '../../hooks/useGenerationStream'
+import {
+  GenerationCancelledError,
+  modernAIOrchestrator
+} from '../../services/ai/modern-ai-orchestrator'
+import { StreamingPreview } from './StreamingPreview'
 
 interface VideoScript {
   title: string
@@ -32,6 +37,7 @@ export const ScriptGenerator: React.FC<ScriptGeneratorProps> = ({
   const [generatedScript, setGeneratedScript] = useState<VideoScript | null>(null)
   const [currentStep, setCurrentStep] = useState('')
   const [progress, setProgress] = useState(0)
+  const stream = useGenerationStream()
   const [scriptOptions, setScriptOptions] = useState({
     topic: topic,
     duration: 180, // 3 minutes
@@ -67,10 +73,10 @@ export const ScriptGenerator: React.FC<ScriptGeneratorProps> = ({
       setProgress(50)
 
       const response = await modernAIOrchestrator.generateContent({
-        type: 'script',
-        customInstructions: prompt,
-        maxTokens: 3000
+        prompt,
+        ...stream.start()
       })
+      stream.finish()
 
       setCurrentStep('Structuring scenes and timing...')
       setProgress(80)
@@ -84,6 +90,11 @@ export const ScriptGenerator: React.FC<ScriptGeneratorProps> = ({
       onScriptGenerated(script)
       setCurrentStep('Script generation complete!')
     } catch (error) {
+      stream.finish()
+      if (error instanceof GenerationCancelledError) {
+        setCurrentStep('Generation cancelled')
+        return
+      }
       console.error('Script generation failed:', error)
       alert('Script generation failed. Please try again.')
       setCurrentStep('Generation failed')
@@ -97,10 +108,10 @@ export const ScriptGenerator: React.FC<ScriptGeneratorProps> = ({
 
     return `
 COMPANY CONTEXT:
-- Company: ${context.companyName}
-- Industry: ${context.industry}
-- Brand Voice: ${context.brandVoice}
-- Target Audience: ${context.targetAudience}
+- Company: ${context.company?.name}
+- Industry: ${context.company?.industry}
+- Brand Voice: ${context.brandDNA?.brandTone?.styleDescription}
+- Target Audience: ${context.brandDNA?.targetAudience?.demographics}
 
 ${sourceContent}TASK: Create an engaging video script about "${options.topic}"
 
@@ -343,6 +354,11 @@ Return as JSON with this exact structure:
               style={{ width: `${progress}%` }}
             ></div>
           </div>
+          <StreamingPreview
+            text={stream.streamedText}
+            isStreaming={stream.isStreaming}
+            onCancel={stream.cancel}
+          />
         </div>
       )}
 
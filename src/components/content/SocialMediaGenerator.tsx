@@ -1,6 +1,19 @@
 import React, { useState, useCallback } from 'react'
+import { z } from 'zod'
 import { useSlottedContext } from '../../contexts/SlottedContext'
-import { modernAIOrchestrator } from '../../services/ai/modern-ai-orchestrator'
+import {
+  generationErrorMessage,
+  modernAIOrchestrator,
+} from '../../services/ai/modern-ai-orchestrator'
+
+// What the model returns for each post; platform and metadata are added here
+const SocialPostResponseSchema = z.object({
+  post: z.string().min(1),
+  hashtags: z.array(z.string()),
+  timing: z.string(),
+  engagement: z.string(),
+  visualSuggestions: z.array(z.string()),
+})
 
 interface SocialPost {
   post: string
@@ -83,14 +96,23 @@ export const SocialMediaGenerator: React.FC<SocialMediaGeneratorProps> = ({
 
         const prompt = buildSocialPrompt(socialOptions, context, platform, platformInfo)
         
-        const response = await modernAIOrchestrator.generateContent({
-          type: 'social',
-          customInstructions: prompt,
-          maxTokens: 1000
+        const response = await modernAIOrchestrator.generateStructured({
+          prompt,
+          schema: SocialPostResponseSchema,
+          operation: 'social-post'
         })
 
-        const post = parseSocialResponse(response.content, platform, socialOptions)
-        posts[platform] = post
+        // zod leaves fields optional in the inferred type without strictNullChecks
+        posts[platform] = {
+          ...(response as Omit<SocialPost, 'platform' | 'metadata'>),
+          platform,
+          metadata: {
+            characterCount: response.post.length,
+            generatedAt: new Date().toISOString(),
+            tone: socialOptions.tone,
+            type: socialOptions.postType
+          }
+        }
 
         // Small delay to show progress
         await new Promise(resolve => setTimeout(resolve, 500))
@@ -104,7 +126,7 @@ export const SocialMediaGenerator: React.FC<SocialMediaGeneratorProps> = ({
       setCurrentStep('Social media generation complete!')
     } catch (error) {
       console.error('Social media generation failed:', error)
-      alert('Social media generation failed. Please try again.')
+      alert(generationErrorMessage(error, 'Social media generation failed. Please try again.'))
       setCurrentStep('Generation failed')
     } finally {
       setIsGenerating(false)
@@ -116,10 +138,10 @@ export const SocialMediaGenerator: React.FC<SocialMediaGeneratorProps> = ({
     
     return `
 COMPANY CONTEXT:
-- Company: ${context.companyName}
-- Industry: ${context.industry}
-- Brand Voice: ${context.brandVoice}
-- Target Audience: ${context.targetAudience}
+- Company: ${context.company?.name}
+- Industry: ${context.company?.industry}
+- Brand Voice: ${context.brandDNA?.brandTone?.styleDescription}
+- Target Audience: ${context.brandDNA?.targetAudience?.demographics}
 
 TASK: Create a ${platform} post about "${options.topic}"
 
@@ -130,7 +152,7 @@ BRAND REQUIREMENTS:
 - Voice: ${options.tone}
 - Type: ${options.postType}
 - Target audience: ${options.targetAudience}
-- Brand voice consistency with ${context.brandVoice}
+- Brand voice consistency with ${context.brandDNA?.brandTone?.styleDescription}
 
 CONTENT REQUIREMENTS:
 - Maximum ${platformInfo?.maxChars} characters
@@ -148,14 +170,7 @@ Return as JSON with this exact structure:
   "hashtags": ["hashtag1", "hashtag2", "hashtag3"],
   "timing": "Best time to post (e.g., Tuesday 9 AM)",
   "engagement": "Suggested engagement tactics",
-  "visualSuggestions": ["visual1", "visual2"],
-  "platform": "${platform}",
-  "metadata": {
-    "characterCount": 0,
-    "generatedAt": "${new Date().toISOString()}",
-    "tone": "${options.tone}",
-    "type": "${options.postType}"
-  }
+  "visualSuggestions": ["visual1", "visual2"]
 }
 `
   }
@@ -213,47 +228,6 @@ Return as JSON with this exact structure:
     }
   }
 
-  const parseSocialResponse = (content: string, platform: string, options: any): SocialPost => {
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0])
-        return {
-          post: parsed.post || content,
-          hashtags: parsed.hashtags || [],
-          timing: parsed.timing || 'Best time to post',
-          engagement: parsed.engagement || 'Engage with comments and shares',
-          visualSuggestions: parsed.visualSuggestions || [],
-          platform,
-          metadata: {
-            characterCount: parsed.metadata?.characterCount || content.length,
-            generatedAt: parsed.metadata?.generatedAt || new Date().toISOString(),
-            tone: parsed.metadata?.tone || options.tone,
-            type: parsed.metadata?.type || options.postType
-          }
-        }
-      }
-    } catch (error) {
-      console.warn('Failed to parse JSON response, using fallback')
-    }
-
-    // Fallback: create basic post structure
-    return {
-      post: content,
-      hashtags: ['#content', '#marketing'],
-      timing: 'Best time to post',
-      engagement: 'Engage with comments and shares',
-      visualSuggestions: ['Relevant image or video'],
-      platform,
-      metadata: {
-        characterCount: content.length,
-        generatedAt: new Date().toISOString(),
-        tone: options.tone,
-        type: options.postType
-      }
-    }
-  }
-
   const handleExportPosts = (format: 'json' | 'txt') => {
     if (Object.keys(generatedPosts).length === 0) return
 
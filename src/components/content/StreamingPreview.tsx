@@ -0,0 +1,55 @@
+import type React from 'react'
+import { useEffect, useRef } from 'react'
+
+interface StreamingPreviewProps {
+  text: string
+  isStreaming: boolean
+  onCancel: () => void
+}
+
+/**
+ * Live view of text as the model writes it, with a button to stop
+ * generation. Keeps scrolled to the newest text.
+ */
+export const StreamingPreview: React.FC<StreamingPreviewProps> = ({
+  text,
+  isStreaming,
+  onCancel,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (text && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight
+    }
+  }, [text])
+
+  if (!isStreaming && !text) return null
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700">
+          {isStreaming ? '✍️ Writing...' : 'Draft'}
+        </span>
+        {isStreaming && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+          >
+            Stop generating
+          </button>
+        )}
+      </div>
+      <div
+        ref={scrollRef}
+        className="bg-white border border-gray-200 rounded-lg p-4 max-h-80 overflow-y-auto"
+      >
+        <pre className="whitespace-pre-wrap text-sm text-gray-700 font-sans">
+          {text || 'Waiting for the first words...'}
+        </pre>
+      </div>
+    </div>
+  )
+}
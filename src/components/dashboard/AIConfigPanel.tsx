@@ -6,6 +6,8 @@ import {
   type AIProvider,
   aiOrchestrator,
 } from '../../services/ai/aiOrchestrator'
+import { EntitlementError, entitlements } from '../../services/payments/entitlements'
+import { UpgradePrompt } from '../payments/UpgradePrompt'
 
 interface AIConfigPanelProps {
   onConfigured?: () => void
@@ -22,9 +24,14 @@ export const AIConfigPanel: React.FC<AIConfigPanelProps> = ({ onConfigured }) =>
   })
   const [isConfiguring, setIsConfiguring] = useState(false)
   const [configuredProviders, setConfiguredProviders] = useState<string[]>([])
+  const [upgrade, setUpgrade] = useState<EntitlementError | null>(null)
+  // Bumped when the plan's entitlements change, to re-check the model list
+  const [, setEntitlementVersion] = useState(0)
 
   useEffect(() => {
     setConfiguredProviders(aiOrchestrator.getConfiguredProviders())
+    void entitlements.getStatus()
+    return entitlements.subscribe(() => setEntitlementVersion((version) => version + 1))
   }, [])
 
   const providerModels: Record<AIProvider, AIModel[]> = {
@@ -40,7 +47,9 @@ export const AIConfigPanel: React.FC<AIConfigPanelProps> = ({ onConfigured }) =>
 
     setIsConfiguring(true)
     try {
+      await entitlements.assertModel(newConfig.model)
       aiOrchestrator.configureProvider(newConfig as AIConfig)
+      setUpgrade(null)
 
       // setConfigs(prev => [...prev, newConfig as AIConfig]);
       setConfiguredProviders(aiOrchestrator.getConfiguredProviders())
@@ -56,6 +65,10 @@ export const AIConfigPanel: React.FC<AIConfigPanelProps> = ({ onConfigured }) =>
       onConfigured?.()
       alert('AI provider configured successfully!')
     } catch (error) {
+      if (error instanceof EntitlementError) {
+        setUpgrade(error)
+        return
+      }
       console.error('Failed to configure AI provider:', error)
       alert('Failed to configure AI provider. Please check your settings.')
     } finally {
@@ -215,12 +228,18 @@ export const AIConfigPanel: React.FC<AIConfigPanelProps> = ({ onConfigured }) =>
               >
                 {newConfig.provider &&
                   providerModels[newConfig.provider].map((model) => (
-                    <option key={model} value={model}>
+                    <option key={model} value={model} disabled={!entitlements.allowsModel(model)}>
                       {model.toUpperCase()}
+                      {!entitlements.allowsModel(model) && ' (upgrade)'}
                     </option>
                   ))}
               </select>
               <p className="text-sm text-slate-500 mt-1">Select the specific model to use</p>
+              {upgrade && (
+                <div className="mt-3">
+                  <UpgradePrompt error={upgrade} onDismiss={() => setUpgrade(null)} />
+                </div>
+              )}
             </div>
           </div>
 
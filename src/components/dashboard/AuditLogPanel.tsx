@@ -0,0 +1,294 @@
+import type React from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import {
+  type AuditEntityType,
+  type AuditEntry,
+  type AuditExportFormat,
+  type AuditFilter,
+  type FieldChange,
+  auditLogClient,
+} from '../../services/audit/audit-log'
+import { authSession } from '../../services/auth/session'
+import { type WorkspaceMember, workspaceTeam } from '../../services/auth/team'
+import { workspaceManager } from '../../services/persistence/workspaces'
+
+const PAGE_SIZE = 100
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  context: 'Brand context',
+  content: 'Generated content',
+  asset: 'Assets',
+  campaign: 'Campaigns',
+  post: 'Posts',
+  job: 'Content jobs',
+}
+
+interface FilterInput {
+  userId: string
+  entityType: AuditEntityType | ''
+  fromDate: string
+  toDate: string
+}
+
+const EMPTY_FILTER: FilterInput = { userId: '', entityType: '', fromDate: '', toDate: '' }
+
+// Dates are picked in local time; the end date includes the whole day
+const toAuditFilter = (input: FilterInput): AuditFilter => {
+  const endOfDay = input.toDate ? new Date(`${input.toDate}T00:00:00`) : undefined
+  endOfDay?.setDate(endOfDay.getDate() + 1)
+  return {
+    userId: input.userId || undefined,
+    entityType: input.entityType || undefined,
+    from: input.fromDate ? new Date(`${input.fromDate}T00:00:00`).toISOString() : undefined,
+    to: endOfDay?.toISOString(),
+    limit: PAGE_SIZE,
+  }
+}
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value)
+
+const ChangeList: React.FC<{ changes: FieldChange[] }> = ({ changes }) => (
+  <ul className="mt-2 space-y-1 text-xs">
+    {changes.map((change) => (
+      <li key={change.path} className="grid grid-cols-[minmax(0,10rem)_1fr] gap-2">
+        <span className="font-mono text-slate-500 truncate" title={change.path}>
+          {change.path}
+        </span>
+        <span className="text-slate-700 break-words">
+          <span className="line-through text-red-600/80">{formatValue(change.before)}</span>
+          {' → '}
+          <span className="text-emerald-700">{formatValue(change.after)}</span>
+        </span>
+      </li>
+    ))}
+  </ul>
+)
+
+const EntryRow: React.FC<{ entry: AuditEntry }> = ({ entry }) => {
+  const [showChanges, setShowChanges] = useState(false)
+
+  return (
+    <li className="p-3 border border-slate-200 rounded-xl">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm text-slate-900">{entry.summary}</p>
+          <p className="text-xs text-slate-500">
+            {entry.actor.name}
+            {entry.actor.kind === 'system' && ' (automatic)'} · {entry.action} ·{' '}
+            {new Date(entry.at).toLocaleString()}
+          </p>
+        </div>
+        {entry.changes && entry.changes.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowChanges(!showChanges)}
+            className="shrink-0 text-xs text-blue-600 hover:text-blue-700"
+          >
+            {showChanges ? 'Hide changes' : `${entry.changes.length} change(s)`}
+          </button>
+        )}
+      </div>
+      {showChanges && entry.changes && <ChangeList changes={entry.changes} />}
+    </li>
+  )
+}
+
+const FilterBar: React.FC<{
+  value: FilterInput
+  members: WorkspaceMember[]
+  onChange: (value: FilterInput) => void
+}> = ({ value, members, onChange }) => {
+  const fieldClass =
+    'border-2 border-slate-300 px-2 py-1 text-sm rounded-lg focus:outline-none focus:border-blue-600'
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-4">
+      <select
+        value={value.userId}
+        onChange={(e) => onChange({ ...value, userId: e.target.value })}
+        aria-label="Filter by user"
+        className={fieldClass}
+      >
+        <option value="">Everyone</option>
+        {members.map((member) => (
+          <option key={member.id} value={member.id}>
+            {member.name}
+          </option>
+        ))}
+      </select>
+      <select
+        value={value.entityType}
+        onChange={(e) =>
+          onChange({ ...value, entityType: e.target.value as FilterInput['entityType'] })
+        }
+        aria-label="Filter by what changed"
+        className={fieldClass}
+      >
+        <option value="">Everything</option>
+        {Object.entries(ENTITY_LABELS).map(([type, label]) => (
+          <option key={type} value={type}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <input
+        type="date"
+        value={value.fromDate}
+        onChange={(e) => onChange({ ...value, fromDate: e.target.value })}
+        aria-label="From date"
+        className={fieldClass}
+      />
+      <input
+        type="date"
+        value={value.toDate}
+        onChange={(e) => onChange({ ...value, toDate: e.target.value })}
+        aria-label="To date"
+        className={fieldClass}
+      />
+    </div>
+  )
+}
+
+/**
+ * Who did what in the active brand: context edits with the fields they
+ * changed, generation, reviews and publishing. Filter by person, kind of
+ * change and dates, and export the result for client reports.
+ */
+export const AuditLogPanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [filter, setFilter] = useState<FilterInput>(EMPTY_FILTER)
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(() => {
+    auditLogClient
+      .list(toAuditFilter(filter))
+      .then((next) => {
+        setEntries(next)
+        setError(null)
+      })
+      .catch(() => setError('The audit log is unavailable while the backend is offline'))
+  }, [filter])
+
+  useEffect(() => {
+    refresh()
+    const unsubscribeWorkspace = workspaceManager.onWorkspaceChange(refresh)
+    const unsubscribeSession = authSession.onChange(refresh)
+    return () => {
+      unsubscribeWorkspace()
+      unsubscribeSession()
+    }
+  }, [refresh])
+
+  useEffect(() => {
+    if (!isExpanded) return
+    workspaceTeam
+      .listMembers()
+      .then(setMembers)
+      .catch(() => setMembers([]))
+  }, [isExpanded])
+
+  const handleExport = async (format: AuditExportFormat) => {
+    try {
+      await auditLogClient.download(toAuditFilter(filter), format)
+    } catch (exportError) {
+      console.error('Failed to export audit log:', exportError)
+      alert('Failed to export the audit log. Please check that the backend is running.')
+    }
+  }
+
+  if (!isExpanded) {
+    return (
+      <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/30 p-6 hover:shadow-2xl transition-all duration-300">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 mb-1">Audit Log</h3>
+            <p className="text-sm text-slate-600">
+              {error ||
+                (entries[0]
+                  ? `Last: ${entries[0].summary} by ${entries[0].actor.name}`
+                  : 'No recorded activity yet')}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsExpanded(true)}
+            className="px-6 py-3 bg-gradient-to-r from-slate-600 to-slate-700 text-white rounded-xl hover:from-slate-700 hover:to-slate-800 transition-all duration-200 shadow-lg"
+          >
+            View
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl border border-white/40 p-8 animate-fadeIn">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-2xl font-bold text-slate-900">Audit Log</h3>
+          <p className="text-slate-600">
+            Activity in {workspaceManager.getActiveWorkspace()?.name || 'this workspace'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => void handleExport('csv')}
+            className="px-4 py-2 text-sm border-2 border-slate-300 text-slate-700 rounded-xl hover:bg-slate-50"
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleExport('json')}
+            className="px-4 py-2 text-sm border-2 border-slate-300 text-slate-700 rounded-xl hover:bg-slate-50"
+          >
+            Export JSON
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsExpanded(false)}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl transition-all duration-200"
+            aria-label="Close audit log"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              aria-hidden="true"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <FilterBar value={filter} members={members} onChange={setFilter} />
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+      {!error && entries.length === 0 && (
+        <p className="text-sm text-slate-500">Nothing recorded for these filters.</p>
+      )}
+
+      <ul className="space-y-2">
+        {entries.map((entry) => (
+          <EntryRow key={entry.id} entry={entry} />
+        ))}
+      </ul>
+      {entries.length === PAGE_SIZE && (
+        <p className="text-xs text-slate-500 mt-3">
+          Showing the latest {PAGE_SIZE}. Narrow the dates or export to see everything.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+import type React from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { authSession } from '../../services/auth/session'
+import {
+  type Entitlement,
+  MVP1_PLANS,
+  MVP2_PLANS,
+  MVP3_PLANS,
+  type PaymentPlan,
+  type SubscriptionStatus,
+  type WorkspaceSubscription,
+  paymentStateManager,
+  stripeProcessor,
+} from '../../services/payments/stripe-integration'
+import { workspaceManager } from '../../services/persistence/workspaces'
+
+const PLAN_GROUPS: { label: string; plans: PaymentPlan[] }[] = [
+  { label: 'Company DNA', plans: MVP1_PLANS },
+  { label: 'Marketing calendar', plans: MVP2_PLANS },
+  { label: 'Blog posts', plans: MVP3_PLANS },
+]
+
+const STATUS_LABELS: Record<SubscriptionStatus, string> = {
+  trialing: 'Trial',
+  active: 'Active',
+  past_due: 'Payment overdue',
+  canceled: 'Canceled',
+  incomplete: 'Incomplete',
+}
+
+const STATUS_STYLES: Record<SubscriptionStatus, string> = {
+  trialing: 'bg-blue-100 text-blue-800',
+  active: 'bg-green-100 text-green-800',
+  past_due: 'bg-amber-100 text-amber-800',
+  canceled: 'bg-slate-100 text-slate-700',
+  incomplete: 'bg-red-100 text-red-700',
+}
+
+const planName = (planId?: string) =>
+  PLAN_GROUPS.flatMap((group) => group.plans).find((plan) => plan.id === planId)?.name || planId
+
+const formatDate = (iso?: string) => (iso ? new Date(iso).toLocaleDateString() : '')
+
+const describe = (subscription: WorkspaceSubscription | null): string => {
+  if (!subscription) return 'No plan'
+  const name = planName(subscription.planId)
+  switch (subscription.status) {
+    case 'trialing':
+      return `${name}: trial until ${formatDate(subscription.trialEndsAt)}`
+    case 'active':
+    case 'past_due':
+      return subscription.cancelAtPeriodEnd
+        ? `${name}: ends ${formatDate(subscription.currentPeriodEnd)}`
+        : `${name}: renews ${formatDate(subscription.currentPeriodEnd)}`
+    default:
+      return `${name}: ${STATUS_LABELS[subscription.status].toLowerCase()}`
+  }
+}
+
+/**
+ * Confirm a checkout Stripe has just sent the buyer back from, then drop
+ * its parameters from the address bar so a reload doesn't repeat it
+ */
+const consumeCheckoutReturn = async (): Promise<string | null> => {
+  const params = new URLSearchParams(window.location.search)
+  const outcome = params.get('checkout')
+  const sessionId = params.get('session_id')
+  if (!outcome) return null
+
+  params.delete('checkout')
+  params.delete('session_id')
+  const query = params.toString()
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`)
+
+  if (outcome !== 'success' || !sessionId) return 'Checkout was cancelled'
+  const { success, planId } = await stripeProcessor.verifyPayment(sessionId)
+  if (!success || !planId) return 'Payment is still processing; check back shortly'
+
+  const email = authSession.getUser()?.email
+  if (email) paymentStateManager.recordPurchase(email, planId)
+  return `Subscribed to ${planName(planId)}`
+}
+
+/**
+ * The active workspace's plan. Admins subscribe through Stripe Checkout and
+ * cancel at the end of the paid period; everyone else sees the plan.
+ */
+export const BillingPanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [subscription, setSubscription] = useState<WorkspaceSubscription | null>(null)
+  const [entitlement, setEntitlement] = useState<Entitlement | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busyPlan, setBusyPlan] = useState<string | null>(null)
+  const [canManage, setCanManage] = useState(false)
+
+  const refresh = useCallback(() => {
+    setCanManage(authSession.can('workspace:manage', workspaceManager.getActiveWorkspaceId()))
+    stripeProcessor
+      .getSubscription()
+      .then((result) => {
+        setSubscription(result.subscription)
+        setEntitlement(result.entitlement)
+        setError(null)
+      })
+      .catch(() => setError('Billing is unavailable while the backend is offline'))
+  }, [])
+
+  useEffect(() => {
+    consumeCheckoutReturn()
+      .then((message) => {
+        if (!message) return
+        setNotice(message)
+        setIsExpanded(true)
+      })
+      .finally(refresh)
+    const unsubscribeWorkspace = workspaceManager.onWorkspaceChange(refresh)
+    const unsubscribeSession = authSession.onChange(refresh)
+    return () => {
+      unsubscribeWorkspace()
+      unsubscribeSession()
+    }
+  }, [refresh])
+
+  const handleSubscribe = async (plan: PaymentPlan) => {
+    setBusyPlan(plan.id)
+    try {
+      const session = await stripeProcessor.createPaymentSession({
+        planId: plan.id,
+        companyName: workspaceManager.getActiveWorkspace()?.name,
+      })
+      window.location.assign(session.checkoutUrl)
+    } catch (subscribeError) {
+      setError(subscribeError instanceof Error ? subscribeError.message : 'Checkout failed')
+      setBusyPlan(null)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!window.confirm('Stop renewing this plan? It stays active until the paid period ends.')) {
+      return
+    }
+    try {
+      setSubscription(await stripeProcessor.cancelSubscription())
+    } catch (cancelError) {
+      alert(cancelError instanceof Error ? cancelError.message : 'Failed to cancel the plan')
+    }
+  }
+
+  const subscribed = Boolean(entitlement?.active)
+
+  if (!isExpanded) {
+    return (
+      <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/30 p-6 hover:shadow-2xl transition-all duration-300">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 mb-1">Plan & Billing</h3>
+            <p className="text-sm text-slate-600">{error || describe(subscription)}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsExpanded(true)}
+            className="px-6 py-3 bg-gradient-to-r from-slate-600 to-slate-700 text-white rounded-xl hover:from-slate-700 hover:to-slate-800 transition-all duration-200 shadow-lg"
+          >
+            {canManage ? 'Manage' : 'View'}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl border border-white/40 p-8 animate-fadeIn">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-2xl font-bold text-slate-900">Plan & Billing</h3>
+          <p className="text-slate-600">
+            Subscription for {workspaceManager.getActiveWorkspace()?.name || 'this workspace'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(false)}
+          className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl transition-all duration-200"
+          aria-label="Close billing"
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {notice && <p className="text-sm text-blue-700 mb-4">{notice}</p>}
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {subscription && (
+        <div className="flex items-center justify-between gap-3 p-4 border border-slate-200 rounded-xl mb-6">
+          <div>
+            <p className="text-sm font-semibold text-slate-900">
+              {planName(subscription.planId)}
+              <span
+                className={`ml-2 px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[subscription.status]}`}
+              >
+                {STATUS_LABELS[subscription.status]}
+              </span>
+            </p>
+            <p className="text-xs text-slate-500">{describe(subscription)}</p>
+            {subscription.status === 'past_due' && (
+              <p className="text-xs text-amber-700 mt-1">
+                Stripe is retrying the last payment; update the card on the Stripe receipt email.
+              </p>
+            )}
+          </div>
+          {canManage && subscribed && !subscription.cancelAtPeriodEnd && (
+            <button
+              type="button"
+              onClick={() => void handleCancel()}
+              className="text-xs text-red-600 hover:text-red-700"
+            >
+              Cancel plan
+            </button>
+          )}
+        </div>
+      )}
+
+      {canManage && !subscribed && (
+        <div className="space-y-4">
+          {PLAN_GROUPS.map((group) => (
+            <div key={group.label}>
+              <h4 className="text-sm font-semibold text-slate-900 mb-2">{group.label}</h4>
+              <ul className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                {group.plans.map((plan) => (
+                  <li
+                    key={plan.id}
+                    className="flex items-center justify-between gap-2 p-3 border border-slate-200 rounded-xl"
+                  >
+                    <div>
+                      <p className="text-sm font-semibold text-slate-900">{plan.name}</p>
+                      <p className="text-xs text-slate-500">${plan.price} / month</p>
+                    </div>
+                    <button
+                      type="button"
+                      disabled={busyPlan !== null}
+                      onClick={() => void handleSubscribe(plan)}
+                      className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-60"
+                    >
+                      {busyPlan === plan.id ? 'Redirecting…' : 'Subscribe'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
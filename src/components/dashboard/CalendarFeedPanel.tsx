@@ -0,0 +1,220 @@
+import type React from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { useSlottedContext } from '../../contexts/SlottedContext'
+import { authSession } from '../../services/auth/session'
+import {
+  type CalendarFeedStatus,
+  calendarFeedClient,
+  webcalUrl,
+} from '../../services/integrations/calendar-feed'
+import { workspaceManager } from '../../services/persistence/workspaces'
+
+const describe = (status: CalendarFeedStatus | null): string =>
+  status?.active
+    ? `Subscribable feed since ${new Date(status.createdAt || '').toLocaleDateString()}`
+    : 'Export campaigns to Outlook or Apple Calendar'
+
+/**
+ * The feed URL, shown once after it is created
+ */
+const FeedUrl: React.FC<{ url: string }> = ({ url }) => {
+  const [copied, setCopied] = useState(false)
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(url)
+    setCopied(true)
+  }
+
+  return (
+    <div className="p-4 border border-blue-200 bg-blue-50 rounded-xl mb-6 space-y-3">
+      <p className="text-sm text-slate-700">
+        Subscribe to this URL in Outlook (Add calendar → From internet) or Apple Calendar (File →
+        New Calendar Subscription). Copy it now; it won't be shown again.
+      </p>
+      <input
+        readOnly
+        value={url}
+        aria-label="Calendar feed URL"
+        onFocus={(e) => e.target.select()}
+        className="w-full px-3 py-1.5 text-sm font-mono border border-slate-300 rounded-lg bg-white"
+      />
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={() => void copy()}
+          className="px-3 py-1.5 text-sm border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50"
+        >
+          {copied ? 'Copied' : 'Copy URL'}
+        </button>
+        <a
+          href={webcalUrl(url)}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          Open in calendar app
+        </a>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * The active workspace's campaign calendar as iCalendar. Anyone with access
+ * can download an .ics file; admins create a secret feed URL calendars
+ * subscribe to, and replace or stop it when it leaks.
+ */
+export const CalendarFeedPanel: React.FC = () => {
+  const { context } = useSlottedContext()
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [status, setStatus] = useState<CalendarFeedStatus | null>(null)
+  const [url, setUrl] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [canManage, setCanManage] = useState(false)
+
+  const refresh = useCallback(() => {
+    setCanManage(authSession.can('workspace:manage', workspaceManager.getActiveWorkspaceId()))
+    setUrl(null)
+    calendarFeedClient
+      .getStatus()
+      .then((result) => {
+        setStatus(result)
+        setError(null)
+      })
+      .catch(() => setError('Calendar export is unavailable while the backend is offline'))
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    const unsubscribeWorkspace = workspaceManager.onWorkspaceChange(refresh)
+    const unsubscribeSession = authSession.onChange(refresh)
+    return () => {
+      unsubscribeWorkspace()
+      unsubscribeSession()
+    }
+  }, [refresh])
+
+  // Keep milestones in a live feed current with the schedules
+  useEffect(() => {
+    if (status?.active) {
+      calendarFeedClient.publishMilestones(context).catch(() => undefined)
+    }
+  }, [status, context])
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const createFeed = async () => {
+    const feed = await calendarFeedClient.createFeed()
+    setStatus(feed)
+    setUrl(feed.url)
+  }
+
+  const revokeFeed = async () => {
+    await calendarFeedClient.revokeFeed()
+    setStatus((current) => current && { ...current, active: false, createdAt: undefined })
+    setUrl(null)
+  }
+
+  if (!isExpanded) {
+    return (
+      <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/30 p-6 hover:shadow-2xl transition-all duration-300">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 mb-1">Calendar Feed</h3>
+            <p className="text-sm text-slate-600">{error || describe(status)}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsExpanded(true)}
+            className="px-6 py-3 bg-gradient-to-r from-slate-600 to-slate-700 text-white rounded-xl hover:from-slate-700 hover:to-slate-800 transition-all duration-200 shadow-lg"
+          >
+            {canManage ? 'Manage' : 'Export'}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl border border-white/40 p-8 animate-fadeIn">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-2xl font-bold text-slate-900">Calendar Feed</h3>
+          <p className="text-slate-600">
+            Campaigns, milestones and scheduled posts for Outlook, Apple Calendar and others
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(false)}
+          className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl transition-all duration-200"
+          aria-label="Close Calendar Feed"
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {url && <FeedUrl url={url} />}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => void run(() => calendarFeedClient.downloadIcs(context))}
+          className="px-3 py-1.5 text-sm border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-60"
+        >
+          Download .ics
+        </button>
+        {canManage && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => void run(createFeed)}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-60"
+          >
+            {status?.active ? 'Replace feed URL' : 'Create feed URL'}
+          </button>
+        )}
+        {canManage && status?.active && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => void run(revokeFeed)}
+            className="text-xs text-red-600 hover:text-red-700 disabled:opacity-60"
+          >
+            Stop feed
+          </button>
+        )}
+      </div>
+      {status?.active && !url && (
+        <p className="mt-3 text-xs text-slate-500">
+          Subscribed calendars refresh about hourly. Replacing the URL disconnects them.
+        </p>
+      )}
+    </div>
+  )
+}
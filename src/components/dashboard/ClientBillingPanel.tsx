@@ -0,0 +1,346 @@
+import type React from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { authSession } from '../../services/auth/session'
+import {
+  BILLABLE_KINDS,
+  type BillableKind,
+  type InvoiceFormat,
+  KIND_LABELS,
+  type MeteredUsage,
+  type RateCard,
+  meteringClient,
+} from '../../services/payments/metering'
+import { workspaceManager } from '../../services/persistence/workspaces'
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() }).format(
+    amount
+  )
+
+// Periods end where the next starts; show the last day billed
+const describePeriod = ({ start, end }: MeteredUsage['period']) =>
+  `${new Date(start).toLocaleDateString()} – ${new Date(Date.parse(end) - 1).toLocaleDateString()}`
+
+const usageTotal = (usage: MeteredUsage) =>
+  BILLABLE_KINDS.reduce((sum, kind) => sum + usage.counts[kind] * usage.rates.rates[kind], 0)
+
+interface RateEditorProps {
+  rates: RateCard
+  onSave: (update: Partial<RateCard>) => Promise<void>
+  onCancel: () => void
+}
+
+const RateEditor: React.FC<RateEditorProps> = ({ rates, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Record<BillableKind, string>>(
+    () =>
+      Object.fromEntries(BILLABLE_KINDS.map((kind) => [kind, String(rates.rates[kind])])) as Record<
+        BillableKind,
+        string
+      >
+  )
+  const [currency, setCurrency] = useState(rates.currency)
+  const [customer, setCustomer] = useState(rates.stripeCustomerId || '')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await onSave({
+        currency: currency.trim().toLowerCase(),
+        rates: Object.fromEntries(
+          BILLABLE_KINDS.map((kind) => [kind, Number(draft[kind])])
+        ) as RateCard['rates'],
+        stripeCustomerId: customer.trim(),
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="p-4 border border-slate-200 rounded-xl space-y-3 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {BILLABLE_KINDS.map((kind) => (
+          <label key={kind} className="text-sm text-slate-700">
+            {KIND_LABELS[kind]} (each)
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={draft[kind]}
+              onChange={(e) => setDraft({ ...draft, [kind]: e.target.value })}
+              className="mt-1 w-full px-3 py-1.5 border border-slate-300 rounded-lg"
+            />
+          </label>
+        ))}
+        <label className="text-sm text-slate-700">
+          Currency
+          <input
+            value={currency}
+            maxLength={3}
+            onChange={(e) => setCurrency(e.target.value)}
+            className="mt-1 w-full px-3 py-1.5 border border-slate-300 rounded-lg"
+          />
+        </label>
+        <label className="text-sm text-slate-700">
+          Stripe customer (optional)
+          <input
+            value={customer}
+            placeholder="Defaults to the workspace's subscription"
+            onChange={(e) => setCustomer(e.target.value)}
+            className="mt-1 w-full px-3 py-1.5 border border-slate-300 rounded-lg"
+          />
+        </label>
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          disabled={isSaving}
+          onClick={() => void handleSave()}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-60"
+        >
+          {isSaving ? 'Saving…' : 'Save rates'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-900"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Billable usage of the active workspace for agencies reselling Slotted to
+ * their clients: counts per billing period priced from the workspace's rate
+ * card, invoice downloads and, when configured, reporting to Stripe.
+ */
+export const ClientBillingPanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [periodDate, setPeriodDate] = useState<Date | undefined>(undefined)
+  const [usage, setUsage] = useState<MeteredUsage | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [isEditingRates, setIsEditingRates] = useState(false)
+  const [canManage, setCanManage] = useState(false)
+
+  const refresh = useCallback(() => {
+    setCanManage(authSession.can('workspace:manage', workspaceManager.getActiveWorkspaceId()))
+    meteringClient
+      .getUsage(periodDate)
+      .then((result) => {
+        setUsage(result)
+        setError(null)
+      })
+      .catch(() => setError('Usage is unavailable while the backend is offline'))
+  }, [periodDate])
+
+  useEffect(() => {
+    refresh()
+    const unsubscribeMetering = meteringClient.subscribe(refresh)
+    const unsubscribeWorkspace = workspaceManager.onWorkspaceChange(() => setPeriodDate(undefined))
+    const unsubscribeSession = authSession.onChange(refresh)
+    return () => {
+      unsubscribeMetering()
+      unsubscribeWorkspace()
+      unsubscribeSession()
+    }
+  }, [refresh])
+
+  const handleDownload = async (format: InvoiceFormat) => {
+    try {
+      await meteringClient.downloadInvoice(format, periodDate)
+    } catch (downloadError) {
+      setError(downloadError instanceof Error ? downloadError.message : 'Download failed')
+    }
+  }
+
+  const handleSaveRates = async (update: Partial<RateCard>) => {
+    try {
+      await meteringClient.setRates(update)
+      setIsEditingRates(false)
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save rates')
+    }
+  }
+
+  const handleSync = async () => {
+    try {
+      const result = await meteringClient.syncStripe()
+      setNotice(
+        result.skipped ||
+          `Reported ${result.reported} event${result.reported === 1 ? '' : 's'} to Stripe${
+            result.failed ? `; ${result.failed} failed and will be retried` : ''
+          }`
+      )
+    } catch (syncError) {
+      setError(syncError instanceof Error ? syncError.message : 'Failed to report to Stripe')
+    }
+  }
+
+  const summary = usage
+    ? `${formatMoney(usageTotal(usage), usage.rates.currency)} of usage this period`
+    : 'Billable usage per client'
+
+  if (!isExpanded) {
+    return (
+      <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/30 p-6 hover:shadow-2xl transition-all duration-300">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 mb-1">Client Billing</h3>
+            <p className="text-sm text-slate-600">{error || summary}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsExpanded(true)}
+            className="px-6 py-3 bg-gradient-to-r from-slate-600 to-slate-700 text-white rounded-xl hover:from-slate-700 hover:to-slate-800 transition-all duration-200 shadow-lg"
+          >
+            View
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl border border-white/40 p-8 animate-fadeIn">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-2xl font-bold text-slate-900">Client Billing</h3>
+          <p className="text-slate-600">
+            Billable usage of {workspaceManager.getActiveWorkspace()?.name || 'this workspace'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(false)}
+          className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl transition-all duration-200"
+          aria-label="Close client billing"
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {notice && <p className="text-sm text-blue-700 mb-4">{notice}</p>}
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {usage && (
+        <>
+          <div className="flex items-center justify-between mb-4">
+            <button
+              type="button"
+              onClick={() => setPeriodDate(new Date(Date.parse(usage.period.start) - 1))}
+              className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-900"
+            >
+              ← Previous
+            </button>
+            <p className="text-sm font-semibold text-slate-900">{describePeriod(usage.period)}</p>
+            <button
+              type="button"
+              disabled={Date.parse(usage.period.end) > Date.now()}
+              onClick={() => setPeriodDate(new Date(usage.period.end))}
+              className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-900 disabled:opacity-40"
+            >
+              Next →
+            </button>
+          </div>
+
+          <table className="w-full text-sm mb-6">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="py-2">Event</th>
+                <th className="py-2 text-right">Count</th>
+                <th className="py-2 text-right">Rate</th>
+                <th className="py-2 text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {BILLABLE_KINDS.map((kind) => (
+                <tr key={kind} className="border-t border-slate-100">
+                  <td className="py-2 text-slate-900">{KIND_LABELS[kind]}</td>
+                  <td className="py-2 text-right">{usage.counts[kind]}</td>
+                  <td className="py-2 text-right">
+                    {formatMoney(usage.rates.rates[kind], usage.rates.currency)}
+                  </td>
+                  <td className="py-2 text-right">
+                    {formatMoney(
+                      usage.counts[kind] * usage.rates.rates[kind],
+                      usage.rates.currency
+                    )}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t border-slate-200 font-semibold">
+                <td className="py-2" colSpan={3}>
+                  Usage total (plan purchases are added on the invoice)
+                </td>
+                <td className="py-2 text-right">
+                  {formatMoney(usageTotal(usage), usage.rates.currency)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+
+          {isEditingRates && (
+            <RateEditor
+              rates={usage.rates}
+              onSave={handleSaveRates}
+              onCancel={() => setIsEditingRates(false)}
+            />
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => void handleDownload('pdf')}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              Invoice (PDF)
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleDownload('csv')}
+              className="px-3 py-1.5 text-sm border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50"
+            >
+              Line items (CSV)
+            </button>
+            {canManage && !isEditingRates && (
+              <button
+                type="button"
+                onClick={() => setIsEditingRates(true)}
+                className="px-3 py-1.5 text-sm border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50"
+              >
+                Edit rates
+              </button>
+            )}
+            {canManage && usage.stripeReporting && (
+              <button
+                type="button"
+                onClick={() => void handleSync()}
+                className="px-3 py-1.5 text-sm border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50"
+              >
+                Report to Stripe
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
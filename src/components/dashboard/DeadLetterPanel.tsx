@@ -0,0 +1,304 @@
+import type React from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { authSession } from '../../services/auth/session'
+import { workspaceManager } from '../../services/persistence/workspaces'
+import {
+  type DeadLetterReason,
+  type DeadLetterResult,
+  type ScheduledPost,
+  campaignScheduler,
+} from '../../services/scheduling/campaign-scheduler'
+
+const REASON_LABELS: Record<DeadLetterReason, string> = {
+  retries_exhausted: 'Out of retries',
+  permanent_error: 'Permanent error',
+  interrupted: 'Interrupted — check the platform first',
+  claimed_elsewhere: 'Sent by another scheduler — check the platform first',
+}
+
+const formatTime = (iso?: string) => (iso ? new Date(iso).toLocaleString() : '')
+
+const DeadLetterRow: React.FC<{
+  post: ScheduledPost
+  selected: boolean
+  busy: boolean
+  readOnly: boolean
+  onToggle: () => void
+  onSave: (text: string, replay: boolean) => void
+}> = ({ post, selected, busy, readOnly, onToggle, onSave }) => {
+  const [isEditing, setIsEditing] = useState(false)
+  const [text, setText] = useState(post.content.text)
+  const lastAttempt = post.attempts?.[post.attempts.length - 1]
+
+  useEffect(() => {
+    setText(post.content.text)
+  }, [post.content.text])
+
+  return (
+    <li className="p-4 border border-slate-200 rounded-xl">
+      <div className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={onToggle}
+          className="mt-1"
+          aria-label={`Select ${post.id}`}
+        />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-semibold text-slate-900 capitalize">
+              {post.channelId}
+            </span>
+            <span className="text-xs text-slate-500">
+              {post.deadLetterReason ? REASON_LABELS[post.deadLetterReason] : 'Failed'}
+            </span>
+          </div>
+          <p className="text-sm text-red-600 mt-1 break-words">{post.error}</p>
+          <p className="text-xs text-slate-500 mt-1">
+            Slot {formatTime(post.scheduledFor)} · {post.retryCount} attempt(s)
+            {lastAttempt ? ` · last ${formatTime(lastAttempt.at)}` : ''}
+          </p>
+
+          {isEditing ? (
+            <div className="mt-3 space-y-2">
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={3}
+                className="w-full border-2 border-slate-300 px-3 py-2 text-sm rounded-xl focus:outline-none focus:border-blue-600"
+              />
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => onSave(text, true)}
+                  className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Save &amp; replay
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => {
+                    onSave(text, false)
+                    setIsEditing(false)
+                  }}
+                  className="px-3 py-1.5 text-xs border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                >
+                  Save
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setText(post.content.text)
+                    setIsEditing(false)
+                  }}
+                  className="px-3 py-1.5 text-xs text-slate-500 hover:text-slate-700"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="mt-2 flex items-start justify-between gap-2">
+              <p className="text-sm text-slate-700 line-clamp-2">{post.content.text}</p>
+              {!readOnly && (
+                <button
+                  type="button"
+                  onClick={() => setIsEditing(true)}
+                  className="text-xs text-blue-600 hover:text-blue-700 shrink-0"
+                >
+                  Edit
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </li>
+  )
+}
+
+/**
+ * Scheduled posts that failed for good: out of retries or rejected by the
+ * platform. Fix, replay or cancel them, one at a time or in bulk.
+ */
+export const DeadLetterPanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [posts, setPosts] = useState<ScheduledPost[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const refresh = useCallback(() => {
+    campaignScheduler
+      .getDeadLetters()
+      .then((next) => {
+        setPosts(next)
+        setSelected((current) => new Set(next.filter((p) => current.has(p.id)).map((p) => p.id)))
+        setError(null)
+      })
+      .catch(() => setError('Failed posts are unavailable while the backend is offline'))
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    return workspaceManager.onWorkspaceChange(refresh)
+  }, [refresh])
+
+  const run = async (action: () => Promise<DeadLetterResult[]>) => {
+    setIsBusy(true)
+    try {
+      const results = await action()
+      const problems = results.filter((result) => result.error)
+      if (problems.length > 0) {
+        alert(problems.map((result) => result.error).join('\n'))
+      }
+    } catch (actionError) {
+      console.error('Failed to update failed posts:', actionError)
+      alert('Failed to update posts. Please check that the backend is running.')
+    } finally {
+      setIsBusy(false)
+      refresh()
+    }
+  }
+
+  const selectedIds = [...selected]
+  // Replaying, editing and cancelling posts is for people who manage schedules
+  const canManage = authSession.allows('schedule:manage', workspaceManager.getActiveWorkspaceId())
+
+  const toggle = (postId: string) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (!next.delete(postId)) next.add(postId)
+      return next
+    })
+  }
+
+  const handleCancel = () => {
+    if (!window.confirm(`Cancel ${selectedIds.length} failed post(s)? They won't be published.`)) {
+      return
+    }
+    void run(() => campaignScheduler.cancelDeadLetters(selectedIds))
+  }
+
+  const handleSave = (post: ScheduledPost, text: string, replay: boolean) => {
+    void run(() =>
+      replay
+        ? campaignScheduler.replayDeadLetters([post.id], { content: { text } })
+        : campaignScheduler.editDeadLetters([post.id], { text })
+    )
+  }
+
+  if (!isExpanded) {
+    return (
+      <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/30 p-6 hover:shadow-2xl transition-all duration-300">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 mb-1">Failed Posts</h3>
+            <p className="text-sm text-slate-600">
+              {error ||
+                (posts.length > 0
+                  ? `${posts.length} post(s) need attention`
+                  : 'Every scheduled post is on track')}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsExpanded(true)}
+            disabled={posts.length === 0}
+            className="px-6 py-3 bg-gradient-to-r from-red-500 to-red-600 text-white rounded-xl hover:from-red-600 hover:to-red-700 disabled:opacity-50 transition-all duration-200 shadow-lg"
+          >
+            Review
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl border border-white/40 p-8 animate-fadeIn">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-2xl font-bold text-slate-900">Failed Posts</h3>
+          <p className="text-slate-600">
+            Posts in {workspaceManager.getActiveWorkspace()?.name || 'this workspace'} that ran out
+            of retries or were rejected
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(false)}
+          className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl transition-all duration-200"
+          aria-label="Close failed posts"
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <div className="flex items-center justify-between mb-4">
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={posts.length > 0 && selected.size === posts.length}
+            onChange={(e) =>
+              setSelected(e.target.checked ? new Set(posts.map((post) => post.id)) : new Set())
+            }
+          />
+          Select all
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={isBusy || !canManage || selected.size === 0}
+            onClick={() => void run(() => campaignScheduler.replayDeadLetters(selectedIds))}
+            className="px-4 py-2 text-sm bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl hover:from-blue-700 hover:to-blue-800 disabled:opacity-50"
+          >
+            Replay {selected.size || ''}
+          </button>
+          <button
+            type="button"
+            disabled={isBusy || !canManage || selected.size === 0}
+            onClick={handleCancel}
+            className="px-4 py-2 text-sm border-2 border-slate-300 text-slate-700 rounded-xl hover:bg-slate-50 disabled:opacity-50"
+          >
+            Cancel {selected.size || ''}
+          </button>
+        </div>
+      </div>
+
+      {posts.length === 0 ? (
+        <p className="text-sm text-slate-500">No failed posts.</p>
+      ) : (
+        <ul className="space-y-3 max-h-[32rem] overflow-y-auto">
+          {posts.map((post) => (
+            <DeadLetterRow
+              key={post.id}
+              post={post}
+              selected={selected.has(post.id)}
+              busy={isBusy}
+              readOnly={!canManage}
+              onToggle={() => toggle(post.id)}
+              onSave={(text, replay) => handleSave(post, text, replay)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,296 @@
+import type React from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { authSession } from '../../services/auth/session'
+import {
+  CONFLICT_POLICY_LABELS,
+  type CalendarStatus,
+  type CalendarSyncResult,
+  type ConflictPolicy,
+  googleCalendarService,
+} from '../../services/integrations/google-calendar-service'
+import { workspaceManager } from '../../services/persistence/workspaces'
+
+const POLICIES = Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]
+
+const formatTime = (iso?: string) => (iso ? new Date(iso).toLocaleString() : 'never')
+
+const describe = (status: CalendarStatus | null): string =>
+  status?.connected
+    ? `Syncing with ${status.calendarName}, last synced ${formatTime(status.lastSyncedAt)}`
+    : 'Not connected'
+
+const describeResult = (result: CalendarSyncResult) =>
+  `${result.created} added, ${result.updated} updated, ${result.deleted} removed, ${
+    result.updates.length
+  } date change${result.updates.length === 1 ? '' : 's'} from Google Calendar`
+
+const LastSync: React.FC<{ result: CalendarSyncResult }> = ({ result }) => (
+  <div className="mb-6">
+    <p className="text-sm text-slate-700">Last sync: {describeResult(result)}</p>
+    {result.conflicts.length > 0 && (
+      <ul className="mt-2 text-sm text-amber-700 list-disc pl-5">
+        {result.conflicts.map((conflict) => (
+          <li key={`${conflict.campaignId}-${conflict.milestoneId || ''}`}>
+            {conflict.title}: changed on both sides, kept{' '}
+            {conflict.resolvedTo === 'slotted' ? "Slotted's" : "Google Calendar's"} version
+            {conflict.google ? '' : ' (deleted in Google Calendar)'}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+)
+
+/**
+ * Choose a calendar and connect it with Google sign-in or the service
+ * account, whichever the backend is configured for
+ */
+const ConnectForm: React.FC<{
+  status: CalendarStatus
+  busy: boolean
+  run: (action: () => Promise<unknown>) => Promise<void>
+}> = ({ status, busy, run }) => {
+  const [calendarId, setCalendarId] = useState('')
+  const [policy, setPolicy] = useState<ConflictPolicy>('latest')
+  const options = { calendarId: calendarId.trim() || undefined, conflictPolicy: policy }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-3">
+        <input
+          value={calendarId}
+          onChange={(e) => setCalendarId(e.target.value)}
+          placeholder="Calendar ID (your primary calendar with Google when empty)"
+          aria-label="Calendar ID"
+          className="flex-1 min-w-[16rem] px-3 py-1.5 text-sm border border-slate-300 rounded-lg"
+        />
+        <select
+          value={policy}
+          onChange={(e) => setPolicy(e.target.value as ConflictPolicy)}
+          aria-label="Conflict resolution"
+          className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg"
+        >
+          {POLICIES.map((option) => (
+            <option key={option} value={option}>
+              {CONFLICT_POLICY_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap gap-3">
+        {status.oauthAvailable && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => void run(() => googleCalendarService.connectGoogleAccount(options))}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-60"
+          >
+            Connect with Google
+          </button>
+        )}
+        {status.serviceAccountAvailable && (
+          <button
+            type="button"
+            disabled={busy || !options.calendarId}
+            onClick={() => void run(() => googleCalendarService.connectServiceAccount(options))}
+            className="px-3 py-1.5 text-sm border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-60"
+          >
+            Use service account
+          </button>
+        )}
+      </div>
+      {!status.oauthAvailable && !status.serviceAccountAvailable && (
+        <p className="text-xs text-slate-500">
+          The backend has no Google credentials; see SETUP.md to configure them.
+        </p>
+      )}
+      {status.serviceAccountAvailable && (
+        <p className="text-xs text-slate-500">
+          For the service account, share the calendar with its email address first and enter its ID.
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Report a Google sign-in the backend has just sent the user back from,
+ * then drop its parameters from the address bar
+ */
+const consumeOAuthReturn = (): string | null => {
+  const params = new URLSearchParams(window.location.search)
+  const outcome = params.get('calendar')
+  if (!outcome) return null
+
+  const message = params.get('message')
+  for (const key of ['calendar', 'message', 'workspaceId']) params.delete(key)
+  const query = params.toString()
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`)
+
+  return outcome === 'connected'
+    ? 'Google Calendar connected'
+    : `Google sign-in failed: ${message || 'unknown error'}`
+}
+
+/**
+ * The active workspace's Google Calendar connection. Admins connect a
+ * calendar with their Google account or the server's service account and
+ * choose how conflicting edits are resolved; the outcome of the last sync
+ * lists conflicts.
+ */
+export const GoogleCalendarPanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [status, setStatus] = useState<CalendarStatus | null>(null)
+  const [lastResult, setLastResult] = useState(() => googleCalendarService.getLastResult())
+  const [notice, setNotice] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [canManage, setCanManage] = useState(false)
+
+  const refresh = useCallback(() => {
+    setCanManage(authSession.can('workspace:manage', workspaceManager.getActiveWorkspaceId()))
+    setLastResult(googleCalendarService.getLastResult())
+    googleCalendarService
+      .getStatus()
+      .then((result) => {
+        setStatus(result)
+        setError(null)
+      })
+      .catch(() => setError('Calendar sync is unavailable while the backend is offline'))
+  }, [])
+
+  useEffect(() => {
+    const message = consumeOAuthReturn()
+    if (message) {
+      setNotice(message)
+      setIsExpanded(true)
+    }
+    refresh()
+    const unsubscribeCalendar = googleCalendarService.subscribe(refresh)
+    const unsubscribeWorkspace = workspaceManager.onWorkspaceChange(refresh)
+    const unsubscribeSession = authSession.onChange(refresh)
+    return () => {
+      unsubscribeCalendar()
+      unsubscribeWorkspace()
+      unsubscribeSession()
+    }
+  }, [refresh])
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (!isExpanded) {
+    return (
+      <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/30 p-6 hover:shadow-2xl transition-all duration-300">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 mb-1">Google Calendar</h3>
+            <p className="text-sm text-slate-600">{error || describe(status)}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsExpanded(true)}
+            className="px-6 py-3 bg-gradient-to-r from-slate-600 to-slate-700 text-white rounded-xl hover:from-slate-700 hover:to-slate-800 transition-all duration-200 shadow-lg"
+          >
+            {canManage ? 'Manage' : 'View'}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl border border-white/40 p-8 animate-fadeIn">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-2xl font-bold text-slate-900">Google Calendar</h3>
+          <p className="text-slate-600">
+            Campaigns and milestones as all-day events; moving one in Google Calendar moves it here
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(false)}
+          className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl transition-all duration-200"
+          aria-label="Close Google Calendar"
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {notice && <p className="text-sm text-blue-700 mb-4">{notice}</p>}
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {status?.connected && (
+        <div className="p-4 border border-slate-200 rounded-xl mb-6 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <p className="text-sm font-semibold text-slate-900">{status.calendarName}</p>
+              <p className="text-xs text-slate-500">
+                {status.method === 'oauth' ? 'Google account' : 'Service account'} ·{' '}
+                {status.linkedEvents} events · last synced {formatTime(status.lastSyncedAt)}
+              </p>
+            </div>
+            {canManage && (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => void run(() => googleCalendarService.disconnect())}
+                className="text-xs text-red-600 hover:text-red-700 disabled:opacity-60"
+              >
+                Disconnect
+              </button>
+            )}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            When both sides changed
+            <select
+              value={status.conflictPolicy}
+              disabled={!canManage || busy}
+              onChange={(e) =>
+                void run(() =>
+                  googleCalendarService.setConflictPolicy(e.target.value as ConflictPolicy)
+                )
+              }
+              className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg"
+            >
+              {POLICIES.map((option) => (
+                <option key={option} value={option}>
+                  {CONFLICT_POLICY_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {lastResult && <LastSync result={lastResult} />}
+
+      {canManage && status && !status.connected && (
+        <ConnectForm status={status} busy={busy} run={run} />
+      )}
+    </div>
+  )
+}
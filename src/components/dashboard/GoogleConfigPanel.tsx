@@ -1,6 +1,8 @@
 import type React from 'react'
 import { useEffect, useState } from 'react'
 import { useSlottedContext } from '../../contexts/SlottedContext'
+import { authFetch } from '../../services/auth/session'
+import { getBackendUrl } from '../../services/backend-url'
 
 interface GoogleConfigPanelProps {
   onConfigured?: () => void
@@ -71,16 +73,13 @@ export const GoogleConfigPanel: React.FC<GoogleConfigPanelProps> = ({ onConfigur
         throw new Error('No credentials found. Please configure Google Workspace first.')
       }
 
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL || 'http://localhost:3001'}/api/google/test-connection`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ credentials }),
-        }
-      )
+      const response = await authFetch(`${getBackendUrl()}/api/google/test-connection`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ credentials }),
+      })
 
       if (!response.ok) {
         throw new Error('Connection test failed')
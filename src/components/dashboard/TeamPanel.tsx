@@ -0,0 +1,280 @@
+import type React from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { ROLE_LABELS, type Role, authSession } from '../../services/auth/session'
+import {
+  type PendingInvitation,
+  type WorkspaceMember,
+  workspaceTeam,
+} from '../../services/auth/team'
+import { workspaceManager } from '../../services/persistence/workspaces'
+
+const ROLES = Object.keys(ROLE_LABELS) as Role[]
+
+const ROLE_HINTS: Record<Role, string> = {
+  admin: 'Everything, including members, budgets and publishing',
+  reviewer: 'Write content and approve or reject it',
+  author: 'Write content and schedule it for review',
+  client_viewer: 'See schedules, assets and usage',
+}
+
+const RoleSelect: React.FC<{
+  value: Role
+  disabled?: boolean
+  label: string
+  onChange: (role: Role) => void
+}> = ({ value, disabled, label, onChange }) => (
+  <select
+    value={value}
+    disabled={disabled}
+    onChange={(e) => onChange(e.target.value as Role)}
+    aria-label={label}
+    className="border-2 border-slate-300 px-2 py-1 text-sm rounded-lg focus:outline-none focus:border-blue-600 disabled:opacity-60"
+  >
+    {ROLES.map((role) => (
+      <option key={role} value={role} title={ROLE_HINTS[role]}>
+        {ROLE_LABELS[role]}
+      </option>
+    ))}
+  </select>
+)
+
+const InviteForm: React.FC<{ onInvited: () => void }> = ({ onInvited }) => {
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<Role>('author')
+  const [link, setLink] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleInvite = async () => {
+    if (!email.trim()) return
+    try {
+      const invitation = await workspaceTeam.invite(email.trim(), role)
+      setLink(invitation.link)
+      setEmail('')
+      setError(null)
+      onInvited()
+    } catch (inviteError) {
+      setError(inviteError instanceof Error ? inviteError.message : 'Failed to invite')
+    }
+  }
+
+  return (
+    <div className="p-4 border border-slate-200 rounded-xl space-y-3">
+      <h4 className="text-sm font-semibold text-slate-900">Invite someone</h4>
+      <div className="flex gap-2">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="name@company.com"
+          aria-label="Email to invite"
+          className="flex-1 border-2 border-slate-300 px-3 py-1.5 text-sm rounded-lg focus:outline-none focus:border-blue-600"
+        />
+        <RoleSelect value={role} label="Role for the invitee" onChange={setRole} />
+        <button
+          type="button"
+          onClick={() => void handleInvite()}
+          className="px-4 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          Invite
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">{ROLE_HINTS[role]}</p>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {link && (
+        <div className="text-sm text-slate-700">
+          Send this link to the invitee; it won't be shown again:
+          <input
+            readOnly
+            value={link}
+            onFocus={(e) => e.target.select()}
+            aria-label="Invitation link"
+            className="mt-1 w-full border border-slate-300 px-2 py-1 text-xs rounded-lg bg-slate-50"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Who can work on the active brand and in what role. Admins change roles,
+ * remove members and invite new ones; everyone else sees the list.
+ */
+export const TeamPanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [canManage, setCanManage] = useState(false)
+
+  const refresh = useCallback(() => {
+    const manages = authSession.can('workspace:manage', workspaceManager.getActiveWorkspaceId())
+    setCanManage(manages)
+    workspaceTeam
+      .listMembers()
+      .then((next) => {
+        setMembers(next)
+        setError(null)
+      })
+      .catch(() => setError('Members are unavailable while the backend is offline'))
+    if (manages) {
+      workspaceTeam
+        .listInvitations()
+        .then(setInvitations)
+        .catch(() => setInvitations([]))
+    } else {
+      setInvitations([])
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    const unsubscribeWorkspace = workspaceManager.onWorkspaceChange(refresh)
+    const unsubscribeSession = authSession.onChange(refresh)
+    return () => {
+      unsubscribeWorkspace()
+      unsubscribeSession()
+    }
+  }, [refresh])
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action()
+    } catch (actionError) {
+      alert(actionError instanceof Error ? actionError.message : 'Failed to update the team')
+    } finally {
+      refresh()
+    }
+  }
+
+  const handleRemove = (member: WorkspaceMember) => {
+    if (!window.confirm(`Remove ${member.name} from this workspace?`)) return
+    void run(() => workspaceTeam.removeMember(member.id))
+  }
+
+  if (!isExpanded) {
+    return (
+      <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/30 p-6 hover:shadow-2xl transition-all duration-300">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 mb-1">Team</h3>
+            <p className="text-sm text-slate-600">
+              {error ||
+                `${members.length} member(s)${invitations.length ? `, ${invitations.length} invited` : ''}`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsExpanded(true)}
+            className="px-6 py-3 bg-gradient-to-r from-slate-600 to-slate-700 text-white rounded-xl hover:from-slate-700 hover:to-slate-800 transition-all duration-200 shadow-lg"
+          >
+            {canManage ? 'Manage' : 'View'}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl border border-white/40 p-8 animate-fadeIn">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-2xl font-bold text-slate-900">Team</h3>
+          <p className="text-slate-600">
+            Members of {workspaceManager.getActiveWorkspace()?.name || 'this workspace'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(false)}
+          className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl transition-all duration-200"
+          aria-label="Close team"
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <ul className="space-y-2 mb-6">
+        {members.map((member) => (
+          <li
+            key={member.id}
+            className="flex items-center justify-between gap-3 p-3 border border-slate-200 rounded-xl"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-slate-900">
+                {member.name}
+                {member.id === authSession.getUser()?.id && (
+                  <span className="ml-2 text-xs text-slate-500">(you)</span>
+                )}
+              </p>
+              <p className="text-xs text-slate-500 truncate">{member.email}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <RoleSelect
+                value={member.role}
+                disabled={!canManage}
+                label={`Role of ${member.name}`}
+                onChange={(role) => void run(() => workspaceTeam.setRole(member.id, role))}
+              />
+              {canManage && (
+                <button
+                  type="button"
+                  onClick={() => handleRemove(member)}
+                  className="text-xs text-red-600 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {canManage && (
+        <div className="space-y-4">
+          <InviteForm onInvited={refresh} />
+          {invitations.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-slate-900 mb-2">Pending invitations</h4>
+              <ul className="space-y-2">
+                {invitations.map((invitation) => (
+                  <li
+                    key={invitation.id}
+                    className="flex items-center justify-between text-sm text-slate-700"
+                  >
+                    <span>
+                      {invitation.email} · {ROLE_LABELS[invitation.role]} · expires{' '}
+                      {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => void run(() => workspaceTeam.revokeInvitation(invitation.id))}
+                      className="text-xs text-slate-500 hover:text-red-600"
+                    >
+                      Revoke
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,293 @@
+import type React from 'react'
+import { useEffect, useState } from 'react'
+import { type UsageSummary, type UsageTotals, usageTracker } from '../../services/ai/usage'
+import { authSession } from '../../services/auth/session'
+import { workspaceManager } from '../../services/persistence/workspaces'
+
+const formatUsd = (value: number) =>
+  value < 0.01 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`
+
+const formatTokens = (value: number) => value.toLocaleString()
+
+const UsageTable: React.FC<{ title: string; rows: Record<string, UsageTotals> }> = ({
+  title,
+  rows,
+}) => {
+  const entries = Object.entries(rows).sort(([, a], [, b]) => b.costUsd - a.costUsd)
+  if (entries.length === 0) return null
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-slate-800 mb-2">{title}</h4>
+      <div className="border border-slate-200 rounded-xl overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-500">
+            <tr>
+              <th className="text-left font-medium px-4 py-2">Name</th>
+              <th className="text-right font-medium px-4 py-2">Calls</th>
+              <th className="text-right font-medium px-4 py-2">Tokens</th>
+              <th className="text-right font-medium px-4 py-2">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(([name, totals]) => (
+              <tr key={name} className="border-t border-slate-100">
+                <td className="px-4 py-2 text-slate-900">{name}</td>
+                <td className="px-4 py-2 text-right text-slate-600">{totals.calls}</td>
+                <td className="px-4 py-2 text-right text-slate-600">
+                  {formatTokens(totals.promptTokens + totals.completionTokens)}
+                </td>
+                <td className="px-4 py-2 text-right text-slate-900">{formatUsd(totals.costUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+const BudgetSection: React.FC<{ summary: UsageSummary }> = ({ summary }) => {
+  const limit = summary.budget?.monthlyLimitUsd
+  const percentUsed = limit ? Math.min(100, (summary.costUsd / limit) * 100) : 0
+  const [budgetInput, setBudgetInput] = useState(limit !== undefined ? String(limit) : '')
+  const [isSaving, setIsSaving] = useState(false)
+  // Only workspace admins set budgets
+  const canSetBudget = authSession.allows(
+    'workspace:manage',
+    workspaceManager.getActiveWorkspaceId()
+  )
+
+  useEffect(() => {
+    setBudgetInput(limit !== undefined ? String(limit) : '')
+  }, [limit])
+
+  const handleSaveBudget = async (monthlyLimitUsd: number | null) => {
+    if (monthlyLimitUsd !== null && !(monthlyLimitUsd >= 0)) {
+      alert('Please enter a budget of $0 or more')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await usageTracker.setBudget(monthlyLimitUsd)
+    } catch (saveError) {
+      console.error('Failed to save AI budget:', saveError)
+      alert('Failed to save budget. Please check that the backend is running.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <>
+      {limit !== undefined && (
+        <div>
+          <div className="flex justify-between text-sm text-slate-600 mb-1">
+            <span>Monthly budget</span>
+            <span>{formatUsd(summary.remainingUsd ?? 0)} left</span>
+          </div>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${percentUsed >= 100 ? 'bg-red-500' : percentUsed >= 80 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+              style={{ width: `${percentUsed}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {canSetBudget && (
+        <div className="border-t border-slate-200 pt-6">
+          <label htmlFor="usage-budget" className="block text-sm font-medium text-slate-700 mb-2">
+            Monthly budget (USD)
+          </label>
+          <div className="flex gap-3">
+            <input
+              id="usage-budget"
+              type="number"
+              min={0}
+              step="0.01"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              placeholder="No limit"
+              className="flex-1 border-2 border-slate-300 px-4 py-3 text-base rounded-xl focus:outline-none focus:border-blue-600 focus:ring-4 focus:ring-blue-600/10 transition-all duration-200 bg-white"
+            />
+            <button
+              type="button"
+              onClick={() => handleSaveBudget(Number.parseFloat(budgetInput))}
+              disabled={isSaving || budgetInput === ''}
+              className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl hover:from-blue-700 hover:to-blue-800 disabled:opacity-50 transition-all duration-200"
+            >
+              Save
+            </button>
+            {limit !== undefined && (
+              <button
+                type="button"
+                onClick={() => handleSaveBudget(null)}
+                disabled={isSaving}
+                className="px-6 py-3 border-2 border-slate-300 text-slate-700 rounded-xl hover:bg-slate-50 disabled:opacity-50 transition-all duration-200"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-slate-500 mt-2">
+            AI generation for this workspace stops once the budget is spent for the month.
+          </p>
+        </div>
+      )}
+    </>
+  )
+}
+
+export const UsagePanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const refresh = () => {
+      usageTracker
+        .getSummary()
+        .then((next) => {
+          setSummary(next)
+          setError(null)
+        })
+        .catch(() => setError('Usage is unavailable while the backend is offline'))
+    }
+
+    refresh()
+    const unsubscribeUsage = usageTracker.subscribe(refresh)
+    const unsubscribeWorkspace = workspaceManager.onWorkspaceChange(refresh)
+    return () => {
+      unsubscribeUsage()
+      unsubscribeWorkspace()
+    }
+  }, [])
+
+  const spent = summary?.costUsd ?? 0
+  const limit = summary?.budget?.monthlyLimitUsd
+
+  const headline = summary
+    ? `${formatUsd(spent)} spent this month${limit !== undefined ? ` of ${formatUsd(limit)}` : ''}`
+    : error || 'Loading usage…'
+
+  if (!isExpanded) {
+    return (
+      <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/30 p-6 hover:shadow-2xl transition-all duration-300">
+        <div className="flex items-center justify-between">
+          <div className="flex items-start space-x-4">
+            <div className="w-12 h-12 bg-gradient-to-br from-amber-500 to-amber-600 rounded-xl flex items-center justify-center flex-shrink-0">
+              <svg
+                className="w-6 h-6 text-white"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                aria-hidden="true"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+                />
+              </svg>
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-slate-900 mb-1">AI Usage</h3>
+              <p className="text-sm text-slate-600">{headline}</p>
+              {summary && (
+                <p className="text-xs text-slate-500 mt-2">
+                  {summary.calls} generation(s) ·{' '}
+                  {formatTokens(summary.promptTokens + summary.completionTokens)} tokens
+                </p>
+              )}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsExpanded(true)}
+            className="group inline-flex items-center px-6 py-3 bg-gradient-to-r from-amber-500 to-amber-600 text-white rounded-xl hover:from-amber-600 hover:to-amber-700 transform hover:scale-105 transition-all duration-200 shadow-lg hover:shadow-xl touch-manipulation"
+          >
+            View Usage
+            <svg
+              className="w-4 h-4 ml-2 group-hover:translate-x-1 transition-transform duration-200"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              aria-hidden="true"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl border border-white/40 p-8 animate-fadeIn">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h3 className="text-2xl font-bold text-slate-900">AI Usage</h3>
+          <p className="text-slate-600">
+            Tokens and estimated cost for{' '}
+            {workspaceManager.getActiveWorkspace()?.name || 'this workspace'}
+            {summary ? ` in ${summary.month}` : ''}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(false)}
+          className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl transition-all duration-200"
+          aria-label="Close AI usage"
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {error && !summary && <p className="text-sm text-red-600 mb-6">{error}</p>}
+
+      {summary && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="p-4 bg-slate-50 border border-slate-200 rounded-xl">
+              <p className="text-xs text-slate-500">Estimated cost</p>
+              <p className="text-xl font-bold text-slate-900">{formatUsd(summary.costUsd)}</p>
+            </div>
+            <div className="p-4 bg-slate-50 border border-slate-200 rounded-xl">
+              <p className="text-xs text-slate-500">Prompt tokens</p>
+              <p className="text-xl font-bold text-slate-900">
+                {formatTokens(summary.promptTokens)}
+              </p>
+            </div>
+            <div className="p-4 bg-slate-50 border border-slate-200 rounded-xl">
+              <p className="text-xs text-slate-500">Completion tokens</p>
+              <p className="text-xl font-bold text-slate-900">
+                {formatTokens(summary.completionTokens)}
+              </p>
+            </div>
+          </div>
+
+          <UsageTable title="By model" rows={summary.byModel} />
+          <UsageTable title="By operation" rows={summary.byOperation} />
+
+          <BudgetSection summary={summary} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,9 +4,11 @@ import {
   modernAIOrchestrator,
 } from '@/services/ai/modern-ai-orchestrator'
 import { modernMCPEngine } from '@/services/mcp/modern-mcp-server'
+import { EntitlementError, entitlements } from '@/services/payments/entitlements'
 import type React from 'react'
-import { useCallback, useState } from 'react'
+import { useCallback, useEffect, useReducer, useState } from 'react'
 import { z } from 'zod'
+import { UpgradePrompt } from '../payments/UpgradePrompt'
 
 // Input validation schema
 const CompanyInputSchema = z.object({
@@ -24,9 +26,27 @@ interface ExtractionState {
   progress: number
   currentStep: string
   error?: string
+  // Set when the workspace's plan doesn't cover the analysis
+  upgrade?: EntitlementError
   result?: CompanyDNA
 }
 
+// State after a failed extraction. One the plan doesn't cover isn't an
+// error: it asks for an upgrade.
+const failedState = (error: unknown): ExtractionState =>
+  error instanceof EntitlementError
+    ? { status: 'idle', progress: 0, currentStep: '', upgrade: error }
+    : {
+        status: 'error',
+        progress: 0,
+        currentStep: '',
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      }
+
+// Model option label, flagging models the plan doesn't include
+const modelLabel = (model: string, label: string) =>
+  entitlements.allowsModel(model) ? label : `${label} (upgrade)`
+
 export const CompanyDNAExtractor: React.FC = () => {
   const [input, setInput] = useState<CompanyInput>({
     companyName: '',
@@ -51,6 +71,12 @@ export const CompanyDNAExtractor: React.FC = () => {
 
   const [showResult, setShowResult] = useState(false)
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({})
+  const [, rerender] = useReducer((n: number) => n + 1, 0)
+
+  useEffect(() => {
+    void entitlements.getStatus()
+    return entitlements.subscribe(rerender)
+  }, [])
 
   /**
    * Validate input form
@@ -107,6 +133,7 @@ export const CompanyDNAExtractor: React.FC = () => {
 
       // Configure AI provider
       updateProgress(10, 'Configuring AI provider...')
+      await entitlements.assertModel(aiConfig.model)
       modernAIOrchestrator.configureProvider(aiConfig)
 
       // Enhanced progress tracking for website analysis
@@ -143,12 +170,7 @@ export const CompanyDNAExtractor: React.FC = () => {
       setShowResult(true)
     } catch (error) {
       console.error('❌ Company DNA extraction failed:', error)
-      setExtractionState({
-        status: 'error',
-        progress: 0,
-        currentStep: '',
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-      })
+      setExtractionState(failedState(error))
     } finally {
       // Cleanup is handled automatically by the enhanced analyzer
       console.log('🎉 Company DNA extraction process completed')
@@ -253,20 +275,20 @@ export const CompanyDNAExtractor: React.FC = () => {
                   >
                     {aiConfig.provider === 'anthropic' && (
                       <>
-                        <option value="claude-3-5-sonnet-20241022">Claude 3.5 Sonnet</option>
-                        <option value="claude-3-5-haiku-20241022">Claude 3.5 Haiku</option>
+                        <option value="claude-3-5-sonnet-20241022">{modelLabel('claude-3-5-sonnet-20241022', 'Claude 3.5 Sonnet')}</option>
+                        <option value="claude-3-5-haiku-20241022">{modelLabel('claude-3-5-haiku-20241022', 'Claude 3.5 Haiku')}</option>
                       </>
                     )}
                     {aiConfig.provider === 'openai' && (
                       <>
-                        <option value="gpt-4o">GPT-4o</option>
-                        <option value="gpt-4-turbo-2024-04-09">GPT-4 Turbo</option>
+                        <option value="gpt-4o">{modelLabel('gpt-4o', 'GPT-4o')}</option>
+                        <option value="gpt-4-turbo-2024-04-09">{modelLabel('gpt-4-turbo-2024-04-09', 'GPT-4 Turbo')}</option>
                       </>
                     )}
                     {aiConfig.provider === 'google' && (
                       <>
-                        <option value="gemini-2.0-flash">Gemini 2.0 Flash</option>
-                        <option value="gemini-1.5-pro">Gemini 1.5 Pro</option>
+                        <option value="gemini-2.0-flash">{modelLabel('gemini-2.0-flash', 'Gemini 2.0 Flash')}</option>
+                        <option value="gemini-1.5-pro">{modelLabel('gemini-1.5-pro', 'Gemini 1.5 Pro')}</option>
                       </>
                     )}
                   </select>
@@ -387,6 +409,11 @@ export const CompanyDNAExtractor: React.FC = () => {
             )}
 
             {/* Error Display */}
+            {extractionState.upgrade && (
+              <div className="mt-8 lg:mt-10">
+                <UpgradePrompt error={extractionState.upgrade} />
+              </div>
+            )}
             {extractionState.status === 'error' && (
               <div className="mt-8 lg:mt-10 p-6 bg-gradient-to-r from-red-50 to-pink-50 border border-red-200 rounded-2xl">
                 <div className="flex items-start">
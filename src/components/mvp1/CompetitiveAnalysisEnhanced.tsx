@@ -17,7 +17,9 @@ import {
 } from 'lucide-react'
 import { useSlottedContext } from '../../contexts/SlottedContext'
 import { modernAIOrchestrator } from '../../services/ai/modern-ai-orchestrator'
+import { EntitlementError, entitlements } from '../../services/payments/entitlements'
 import { enhancedWebsiteAnalyzer } from '../../services/web-automation/enhanced-website-analyzer'
+import { UpgradePrompt } from '../payments/UpgradePrompt'
 
 interface Competitor {
   name: string
@@ -31,9 +33,10 @@ interface Competitor {
 export function CompetitiveAnalysisEnhanced() {
   const { context, updateContext } = useSlottedContext()
   const [competitors, setCompetitors] = useState<Competitor[]>(
-    context.competitiveAnalysis?.competitors.map(c => ({ ...c, analysisStatus: 'complete' as const })) || []
+    (context.competitiveAnalysis?.competitors.map(c => ({ ...c, analysisStatus: 'complete' as const })) as Competitor[]) || []
   )
   const [newCompetitorUrl, setNewCompetitorUrl] = useState('')
+  const [upgrade, setUpgrade] = useState<EntitlementError | null>(null)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [swotAnalysis, setSWOTAnalysis] = useState(context.competitiveAnalysis?.swotAnalysis || {
     strengths: [],
@@ -83,6 +86,15 @@ export function CompetitiveAnalysisEnhanced() {
       ? newCompetitorUrl 
       : `https://${newCompetitorUrl}`
 
+    // Competitor websites are analyzed only on plans that include it
+    try {
+      await entitlements.assertWebsiteAnalysis()
+      setUpgrade(null)
+    } catch (error) {
+      if (error instanceof EntitlementError) setUpgrade(error)
+      return
+    }
+
     // Add competitor with pending status
     const newCompetitor: Competitor = {
       name: 'Analyzing...',
@@ -237,6 +249,11 @@ export function CompetitiveAnalysisEnhanced() {
               Analyze
             </Button>
           </div>
+          {upgrade && (
+            <div className="mt-4">
+              <UpgradePrompt error={upgrade} onDismiss={() => setUpgrade(null)} />
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -1,25 +1,36 @@
-import { type CompanyDNA, modernAIOrchestrator } from '@/services/ai/modern-ai-orchestrator'
+import {
+  type CompanyDNA,
+  generationErrorMessage,
+  modernAIOrchestrator,
+} from '@/services/ai/modern-ai-orchestrator'
 import {
   type CampaignTopic,
   type MarketingCalendar,
   campaignGenerator,
 } from '@/services/campaigns/campaign-generator'
-import { paymentStateManager } from '@/services/payments/stripe-integration'
+import { EntitlementError, entitlements } from '@/services/payments/entitlements'
+import { meteringClient } from '@/services/payments/metering'
+import {
+  DEFAULT_EVENT_REGION,
+  EVENT_REGIONS,
+  type EventRegion,
+  eventsBetween,
+} from '@/services/planning/event-library'
 import type React from 'react'
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
+import { UpgradePrompt } from '../payments/UpgradePrompt'
 
 interface MarketingCalendarGeneratorProps {
   companyDNA?: CompanyDNA
-  userEmail?: string
   onCalendarGenerated: (calendar: MarketingCalendar) => void
 }
 
 export const MarketingCalendarGenerator: React.FC<MarketingCalendarGeneratorProps> = ({
   companyDNA,
-  userEmail,
   onCalendarGenerated,
 }) => {
   const [isGenerating, setIsGenerating] = useState(false)
+  const [upgrade, setUpgrade] = useState<EntitlementError | null>(null)
   const [calendar, setCalendar] = useState<MarketingCalendar | null>(null)
   const [currentStep, setCurrentStep] = useState('')
   const [progress, setProgress] = useState(0)
@@ -28,24 +39,35 @@ export const MarketingCalendarGenerator: React.FC<MarketingCalendarGeneratorProp
     startDate: new Date().toISOString().split('T')[0],
     focusAreas: [] as string[],
     budget: '',
+    region: DEFAULT_EVENT_REGION as EventRegion,
   })
 
+  // Key dates the calendar will be planned around, shown before generating
+  const upcomingKeyDates = useMemo(() => {
+    const start = new Date(generationOptions.startDate)
+    if (Number.isNaN(start.getTime())) return []
+    const end = new Date(start.getTime() + (generationOptions.weeks * 7 - 1) * 86_400_000)
+    return eventsBetween(start, end, {
+      region: generationOptions.region,
+      industry: companyDNA?.company.industry,
+    })
+  }, [generationOptions.startDate, generationOptions.weeks, generationOptions.region, companyDNA])
+
   const handleGenerateCalendar = async () => {
     if (!companyDNA) {
       alert('Company DNA required. Please complete DNA extraction first.')
       return
     }
 
-    if (userEmail && paymentStateManager.getRemainingAnalyses(userEmail) <= 0) {
-      alert('No remaining analysis credits. Please purchase more.')
-      return
-    }
-
     setIsGenerating(true)
     setProgress(0)
     setCurrentStep('Initializing calendar generation...')
+    setUpgrade(null)
 
     try {
+      // A calendar uses one of the workspace's monthly analyses
+      await entitlements.consumeAnalysis()
+
       // Initialize campaign generator with AI orchestrator
       const generator = new (
         await import('@/services/campaigns/campaign-generator')
@@ -61,6 +83,7 @@ export const MarketingCalendarGenerator: React.FC<MarketingCalendarGeneratorProp
         focusAreas:
           generationOptions.focusAreas.length > 0 ? generationOptions.focusAreas : undefined,
         budget: generationOptions.budget || undefined,
+        region: generationOptions.region,
       })
 
       setCurrentStep('Building content strategy...')
@@ -74,16 +97,17 @@ export const MarketingCalendarGenerator: React.FC<MarketingCalendarGeneratorProp
 
       setCalendar(generatedCalendar)
       onCalendarGenerated(generatedCalendar)
-
-      // Use analysis credit if user is authenticated
-      if (userEmail) {
-        paymentStateManager.useAnalysisCredit(userEmail)
-      }
+      meteringClient.record('calendar')
 
       setCurrentStep('Calendar generation complete!')
     } catch (error) {
+      if (error instanceof EntitlementError) {
+        setUpgrade(error)
+        setCurrentStep('')
+        return
+      }
       console.error('Calendar generation failed:', error)
-      alert('Calendar generation failed. Please try again.')
+      alert(generationErrorMessage(error, 'Calendar generation failed. Please try again.'))
       setCurrentStep('Generation failed')
     } finally {
       setIsGenerating(false)
@@ -212,6 +236,33 @@ export const MarketingCalendarGenerator: React.FC<MarketingCalendarGeneratorProp
                 />
               </div>
 
+              <div>
+                <label
+                  htmlFor="calendar-region"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Region (holidays and retail events)
+                </label>
+                <select
+                  id="calendar-region"
+                  value={generationOptions.region}
+                  onChange={(e) =>
+                    setGenerationOptions((prev) => ({
+                      ...prev,
+                      region: e.target.value as EventRegion,
+                    }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  disabled={isGenerating}
+                >
+                  {Object.entries(EVENT_REGIONS).map(([region, name]) => (
+                    <option key={region} value={region}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Budget Range (optional)
@@ -252,6 +303,35 @@ export const MarketingCalendarGenerator: React.FC<MarketingCalendarGeneratorProp
           </div>
         </div>
 
+        {/* Key dates in the period */}
+        {upcomingKeyDates.length > 0 && (
+          <div className="mb-8 bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <h4 className="text-sm font-semibold text-amber-900 mb-2">
+              🎯 {upcomingKeyDates.length} key dates in this period will shape the plan
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {upcomingKeyDates.map((event) => (
+                <span
+                  key={`${event.id}-${event.date}`}
+                  title={event.description}
+                  className={`text-xs px-2 py-1 rounded ${
+                    event.priority === 'high'
+                      ? 'bg-amber-200 text-amber-900'
+                      : 'bg-white text-amber-800 border border-amber-200'
+                  }`}
+                >
+                  {new Date(`${event.date}T00:00:00`).toLocaleDateString(undefined, {
+                    month: 'short',
+                    day: 'numeric',
+                  })}{' '}
+                  {event.name}
+                  {event.estimated ? ' (est.)' : ''}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Generation Progress */}
         {isGenerating && (
           <div className="mb-8">
@@ -292,6 +372,12 @@ export const MarketingCalendarGenerator: React.FC<MarketingCalendarGeneratorProp
           </button>
         </div>
 
+        {upgrade && (
+          <div className="mb-8">
+            <UpgradePrompt error={upgrade} onDismiss={() => setUpgrade(null)} />
+          </div>
+        )}
+
         {/* Generated Calendar Preview */}
         {calendar && (
           <div className="border-t pt-8">
@@ -349,6 +435,14 @@ export const MarketingCalendarGenerator: React.FC<MarketingCalendarGeneratorProp
                           <span className="bg-green-100 text-green-800 text-xs font-medium px-2 py-1 rounded">
                             {campaign.businessGoal}
                           </span>
+                          {campaign.keyDates?.map((keyDate) => (
+                            <span
+                              key={keyDate}
+                              className="bg-amber-100 text-amber-800 text-xs font-medium px-2 py-1 rounded"
+                            >
+                              🎯 {keyDate}
+                            </span>
+                          ))}
                         </div>
                         <h5 className="font-semibold text-gray-900 mb-1">{campaign.title}</h5>
                         <p className="text-sm text-gray-600 mb-2">{campaign.description}</p>
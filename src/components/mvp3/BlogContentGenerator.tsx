@@ -1,31 +1,42 @@
-import { type CompanyDNA, modernAIOrchestrator } from '@/services/ai/modern-ai-orchestrator'
+import { StreamingPreview } from '@/components/content/StreamingPreview'
+import { useGenerationStream } from '@/hooks/useGenerationStream'
+import {
+  type CompanyDNA,
+  GenerationCancelledError,
+  modernAIOrchestrator,
+} from '@/services/ai/modern-ai-orchestrator'
 import type { CampaignTopic } from '@/services/campaigns/campaign-generator'
 import {
   BlogContentGenerator,
   type BlogGenerationOptions,
   type BlogPost,
 } from '@/services/content/blog-content-generator'
-import { paymentStateManager } from '@/services/payments/stripe-integration'
+import { EntitlementError, entitlements } from '@/services/payments/entitlements'
+import { meteringClient } from '@/services/payments/metering'
 import type React from 'react'
 import { useState } from 'react'
+import { UpgradePrompt } from '../payments/UpgradePrompt'
+
+// Marks export formats the plan doesn't include
+const exportLock = (format: string) => (entitlements.allowsExportFormat(format) ? '' : ' 🔒')
 
 interface BlogContentGeneratorProps {
   companyDNA?: CompanyDNA
   campaignTopic?: CampaignTopic
-  userEmail?: string
   onBlogGenerated: (blog: BlogPost) => void
 }
 
 export const BlogContentGeneratorComponent: React.FC<BlogContentGeneratorProps> = ({
   companyDNA,
   campaignTopic,
-  userEmail,
   onBlogGenerated,
 }) => {
   const [isGenerating, setIsGenerating] = useState(false)
+  const [upgrade, setUpgrade] = useState<EntitlementError | null>(null)
   const [generatedBlog, setGeneratedBlog] = useState<BlogPost | null>(null)
   const [currentStep, setCurrentStep] = useState('')
   const [progress, setProgress] = useState(0)
+  const stream = useGenerationStream()
   const [generationOptions, setGenerationOptions] = useState<Partial<BlogGenerationOptions>>({
     topic: campaignTopic?.title || '',
     contentLength: 2000,
@@ -47,16 +58,15 @@ export const BlogContentGeneratorComponent: React.FC<BlogContentGeneratorProps>
       return
     }
 
-    if (userEmail && paymentStateManager.getRemainingAnalyses(userEmail) <= 0) {
-      alert('No remaining blog generation credits. Please purchase more.')
-      return
-    }
-
     setIsGenerating(true)
     setProgress(0)
     setCurrentStep('Initializing blog generation...')
+    setUpgrade(null)
 
     try {
+      // A blog post uses one of the workspace's monthly analyses
+      await entitlements.consumeAnalysis()
+
       // Initialize blog generator with AI orchestrator
       const generator = new BlogContentGenerator(modernAIOrchestrator)
 
@@ -79,7 +89,8 @@ export const BlogContentGeneratorComponent: React.FC<BlogContentGeneratorProps>
       setCurrentStep('Generating comprehensive blog content...')
       setProgress(50)
 
-      const blog = await generator.generateBlogPost(options)
+      const blog = await generator.generateBlogPost(options, stream.start())
+      stream.finish()
 
       setCurrentStep('Optimizing SEO and brand voice...')
       setProgress(80)
@@ -89,14 +100,20 @@ export const BlogContentGeneratorComponent: React.FC<BlogContentGeneratorProps>
 
       setGeneratedBlog(blog)
       onBlogGenerated(blog)
-
-      // Use analysis credit if user is authenticated
-      if (userEmail) {
-        paymentStateManager.useAnalysisCredit(userEmail)
-      }
+      meteringClient.record('blog_post')
 
       setCurrentStep('Blog generation complete!')
     } catch (error) {
+      stream.finish()
+      if (error instanceof EntitlementError) {
+        setUpgrade(error)
+        setCurrentStep('')
+        return
+      }
+      if (error instanceof GenerationCancelledError) {
+        setCurrentStep('Generation cancelled')
+        return
+      }
       console.error('Blog generation failed:', error)
       alert('Blog generation failed. Please try again.')
       setCurrentStep('Generation failed')
@@ -124,6 +141,10 @@ export const BlogContentGeneratorComponent: React.FC<BlogContentGeneratorProps>
       document.body.removeChild(a)
       URL.revokeObjectURL(url)
     } catch (error) {
+      if (error instanceof EntitlementError) {
+        setUpgrade(error)
+        return
+      }
       console.error('Export failed:', error)
       alert('Export failed. Please try again.')
     }
@@ -419,6 +440,11 @@ export const BlogContentGeneratorComponent: React.FC<BlogContentGeneratorProps>
                   style={{ width: `${progress}%` }}
                 ></div>
               </div>
+              <StreamingPreview
+                text={stream.streamedText}
+                isStreaming={stream.isStreaming}
+                onCancel={stream.cancel}
+              />
             </div>
           </div>
         )}
@@ -445,6 +471,12 @@ export const BlogContentGeneratorComponent: React.FC<BlogContentGeneratorProps>
           </button>
         </div>
 
+        {upgrade && (
+          <div className="mb-8">
+            <UpgradePrompt error={upgrade} onDismiss={() => setUpgrade(null)} />
+          </div>
+        )}
+
         {/* Generated Blog Preview */}
         {generatedBlog && (
           <div className="border-t pt-8">
@@ -455,19 +487,19 @@ export const BlogContentGeneratorComponent: React.FC<BlogContentGeneratorProps>
                   onClick={() => handleExportBlog('markdown')}
                   className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors text-sm"
                 >
-                  Export Markdown
+                  Export Markdown{exportLock('markdown')}
                 </button>
                 <button
                   onClick={() => handleExportBlog('html')}
                   className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm"
                 >
-                  Export HTML
+                  Export HTML{exportLock('html')}
                 </button>
                 <button
                   onClick={() => handleExportBlog('json')}
                   className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm"
                 >
-                  Export JSON
+                  Export JSON{exportLock('json')}
                 </button>
               </div>
             </div>
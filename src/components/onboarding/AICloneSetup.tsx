@@ -204,11 +204,11 @@ export default function AICloneSetup({ onNext, onBack }: AICloneSetupProps) {
   const generateAICloneConfig = async () => {
     try {
       const brandContext = `
-        Company: ${context.companyInfo?.companyName || context.companyName || 'Your Company'}
-        Industry: ${context.companyInfo?.industry || context.industry || 'Business'}
+        Company: ${context.company?.name || 'Your Company'}
+        Industry: ${context.company?.industry || 'Business'}
         Brand Personality: ${context.brandDNA?.brandTone?.personality?.join(', ') || 'Professional'}
         Communication Style: ${context.brandDNA?.brandTone?.communicationStyle || 'Conversational'}
-        Target Audience: ${context.targetAudience || 'Business professionals'}
+        Target Audience: ${context.brandDNA?.targetAudience?.demographics || 'Business professionals'}
       `
 
       const prompt = `Based on this brand context, suggest an AI assistant name and configuration that would be perfect for this company:
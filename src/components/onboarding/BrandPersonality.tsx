@@ -153,7 +153,7 @@ export default function BrandPersonality({ onNext, onBack }: BrandPersonalityPro
 
   // Generate personality suggestions based on industry
   const generatePersonalitySuggestions = () => {
-    const industry = context.companyInfo?.industry || context.industry || 'business'
+    const industry = context.company?.industry || 'business'
     const suggestions = getIndustrySuggestions(industry)
     
     // Add suggestions that aren't already present
@@ -353,8 +353,8 @@ export default function BrandVoice({ onNext, onBack }: BrandVoiceProps) {
       if (!pillar) return
 
       const companyContext = `
-        Company: ${context.companyInfo?.companyName || context.companyName || 'Unknown'}
-        Industry: ${context.companyInfo?.industry || context.industry || 'Unknown'}
+        Company: ${context.company?.name || 'Unknown'}
+        Industry: ${context.company?.industry || 'Unknown'}
         Content Pillar: ${pillar.name}
         Description: ${pillar.description}
       `
@@ -409,8 +409,8 @@ Example: ["Topic 1", "Topic 2", "Topic 3", "Topic 4", "Topic 5"]`
     
     try {
       const companyContext = `
-        Company: ${context.companyInfo?.companyName || context.companyName || 'Unknown'}
-        Industry: ${context.companyInfo?.industry || context.industry || 'Unknown'}
+        Company: ${context.company?.name || 'Unknown'}
+        Industry: ${context.company?.industry || 'Unknown'}
         Brand Keywords: ${keywords.map(k => k.text).join(', ')}
       `
 
@@ -248,7 +248,7 @@ export default function ContentPipeline({ onBack, onNext }: ContentPipelineProps
     if (context.contentPipeline) {
       setPipelineStatus(context.contentPipeline.status || 'idle')
       if (context.contentPipeline.contentItems) {
-        setContentItems(context.contentPipeline.contentItems)
+        setContentItems(context.contentPipeline.contentItems as ContentItem[])
       }
     }
   }, [context.contentPipeline])
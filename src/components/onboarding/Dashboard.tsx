@@ -68,7 +68,7 @@ export default function Dashboard({ className, onNext, onBack, isLast, onComplet
   // Calculate completion summary based on context data
   const getCompletionSummary = (): CompletionSummary => {
     const checks = [
-      { key: 'companyInfo', completed: !!slottedData.companyInfo?.companyName },
+      { key: 'companyInfo', completed: !!slottedData.company?.name },
       { key: 'brandDNA', completed: !!slottedData.brandDNA?.valuePropositions?.length },
       { key: 'targetSegments', completed: !!slottedData.targetSegments?.primarySegment },
       { key: 'marketingGoals', completed: !!slottedData.marketingGoals?.primaryGoals?.length },
@@ -148,10 +148,10 @@ export default function Dashboard({ className, onNext, onBack, isLast, onComplet
   const exportConfiguration = () => {
     const exportData = {
       companyProfile: {
-        name: slottedData.companyInfo?.companyName,
-        industry: slottedData.companyInfo?.industry,
-        size: slottedData.companyInfo?.size,
-        website: slottedData.companyInfo?.website
+        name: slottedData.company?.name,
+        industry: slottedData.company?.industry,
+        size: slottedData.company?.size,
+        website: slottedData.company?.website
       },
       brandDNA: slottedData.brandDNA,
       marketingStrategy: {
@@ -172,7 +172,7 @@ export default function Dashboard({ className, onNext, onBack, isLast, onComplet
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = `${slottedData.companyInfo?.companyName || 'slotted'}-configuration.json`
+    a.download = `${slottedData.company?.name || 'slotted'}-configuration.json`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
@@ -328,13 +328,13 @@ export default function Dashboard({ className, onNext, onBack, isLast, onComplet
                 <div className="flex items-center justify-between py-2 border-b border-gray-100">
                   <span className="text-sm font-medium">Company</span>
                   <span className="text-sm text-gray-600">
-                    {slottedData.companyInfo?.companyName || 'Not specified'}
+                    {slottedData.company?.name || 'Not specified'}
                   </span>
                 </div>
                 <div className="flex items-center justify-between py-2 border-b border-gray-100">
                   <span className="text-sm font-medium">Industry</span>
                   <span className="text-sm text-gray-600">
-                    {slottedData.companyInfo?.industry || 'Not specified'}
+                    {slottedData.company?.industry || 'Not specified'}
                   </span>
                 </div>
                 <div className="flex items-center justify-between py-2 border-b border-gray-100">
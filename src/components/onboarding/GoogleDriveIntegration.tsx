@@ -76,7 +76,7 @@ export default function GoogleDriveIntegration({ onBack, onNext }: GoogleDriveIn
   const [searchQuery, setSearchQuery] = useState('')
   const [currentView, setCurrentView] = useState<'root' | 'detail'>('root')
   const [breadcrumbs, setBreadcrumbs] = useState<BreadcrumbItem[]>([
-    { id: 'root', name: `SLOTTED_${context.companyInfo?.companyName || context.companyName || 'YourBrand'}` }
+    { id: 'root', name: `SLOTTED_${context.company?.name || 'YourBrand'}` }
   ])
   const [selectedFolder, setSelectedFolder] = useState<FolderItem | null>(null)
   const [isConnecting, setIsConnecting] = useState(false)
@@ -293,8 +293,8 @@ export default function StyleGuide({ onNext, onBack }: StyleGuideProps) {
         Typography: Primary Font ${typography.primaryFont}, Secondary Font ${typography.secondaryFont}
         Brand Personality: ${context.brandDNA?.brandTone?.personality?.join(', ') || 'Professional'}
         Communication Style: ${context.brandDNA?.brandTone?.communicationStyle || 'Conversational'}
-        Company: ${context.companyInfo?.companyName || context.companyName || 'Your Company'}
-        Industry: ${context.companyInfo?.industry || context.industry || 'Business'}
+        Company: ${context.company?.name || 'Your Company'}
+        Industry: ${context.company?.industry || 'Business'}
       `
 
       const prompt = `Using this brand context, ${testPrompt}
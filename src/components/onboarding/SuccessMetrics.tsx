@@ -119,7 +119,7 @@ interface SuccessMetricsProps {
 
 export function SuccessMetrics({ onNext, onBack }: SuccessMetricsProps) {
   const { context, updateContext } = useSlottedContext()
-  const [selectedMetrics, setSelectedMetrics] = useState<SuccessMetric[]>(context.successMetrics?.metrics || [])
+  const [selectedMetrics, setSelectedMetrics] = useState<SuccessMetric[]>((context.successMetrics?.metrics as SuccessMetric[]) || [])
   const [activeTab, setActiveTab] = useState('select-metrics')
   const [activeStage, setActiveStage] = useState<string>('awareness')
   const [customMetric, setCustomMetric] = useState({
@@ -214,8 +214,8 @@ export function SuccessMetrics({ onNext, onBack }: SuccessMetricsProps) {
       ).join('\n')
 
       const companyContext = `
-        Company: ${context.companyInfo?.companyName || 'Unknown'}
-        Industry: ${context.companyInfo?.industry || 'Unknown'}
+        Company: ${context.company?.name || 'Unknown'}
+        Industry: ${context.company?.industry || 'Unknown'}
         Target Market: ${context.targetSegments?.primarySegment?.name || 'Unknown'}
         Current Revenue Stage: ${context.pricingStrategy?.model || 'Unknown'}
         Selected Channels: ${context.channelConfiguration?.primary?.map(c => c.name).join(', ') || 'Unknown'}
@@ -29,23 +29,13 @@ export const PricingPlans: React.FC<PricingPlansProps> = ({ onPlanSelected, curr
     try {
       const session = await stripeProcessor.createPaymentSession({
         planId: plan.id,
-        customerEmail: userEmail,
         companyName: companyName,
-        successUrl: `${window.location.origin}/payment-success`,
-        cancelUrl: `${window.location.origin}/payment-cancelled`,
       })
 
-      // In production, redirect to Stripe checkout
-      // For demo, simulate immediate success
-      console.log(`Redirecting to: ${session.checkoutUrl}`)
-
-      // Simulate payment success after 2 seconds
-      setTimeout(() => {
-        alert(`Payment successful! You now have access to ${plan.name}`)
-        onPlanSelected(plan.id)
-        setIsProcessing(false)
-        setSelectedPlan(null)
-      }, 2000)
+      // Stripe takes payment on its Checkout page and sends the buyer back
+      // with ?checkout=success, where the billing panel confirms it
+      onPlanSelected(plan.id)
+      window.location.assign(session.checkoutUrl)
     } catch (error) {
       console.error('Payment failed:', error)
       alert('Payment failed. Please try again.')
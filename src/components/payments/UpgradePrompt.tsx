@@ -0,0 +1,76 @@
+import type React from 'react'
+import { useState } from 'react'
+import { authSession } from '../../services/auth/session'
+import type { EntitlementError } from '../../services/payments/entitlements'
+import { stripeProcessor } from '../../services/payments/stripe-integration'
+import { workspaceManager } from '../../services/persistence/workspaces'
+
+interface UpgradePromptProps {
+  error: EntitlementError
+  onDismiss?: () => void
+}
+
+/**
+ * Shown when the workspace's plan doesn't cover what was asked for. Admins
+ * of a workspace without a plan can go straight to checkout for the plan
+ * suggested; a plan change goes through Plan & Billing.
+ */
+export const UpgradePrompt: React.FC<UpgradePromptProps> = ({ error, onDismiss }) => {
+  const [isRedirecting, setIsRedirecting] = useState(false)
+  const plan = error.upgradeTo
+  const canSubscribe =
+    error.code === 'no_plan' &&
+    Boolean(plan) &&
+    authSession.can('workspace:manage', workspaceManager.getActiveWorkspaceId())
+
+  const handleSubscribe = async () => {
+    if (!plan) return
+    setIsRedirecting(true)
+    try {
+      const session = await stripeProcessor.createPaymentSession({
+        planId: plan.id,
+        companyName: workspaceManager.getActiveWorkspace()?.name,
+      })
+      window.location.assign(session.checkoutUrl)
+    } catch (subscribeError) {
+      alert(subscribeError instanceof Error ? subscribeError.message : 'Checkout failed')
+      setIsRedirecting(false)
+    }
+  }
+
+  return (
+    <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-amber-900">{error.message}</p>
+          {plan && (
+            <p className="text-sm text-amber-800 mt-1">
+              {plan.name} (${plan.price}/month){' '}
+              {error.code === 'quota_exhausted' ? 'allows more each month.' : 'includes it.'}
+              {!canSubscribe && ' A workspace admin can change the plan under Plan & Billing.'}
+            </p>
+          )}
+        </div>
+        {onDismiss && (
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="text-xs text-amber-700 hover:text-amber-900"
+          >
+            Dismiss
+          </button>
+        )}
+      </div>
+      {canSubscribe && (
+        <button
+          type="button"
+          disabled={isRedirecting}
+          onClick={() => void handleSubscribe()}
+          className="mt-3 px-4 py-1.5 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-60"
+        >
+          {isRedirecting ? 'Redirecting…' : `Subscribe to ${plan?.name}`}
+        </button>
+      )}
+    </div>
+  )
+}
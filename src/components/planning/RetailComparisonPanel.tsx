@@ -0,0 +1,291 @@
+import type React from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import { workspaceManager } from '../../services/persistence/workspaces'
+import { describeCalendar } from '../../services/planning/fiscal-calendar'
+import {
+  type ComparisonTotals,
+  type WeekComparison,
+  type YearOverYearComparison,
+  retailCalendarService,
+} from '../../services/planning/retail-calendar-service'
+import { parseResultsCsv, retailResultsStore } from '../../services/planning/retail-results'
+
+const formatValue = (value?: number) =>
+  value === undefined ? '—' : new Intl.NumberFormat().format(Math.round(value * 100) / 100)
+
+const formatPercent = (percent?: number) =>
+  percent === undefined ? '—' : `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`
+
+const changeClass = (percent?: number) =>
+  percent === undefined ? 'text-slate-400' : percent >= 0 ? 'text-green-700' : 'text-red-600'
+
+const describeWeek = ({ week, priorWeek }: WeekComparison) =>
+  `${week.month} wk ${week.weekOfMonth} (${week.startDate})${
+    priorWeek ? ` vs ${priorWeek.fiscalYear} wk ${priorWeek.week}` : ''
+  }`
+
+const summarize = ({ metric, year, total }: YearOverYearComparison) =>
+  `${metric} ${formatPercent(total.changePercent)} vs FY${year - 1} over ${total.weeks} comparable weeks`
+
+const TotalsRow: React.FC<{ label: string; totals: ComparisonTotals }> = ({ label, totals }) => (
+  <tr className="border-t border-slate-200 font-semibold">
+    <td className="py-2">
+      {label}
+      <span className="font-normal text-slate-500"> ({totals.weeks} matched weeks)</span>
+    </td>
+    <td className="py-2 text-right">{formatValue(totals.current)}</td>
+    <td className="py-2 text-right">{formatValue(totals.prior)}</td>
+    <td className={`py-2 text-right ${changeClass(totals.changePercent)}`}>
+      {formatPercent(totals.changePercent)}
+    </td>
+  </tr>
+)
+
+/**
+ * Like-for-like comparison of imported weekly results with the comparable
+ * retail weeks of the prior year, on the workspace's fiscal calendar.
+ */
+export const RetailComparisonPanel: React.FC = () => {
+  const calendar = retailCalendarService.getConfig()
+  const currentYear = retailCalendarService.getFiscalWeek(new Date()).fiscalYear
+
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [results, setResults] = useState(() => retailResultsStore.getResults())
+  const [year, setYear] = useState(currentYear)
+  const [quarter, setQuarter] = useState<number | 'all'>('all')
+  const [metric, setMetric] = useState('')
+  const [importErrors, setImportErrors] = useState<string[]>([])
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    const unsubscribeResults = retailResultsStore.subscribe(() =>
+      setResults(retailResultsStore.getResults())
+    )
+    const unsubscribeWorkspace = workspaceManager.onWorkspaceChange(() => {
+      setImportErrors([])
+      setNotice(null)
+    })
+    return () => {
+      unsubscribeResults()
+      unsubscribeWorkspace()
+    }
+  }, [])
+
+  const metrics = useMemo(
+    () => [...new Set(results.flatMap((result) => Object.keys(result.metrics)))].sort(),
+    [results]
+  )
+  const activeMetric = metrics.includes(metric) ? metric : metrics[0]
+  const years = useMemo(
+    () => [...new Set([currentYear, ...results.map((r) => r.fiscalYear)])].sort((a, b) => b - a),
+    [results, currentYear]
+  )
+
+  const comparison = useMemo(
+    () =>
+      activeMetric ? retailCalendarService.compareWithPriorYear(year, activeMetric, results) : null,
+    [year, activeMetric, results]
+  )
+
+  const handleImport = async (file: File) => {
+    const imported = parseResultsCsv(await file.text(), calendar)
+    setImportErrors(imported.errors)
+    if (imported.results.length) {
+      retailResultsStore.import(imported.results)
+      setNotice(
+        `Imported ${imported.results.length} week${imported.results.length === 1 ? '' : 's'} from ${file.name}`
+      )
+    } else {
+      setNotice(null)
+    }
+  }
+
+  const shownWeeks =
+    comparison?.weeks.filter((w) => quarter === 'all' || w.week.quarter === quarter) || []
+  const shownTotals =
+    comparison && (quarter === 'all' ? comparison.total : comparison.quarters[quarter - 1])
+
+  if (!isExpanded) {
+    return (
+      <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/30 p-6 hover:shadow-2xl transition-all duration-300">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 mb-1">Retail Year over Year</h3>
+            <p className="text-sm text-slate-600">
+              {comparison?.total.weeks
+                ? summarize(comparison)
+                : 'Import weekly results to compare with last year'}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsExpanded(true)}
+            className="px-6 py-3 bg-gradient-to-r from-slate-600 to-slate-700 text-white rounded-xl hover:from-slate-700 hover:to-slate-800 transition-all duration-200 shadow-lg"
+          >
+            View
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl border border-white/40 p-8 animate-fadeIn">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-2xl font-bold text-slate-900">Retail Year over Year</h3>
+          <p className="text-slate-600">
+            Weekly results on the {describeCalendar(calendar)} retail calendar
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(false)}
+          className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl transition-all duration-200"
+          aria-label="Close retail comparison"
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <label className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 cursor-pointer">
+          Import CSV
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (file) void handleImport(file)
+            }}
+          />
+        </label>
+        {results.length > 0 && (
+          <button
+            type="button"
+            onClick={() => retailResultsStore.clear()}
+            className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-900"
+          >
+            Clear results
+          </button>
+        )}
+        <p className="text-xs text-slate-500">
+          One row per week: a date (or fiscal_year and week) and a column per metric
+        </p>
+      </div>
+
+      {notice && <p className="text-sm text-blue-700 mb-2">{notice}</p>}
+      {importErrors.length > 0 && (
+        <ul className="text-sm text-red-600 mb-4 list-disc pl-5">
+          {importErrors.slice(0, 5).map((importError) => (
+            <li key={importError}>{importError}</li>
+          ))}
+          {importErrors.length > 5 && <li>…and {importErrors.length - 5} more</li>}
+        </ul>
+      )}
+
+      {comparison && (
+        <>
+          <div className="flex flex-wrap gap-3 mb-4">
+            <select
+              value={year}
+              onChange={(e) => setYear(Number(e.target.value))}
+              className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg"
+              aria-label="Fiscal year"
+            >
+              {years.map((option) => (
+                <option key={option} value={option}>
+                  FY{option} vs FY{option - 1}
+                </option>
+              ))}
+            </select>
+            <select
+              value={quarter}
+              onChange={(e) =>
+                setQuarter(e.target.value === 'all' ? 'all' : Number(e.target.value))
+              }
+              className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg"
+              aria-label="Quarter"
+            >
+              <option value="all">Full year</option>
+              {[1, 2, 3, 4].map((option) => (
+                <option key={option} value={option}>
+                  Q{option}
+                </option>
+              ))}
+            </select>
+            <select
+              value={activeMetric}
+              onChange={(e) => setMetric(e.target.value)}
+              className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg"
+              aria-label="Metric"
+            >
+              {metrics.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {comparison.restated && (
+            <p className="text-sm text-amber-700 mb-4">
+              FY{year - 1} had 53 weeks, so it is restated: each week is compared with the following
+              week of FY{year - 1} to cover the same time of year.
+            </p>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="py-2">Week</th>
+                <th className="py-2 text-right">FY{year}</th>
+                <th className="py-2 text-right">FY{year - 1}</th>
+                <th className="py-2 text-right">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shownWeeks.map((row) => (
+                <tr key={row.week.week} className="border-t border-slate-100">
+                  <td className="py-2 text-slate-900">
+                    <span className="font-medium">{row.week.week}</span>{' '}
+                    <span className="text-slate-500">{describeWeek(row)}</span>
+                    {row.week.isLeapWeek && (
+                      <span className="text-amber-700"> · 53rd week, no comparable</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right">{formatValue(row.current)}</td>
+                  <td className="py-2 text-right">{formatValue(row.prior)}</td>
+                  <td className={`py-2 text-right ${changeClass(row.changePercent)}`}>
+                    {formatPercent(row.changePercent)}
+                  </td>
+                </tr>
+              ))}
+              {shownTotals && (
+                <TotalsRow
+                  label={quarter === 'all' ? `FY${year}` : `Q${quarter}`}
+                  totals={shownTotals}
+                />
+              )}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useState } from 'react'
+import { authSession } from '../../services/auth/session'
+import { type WorkspaceSummary, workspaceManager } from '../../services/persistence/workspaces'
+import { Button } from '../ui'
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone')
+
+// Cloning, archiving and time zones are for workspace admins
+const canManage = (workspaceId: string) => authSession.allows('workspace:manage', workspaceId)
+
+/**
+ * Header control for agencies managing several brands: switch, create,
+ * clone, archive and restore workspaces, and set the time zone the active
+ * brand's posts are scheduled in.
+ */
+export function WorkspaceSwitcher() {
+  const [activeId, setActiveId] = useState(() => workspaceManager.getActiveWorkspaceId())
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>(() =>
+    workspaceManager.listWorkspaces({ includeArchived: true })
+  )
+  const [isOpen, setIsOpen] = useState(false)
+  const [showArchived, setShowArchived] = useState(false)
+  const [newName, setNewName] = useState('')
+
+  const refresh = useCallback(() => {
+    setActiveId(workspaceManager.getActiveWorkspaceId())
+    setWorkspaces([...workspaceManager.listWorkspaces({ includeArchived: true })])
+  }, [])
+
+  useEffect(() => {
+    void workspaceManager.refreshFromServer().then(refresh)
+    return workspaceManager.onWorkspaceChange(refresh)
+  }, [refresh])
+
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeId)
+  const visibleWorkspaces = workspaces.filter(
+    (workspace) => showArchived === Boolean(workspace.archivedAt)
+  )
+
+  const handleCreate = () => {
+    if (!newName.trim()) return
+    const workspace = workspaceManager.createWorkspace(newName)
+    setNewName('')
+    workspaceManager.switchWorkspace(workspace.id)
+    refresh()
+  }
+
+  const handleClone = (workspace: WorkspaceSummary) => {
+    const clone = workspaceManager.cloneWorkspace(workspace.id)
+    workspaceManager.switchWorkspace(clone.id)
+    refresh()
+  }
+
+  const handleArchive = (workspace: WorkspaceSummary) => {
+    if (!window.confirm(`Archive "${workspace.name}"? You can restore it later.`)) return
+    workspaceManager.archiveWorkspace(workspace.id)
+    refresh()
+  }
+
+  const handleRestore = (workspace: WorkspaceSummary) => {
+    workspaceManager.restoreWorkspace(workspace.id)
+    refresh()
+  }
+
+  const handleTimeZoneChange = (timeZone: string) => {
+    workspaceManager.setWorkspaceTimeZone(activeId, timeZone || null)
+    refresh()
+  }
+
+  const handleSwitch = (workspace: WorkspaceSummary) => {
+    workspaceManager.switchWorkspace(workspace.id)
+    setIsOpen(false)
+  }
+
+  return (
+    <div className="relative">
+      <Button variant="outline" size="sm" onClick={() => setIsOpen((open) => !open)}>
+        <span className="mr-2 text-gray-500">Brand:</span>
+        <span className="font-semibold text-gray-900">{activeWorkspace?.name || 'Workspace'}</span>
+        <svg
+          className="w-4 h-4 ml-2"
+          aria-hidden="true"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-xl border border-gray-200 z-50 p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-semibold text-gray-700">
+              {showArchived ? 'Archived brands' : 'Brands'}
+            </span>
+            <button
+              type="button"
+              onClick={() => setShowArchived((archived) => !archived)}
+              className="text-xs text-blue-600 hover:text-blue-700"
+            >
+              {showArchived ? 'Show active' : 'Show archived'}
+            </button>
+          </div>
+
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+            {visibleWorkspaces.map((workspace) => (
+              <li key={workspace.id} className="flex items-center justify-between py-2">
+                {workspace.archivedAt ? (
+                  <span className="text-sm text-gray-500 truncate">{workspace.name}</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleSwitch(workspace)}
+                    className={`text-sm truncate text-left ${
+                      workspace.id === activeId ? 'font-semibold text-blue-700' : 'text-gray-800'
+                    }`}
+                  >
+                    {workspace.id === activeId ? '● ' : ''}
+                    {workspace.name}
+                  </button>
+                )}
+
+                <div className="flex items-center space-x-2 shrink-0 ml-2">
+                  {workspace.archivedAt
+                    ? canManage(workspace.id) && (
+                        <button
+                          type="button"
+                          onClick={() => handleRestore(workspace)}
+                          className="text-xs text-blue-600 hover:text-blue-700"
+                        >
+                          Restore
+                        </button>
+                      )
+                    : canManage(workspace.id) && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => handleClone(workspace)}
+                            className="text-xs text-gray-600 hover:text-gray-900"
+                          >
+                            Clone
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleArchive(workspace)}
+                            className="text-xs text-red-600 hover:text-red-700"
+                          >
+                            Archive
+                          </button>
+                        </>
+                      )}
+                </div>
+              </li>
+            ))}
+            {visibleWorkspaces.length === 0 && (
+              <li className="py-2 text-sm text-gray-500">No archived brands</li>
+            )}
+          </ul>
+
+          {!showArchived && activeWorkspace && (
+            <label className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100 text-xs text-gray-600">
+              <span>Posting time zone</span>
+              <select
+                value={activeWorkspace.timeZone || ''}
+                onChange={(e) => handleTimeZoneChange(e.target.value)}
+                disabled={!canManage(activeWorkspace.id)}
+                className="ml-2 max-w-[10rem] px-2 py-1 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Server default</option>
+                {TIME_ZONES.map((timeZone) => (
+                  <option key={timeZone} value={timeZone}>
+                    {timeZone}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {!showArchived && (
+            <div className="flex items-center space-x-2 mt-3 pt-3 border-t border-gray-100">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder="New brand name"
+                className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <Button size="sm" onClick={handleCreate} disabled={!newName.trim()}>
+                Add
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -10,7 +10,7 @@ interface SlottedContextState {
   updateContext: (updates: Partial<SlottedContext>) => Promise<void>
   getMCPPromptContext: () => string
   exportContext: () => string
-  importContext: (jsonString: string) => void
+  importContext: (jsonString: string) => Promise<void>
 }
 
 const SlottedContextContext = createContext<SlottedContextState | undefined>(undefined)
@@ -71,8 +71,8 @@ export const SlottedContextProvider: React.FC<SlottedContextProviderProps> = ({
     return mcpContextEngine.exportContextAsJSON()
   }
 
-  const importContext = (jsonString: string) => {
-    mcpContextEngine.importContextFromJSON(jsonString)
+  const importContext = async (jsonString: string) => {
+    await mcpContextEngine.importContextFromJSON(jsonString)
   }
 
   const value: SlottedContextState = {
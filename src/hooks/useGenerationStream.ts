@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+/**
+ * Track streamed AI output for a generator component. `start()` returns the
+ * signal and token callback to hand to `generateContent`; `cancel()` stops
+ * the generation mid-stream. Renders are batched to one per animation frame
+ * so long outputs don't re-render on every token.
+ */
+export function useGenerationStream() {
+  const [streamedText, setStreamedText] = useState('')
+  const [isStreaming, setIsStreaming] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+  const textRef = useRef('')
+  const frameRef = useRef<number | null>(null)
+
+  const flush = useCallback(() => {
+    frameRef.current = null
+    setStreamedText(textRef.current)
+  }, [])
+
+  const onToken = useCallback(
+    (_token: string, text: string) => {
+      textRef.current = text
+      if (frameRef.current === null) {
+        frameRef.current = requestAnimationFrame(flush)
+      }
+    },
+    [flush]
+  )
+
+  const start = useCallback(() => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    textRef.current = ''
+    setStreamedText('')
+    setIsStreaming(true)
+    return { signal: controller.signal, onToken }
+  }, [onToken])
+
+  const finish = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current)
+      flush()
+    }
+    controllerRef.current = null
+    setIsStreaming(false)
+  }, [flush])
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    finish()
+  }, [finish])
+
+  // Stop generating if the component goes away mid-stream
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort()
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    }
+  }, [])
+
+  return { streamedText, isStreaming, start, finish, cancel }
+}
@@ -16,6 +16,8 @@ import {
   MarketingTool,
   ProductService
 } from '../types/marketing'
+import { workspaceSync } from '../services/persistence/workspace-sync'
+import { workspaceManager } from '../services/persistence/workspaces'
 
 const STORAGE_KEY = 'slotted_marketing_state'
 const STATE_VERSION = '1.0.0'
@@ -112,12 +114,23 @@ const MarketingContext = createContext<MarketingContextType>({
 export const MarketingProvider = ({ children }: { children: ReactNode }) => {
   const [state, setStateInternal] = useState<MarketingState>(initialState)
   const [isHydrated, setIsHydrated] = useState(false)
+  const [workspaceId, setWorkspaceId] = useState(() => workspaceManager.getActiveWorkspaceId())
+
+  // Reload when the active brand workspace changes
+  useEffect(
+    () =>
+      workspaceManager.onWorkspaceChange((workspace) => {
+        setIsHydrated(false)
+        setWorkspaceId(workspace.id)
+      }),
+    []
+  )
   
-  // Load state from localStorage on initial render
+  // Load state from localStorage on initial render and workspace switch
   useEffect(() => {
     const loadState = () => {
       try {
-        const savedState = localStorage.getItem(STORAGE_KEY)
+        const savedState = localStorage.getItem(workspaceManager.scopedKey(STORAGE_KEY))
         if (savedState) {
           const parsedState = JSON.parse(savedState) as MarketingState
           
@@ -136,6 +149,8 @@ export const MarketingProvider = ({ children }: { children: ReactNode }) => {
           }
           
           setStateInternal(mergedState)
+        } else {
+          setStateInternal(initialState)
         }
       } catch (error) {
         console.error('Failed to parse saved marketing state:', error)
@@ -147,7 +162,30 @@ export const MarketingProvider = ({ children }: { children: ReactNode }) => {
     }
     
     loadState()
-  }, [])
+  }, [workspaceId])
+
+  // Adopt the workspace copy from the backend when it is newer than local state
+  useEffect(() => {
+    if (!isHydrated) return
+
+    const applyRemoteState = (remote: unknown) => {
+      const mergedState: MarketingState = {
+        ...initialState,
+        ...(remote as MarketingState),
+        version: STATE_VERSION,
+      }
+      setStateInternal(mergedState)
+      localStorage.setItem(workspaceManager.scopedKey(STORAGE_KEY), JSON.stringify(mergedState))
+    }
+
+    const unsubscribe = workspaceSync.onRemoteUpdate('marketingState', applyRemoteState)
+    const savedState = localStorage.getItem(workspaceManager.scopedKey(STORAGE_KEY))
+    void workspaceSync
+      .reconcile('marketingState', savedState ? JSON.parse(savedState) : null)
+      .then((remote) => remote && applyRemoteState(remote))
+
+    return unsubscribe
+  }, [isHydrated, workspaceId])
   
   // Save state to localStorage whenever it changes (but only after hydration)
   const saveToStorage = useCallback((newState: MarketingState) => {
@@ -158,7 +196,8 @@ export const MarketingProvider = ({ children }: { children: ReactNode }) => {
         ...newState,
         lastUpdated: new Date().toISOString()
       }
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(stateToSave))
+      localStorage.setItem(workspaceManager.scopedKey(STORAGE_KEY), JSON.stringify(stateToSave))
+      workspaceSync.push('marketingState', stateToSave)
     } catch (error) {
       console.error('Failed to save marketing state to localStorage:', error)
     }
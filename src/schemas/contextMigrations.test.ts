@@ -0,0 +1,215 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { CompanyDNA } from '../services/ai/modern-ai-orchestrator'
+import type { ChannelData, MarketingState } from '../types/marketing'
+import {
+  CONTEXT_STORAGE_KEYS,
+  fromChannelStore,
+  fromCompanyDNA,
+  fromMarketingState,
+  loadStoredContext,
+  migrateContext,
+} from './contextMigrations'
+import { SLOTTED_CONTEXT_VERSION } from './slottedContext'
+
+const DNA: CompanyDNA = {
+  company: { name: 'Acme', industry: 'Retail', size: 'medium', description: 'Shoes' },
+  brandDNA: {
+    valuePropositions: ['Comfort'],
+    coreOfferings: ['Sneakers'],
+    targetAudience: { demographics: 'Runners', psychographics: 'Active', painPoints: ['Blisters'] },
+    brandVoice: { personality: ['Upbeat'], tone: 'friendly', communicationStyle: 'Warm and plain' },
+    brandColors: { primary: '#000', secondary: '#fff', accent: '#f00' },
+  },
+  marketingInsights: {
+    competitiveAdvantage: 'Fit',
+    marketPosition: 'Mid-market',
+    contentThemes: ['Training'],
+    recommendedChannels: ['instagram'],
+  },
+  metadata: {
+    extractedAt: '2026-01-01T00:00:00Z',
+    websiteAnalyzed: true,
+    confidenceScore: 0.8,
+    version: '1',
+  },
+}
+
+const marketingState = (overrides: Partial<MarketingState> = {}) =>
+  ({
+    companyName: 'Acme',
+    industry: 'other',
+    otherIndustry: 'Footwear',
+    companySize: 'large',
+    uvp: 'Shoes that fit',
+    prodSvc: [{ name: 'Sneakers' }, { name: '' }],
+    goals: ['awareness'],
+    brandVoice: { personality: ['Upbeat'], tone: ['warm'], style: '' },
+    ...overrides,
+  }) as unknown as MarketingState
+
+const channel = (name: string, priority: ChannelData['priority']) =>
+  ({ id: name, name, priority }) as ChannelData
+
+/**
+ * A localStorage stand-in holding the given JSON blobs
+ */
+const storageWith = (items: Record<string, unknown>): Storage => {
+  const values = new Map(
+    Object.entries(items).map(([key, value]) => [
+      key,
+      typeof value === 'string' ? value : JSON.stringify(value),
+    ])
+  )
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => values.set(key, value),
+    removeItem: (key: string) => values.delete(key),
+    clear: () => values.clear(),
+    key: (index: number) => [...values.keys()][index] ?? null,
+    get length() {
+      return values.size
+    },
+  } as Storage
+}
+
+describe('migrateContext', () => {
+  it('upgrades a 1.x context to the current version', () => {
+    const context = migrateContext({
+      companyInfo: { companyName: 'Acme', industry: 'Retail', size: 'large' },
+      brandVoice: 'Plain spoken',
+      targetAudience: 'Runners',
+      brandDNA: { brandTone: { tone: 'friendly', communicationStyle: 'chatty' } },
+      createdAt: '2025-01-01T00:00:00Z',
+    })
+
+    expect(context.company).toEqual({
+      name: 'Acme',
+      industry: 'Retail',
+      size: 'enterprise',
+      description: '',
+    })
+    expect(context.brandDNA?.targetAudience?.demographics).toBe('Runners')
+    expect(context.brandDNA?.brandTone).toEqual({
+      tone: 'friendly',
+      communicationStyle: 'conversational',
+      styleDescription: 'Plain spoken',
+    })
+    expect(context.metadata).toMatchObject({
+      version: SLOTTED_CONTEXT_VERSION,
+      createdAt: '2025-01-01T00:00:00Z',
+    })
+    expect(context).not.toHaveProperty('companyInfo')
+  })
+
+  it('leaves a current context as it is', () => {
+    const current = {
+      company: { name: 'Acme', industry: 'Retail', size: 'small', description: 'Shoes' },
+      metadata: { version: SLOTTED_CONTEXT_VERSION, createdAt: 'a', updatedAt: 'b' },
+    }
+    expect(migrateContext(current)).toEqual(current)
+  })
+
+  it('rejects blobs that are not objects', () => {
+    expect(() => migrateContext(null)).toThrow('JSON object')
+    expect(() => migrateContext([])).toThrow('JSON object')
+  })
+})
+
+describe('fromCompanyDNA', () => {
+  it('lets the DNA win and keeps chosen channels', () => {
+    const context = fromCompanyDNA(DNA, {
+      company: { name: 'Old', industry: '', size: 'small', description: '' },
+      marketingGoals: { channels: { primary: ['email'] } },
+    })
+
+    expect(context.company?.name).toBe('Acme')
+    expect(context.brandDNA?.brandTone).toMatchObject({
+      tone: 'friendly',
+      communicationStyle: 'conversational',
+      styleDescription: 'Warm and plain',
+    })
+    expect(context.marketingGoals?.channels?.primary).toEqual(['email'])
+    expect(context.metadata?.migratedFrom).toEqual([CONTEXT_STORAGE_KEYS.companyDNA])
+  })
+})
+
+describe('fromMarketingState', () => {
+  it('fills gaps and keeps values the context already has', () => {
+    const context = fromMarketingState(marketingState(), {
+      brandDNA: { valuePropositions: ['Existing'] },
+    })
+
+    expect(context.company).toMatchObject({ industry: 'Footwear', size: 'enterprise' })
+    expect(context.brandDNA?.valuePropositions).toEqual(['Existing'])
+    expect(context.brandDNA?.coreOfferings).toEqual(['Sneakers'])
+    expect(context.brandDNA?.brandTone?.styleDescription).toBeUndefined()
+    expect(context.marketingGoals?.primaryGoals).toEqual(['awareness'])
+  })
+})
+
+describe('fromChannelStore', () => {
+  it('groups channels by priority unless the context has its own', () => {
+    const channels = [
+      channel('instagram', 'primary'),
+      channel('tiktok', 'experimental'),
+      channel('email', 'secondary'),
+      channel('fax', ''),
+    ]
+
+    expect(fromChannelStore(channels).marketingGoals?.channels).toEqual({
+      primary: ['instagram'],
+      secondary: ['email'],
+      experimental: ['tiktok'],
+    })
+    const kept = fromChannelStore(channels, { marketingGoals: { channels: { primary: ['blog'] } } })
+    expect(kept.marketingGoals?.channels?.primary).toEqual(['blog'])
+  })
+})
+
+describe('loadStoredContext', () => {
+  it('returns null when nothing is stored', () => {
+    expect(loadStoredContext(storageWith({}))).toBeNull()
+  })
+
+  it('folds the legacy blobs into the context once', () => {
+    const storage = storageWith({
+      [CONTEXT_STORAGE_KEYS.companyDNA]: DNA,
+      [CONTEXT_STORAGE_KEYS.marketingState]: marketingState({ companyName: 'Ignored' }),
+      [CONTEXT_STORAGE_KEYS.channelStore]: {
+        state: { channels: [channel('linkedin', 'secondary')] },
+      },
+    })
+
+    const context = loadStoredContext(storage)
+    expect(context?.company?.name).toBe('Acme')
+    expect(context?.marketingGoals?.channels?.secondary).toEqual(['linkedin'])
+    expect(context?.metadata?.migratedFrom).toEqual([
+      CONTEXT_STORAGE_KEYS.companyDNA,
+      CONTEXT_STORAGE_KEYS.marketingState,
+      CONTEXT_STORAGE_KEYS.channelStore,
+    ])
+
+    // A context already folded from the DNA isn't overwritten by it again
+    const saved = storageWith({
+      [CONTEXT_STORAGE_KEYS.context]: {
+        ...context,
+        company: { ...context?.company, name: 'Edited' },
+      },
+      [CONTEXT_STORAGE_KEYS.companyDNA]: DNA,
+    })
+    expect(loadStoredContext(saved)?.company?.name).toBe('Edited')
+  })
+
+  it('reads per-workspace keys and skips unreadable blobs', () => {
+    const storage = storageWith({
+      'ws-1:slotted_context': '{not json',
+      [`ws-1:${CONTEXT_STORAGE_KEYS.companyDNA}`]: DNA,
+      [CONTEXT_STORAGE_KEYS.companyDNA]: { ...DNA, company: { ...DNA.company, name: 'Other' } },
+    })
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+    expect(loadStoredContext(storage, (key) => `ws-1:${key}`)?.company?.name).toBe('Acme')
+    expect(warn).toHaveBeenCalledOnce()
+    warn.mockRestore()
+  })
+})
@@ -0,0 +1,340 @@
+import type { CompanyDNA } from '../services/ai/modern-ai-orchestrator'
+import type { ChannelData, MarketingState } from '../types/marketing'
+import {
+  SLOTTED_CONTEXT_VERSION,
+  type SlottedContext,
+  SlottedContextSchema,
+} from './slottedContext'
+
+/**
+ * localStorage keys that have historically held pieces of company context.
+ */
+export const CONTEXT_STORAGE_KEYS = {
+  context: 'slotted_context',
+  companyDNA: 'slotted_company_dna_v2',
+  marketingState: 'slotted_marketing_state',
+  channelStore: 'slotted_channel_store',
+} as const
+
+interface ContextMigration {
+  version: string
+  description: string
+  migrate: (context: Record<string, any>) => Record<string, any>
+}
+
+const compareVersions = (a: string, b: string): number => {
+  const left = a.split('.').map((part) => Number.parseInt(part, 10) || 0)
+  const right = b.split('.').map((part) => Number.parseInt(part, 10) || 0)
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+const COMMUNICATION_STYLES = ['formal', 'casual', 'conversational', 'technical']
+
+const TONE_TO_COMMUNICATION_STYLE: Record<string, string> = {
+  professional: 'formal',
+  authoritative: 'formal',
+  friendly: 'conversational',
+  casual: 'casual',
+  technical: 'technical',
+}
+
+const normalizeCompanySize = (size?: string): NonNullable<SlottedContext['company']>['size'] => {
+  if (size === 'large') return 'enterprise'
+  if (size === 'startup' || size === 'small' || size === 'medium' || size === 'enterprise') {
+    return size
+  }
+  return 'small'
+}
+
+/**
+ * Ordered schema migrations. Each step upgrades a context written by any
+ * earlier version to the step's version.
+ */
+const CONTEXT_MIGRATIONS: ContextMigration[] = [
+  {
+    version: '2.0.0',
+    description: 'Fold companyInfo and flat legacy fields into company and brandDNA',
+    migrate: (context) => {
+      const { companyInfo, companyName, industry, brandVoice, targetAudience, ...rest } = context
+
+      const company = {
+        name: rest.company?.name || companyInfo?.companyName || companyName || '',
+        industry: rest.company?.industry || companyInfo?.industry || industry || '',
+        size: normalizeCompanySize(rest.company?.size || companyInfo?.size),
+        description: rest.company?.description || companyInfo?.description || '',
+        website: rest.company?.website || companyInfo?.website,
+      }
+
+      const brandDNA = { ...rest.brandDNA }
+      if (typeof brandVoice === 'string' && brandVoice) {
+        brandDNA.brandTone = {
+          ...brandDNA.brandTone,
+          styleDescription: brandDNA.brandTone?.styleDescription || brandVoice,
+        }
+      }
+      if (typeof targetAudience === 'string' && targetAudience) {
+        brandDNA.targetAudience = {
+          ...brandDNA.targetAudience,
+          demographics: brandDNA.targetAudience?.demographics || targetAudience,
+        }
+      }
+
+      return company.name ? { ...rest, company, brandDNA } : { ...rest, brandDNA }
+    },
+  },
+  {
+    version: '3.0.0',
+    description: 'Normalize brand tone and move timestamps into metadata',
+    migrate: (context) => {
+      const brandTone = context.brandDNA?.brandTone
+      const next = { ...context }
+
+      if (
+        brandTone?.communicationStyle &&
+        !COMMUNICATION_STYLES.includes(brandTone.communicationStyle)
+      ) {
+        next.brandDNA = {
+          ...context.brandDNA,
+          brandTone: {
+            ...brandTone,
+            communicationStyle: TONE_TO_COMMUNICATION_STYLE[brandTone.tone] || undefined,
+            styleDescription: brandTone.styleDescription || brandTone.communicationStyle,
+          },
+        }
+      }
+
+      next.metadata = {
+        ...context.metadata,
+        createdAt: context.metadata?.createdAt || context.createdAt || new Date().toISOString(),
+        updatedAt: context.metadata?.updatedAt || context.updatedAt || new Date().toISOString(),
+      }
+
+      return next
+    },
+  },
+]
+
+/**
+ * Upgrade a raw context blob of any version to the current schema and validate it.
+ */
+export function migrateContext(raw: unknown): SlottedContext {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Context must be a JSON object')
+  }
+
+  let context = raw as Record<string, any>
+  const fromVersion: string = context.metadata?.version || '1.0.0'
+
+  for (const migration of CONTEXT_MIGRATIONS) {
+    if (compareVersions(fromVersion, migration.version) < 0) {
+      context = migration.migrate(context)
+    }
+  }
+
+  return SlottedContextSchema.parse({
+    ...context,
+    metadata: {
+      ...context.metadata,
+      version: SLOTTED_CONTEXT_VERSION,
+    },
+  })
+}
+
+const withMigrationSource = (context: SlottedContext, source: string): SlottedContext => ({
+  ...context,
+  metadata: {
+    ...context.metadata,
+    version: SLOTTED_CONTEXT_VERSION,
+    migratedFrom: Array.from(new Set([...(context.metadata?.migratedFrom || []), source])),
+  },
+})
+
+const nonEmpty = <T>(values?: T[]): T[] | undefined =>
+  values && values.length > 0 ? values : undefined
+
+/**
+ * Merge extracted Company DNA into a context. DNA values win, since they are
+ * the most recent analysis of the company.
+ */
+export function fromCompanyDNA(dna: CompanyDNA, base: SlottedContext = {}): SlottedContext {
+  const { brandVoice, ...brandDNA } = dna.brandDNA
+
+  return withMigrationSource(
+    {
+      ...base,
+      company: { ...dna.company },
+      brandDNA: {
+        ...base.brandDNA,
+        ...brandDNA,
+        brandTone: {
+          ...base.brandDNA?.brandTone,
+          personality: brandVoice.personality,
+          tone: brandVoice.tone,
+          communicationStyle: TONE_TO_COMMUNICATION_STYLE[brandVoice.tone] as
+            | 'formal'
+            | 'casual'
+            | 'conversational'
+            | 'technical',
+          styleDescription: brandVoice.communicationStyle,
+        },
+      },
+      gtmStrategy: {
+        ...base.gtmStrategy,
+        competitiveAdvantage: dna.marketingInsights.competitiveAdvantage,
+        marketPosition: dna.marketingInsights.marketPosition,
+      },
+      contentPreferences: {
+        ...base.contentPreferences,
+        contentThemes: dna.marketingInsights.contentThemes,
+      },
+      marketingGoals: {
+        ...base.marketingGoals,
+        channels: {
+          ...base.marketingGoals?.channels,
+          primary:
+            nonEmpty(base.marketingGoals?.channels?.primary) ||
+            dna.marketingInsights.recommendedChannels,
+        },
+      },
+      metadata: {
+        ...base.metadata,
+        version: SLOTTED_CONTEXT_VERSION,
+        dnaExtraction: {
+          extractedAt: dna.metadata.extractedAt,
+          websiteAnalyzed: dna.metadata.websiteAnalyzed,
+          confidenceScore: dna.metadata.confidenceScore,
+        },
+      },
+    },
+    CONTEXT_STORAGE_KEYS.companyDNA
+  )
+}
+
+/**
+ * Fill gaps in a context from the onboarding marketing state. Values already
+ * present in the context are kept.
+ */
+export function fromMarketingState(
+  state: MarketingState,
+  base: SlottedContext = {}
+): SlottedContext {
+  const industry = state.industry === 'other' ? state.otherIndustry : state.industry
+
+  return withMigrationSource(
+    {
+      ...base,
+      company: base.company || {
+        name: state.companyName,
+        industry: industry || '',
+        size: normalizeCompanySize(state.companySize),
+        description: state.uvp || '',
+        website: state.website,
+      },
+      brandDNA: {
+        ...base.brandDNA,
+        valuePropositions:
+          nonEmpty(base.brandDNA?.valuePropositions) || (state.uvp ? [state.uvp] : undefined),
+        coreOfferings:
+          nonEmpty(base.brandDNA?.coreOfferings) ||
+          nonEmpty(state.prodSvc?.map((product) => product.name).filter(Boolean)),
+        targetAudience: base.brandDNA?.targetAudience || {
+          demographics: state.targetAudience?.demographics,
+          psychographics: state.targetAudience?.psychographics,
+          painPoints: state.targetAudience?.painPoints,
+        },
+        brandTone: base.brandDNA?.brandTone || {
+          personality: state.brandVoice?.personality,
+          voiceAttributes: state.brandVoice?.tone,
+          styleDescription: state.brandVoice?.style || undefined,
+        },
+      },
+      marketingGoals: {
+        ...base.marketingGoals,
+        primaryGoals: nonEmpty(base.marketingGoals?.primaryGoals) || nonEmpty(state.goals),
+      },
+    },
+    CONTEXT_STORAGE_KEYS.marketingState
+  )
+}
+
+/**
+ * Fill channel priorities from the persisted channel store when the context
+ * has none of its own.
+ */
+export function fromChannelStore(
+  channels: ChannelData[],
+  base: SlottedContext = {}
+): SlottedContext {
+  const byPriority = (priority: ChannelData['priority']) =>
+    channels.filter((channel) => channel.priority === priority).map((channel) => channel.name)
+
+  const existing = base.marketingGoals?.channels
+  return withMigrationSource(
+    {
+      ...base,
+      marketingGoals: {
+        ...base.marketingGoals,
+        channels: {
+          primary: nonEmpty(existing?.primary) || byPriority('primary'),
+          secondary: nonEmpty(existing?.secondary) || byPriority('secondary'),
+          experimental: nonEmpty(existing?.experimental) || byPriority('experimental'),
+        },
+      },
+    },
+    CONTEXT_STORAGE_KEYS.channelStore
+  )
+}
+
+const readJSON = (storage: Storage, key: string): any => {
+  const stored = storage.getItem(key)
+  if (!stored) return null
+
+  try {
+    return JSON.parse(stored)
+  } catch (error) {
+    console.warn(`Ignoring unreadable ${key} blob:`, error)
+    return null
+  }
+}
+
+/**
+ * Load the unified context, upgrading the main context blob and folding in
+ * the legacy Company DNA, marketing state and channel store blobs.
+ * `scopeKey` maps each storage key to its per-workspace key.
+ */
+export function loadStoredContext(
+  storage: Storage = localStorage,
+  scopeKey: (key: string) => string = (key) => key
+): SlottedContext | null {
+  const rawContext = readJSON(storage, scopeKey(CONTEXT_STORAGE_KEYS.context))
+  const companyDNA = readJSON(storage, scopeKey(CONTEXT_STORAGE_KEYS.companyDNA))
+  const marketingState = readJSON(storage, scopeKey(CONTEXT_STORAGE_KEYS.marketingState))
+  const channelStore = readJSON(storage, scopeKey(CONTEXT_STORAGE_KEYS.channelStore))
+
+  if (!rawContext && !companyDNA && !marketingState?.companyName) {
+    return null
+  }
+
+  let context: SlottedContext = rawContext ? migrateContext(rawContext) : {}
+  const migratedFrom = context.metadata?.migratedFrom || []
+
+  if (companyDNA?.company && !migratedFrom.includes(CONTEXT_STORAGE_KEYS.companyDNA)) {
+    context = fromCompanyDNA(companyDNA, context)
+  }
+  if (marketingState?.companyName && !migratedFrom.includes(CONTEXT_STORAGE_KEYS.marketingState)) {
+    context = fromMarketingState(marketingState, context)
+  }
+  if (
+    channelStore?.state?.channels?.length &&
+    !migratedFrom.includes(CONTEXT_STORAGE_KEYS.channelStore)
+  ) {
+    context = fromChannelStore(channelStore.state.channels, context)
+  }
+
+  return migrateContext(context)
+}
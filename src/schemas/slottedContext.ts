@@ -1,365 +1,499 @@
-export interface SlottedContext {
-  // Backward compatibility for existing components
-  companyName?: string
-  industry?: string
-  brandVoice?: string
-  targetAudience?: string
-  
-  company?: {
-    name: string
-    industry: string
-    size: 'startup' | 'small' | 'medium' | 'enterprise'
-    description: string
-    website?: string
-  }
-  
-  // New enhanced structure
-  companyInfo?: {
-    companyName: string
-    industry: string
-    size: 'startup' | 'small' | 'medium' | 'enterprise'
-    description: string
-    website?: string
-  }
-  
-  targetSegments?: {
-    primarySegment?: {
-      name: string
-      description?: string
-    }
-  }
-  brandDNA?: {
-    valuePropositions?: string[]
-    coreOfferings?: string[]
-    targetAudience?: {
-      demographics?: string
-      psychographics?: string
-      painPoints?: string[]
-      impact?: string
-    }
-    brandTone?: {
-      personality?: string[]
-      voiceAttributes?: string[]
-      communicationStyle?: 'formal' | 'casual' | 'conversational' | 'technical'
-    }
-    brandColors?: {
-      primary?: string
-      secondary?: string
-      accent?: string
-    }
-  }
-  marketingGoals?: {
-    primaryGoals?: string[]
-    kpis?: string[]
-    cadence?: 'daily' | 'weekly' | 'bi-weekly' | 'monthly'
-    budget?: string
-    channels?: {
-      primary?: string[]
-      secondary?: string[]
-      experimental?: string[]
-    }
-  }
-  gtmStrategy?: {
-    segments?: Array<{
-      name: string
-      description: string
-      channels: string[]
-      messaging: string
-    }>
-    competitiveAdvantage?: string
-    marketPosition?: string
-  }
-  contentPreferences?: {
-    contentTypes?: string[]
-    lengthPreferences?: {
-      blog?: number
-      social?: number
-      email?: number
-    }
-    styleGuidelines?: string[]
-  }
-  aiPersona?: {
-    personalityTraits?: string[]
-    communicationPattern?: string
-    knowledgeAreas?: string[]
-    constraints?: string[]
-  }
-  // Enhanced features from improved UX
-  competitiveAnalysis?: {
-    competitors: Array<{
-      name: string
-      website: string
-      strengths: string[]
-      weaknesses: string[]
-      marketPosition: string
-    }>
-    swotAnalysis: {
-      strengths: string[]
-      weaknesses: string[]
-      opportunities: string[]
-      threats: string[]
-    }
-    marketGaps: string[]
-  }
-  pricingStrategy?: {
-    model: 'subscription' | 'one-time' | 'usage-based' | 'freemium' | 'tiered'
-    tiers: Array<{
-      name: string
-      price: number
-      features: string[]
-      targetSegment: string
-    }>
-    valueProposition: string
-    competitivePricing: string[]
-  }
-  channelConfiguration?: {
-    primary: Array<{
-      name: string
-      priority: 'high' | 'medium' | 'low'
-      audience: string
-      contentTypes: string[]
-      frequency: string
-    }>
-    journeyMap: {
-      awareness: string[]
-      consideration: string[]
-      decision: string[]
-      retention: string[]
-    }
-    integrations: string[]
-  }
-  successMetrics?: {
-    metrics: Array<{
-      id: string
-      name: string
-      category: string
-      unit: string
-      currentValue?: string
-      targetValue?: string
-      frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly'
-      stages: string[]
-      isCustom?: boolean
-    }>
-    framework: string
-    reviewFrequency: 'weekly' | 'monthly' | 'quarterly'
-  }
-  calendarScope?: {
-    timeframe: 'monthly' | 'quarterly' | 'yearly' | 'custom'
-    startDate: string
-    endDate: string
-    planningHorizon: '3-months' | '6-months' | '12-months' | 'custom'
-    campaignFrequency: 'weekly' | 'bi-weekly' | 'monthly' | 'quarterly'
-    focusAreas: string[]
-    businessCycle: 'retail' | 'b2b' | 'saas' | 'ecommerce' | 'seasonal' | 'evergreen'
-    reviewCycle: 'weekly' | 'monthly' | 'quarterly'
-    budgetCycle: 'monthly' | 'quarterly' | 'yearly'
-  }
-  scopeMetrics?: {
-    durationDays: number
-    durationWeeks: number
-    estimatedCampaigns: number
-    focusAreaCount: number
-    appliedAt: string
-    selectedPreset?: string
-  }
-  retailCampaigns?: Array<{
-    id: string
-    title: string
-    description: string
-    retailWeeks: number[]
-    retailMonth: string
-    monthStructure: '4-week' | '5-week'
-    channels: string[]
-    budget: number
-    campaignType: 'awareness' | 'consideration' | 'conversion' | 'retention'
-    retailAdvantage: string
-    shoppingBehavior: string
-    kpis: string[]
-    promotionalTiming: string
-    yearOverYearTracking: string
-    quarter: number
-    year: number
-    generatedAt: string
-  }>
-  lastRetailCampaignGeneration?: string
-  integratedCampaigns?: any[]
-  lastIntegrationSync?: string
-  googleDriveIntegration?: {
-    connected: boolean
-    accountEmail?: string
-    rootFolderId?: string
-    folderStructure?: Array<{
-      id: string
-      name: string
-      type: 'folder'
-      color?: string
-    }>
-    syncStatus: 'idle' | 'syncing' | 'success' | 'error'
-    lastSyncAt?: string
-    permissions: string[]
-    collaborators?: string[]
-    completed?: boolean
-    completedAt?: string
-  }
-  contentPipeline?: {
-    configured: boolean
-    status: 'idle' | 'running' | 'paused'
-    contentItems?: Array<{
-      id: string
-      title: string
-      description: string
-      type: 'blog' | 'instagram' | 'facebook' | 'twitter' | 'linkedin' | 'email' | 'video' | 'image'
-      stage: 'ideas' | 'progress' | 'review' | 'scheduled' | 'published'
-      scheduledDate?: string
-      publishDate?: string
-      assignee: string
-      assigneeType: 'user' | 'ai' | 'team'
-      priority: 'low' | 'medium' | 'high'
-      campaign?: string
-      tags: string[]
-      aiGenerated: boolean
-      wordCount?: number
-      estimatedReadTime?: number
-      approvals: string[]
-      comments: number
-    }>
-    pipelineRules?: Array<{
-      id: string
-      name: string
-      description: string
-      contentType: string[]
-      trigger: 'schedule' | 'manual' | 'approval' | 'campaign'
-      actions: string[]
-      enabled: boolean
-    }>
-    qualityChecks?: Array<{
-      id: string
-      name: string
-      description: string
-      type: 'grammar' | 'brand' | 'seo' | 'readability' | 'tone'
-      enabled: boolean
-      threshold?: number
-    }>
-    completedAt?: string
-  }
-  marketingPlan?: {
-    configured: boolean
-    status: 'draft' | 'active' | 'paused' | 'completed'
-    campaigns?: Array<{
-      id: string
-      name: string
-      description: string
-      type: 'awareness' | 'consideration' | 'conversion' | 'retention'
-      startDate: string
-      endDate: string
-      budget: number
-      channels: string[]
-      content: Array<{
-        id: string
-        type: 'blog' | 'instagram' | 'facebook' | 'twitter' | 'linkedin' | 'email' | 'video' | 'image'
-        title: string
-        status: 'draft' | 'scheduled' | 'published'
-        scheduledDate?: string
-        platform?: string
-        metrics?: {
-          reach?: number
-          engagement?: number
-          clicks?: number
-          conversions?: number
-        }
-      }>
-      kpis: string[]
-      progress: number
-    }>
-    contentCalendar?: Array<{
-      id: string
-      date: string
-      time: string
-      platform: string
-      contentType: string
-      title: string
-      description: string
-      status: 'draft' | 'scheduled' | 'published' | 'failed'
-      campaignId?: string
-      metrics?: {
-        impressions?: number
-        engagement?: number
-        clicks?: number
-        shares?: number
-      }
-    }>
-    publishingIntegration?: {
-      platforms: Array<{
-        name: string
-        connected: boolean
-        status: 'healthy' | 'warning' | 'error'
-        lastSync?: string
-        accountInfo?: {
-          username?: string
-          followers?: number
-          verified?: boolean
-        }
-      }>
-      publishingQueue: Array<{
-        id: string
-        platform: string
-        contentId: string
-        scheduledTime: string
-        status: 'queued' | 'publishing' | 'published' | 'failed'
-        retryCount: number
-      }>
-      automationRules: Array<{
-        id: string
-        name: string
-        trigger: string
-        action: string
-        enabled: boolean
-      }>
-    }
-    performance?: {
-      overview: {
-        totalReach: number
-        totalEngagement: number
-        totalClicks: number
-        totalConversions: number
-        engagementRate: number
-        clickThroughRate: number
-        conversionRate: number
-        period: string
-      }
-      platformMetrics: Array<{
-        platform: string
-        reach: number
-        engagement: number
-        clicks: number
-        conversions: number
-        growthRate: number
-        topContent: Array<{
-          id: string
-          title: string
-          performance: number
-          type: string
-        }>
-      }>
-      trends: Array<{
-        metric: string
-        change: number
-        period: string
-        trend: 'up' | 'down' | 'stable'
-      }>
-    }
-    completedAt?: string
-  }
-  currentPhase?: 'welcome' | 'onboarding' | 'mvp1' | 'mvp2' | 'mvp3' | 'mvp4' | 'complete'
-  metadata?: {
-    version?: string
-    createdAt?: string
-    updatedAt?: string
-    mcpCompatible?: boolean
-  }
-  createdAt?: string
-  updatedAt?: string
-}
+import { z } from 'zod'
+
+/**
+ * Current version of the unified Slotted context. Bump this whenever the
+ * schema changes shape and add a matching step to `contextMigrations.ts`.
+ */
+export const SLOTTED_CONTEXT_VERSION = '3.0.0'
+
+const CompanySizeSchema = z.enum(['startup', 'small', 'medium', 'enterprise'])
+const ContentTypeSchema = z.enum([
+  'blog',
+  'instagram',
+  'facebook',
+  'twitter',
+  'linkedin',
+  'email',
+  'video',
+  'image',
+])
+
+export const CompanyProfileSchema = z.object({
+  name: z.string(),
+  industry: z.string(),
+  size: CompanySizeSchema,
+  description: z.string(),
+  website: z.string().optional(),
+})
+
+export const BrandToneSchema = z.object({
+  personality: z.array(z.string()).optional(),
+  voiceAttributes: z.array(z.string()).optional(),
+  communicationStyle: z.enum(['formal', 'casual', 'conversational', 'technical']).optional(),
+  tone: z.enum(['professional', 'friendly', 'authoritative', 'casual', 'technical']).optional(),
+  styleDescription: z.string().optional(),
+})
+
+export const BrandDNASchema = z.object({
+  valuePropositions: z.array(z.string()).optional(),
+  coreOfferings: z.array(z.string()).optional(),
+  targetAudience: z
+    .object({
+      demographics: z.string().optional(),
+      psychographics: z.string().optional(),
+      painPoints: z.array(z.string()).optional(),
+      impact: z.string().optional(),
+    })
+    .optional(),
+  brandTone: BrandToneSchema.optional(),
+  brandColors: z
+    .object({
+      primary: z.string().optional(),
+      secondary: z.string().optional(),
+      accent: z.string().optional(),
+    })
+    .optional(),
+})
+
+export const MarketingGoalsSchema = z.object({
+  primaryGoals: z.array(z.string()).optional(),
+  kpis: z.array(z.string()).optional(),
+  cadence: z.enum(['daily', 'weekly', 'bi-weekly', 'monthly']).optional(),
+  budget: z.string().optional(),
+  channels: z
+    .object({
+      primary: z.array(z.string()).optional(),
+      secondary: z.array(z.string()).optional(),
+      experimental: z.array(z.string()).optional(),
+    })
+    .optional(),
+})
+
+export const GTMStrategySchema = z.object({
+  segments: z
+    .array(
+      z.object({
+        name: z.string(),
+        description: z.string(),
+        channels: z.array(z.string()),
+        messaging: z.string(),
+      })
+    )
+    .optional(),
+  competitiveAdvantage: z.string().optional(),
+  marketPosition: z.string().optional(),
+})
+
+export const ContentPreferencesSchema = z.object({
+  contentTypes: z.array(z.string()).optional(),
+  contentThemes: z.array(z.string()).optional(),
+  lengthPreferences: z
+    .object({
+      blog: z.number().optional(),
+      social: z.number().optional(),
+      email: z.number().optional(),
+    })
+    .optional(),
+  styleGuidelines: z.array(z.string()).optional(),
+})
+
+export const AIPersonaSchema = z.object({
+  personalityTraits: z.array(z.string()).optional(),
+  communicationPattern: z.string().optional(),
+  knowledgeAreas: z.array(z.string()).optional(),
+  constraints: z.array(z.string()).optional(),
+})
+
+const CompetitiveAnalysisSchema = z.object({
+  competitors: z.array(
+    z.object({
+      name: z.string(),
+      website: z.string(),
+      strengths: z.array(z.string()),
+      weaknesses: z.array(z.string()),
+      marketPosition: z.string(),
+    })
+  ),
+  swotAnalysis: z.object({
+    strengths: z.array(z.string()),
+    weaknesses: z.array(z.string()),
+    opportunities: z.array(z.string()),
+    threats: z.array(z.string()),
+  }),
+  marketGaps: z.array(z.string()),
+})
+
+const PricingStrategySchema = z.object({
+  model: z.enum(['subscription', 'one-time', 'usage-based', 'freemium', 'tiered']),
+  tiers: z.array(
+    z.object({
+      name: z.string(),
+      price: z.number(),
+      features: z.array(z.string()),
+      targetSegment: z.string(),
+    })
+  ),
+  valueProposition: z.string(),
+  competitivePricing: z.array(z.string()),
+})
+
+const ChannelConfigurationSchema = z.object({
+  primary: z.array(
+    z.object({
+      name: z.string(),
+      priority: z.enum(['high', 'medium', 'low']),
+      audience: z.string(),
+      contentTypes: z.array(z.string()),
+      frequency: z.string(),
+    })
+  ),
+  journeyMap: z.object({
+    awareness: z.array(z.string()),
+    consideration: z.array(z.string()),
+    decision: z.array(z.string()),
+    retention: z.array(z.string()),
+  }),
+  integrations: z.array(z.string()),
+})
+
+const SuccessMetricsSchema = z.object({
+  metrics: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      category: z.string(),
+      unit: z.string(),
+      currentValue: z.string().optional(),
+      targetValue: z.string().optional(),
+      frequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly']),
+      stages: z.array(z.string()),
+      isCustom: z.boolean().optional(),
+    })
+  ),
+  framework: z.string(),
+  reviewFrequency: z.enum(['weekly', 'monthly', 'quarterly']),
+})
+
+const CalendarScopeSchema = z.object({
+  timeframe: z.enum(['monthly', 'quarterly', 'yearly', 'custom']),
+  startDate: z.string(),
+  endDate: z.string(),
+  planningHorizon: z.enum(['3-months', '6-months', '12-months', 'custom']),
+  campaignFrequency: z.enum(['weekly', 'bi-weekly', 'monthly', 'quarterly']),
+  focusAreas: z.array(z.string()),
+  businessCycle: z.enum(['retail', 'b2b', 'saas', 'ecommerce', 'seasonal', 'evergreen']),
+  reviewCycle: z.enum(['weekly', 'monthly', 'quarterly']),
+  budgetCycle: z.enum(['monthly', 'quarterly', 'yearly']),
+})
+
+const ScopeMetricsSchema = z.object({
+  durationDays: z.number(),
+  durationWeeks: z.number(),
+  estimatedCampaigns: z.number(),
+  focusAreaCount: z.number(),
+  appliedAt: z.string(),
+  selectedPreset: z.string().optional(),
+})
+
+const RetailCampaignSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  retailWeeks: z.array(z.number()),
+  retailMonth: z.string(),
+  monthStructure: z.enum(['4-week', '5-week']),
+  channels: z.array(z.string()),
+  budget: z.number(),
+  campaignType: z.enum(['awareness', 'consideration', 'conversion', 'retention']),
+  retailAdvantage: z.string(),
+  shoppingBehavior: z.string(),
+  kpis: z.array(z.string()),
+  promotionalTiming: z.string(),
+  yearOverYearTracking: z.string(),
+  quarter: z.number(),
+  year: z.number(),
+  generatedAt: z.string(),
+})
+
+const GoogleDriveIntegrationSchema = z.object({
+  connected: z.boolean(),
+  accountEmail: z.string().optional(),
+  rootFolderId: z.string().optional(),
+  folderStructure: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        type: z.literal('folder'),
+        color: z.string().optional(),
+      })
+    )
+    .optional(),
+  syncStatus: z.enum(['idle', 'syncing', 'success', 'error']),
+  lastSyncAt: z.string().optional(),
+  permissions: z.array(z.string()),
+  collaborators: z.array(z.string()).optional(),
+  completed: z.boolean().optional(),
+  completedAt: z.string().optional(),
+})
+
+const ContentPipelineSchema = z.object({
+  configured: z.boolean(),
+  status: z.enum(['idle', 'running', 'paused']),
+  contentItems: z
+    .array(
+      z.object({
+        id: z.string(),
+        title: z.string(),
+        description: z.string(),
+        type: ContentTypeSchema,
+        stage: z.enum(['ideas', 'progress', 'review', 'scheduled', 'published']),
+        scheduledDate: z.string().optional(),
+        publishDate: z.string().optional(),
+        assignee: z.string(),
+        assigneeType: z.enum(['user', 'ai', 'team']),
+        priority: z.enum(['low', 'medium', 'high']),
+        campaign: z.string().optional(),
+        tags: z.array(z.string()),
+        aiGenerated: z.boolean(),
+        wordCount: z.number().optional(),
+        estimatedReadTime: z.number().optional(),
+        approvals: z.array(z.string()),
+        comments: z.number(),
+      })
+    )
+    .optional(),
+  pipelineRules: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        description: z.string(),
+        contentType: z.array(z.string()),
+        trigger: z.enum(['schedule', 'manual', 'approval', 'campaign']),
+        actions: z.array(z.string()),
+        enabled: z.boolean(),
+      })
+    )
+    .optional(),
+  qualityChecks: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        description: z.string(),
+        type: z.enum(['grammar', 'brand', 'seo', 'readability', 'tone']),
+        enabled: z.boolean(),
+        threshold: z.number().optional(),
+      })
+    )
+    .optional(),
+  completedAt: z.string().optional(),
+})
+
+const MarketingPlanSchema = z.object({
+  configured: z.boolean(),
+  status: z.enum(['draft', 'active', 'paused', 'completed']),
+  campaigns: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        description: z.string(),
+        type: z.enum(['awareness', 'consideration', 'conversion', 'retention']),
+        startDate: z.string(),
+        endDate: z.string(),
+        budget: z.number(),
+        channels: z.array(z.string()),
+        content: z.array(
+          z.object({
+            id: z.string(),
+            type: ContentTypeSchema,
+            title: z.string(),
+            status: z.enum(['draft', 'scheduled', 'published']),
+            scheduledDate: z.string().optional(),
+            platform: z.string().optional(),
+            metrics: z
+              .object({
+                reach: z.number().optional(),
+                engagement: z.number().optional(),
+                clicks: z.number().optional(),
+                conversions: z.number().optional(),
+              })
+              .optional(),
+          })
+        ),
+        kpis: z.array(z.string()),
+        progress: z.number(),
+      })
+    )
+    .optional(),
+  contentCalendar: z
+    .array(
+      z.object({
+        id: z.string(),
+        date: z.string(),
+        time: z.string(),
+        platform: z.string(),
+        contentType: z.string(),
+        title: z.string(),
+        description: z.string(),
+        status: z.enum(['draft', 'scheduled', 'published', 'failed']),
+        campaignId: z.string().optional(),
+        metrics: z
+          .object({
+            impressions: z.number().optional(),
+            engagement: z.number().optional(),
+            clicks: z.number().optional(),
+            shares: z.number().optional(),
+          })
+          .optional(),
+      })
+    )
+    .optional(),
+  publishingIntegration: z
+    .object({
+      platforms: z.array(
+        z.object({
+          name: z.string(),
+          connected: z.boolean(),
+          status: z.enum(['healthy', 'warning', 'error']),
+          lastSync: z.string().optional(),
+          accountInfo: z
+            .object({
+              username: z.string().optional(),
+              followers: z.number().optional(),
+              verified: z.boolean().optional(),
+            })
+            .optional(),
+        })
+      ),
+      publishingQueue: z.array(
+        z.object({
+          id: z.string(),
+          platform: z.string(),
+          contentId: z.string(),
+          scheduledTime: z.string(),
+          status: z.enum(['queued', 'publishing', 'published', 'failed']),
+          retryCount: z.number(),
+        })
+      ),
+      automationRules: z.array(
+        z.object({
+          id: z.string(),
+          name: z.string(),
+          trigger: z.string(),
+          action: z.string(),
+          enabled: z.boolean(),
+        })
+      ),
+    })
+    .optional(),
+  performance: z
+    .object({
+      overview: z.object({
+        totalReach: z.number(),
+        totalEngagement: z.number(),
+        totalClicks: z.number(),
+        totalConversions: z.number(),
+        engagementRate: z.number(),
+        clickThroughRate: z.number(),
+        conversionRate: z.number(),
+        period: z.string(),
+      }),
+      platformMetrics: z.array(
+        z.object({
+          platform: z.string(),
+          reach: z.number(),
+          engagement: z.number(),
+          clicks: z.number(),
+          conversions: z.number(),
+          growthRate: z.number(),
+          topContent: z.array(
+            z.object({
+              id: z.string(),
+              title: z.string(),
+              performance: z.number(),
+              type: z.string(),
+            })
+          ),
+        })
+      ),
+      trends: z.array(
+        z.object({
+          metric: z.string(),
+          change: z.number(),
+          period: z.string(),
+          trend: z.enum(['up', 'down', 'stable']),
+        })
+      ),
+    })
+    .optional(),
+  completedAt: z.string().optional(),
+})
+
+export const ContextMetadataSchema = z.object({
+  version: z.string(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+  mcpCompatible: z.boolean().optional(),
+  migratedFrom: z.array(z.string()).optional(),
+  dnaExtraction: z
+    .object({
+      extractedAt: z.string(),
+      websiteAnalyzed: z.boolean(),
+      confidenceScore: z.number().min(0).max(1),
+    })
+    .optional(),
+})
+
+/**
+ * The single source of truth for company, brand and planning context.
+ * Unknown top-level keys are preserved so feature modules can stash their
+ * own state without being stripped on save.
+ */
+export const SlottedContextSchema = z
+  .object({
+    company: CompanyProfileSchema.optional(),
+    targetSegments: z
+      .object({
+        primarySegment: z
+          .object({
+            name: z.string(),
+            description: z.string().optional(),
+          })
+          .optional(),
+      })
+      .optional(),
+    brandDNA: BrandDNASchema.optional(),
+    marketingGoals: MarketingGoalsSchema.optional(),
+    gtmStrategy: GTMStrategySchema.optional(),
+    contentPreferences: ContentPreferencesSchema.optional(),
+    aiPersona: AIPersonaSchema.optional(),
+    competitiveAnalysis: CompetitiveAnalysisSchema.optional(),
+    pricingStrategy: PricingStrategySchema.optional(),
+    channelConfiguration: ChannelConfigurationSchema.optional(),
+    successMetrics: SuccessMetricsSchema.optional(),
+    calendarScope: CalendarScopeSchema.optional(),
+    scopeMetrics: ScopeMetricsSchema.optional(),
+    retailCampaigns: z.array(RetailCampaignSchema).optional(),
+    lastRetailCampaignGeneration: z.string().optional(),
+    integratedCampaigns: z.array(z.any()).optional(),
+    lastIntegrationSync: z.string().optional(),
+    googleDriveIntegration: GoogleDriveIntegrationSchema.optional(),
+    contentPipeline: ContentPipelineSchema.optional(),
+    marketingPlan: MarketingPlanSchema.optional(),
+    currentPhase: z
+      .enum(['welcome', 'onboarding', 'mvp1', 'mvp2', 'mvp3', 'mvp4', 'complete'])
+      .optional(),
+    metadata: ContextMetadataSchema.optional(),
+    createdAt: z.string().optional(),
+    updatedAt: z.string().optional(),
+  })
+  .passthrough()
+
+export type SlottedContext = z.infer<typeof SlottedContextSchema>
+export type ContextMetadata = z.infer<typeof ContextMetadataSchema>
 
 export const defaultSlottedContext = {
   brandDNA: {
@@ -1,8 +1,14 @@
-import { ChatAnthropic } from '@langchain/anthropic'
-import type { BaseLanguageModel } from '@langchain/core/language_models/base'
-import { HumanMessage, SystemMessage } from '@langchain/core/messages'
-import { ChatOpenAI } from '@langchain/openai'
 import { mcpContextEngine } from '../mcp/contextEngine'
+import {
+  type AIProvider as ModelProvider,
+  createProvider,
+  createProviderChain,
+  mockProvider,
+  orderProviders,
+  providerChainFromEnv,
+  type TokenUsage,
+} from './providers'
+import { BudgetExceededError, usageTracker } from './usage'
 
 export type AIProvider = 'openai' | 'anthropic'
 export type AIModel = 'gpt-4o' | 'gpt-4' | 'claude-3-5-sonnet' | 'claude-3-haiku'
@@ -21,6 +27,8 @@ export interface ContentGenerationRequest {
   length?: number
   tone?: string
   customInstructions?: string
+  // Extra inputs for the mock provider, e.g. the number of topics wanted
+  params?: Record<string, unknown>
 }
 
 export interface ContentGenerationResponse {
@@ -30,43 +38,26 @@ export interface ContentGenerationResponse {
     estimatedReadTime: number
     generatedAt: string
     model: string
+    usage?: TokenUsage
   }
 }
 
 export class AIOrchestrator {
-  private models: Map<string, BaseLanguageModel> = new Map()
+  private models: Map<string, ModelProvider> = new Map()
   private defaultProvider: AIProvider = 'openai'
   private defaultModel: AIModel = 'gpt-4o'
 
   public configureProvider(config: AIConfig): void {
     const key = `${config.provider}-${config.model}`
 
-    let model: BaseLanguageModel
-
-    switch (config.provider) {
-      case 'openai':
-        model = new ChatOpenAI({
-          modelName: config.model,
-          openAIApiKey: config.apiKey,
-          temperature: config.temperature || 0.7,
-          maxTokens: config.maxTokens || 4000,
-        })
-        break
-
-      case 'anthropic':
-        model = new ChatAnthropic({
-          modelName: config.model,
-          anthropicApiKey: config.apiKey,
-          temperature: config.temperature || 0.7,
-          maxTokens: config.maxTokens || 4000,
-        })
-        break
-
-      default:
-        throw new Error(`Unsupported AI provider: ${config.provider}`)
-    }
-
-    this.models.set(key, model)
+    this.models.set(
+      key,
+      createProvider({
+        ...config,
+        temperature: config.temperature || 0.7,
+        maxTokens: config.maxTokens || 4000,
+      })
+    )
     console.log(`AI provider configured: ${key}`)
   }
 
@@ -75,17 +66,27 @@ export class AIOrchestrator {
     this.defaultModel = model
   }
 
-  private getModel(provider?: AIProvider, model?: AIModel): BaseLanguageModel {
+  /**
+   * The requested (or default) model first, then the other configured
+   * providers in chain order to fall back to
+   */
+  private getModel(provider?: AIProvider, model?: AIModel): ModelProvider {
     const targetProvider = provider || this.defaultProvider
     const targetModel = model || this.defaultModel
     const key = `${targetProvider}-${targetModel}`
 
-    const modelInstance = this.models.get(key)
-    if (!modelInstance) {
+    const target = this.models.get(key)
+    const fallbacks = orderProviders(
+      Array.from(this.models.entries())
+        .filter(([candidate]) => candidate !== key)
+        .map(([, instance]) => instance)
+    )
+
+    if (!target && fallbacks.length === 0) {
       throw new Error(`AI model not configured: ${key}. Please configure the provider first.`)
     }
 
-    return modelInstance
+    return createProviderChain(target ? [target, ...fallbacks] : fallbacks)
   }
 
   public async generateContent(
@@ -94,16 +95,16 @@ export class AIOrchestrator {
     model?: AIModel
   ): Promise<ContentGenerationResponse> {
     try {
-      const llm = this.getModel(provider, model)
+      const llm = usageTracker.meter(this.getModel(provider, model), request.type)
       const mcpContext = mcpContextEngine.getMCPPromptContext()
 
-      const systemPrompt = this.buildSystemPrompt(request.type, mcpContext)
-      const userPrompt = this.buildUserPrompt(request)
-
-      const messages = [new SystemMessage(systemPrompt), new HumanMessage(userPrompt)]
-
-      const response = await llm.invoke(messages)
-      const content = response.content.toString()
+      const response = await llm.generate({
+        system: this.buildSystemPrompt(request.type, mcpContext),
+        prompt: this.buildUserPrompt(request),
+        task: request.type,
+        params: request.params,
+      })
+      const content = response.content
 
       return {
         content,
@@ -111,10 +112,12 @@ export class AIOrchestrator {
           wordCount: content.split(' ').length,
           estimatedReadTime: Math.ceil(content.split(' ').length / 200),
           generatedAt: new Date().toISOString(),
-          model: `${provider || this.defaultProvider}-${model || this.defaultModel}`,
+          model: `${response.provider}-${response.model}`,
+          usage: response.usage,
         },
       }
     } catch (error) {
+      if (error instanceof BudgetExceededError) throw error
       console.error('Content generation failed:', error)
       throw new Error(
         `AI content generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -217,19 +220,27 @@ IMPORTANT GUIDELINES:
     const response = await this.generateContent({
       type: 'campaign-topics',
       customInstructions: `Generate exactly ${weeks} campaign topics that span a quarter. Each topic should be distinct, engaging, and build upon the previous ones to create a cohesive narrative arc.`,
+      params: { weeks },
+    })
+
+    const topics = this.parseTopics(response.content, weeks)
+    if (topics.length >= weeks) return topics
+
+    // Too few topics came back; fill the plan from the offline mock
+    const fallback = await mockProvider.generate({
+      prompt: 'campaign topics',
+      task: 'campaign-topics',
+      params: { weeks },
     })
+    return this.parseTopics(fallback.content, weeks)
+  }
 
-    const topics = response.content
+  private parseTopics(content: string, weeks: number): string[] {
+    return content
       .split('\n')
       .filter((line) => line.trim() && (line.includes('.') || line.includes('-')))
       .map((line) => line.replace(/^\d+\.?\s*[-•]?\s*/, '').trim())
       .slice(0, weeks)
-
-    return topics.length >= weeks ? topics : this.generateFallbackTopics(weeks)
-  }
-
-  private generateFallbackTopics(weeks: number): string[] {
-    return Array.from({ length: weeks }, (_, i) => `Campaign Topic ${i + 1}`)
   }
 
   public async generateBlogFromTopic(
@@ -284,7 +295,7 @@ IMPORTANT GUIDELINES:
   }
 
   public isConfigured(): boolean {
-    return this.models.size > 0
+    return this.models.size > 0 || providerChainFromEnv().includes('mock')
   }
 }
 
@@ -1,7 +1,30 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import { ChatAnthropic } from '@langchain/anthropic'
-import { ChatOpenAI } from '@langchain/openai'
 import { z } from 'zod'
+import { EntitlementError, entitlements } from '../payments/entitlements'
+import {
+  GenerationCancelledError,
+  type AIProvider as ModelProvider,
+  type ProviderConfig,
+  type TokenUsage,
+  createProvider,
+  createProviderChain,
+  orderProviders,
+  providerChainFromEnv,
+} from './providers'
+import { StructuredOutputError, generateStructured } from './structured'
+import { BudgetExceededError, usageTracker } from './usage'
+
+export { BudgetExceededError, EntitlementError, GenerationCancelledError, StructuredOutputError }
+
+/**
+ * Message to show when generation fails: budget, plan and validation errors
+ * explain themselves, anything else gets `fallback`
+ */
+export const generationErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof BudgetExceededError ||
+  error instanceof EntitlementError ||
+  error instanceof StructuredOutputError
+    ? error.message
+    : fallback
 
 // Modern AI provider configuration
 export const AIProviderSchema = z.enum(['openai', 'anthropic', 'google'])
@@ -71,9 +94,46 @@ export const CompanyDNASchema = z.object({
 
 export type CompanyDNA = z.infer<typeof CompanyDNASchema>
 
+export const BrandVoiceAnalysisSchema = z.object({
+  personality: z.array(z.string()),
+  tone: CompanyDNASchema.shape.brandDNA.shape.brandVoice.shape.tone,
+  communicationStyle: z.string(),
+  vocabulary: z.array(z.string()).default([]),
+  recommendations: z.array(z.string()).default([]),
+  confidenceScore: z.number().min(0).max(1),
+})
+
+export type BrandVoiceAnalysis = z.infer<typeof BrandVoiceAnalysisSchema>
+
+// The model's brand analysis; company name, website and metadata come from the input
+const BrandAnalysisSchema = z.object({
+  industry: z.string().optional(),
+  estimatedSize: CompanyDNASchema.shape.company.shape.size.optional(),
+  description: z.string().optional(),
+  brandDNA: CompanyDNASchema.shape.brandDNA,
+  marketingInsights: CompanyDNASchema.shape.marketingInsights,
+  confidenceScore: z.number().min(0).max(1),
+})
+
+type BrandAnalysis = z.infer<typeof BrandAnalysisSchema>
+
+// Model used when a provider is configured from environment variables
+const DEFAULT_MODELS: Record<AIProvider, AIModel> = {
+  anthropic: 'claude-3-5-sonnet-20241022',
+  openai: 'gpt-4o',
+  google: 'gemini-2.0-flash',
+}
+
+// Prefer Claude 3.5 Sonnet for brand analysis
+const PREFERRED_MODELS = [
+  'anthropic-claude-3-5-sonnet-20241022',
+  'openai-gpt-4o',
+  'google-gemini-2.0-flash',
+]
+
 export class ModernAIOrchestrator {
   private configs: Map<string, AIConfig> = new Map()
-  private models: Map<string, any> = new Map()
+  private providers: Map<string, ModelProvider> = new Map()
 
   /**
    * Configure AI provider with validation
@@ -85,42 +145,15 @@ export class ModernAIOrchestrator {
     const key = `${config.provider}-${config.model}`
     this.configs.set(key, validatedConfig)
 
-    // Initialize the appropriate model
-    let model: any
-
-    switch (config.provider) {
-      case 'openai':
-        model = new ChatOpenAI({
-          modelName: config.model,
-          openAIApiKey: config.apiKey,
-          temperature: config.temperature,
-          maxTokens: config.maxTokens,
-        })
-        break
-
-      case 'anthropic':
-        model = new ChatAnthropic({
-          modelName: config.model,
-          anthropicApiKey: config.apiKey,
-          temperature: config.temperature,
-          maxTokens: config.maxTokens,
-        })
-        break
-
-      case 'google':
-        model = new GoogleGenerativeAI(config.apiKey)
-        break
-
-      default:
-        throw new Error(`Unsupported AI provider: ${config.provider}`)
-    }
-
-    this.models.set(key, model)
+    // zod leaves fields optional in the inferred type without strictNullChecks
+    this.providers.set(key, createProvider(validatedConfig as ProviderConfig))
     console.log(`✅ Modern AI provider configured: ${key}`)
   }
 
   /**
-   * Extract company DNA from website URL and basic info
+   * Extract company DNA from website URL and basic info. Uses one of the
+   * workspace's monthly analyses; the website is only analyzed on plans that
+   * include it.
    */
   public async extractCompanyDNA(input: {
     companyName: string
@@ -129,6 +162,9 @@ export class ModernAIOrchestrator {
     description?: string
   }): Promise<CompanyDNA> {
     try {
+      if (input.website) await entitlements.assertWebsiteAnalysis()
+      await entitlements.consumeAnalysis()
+
       // 1. Scrape website if provided
       let websiteContent = ''
       let websiteAnalyzed = false
@@ -167,6 +203,13 @@ export class ModernAIOrchestrator {
 
       return companyDNA
     } catch (error) {
+      if (
+        error instanceof StructuredOutputError ||
+        error instanceof BudgetExceededError ||
+        error instanceof EntitlementError
+      ) {
+        throw error
+      }
       console.error('❌ Company DNA extraction failed:', error)
       throw new Error(
         `Failed to extract company DNA: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -207,9 +250,7 @@ export class ModernAIOrchestrator {
     websiteContent: string
     industry?: string
     description?: string
-  }): Promise<any> {
-    const model = this.getDefaultModel()
-
+  }): Promise<BrandAnalysis> {
     const prompt = `
 You are an expert brand strategist analyzing a company to extract comprehensive brand DNA.
 
@@ -267,136 +308,178 @@ ANALYSIS GUIDELINES:
 
 Return only valid JSON, no additional text.`
 
-    try {
-      const response = await model.invoke(prompt)
-      const content = response.content || response
+    return this.generateStructured({
+      prompt,
+      schema: BrandAnalysisSchema,
+      operation: 'extract-company-dna',
+    })
+  }
 
-      // Parse and validate the JSON response
-      const analysis = JSON.parse(content as string)
-      return analysis
-    } catch (error) {
-      console.error('❌ Brand analysis failed:', error)
-
-      // Return fallback analysis
-      return {
-        industry: input.industry || 'Technology',
-        estimatedSize: 'startup',
-        description:
-          input.description ||
-          `${input.companyName} is a company in the ${input.industry || 'technology'} industry.`,
-        brandDNA: {
-          valuePropositions: ['Innovation', 'Quality', 'Customer Focus'],
-          coreOfferings: ['Primary Service'],
-          targetAudience: {
-            demographics: 'Business professionals',
-            psychographics: 'Growth-oriented individuals',
-            painPoints: ['Efficiency challenges', 'Cost concerns'],
-          },
-          brandVoice: {
-            personality: ['Professional', 'Reliable', 'Innovative'],
-            tone: 'professional' as const,
-            communicationStyle: 'Clear and professional communication',
-          },
-          brandColors: {
-            primary: '#2563eb',
-            secondary: '#3b82f6',
-            accent: '#10b981',
-          },
-        },
-        marketingInsights: {
-          competitiveAdvantage: 'Customer-focused approach',
-          marketPosition: 'Innovative market challenger',
-          contentThemes: ['Industry insights', 'Product updates', 'Customer success'],
-          recommendedChannels: ['LinkedIn', 'Blog', 'Email marketing'],
-        },
-        confidenceScore: 0.3,
+  /**
+   * Analyze brand voice and personality from a piece of company content
+   */
+  public async analyzeBrandVoice(
+    content: string,
+    context?: Record<string, unknown>
+  ): Promise<BrandVoiceAnalysis> {
+    const prompt = `
+You are an expert brand strategist analyzing the voice and personality of a company's content.
+
+${context ? `ADDITIONAL CONTEXT:\n${JSON.stringify(context, null, 2)}\n` : ''}
+CONTENT TO ANALYZE:
+${content}
+
+OUTPUT FORMAT: Return a JSON object with this exact structure:
+{
+  "personality": ["string array - brand personality traits"],
+  "tone": "professional | friendly | authoritative | casual | technical",
+  "communicationStyle": "string - how the brand communicates",
+  "vocabulary": ["string array - characteristic words or phrases"],
+  "recommendations": ["string array - suggestions for a more consistent voice"],
+  "confidenceScore": 0.85
+}
+
+Return only valid JSON, no additional text.`
+
+    return this.generateStructured({
+      prompt,
+      schema: BrandVoiceAnalysisSchema,
+      operation: 'analyze-brand-voice',
+    })
+  }
+
+  /**
+   * Build the fallback chain from the configured providers, configuring any
+   * provider with an API key in the environment. `first` (a provider-model
+   * key) is tried before the rest of the chain. Usage is recorded against
+   * the active workspace under `operation`.
+   */
+  private getProviderChain(operation: string, first?: string): ModelProvider {
+    for (const provider of providerChainFromEnv()) {
+      if (provider === 'mock') continue
+      const configured = Array.from(this.configs.values()).some(
+        (config) => config.provider === provider
+      )
+      const apiKey = this.getApiKeyForProvider(provider)
+      if (!configured && apiKey) {
+        this.configureProvider({ provider, model: DEFAULT_MODELS[provider], apiKey })
       }
     }
+
+    const rank = (key: string) => {
+      const index = PREFERRED_MODELS.indexOf(key)
+      return index === -1 ? PREFERRED_MODELS.length : index
+    }
+    const keys = Array.from(this.providers.keys())
+      .filter((key) => key !== first)
+      .sort((a, b) => rank(a) - rank(b))
+    const chain = orderProviders(keys.map((key) => this.providers.get(key)))
+    const firstProvider = first ? this.providers.get(first) : undefined
+
+    return usageTracker.meter(
+      createProviderChain(firstProvider ? [firstProvider, ...chain] : chain),
+      operation
+    )
   }
 
   /**
-   * Get default configured model
+   * Generate JSON validated against `schema` along the provider chain. Invalid
+   * responses are sent back to the model for repair; if they still don't
+   * validate a StructuredOutputError lists the problems. `operation` names
+   * the request in the usage ledger and picks the mock provider's response.
    */
-  private getDefaultModel(): any {
-    if (this.models.size === 0) {
-      throw new Error('No AI providers configured. Please configure at least one provider.')
-    }
+  public async generateStructured<T>({
+    prompt,
+    schema,
+    operation,
+    params,
+    temperature,
+    signal,
+  }: {
+    prompt: string
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>
+    operation: string
+    params?: Record<string, unknown>
+    temperature?: number
+    signal?: AbortSignal
+  }): Promise<T> {
+    return generateStructured(this.getProviderChain(operation), {
+      prompt,
+      schema,
+      task: operation,
+      params,
+      temperature,
+      signal,
+    })
+  }
 
-    // Prefer Claude 3.5 Sonnet for brand analysis
-    const preferredModels = [
-      'anthropic-claude-3-5-sonnet-20241022',
-      'openai-gpt-4o',
-      'google-gemini-2.0-flash',
-    ]
+  /**
+   * Make sure a provider-model is configured, auto-configuring it from
+   * environment variables if needed, and return its key
+   */
+  private ensureProvider(provider: AIProvider, model: AIModel | undefined, temperature: number) {
+    const targetModel = model || DEFAULT_MODELS[provider]
+    const key = `${provider}-${targetModel}`
 
-    for (const modelKey of preferredModels) {
-      if (this.models.has(modelKey)) {
-        return this.models.get(modelKey)
+    if (!this.providers.has(key)) {
+      try {
+        const apiKey = this.getApiKeyForProvider(provider)
+        this.configureProvider({ provider, model: targetModel, apiKey, temperature })
+      } catch (error) {
+        throw new Error(
+          `AI provider ${provider} not configured and cannot auto-configure: ${error}`
+        )
       }
     }
 
-    // Return first available model
-    return Array.from(this.models.values())[0]
+    return key
   }
 
   /**
-   * Generate content using the configured AI providers
+   * Generate content using the configured AI providers, falling back along
+   * the provider chain when one fails. `provider` and `model` pick the
+   * provider to try first. Pass `onToken` to stream the text as it is
+   * generated; aborting `signal` stops generation. `operation` names what
+   * the tokens are spent on in the usage ledger.
    */
   public async generateContent({
     prompt,
     context,
     temperature = 0.7,
-    provider = 'openai',
-    model = 'gpt-4o'
+    provider,
+    model,
+    operation = 'generate-content',
+    onToken,
+    signal,
   }: {
     prompt: string
     context?: string
     temperature?: number
     provider?: AIProvider
     model?: AIModel
-  }): Promise<{ content: string; provider: string; model: string }> {
-    const key = `${provider}-${model}`
-    const aiModel = this.models.get(key)
-    const config = this.configs.get(key)
-
-    if (!aiModel || !config) {
-      // Auto-configure with environment variables if available
-      try {
-        const apiKey = this.getApiKeyForProvider(provider)
-        this.configureProvider({ provider, model, apiKey, temperature })
-      } catch (error) {
-        throw new Error(`AI provider ${provider} not configured and cannot auto-configure: ${error}`)
-      }
-    }
+    operation?: string
+    onToken?: (token: string, text: string) => void
+    signal?: AbortSignal
+  }): Promise<{ content: string; provider: string; model: string; usage?: TokenUsage }> {
+    const first = provider ? this.ensureProvider(provider, model, temperature) : undefined
+    const input = context ? `Context: ${context}\n\nTask: ${prompt}` : prompt
 
     try {
-      let content: string
-
-      switch (provider) {
-        case 'openai':
-        case 'anthropic':
-          const response = await aiModel.invoke([
-            { role: 'user', content: context ? `Context: ${context}\n\nTask: ${prompt}` : prompt }
-          ])
-          content = response.content
-          break
-
-        case 'google':
-          const geminiModel = aiModel.getGenerativeModel({ model })
-          const result = await geminiModel.generateContent(
-            context ? `Context: ${context}\n\nTask: ${prompt}` : prompt
-          )
-          content = result.response.text()
-          break
-
-        default:
-          throw new Error(`Unsupported provider: ${provider}`)
-      }
-
-      return { content, provider, model }
+      return await this.getProviderChain(operation, first).generate({
+        prompt: input,
+        temperature,
+        onToken,
+        signal,
+      })
     } catch (error) {
-      console.error(`AI generation failed for ${provider}:`, error)
-      throw new Error(`Content generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      if (error instanceof GenerationCancelledError || signal?.aborted) {
+        throw new GenerationCancelledError()
+      }
+      if (error instanceof BudgetExceededError) throw error
+      console.error('AI generation failed:', error)
+      throw new Error(
+        `Content generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
     }
   }
 
@@ -444,11 +527,21 @@ Return only valid JSON, no additional text.`
     return Array.from(this.configs.keys())
   }
 
+  /**
+   * Get the first configured provider's settings, e.g. to hand generation
+   * off to the backend
+   */
+  public getProviderConfig(provider?: AIProvider): AIConfig | undefined {
+    return Array.from(this.configs.values()).find(
+      (config) => !provider || config.provider === provider
+    )
+  }
+
   /**
    * Check if any providers are configured
    */
   public isConfigured(): boolean {
-    return this.models.size > 0
+    return this.providers.size > 0 || providerChainFromEnv().includes('mock')
   }
 }
 
@@ -0,0 +1,455 @@
+/**
+ * Provider abstraction shared by the AI orchestrators. Every model is wrapped
+ * in an `AIProvider`, and providers can be chained so a rate limit or outage
+ * on one falls through to the next (e.g. Claude → GPT-4o → Gemini).
+ *
+ * The backend mirrors this interface in backend/src/services/AIProvider.ts.
+ */
+import { GoogleGenerativeAI, type UsageMetadata } from '@google/generative-ai'
+import { ChatAnthropic } from '@langchain/anthropic'
+import { ChatOpenAI } from '@langchain/openai'
+
+export type ProviderName = 'openai' | 'anthropic' | 'google' | 'mock'
+
+export interface ProviderConfig {
+  provider: ProviderName
+  model: string
+  apiKey?: string
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface AIRequest {
+  prompt: string
+  system?: string
+  temperature?: number
+  // Stream text as it is generated; aborting `signal` stops generation
+  onToken?: (token: string, text: string) => void
+  signal?: AbortSignal
+  // Names the kind of output wanted so the mock provider can answer in shape
+  task?: string
+  params?: Record<string, unknown>
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface AIResponse {
+  content: string
+  provider: string
+  model: string
+  // Token counts reported by the provider, when it reports them
+  usage?: TokenUsage
+}
+
+export interface AIProvider {
+  readonly name: string
+  readonly model: string
+  generate(request: AIRequest): Promise<AIResponse>
+}
+
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation cancelled')
+    this.name = 'GenerationCancelledError'
+  }
+}
+
+export class AIProviderError extends Error {
+  constructor(
+    public provider: string,
+    message: string,
+    public status?: number
+  ) {
+    super(`${provider}: ${message}`)
+    this.name = 'AIProviderError'
+  }
+
+  get isRateLimit(): boolean {
+    return this.status === 429
+  }
+}
+
+// Preferred order when falling back between configured providers
+export const DEFAULT_PROVIDER_ORDER: ProviderName[] = ['anthropic', 'openai', 'google']
+
+const toProviderError = (provider: string, error: unknown): AIProviderError => {
+  if (error instanceof AIProviderError) return error
+  const details = error as { status?: number; response?: { status?: number } } | undefined
+  return new AIProviderError(
+    provider,
+    error instanceof Error ? error.message : 'Unknown error',
+    details?.status ?? details?.response?.status
+  )
+}
+
+const withSystem = (request: AIRequest) =>
+  request.system ? `${request.system}\n\n${request.prompt}` : request.prompt
+
+/**
+ * OpenAI and Anthropic chat models through LangChain
+ */
+class LangChainProvider implements AIProvider {
+  constructor(
+    readonly name: 'openai' | 'anthropic',
+    private config: ProviderConfig
+  ) {}
+
+  get model(): string {
+    return this.config.model
+  }
+
+  private createChat(temperature?: number): ChatOpenAI | ChatAnthropic {
+    const options = {
+      modelName: this.config.model,
+      temperature: temperature ?? this.config.temperature ?? 0.7,
+      maxTokens: this.config.maxTokens ?? 4000,
+    }
+    return this.name === 'openai'
+      ? new ChatOpenAI({ ...options, openAIApiKey: this.config.apiKey })
+      : new ChatAnthropic({ ...options, anthropicApiKey: this.config.apiKey })
+  }
+
+  async generate(request: AIRequest): Promise<AIResponse> {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ]
+    const chat = this.createChat(request.temperature)
+    let content = ''
+    let usage: TokenUsage | undefined
+
+    // Providers report prompt and output tokens on separate chunks, so sum them
+    const addUsage = (metadata?: { input_tokens: number; output_tokens: number }) => {
+      if (!metadata) return
+      usage = {
+        promptTokens: (usage?.promptTokens || 0) + metadata.input_tokens,
+        completionTokens: (usage?.completionTokens || 0) + metadata.output_tokens,
+      }
+    }
+
+    if (request.onToken) {
+      const stream = await chat.stream(messages, { signal: request.signal })
+      for await (const chunk of stream) {
+        addUsage(chunk.usage_metadata)
+        const token = typeof chunk.content === 'string' ? chunk.content : ''
+        if (token) {
+          content += token
+          request.onToken(token, content)
+        }
+      }
+    } else {
+      const response = await chat.invoke(messages, { signal: request.signal })
+      addUsage(response.usage_metadata)
+      content = typeof response.content === 'string' ? response.content : ''
+    }
+
+    return { content, provider: this.name, model: this.model, usage }
+  }
+}
+
+class GeminiProvider implements AIProvider {
+  readonly name = 'google'
+  private client: GoogleGenerativeAI
+
+  constructor(private config: ProviderConfig) {
+    this.client = new GoogleGenerativeAI(config.apiKey || '')
+  }
+
+  get model(): string {
+    return this.config.model
+  }
+
+  async generate(request: AIRequest): Promise<AIResponse> {
+    const gemini = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: request.temperature ?? this.config.temperature,
+        maxOutputTokens: this.config.maxTokens,
+      },
+    })
+    let content = ''
+    let metadata: UsageMetadata | undefined
+
+    if (request.onToken) {
+      const result = await gemini.generateContentStream(withSystem(request), {
+        signal: request.signal,
+      })
+      for await (const chunk of result.stream) {
+        const token = chunk.text()
+        if (token) {
+          content += token
+          request.onToken(token, content)
+        }
+      }
+      metadata = (await result.response).usageMetadata
+    } else {
+      const result = await gemini.generateContent(withSystem(request), { signal: request.signal })
+      content = result.response.text()
+      metadata = result.response.usageMetadata
+    }
+
+    const usage = metadata && {
+      promptTokens: metadata.promptTokenCount,
+      completionTokens: metadata.candidatesTokenCount,
+    }
+    return { content, provider: this.name, model: this.model, usage }
+  }
+}
+
+const MOCK_CAMPAIGN_TOPICS = [
+  'Company Introduction and Vision',
+  'Industry Trends and Insights',
+  'Product/Service Deep Dive',
+  'Customer Success Stories',
+  'Behind the Scenes',
+  'Thought Leadership',
+  'Educational Content',
+  'Problem-Solution Focus',
+  'Community Building',
+  'Expert Interviews',
+  'Data and Analytics',
+  'Future Outlook',
+  'Year-End Recap',
+]
+
+const MOCK_TEXT = 'Placeholder content from the local mock provider.'
+
+const MOCK_BRAND_VOICE = {
+  personality: ['Professional', 'Approachable'],
+  tone: 'professional',
+  communicationStyle: 'Clear and helpful',
+}
+
+/**
+ * Canned answers for tasks whose callers parse the output. Structured
+ * answers are valid against the callers' schemas.
+ */
+const MOCK_RESPONDERS: Record<string, (request: AIRequest) => string> = {
+  'campaign-topics': (request) => {
+    const weeks = Number(request.params?.weeks) || MOCK_CAMPAIGN_TOPICS.length
+    return Array.from(
+      { length: weeks },
+      (_, i) => `${i + 1}. ${MOCK_CAMPAIGN_TOPICS[i] || `Campaign Topic ${i + 1}`}`
+    ).join('\n')
+  },
+  'marketing-calendar': (request) => {
+    const weeks = Number(request.params?.weeks) || MOCK_CAMPAIGN_TOPICS.length
+    return JSON.stringify(
+      Array.from({ length: weeks }, (_, i) => ({
+        week: i + 1,
+        title: MOCK_CAMPAIGN_TOPICS[i] || `Campaign Topic ${i + 1}`,
+        description: MOCK_TEXT,
+        theme: 'Education',
+        primaryChannel: 'Blog',
+        secondaryChannels: ['LinkedIn'],
+        contentTypes: ['blog', 'social'],
+        keywords: [],
+        callToAction: 'Learn more',
+        estimatedEffort: 5,
+        businessGoal: 'awareness',
+      }))
+    )
+  },
+  'social-post': () =>
+    JSON.stringify({
+      post: MOCK_TEXT,
+      hashtags: [],
+      timing: 'Tuesday 9 AM',
+      engagement: 'Reply to comments',
+      visualSuggestions: [],
+    }),
+  'extract-company-dna': () =>
+    JSON.stringify({
+      brandDNA: {
+        valuePropositions: [],
+        coreOfferings: [],
+        targetAudience: { demographics: '', psychographics: '', painPoints: [] },
+        brandVoice: MOCK_BRAND_VOICE,
+        brandColors: { primary: '#2563eb', secondary: '#3b82f6', accent: '#10b981' },
+      },
+      marketingInsights: {
+        competitiveAdvantage: '',
+        marketPosition: '',
+        contentThemes: [],
+        recommendedChannels: [],
+      },
+      confidenceScore: 0,
+    }),
+  'analyze-brand-voice': () => JSON.stringify({ ...MOCK_BRAND_VOICE, confidenceScore: 0 }),
+}
+
+// FNV-1a, so the same prompt always gives the same mock output
+const hashPrompt = (text: string): string => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Deterministic offline provider for development and tests. Never calls the
+ * network; the same request always produces the same output.
+ */
+export class MockProvider implements AIProvider {
+  readonly name = 'mock'
+  readonly model = 'mock-1'
+
+  async generate(request: AIRequest): Promise<AIResponse> {
+    if (request.signal?.aborted) {
+      throw new GenerationCancelledError()
+    }
+
+    const responder = request.task ? MOCK_RESPONDERS[request.task] : undefined
+    const content = responder ? responder(request) : this.placeholder(request)
+
+    if (request.onToken) {
+      let text = ''
+      for (const token of content.split(/(?<=\s)/)) {
+        if (request.signal?.aborted) throw new GenerationCancelledError()
+        text += token
+        request.onToken(token, text)
+      }
+    }
+
+    return {
+      content,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        promptTokens: Math.ceil(withSystem(request).length / 4),
+        completionTokens: Math.ceil(content.length / 4),
+      },
+    }
+  }
+
+  private placeholder(request: AIRequest): string {
+    const firstLine =
+      request.prompt
+        .split('\n')
+        .map((line) => line.trim())
+        .find(Boolean)
+        ?.slice(0, 120) || 'Generate content'
+
+    return [
+      '# Mock response',
+      '',
+      firstLine,
+      '',
+      `This is placeholder content from the local mock provider (ref ${hashPrompt(withSystem(request))}).`,
+      'Configure an AI provider to generate real content.',
+    ].join('\n')
+  }
+}
+
+/**
+ * Try providers in order, moving to the next one when a provider fails.
+ * A failure after text has already been streamed is not retried, since the
+ * caller has shown partial output.
+ */
+export class FallbackProvider implements AIProvider {
+  constructor(private providers: AIProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('No AI providers configured. Please configure at least one provider.')
+    }
+  }
+
+  get name(): string {
+    return this.providers.map((provider) => provider.name).join(' → ')
+  }
+
+  get model(): string {
+    return this.providers[0].model
+  }
+
+  async generate(request: AIRequest): Promise<AIResponse> {
+    let lastError: AIProviderError | undefined
+
+    for (const provider of this.providers) {
+      let streamed = false
+      const onToken = request.onToken
+        ? (token: string, text: string) => {
+            streamed = true
+            request.onToken?.(token, text)
+          }
+        : undefined
+
+      try {
+        return await provider.generate({ ...request, onToken })
+      } catch (error) {
+        if (request.signal?.aborted || error instanceof GenerationCancelledError) {
+          throw new GenerationCancelledError()
+        }
+
+        lastError = toProviderError(provider.name, error)
+        if (streamed) throw lastError
+
+        console.warn(
+          `⚠️ ${provider.name} ${lastError.isRateLimit ? 'is rate limited' : 'failed'}, trying next provider:`,
+          lastError.message
+        )
+      }
+    }
+
+    throw lastError
+  }
+}
+
+export function createProvider(config: ProviderConfig): AIProvider {
+  switch (config.provider) {
+    case 'openai':
+    case 'anthropic':
+      return new LangChainProvider(config.provider, config)
+    case 'google':
+      return new GeminiProvider(config)
+    case 'mock':
+      return new MockProvider()
+    default:
+      throw new Error(`Unsupported AI provider: ${config.provider}`)
+  }
+}
+
+/**
+ * Chain providers into one. A single provider is returned as-is.
+ */
+export function createProviderChain(providers: AIProvider[]): AIProvider {
+  return providers.length === 1 ? providers[0] : new FallbackProvider(providers)
+}
+
+export const mockProvider = new MockProvider()
+
+/**
+ * Provider order from `VITE_AI_PROVIDER_CHAIN`, e.g. "anthropic,openai,google".
+ * Include "mock" to fall back to (or only use) the offline mock provider.
+ */
+export function providerChainFromEnv(): ProviderName[] {
+  const configured = (import.meta.env.VITE_AI_PROVIDER_CHAIN || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name): name is ProviderName =>
+      ['openai', 'anthropic', 'google', 'mock'].includes(name)
+    )
+  return configured.length > 0 ? configured : DEFAULT_PROVIDER_ORDER
+}
+
+/**
+ * Sort providers into chain order, keeping the given order among providers of
+ * the same kind. Providers missing from the chain go last; the mock provider
+ * is added only where the chain names it.
+ */
+export function orderProviders(
+  providers: AIProvider[],
+  order: ProviderName[] = providerChainFromEnv()
+): AIProvider[] {
+  const position = (name: string) => {
+    const index = order.indexOf(name as ProviderName)
+    return index === -1 ? order.length : index
+  }
+  const ordered = providers.filter((provider) => provider.name !== 'mock')
+  if (order.includes('mock')) ordered.push(mockProvider)
+  return ordered.sort((a, b) => position(a.name) - position(b.name))
+}
@@ -0,0 +1,128 @@
+/**
+ * Schema-checked JSON output from AI providers. Responses are validated with
+ * Zod and, when invalid, the model is shown the errors and asked to repair
+ * its response a bounded number of times before the errors are reported.
+ *
+ * The backend mirrors this in backend/src/services/StructuredOutput.ts.
+ */
+import type { z } from 'zod'
+import type { AIProvider, AIRequest } from './providers'
+
+// Extra attempts after the first response fails validation
+export const MAX_REPAIR_ATTEMPTS = 2
+
+// How much of an invalid response is quoted back in the repair prompt
+const MAX_QUOTED_RESPONSE = 6000
+
+/**
+ * The model kept returning output that doesn't match the expected schema.
+ * `issues` lists what was wrong with the last response.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public task: string,
+    public issues: string[],
+    public attempts: number,
+    public lastResponse: string
+  ) {
+    super(`AI response for ${task} was invalid after ${attempts} attempt(s): ${issues.join('; ')}`)
+    this.name = 'StructuredOutputError'
+  }
+}
+
+export interface StructuredRequest<T> extends AIRequest {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  maxRepairAttempts?: number
+}
+
+interface Validation<T> {
+  success: boolean
+  data?: T
+  issues: string[]
+}
+
+/**
+ * Parse the JSON in a model response, ignoring markdown code fences and any
+ * prose around the outermost object or array
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)
+  const body = (fenced ? fenced[1] : text).trim()
+
+  const start = body.search(/[[{]/)
+  if (start === -1) throw new SyntaxError('Response contains no JSON')
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'))
+
+  return JSON.parse(body.slice(start, end + 1))
+}
+
+export function validateOutput<T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Validation<T> {
+  let json: unknown
+  try {
+    json = extractJson(text)
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Response is not valid JSON (${error instanceof Error ? error.message : error})`],
+    }
+  }
+
+  const result = schema.safeParse(json)
+  if (result.success) return { success: true, data: result.data, issues: [] }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(
+      (issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+    ),
+  }
+}
+
+const repairPrompt = (prompt: string, response: string, issues: string[]) => `${prompt}
+
+Your previous response could not be used because it did not match the required format:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+PREVIOUS RESPONSE:
+${response.slice(0, MAX_QUOTED_RESPONSE)}
+
+Return the corrected response as valid JSON only, with no additional text.`
+
+/**
+ * Generate a response and validate it against `schema`, asking the model to
+ * repair invalid responses up to `maxRepairAttempts` times before throwing a
+ * StructuredOutputError. Only the first attempt is streamed to `onToken`.
+ */
+export async function generateStructured<T>(
+  provider: AIProvider,
+  { schema, maxRepairAttempts = MAX_REPAIR_ATTEMPTS, ...request }: StructuredRequest<T>
+): Promise<T> {
+  const task = request.task || 'generate'
+  let prompt = request.prompt
+  let content = ''
+  let issues: string[] = []
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    const response = await provider.generate({
+      ...request,
+      prompt,
+      onToken: attempt === 0 ? request.onToken : undefined,
+    })
+    content = response.content
+
+    const result = validateOutput(content, schema)
+    if (result.success) return result.data
+
+    issues = result.issues
+    console.warn(
+      `⚠️ ${task} response failed validation (attempt ${attempt + 1}):`,
+      issues.join('; ')
+    )
+    prompt = repairPrompt(request.prompt, content, issues)
+  }
+
+  throw new StructuredOutputError(task, issues, maxRepairAttempts + 1, content)
+}
@@ -0,0 +1,313 @@
+/**
+ * Token and cost tracking for AI calls made in the browser. Every metered
+ * generation is priced locally and reported to the backend usage ledger,
+ * which keeps the per-workspace totals and budgets. Reports that can't reach
+ * the backend are kept in localStorage and resent once it is reachable.
+ */
+import { authFetch } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+import { workspaceManager } from '../persistence/workspaces'
+import type { AIProvider, AIRequest, AIResponse, TokenUsage } from './providers'
+
+export interface UsageReport extends TokenUsage {
+  workspaceId: string
+  operation: string
+  provider: string
+  model: string
+  // True when the provider didn't report token counts
+  estimated: boolean
+  costUsd: number
+}
+
+export interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+}
+
+export interface UsageBudget {
+  monthlyLimitUsd: number
+  updatedAt: string
+}
+
+export interface UsageSummary extends UsageTotals {
+  workspaceId?: string
+  month: string
+  byModel: Record<string, UsageTotals>
+  byOperation: Record<string, UsageTotals>
+  budget?: UsageBudget
+  remainingUsd?: number
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    public limitUsd: number,
+    public spentUsd: number
+  ) {
+    super(
+      `Monthly AI budget of $${limitUsd.toFixed(2)} reached for this workspace ($${spentUsd.toFixed(2)} spent)`
+    )
+    this.name = 'BudgetExceededError'
+  }
+}
+
+// USD per million tokens [prompt, completion], matched by model-name prefix.
+// Keep in sync with backend/src/services/UsageLedger.ts, which prices the
+// ledger itself.
+export const MODEL_PRICING: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4-turbo': [10, 30],
+  'gpt-4': [30, 60],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3-5-haiku': [0.8, 4],
+  'claude-3-haiku': [0.25, 1.25],
+  'claude-3-opus': [15, 75],
+  'gemini-2.0-flash': [0.1, 0.4],
+  'gemini-1.5-pro': [1.25, 5],
+  'gemini-1.5-flash': [0.075, 0.3],
+  'mock-1': [0, 0],
+}
+
+const QUEUE_KEY = 'slotted_usage_queue'
+
+const currentMonth = () => new Date().toISOString().slice(0, 7)
+
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const match = Object.keys(MODEL_PRICING)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+  if (!match) return 0
+  const [promptPrice, completionPrice] = MODEL_PRICING[match]
+  return (usage.promptTokens * promptPrice + usage.completionTokens * completionPrice) / 1_000_000
+}
+
+// Rough count for providers that don't report usage (about 4 characters a token)
+const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  costUsd: 0,
+})
+
+const addTo = (totals: UsageTotals, report: UsageReport) => {
+  totals.calls += 1
+  totals.promptTokens += report.promptTokens
+  totals.completionTokens += report.completionTokens
+  totals.costUsd += report.costUsd
+}
+
+/**
+ * Checks the budget before each generation and reports the tokens it used
+ * afterwards. Reporting never fails the generation itself.
+ */
+class MeteredProvider implements AIProvider {
+  constructor(
+    private provider: AIProvider,
+    private tracker: UsageTracker,
+    private operation: string
+  ) {}
+
+  get name(): string {
+    return this.provider.name
+  }
+
+  get model(): string {
+    return this.provider.model
+  }
+
+  async generate(request: AIRequest): Promise<AIResponse> {
+    await this.tracker.assertWithinBudget()
+
+    const response = await this.provider.generate(request)
+    const usage = response.usage || {
+      promptTokens: estimateTokens(`${request.system || ''}${request.prompt}`),
+      completionTokens: estimateTokens(response.content),
+    }
+
+    this.tracker.record({
+      operation: this.operation,
+      provider: response.provider,
+      model: response.model,
+      ...usage,
+      estimated: !response.usage,
+    })
+
+    return { ...response, usage }
+  }
+}
+
+export class UsageTracker {
+  // This month's summary per workspace, kept current as usage is recorded
+  private summaries = new Map<string, UsageSummary>()
+  private listeners: Set<() => void> = new Set()
+  private flushing: Promise<void> | null = null
+
+  constructor() {
+    if (typeof window === 'undefined') return
+
+    window.addEventListener('online', () => {
+      void this.flush()
+    })
+  }
+
+  /**
+   * Wrap a provider so its generations are budgeted and recorded under
+   * `operation`, e.g. "extract-company-dna"
+   */
+  public meter(provider: AIProvider, operation: string): AIProvider {
+    return new MeteredProvider(provider, this, operation)
+  }
+
+  /**
+   * Record usage for the active workspace and send it to the backend ledger
+   */
+  public record(entry: Omit<UsageReport, 'workspaceId' | 'costUsd'>): UsageReport {
+    const report: UsageReport = {
+      ...entry,
+      workspaceId: workspaceManager.getActiveWorkspaceId(),
+      costUsd: estimateCost(entry.model, entry),
+    }
+
+    const summary = this.summaries.get(report.workspaceId)
+    if (summary && summary.month === currentMonth()) {
+      addTo(summary, report)
+      summary.byModel[report.model] ||= emptyTotals()
+      addTo(summary.byModel[report.model], report)
+      summary.byOperation[report.operation] ||= emptyTotals()
+      addTo(summary.byOperation[report.operation], report)
+      if (summary.budget) {
+        summary.remainingUsd = Math.max(0, summary.budget.monthlyLimitUsd - summary.costUsd)
+      }
+    }
+
+    this.saveQueue([...this.loadQueue(), report])
+    void this.flush()
+    this.notify()
+    return report
+  }
+
+  /**
+   * Usage totals for the active workspace from the backend ledger
+   */
+  public async getSummary(month = currentMonth()): Promise<UsageSummary> {
+    const workspaceId = workspaceManager.getActiveWorkspaceId()
+    const params = new URLSearchParams({ workspaceId, month })
+    const response = await authFetch(`${getBackendUrl()}/api/usage/summary?${params}`)
+    if (!response.ok) {
+      throw new Error(`Backend responded ${response.status}`)
+    }
+
+    const summary: UsageSummary = await response.json()
+    if (month === currentMonth()) {
+      this.summaries.set(workspaceId, summary)
+    }
+    return summary
+  }
+
+  /**
+   * Set the active workspace's monthly budget in USD, or remove it with null
+   */
+  public async setBudget(monthlyLimitUsd: number | null): Promise<void> {
+    const workspaceId = workspaceManager.getActiveWorkspaceId()
+    const response = await authFetch(
+      `${getBackendUrl()}/api/usage/budgets/${encodeURIComponent(workspaceId)}`,
+      monthlyLimitUsd === null
+        ? { method: 'DELETE' }
+        : {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ monthlyLimitUsd }),
+          }
+    )
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      throw new Error(body.error || `Backend responded ${response.status}`)
+    }
+
+    await this.getSummary()
+    this.notify()
+  }
+
+  /**
+   * Throw a BudgetExceededError if the active workspace has spent its
+   * monthly budget. Without a reachable backend nothing is blocked.
+   */
+  public async assertWithinBudget(): Promise<void> {
+    const workspaceId = workspaceManager.getActiveWorkspaceId()
+    let summary = this.summaries.get(workspaceId)
+
+    if (!summary || summary.month !== currentMonth()) {
+      summary = await this.getSummary().catch(() => undefined)
+    }
+
+    if (summary?.budget && summary.costUsd >= summary.budget.monthlyLimitUsd) {
+      throw new BudgetExceededError(summary.budget.monthlyLimitUsd, summary.costUsd)
+    }
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener()
+    }
+  }
+
+  /**
+   * Send queued reports in order, stopping at the first failure so the rest
+   * are retried later
+   */
+  private flush(): Promise<void> {
+    if (this.flushing) return this.flushing
+
+    this.flushing = (async () => {
+      try {
+        for (;;) {
+          const [next] = this.loadQueue()
+          if (!next) return
+
+          const response = await authFetch(`${getBackendUrl()}/api/usage`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(next),
+          })
+          // Drop reports the backend rejects, or that this role can't file, so one
+          // bad entry can't block the queue
+          if (!response.ok && response.status !== 400 && response.status !== 403) return
+
+          this.saveQueue(this.loadQueue().slice(1))
+        }
+      } catch {
+        // Offline; retried on the next report or when the browser reconnects
+      } finally {
+        this.flushing = null
+      }
+    })()
+
+    return this.flushing
+  }
+
+  private loadQueue(): UsageReport[] {
+    try {
+      return JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]')
+    } catch {
+      return []
+    }
+  }
+
+  private saveQueue(queue: UsageReport[]): void {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue))
+  }
+}
+
+// Export singleton instance
+export const usageTracker = new UsageTracker()
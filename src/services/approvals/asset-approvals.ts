@@ -0,0 +1,149 @@
+/**
+ * Client for the backend asset store, where content goes through
+ * draft → pending_review → approved → published. Scheduled posts made from
+ * an asset only publish once it is approved; the backend reminds reviewers
+ * as their slots get close and escalates when approval is late.
+ */
+import { authFetch } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+import { workspaceManager } from '../persistence/workspaces'
+import type { PostStatus } from '../scheduling/campaign-scheduler'
+
+export type AssetStatus = 'draft' | 'pending_review' | 'approved' | 'rejected' | 'published'
+
+export type AssetType = 'blog' | 'social' | 'email' | 'script' | 'image' | 'video' | 'audio'
+
+export interface AssetPostDeadline {
+  id: string
+  campaignId: string
+  channelId: string
+  scheduledFor: string
+  status: PostStatus
+}
+
+export interface ApprovalAsset {
+  id: string
+  workspaceId?: string
+  name: string
+  type: AssetType
+  content: string
+  status: AssetStatus
+  author: string
+  reviewers: string[]
+  // Who last approved or rejected it
+  reviewer?: string
+  reviewComments: string[]
+  version: number
+  createdAt: string
+  updatedAt: string
+  submittedAt?: string
+  approvedAt?: string
+  // Scheduled posts that wait on this asset, soonest first; only in lists
+  upcomingPosts?: AssetPostDeadline[]
+}
+
+export interface ReviewNotification {
+  id: string
+  kind: 'approval_due' | 'approval_rescheduled' | 'approval_escalated'
+  workspaceId?: string
+  recipients: string[]
+  message: string
+  campaignId: string
+  postId: string
+  assetId?: string
+  dueAt: string
+  createdAt: string
+  delivered: boolean
+}
+
+export class AssetApprovals {
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await authFetch(`${getBackendUrl()}/api/assets${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    })
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      throw new Error(body.error || `Asset store responded ${response.status}`)
+    }
+    return response.json()
+  }
+
+  private post<T>(path: string, body: Record<string, unknown> = {}): Promise<T> {
+    return this.request<T>(path, { method: 'POST', body: JSON.stringify(body) })
+  }
+
+  /**
+   * Assets in the active workspace, with the posts waiting on each
+   */
+  async listAssets(): Promise<ApprovalAsset[]> {
+    const params = new URLSearchParams({ workspaceId: workspaceManager.getActiveWorkspaceId() })
+    const { assets } = await this.request<{ assets: ApprovalAsset[] }>(`?${params}`)
+    return assets
+  }
+
+  async createAsset(input: {
+    name: string
+    type: AssetType
+    content: string
+    author: string
+    reviewers?: string[]
+  }): Promise<ApprovalAsset> {
+    return this.post<ApprovalAsset>('', {
+      ...input,
+      workspaceId: workspaceManager.getActiveWorkspaceId(),
+    })
+  }
+
+  /**
+   * Edit an asset. New content sends it back to draft for another review.
+   */
+  async updateAsset(
+    assetId: string,
+    updates: { name?: string; content?: string; reviewers?: string[] }
+  ): Promise<ApprovalAsset> {
+    return this.request<ApprovalAsset>(`/${encodeURIComponent(assetId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    })
+  }
+
+  async submitForReview(assetId: string): Promise<ApprovalAsset> {
+    return this.post<ApprovalAsset>(`/${encodeURIComponent(assetId)}/submit`)
+  }
+
+  /**
+   * Approve an asset; posts held for it are released
+   */
+  async approveAsset(assetId: string, reviewer: string, comment?: string): Promise<ApprovalAsset> {
+    return this.post<ApprovalAsset>(`/${encodeURIComponent(assetId)}/approve`, {
+      reviewer,
+      comment,
+    })
+  }
+
+  async rejectAsset(assetId: string, reviewer: string, comment: string): Promise<ApprovalAsset> {
+    return this.post<ApprovalAsset>(`/${encodeURIComponent(assetId)}/reject`, {
+      reviewer,
+      comment,
+    })
+  }
+
+  async publishAsset(assetId: string): Promise<ApprovalAsset> {
+    return this.post<ApprovalAsset>(`/${encodeURIComponent(assetId)}/publish`)
+  }
+
+  /**
+   * Review reminders and escalations in the active workspace, newest first
+   */
+  async getNotifications(recipient?: string): Promise<ReviewNotification[]> {
+    const params = new URLSearchParams({ workspaceId: workspaceManager.getActiveWorkspaceId() })
+    if (recipient) params.set('recipient', recipient)
+    const { notifications } = await this.request<{ notifications: ReviewNotification[] }>(
+      `/notifications?${params}`
+    )
+    return notifications
+  }
+}
+
+export const assetApprovals = new AssetApprovals()
@@ -0,0 +1,88 @@
+/**
+ * The workspace audit log kept by the backend: who changed the brand
+ * context, generated, reviewed or published content, and when.
+ */
+import { authFetch } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+import { workspaceManager } from '../persistence/workspaces'
+
+export type AuditEntityType = 'context' | 'content' | 'asset' | 'campaign' | 'post' | 'job'
+
+export interface FieldChange {
+  path: string
+  before?: unknown
+  after?: unknown
+}
+
+export interface AuditEntry {
+  id: string
+  at: string
+  workspaceId?: string
+  actor: { id?: string; name: string; kind: 'user' | 'system' }
+  action: string
+  entity: { type: AuditEntityType; id?: string }
+  summary: string
+  changes?: FieldChange[]
+  metadata?: Record<string, unknown>
+}
+
+export interface AuditFilter {
+  userId?: string
+  action?: string
+  entityType?: AuditEntityType
+  entityId?: string
+  // ISO timestamps
+  from?: string
+  to?: string
+  limit?: number
+}
+
+export type AuditExportFormat = 'csv' | 'json'
+
+export class AuditLogClient {
+  /**
+   * Entries of the active workspace matching the filter, newest first
+   */
+  async list(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    const response = await authFetch(`${getBackendUrl()}/api/audit?${this.params(filter)}`)
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      throw new Error(body.error || `Backend responded ${response.status}`)
+    }
+    const { entries } = await response.json()
+    return entries
+  }
+
+  /**
+   * Download the filtered entries as a CSV or JSON file for client reports
+   */
+  async download(filter: AuditFilter, format: AuditExportFormat): Promise<void> {
+    const params = this.params({ ...filter, limit: undefined })
+    const response = await authFetch(
+      `${getBackendUrl()}/api/audit/export?${params}&format=${format}`
+    )
+    if (!response.ok) {
+      throw new Error(`Backend responded ${response.status}`)
+    }
+
+    const filename =
+      response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ||
+      `audit.${format}`
+    const url = URL.createObjectURL(await response.blob())
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  private params(filter: AuditFilter): string {
+    const params = new URLSearchParams({ workspaceId: workspaceManager.getActiveWorkspaceId() })
+    for (const [key, value] of Object.entries(filter)) {
+      if (value !== undefined && value !== '') params.set(key, String(value))
+    }
+    return params.toString()
+  }
+}
+
+export const auditLogClient = new AuditLogClient()
@@ -0,0 +1,245 @@
+import { getBackendUrl } from '../backend-url'
+/**
+ * The signed-in account and its role in each workspace. The backend checks
+ * every request against the caller's role; `can()` only decides which
+ * controls the UI offers, so they match what the backend will allow.
+ */
+
+export type Role = 'admin' | 'reviewer' | 'author' | 'client_viewer'
+
+export type Permission =
+  | 'workspace:view'
+  | 'workspace:edit'
+  | 'workspace:manage'
+  | 'content:generate'
+  | 'content:edit'
+  | 'content:review'
+  | 'schedule:manage'
+  | 'content:publish'
+  | 'integrations:use'
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  reviewer: 'Reviewer',
+  author: 'Author',
+  client_viewer: 'Client viewer',
+}
+
+export interface AuthUser {
+  id: string
+  email: string
+  name: string
+  createdAt: string
+}
+
+export interface WorkspaceMembership {
+  workspaceId: string
+  role: Role
+  permissions: Permission[]
+}
+
+export interface InvitationDetails {
+  id: string
+  email: string
+  workspaceId: string
+  workspaceName?: string
+  role: Role
+  expiresAt: string
+}
+
+interface StoredSession {
+  token: string
+  user: AuthUser
+  memberships: WorkspaceMembership[]
+}
+
+type SessionListener = (user: AuthUser | null) => void
+
+const SESSION_KEY = 'slotted_session'
+
+export class AuthSession {
+  private session: StoredSession | null = null
+  private listeners: Set<SessionListener> = new Set()
+
+  constructor() {
+    if (typeof window === 'undefined') return
+    try {
+      const stored = localStorage.getItem(SESSION_KEY)
+      this.session = stored ? JSON.parse(stored) : null
+    } catch {
+      this.session = null
+    }
+  }
+
+  public getToken(): string | undefined {
+    return this.session?.token
+  }
+
+  public getUser(): AuthUser | null {
+    return this.session?.user || null
+  }
+
+  public getMemberships(): WorkspaceMembership[] {
+    return this.session?.memberships || []
+  }
+
+  public roleIn(workspaceId: string): Role | undefined {
+    return this.getMemberships().find((m) => m.workspaceId === workspaceId)?.role
+  }
+
+  /**
+   * Whether the signed-in user may do something in a workspace
+   */
+  public can(permission: Permission, workspaceId: string): boolean {
+    const membership = this.getMemberships().find((m) => m.workspaceId === workspaceId)
+    return Boolean(membership?.permissions.includes(permission))
+  }
+
+  /**
+   * Like can(), but also true when working locally without an account, where
+   * there is no backend to enforce roles
+   */
+  public allows(permission: Permission, workspaceId: string): boolean {
+    return !this.session || this.can(permission, workspaceId)
+  }
+
+  /**
+   * Whether the backend still needs its first account, which becomes the admin
+   */
+  public async getStatus(): Promise<{ needsSetup: boolean }> {
+    return this.request('/status')
+  }
+
+  public async login(email: string, password: string): Promise<AuthUser> {
+    const { token } = await this.request<{ token: string }>('/login', {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    })
+    return this.start(token)
+  }
+
+  /**
+   * Create an account. The first one needs the backend's setup token; past
+   * it, an invitation for the same email is required.
+   */
+  public async register(input: {
+    email: string
+    name: string
+    password: string
+    invitationToken?: string
+    setupToken?: string
+  }): Promise<AuthUser> {
+    const { token } = await this.request<{ token: string }>('/register', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    })
+    return this.start(token)
+  }
+
+  public async getInvitation(token: string): Promise<InvitationDetails> {
+    return this.request(`/invitations/${encodeURIComponent(token)}`)
+  }
+
+  /**
+   * Join an invitation's workspace with the signed-in account
+   */
+  public async acceptInvitation(token: string): Promise<void> {
+    await this.request(`/invitations/${encodeURIComponent(token)}/accept`, { method: 'POST' })
+    await this.refresh()
+  }
+
+  /**
+   * Reload the user's roles, e.g. after joining or creating a workspace
+   */
+  public async refresh(): Promise<void> {
+    if (!this.session) return
+    const { user, memberships } = await this.request<Omit<StoredSession, 'token'>>('/me')
+    this.save({ token: this.session.token, user, memberships })
+  }
+
+  public async logout(): Promise<void> {
+    try {
+      await this.request('/logout', { method: 'POST' })
+    } finally {
+      this.clear()
+    }
+  }
+
+  /**
+   * Forget the session without telling the backend, e.g. once it has expired
+   */
+  public clear(): void {
+    if (!this.session) return
+    this.session = null
+    localStorage.removeItem(SESSION_KEY)
+    this.notifyListeners()
+  }
+
+  public onChange(listener: SessionListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private async start(token: string): Promise<AuthUser> {
+    this.session = { token, user: { id: '', email: '', name: '', createdAt: '' }, memberships: [] }
+    try {
+      await this.refresh()
+    } catch (error) {
+      this.session = null
+      throw error
+    }
+    return this.session.user
+  }
+
+  private save(session: StoredSession): void {
+    this.session = session
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+    this.notifyListeners()
+  }
+
+  private notifyListeners(): void {
+    for (const listener of this.listeners) {
+      listener(this.getUser())
+    }
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await authFetch(`${getBackendUrl()}/api/auth${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    })
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      throw new Error(body.error || `Sign-in service responded ${response.status}`)
+    }
+    return response.status === 204 ? (undefined as T) : response.json()
+  }
+}
+
+export const authSession = new AuthSession()
+
+/**
+ * fetch() for backend calls. Sends the session token, and signs out when the
+ * backend no longer accepts it.
+ */
+export const authFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const token = authSession.getToken()
+  const headers = new Headers(init.headers)
+  if (token) headers.set('Authorization', `Bearer ${token}`)
+
+  const response = await fetch(input, { ...init, headers })
+  if (response.status === 401 && token) {
+    authSession.clear()
+  }
+  return response
+}
+
+/**
+ * A backend URL carrying the session token, for EventSource, which can't
+ * send headers
+ */
+export const withAccessToken = (url: string): string => {
+  const token = authSession.getToken()
+  if (!token) return url
+  return `${url}${url.includes('?') ? '&' : '?'}access_token=${encodeURIComponent(token)}`
+}
@@ -0,0 +1,80 @@
+import { getBackendUrl } from '../backend-url'
+/**
+ * Members and invitations of the active workspace. Only admins may change
+ * roles or invite; everyone in the workspace can see who else is in it.
+ */
+import { workspaceManager } from '../persistence/workspaces'
+import { type Role, authFetch, authSession } from './session'
+
+export interface WorkspaceMember {
+  id: string
+  email: string
+  name: string
+  role: Role
+  addedAt: string
+}
+
+export interface PendingInvitation {
+  id: string
+  email: string
+  role: Role
+  invitedBy: string
+  createdAt: string
+  expiresAt: string
+}
+
+export class WorkspaceTeam {
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const workspaceId = encodeURIComponent(workspaceManager.getActiveWorkspaceId())
+    const response = await authFetch(`${getBackendUrl()}/api/workspaces/${workspaceId}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    })
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      throw new Error(body.error || `Backend responded ${response.status}`)
+    }
+    return response.status === 204 ? (undefined as T) : response.json()
+  }
+
+  async listMembers(): Promise<WorkspaceMember[]> {
+    const { members } = await this.request<{ members: WorkspaceMember[] }>('/members')
+    return members
+  }
+
+  async setRole(userId: string, role: Role): Promise<void> {
+    await this.request(`/members/${encodeURIComponent(userId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    })
+    // The caller may have changed their own role
+    if (userId === authSession.getUser()?.id) await authSession.refresh()
+  }
+
+  async removeMember(userId: string): Promise<void> {
+    await this.request(`/members/${encodeURIComponent(userId)}`, { method: 'DELETE' })
+    if (userId === authSession.getUser()?.id) await authSession.refresh()
+  }
+
+  async listInvitations(): Promise<PendingInvitation[]> {
+    const { invitations } = await this.request<{ invitations: PendingInvitation[] }>('/invitations')
+    return invitations
+  }
+
+  /**
+   * Invite someone by email. The returned link is the only copy of the
+   * invitation; send it to them.
+   */
+  async invite(email: string, role: Role): Promise<PendingInvitation & { link: string }> {
+    return this.request('/invitations', {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    })
+  }
+
+  async revokeInvitation(invitationId: string): Promise<void> {
+    await this.request(`/invitations/${encodeURIComponent(invitationId)}`, { method: 'DELETE' })
+  }
+}
+
+export const workspaceTeam = new WorkspaceTeam()
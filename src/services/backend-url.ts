@@ -0,0 +1,5 @@
+/**
+ * Base URL of the Slotted backend API, from VITE_BACKEND_URL
+ */
+export const getBackendUrl = (): string =>
+  import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001'
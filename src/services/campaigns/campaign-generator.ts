@@ -1,5 +1,18 @@
 import { z } from 'zod'
-import type { CompanyDNA } from '../ai/modern-ai-orchestrator'
+import {
+  BudgetExceededError,
+  type CompanyDNA,
+  StructuredOutputError,
+} from '../ai/modern-ai-orchestrator'
+import {
+  type CommerceEvent,
+  DEFAULT_EVENT_REGION,
+  type EventRegion,
+  describeEvent,
+  eventOverlaps,
+  eventsBetween,
+  toKeyDate,
+} from '../planning/event-library'
 
 // Campaign topic schema
 export const CampaignTopicSchema = z.object({
@@ -16,10 +29,24 @@ export const CampaignTopicSchema = z.object({
   businessGoal: z.enum(['awareness', 'engagement', 'leads', 'sales', 'retention']),
   seasonalRelevance: z.string().optional(),
   competitorAnalysis: z.string().optional(),
+  // Key dates from the event library that fall in the campaign's week
+  keyDates: z.array(z.string()).optional(),
 })
 
 export type CampaignTopic = z.infer<typeof CampaignTopicSchema>
 
+// Mirrors KeyDate in types/marketing
+export const KeyDateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  date: z.string(),
+  description: z.string().optional(),
+  type: z.enum(['launch', 'campaign', 'event', 'deadline', 'seasonal']),
+  priority: z.enum(['high', 'medium', 'low']),
+  recurring: z.boolean().optional(),
+  reminderDays: z.number().optional(),
+})
+
 // Marketing calendar schema
 export const MarketingCalendarSchema = z.object({
   companyName: z.string(),
@@ -60,12 +87,55 @@ export const MarketingCalendarSchema = z.object({
     ),
     reportingSchedule: z.string(),
   }),
+  // Holidays, retail tentpoles and industry events in the period
+  keyDates: z.array(KeyDateSchema).optional(),
   generatedAt: z.string(),
   version: z.string(),
 })
 
 export type MarketingCalendar = z.infer<typeof MarketingCalendarSchema>
 
+const WEEK_MS = 7 * 86_400_000
+
+const weekOf = (date: string, startDate: Date) =>
+  Math.floor((Date.parse(date) - startDate.getTime()) / WEEK_MS) + 1
+
+// Key dates as prompt lines, by the calendar week they fall in
+const weekEvents = (events: CommerceEvent[], startDate: Date, weeks: number) =>
+  events.map(
+    (event) =>
+      `- Week ${Math.min(Math.max(weekOf(event.date, startDate), 1), weeks)}: ${describeEvent(event)}`
+  )
+
+/**
+ * Mark each campaign with the key dates in its week, and use them as its
+ * seasonal relevance when the AI gave none
+ */
+const flagKeyDates = (
+  campaigns: CampaignTopic[],
+  events: CommerceEvent[],
+  startDate: Date
+): CampaignTopic[] =>
+  campaigns.map((campaign) => {
+    const weekStart = new Date(startDate.getTime() + (campaign.week - 1) * WEEK_MS)
+    const weekEnd = new Date(weekStart.getTime() + WEEK_MS - 86_400_000)
+    const names = events
+      .filter((event) =>
+        eventOverlaps(
+          event,
+          weekStart.toISOString().slice(0, 10),
+          weekEnd.toISOString().slice(0, 10)
+        )
+      )
+      .map((event) => event.name)
+    if (names.length === 0) return campaign
+    return {
+      ...campaign,
+      keyDates: names,
+      seasonalRelevance: campaign.seasonalRelevance || names.join(', '),
+    }
+  })
+
 // Advanced campaign generation with AI
 export class AdvancedCampaignGenerator {
   private aiOrchestrator: any
@@ -83,11 +153,17 @@ export class AdvancedCampaignGenerator {
     startDate?: Date
     focusAreas?: string[]
     budget?: string
+    // Region whose holidays and retail events are planned around
+    region?: EventRegion
   }): Promise<MarketingCalendar> {
     const weeks = options.weeks || 13
     const startDate = options.startDate || new Date()
     const endDate = new Date(startDate)
     endDate.setDate(startDate.getDate() + weeks * 7)
+    const events = eventsBetween(startDate, new Date(endDate.getTime() - 86_400_000), {
+      region: options.region || DEFAULT_EVENT_REGION,
+      industry: options.companyDNA.company.industry,
+    })
 
     console.log(
       `📅 Generating ${weeks}-week marketing calendar for ${options.companyDNA.company.name}`
@@ -95,10 +171,15 @@ export class AdvancedCampaignGenerator {
 
     try {
       // Generate campaign topics using AI
-      const campaigns = await this.generateCampaignTopics(
-        options.companyDNA,
-        weeks,
-        options.focusAreas
+      const campaigns = flagKeyDates(
+        await this.generateCampaignTopics(
+          options.companyDNA,
+          weeks,
+          options.focusAreas,
+          weekEvents(events, startDate, weeks)
+        ),
+        events,
+        startDate
       )
 
       // Create strategic framework
@@ -125,12 +206,16 @@ export class AdvancedCampaignGenerator {
         channelStrategy,
         contentCalendar,
         kpiTracking,
+        keyDates: events.map(toKeyDate),
         generatedAt: new Date().toISOString(),
         version: '2.0.0',
       }
 
       return MarketingCalendarSchema.parse(calendar)
     } catch (error) {
+      if (error instanceof StructuredOutputError || error instanceof BudgetExceededError) {
+        throw error
+      }
       console.error('❌ Marketing calendar generation failed:', error)
       throw new Error(
         `Failed to generate marketing calendar: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -144,16 +229,19 @@ export class AdvancedCampaignGenerator {
   private async generateCampaignTopics(
     companyDNA: CompanyDNA,
     weeks: number,
-    focusAreas?: string[]
+    focusAreas?: string[],
+    keyDates: string[] = []
   ): Promise<CampaignTopic[]> {
-    const prompt = this.buildCampaignPrompt(companyDNA, weeks, focusAreas)
+    const prompt = this.buildCampaignPrompt(companyDNA, weeks, focusAreas, keyDates)
 
-    const response = await this.aiOrchestrator.generateContent({
-      type: 'campaign-topics',
-      customInstructions: prompt,
+    const topics: CampaignTopic[] = await this.aiOrchestrator.generateStructured({
+      prompt,
+      schema: z.array(CampaignTopicSchema).min(weeks, `Expected ${weeks} campaign topics`),
+      operation: 'marketing-calendar',
+      params: { weeks },
     })
 
-    return this.parseCampaignTopics(response.content, weeks, companyDNA)
+    return topics.slice(0, weeks).map((topic, index) => ({ ...topic, week: index + 1 }))
   }
 
   /**
@@ -162,7 +250,8 @@ export class AdvancedCampaignGenerator {
   private buildCampaignPrompt(
     companyDNA: CompanyDNA,
     weeks: number,
-    focusAreas?: string[]
+    focusAreas?: string[],
+    keyDates: string[] = []
   ): string {
     const { company, brandDNA, marketingInsights } = companyDNA
 
@@ -184,10 +273,12 @@ MARKETING STRATEGY:
 
 ${focusAreas ? `FOCUS AREAS: ${focusAreas.join(', ')}` : ''}
 
+${keyDates.length ? `KEY DATES IN THIS PERIOD:\n${keyDates.join('\n')}` : ''}
+
 REQUIREMENTS:
 1. Create a narrative arc across all ${weeks} weeks
 2. Balance awareness, engagement, lead generation, and retention goals
-3. Include seasonal and timely opportunities
+3. Plan around the key dates above, starting promotion in the weeks before them; set seasonalRelevance to the key date a campaign builds toward
 4. Vary content types and channels strategically
 5. Build momentum toward business objectives
 6. Consider the target audience's journey and pain points
@@ -216,135 +307,6 @@ Ensure each campaign builds logically on previous ones and addresses different a
 `
   }
 
-  /**
-   * Parse AI response into structured campaign topics
-   */
-  private parseCampaignTopics(
-    response: string,
-    weeks: number,
-    companyDNA: CompanyDNA
-  ): CampaignTopic[] {
-    try {
-      const parsed = JSON.parse(response)
-      if (Array.isArray(parsed) && parsed.length >= weeks) {
-        return parsed.slice(0, weeks).map((topic, index) => ({
-          ...topic,
-          week: index + 1,
-        }))
-      }
-    } catch (error) {
-      console.warn('Failed to parse AI response, generating fallback topics')
-    }
-
-    // Fallback topics based on company DNA
-    return this.generateFallbackTopics(weeks, companyDNA)
-  }
-
-  /**
-   * Generate fallback campaign topics
-   */
-  private generateFallbackTopics(weeks: number, companyDNA: CompanyDNA): CampaignTopic[] {
-    const { company, brandDNA, marketingInsights } = companyDNA
-
-    const baseTopics = [
-      {
-        title: `Introducing ${company.name}: Our Mission and Vision`,
-        theme: 'Brand Introduction',
-        businessGoal: 'awareness' as const,
-      },
-      {
-        title: `Understanding ${brandDNA.targetAudience.demographics}: Pain Points and Solutions`,
-        theme: 'Problem Identification',
-        businessGoal: 'awareness' as const,
-      },
-      {
-        title: `${brandDNA.valuePropositions[0] || 'Our Core Value'}: Deep Dive`,
-        theme: 'Value Proposition',
-        businessGoal: 'engagement' as const,
-      },
-      {
-        title: `Industry Insights: ${company.industry} Trends and Opportunities`,
-        theme: 'Thought Leadership',
-        businessGoal: 'engagement' as const,
-      },
-      {
-        title: 'Behind the Scenes: How We Work',
-        theme: 'Transparency',
-        businessGoal: 'engagement' as const,
-      },
-      {
-        title: 'Customer Success Stories and Case Studies',
-        theme: 'Social Proof',
-        businessGoal: 'leads' as const,
-      },
-      {
-        title: `${marketingInsights.competitiveAdvantage}: What Sets Us Apart`,
-        theme: 'Differentiation',
-        businessGoal: 'leads' as const,
-      },
-      {
-        title: 'Expert Tips and Best Practices',
-        theme: 'Education',
-        businessGoal: 'engagement' as const,
-      },
-      {
-        title: 'Community Spotlight and User-Generated Content',
-        theme: 'Community Building',
-        businessGoal: 'retention' as const,
-      },
-      {
-        title: 'Product Updates and New Features',
-        theme: 'Product Marketing',
-        businessGoal: 'retention' as const,
-      },
-      {
-        title: 'Data-Driven Insights and Research',
-        theme: 'Thought Leadership',
-        businessGoal: 'engagement' as const,
-      },
-      {
-        title: 'Future Vision and Roadmap',
-        theme: 'Innovation',
-        businessGoal: 'engagement' as const,
-      },
-      {
-        title: 'Year in Review and Looking Ahead',
-        theme: 'Reflection',
-        businessGoal: 'retention' as const,
-      },
-    ]
-
-    return Array.from({ length: weeks }, (_, index) => {
-      const baseTopic = baseTopics[index] || baseTopics[index % baseTopics.length]
-
-      return {
-        week: index + 1,
-        title: baseTopic.title,
-        description: `Strategic campaign for week ${index + 1} focusing on ${baseTopic.theme.toLowerCase()}`,
-        theme: baseTopic.theme,
-        primaryChannel: marketingInsights.recommendedChannels[0] || 'Blog',
-        secondaryChannels: marketingInsights.recommendedChannels.slice(1, 3) || ['Social Media'],
-        contentTypes: ['blog', 'social'] as const,
-        keywords: [
-          `${company.name}`,
-          company.industry.toLowerCase(),
-          brandDNA.valuePropositions[0]?.toLowerCase().split(' ')[0] || 'business',
-        ].filter(Boolean),
-        callToAction:
-          index % 4 === 0
-            ? 'Contact Us'
-            : index % 4 === 1
-              ? 'Learn More'
-              : index % 4 === 2
-                ? 'Get Started'
-                : 'Download Now',
-        estimatedEffort: Math.floor(Math.random() * 3) + 5, // 5-7 effort
-        businessGoal: baseTopic.businessGoal,
-        seasonalRelevance: index % 6 === 0 ? 'Consider current season and holidays' : undefined,
-      }
-    })
-  }
-
   /**
    * Generate overall marketing strategy
    */
@@ -490,6 +452,17 @@ Ensure each campaign builds logically on previous ones and addresses different a
           'Blog, Social, Email',
         ]),
       ],
+      'Key Dates': [
+        ['Date', 'Key Date', 'Type', 'Priority', 'Start Promoting (days ahead)', 'Notes'],
+        ...(calendar.keyDates || []).map((keyDate) => [
+          keyDate.date,
+          keyDate.name,
+          keyDate.type,
+          keyDate.priority,
+          keyDate.reminderDays ?? '',
+          keyDate.description || '',
+        ]),
+      ],
     }
 
     return sheets
@@ -1,6 +1,13 @@
 import { z } from 'zod'
-import type { CompanyDNA } from '../ai/modern-ai-orchestrator'
+import {
+  BudgetExceededError,
+  type CompanyDNA,
+  GenerationCancelledError,
+} from '../ai/modern-ai-orchestrator'
+import type { TokenUsage } from '../ai/providers'
+import { estimateCost } from '../ai/usage'
 import type { CampaignTopic } from '../campaigns/campaign-generator'
+import { entitlements } from '../payments/entitlements'
 
 // Blog post structure schema
 export const BlogPostSchema = z.object({
@@ -30,6 +37,14 @@ export const BlogPostSchema = z.object({
     generatedAt: z.string(),
     aiProvider: z.string(),
     processingTimeMs: z.number(),
+    // Tokens and estimated cost of the generation
+    usage: z
+      .object({
+        promptTokens: z.number(),
+        completionTokens: z.number(),
+        costUsd: z.number(),
+      })
+      .optional(),
     revision: z.number(),
     topic: z.string(),
     tone: z.string(),
@@ -68,6 +83,12 @@ export const SEOAnalysisSchema = z.object({
 
 export type SEOAnalysis = z.infer<typeof SEOAnalysisSchema>
 
+// Stream the post body as it is written; aborting the signal cancels generation
+export interface BlogStreamOptions {
+  onToken?: (token: string, text: string) => void
+  signal?: AbortSignal
+}
+
 /**
  * Advanced Blog Content Generator
  * Transforms topics into professional blog posts with brand voice consistency
@@ -82,7 +103,10 @@ export class BlogContentGenerator {
   /**
    * Generate comprehensive blog post
    */
-  public async generateBlogPost(options: BlogGenerationOptions): Promise<BlogPost> {
+  public async generateBlogPost(
+    options: BlogGenerationOptions,
+    stream: BlogStreamOptions = {}
+  ): Promise<BlogPost> {
     const startTime = Date.now()
 
     console.log(`📝 Generating blog post: "${options.topic}"`)
@@ -100,7 +124,11 @@ export class BlogContentGenerator {
         (await this.generateKeywords(validatedOptions.topic, validatedOptions.companyDNA))
 
       // Create comprehensive blog content
-      const content = await this.generateContent(validatedOptions, keywords)
+      const { content, model, usage } = await this.generateContent(
+        validatedOptions,
+        keywords,
+        stream
+      )
 
       // Generate SEO-optimized title and meta description
       const seoElements = await this.generateSEOElements(validatedOptions, content, keywords)
@@ -130,8 +158,9 @@ export class BlogContentGenerator {
         metadata: {
           wordCount,
           generatedAt: new Date().toISOString(),
-          aiProvider: 'gpt-4o',
+          aiProvider: model,
           processingTimeMs: Date.now() - startTime,
+          usage: usage && { ...usage, costUsd: estimateCost(model, usage) },
           revision: 1,
           topic: validatedOptions.topic,
           tone: validatedOptions.tone,
@@ -146,6 +175,9 @@ export class BlogContentGenerator {
 
       return BlogPostSchema.parse(blogPost)
     } catch (error) {
+      if (error instanceof GenerationCancelledError || error instanceof BudgetExceededError) {
+        throw error
+      }
       console.error('❌ Blog post generation failed:', error)
       throw new Error(
         `Failed to generate blog post: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -158,17 +190,23 @@ export class BlogContentGenerator {
    */
   private async generateContent(
     options: BlogGenerationOptions,
-    keywords: string[]
-  ): Promise<string> {
+    keywords: string[],
+    stream: BlogStreamOptions
+  ): Promise<{ content: string; model: string; usage?: TokenUsage }> {
     const prompt = this.buildContentPrompt(options, keywords)
 
     const response = await this.aiOrchestrator.generateContent({
-      type: 'blog-content',
-      customInstructions: prompt,
-      maxTokens: Math.ceil(options.contentLength * 1.5), // Allow for formatting
+      prompt,
+      operation: 'blog',
+      onToken: stream.onToken,
+      signal: stream.signal,
     })
 
-    return this.formatContent(response.content, options)
+    return {
+      content: this.formatContent(response.content, options),
+      model: response.model,
+      usage: response.usage,
+    }
   }
 
   /**
@@ -518,12 +556,15 @@ The content should sound authentic to the brand while providing genuine value to
   }
 
   /**
-   * Export blog post to different formats
+   * Export blog post to different formats. Throws EntitlementError for a
+   * format the workspace's plan doesn't include.
    */
   public async exportBlogPost(
     blogPost: BlogPost,
     format: 'markdown' | 'html' | 'json'
   ): Promise<string> {
+    await entitlements.assertExportFormat(format)
+
     switch (format) {
       case 'markdown':
         return blogPost.content
@@ -0,0 +1,129 @@
+/**
+ * Client for backend content generation jobs. A content package is queued
+ * on the backend and generated one content type at a time, so slow models
+ * can't time out the request and a failure only loses the step in progress.
+ */
+import type { AIConfig } from '../ai/modern-ai-orchestrator'
+import { authFetch, withAccessToken } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+import { workspaceManager } from '../persistence/workspaces'
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export type ContentPackageType = 'blog' | 'video' | 'social' | 'email' | 'images'
+
+export interface ContentJob {
+  id: string
+  type: string
+  status: JobStatus
+  workspaceId?: string
+  progress: { completed: number; total: number; step?: string }
+  checkpoints: Partial<Record<ContentPackageType, unknown>>
+  result?: {
+    topic: string
+    generatedAt: string
+    content: Partial<Record<ContentPackageType, unknown>>
+  }
+  error?: string
+  attempts: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ContentPackageRequest {
+  mcpContext: unknown
+  topic: string
+  contentTypes: ContentPackageType[]
+  aiConfig?: AIConfig
+}
+
+const POLL_INTERVAL_MS = 2000
+
+export const isFinishedJob = (job: ContentJob) =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled'
+
+async function request(path: string, init?: RequestInit): Promise<ContentJob> {
+  const response = await authFetch(`${getBackendUrl()}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}))
+    throw new Error(body.error || `Backend responded ${response.status}`)
+  }
+  return response.json()
+}
+
+/**
+ * Queue a content package for the active workspace
+ */
+export function enqueueContentPackage(params: ContentPackageRequest): Promise<ContentJob> {
+  return request('/api/content/generate-package/jobs', {
+    method: 'POST',
+    body: JSON.stringify({ ...params, workspaceId: workspaceManager.getActiveWorkspaceId() }),
+  })
+}
+
+export function getJob(id: string): Promise<ContentJob> {
+  return request(`/api/jobs/${encodeURIComponent(id)}`)
+}
+
+export function cancelJob(id: string): Promise<ContentJob> {
+  return request(`/api/jobs/${encodeURIComponent(id)}/cancel`, { method: 'POST' })
+}
+
+export function retryJob(id: string): Promise<ContentJob> {
+  return request(`/api/jobs/${encodeURIComponent(id)}/retry`, { method: 'POST' })
+}
+
+/**
+ * Follow a job until it finishes. Uses Server-Sent Events and falls back to
+ * polling when the stream can't be opened. Returns an unsubscribe function.
+ */
+export function watchJob(id: string, onUpdate: (job: ContentJob) => void): () => void {
+  let stopped = false
+  let pollTimer: ReturnType<typeof setTimeout> | undefined
+
+  const poll = async () => {
+    if (stopped) return
+    try {
+      const job = await getJob(id)
+      if (stopped) return
+      onUpdate(job)
+      if (isFinishedJob(job)) return
+    } catch (error) {
+      console.warn('⚠️ Failed to poll job status:', error)
+    }
+    pollTimer = setTimeout(poll, POLL_INTERVAL_MS)
+  }
+
+  if (typeof EventSource === 'undefined') {
+    void poll()
+    return () => {
+      stopped = true
+      clearTimeout(pollTimer)
+    }
+  }
+
+  const events = new EventSource(
+    withAccessToken(`${getBackendUrl()}/api/jobs/${encodeURIComponent(id)}/events`)
+  )
+  events.addEventListener('job', (event) => {
+    const job: ContentJob = JSON.parse((event as MessageEvent).data)
+    onUpdate(job)
+    if (isFinishedJob(job)) events.close()
+  })
+  events.onerror = () => {
+    // The server closes the stream once the job finishes; anything else
+    // means SSE isn't getting through, so poll instead
+    events.close()
+    void poll()
+  }
+
+  return () => {
+    stopped = true
+    events.close()
+    clearTimeout(pollTimer)
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Calendar Feed
+ * A workspace's campaigns, milestones and scheduled posts as iCalendar
+ * (.ics), built by the backend: a one-off download, or a secret feed URL
+ * Outlook and Apple Calendar subscribe to and poll. Events keep their UIDs
+ * across refreshes, so changes replace entries instead of duplicating them.
+ */
+import type { SlottedContext } from '../../schemas/slottedContext'
+import { authFetch } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+import { workspaceSync } from '../persistence/workspace-sync'
+import { workspaceManager } from '../persistence/workspaces'
+import { CampaignIntegrationService } from '../planning/campaign-integration'
+import { campaignScheduler } from '../scheduling/campaign-scheduler'
+
+export interface CalendarFeedStatus {
+  workspaceId: string
+  active: boolean
+  createdAt?: string
+}
+
+export interface CreatedCalendarFeed extends CalendarFeedStatus {
+  // Only shown when the feed is created; creating it again replaces it
+  url: string
+}
+
+type Milestone = ReturnType<typeof CampaignIntegrationService.generateMilestones>[number]
+
+/**
+ * The feed URL with the webcal scheme, which opens the subscribe dialog of
+ * Apple Calendar and Outlook
+ */
+export const webcalUrl = (url: string) => url.replace(/^https?:/, 'webcal:')
+
+export class CalendarFeedClient {
+  public getStatus(): Promise<CalendarFeedStatus> {
+    return this.request('')
+  }
+
+  /**
+   * Start the workspace's feed, or replace its URL so the old one stops
+   * working
+   */
+  public createFeed(): Promise<CreatedCalendarFeed> {
+    return this.request('', { method: 'POST' })
+  }
+
+  public async revokeFeed(): Promise<void> {
+    await this.request('', { method: 'DELETE' })
+  }
+
+  /**
+   * Store the milestones of the active workspace's scheduled campaigns for
+   * the backend to add to the calendar. Schedules don't record a campaign
+   * type, so awareness milestones are used.
+   */
+  public async publishMilestones(context: SlottedContext | null): Promise<void> {
+    const schedules = await campaignScheduler.getAllSchedules()
+    const milestones: Record<string, Milestone[]> = {}
+    for (const schedule of schedules) {
+      milestones[schedule.campaignId] = CampaignIntegrationService.generateMilestones(
+        {
+          id: schedule.campaignId,
+          title: schedule.campaignTitle,
+          description: '',
+          startDate: schedule.startDate,
+          endDate: schedule.endDate,
+          channel: schedule.channels[0] || 'all channels',
+          campaignType: 'awareness',
+          status: 'planned',
+          priority: 'medium',
+          progress: 0,
+        },
+        context
+      )
+    }
+    await workspaceSync.pushNow('campaignMilestones', milestones)
+  }
+
+  /**
+   * Download the active workspace's calendar as an .ics file
+   */
+  public async downloadIcs(context: SlottedContext | null): Promise<void> {
+    await this.publishMilestones(context)
+    const response = await authFetch(`${this.baseUrl()}/export.ics`)
+    if (!response.ok) {
+      throw new Error(`Backend responded ${response.status}`)
+    }
+
+    const filename =
+      response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ||
+      'campaigns.ics'
+    const url = URL.createObjectURL(await response.blob())
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  private baseUrl(): string {
+    const workspaceId = encodeURIComponent(workspaceManager.getActiveWorkspaceId())
+    return `${getBackendUrl()}/api/calendar-feed/${workspaceId}`
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await authFetch(`${this.baseUrl()}${path}`, init)
+    if (response.status === 204) return undefined as T
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(body.error || `Backend responded ${response.status}`)
+    }
+    return body
+  }
+}
+
+// Export singleton instance
+export const calendarFeedClient = new CalendarFeedClient()
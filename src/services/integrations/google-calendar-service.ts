@@ -1,443 +1,224 @@
 /**
  * Google Calendar Service
- * Integrates marketing campaigns with Google Calendar
- * Provides two-way sync for campaign scheduling
+ * Two-way sync between campaigns and a workspace's Google Calendar, run by
+ * the backend with a service account or the OAuth grant of whoever
+ * connected it. Campaigns and milestones are pushed as all-day events;
+ * events moved in Google Calendar come back as date updates to apply.
  */
+import { authFetch } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+import { workspaceManager } from '../persistence/workspaces'
 
-interface CalendarEvent {
+export type ConflictPolicy = 'latest' | 'slotted' | 'google'
+
+export const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  latest: 'Most recent edit wins',
+  slotted: 'Slotted always wins',
+  google: 'Google Calendar always wins',
+}
+
+export interface CalendarMilestone {
   id: string
-  summary: string
-  description?: string
-  start: {
-    dateTime: string
-    timeZone?: string
-  }
-  end: {
-    dateTime: string
-    timeZone?: string
-  }
-  location?: string
-  attendees?: { email: string }[]
-  colorId?: string
-  extendedProperties?: {
-    private?: { [key: string]: string }
-  }
+  title: string
+  date: string
+  completed?: boolean
 }
 
-interface Campaign {
+/**
+ * What the sync needs of a campaign. Dates are YYYY-MM-DD, endDate
+ * inclusive.
+ */
+export interface CalendarCampaign {
   id: string
   title: string
-  description: string
+  description?: string
   startDate: string
   endDate: string
-  channel: string
-  campaignType: string
-  status: string
-  priority: string
-  assignee?: string
-  budget?: number
-  milestones?: Array<{
-    id: string
-    title: string
-    date: string
-    completed: boolean
-  }>
+  channel?: string
+  campaignType?: string
+  status?: string
+  // When it was last edited; without it Google Calendar wins conflicts
+  // under the 'latest' policy
+  updatedAt?: string
+  milestones?: CalendarMilestone[]
 }
 
-export class GoogleCalendarService {
-  private gapi: any = null
-  private isInitialized = false
-  private calendarId = 'primary' // Can be customized for dedicated marketing calendar
+export interface CalendarUpdate {
+  campaignId: string
+  // A milestone's date is its startDate
+  milestoneId?: string
+  startDate: string
+  endDate: string
+}
 
-  constructor() {
-    // Initialize Google API client
-    this.initializeGoogleAPI()
-  }
+export interface CalendarConflict {
+  campaignId: string
+  milestoneId?: string
+  title: string
+  slotted: { start: string; end: string }
+  // Missing when the event was deleted in Google Calendar
+  google?: { start: string; end: string }
+  resolvedTo: 'slotted' | 'google'
+}
 
-  /**
-   * Initialize Google API and authentication
-   */
-  private async initializeGoogleAPI(): Promise<void> {
-    try {
-      // Load Google API script if not already loaded
-      if (!window.gapi) {
-        await this.loadGoogleAPIScript()
-      }
+export interface CalendarSyncResult {
+  updates: CalendarUpdate[]
+  conflicts: CalendarConflict[]
+  created: number
+  updated: number
+  deleted: number
+  detached: number
+  syncedAt: string
+}
 
-      await new Promise((resolve) => {
-        window.gapi.load('client:auth2', resolve)
-      })
+export interface CalendarStatus {
+  workspaceId: string
+  connected: boolean
+  method?: 'service-account' | 'oauth'
+  calendarId?: string
+  calendarName?: string
+  conflictPolicy?: ConflictPolicy
+  lastSyncedAt?: string
+  linkedEvents: number
+  serviceAccountAvailable: boolean
+  oauthAvailable: boolean
+}
 
-      // Initialize the client
-      await window.gapi.client.init({
-        apiKey: process.env.VITE_GOOGLE_API_KEY,
-        clientId: process.env.VITE_GOOGLE_CLIENT_ID,
-        discoveryDocs: ['https://www.googleapis.com/discovery/v1/apis/calendar/v3/rest'],
-        scope: 'https://www.googleapis.com/auth/calendar https://www.googleapis.com/auth/calendar.events'
-      })
+export interface CalendarConnectOptions {
+  // 'primary' when omitted
+  calendarId?: string
+  conflictPolicy?: ConflictPolicy
+}
 
-      this.gapi = window.gapi
-      this.isInitialized = true
-      console.log('Google Calendar API initialized successfully')
-    } catch (error) {
-      console.error('Error initializing Google Calendar API:', error)
-      throw new Error('Failed to initialize Google Calendar integration')
-    }
-  }
+/**
+ * Campaigns with the dates moved in Google Calendar applied
+ */
+export function applyCalendarUpdates<T extends CalendarCampaign>(
+  campaigns: T[],
+  updates: CalendarUpdate[]
+): T[] {
+  return campaigns.map((campaign) => {
+    const changes = updates.filter((update) => update.campaignId === campaign.id)
+    if (!changes.length) return campaign
+
+    const moved = changes.find((update) => !update.milestoneId)
+    return {
+      ...campaign,
+      ...(moved && { startDate: moved.startDate, endDate: moved.endDate }),
+      milestones: campaign.milestones?.map((milestone) => {
+        const update = changes.find((change) => change.milestoneId === milestone.id)
+        return update ? { ...milestone, date: update.startDate } : milestone
+      }),
+    }
+  })
+}
 
-  /**
-   * Load Google API script dynamically
-   */
-  private loadGoogleAPIScript(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const script = document.createElement('script')
-      script.src = 'https://apis.google.com/js/api.js'
-      script.onload = () => resolve()
-      script.onerror = () => reject(new Error('Failed to load Google API script'))
-      document.head.appendChild(script)
+export class GoogleCalendarService {
+  private listeners: Set<() => void> = new Set()
+  private lastResult: CalendarSyncResult | null = null
+
+  constructor() {
+    workspaceManager.onWorkspaceChange(() => {
+      this.lastResult = null
+      this.notify()
     })
   }
 
-  /**
-   * Authenticate user with Google
-   */
-  async authenticate(): Promise<boolean> {
-    if (!this.isInitialized) {
-      await this.initializeGoogleAPI()
-    }
-
-    try {
-      const authInstance = this.gapi.auth2.getAuthInstance()
-      
-      if (authInstance.isSignedIn.get()) {
-        return true
-      }
-
-      const result = await authInstance.signIn()
-      return result.isSignedIn()
-    } catch (error) {
-      console.error('Authentication failed:', error)
-      return false
-    }
+  public getStatus(): Promise<CalendarStatus> {
+    return this.request('')
   }
 
   /**
-   * Check if user is authenticated
+   * The outcome of this session's last sync in the active workspace
    */
-  isAuthenticated(): boolean {
-    if (!this.isInitialized || !this.gapi) {
-      return false
-    }
-
-    const authInstance = this.gapi.auth2.getAuthInstance()
-    return authInstance && authInstance.isSignedIn.get()
+  public getLastResult(): CalendarSyncResult | null {
+    return this.lastResult
   }
 
   /**
-   * Sign out user
+   * Connect a calendar shared with the backend's service account
    */
-  async signOut(): Promise<void> {
-    if (!this.isAuthenticated()) return
-
-    try {
-      const authInstance = this.gapi.auth2.getAuthInstance()
-      await authInstance.signOut()
-    } catch (error) {
-      console.error('Sign out failed:', error)
-    }
+  public async connectServiceAccount(options: CalendarConnectOptions): Promise<CalendarStatus> {
+    const status = await this.request<CalendarStatus>('', this.json('PUT', options))
+    this.notify()
+    return status
   }
 
   /**
-   * Sync campaign to Google Calendar
+   * Send the user to Google to connect a calendar of their own. They come
+   * back with ?calendar=connected or ?calendar=error&message=….
    */
-  async syncCampaignToCalendar(campaign: Campaign): Promise<string | null> {
-    if (!this.isAuthenticated()) {
-      throw new Error('User not authenticated with Google Calendar')
-    }
-
-    try {
-      const event: CalendarEvent = {
-        id: `slotted_campaign_${campaign.id}`,
-        summary: `📢 ${campaign.title}`,
-        description: this.formatCampaignDescription(campaign),
-        start: {
-          dateTime: this.formatDateTime(campaign.startDate),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-        },
-        end: {
-          dateTime: this.formatDateTime(campaign.endDate),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-        },
-        colorId: this.getCampaignColorId(campaign.campaignType),
-        extendedProperties: {
-          private: {
-            slottedCampaignId: campaign.id,
-            campaignType: campaign.campaignType,
-            channel: campaign.channel,
-            priority: campaign.priority,
-            budget: campaign.budget?.toString() || ''
-          }
-        }
-      }
-
-      // Add assignee as attendee if specified
-      if (campaign.assignee && campaign.assignee.includes('@')) {
-        event.attendees = [{ email: campaign.assignee }]
-      }
-
-      const response = await this.gapi.client.calendar.events.insert({
-        calendarId: this.calendarId,
-        resource: event
-      })
-
-      console.log('Campaign synced to calendar:', response.result.id)
-      return response.result.id
-    } catch (error) {
-      console.error('Error syncing campaign to calendar:', error)
-      throw new Error('Failed to sync campaign to Google Calendar')
-    }
+  public async connectGoogleAccount(options: CalendarConnectOptions): Promise<void> {
+    const { url } = await this.request<{ url: string }>('/oauth', this.json('POST', options))
+    window.location.assign(url)
   }
 
-  /**
-   * Sync campaign milestones to calendar
-   */
-  async syncMilestonesToCalendar(campaign: Campaign): Promise<string[]> {
-    if (!this.isAuthenticated()) {
-      throw new Error('User not authenticated with Google Calendar')
-    }
-
-    const eventIds: string[] = []
-
-    try {
-      for (const milestone of campaign.milestones || []) {
-        const event: CalendarEvent = {
-          id: `slotted_milestone_${milestone.id}`,
-          summary: `🎯 ${milestone.title}`,
-          description: `Milestone for campaign: ${campaign.title}\n\n${campaign.description}`,
-          start: {
-            dateTime: this.formatDateTime(milestone.date, '09:00'),
-            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-          },
-          end: {
-            dateTime: this.formatDateTime(milestone.date, '10:00'),
-            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-          },
-          colorId: '5', // Yellow for milestones
-          extendedProperties: {
-            private: {
-              slottedMilestoneId: milestone.id,
-              slottedCampaignId: campaign.id,
-              milestoneType: 'campaign_milestone'
-            }
-          }
-        }
-
-        const response = await this.gapi.client.calendar.events.insert({
-          calendarId: this.calendarId,
-          resource: event
-        })
-
-        eventIds.push(response.result.id)
-      }
-
-      console.log(`Synced ${eventIds.length} milestones to calendar`)
-      return eventIds
-    } catch (error) {
-      console.error('Error syncing milestones to calendar:', error)
-      throw new Error('Failed to sync milestones to Google Calendar')
-    }
+  public async setConflictPolicy(conflictPolicy: ConflictPolicy): Promise<CalendarStatus> {
+    const status = await this.request<CalendarStatus>('', this.json('PATCH', { conflictPolicy }))
+    this.notify()
+    return status
   }
 
   /**
-   * Update campaign in calendar
+   * Stop syncing; events already on the calendar stay there
    */
-  async updateCampaignInCalendar(campaign: Campaign, calendarEventId: string): Promise<void> {
-    if (!this.isAuthenticated()) {
-      throw new Error('User not authenticated with Google Calendar')
-    }
-
-    try {
-      const event: CalendarEvent = {
-        id: calendarEventId,
-        summary: `📢 ${campaign.title}`,
-        description: this.formatCampaignDescription(campaign),
-        start: {
-          dateTime: this.formatDateTime(campaign.startDate),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-        },
-        end: {
-          dateTime: this.formatDateTime(campaign.endDate),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-        },
-        colorId: this.getCampaignColorId(campaign.campaignType)
-      }
-
-      await this.gapi.client.calendar.events.update({
-        calendarId: this.calendarId,
-        eventId: calendarEventId,
-        resource: event
-      })
-
-      console.log('Campaign updated in calendar:', calendarEventId)
-    } catch (error) {
-      console.error('Error updating campaign in calendar:', error)
-      throw new Error('Failed to update campaign in Google Calendar')
-    }
+  public async disconnect(): Promise<void> {
+    await this.request('', { method: 'DELETE' })
+    this.lastResult = null
+    this.notify()
   }
 
   /**
-   * Delete campaign from calendar
+   * Push the campaigns and their milestones, and read back what was moved
+   * in Google Calendar. Apply `updates` with applyCalendarUpdates. Campaigns
+   * left out are untouched; list deleted ones in `removedCampaignIds` to
+   * take their events off the calendar.
    */
-  async deleteCampaignFromCalendar(calendarEventId: string): Promise<void> {
-    if (!this.isAuthenticated()) {
-      throw new Error('User not authenticated with Google Calendar')
-    }
-
-    try {
-      await this.gapi.client.calendar.events.delete({
-        calendarId: this.calendarId,
-        eventId: calendarEventId
-      })
-
-      console.log('Campaign deleted from calendar:', calendarEventId)
-    } catch (error) {
-      console.error('Error deleting campaign from calendar:', error)
-      throw new Error('Failed to delete campaign from Google Calendar')
-    }
+  public async sync(
+    campaigns: CalendarCampaign[],
+    removedCampaignIds: string[] = []
+  ): Promise<CalendarSyncResult> {
+    const result = await this.request<CalendarSyncResult>(
+      '/sync',
+      this.json('POST', { campaigns, removedCampaignIds })
+    )
+    this.lastResult = result
+    this.notify()
+    return result
   }
 
-  /**
-   * Get campaigns from calendar
-   */
-  async getCampaignsFromCalendar(startDate?: string, endDate?: string): Promise<CalendarEvent[]> {
-    if (!this.isAuthenticated()) {
-      throw new Error('User not authenticated with Google Calendar')
-    }
-
-    try {
-      const params: any = {
-        calendarId: this.calendarId,
-        orderBy: 'startTime',
-        singleEvents: true,
-        q: 'slottedCampaignId' // Search for Slotted campaigns
-      }
-
-      if (startDate) {
-        params.timeMin = new Date(startDate).toISOString()
-      }
-
-      if (endDate) {
-        params.timeMax = new Date(endDate).toISOString()
-      }
-
-      const response = await this.gapi.client.calendar.events.list(params)
-      return response.result.items || []
-    } catch (error) {
-      console.error('Error fetching campaigns from calendar:', error)
-      throw new Error('Failed to fetch campaigns from Google Calendar')
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
     }
   }
 
-  /**
-   * Create a dedicated Slotted marketing calendar
-   */
-  async createSlottedCalendar(): Promise<string> {
-    if (!this.isAuthenticated()) {
-      throw new Error('User not authenticated with Google Calendar')
-    }
-
-    try {
-      const calendar = {
-        summary: 'Slotted Marketing Campaigns',
-        description: 'AI-powered marketing campaign schedule managed by Slotted',
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-      }
-
-      const response = await this.gapi.client.calendar.calendars.insert({
-        resource: calendar
-      })
-
-      console.log('Created Slotted calendar:', response.result.id)
-      this.calendarId = response.result.id
-      return response.result.id
-    } catch (error) {
-      console.error('Error creating Slotted calendar:', error)
-      throw new Error('Failed to create Slotted marketing calendar')
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener()
     }
   }
 
-  /**
-   * Format campaign description for calendar
-   */
-  private formatCampaignDescription(campaign: Campaign): string {
-    return `
-Campaign Details:
-• Type: ${campaign.campaignType.replace('_', ' ')}
-• Channel: ${campaign.channel}
-• Priority: ${campaign.priority.toUpperCase()}
-• Status: ${campaign.status}
-${campaign.budget ? `• Budget: $${campaign.budget.toLocaleString()}` : ''}
-${campaign.assignee ? `• Assignee: ${campaign.assignee}` : ''}
-
-Description:
-${campaign.description}
-
-Generated by Slotted - AI Marketing Platform
-    `.trim()
-  }
-
-  /**
-   * Format date and time for Google Calendar API
-   */
-  private formatDateTime(dateStr: string, timeStr: string = '09:00'): string {
-    const date = new Date(dateStr)
-    const [hours, minutes] = timeStr.split(':')
-    date.setHours(parseInt(hours), parseInt(minutes))
-    return date.toISOString()
-  }
-
-  /**
-   * Get Google Calendar color ID based on campaign type
-   */
-  private getCampaignColorId(campaignType: string): string {
-    const colorMap: { [key: string]: string } = {
-      'product_launch': '1', // Blue
-      'awareness': '2', // Green  
-      'seasonal': '6', // Orange
-      'retention': '3', // Purple
-      'lead_generation': '4', // Red
-      'default': '7' // Gray
+  private json(method: string, body: unknown): RequestInit {
+    return {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
     }
-
-    return colorMap[campaignType] || colorMap.default
   }
 
-  /**
-   * Batch sync multiple campaigns
-   */
-  async batchSyncCampaigns(campaigns: Campaign[]): Promise<{ success: string[], failed: string[] }> {
-    const results = { success: [], failed: [] }
-
-    for (const campaign of campaigns) {
-      try {
-        await this.syncCampaignToCalendar(campaign)
-        results.success.push(campaign.id)
-      } catch (error) {
-        console.error(`Failed to sync campaign ${campaign.id}:`, error)
-        results.failed.push(campaign.id)
-      }
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const workspaceId = encodeURIComponent(workspaceManager.getActiveWorkspaceId())
+    const response = await authFetch(`${getBackendUrl()}/api/calendar/${workspaceId}${path}`, init)
+    if (response.status === 204) return undefined as T
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(body.error || `Backend responded ${response.status}`)
     }
-
-    return results
+    return body
   }
 }
 
 // Export singleton instance
 export const googleCalendarService = new GoogleCalendarService()
-
-// TypeScript declarations for Google API
-declare global {
-  interface Window {
-    gapi: any
-  }
-}
\ No newline at end of file
@@ -1,37 +1,77 @@
-import { type SlottedContext, defaultSlottedContext } from '../../schemas/slottedContext'
+import {
+  CONTEXT_STORAGE_KEYS,
+  fromCompanyDNA,
+  loadStoredContext,
+  migrateContext,
+} from '../../schemas/contextMigrations'
+import {
+  SLOTTED_CONTEXT_VERSION,
+  type SlottedContext,
+  SlottedContextSchema,
+  defaultSlottedContext,
+} from '../../schemas/slottedContext'
+import type { CompanyDNA } from '../ai/modern-ai-orchestrator'
+import { workspaceSync } from '../persistence/workspace-sync'
+import { workspaceManager } from '../persistence/workspaces'
 
 export class MCPContextEngine {
   private context: SlottedContext | null = null
-  private listeners: Array<(context: SlottedContext) => void> = []
+  private listeners: Array<(context: SlottedContext | null) => void> = []
 
   constructor() {
+    workspaceSync.onRemoteUpdate('context', (remote) => this.applyRemoteContext(remote))
+    workspaceManager.onWorkspaceChange(() => {
+      // Drop the previous brand before loading the next one
+      this.context = null
+      for (const listener of this.listeners) listener(null)
+      this.loadContext()
+    })
     this.loadContext()
   }
 
+  private get storageKey(): string {
+    return workspaceManager.scopedKey(CONTEXT_STORAGE_KEYS.context)
+  }
+
   public async loadContext(): Promise<SlottedContext | null> {
     try {
-      const stored = localStorage.getItem('slotted_context')
-      if (stored) {
-        this.context = JSON.parse(stored)
+      const migrated = loadStoredContext(localStorage, (key) => workspaceManager.scopedKey(key))
+      if (migrated) {
+        const storedVersion = this.readStoredVersion()
+        this.context = migrated
+        if (storedVersion !== SLOTTED_CONTEXT_VERSION) {
+          localStorage.setItem(this.storageKey, JSON.stringify(migrated))
+          console.log(`MCP Context migrated from ${storedVersion || 'legacy storage'}`)
+        }
         this.notifyListeners()
-        return this.context
       }
     } catch (error) {
       console.error('Failed to load MCP context:', error)
     }
-    return null
+
+    // Reconcile with the workspace backend without blocking local startup
+    void workspaceSync.reconcile('context', this.context).then((remote) => {
+      if (remote) this.applyRemoteContext(remote)
+    })
+
+    return this.context
   }
 
   public async saveContext(context: SlottedContext): Promise<void> {
     try {
-      context.metadata = {
-        ...context.metadata,
-        updatedAt: new Date().toISOString(),
-        mcpCompatible: true,
-      }
-
-      this.context = context
-      localStorage.setItem('slotted_context', JSON.stringify(context))
+      const validated = SlottedContextSchema.parse({
+        ...context,
+        metadata: {
+          ...context.metadata,
+          version: SLOTTED_CONTEXT_VERSION,
+          updatedAt: new Date().toISOString(),
+          mcpCompatible: true,
+        },
+      })
+
+      this.context = validated
+      localStorage.setItem(this.storageKey, JSON.stringify(validated))
+      workspaceSync.push('context', validated)
       this.notifyListeners()
 
       console.log('MCP Context saved successfully')
@@ -41,47 +81,79 @@ export class MCPContextEngine {
     }
   }
 
+  /**
+   * Merge freshly extracted Company DNA into the unified context
+   */
+  public async mergeCompanyDNA(dna: CompanyDNA): Promise<void> {
+    await this.saveContext(fromCompanyDNA(dna, this.context || {}))
+  }
+
   public getContext(): SlottedContext | null {
     return this.context
   }
 
+  /**
+   * Replace the local context with the workspace copy from the backend
+   */
+  private applyRemoteContext(remote: unknown): void {
+    try {
+      this.context = migrateContext(remote)
+      localStorage.setItem(this.storageKey, JSON.stringify(this.context))
+      this.notifyListeners()
+    } catch (error) {
+      console.error('Ignoring invalid workspace context:', error)
+    }
+  }
+
+  private readStoredVersion(): string | undefined {
+    try {
+      const stored = localStorage.getItem(this.storageKey)
+      return stored ? JSON.parse(stored).metadata?.version : undefined
+    } catch {
+      return undefined
+    }
+  }
+
   public getMCPPromptContext(): string {
     if (!this.context) {
       return 'No company context available. Please complete onboarding first.'
     }
 
+    const { company, brandDNA, marketingGoals, gtmStrategy, aiPersona } = this.context
+    const list = (values?: string[]) => values?.join(', ') || 'Not specified'
+
     return `
-COMPANY CONTEXT (MCP):
-Company: ${this.context.company.name} - ${this.context.company.industry}
-Size: ${this.context.company.size}
-Description: ${this.context.company.description}
+COMPANY CONTEXT (MCP v${this.context.metadata?.version || SLOTTED_CONTEXT_VERSION}):
+Company: ${company?.name || 'Unknown'} - ${company?.industry || 'Unknown industry'}
+Size: ${company?.size || 'Not specified'}
+Description: ${company?.description || 'Not specified'}
 
 BRAND DNA:
-Value Propositions: ${this.context.brandDNA.valuePropositions.join(', ')}
-Core Offerings: ${this.context.brandDNA.coreOfferings.join(', ')}
-Target Audience: ${this.context.brandDNA.targetAudience.demographics}
-Pain Points: ${this.context.brandDNA.targetAudience.painPoints.join(', ')}
-Brand Tone: ${this.context.brandDNA.brandTone.personality.join(', ')} - ${this.context.brandDNA.brandTone.communicationStyle}
-Brand Colors: Primary: ${this.context.brandDNA.brandColors.primary}, Secondary: ${this.context.brandDNA.brandColors.secondary}
+Value Propositions: ${list(brandDNA?.valuePropositions)}
+Core Offerings: ${list(brandDNA?.coreOfferings)}
+Target Audience: ${brandDNA?.targetAudience?.demographics || 'Not specified'}
+Pain Points: ${list(brandDNA?.targetAudience?.painPoints)}
+Brand Tone: ${list(brandDNA?.brandTone?.personality)} - ${brandDNA?.brandTone?.communicationStyle || 'Not specified'}${brandDNA?.brandTone?.styleDescription ? `\nVoice Notes: ${brandDNA.brandTone.styleDescription}` : ''}
+Brand Colors: Primary: ${brandDNA?.brandColors?.primary || 'Not specified'}, Secondary: ${brandDNA?.brandColors?.secondary || 'Not specified'}
 
 MARKETING STRATEGY:
-Primary Goals: ${this.context.marketingGoals.primaryGoals.join(', ')}
-Content Cadence: ${this.context.marketingGoals.cadence}
-Primary Channels: ${this.context.marketingGoals.channels.primary.join(', ')}
-Secondary Channels: ${this.context.marketingGoals.channels.secondary.join(', ')}
+Primary Goals: ${list(marketingGoals?.primaryGoals)}
+Content Cadence: ${marketingGoals?.cadence || 'Not specified'}
+Primary Channels: ${list(marketingGoals?.channels?.primary)}
+Secondary Channels: ${list(marketingGoals?.channels?.secondary)}
 
 GTM STRATEGY:
-Market Position: ${this.context.gtmStrategy.marketPosition}
-Competitive Advantage: ${this.context.gtmStrategy.competitiveAdvantage}
+Market Position: ${gtmStrategy?.marketPosition || 'Not specified'}
+Competitive Advantage: ${gtmStrategy?.competitiveAdvantage || 'Not specified'}
 
 AI PERSONA:
-Personality: ${this.context.aiPersona.personalityTraits.join(', ')}
-Communication: ${this.context.aiPersona.communicationPattern}
-Knowledge Areas: ${this.context.aiPersona.knowledgeAreas.join(', ')}
+Personality: ${list(aiPersona?.personalityTraits)}
+Communication: ${aiPersona?.communicationPattern || 'Not specified'}
+Knowledge Areas: ${list(aiPersona?.knowledgeAreas)}
     `.trim()
   }
 
-  public subscribe(listener: (context: SlottedContext) => void): () => void {
+  public subscribe(listener: (context: SlottedContext | null) => void): () => void {
     this.listeners.push(listener)
     return () => {
       this.listeners = this.listeners.filter((l) => l !== listener)
@@ -101,14 +173,17 @@ Knowledge Areas: ${this.context.aiPersona.knowledgeAreas.join(', ')}
     return JSON.stringify(this.context, null, 2)
   }
 
-  public importContextFromJSON(jsonString: string): void {
+  public async importContextFromJSON(jsonString: string): Promise<void> {
+    let imported: SlottedContext
     try {
-      const imported = JSON.parse(jsonString) as SlottedContext
-      this.saveContext(imported)
+      imported = migrateContext(JSON.parse(jsonString))
     } catch (error) {
       console.error('Failed to import context:', error)
-      throw new Error('Invalid JSON format for context import')
+      throw new Error(
+        `Invalid context import: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
     }
+    await this.saveContext(imported)
   }
 
   public createInitialContext(onboardingData: Partial<SlottedContext>): SlottedContext {
@@ -116,7 +191,7 @@ Knowledge Areas: ${this.context.aiPersona.knowledgeAreas.join(', ')}
       ...defaultSlottedContext,
       ...onboardingData,
       metadata: {
-        version: '1.0.0',
+        version: SLOTTED_CONTEXT_VERSION,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         mcpCompatible: true,
@@ -1,5 +1,9 @@
 import { z } from 'zod'
-import type { CompanyDNA } from '../ai/modern-ai-orchestrator'
+import { type CompanyDNA, modernAIOrchestrator } from '../ai/modern-ai-orchestrator'
+import { authFetch } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+import { workspaceManager } from '../persistence/workspaces'
+import { mcpContextEngine } from './contextEngine'
 
 // MCP Resource schemas
 export const MCPResourceSchema = z.object({
@@ -20,15 +24,48 @@ export const MCPToolSchema = z.object({
   }),
 })
 
+export type MCPTool = z.infer<typeof MCPToolSchema>
+
+export type MCPToolHandler = (parameters: Record<string, any>) => Promise<unknown>
+
+export type MCPToolErrorCode =
+  | 'TOOL_NOT_FOUND'
+  | 'HANDLER_NOT_REGISTERED'
+  | 'INVALID_PARAMETERS'
+  | 'EXECUTION_FAILED'
+
+export interface MCPToolError {
+  code: MCPToolErrorCode
+  message: string
+  details?: string[]
+}
+
+export type MCPToolResult<T = unknown> =
+  | { success: true; tool: string; result: T; executedAt: string }
+  | { success: false; tool: string; error: MCPToolError }
+
 // Modern MCP Context Engine
 export class ModernMCPContextEngine {
   private context: CompanyDNA | null = null
   private resources: Map<string, any> = new Map()
-  private tools: Map<string, any> = new Map()
-  private listeners: Set<(context: CompanyDNA) => void> = new Set()
+  private tools: Map<string, MCPTool> = new Map()
+  private handlers: Map<string, MCPToolHandler> = new Map()
+  private listeners: Set<(context: CompanyDNA | null) => void> = new Set()
 
   constructor() {
     this.initializeDefaultTools()
+
+    workspaceManager.onWorkspaceChange(() => {
+      // Never serve the previous brand's DNA as a resource for the next one
+      this.context = null
+      this.resources.clear()
+      for (const listener of this.listeners) listener(null)
+      void this.loadContext()
+    })
+  }
+
+  private get storageKey(): string {
+    return workspaceManager.scopedKey('slotted_company_dna_v2')
   }
 
   /**
@@ -46,6 +83,7 @@ export class ModernMCPContextEngine {
           website: { type: 'string', description: 'Company website URL' },
           industry: { type: 'string', description: 'Company industry' },
           description: { type: 'string', description: 'Company description' },
+          save: { type: 'boolean', description: 'Store the result as the active company context' },
         },
         required: ['companyName'],
       },
@@ -89,9 +127,45 @@ export class ModernMCPContextEngine {
       },
     })
 
+    this.registerDefaultToolHandlers()
+
     console.log('🔧 MCP tools initialized')
   }
 
+  /**
+   * Wire default MCP tools to the AI orchestrator
+   */
+  private registerDefaultToolHandlers(): void {
+    this.registerToolHandler('extract_company_dna', async ({ save, ...input }) => {
+      const workspaceId = workspaceManager.getActiveWorkspaceId()
+      const companyDNA = await modernAIOrchestrator.extractCompanyDNA(
+        input as Parameters<typeof modernAIOrchestrator.extractCompanyDNA>[0]
+      )
+      // Skip saving if the user switched brands while extraction was running
+      if (save && workspaceId === workspaceManager.getActiveWorkspaceId()) {
+        await this.saveContext(companyDNA)
+      }
+      return companyDNA
+    })
+
+    this.registerToolHandler('analyze_brand_voice', ({ content, context }) =>
+      modernAIOrchestrator.analyzeBrandVoice(content, context)
+    )
+
+    this.registerToolHandler('generate_marketing_content', ({ contentType, topic, length, tone }) =>
+      modernAIOrchestrator.generateContent({
+        prompt: [
+          `Write a ${contentType} piece about "${topic}".`,
+          length ? `Target length: ${length} words.` : '',
+          tone ? `Tone: ${tone}.` : '',
+        ]
+          .filter(Boolean)
+          .join('\n'),
+        context: this.getMCPPromptContext(),
+      })
+    )
+  }
+
   /**
    * Load company context from storage
    */
@@ -99,7 +173,7 @@ export class ModernMCPContextEngine {
     try {
       // Try localStorage first
       if (typeof window !== 'undefined') {
-        const stored = localStorage.getItem('slotted_company_dna_v2')
+        const stored = localStorage.getItem(this.storageKey)
         if (stored) {
           this.context = JSON.parse(stored)
           this.notifyListeners()
@@ -133,14 +207,20 @@ export class ModernMCPContextEngine {
 
       // Save to localStorage
       if (typeof window !== 'undefined') {
-        localStorage.setItem('slotted_company_dna_v2', JSON.stringify(context))
+        localStorage.setItem(this.storageKey, JSON.stringify(context))
       }
 
       // TODO: Save to database (Supabase)
 
+      // Keep the unified Slotted context in sync with the latest DNA
+      await mcpContextEngine.mergeCompanyDNA(context)
+
       // Update MCP resources
       this.updateMCPResources(context)
 
+      // Make the context available to external MCP clients
+      void this.publishToMCPServer(context)
+
       // Notify listeners
       this.notifyListeners()
 
@@ -151,6 +231,29 @@ export class ModernMCPContextEngine {
     }
   }
 
+  /**
+   * Publish context to the backend MCP server so stdio/SSE clients can read it.
+   * The backend is optional, so failures are logged rather than thrown.
+   */
+  private async publishToMCPServer(context: CompanyDNA): Promise<void> {
+    try {
+      const response = await authFetch(
+        `${getBackendUrl()}/api/mcp/context?workspaceId=${encodeURIComponent(workspaceManager.getActiveWorkspaceId())}`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(context),
+        }
+      )
+
+      if (!response.ok) {
+        console.warn(`⚠️ MCP server rejected context: ${response.status}`)
+      }
+    } catch (error) {
+      console.warn('⚠️ MCP server unavailable, context kept locally:', error)
+    }
+  }
+
   /**
    * Update MCP resources based on company context
    */
@@ -205,11 +308,21 @@ export class ModernMCPContextEngine {
   /**
    * Register MCP tool
    */
-  public registerTool(tool: z.infer<typeof MCPToolSchema>): void {
+  public registerTool(tool: MCPTool): void {
     const validated = MCPToolSchema.parse(tool)
     this.tools.set(validated.name, validated)
   }
 
+  /**
+   * Register the handler that executes a registered MCP tool
+   */
+  public registerToolHandler(toolName: string, handler: MCPToolHandler): void {
+    if (!this.tools.has(toolName)) {
+      throw new Error(`Cannot register handler for unknown tool: ${toolName}`)
+    }
+    this.handlers.set(toolName, handler)
+  }
+
   /**
    * Get MCP prompt context for AI models
    */
@@ -309,29 +422,112 @@ USE THIS CONTEXT FOR:
   }
 
   /**
-   * Execute MCP tool
+   * Execute MCP tool after validating parameters against its input schema
    */
-  public async executeTool(toolName: string, parameters: Record<string, any>): Promise<any> {
+  public async executeTool<T = unknown>(
+    toolName: string,
+    parameters: Record<string, any>
+  ): Promise<MCPToolResult<T>> {
     const tool = this.tools.get(toolName)
     if (!tool) {
-      throw new Error(`Tool not found: ${toolName}`)
+      return {
+        success: false,
+        tool: toolName,
+        error: { code: 'TOOL_NOT_FOUND', message: `Tool not found: ${toolName}` },
+      }
+    }
+
+    const handler = this.handlers.get(toolName)
+    if (!handler) {
+      return {
+        success: false,
+        tool: toolName,
+        error: {
+          code: 'HANDLER_NOT_REGISTERED',
+          message: `No handler registered for tool: ${toolName}`,
+        },
+      }
+    }
+
+    const validationErrors = this.validateParameters(tool.inputSchema, parameters)
+    if (validationErrors.length > 0) {
+      return {
+        success: false,
+        tool: toolName,
+        error: {
+          code: 'INVALID_PARAMETERS',
+          message: `Invalid parameters for tool ${toolName}`,
+          details: validationErrors,
+        },
+      }
+    }
+
+    console.log(`🔧 Executing MCP tool: ${toolName}`)
+
+    try {
+      const result = (await handler(parameters)) as T
+      return { success: true, tool: toolName, result, executedAt: new Date().toISOString() }
+    } catch (error) {
+      console.error(`❌ MCP tool ${toolName} failed:`, error)
+      return {
+        success: false,
+        tool: toolName,
+        error: {
+          code: 'EXECUTION_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      }
     }
+  }
 
-    // TODO: Implement actual tool execution logic
-    console.log(`🔧 Executing MCP tool: ${toolName}`, parameters)
+  /**
+   * Validate tool parameters against a JSON-schema style input schema
+   */
+  private validateParameters(
+    schema: MCPTool['inputSchema'],
+    parameters: Record<string, any>
+  ): string[] {
+    if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) {
+      return ['Parameters must be an object']
+    }
 
-    // For now, return a placeholder response
-    return {
-      success: true,
-      result: `Tool ${toolName} executed with parameters`,
-      parameters,
+    const errors: string[] = []
+
+    for (const name of schema.required || []) {
+      if (parameters[name] === undefined || parameters[name] === null) {
+        errors.push(`Missing required parameter: ${name}`)
+      }
     }
+
+    for (const [name, value] of Object.entries(parameters)) {
+      const property = schema.properties[name]
+      if (!property) {
+        errors.push(`Unknown parameter: ${name}`)
+      } else if (value !== undefined) {
+        errors.push(...this.validateProperty(name, property, value))
+      }
+    }
+
+    return errors
+  }
+
+  private validateProperty(name: string, property: Record<string, any>, value: unknown): string[] {
+    const actualType = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value
+    if (property.type && property.type !== actualType) {
+      return [`Parameter ${name} must be of type ${property.type}, received ${actualType}`]
+    }
+
+    if (Array.isArray(property.enum) && !property.enum.includes(value)) {
+      return [`Parameter ${name} must be one of: ${property.enum.join(', ')}`]
+    }
+
+    return []
   }
 
   /**
    * Subscribe to context changes
    */
-  public subscribe(listener: (context: CompanyDNA) => void): () => void {
+  public subscribe(listener: (context: CompanyDNA | null) => void): () => void {
     this.listeners.add(listener)
     return () => {
       this.listeners.delete(listener)
@@ -369,7 +565,7 @@ USE THIS CONTEXT FOR:
     this.resources.clear()
 
     if (typeof window !== 'undefined') {
-      localStorage.removeItem('slotted_company_dna_v2')
+      localStorage.removeItem(this.storageKey)
     }
 
     this.initializeDefaultTools()
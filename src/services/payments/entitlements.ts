@@ -0,0 +1,207 @@
+/**
+ * What the active workspace's plan allows, as enforced by the backend:
+ * whether website analysis is included, which AI models and export formats
+ * can be used, and how many analyses are left this month. While billing
+ * isn't configured nothing is blocked; without a reachable backend only
+ * analyses are, since the backend has to count them.
+ */
+import { authFetch } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+import { workspaceManager } from '../persistence/workspaces'
+import { ALL_PLANS, type Entitlement, type PaymentPlan } from './stripe-integration'
+
+export type EntitlementCode =
+  | 'no_plan'
+  | 'quota_exhausted'
+  | 'website_analysis'
+  | 'model_not_included'
+  | 'export_format_not_included'
+
+export interface QuotaUsage {
+  month: string
+  analysesUsed: number
+  analysesLimit?: number
+  remaining?: number
+  resetsAt: string
+}
+
+export interface EntitlementStatus extends Entitlement {
+  enforced: boolean
+  usage: QuotaUsage
+}
+
+export type UpgradePlan = Pick<PaymentPlan, 'id' | 'name' | 'price'>
+
+export class EntitlementError extends Error {
+  constructor(
+    message: string,
+    public code: EntitlementCode,
+    public upgradeTo?: UpgradePlan
+  ) {
+    super(message)
+    this.name = 'EntitlementError'
+  }
+}
+
+const currentMonth = () => new Date().toISOString().slice(0, 7)
+
+// Plan models are families; "claude-3-5-sonnet-20241022" is a claude-3-5-sonnet,
+// but gpt-4o-mini isn't a gpt-4o
+const includesModel = (models: string[], model: string) =>
+  models.some(
+    (family) =>
+      model === family || (model.startsWith(family) && /^-\d/.test(model.slice(family.length)))
+  )
+
+const cheapestPlan = (allows: (plan: PaymentPlan) => boolean): UpgradePlan | undefined => {
+  const plan = ALL_PLANS.filter(allows).sort((a, b) => a.price - b.price)[0]
+  return plan && { id: plan.id, name: plan.name, price: plan.price }
+}
+
+export class EntitlementClient {
+  // Latest status per workspace
+  private statuses = new Map<string, EntitlementStatus>()
+  private listeners: Set<() => void> = new Set()
+
+  constructor() {
+    workspaceManager.onWorkspaceChange(() => this.notify())
+  }
+
+  /**
+   * The active workspace's entitlement, fetched once a month or on `refresh`
+   */
+  public async getStatus(refresh = false): Promise<EntitlementStatus | undefined> {
+    const workspaceId = workspaceManager.getActiveWorkspaceId()
+    const cached = this.statuses.get(workspaceId)
+    if (cached && cached.usage.month === currentMonth() && !refresh) return cached
+
+    try {
+      const response = await authFetch(
+        `${getBackendUrl()}/api/billing/entitlements?workspaceId=${encodeURIComponent(workspaceId)}`
+      )
+      if (!response.ok) return cached
+      return this.store(workspaceId, await response.json())
+    } catch {
+      return cached
+    }
+  }
+
+  /**
+   * The active workspace's last known entitlement, for rendering
+   */
+  public getCached(): EntitlementStatus | undefined {
+    return this.statuses.get(workspaceManager.getActiveWorkspaceId())
+  }
+
+  /**
+   * Use one of this month's analyses before running one. Throws
+   * EntitlementError without a plan or once the quota is spent, and fails
+   * whenever the backend couldn't count the analysis.
+   */
+  public async consumeAnalysis(): Promise<void> {
+    const workspaceId = workspaceManager.getActiveWorkspaceId()
+    let response: Response
+    try {
+      response = await authFetch(`${getBackendUrl()}/api/billing/entitlements/analyses`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspaceId }),
+      })
+    } catch {
+      throw new Error('Analyses need the backend to count them; try again once you are online')
+    }
+
+    const body = await response.json().catch(() => ({}))
+    if (response.status === 402) {
+      throw new EntitlementError(body.error, body.code, body.upgradeTo)
+    }
+    if (!response.ok) {
+      throw new Error(body.error || `Backend responded ${response.status}`)
+    }
+    this.store(workspaceId, body)
+  }
+
+  public allowsWebsiteAnalysis(): boolean {
+    return this.allows((limitations) => limitations.websiteAnalysis)
+  }
+
+  public allowsModel(model: string): boolean {
+    return this.allows((limitations) => includesModel(limitations.aiModels, model))
+  }
+
+  public allowsExportFormat(format: string): boolean {
+    return this.allows((limitations) => limitations.exportFormats.includes(format))
+  }
+
+  public async assertWebsiteAnalysis(): Promise<void> {
+    await this.getStatus()
+    if (!this.allowsWebsiteAnalysis()) {
+      throw this.denied(
+        'Website analysis is not included in this plan',
+        'website_analysis',
+        (plan) => plan.limitations.websiteAnalysis
+      )
+    }
+  }
+
+  public async assertModel(model: string): Promise<void> {
+    await this.getStatus()
+    if (!this.allowsModel(model)) {
+      throw this.denied(`${model} is not included in this plan`, 'model_not_included', (plan) =>
+        includesModel(plan.limitations.aiModels, model)
+      )
+    }
+  }
+
+  public async assertExportFormat(format: string): Promise<void> {
+    await this.getStatus()
+    if (!this.allowsExportFormat(format)) {
+      throw this.denied(
+        `${format.toUpperCase()} export is not included in this plan`,
+        'export_format_not_included',
+        (plan) => plan.limitations.exportFormats.includes(format)
+      )
+    }
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private allows(check: (limitations: PaymentPlan['limitations']) => boolean): boolean {
+    const status = this.getCached()
+    if (!status?.enforced) return true
+    return Boolean(status.active && status.limitations && check(status.limitations))
+  }
+
+  private denied(
+    message: string,
+    code: EntitlementCode,
+    upgrade: (plan: PaymentPlan) => boolean
+  ): EntitlementError {
+    return this.getCached()?.active
+      ? new EntitlementError(message, code, cheapestPlan(upgrade))
+      : new EntitlementError(
+          'This workspace needs an active plan',
+          'no_plan',
+          cheapestPlan(() => true)
+        )
+  }
+
+  private store(workspaceId: string, status: EntitlementStatus): EntitlementStatus {
+    this.statuses.set(workspaceId, status)
+    this.notify()
+    return status
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener()
+    }
+  }
+}
+
+export const entitlements = new EntitlementClient()
@@ -0,0 +1,223 @@
+/**
+ * Billable usage for agencies reselling Slotted: DNA extractions, marketing
+ * calendars, blog posts and scheduled publishes, counted per workspace by
+ * the backend, priced from the workspace's rate card and invoiced per
+ * billing period. Events produced in the browser are queued in localStorage
+ * and resent once the backend is reachable.
+ */
+import { authFetch } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+import { workspaceManager } from '../persistence/workspaces'
+
+export type BillableKind = 'dna_extraction' | 'calendar' | 'blog_post' | 'scheduled_publish'
+
+export const BILLABLE_KINDS: BillableKind[] = [
+  'dna_extraction',
+  'calendar',
+  'blog_post',
+  'scheduled_publish',
+]
+
+// The kinds the browser files; the backend records the rest itself
+export type BrowserBillableKind = Extract<BillableKind, 'calendar' | 'blog_post'>
+
+export const KIND_LABELS: Record<BillableKind, string> = {
+  dna_extraction: 'Company DNA extractions',
+  calendar: 'Marketing calendars',
+  blog_post: 'Blog posts',
+  scheduled_publish: 'Scheduled publishes',
+}
+
+export interface RateCard {
+  currency: string
+  rates: Record<BillableKind, number>
+  stripeCustomerId?: string
+  updatedAt?: string
+}
+
+export interface BillingPeriod {
+  start: string
+  end: string
+}
+
+export interface MeteredUsage {
+  workspaceId: string
+  period: BillingPeriod
+  counts: Record<BillableKind, number>
+  rates: RateCard
+  // Whether events are reported to Stripe Billing Meters
+  stripeReporting: boolean
+}
+
+export interface StripeSyncResult {
+  reported: number
+  failed: number
+  skipped?: string
+}
+
+export type InvoiceFormat = 'csv' | 'pdf'
+
+interface QueuedEvent {
+  workspaceId: string
+  kind: BrowserBillableKind
+  // Lets the backend count a resent event once
+  reference: string
+}
+
+const QUEUE_KEY = 'slotted_metering_queue'
+
+export class MeteringClient {
+  private listeners: Set<() => void> = new Set()
+  private flushing: Promise<void> | null = null
+
+  constructor() {
+    if (typeof window === 'undefined') return
+
+    window.addEventListener('online', () => {
+      void this.flush()
+    })
+  }
+
+  /**
+   * Count a billable event for the active workspace. Metering never fails
+   * the generation being billed.
+   */
+  public record(kind: BrowserBillableKind): void {
+    const event: QueuedEvent = {
+      workspaceId: workspaceManager.getActiveWorkspaceId(),
+      kind,
+      reference: crypto.randomUUID(),
+    }
+    this.saveQueue([...this.loadQueue(), event])
+    void this.flush().then(() => this.notify())
+  }
+
+  /**
+   * Counts for the active workspace's billing period containing `date`
+   */
+  public async getUsage(date?: Date): Promise<MeteredUsage> {
+    return this.request(`/usage?${this.params(date)}`)
+  }
+
+  public async setRates(update: Partial<RateCard>): Promise<RateCard> {
+    const workspaceId = workspaceManager.getActiveWorkspaceId()
+    const card = await this.request<RateCard>(`/rates/${encodeURIComponent(workspaceId)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(update),
+    })
+    this.notify()
+    return card
+  }
+
+  /**
+   * Download the invoice for the billing period containing `date`
+   */
+  public async downloadInvoice(format: InvoiceFormat, date?: Date): Promise<void> {
+    const response = await authFetch(
+      `${getBackendUrl()}/api/metering/invoice?${this.params(date)}&format=${format}`
+    )
+    if (!response.ok) {
+      throw new Error(`Backend responded ${response.status}`)
+    }
+
+    const filename =
+      response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ||
+      `invoice.${format}`
+    const url = URL.createObjectURL(await response.blob())
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  /**
+   * Report events Stripe hasn't received yet
+   */
+  public async syncStripe(): Promise<StripeSyncResult> {
+    const result = await this.request<StripeSyncResult>('/stripe/sync', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workspaceId: workspaceManager.getActiveWorkspaceId() }),
+    })
+    this.notify()
+    return result
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener()
+    }
+  }
+
+  private params(date?: Date): string {
+    const params = new URLSearchParams({ workspaceId: workspaceManager.getActiveWorkspaceId() })
+    if (date) params.set('date', date.toISOString())
+    return params.toString()
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await authFetch(`${getBackendUrl()}/api/metering${path}`, init)
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(body.error || `Backend responded ${response.status}`)
+    }
+    return body
+  }
+
+  /**
+   * Send queued events in order, stopping at the first failure so the rest
+   * are retried later
+   */
+  private flush(): Promise<void> {
+    if (this.flushing) return this.flushing
+
+    this.flushing = (async () => {
+      try {
+        for (;;) {
+          const [next] = this.loadQueue()
+          if (!next) return
+
+          const response = await authFetch(`${getBackendUrl()}/api/metering/events`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(next),
+          })
+          // Drop events the backend rejects, or that this role can't file, so one
+          // bad entry can't block the queue
+          if (!response.ok && response.status !== 400 && response.status !== 403) return
+
+          this.saveQueue(this.loadQueue().slice(1))
+        }
+      } catch {
+        // Offline; retried on the next event or when the browser reconnects
+      } finally {
+        this.flushing = null
+      }
+    })()
+
+    return this.flushing
+  }
+
+  private loadQueue(): QueuedEvent[] {
+    try {
+      return JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]')
+    } catch {
+      return []
+    }
+  }
+
+  private saveQueue(queue: QueuedEvent[]): void {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue))
+  }
+}
+
+export const meteringClient = new MeteringClient()
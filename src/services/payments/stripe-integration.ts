@@ -1,4 +1,8 @@
 import { z } from 'zod'
+import { authFetch } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+import { workspaceSync } from '../persistence/workspace-sync'
+import { workspaceManager } from '../persistence/workspaces'
 
 // Payment plan schemas
 export const PaymentPlanSchema = z.object({
@@ -235,106 +239,89 @@ export const MVP3_PLANS: PaymentPlan[] = [
   },
 ]
 
-// Payment session schema
-export const PaymentSessionSchema = z.object({
-  sessionId: z.string(),
-  planId: z.string(),
-  customerEmail: z.string().email(),
-  companyName: z.string(),
-  status: z.enum(['pending', 'completed', 'failed']),
-  createdAt: z.string(),
-  metadata: z.record(z.any()).optional(),
-})
+export type SubscriptionStatus = 'trialing' | 'active' | 'past_due' | 'canceled' | 'incomplete'
+
+export interface WorkspaceSubscription {
+  workspaceId: string
+  planId: string
+  status: SubscriptionStatus
+  trialEndsAt?: string
+  currentPeriodEnd?: string
+  cancelAtPeriodEnd: boolean
+  canceledAt?: string
+  updatedAt: string
+}
 
-export type PaymentSession = z.infer<typeof PaymentSessionSchema>
+/**
+ * What the workspace's plan allows, as the backend enforces it. `active` is
+ * false without a trialing, active or past-due subscription.
+ */
+export interface Entitlement {
+  workspaceId: string
+  active: boolean
+  planId?: string
+  status?: SubscriptionStatus
+  limitations?: PaymentPlan['limitations']
+}
 
-// Mock Stripe integration (replace with real Stripe in production)
+export const ALL_PLANS: PaymentPlan[] = [...MVP1_PLANS, ...MVP2_PLANS, ...MVP3_PLANS]
+
+/**
+ * Subscriptions through Stripe Checkout, run by the backend. The browser
+ * never sees Stripe keys: it is sent to the Checkout page and comes back
+ * with ?checkout=success&session_id=… once Stripe has taken payment.
+ */
 export class StripePaymentProcessor {
-  private apiKey: string
-  private sessions: Map<string, PaymentSession> = new Map()
+  private entitlement: Entitlement | null = null
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey
+  constructor() {
+    workspaceManager.onWorkspaceChange(() => {
+      this.entitlement = null
+    })
   }
 
   /**
-   * Create payment session for MVP #1
+   * Start a checkout for the active workspace and return the Stripe page to
+   * redirect to
    */
   public async createPaymentSession(options: {
     planId: string
-    customerEmail: string
-    companyName: string
-    successUrl: string
-    cancelUrl: string
+    companyName?: string
   }): Promise<{ sessionId: string; checkoutUrl: string }> {
-    try {
-      const allPlans = [...MVP1_PLANS, ...MVP2_PLANS, ...MVP3_PLANS]
-      const plan = allPlans.find((p) => p.id === options.planId)
-      if (!plan) {
-        throw new Error(`Invalid plan ID: ${options.planId}`)
-      }
-
-      // In production, this would call the real Stripe API
-      const sessionId = `sess_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    const plan = ALL_PLANS.find((p) => p.id === options.planId)
+    if (!plan) {
+      throw new Error(`Invalid plan ID: ${options.planId}`)
+    }
 
-      const session: PaymentSession = {
-        sessionId,
-        planId: options.planId,
-        customerEmail: options.customerEmail,
+    const { sessionId, url } = await this.request<{ sessionId: string; url: string }>('/checkout', {
+      method: 'POST',
+      body: JSON.stringify({
+        workspaceId: workspaceManager.getActiveWorkspaceId(),
+        planId: plan.id,
         companyName: options.companyName,
-        status: 'pending',
-        createdAt: new Date().toISOString(),
-        metadata: {
-          plan: plan.name,
-          price: plan.price,
-        },
-      }
-
-      this.sessions.set(sessionId, session)
-
-      // Mock checkout URL (replace with real Stripe checkout in production)
-      const checkoutUrl = `https://checkout.stripe.com/pay/${sessionId}#fidkdWxOYHwnPyd1blppbHNgWjA0VUJfY`
-
-      console.log(`💳 Payment session created: ${sessionId} for plan ${plan.name} ($${plan.price})`)
-
-      return { sessionId, checkoutUrl }
-    } catch (error) {
-      console.error('❌ Payment session creation failed:', error)
-      throw new Error(
-        `Failed to create payment session: ${error instanceof Error ? error.message : 'Unknown error'}`
-      )
-    }
+      }),
+    })
+    console.log(`💳 Payment session created: ${sessionId} for plan ${plan.name} ($${plan.price})`)
+    return { sessionId, checkoutUrl: url }
   }
 
   /**
-   * Verify payment completion
+   * Check a checkout after Stripe redirects back. Succeeds once the
+   * subscription is trialing or active.
    */
   public async verifyPayment(sessionId: string): Promise<{
     success: boolean
     planId?: string
-    customerEmail?: string
-    companyName?: string
+    status?: SubscriptionStatus
   }> {
     try {
-      // In production, this would verify with Stripe webhook
-      const session = this.sessions.get(sessionId)
-
-      if (!session) {
-        return { success: false }
-      }
-
-      // Mock successful payment (in production, check actual payment status)
-      session.status = 'completed'
-      this.sessions.set(sessionId, session)
-
-      console.log(`✅ Payment verified: ${sessionId}`)
-
-      return {
-        success: true,
-        planId: session.planId,
-        customerEmail: session.customerEmail,
-        companyName: session.companyName,
-      }
+      const { subscription } = await this.request<{ subscription?: WorkspaceSubscription }>(
+        `/checkout/${encodeURIComponent(sessionId)}?${this.workspaceQuery()}`
+      )
+      this.entitlement = null
+      const success = subscription?.status === 'trialing' || subscription?.status === 'active'
+      if (success) console.log(`✅ Payment verified: ${sessionId}`)
+      return { success, planId: subscription?.planId, status: subscription?.status }
     } catch (error) {
       console.error('❌ Payment verification failed:', error)
       return { success: false }
@@ -342,23 +329,59 @@ export class StripePaymentProcessor {
   }
 
   /**
-   * Get payment session details
+   * The active workspace's subscription and entitlement
    */
-  public getSession(sessionId: string): PaymentSession | null {
-    return this.sessions.get(sessionId) || null
+  public async getSubscription(): Promise<{
+    subscription: WorkspaceSubscription | null
+    entitlement: Entitlement
+  }> {
+    const result = await this.request<{
+      subscription: WorkspaceSubscription | null
+      entitlement: Entitlement
+    }>(`/subscription?${this.workspaceQuery()}`)
+    this.entitlement = result.entitlement
+    return result
   }
 
   /**
-   * Check if user has valid access to features
+   * Stop renewing; the plan lasts until the end of the paid period
    */
-  public hasAccess(userEmail: string, feature: string): boolean {
-    // In production, this would check user's subscription status
-    // For now, mock as true for development
-    return true
+  public async cancelSubscription(): Promise<WorkspaceSubscription> {
+    const subscription = await this.request<WorkspaceSubscription>('/subscription/cancel', {
+      method: 'POST',
+      body: JSON.stringify({ workspaceId: workspaceManager.getActiveWorkspaceId() }),
+    })
+    this.entitlement = null
+    return subscription
+  }
+
+  /**
+   * Whether the active workspace has a paid plan, as of the last
+   * getSubscription()
+   */
+  public hasAccess(): boolean {
+    return Boolean(this.entitlement?.active)
+  }
+
+  private workspaceQuery(): string {
+    return `workspaceId=${encodeURIComponent(workspaceManager.getActiveWorkspaceId())}`
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await authFetch(`${getBackendUrl()}/api/billing${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    })
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      throw new Error(body.error || `Billing service responded ${response.status}`)
+    }
+    return response.json()
   }
 }
 
-// Payment state management
+// Purchases made from this workspace. Monthly quotas are kept by the
+// backend; see entitlements.ts
 export class PaymentStateManager {
   private purchases: Map<
     string,
@@ -366,10 +389,21 @@ export class PaymentStateManager {
       email: string
       planId: string
       purchasedAt: string
-      analysesUsed: number
     }
   > = new Map()
 
+  constructor() {
+    workspaceSync.onRemoteUpdate('purchases', (remote) => this.applyRemotePurchases(remote))
+    workspaceManager.onWorkspaceChange(() => {
+      this.purchases = new Map()
+      this.loadPurchases()
+    })
+  }
+
+  private get storageKey(): string {
+    return workspaceManager.scopedKey('slotted_purchases')
+  }
+
   /**
    * Record successful purchase
    */
@@ -379,69 +413,9 @@ export class PaymentStateManager {
       email,
       planId,
       purchasedAt: new Date().toISOString(),
-      analysesUsed: 0,
     })
 
-    // Save to localStorage for persistence
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(
-        'slotted_purchases',
-        JSON.stringify(Array.from(this.purchases.entries()))
-      )
-    }
-  }
-
-  /**
-   * Check remaining analyses for user
-   */
-  public getRemainingAnalyses(email: string): number {
-    const userPurchases = Array.from(this.purchases.values()).filter((p) => p.email === email)
-
-    let totalRemaining = 0
-
-    for (const purchase of userPurchases) {
-      const allPlans = [...MVP1_PLANS, ...MVP2_PLANS, ...MVP3_PLANS]
-      const plan = allPlans.find((p) => p.id === purchase.planId)
-      if (plan && plan.limitations.analysesPerMonth) {
-        const remaining = plan.limitations.analysesPerMonth - purchase.analysesUsed
-        totalRemaining += Math.max(0, remaining)
-      }
-    }
-
-    return totalRemaining
-  }
-
-  /**
-   * Use one analysis credit
-   */
-  public useAnalysisCredit(email: string): boolean {
-    const remaining = this.getRemainingAnalyses(email)
-    if (remaining <= 0) {
-      return false
-    }
-
-    // Find the most recent purchase and increment usage
-    const userPurchases = Array.from(this.purchases.entries())
-      .filter(([_, p]) => p.email === email)
-      .sort(
-        ([_, a], [__, b]) => new Date(b.purchasedAt).getTime() - new Date(a.purchasedAt).getTime()
-      )
-
-    if (userPurchases.length > 0) {
-      const [key, purchase] = userPurchases[0]
-      purchase.analysesUsed += 1
-      this.purchases.set(key, purchase)
-
-      // Update localStorage
-      if (typeof window !== 'undefined') {
-        localStorage.setItem(
-          'slotted_purchases',
-          JSON.stringify(Array.from(this.purchases.entries()))
-        )
-      }
-    }
-
-    return true
+    this.persistPurchases()
   }
 
   /**
@@ -449,7 +423,7 @@ export class PaymentStateManager {
    */
   public loadPurchases(): void {
     if (typeof window !== 'undefined') {
-      const stored = localStorage.getItem('slotted_purchases')
+      const stored = localStorage.getItem(this.storageKey)
       if (stored) {
         try {
           const entries = JSON.parse(stored)
@@ -458,14 +432,34 @@ export class PaymentStateManager {
           console.error('Failed to load purchases:', error)
         }
       }
+
+      void workspaceSync
+        .reconcile('purchases', this.purchases.size ? Array.from(this.purchases.entries()) : null)
+        .then((remote) => remote && this.applyRemotePurchases(remote))
     }
   }
+
+  /**
+   * Save purchases locally and queue them for the workspace backend
+   */
+  private persistPurchases(): void {
+    if (typeof window !== 'undefined') {
+      const entries = Array.from(this.purchases.entries())
+      localStorage.setItem(this.storageKey, JSON.stringify(entries))
+      workspaceSync.push('purchases', entries)
+    }
+  }
+
+  private applyRemotePurchases(remote: unknown): void {
+    if (!Array.isArray(remote)) return
+
+    this.purchases = new Map(remote)
+    localStorage.setItem(this.storageKey, JSON.stringify(remote))
+  }
 }
 
 // Export singleton instances
-export const stripeProcessor = new StripePaymentProcessor(
-  process.env.VITE_STRIPE_PUBLISHABLE_KEY || 'pk_test_mock_key'
-)
+export const stripeProcessor = new StripePaymentProcessor()
 
 export const paymentStateManager = new PaymentStateManager()
 
@@ -0,0 +1,339 @@
+/**
+ * Offline-first sync between the browser stores and the backend workspace API.
+ *
+ * Every store keeps writing to localStorage first, so the app works without
+ * the backend. Changes are pushed to /api/workspaces in the background; pushes
+ * that fail are marked pending and retried when the browser comes back online
+ * or the store is next loaded. On load each store reconciles with the server,
+ * which settles edits by revision: an offline edit is kept only when the
+ * server copy hasn't changed since, otherwise the server copy is adopted.
+ *
+ * Uploads are bound to the workspace that was active when the change was
+ * made, so switching brands mid-upload can't write into the wrong workspace.
+ */
+import { authFetch, authSession } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+import { workspaceManager } from './workspaces'
+
+export type WorkspaceDocumentKey =
+  | 'context'
+  | 'channels'
+  | 'marketingState'
+  | 'purchases'
+  | 'retailResults'
+  | 'campaignMilestones'
+
+export interface WorkspaceDocument<T = unknown> {
+  key: WorkspaceDocumentKey
+  data: T
+  revision: number
+  updatedAt: string
+}
+
+interface SyncMeta {
+  revision?: number
+  updatedAt?: string
+  pending?: boolean
+}
+
+interface QueuedUpload {
+  workspaceId: string
+  key: WorkspaceDocumentKey
+  data: unknown
+}
+
+type RemoteUpdateListener = (data: unknown) => void
+
+const SYNC_META_KEY = 'slotted_sync_meta'
+const PUSH_DEBOUNCE_MS = 1000
+
+const queueId = (workspaceId: string, key: WorkspaceDocumentKey) => `${workspaceId}/${key}`
+
+export class WorkspaceSyncClient {
+  private queued = new Map<string, QueuedUpload>()
+  private timers = new Map<string, ReturnType<typeof setTimeout>>()
+  private listeners = new Map<WorkspaceDocumentKey, Set<RemoteUpdateListener>>()
+  private workspacesReady = new Map<string, Promise<boolean>>()
+
+  constructor() {
+    if (typeof window === 'undefined') return
+
+    window.addEventListener('online', () => {
+      void this.flushPending()
+    })
+  }
+
+  /**
+   * Subscribe to server copies that replace local data after a rejected push
+   * in the active workspace
+   */
+  public onRemoteUpdate(key: WorkspaceDocumentKey, listener: RemoteUpdateListener): () => void {
+    const listeners = this.listeners.get(key) || new Set()
+    listeners.add(listener)
+    this.listeners.set(key, listeners)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Queue a local change to the active workspace for upload. Rapid edits are
+   * coalesced so only the latest data is sent.
+   */
+  public push(key: WorkspaceDocumentKey, data: unknown): void {
+    if (typeof window === 'undefined') return
+
+    const workspaceId = workspaceManager.getActiveWorkspaceId()
+    const id = queueId(workspaceId, key)
+    this.updateMeta(workspaceId, key, { updatedAt: new Date().toISOString(), pending: true })
+    this.queued.set(id, { workspaceId, key, data })
+
+    clearTimeout(this.timers.get(id))
+    this.timers.set(
+      id,
+      setTimeout(() => {
+        this.timers.delete(id)
+        void this.upload(id)
+      }, PUSH_DEBOUNCE_MS)
+    )
+  }
+
+  /**
+   * Upload a change right away instead of after the debounce, for when the
+   * backend is about to read it
+   */
+  public async pushNow(key: WorkspaceDocumentKey, data: unknown): Promise<void> {
+    this.push(key, data)
+    const id = queueId(workspaceManager.getActiveWorkspaceId(), key)
+    clearTimeout(this.timers.get(id))
+    this.timers.delete(id)
+    await this.upload(id)
+  }
+
+  /**
+   * Reconcile local data in the active workspace with the server copy.
+   * Returns the server data when it should replace the local copy, or null
+   * when local data stays.
+   */
+  public async reconcile<T>(key: WorkspaceDocumentKey, localData: T | null): Promise<T | null> {
+    if (typeof window === 'undefined') return null
+
+    const workspaceId = workspaceManager.getActiveWorkspaceId()
+    const id = queueId(workspaceId, key)
+    const hasLocal = localData !== null && localData !== undefined
+    if (!(await this.ensureWorkspace(workspaceId))) return null
+
+    try {
+      const remote = await this.fetchDocument<T>(workspaceId, key)
+      const meta = this.readMeta(workspaceId)[key] || {}
+
+      if (!remote) {
+        if (hasLocal) {
+          this.queued.set(id, { workspaceId, key, data: localData })
+          await this.upload(id)
+        }
+        return null
+      }
+
+      if (meta.pending && hasLocal) {
+        // Offline edits: let the server decide, adopting its copy on conflict
+        this.queued.set(id, { workspaceId, key, data: localData })
+        return (await this.upload(id, false)) as T | null
+      }
+
+      // The user switched brands while this was loading; don't leak this
+      // workspace's data into the new one
+      if (workspaceId !== workspaceManager.getActiveWorkspaceId()) return null
+
+      if (!hasLocal || (meta.revision ?? 0) < remote.revision) {
+        this.updateMeta(workspaceId, key, {
+          revision: remote.revision,
+          updatedAt: remote.updatedAt,
+          pending: false,
+        })
+        return remote.data
+      }
+
+      return null
+    } catch (error) {
+      console.warn(`⚠️ Workspace sync unavailable for ${key}, using local data:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Retry every upload that failed while offline
+   */
+  public async flushPending(): Promise<void> {
+    for (const id of Array.from(this.queued.keys())) {
+      if (!this.timers.has(id)) {
+        await this.upload(id)
+      }
+    }
+  }
+
+  private async upload(id: string, notify = true): Promise<unknown> {
+    const upload = this.queued.get(id)
+    if (!upload || !(await this.ensureWorkspace(upload.workspaceId))) return null
+
+    const { workspaceId, key, data } = upload
+    const meta = this.readMeta(workspaceId)[key] || {}
+
+    try {
+      const response = await authFetch(this.documentUrl(workspaceId, key), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ data, baseRevision: meta.revision }),
+      })
+
+      if (response.status !== 200 && response.status !== 409) {
+        throw new Error(`Backend responded ${response.status}`)
+      }
+
+      const result: { status: 'saved' | 'conflict'; document: WorkspaceDocument } =
+        await response.json()
+
+      // Newer edits may have been queued while this request was in flight
+      if (this.queued.get(id) === upload) {
+        this.queued.delete(id)
+      }
+      const stillPending = this.queued.has(id)
+      const isActive = workspaceId === workspaceManager.getActiveWorkspaceId()
+
+      if (result.status === 'conflict' && !isActive) {
+        // Local copy of a background workspace is stale; forget its revision
+        // so the next reconcile pulls the server copy
+        this.updateMeta(workspaceId, key, { revision: undefined, pending: false })
+        return null
+      }
+
+      this.updateMeta(workspaceId, key, {
+        revision: result.document.revision,
+        updatedAt: stillPending ? meta.updatedAt : result.document.updatedAt,
+        pending: stillPending,
+      })
+
+      if (result.status === 'conflict') {
+        console.warn(`⚠️ Server copy of ${key} is newer, replacing local data`)
+        if (notify) this.notifyListeners(key, result.document.data)
+        return result.document.data
+      }
+      return null
+    } catch (error) {
+      console.warn(`⚠️ Failed to sync ${key} to workspace, will retry:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Whether the backend has the workspace. One it doesn't know, or that
+   * belongs to someone else, is created there; the backend picks the new
+   * id, so local data moves to it and the old id reports false.
+   */
+  private async ensureWorkspace(workspaceId: string): Promise<boolean> {
+    let ready = this.workspacesReady.get(workspaceId)
+    if (!ready) {
+      ready = this.registerWorkspace(workspaceId)
+        .catch(() => false)
+        .then((registered) => {
+          // Let the next call retry once the backend is reachable
+          if (!registered) this.workspacesReady.delete(workspaceId)
+          return registered
+        })
+      this.workspacesReady.set(workspaceId, ready)
+    }
+    return ready
+  }
+
+  private async registerWorkspace(workspaceId: string): Promise<boolean> {
+    const existing = await authFetch(
+      `${getBackendUrl()}/api/workspaces/${encodeURIComponent(workspaceId)}`
+    )
+    if (existing.ok) return true
+    if (existing.status !== 403 && existing.status !== 404) {
+      throw new Error(`Backend responded ${existing.status}`)
+    }
+
+    const workspace = workspaceManager
+      .listWorkspaces({ includeArchived: true })
+      .find((candidate) => candidate.id === workspaceId)
+    const response = await authFetch(`${getBackendUrl()}/api/workspaces`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: workspace?.name }),
+    })
+    if (!response.ok) {
+      throw new Error(`Backend responded ${response.status}`)
+    }
+    const created: { id: string } = await response.json()
+
+    // The creator is the new workspace's admin
+    await authSession.refresh().catch(() => undefined)
+    this.workspacesReady.set(created.id, Promise.resolve(true))
+    const moved = this.moveQueued(workspaceId, created.id)
+    if (workspace) workspaceManager.reassignId(workspaceId, created.id)
+    for (const id of moved) void this.upload(id)
+    return false
+  }
+
+  /**
+   * Re-bind queued uploads to a workspace's new id
+   */
+  private moveQueued(oldId: string, newId: string): string[] {
+    const moved: string[] = []
+    for (const [id, upload] of Array.from(this.queued)) {
+      if (upload.workspaceId !== oldId) continue
+      clearTimeout(this.timers.get(id))
+      this.timers.delete(id)
+      this.queued.delete(id)
+
+      const newQueueId = queueId(newId, upload.key)
+      this.queued.set(newQueueId, { ...upload, workspaceId: newId })
+      moved.push(newQueueId)
+    }
+    return moved
+  }
+
+  private async fetchDocument<T>(
+    workspaceId: string,
+    key: WorkspaceDocumentKey
+  ): Promise<WorkspaceDocument<T> | null> {
+    const response = await authFetch(this.documentUrl(workspaceId, key))
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`Backend responded ${response.status}`)
+    }
+    return response.json()
+  }
+
+  private documentUrl(workspaceId: string, key: WorkspaceDocumentKey): string {
+    return `${getBackendUrl()}/api/workspaces/${encodeURIComponent(workspaceId)}/documents/${key}`
+  }
+
+  private readMeta(workspaceId: string): Partial<Record<WorkspaceDocumentKey, SyncMeta>> {
+    try {
+      return JSON.parse(
+        localStorage.getItem(workspaceManager.scopedKey(SYNC_META_KEY, workspaceId)) || '{}'
+      )
+    } catch {
+      return {}
+    }
+  }
+
+  private updateMeta(workspaceId: string, key: WorkspaceDocumentKey, updates: SyncMeta): void {
+    const meta = this.readMeta(workspaceId)
+    meta[key] = { ...meta[key], ...updates }
+    localStorage.setItem(
+      workspaceManager.scopedKey(SYNC_META_KEY, workspaceId),
+      JSON.stringify(meta)
+    )
+  }
+
+  private notifyListeners(key: WorkspaceDocumentKey, data: unknown): void {
+    for (const listener of this.listeners.get(key) || []) {
+      listener(data)
+    }
+  }
+}
+
+export const workspaceSync = new WorkspaceSyncClient()
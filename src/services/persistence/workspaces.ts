@@ -0,0 +1,331 @@
+/**
+ * Multi-brand workspaces. Each workspace is one client brand with its own
+ * context, Company DNA, channels, onboarding state and purchases. Stores read
+ * and write through `scopedKey()` so switching workspaces never mixes one
+ * brand's data into another's.
+ */
+import { authFetch } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+
+export interface WorkspaceSummary {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  archivedAt?: string
+  clonedFrom?: string
+  // IANA zone the workspace's posting schedules run in; the server's if unset
+  timeZone?: string
+}
+
+type WorkspaceChangeListener = (workspace: WorkspaceSummary) => void
+
+const REGISTRY_KEY = 'slotted_workspaces'
+const ACTIVE_WORKSPACE_KEY = 'slotted_workspace_id'
+
+/**
+ * Storage keys holding per-brand data. Anything stored under one of these is
+ * namespaced by workspace.
+ */
+export const WORKSPACE_SCOPED_KEYS = [
+  'slotted_context',
+  'slotted_company_dna_v2',
+  'slotted_marketing_state',
+  'slotted_channel_store',
+  'slotted_purchases',
+  'slotted_sync_meta',
+] as const
+
+// Sync state describes the source workspace's server copy, so clones start fresh
+const CLONED_KEYS = WORKSPACE_SCOPED_KEYS.filter((key) => key !== 'slotted_sync_meta')
+
+export class WorkspaceManager {
+  private workspaces: WorkspaceSummary[] = []
+  private activeId = ''
+  private listeners: Set<WorkspaceChangeListener> = new Set()
+
+  constructor() {
+    if (typeof window === 'undefined') return
+    this.loadRegistry()
+  }
+
+  /**
+   * Namespace a storage key by workspace (defaults to the active one)
+   */
+  public scopedKey(baseKey: string, workspaceId = this.activeId): string {
+    return `${baseKey}:${workspaceId}`
+  }
+
+  public getActiveWorkspaceId(): string {
+    return this.activeId
+  }
+
+  public getActiveWorkspace(): WorkspaceSummary | undefined {
+    return this.workspaces.find((workspace) => workspace.id === this.activeId)
+  }
+
+  public listWorkspaces(options: { includeArchived?: boolean } = {}): WorkspaceSummary[] {
+    return this.workspaces.filter((workspace) => options.includeArchived || !workspace.archivedAt)
+  }
+
+  public createWorkspace(name: string): WorkspaceSummary {
+    const now = new Date().toISOString()
+    const workspace: WorkspaceSummary = {
+      id: crypto.randomUUID(),
+      name: name.trim() || 'Untitled Brand',
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    this.workspaces.push(workspace)
+    this.saveRegistry()
+    return workspace
+  }
+
+  /**
+   * Make a workspace active and tell every store to reload its data
+   */
+  public switchWorkspace(id: string): void {
+    const workspace = this.requireWorkspace(id)
+    if (workspace.archivedAt) {
+      throw new Error(`Workspace "${workspace.name}" is archived. Restore it before switching.`)
+    }
+    if (id === this.activeId) return
+
+    this.activeId = id
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, id)
+    console.log(`🔀 Switched to workspace: ${workspace.name}`)
+    this.notifyListeners(workspace)
+  }
+
+  /**
+   * Copy a workspace's brand data into a new workspace, e.g. to start a
+   * sub-brand from an existing client
+   */
+  public cloneWorkspace(id: string, name?: string): WorkspaceSummary {
+    const source = this.requireWorkspace(id)
+    const clone = this.createWorkspace(name || `${source.name} (Copy)`)
+    clone.clonedFrom = source.id
+
+    for (const key of CLONED_KEYS) {
+      const stored = localStorage.getItem(this.scopedKey(key, source.id))
+      if (stored !== null) {
+        localStorage.setItem(this.scopedKey(key, clone.id), stored)
+      }
+    }
+
+    this.saveRegistry()
+    return clone
+  }
+
+  public renameWorkspace(id: string, name: string): WorkspaceSummary {
+    const workspace = this.requireWorkspace(id)
+    workspace.name = name.trim() || workspace.name
+    workspace.updatedAt = new Date().toISOString()
+    this.saveRegistry()
+    void this.updateOnServer(id, { name: workspace.name })
+    return workspace
+  }
+
+  /**
+   * Set the time zone scheduling rules are read in for this workspace, or
+   * clear it with null. The backend re-places the workspace's pending posts.
+   */
+  public setWorkspaceTimeZone(id: string, timeZone: string | null): WorkspaceSummary {
+    const workspace = this.requireWorkspace(id)
+    workspace.timeZone = timeZone || undefined
+    workspace.updatedAt = new Date().toISOString()
+    this.saveRegistry()
+    void this.updateOnServer(id, { timeZone })
+    return workspace
+  }
+
+  /**
+   * Hide a workspace from the switcher without deleting its data. Archiving
+   * the active workspace switches to another one first.
+   */
+  public archiveWorkspace(id: string): void {
+    const workspace = this.requireWorkspace(id)
+
+    if (id === this.activeId) {
+      const next =
+        this.listWorkspaces().find((candidate) => candidate.id !== id) ||
+        this.createWorkspace('My Workspace')
+      this.switchWorkspace(next.id)
+    }
+
+    workspace.archivedAt = new Date().toISOString()
+    workspace.updatedAt = workspace.archivedAt
+    this.saveRegistry()
+    void this.updateOnServer(id, { archived: true })
+  }
+
+  public restoreWorkspace(id: string): void {
+    const workspace = this.requireWorkspace(id)
+    workspace.archivedAt = undefined
+    workspace.updatedAt = new Date().toISOString()
+    this.saveRegistry()
+    void this.updateOnServer(id, { archived: false })
+  }
+
+  /**
+   * Add workspaces that exist on the backend but not in this browser, e.g.
+   * after clearing storage or on a new device
+   */
+  public async refreshFromServer(): Promise<WorkspaceSummary[]> {
+    try {
+      const response = await authFetch(`${getBackendUrl()}/api/workspaces?includeArchived=true`)
+      if (!response.ok) {
+        throw new Error(`Backend responded ${response.status}`)
+      }
+
+      const { workspaces }: { workspaces: WorkspaceSummary[] } = await response.json()
+      for (const remote of workspaces) {
+        const local = this.workspaces.find((workspace) => workspace.id === remote.id)
+        if (!local) {
+          this.workspaces.push({
+            id: remote.id,
+            name: remote.name,
+            createdAt: remote.createdAt,
+            updatedAt: remote.updatedAt,
+            archivedAt: remote.archivedAt,
+            timeZone: remote.timeZone,
+          })
+        } else if (Date.parse(remote.updatedAt) > Date.parse(local.updatedAt)) {
+          local.name = remote.name
+          local.archivedAt = remote.archivedAt
+          local.timeZone = remote.timeZone
+          local.updatedAt = remote.updatedAt
+        }
+      }
+      this.saveRegistry()
+    } catch (error) {
+      console.warn('⚠️ Could not load workspaces from backend:', error)
+    }
+
+    return this.listWorkspaces()
+  }
+
+  /**
+   * Move a workspace to the id the backend gave it when it was first synced,
+   * along with everything stored under the old id
+   */
+  public reassignId(oldId: string, newId: string): WorkspaceSummary {
+    const workspace = this.requireWorkspace(oldId)
+    const suffix = `:${oldId}`
+    for (const key of Object.keys(localStorage)) {
+      const stored = localStorage.getItem(key)
+      if (key.endsWith(suffix) && stored !== null) {
+        localStorage.setItem(`${key.slice(0, -suffix.length)}:${newId}`, stored)
+        localStorage.removeItem(key)
+      }
+    }
+
+    workspace.id = newId
+    for (const clone of this.workspaces) {
+      if (clone.clonedFrom === oldId) clone.clonedFrom = newId
+    }
+    this.saveRegistry()
+
+    if (this.activeId === oldId) {
+      this.activeId = newId
+      localStorage.setItem(ACTIVE_WORKSPACE_KEY, newId)
+      this.notifyListeners(workspace)
+    }
+    return workspace
+  }
+
+  public onWorkspaceChange(listener: WorkspaceChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private requireWorkspace(id: string): WorkspaceSummary {
+    const workspace = this.workspaces.find((candidate) => candidate.id === id)
+    if (!workspace) {
+      throw new Error(`Workspace not found: ${id}`)
+    }
+    return workspace
+  }
+
+  private loadRegistry(): void {
+    try {
+      this.workspaces = JSON.parse(localStorage.getItem(REGISTRY_KEY) || '[]')
+    } catch (error) {
+      console.error('Failed to load workspaces, starting fresh:', error)
+      this.workspaces = []
+    }
+
+    const storedActiveId = localStorage.getItem(ACTIVE_WORKSPACE_KEY)
+
+    if (this.workspaces.length === 0) {
+      // First run with workspaces: adopt the existing single-brand data
+      const now = new Date().toISOString()
+      this.workspaces.push({
+        id: storedActiveId || crypto.randomUUID(),
+        name: 'My Workspace',
+        createdAt: now,
+        updatedAt: now,
+      })
+      this.migrateUnscopedData(this.workspaces[0].id)
+      this.saveRegistry()
+    }
+
+    const active = this.workspaces.find((workspace) => workspace.id === storedActiveId)
+    this.activeId = (active && !active.archivedAt ? active : this.listWorkspaces()[0])?.id || ''
+    if (!this.activeId) {
+      this.activeId = this.createWorkspace('My Workspace').id
+    }
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, this.activeId)
+  }
+
+  /**
+   * Move data written before workspaces existed into the given workspace
+   */
+  private migrateUnscopedData(workspaceId: string): void {
+    for (const key of WORKSPACE_SCOPED_KEYS) {
+      const stored = localStorage.getItem(key)
+      if (stored !== null && localStorage.getItem(this.scopedKey(key, workspaceId)) === null) {
+        localStorage.setItem(this.scopedKey(key, workspaceId), stored)
+      }
+      localStorage.removeItem(key)
+    }
+  }
+
+  private saveRegistry(): void {
+    localStorage.setItem(REGISTRY_KEY, JSON.stringify(this.workspaces))
+  }
+
+  private async updateOnServer(
+    id: string,
+    updates: { name?: string; archived?: boolean; timeZone?: string | null }
+  ): Promise<void> {
+    try {
+      const response = await authFetch(
+        `${getBackendUrl()}/api/workspaces/${encodeURIComponent(id)}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        }
+      )
+
+      // 404 means the workspace hasn't synced yet; it is created on first sync
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Backend responded ${response.status}`)
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to update workspace on backend:', error)
+    }
+  }
+
+  private notifyListeners(workspace: WorkspaceSummary): void {
+    for (const listener of this.listeners) {
+      listener(workspace)
+    }
+  }
+}
+
+export const workspaceManager = new WorkspaceManager()
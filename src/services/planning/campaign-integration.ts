@@ -138,8 +138,8 @@ export class CampaignIntegrationService {
    * Generate campaign names based on channel and company context
    */
   private static generateCampaignName(channel: any, context: SlottedContext): string {
-    const companyName = context.companyInfo?.companyName || context.companyName || 'Company'
-    const industry = context.companyInfo?.industry || context.industry || 'Business'
+    const companyName = context.company?.name || 'Company'
+    const industry = context.company?.industry || 'Business'
     
     const nameTemplates = [
       `${companyName} ${channel.name} Launch`,
@@ -209,7 +209,7 @@ export class CampaignIntegrationService {
       'enterprise': 4
     }
     
-    const companySize = context.companyInfo?.size || 'small'
+    const companySize = context.company?.size || 'small'
     const multiplier = sizeMultiplier[companySize] || 1
     
     // Adjust based on priority
@@ -265,7 +265,7 @@ export class CampaignIntegrationService {
     }
     
     const baseBudget = stageBudgets[stage] || 10000
-    const companySize = context.companyInfo?.size || 'small'
+    const companySize = context.company?.size || 'small'
     const sizeMultiplier: { [key: string]: number } = {
       'startup': 0.4,
       'small': 1,
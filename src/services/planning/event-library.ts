@@ -0,0 +1,257 @@
+/**
+ * Built-in library of dates campaigns plan around: public holidays, retail
+ * tentpoles (Black Friday, Prime Day, back-to-school) and industry events.
+ * Definitions live in src/data/events as rules, so each year's dates are
+ * worked out rather than listed. All dates are calendar days, as YYYY-MM-DD.
+ */
+import industryEvents from '../../data/events/industry-events.json'
+import publicHolidays from '../../data/events/public-holidays.json'
+import retailEvents from '../../data/events/retail-events.json'
+import type { KeyDate } from '../../types/marketing'
+
+export type EventRegion = 'US' | 'CA' | 'GB' | 'AU'
+
+export const EVENT_REGIONS: Record<EventRegion, string> = {
+  US: 'United States',
+  CA: 'Canada',
+  GB: 'United Kingdom',
+  AU: 'Australia',
+}
+
+export const DEFAULT_EVENT_REGION: EventRegion = 'US'
+
+export type EventKind = 'holiday' | 'retail' | 'industry' | 'observance'
+
+/**
+ * How an event's date is found each year. Months are 1-12 and weekdays
+ * 0-6 from Sunday, as written in the data files.
+ */
+export type EventRule =
+  | { type: 'fixed'; month: number; day: number }
+  // nth weekday of the month; -1 is the last
+  | { type: 'nth-weekday'; month: number; weekday: number; nth: number }
+  // The weekday closest to a day on one side of it, e.g. the Monday on or before May 24
+  | {
+      type: 'weekday-near'
+      month: number
+      day: number
+      weekday: number
+      direction: 'on-or-before' | 'on-or-after'
+    }
+  // Days from Easter Sunday
+  | { type: 'easter'; offset: number }
+  // Days from another event, e.g. Black Friday from Thanksgiving
+  | { type: 'relative'; event: string; offset: number }
+  // Dates that follow no rule (lunar calendars); years not listed have none
+  | { type: 'dates'; dates: string[] }
+
+export interface EventDefinition {
+  id: string
+  name: string
+  kind: EventKind
+  // Where it is observed; everywhere when omitted
+  regions?: EventRegion[]
+  // Industry keywords it matters to; every industry when omitted
+  industries?: string[]
+  priority: KeyDate['priority']
+  // Days ahead campaigns usually start promoting it
+  leadDays: number
+  // Seasons and multi-day events
+  durationDays?: number
+  // The date follows the usual pattern but is announced each year
+  estimated?: boolean
+  rule: EventRule
+  description: string
+}
+
+export interface CommerceEvent {
+  id: string
+  name: string
+  kind: EventKind
+  date: string
+  // Last day of a multi-day event or season
+  endDate?: string
+  priority: KeyDate['priority']
+  leadDays: number
+  estimated?: boolean
+  description: string
+}
+
+export interface EventFilter {
+  region?: EventRegion
+  // The company's industry; events for other industries are left out
+  industry?: string
+  kinds?: EventKind[]
+}
+
+export const EVENT_DEFINITIONS: EventDefinition[] = [
+  ...publicHolidays,
+  ...retailEvents,
+  ...industryEvents,
+] as EventDefinition[]
+
+const definitionsById = new Map(EVENT_DEFINITIONS.map((definition) => [definition.id, definition]))
+
+const DAY_MS = 86_400_000
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10)
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS)
+
+const toDay = (date: string | Date) =>
+  typeof date === 'string' ? new Date(`${date.slice(0, 10)}T00:00:00Z`) : date
+
+/**
+ * Easter Sunday of a year (anonymous Gregorian algorithm)
+ */
+export function easterSunday(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+const nthWeekday = (year: number, month: number, weekday: number, nth: number) => {
+  if (nth < 0) {
+    const last = new Date(Date.UTC(year, month, 0))
+    return addDays(last, -((last.getUTCDay() - weekday + 7) % 7) + (nth + 1) * 7)
+  }
+  const first = new Date(Date.UTC(year, month - 1, 1))
+  return addDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (nth - 1) * 7)
+}
+
+const weekdayNear = (anchor: Date, weekday: number, direction: 'on-or-before' | 'on-or-after') =>
+  direction === 'on-or-before'
+    ? addDays(anchor, -((anchor.getUTCDay() - weekday + 7) % 7))
+    : addDays(anchor, (weekday - anchor.getUTCDay() + 7) % 7)
+
+/**
+ * The day an event falls on in `year`, or undefined when it has none that
+ * year
+ */
+export function eventDate(definition: EventDefinition, year: number): Date | undefined {
+  const { rule } = definition
+  switch (rule.type) {
+    case 'fixed':
+      return new Date(Date.UTC(year, rule.month - 1, rule.day))
+    case 'nth-weekday':
+      return nthWeekday(year, rule.month, rule.weekday, rule.nth)
+    case 'weekday-near':
+      return weekdayNear(
+        new Date(Date.UTC(year, rule.month - 1, rule.day)),
+        rule.weekday,
+        rule.direction
+      )
+    case 'easter':
+      return addDays(easterSunday(year), rule.offset)
+    case 'relative': {
+      const base = definitionsById.get(rule.event)
+      const baseDate = base && eventDate(base, year)
+      return baseDate && addDays(baseDate, rule.offset)
+    }
+    case 'dates': {
+      const date = rule.dates.find((listed) => listed.startsWith(`${year}-`))
+      return date ? toDay(date) : undefined
+    }
+  }
+}
+
+const matchesIndustry = (definition: EventDefinition, industry?: string) => {
+  if (!definition.industries) return true
+  const name = industry?.toLowerCase()
+  return !!name && definition.industries.some((keyword) => name.includes(keyword))
+}
+
+const matches = (definition: EventDefinition, filter: EventFilter) =>
+  (!definition.regions || definition.regions.includes(filter.region || DEFAULT_EVENT_REGION)) &&
+  (!filter.kinds || filter.kinds.includes(definition.kind)) &&
+  matchesIndustry(definition, filter.industry)
+
+// The event in `year`, if it overlaps the days from `from` to `to`
+const occurrence = (
+  definition: EventDefinition,
+  year: number,
+  from: Date,
+  to: Date
+): CommerceEvent | undefined => {
+  const date = eventDate(definition, year)
+  if (!date) return undefined
+  const last = addDays(date, (definition.durationDays || 1) - 1)
+  if (last < from || date > to) return undefined
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    kind: definition.kind,
+    date: isoDate(date),
+    ...(definition.durationDays > 1 && { endDate: isoDate(last) }),
+    priority: definition.priority,
+    leadDays: definition.leadDays,
+    ...(definition.estimated && { estimated: true }),
+    description: definition.description,
+  }
+}
+
+/**
+ * Events that fall in, or overlap, the days from `start` to `end`
+ * inclusive, in date order
+ */
+export function eventsBetween(
+  start: string | Date,
+  end: string | Date,
+  filter: EventFilter = {}
+): CommerceEvent[] {
+  const from = toDay(start)
+  const to = toDay(end)
+  const definitions = EVENT_DEFINITIONS.filter((definition) => matches(definition, filter))
+  const events: CommerceEvent[] = []
+
+  // A season that starts late in one year can run into the next
+  for (let year = from.getUTCFullYear() - 1; year <= to.getUTCFullYear(); year++) {
+    for (const definition of definitions) {
+      const event = occurrence(definition, year, from, to)
+      if (event) events.push(event)
+    }
+  }
+
+  return events.sort((a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name))
+}
+
+/**
+ * Whether an event overlaps the days from `start` to `end` inclusive
+ */
+export const eventOverlaps = (event: CommerceEvent, start: string, end: string) =>
+  event.date <= end && (event.endDate || event.date) >= start
+
+/**
+ * One line describing an event for AI prompts and exports
+ */
+export const describeEvent = (event: CommerceEvent): string =>
+  `${event.name} (${event.endDate ? `${event.date} to ${event.endDate}` : event.date}${
+    event.estimated ? ', estimated' : ''
+  }): ${event.description}; start promoting ${event.leadDays} days ahead`
+
+/**
+ * An event as a key date on the marketing plan
+ */
+export const toKeyDate = (event: CommerceEvent): KeyDate => ({
+  id: `${event.id}_${event.date}`,
+  name: event.name,
+  date: event.date,
+  description: event.description,
+  type: event.kind === 'holiday' || event.kind === 'retail' ? 'seasonal' : 'event',
+  priority: event.priority,
+  recurring: true,
+  reminderDays: event.leadDays,
+})
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CALENDAR_445,
+  type FiscalCalendarConfig,
+  NRF_CALENDAR,
+  buildFiscalYear,
+  comparableWeek,
+  fiscalWeekOf,
+  fiscalYearStart,
+} from './fiscal-calendar'
+
+const iso = (date: Date) => date.toISOString().slice(0, 10)
+
+describe('fiscalYearStart', () => {
+  it('starts NRF years on the Sunday nearest February 1', () => {
+    expect(iso(fiscalYearStart(2022, NRF_CALENDAR))).toBe('2022-01-30')
+    expect(iso(fiscalYearStart(2023, NRF_CALENDAR))).toBe('2023-01-29')
+    expect(iso(fiscalYearStart(2024, NRF_CALENDAR))).toBe('2024-02-04')
+  })
+
+  it('applies the first and last start rules', () => {
+    // February 1, 2023 is a Wednesday
+    expect(iso(fiscalYearStart(2023, { ...NRF_CALENDAR, startRule: 'first' }))).toBe('2023-02-05')
+    expect(iso(fiscalYearStart(2023, { ...NRF_CALENDAR, startRule: 'last' }))).toBe('2023-01-29')
+  })
+
+  it('labels a year by its end when configured', () => {
+    const byEnd: FiscalCalendarConfig = { ...NRF_CALENDAR, yearLabel: 'end' }
+    expect(fiscalYearStart(2024, byEnd)).toEqual(fiscalYearStart(2023, NRF_CALENDAR))
+  })
+})
+
+describe('buildFiscalYear', () => {
+  it('builds a 52-week NRF year in 4-5-4 months', () => {
+    const year = buildFiscalYear(2024, NRF_CALENDAR)
+
+    expect(year).toMatchObject({ startDate: '2024-02-04', endDate: '2025-02-01', weekCount: 52 })
+    expect(year.weeks).toHaveLength(52)
+    expect(year.months.map((month) => month.weeks.length).slice(0, 3)).toEqual([4, 5, 4])
+    expect(year.months[0]).toMatchObject({ name: 'February', quarter: 1, calendarMonth: 1 })
+    expect(year.months[11]).toMatchObject({ name: 'January', quarter: 4, endDate: '2025-02-01' })
+    expect(year.weeks.some((week) => week.isLeapWeek)).toBe(false)
+  })
+
+  it('adds the 53rd week to the last month of a long year', () => {
+    const year = buildFiscalYear(2023, NRF_CALENDAR)
+
+    expect(year).toMatchObject({ startDate: '2023-01-29', endDate: '2024-02-03', weekCount: 53 })
+    expect(year.months[11].weeks).toEqual([49, 50, 51, 52, 53])
+    expect(year.weeks[52]).toMatchObject({
+      week: 53,
+      startDate: '2024-01-28',
+      endDate: '2024-02-03',
+      month: 'January',
+      quarter: 4,
+      weekOfMonth: 5,
+      isLeapWeek: true,
+      isExtendedMonth: true,
+    })
+  })
+
+  it('can add the 53rd week to the first month instead', () => {
+    const year = buildFiscalYear(2023, { ...NRF_CALENDAR, leapWeekPlacement: 'first-month' })
+    expect(year.months[0].weeks).toEqual([1, 2, 3, 4, 5])
+    expect(year.months[11].weeks).toHaveLength(4)
+  })
+
+  it('covers every day between years without gaps or overlaps', () => {
+    for (const config of [NRF_CALENDAR, CALENDAR_445]) {
+      for (let label = 2015; label < 2035; label++) {
+        const year = buildFiscalYear(label, config)
+        const next = buildFiscalYear(label + 1, config)
+        const dayAfter = new Date(`${year.endDate}T00:00:00Z`)
+        dayAfter.setUTCDate(dayAfter.getUTCDate() + 1)
+
+        expect(iso(dayAfter)).toBe(next.startDate)
+        expect(year.weeks).toHaveLength(year.weekCount)
+      }
+    }
+  })
+
+  it('has a 53-week year every five or six years', () => {
+    const long = Array.from({ length: 30 }, (_, i) => 2000 + i).filter(
+      (label) => buildFiscalYear(label, NRF_CALENDAR).weekCount === 53
+    )
+    expect(long).toEqual([2000, 2006, 2012, 2017, 2023, 2028])
+  })
+})
+
+describe('fiscalWeekOf', () => {
+  it('finds the fiscal year and week of a day', () => {
+    expect(fiscalWeekOf('2024-02-04', NRF_CALENDAR)).toEqual({ fiscalYear: 2024, week: 1 })
+    expect(fiscalWeekOf('2024-02-03', NRF_CALENDAR)).toEqual({ fiscalYear: 2023, week: 53 })
+    expect(fiscalWeekOf('2024-12-25T18:00:00Z', NRF_CALENDAR)).toEqual({
+      fiscalYear: 2024,
+      week: 47,
+    })
+  })
+
+  it('uses the year a calendar labelled by its end finishes in', () => {
+    const byEnd: FiscalCalendarConfig = { ...NRF_CALENDAR, yearLabel: 'end' }
+    expect(fiscalWeekOf('2023-06-01', byEnd).fiscalYear).toBe(2024)
+  })
+})
+
+describe('comparableWeek', () => {
+  it('compares equal weeks after a 52-week year', () => {
+    expect(comparableWeek(2023, 10, NRF_CALENDAR)).toEqual({ fiscalYear: 2022, week: 10 })
+  })
+
+  it('restates the year after a 53-week year by a week', () => {
+    expect(comparableWeek(2024, 1, NRF_CALENDAR)).toEqual({ fiscalYear: 2023, week: 2 })
+    expect(comparableWeek(2024, 52, NRF_CALENDAR)).toEqual({ fiscalYear: 2023, week: 53 })
+  })
+
+  it('compares week numbers when configured to', () => {
+    const byNumber: FiscalCalendarConfig = { ...NRF_CALENDAR, leapYearComparison: 'week-number' }
+    expect(comparableWeek(2024, 1, byNumber)).toEqual({ fiscalYear: 2023, week: 1 })
+  })
+
+  it('has nothing to compare the 53rd week with', () => {
+    expect(comparableWeek(2023, 53, NRF_CALENDAR)).toBeUndefined()
+  })
+})
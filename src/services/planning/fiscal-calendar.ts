@@ -0,0 +1,257 @@
+/**
+ * Retail fiscal calendars: years of whole weeks split into quarters of three
+ * "months" of 4 or 5 weeks. The year starts on a fixed weekday near the start
+ * of a chosen month, so it drifts a day or two each year and catches up with
+ * a 53rd week every five or six years. All dates are calendar days (UTC), as
+ * YYYY-MM-DD.
+ */
+
+export type WeekPattern = '4-4-5' | '4-5-4' | '5-4-4'
+
+/**
+ * Which week-start day begins the fiscal year, relative to the 1st of
+ * `startMonth`: the one nearest it (NRF), the first on or after it, or the
+ * last on or before it
+ */
+export type YearStartRule = 'nearest' | 'first' | 'last'
+
+/**
+ * Which month absorbs the 53rd week: the last month of the year (NRF, so Q4
+ * has 14 weeks) or the first
+ */
+export type LeapWeekPlacement = 'last-month' | 'first-month'
+
+/**
+ * How a year is compared with a 53-week year before it. 'restate' (NRF)
+ * shifts the prior year a week, so week 1 is compared with the prior year's
+ * week 2 and the weeks cover the same time of year; 'week-number' compares
+ * equal week numbers.
+ */
+export type LeapYearComparison = 'restate' | 'week-number'
+
+export interface FiscalCalendarConfig {
+  pattern: WeekPattern
+  // Month the fiscal year starts in, 0 = January
+  startMonth: number
+  // Day weeks start on, 0 = Sunday
+  weekStartDay: number
+  startRule: YearStartRule
+  leapWeekPlacement: LeapWeekPlacement
+  leapYearComparison: LeapYearComparison
+  // Whether fiscal 2025 is the year starting in 2025 (NRF) or ending in it
+  yearLabel: 'start' | 'end'
+}
+
+export interface RetailWeek {
+  // 1-52, or 53 in a 53-week year
+  week: number
+  startDate: string
+  endDate: string
+  month: string
+  // 1-12 within the fiscal year
+  monthOfYear: number
+  weekOfMonth: number
+  quarter: number
+  fiscalYear: number
+  // Part of a month with five or more weeks
+  isExtendedMonth?: boolean
+  // The 53rd week, added in a 53-week year
+  isLeapWeek?: boolean
+}
+
+export interface RetailMonth {
+  name: string
+  monthOfYear: number
+  // The calendar month it is named after, 0 = January
+  calendarMonth: number
+  quarter: number
+  weeks: number[]
+  startDate: string
+  endDate: string
+}
+
+export interface FiscalYear {
+  year: number
+  startDate: string
+  endDate: string
+  weekCount: 52 | 53
+  weeks: RetailWeek[]
+  months: RetailMonth[]
+}
+
+/**
+ * The National Retail Federation calendar most US retailers report on:
+ * 4-5-4 weeks from the Sunday nearest February 1, with the 53rd week at the
+ * end of January
+ */
+export const NRF_CALENDAR: FiscalCalendarConfig = {
+  pattern: '4-5-4',
+  startMonth: 1,
+  weekStartDay: 0,
+  startRule: 'nearest',
+  leapWeekPlacement: 'last-month',
+  leapYearComparison: 'restate',
+  yearLabel: 'start',
+}
+
+/**
+ * 4-4-5 weeks from the Sunday nearest January 1
+ */
+export const CALENDAR_445: FiscalCalendarConfig = {
+  pattern: '4-4-5',
+  startMonth: 0,
+  weekStartDay: 0,
+  startRule: 'nearest',
+  leapWeekPlacement: 'last-month',
+  leapYearComparison: 'restate',
+  yearLabel: 'start',
+}
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+]
+
+const DAY_MS = 86_400_000
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10)
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS)
+
+const PATTERN_WEEKS: Record<WeekPattern, [number, number, number]> = {
+  '4-4-5': [4, 4, 5],
+  '4-5-4': [4, 5, 4],
+  '5-4-4': [5, 4, 4],
+}
+
+/**
+ * The first day of the fiscal year labelled `year`
+ */
+export function fiscalYearStart(year: number, config: FiscalCalendarConfig): Date {
+  // A year labelled by its end starts in the previous calendar year, unless
+  // it starts in January
+  const calendarYear = config.yearLabel === 'end' && config.startMonth > 0 ? year - 1 : year
+  const anchor = new Date(Date.UTC(calendarYear, config.startMonth, 1))
+  const after = (config.weekStartDay - anchor.getUTCDay() + 7) % 7
+  const before = (anchor.getUTCDay() - config.weekStartDay + 7) % 7
+
+  switch (config.startRule) {
+    case 'first':
+      return addDays(anchor, after)
+    case 'last':
+      return addDays(anchor, -before)
+    default:
+      return after <= before ? addDays(anchor, after) : addDays(anchor, -before)
+  }
+}
+
+/**
+ * Weeks in each fiscal month, with the 53rd week added where configured
+ */
+const monthLengths = (weekCount: number, config: FiscalCalendarConfig): number[] => {
+  const lengths = Array.from({ length: 12 }, (_, i) => PATTERN_WEEKS[config.pattern][i % 3])
+  if (weekCount === 53) {
+    lengths[config.leapWeekPlacement === 'first-month' ? 0 : 11] += 1
+  }
+  return lengths
+}
+
+/**
+ * The weeks and months of the fiscal year labelled `year`
+ */
+export function buildFiscalYear(year: number, config: FiscalCalendarConfig): FiscalYear {
+  const start = fiscalYearStart(year, config)
+  const next = fiscalYearStart(year + 1, config)
+  const weekCount = Math.round((next.getTime() - start.getTime()) / (7 * DAY_MS)) as 52 | 53
+
+  const weeks: RetailWeek[] = []
+  const months: RetailMonth[] = []
+  let week = 1
+  monthLengths(weekCount, config).forEach((length, index) => {
+    const calendarMonth = (config.startMonth + index) % 12
+    const name = MONTH_NAMES[calendarMonth]
+    const quarter = Math.floor(index / 3) + 1
+    const first = week
+    for (let weekOfMonth = 1; weekOfMonth <= length; weekOfMonth++, week++) {
+      const weekStart = addDays(start, (week - 1) * 7)
+      weeks.push({
+        week,
+        startDate: isoDate(weekStart),
+        endDate: isoDate(addDays(weekStart, 6)),
+        month: name,
+        monthOfYear: index + 1,
+        weekOfMonth,
+        quarter,
+        fiscalYear: year,
+        isExtendedMonth: length >= 5,
+        ...(week === 53 && { isLeapWeek: true }),
+      })
+    }
+    months.push({
+      name,
+      monthOfYear: index + 1,
+      calendarMonth,
+      quarter,
+      weeks: Array.from({ length }, (_, i) => first + i),
+      startDate: weeks[first - 1].startDate,
+      endDate: weeks[week - 2].endDate,
+    })
+  })
+
+  return {
+    year,
+    startDate: isoDate(start),
+    endDate: isoDate(addDays(next, -1)),
+    weekCount,
+    weeks,
+    months,
+  }
+}
+
+/**
+ * The fiscal year and week a calendar day (YYYY-MM-DD or a Date) falls in
+ */
+export function fiscalWeekOf(
+  date: string | Date,
+  config: FiscalCalendarConfig
+): { fiscalYear: number; week: number } {
+  const day = typeof date === 'string' ? new Date(`${date.slice(0, 10)}T00:00:00Z`) : date
+  const utcDay = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()))
+
+  // Start from the fiscal year labelled by the date's calendar year and step
+  // to the one containing it
+  let year = utcDay.getUTCFullYear() + (config.yearLabel === 'end' && config.startMonth > 0 ? 1 : 0)
+  while (fiscalYearStart(year, config) > utcDay) year -= 1
+  while (fiscalYearStart(year + 1, config) <= utcDay) year += 1
+
+  const offset = utcDay.getTime() - fiscalYearStart(year, config).getTime()
+  return { fiscalYear: year, week: Math.floor(offset / (7 * DAY_MS)) + 1 }
+}
+
+/**
+ * The prior-year week `week` of fiscal `year` is compared with, or undefined
+ * when it has none (the 53rd week of a 53-week year)
+ */
+export function comparableWeek(
+  year: number,
+  week: number,
+  config: FiscalCalendarConfig
+): { fiscalYear: number; week: number } | undefined {
+  const prior = buildFiscalYear(year - 1, config)
+  const restated = config.leapYearComparison === 'restate' && prior.weekCount === 53
+  const priorWeek = restated ? week + 1 : week
+  return priorWeek <= prior.weekCount ? { fiscalYear: year - 1, week: priorWeek } : undefined
+}
+
+export const describeCalendar = (config: FiscalCalendarConfig): string =>
+  `${config.pattern} weeks from ${MONTH_NAMES[config.startMonth]}`
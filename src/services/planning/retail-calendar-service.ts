@@ -1,20 +1,34 @@
 /**
  * Retail Calendar Integration Service
- * Integrates 4-4-5 retail calendar with marketing campaign planning
+ * Integrates the retail fiscal calendar (4-5-4 NRF by default, or 4-4-5 /
+ * 5-4-4) with marketing campaign planning
  * Provides retail-optimized scheduling and campaign generation
  */
 
 import type { SlottedContext } from '../../schemas/slottedContext'
 import { modernAIOrchestrator } from '../ai/modern-ai-orchestrator'
+import {
+  type CommerceEvent,
+  DEFAULT_EVENT_REGION,
+  type EventRegion,
+  describeEvent,
+  eventOverlaps,
+  eventsBetween
+} from './event-library'
+import {
+  type FiscalCalendarConfig,
+  type FiscalYear,
+  NRF_CALENDAR,
+  type RetailMonth,
+  type RetailWeek,
+  buildFiscalYear,
+  comparableWeek,
+  describeCalendar,
+  fiscalWeekOf
+} from './fiscal-calendar'
+import type { WeeklyResult } from './retail-results'
 
-export interface RetailWeek {
-  week: number
-  startDate: string
-  endDate: string
-  month: string
-  quarter: number
-  isExtendedMonth?: boolean
-}
+export type { FiscalCalendarConfig, RetailMonth, RetailWeek } from './fiscal-calendar'
 
 export interface RetailCampaign {
   id: string
@@ -31,6 +45,8 @@ export interface RetailCampaign {
   kpis: string[]
   promotionalTiming: string
   yearOverYearTracking: string
+  // Key dates from the event library that fall in the campaign's weeks
+  keyDates?: string[]
   quarter: number
   year: number
   generatedAt: string
@@ -42,81 +58,254 @@ export interface RetailQuarter {
   theme: string
   focus: string
   retailStrategy: string
+  // 13, or 14 when the quarter holds a 53rd week
   totalWeeks: number
   extendedMonth: string
+  months: RetailMonth[]
+  weeks: number[]
+  startDate: string
+  endDate: string
+  // Holidays, retail tentpoles and industry events in the quarter
+  keyDates: RetailKeyDate[]
   campaigns?: RetailCampaign[]
 }
 
+export type RetailKeyDate = CommerceEvent & {
+  // The fiscal week it falls in (or starts the quarter in, for a season)
+  week: number
+}
+
+export interface WeekComparison {
+  week: RetailWeek
+  // The prior-year week it is compared with; none for a 53rd week
+  priorWeek?: RetailWeek
+  current?: number
+  prior?: number
+  change?: number
+  // Percent change; undefined when either value is missing or prior is 0
+  changePercent?: number
+}
+
+export interface ComparisonTotals {
+  current: number
+  prior: number
+  change: number
+  changePercent?: number
+  // Weeks with a value in both years; only these are totalled
+  weeks: number
+}
+
+export interface YearOverYearComparison {
+  year: number
+  metric: string
+  // The prior year had 53 weeks, so its weeks were shifted one for comparison
+  restated: boolean
+  weeks: WeekComparison[]
+  quarters: Array<ComparisonTotals & { quarter: number }>
+  total: ComparisonTotals
+}
+
+type QuarterTheme = Pick<RetailQuarter, 'theme' | 'focus'> & {
+  strategy: (leadMonths: string, extendedMonth: string) => string
+}
+
+// Themes by season, chosen from the calendar months a quarter covers
+const QUARTER_THEMES: Record<'foundation' | 'growth' | 'summer' | 'holiday', QuarterTheme> = {
+  foundation: {
+    theme: 'New Year Foundation & Brand Building',
+    focus: 'Leverage New Year shopping patterns and goal-setting behavior for brand establishment',
+    strategy: (lead, extended) => `Build awareness in ${lead}, convert in extended ${extended}`
+  },
+  growth: {
+    theme: 'Spring Growth & Customer Expansion',
+    focus: 'Capitalize on spring renewal and increased consumer spending for growth campaigns',
+    strategy: (lead, extended) => `Build engagement through ${lead}, maximize conversions in extended ${extended}`
+  },
+  summer: {
+    theme: 'Summer Peak & Back-to-School Preparation',
+    focus: 'Leverage summer activities and back-to-school shopping for peak performance',
+    strategy: (lead, extended) => `Drive summer engagement in ${lead}, capture back-to-school in extended ${extended}`
+  },
+  holiday: {
+    theme: 'Holiday Shopping & Year-End Conversion',
+    focus: 'Maximize holiday shopping season and year-end purchase decisions',
+    strategy: (lead, extended) => `Build holiday anticipation in ${lead}, peak conversions in extended ${extended}`
+  }
+}
+
+const themeFor = (months: RetailMonth[]): QuarterTheme => {
+  const calendarMonths = months.map((month) => month.calendarMonth)
+  if (calendarMonths.includes(10) || calendarMonths.includes(11)) return QUARTER_THEMES.holiday
+  const middle = calendarMonths[1]
+  if (middle <= 3) return QUARTER_THEMES.foundation
+  if (middle <= 6) return QUARTER_THEMES.growth
+  return QUARTER_THEMES.summer
+}
+
+// The month a quarter's promotions center on: its longest, the pattern's
+// 5-week month unless a 53rd week made another as long
+const extendedMonthOf = (months: RetailMonth[]): RetailMonth =>
+  months.reduce((longest, month) => (month.weeks.length > longest.weeks.length ? month : longest))
+
+const percentChange = (current: number, prior: number) =>
+  prior !== 0 ? ((current - prior) / Math.abs(prior)) * 100 : undefined
+
+const yearOverYearChange = (current?: number, prior?: number) =>
+  current === undefined || prior === undefined
+    ? {}
+    : { change: current - prior, changePercent: percentChange(current, prior) }
+
+const comparisonTotals = (weeks: WeekComparison[]): ComparisonTotals => {
+  const matched = weeks.filter((w) => w.current !== undefined && w.prior !== undefined)
+  const current = matched.reduce((sum, w) => sum + (w.current ?? 0), 0)
+  const prior = matched.reduce((sum, w) => sum + (w.prior ?? 0), 0)
+  return {
+    current,
+    prior,
+    change: current - prior,
+    changePercent: percentChange(current, prior),
+    weeks: matched.length
+  }
+}
+
 export class RetailCalendarService {
-  private readonly WEEKS_PER_QUARTER = 13
-  private readonly STANDARD_YEAR = 2025 // Base year for calculations
+  private years = new Map<number, FiscalYear>()
+  private region: EventRegion = DEFAULT_EVENT_REGION
+
+  constructor(private config: FiscalCalendarConfig = NRF_CALENDAR) {}
+
+  getConfig(): FiscalCalendarConfig {
+    return this.config
+  }
+
+  getRegion(): EventRegion {
+    return this.region
+  }
 
   /**
-   * Generate 4-4-5 retail calendar structure for a given year
+   * Switch the region whose holidays and retail events quarters are
+   * planned around
    */
-  generateRetailCalendar(year: number): RetailWeek[] {
-    const weeks: RetailWeek[] = []
-    
-    // Find the first Sunday of the retail year
-    // Retail year typically starts the Sunday closest to January 1
-    const jan1 = new Date(year, 0, 1)
-    const daysToSunday = jan1.getDay() === 0 ? 0 : 7 - jan1.getDay()
-    const retailYearStart = new Date(year, 0, 1 + daysToSunday)
-    
-    // If the first Sunday is too late (after Jan 4), start the previous Sunday
-    if (retailYearStart.getDate() > 4) {
-      retailYearStart.setDate(retailYearStart.getDate() - 7)
+  setRegion(region: EventRegion): void {
+    this.region = region
+  }
+
+  /**
+   * Switch the fiscal calendar: week pattern, when the year starts and where
+   * a 53rd week goes
+   */
+  configure(config: Partial<FiscalCalendarConfig>): void {
+    this.config = { ...this.config, ...config }
+    this.years.clear()
+  }
+
+  /**
+   * The fiscal year labelled `year`, with its 52 or 53 weeks and 12 months
+   */
+  getFiscalYear(year: number): FiscalYear {
+    let fiscalYear = this.years.get(year)
+    if (!fiscalYear) {
+      fiscalYear = buildFiscalYear(year, this.config)
+      this.years.set(year, fiscalYear)
     }
+    return fiscalYear
+  }
 
-    let currentDate = new Date(retailYearStart)
-    
-    for (let weekNum = 1; weekNum <= 52; weekNum++) {
-      const weekStart = new Date(currentDate)
-      const weekEnd = new Date(currentDate)
-      weekEnd.setDate(weekEnd.getDate() + 6)
-      
-      const quarter = Math.ceil(weekNum / this.WEEKS_PER_QUARTER)
-      const weekInQuarter = ((weekNum - 1) % this.WEEKS_PER_QUARTER) + 1
-      
-      // Determine month based on 4-4-5 structure
-      let month: string
-      let isExtendedMonth = false
-      
-      if (weekInQuarter <= 4) {
-        month = this.getQuarterMonths(quarter)[0]
-      } else if (weekInQuarter <= 8) {
-        month = this.getQuarterMonths(quarter)[1]
-      } else {
-        month = this.getQuarterMonths(quarter)[2]
-        isExtendedMonth = true
-      }
-      
-      weeks.push({
-        week: weekNum,
-        startDate: weekStart.toISOString().split('T')[0],
-        endDate: weekEnd.toISOString().split('T')[0],
-        month,
-        quarter,
-        isExtendedMonth
-      })
-      
-      currentDate.setDate(currentDate.getDate() + 7)
+  /**
+   * The fiscal year and week a date falls in
+   */
+  getFiscalWeek(date: string | Date): { fiscalYear: number; week: number } {
+    return fiscalWeekOf(date, this.config)
+  }
+
+  /**
+   * The retail week a year earlier that `week` is compared with. After a
+   * 53-week year the prior year is restated (week 1 against its week 2) unless
+   * the calendar compares by week number; week 53 has no counterpart.
+   */
+  getComparableWeek(year: number, week: number): RetailWeek | undefined {
+    const prior = comparableWeek(year, week, this.config)
+    return prior && this.getFiscalYear(prior.fiscalYear).weeks[prior.week - 1]
+  }
+
+  /**
+   * Compare one metric of imported weekly results with the comparable weeks
+   * of the prior year, week by week and by quarter. Totals only count weeks
+   * with a value in both years, so a partial year stays like-for-like.
+   */
+  compareWithPriorYear(year: number, metric: string, results: WeeklyResult[]): YearOverYearComparison {
+    const values = new Map(
+      results
+        .filter((result) => result.metrics[metric] !== undefined)
+        .map((result) => [`${result.fiscalYear}-${result.week}`, result.metrics[metric]])
+    )
+    const metricFor = (week?: RetailWeek) => week && values.get(`${week.fiscalYear}-${week.week}`)
+
+    const weeks = this.getFiscalYear(year).weeks.map((week): WeekComparison => {
+      const priorWeek = this.getComparableWeek(year, week.week)
+      const current = metricFor(week)
+      const prior = metricFor(priorWeek)
+      return { week, priorWeek, current, prior, ...yearOverYearChange(current, prior) }
+    })
+
+    const quarters = [1, 2, 3, 4].map((quarter) => ({
+      quarter,
+      ...comparisonTotals(weeks.filter((w) => w.week.quarter === quarter))
+    }))
+
+    return {
+      year,
+      metric,
+      restated: this.config.leapYearComparison === 'restate' && this.getFiscalYear(year - 1).weekCount === 53,
+      weeks,
+      quarters,
+      total: comparisonTotals(weeks)
     }
-    
-    return weeks
   }
 
   /**
-   * Get month names for a quarter
+   * A quarter's months, weeks, strategy and key dates. Industry events are
+   * only included for the `industry` given.
    */
-  private getQuarterMonths(quarter: number): [string, string, string] {
-    const monthSets: Record<number, [string, string, string]> = {
-      1: ['January', 'February', 'March'],
-      2: ['April', 'May', 'June'],
-      3: ['July', 'August', 'September'],
-      4: ['October', 'November', 'December']
+  getQuarter(quarter: number, year: number, industry?: string): RetailQuarter {
+    const months = this.getFiscalYear(year).months.filter((m) => m.quarter === quarter)
+    const extended = extendedMonthOf(months)
+    const theme = themeFor(months)
+    const lead = months.filter((m) => m !== extended).map((m) => m.name).join(' and ')
+    const weeks = months.flatMap((m) => m.weeks)
+
+    return {
+      quarter,
+      year,
+      theme: theme.theme,
+      focus: theme.focus,
+      retailStrategy: theme.strategy(lead, extended.name),
+      totalWeeks: weeks.length,
+      extendedMonth: extended.name,
+      months,
+      weeks,
+      startDate: months[0].startDate,
+      endDate: months[months.length - 1].endDate,
+      keyDates: this.getKeyDates(months[0].startDate, months[months.length - 1].endDate, industry)
     }
-    return monthSets[quarter]
+  }
+
+  /**
+   * Library events between two days, with the fiscal week each falls in
+   */
+  getKeyDates(startDate: string, endDate: string, industry?: string): RetailKeyDate[] {
+    return eventsBetween(startDate, endDate, { region: this.region, industry }).map((event) => ({
+      ...event,
+      week: this.getFiscalWeek(event.date < startDate ? startDate : event.date).week
+    }))
+  }
+
+  /**
+   * Generate the retail calendar for a fiscal year: 52 weeks, or 53 in a
+   * 53-week year
+   */
+  generateRetailCalendar(year: number): RetailWeek[] {
+    return this.getFiscalYear(year).weeks
   }
 
   /**
@@ -127,20 +316,27 @@ export class RetailCalendarService {
     year: number,
     context: SlottedContext
   ): Promise<RetailCampaign[]> {
-    const quarterData = this.getQuarterStrategy(quarter)
-    const retailWeeks = this.getQuarterWeeks(quarter)
-    
+    const quarterData = this.getQuarter(quarter, year, context.company?.industry)
+    const pattern = describeCalendar(this.config)
+    const monthLines = quarterData.months
+      .map((m) => `  - ${m.name}: weeks ${m.weeks[0]}-${m.weeks[m.weeks.length - 1]} (${m.weeks.length} weeks, ${m.startDate} to ${m.endDate})`)
+      .join('\n')
+    const keyDateLines = quarterData.keyDates.map((event) => `  - Week ${event.week}: ${describeEvent(event)}`).join('\n')
+    const leapWeek = quarterData.weeks.includes(53)
+      ? '\n- This is a 53-week year: week 53 has no counterpart in the prior year, so compare it separately'
+      : ''
+
     const companyContext = `
-      Company: ${context.companyInfo?.companyName || context.companyName || 'Your Company'}
-      Industry: ${context.companyInfo?.industry || context.industry || 'Retail'}
-      Company Size: ${context.companyInfo?.size || 'medium'}
+      Company: ${context.company?.name || 'Your Company'}
+      Industry: ${context.company?.industry || 'Retail'}
+      Company Size: ${context.company?.size || 'medium'}
       Brand Voice: ${context.brandDNA?.brandTone?.personality?.join(', ') || 'Professional'}
       Target Audience: ${context.brandDNA?.targetAudience?.demographics || 'Consumers'}
       Available Channels: ${context.channelConfiguration?.primary?.map(c => c.name).join(', ') || 'Digital Marketing'}
       Success Metrics: ${context.successMetrics?.metrics?.slice(0, 3).map(m => m.name).join(', ') || 'Engagement, Conversions'}
     `
 
-    const prompt = `Generate retail calendar-optimized marketing campaigns for Q${quarter} ${year} using the 4-4-5 retail calendar structure.
+    const prompt = `Generate retail calendar-optimized marketing campaigns for fiscal Q${quarter} ${year} using the ${pattern} retail calendar structure.
 
 COMPANY CONTEXT:
 ${companyContext}
@@ -149,20 +345,24 @@ RETAIL CALENDAR STRATEGY FOR Q${quarter}:
 - Theme: ${quarterData.theme}
 - Focus: ${quarterData.focus}
 - Strategy: ${quarterData.retailStrategy}
-- Structure: Months 1&2 have 4 weeks each, Month 3 has 5 weeks
-- Extended Month: ${quarterData.extendedMonth} (5 weeks for extended promotions)
-
+- Dates: ${quarterData.startDate} to ${quarterData.endDate} (${quarterData.totalWeeks} weeks)
+- Months:
+${monthLines}
+- Extended Month: ${quarterData.extendedMonth} (${extendedMonthOf(quarterData.months).weeks.length} weeks for extended promotions)${leapWeek}
+${keyDateLines ? `- Key Dates:\n${keyDateLines}\n` : ''}
 RETAIL CALENDAR ADVANTAGES TO LEVERAGE:
 1. Year-over-year comparison accuracy (same weekdays each year)
 2. Extended promotional periods in 5-week months (25% more time)
 3. Retail shopping pattern alignment (industry-standard timing)
-4. Standardized quarterly reporting (exactly 13 weeks)
+4. Standardized quarterly reporting (13-week quarters)
 5. Commerce cycle optimization (matches retail buying patterns)
 
 CAMPAIGN REQUIREMENTS:
 - Generate 4-6 campaigns that span the quarter strategically
 - Use 4-week months for awareness/education campaigns
-- Use 5-week month (${quarterData.extendedMonth}) for conversion/promotional campaigns
+- Use the extended month (${quarterData.extendedMonth}) for conversion/promotional campaigns
+- Use only fiscal week numbers ${quarterData.weeks[0]}-${quarterData.weeks[quarterData.weeks.length - 1]}
+- Time promotional campaigns to the key dates, starting in the weeks before them
 - Align with retail shopping seasons and consumer behavior
 - Include specific retail timing advantages
 
@@ -171,8 +371,8 @@ Generate campaigns in this JSON format:
   {
     "title": "Campaign Name (Retail Calendar Optimized)",
     "description": "Detailed campaign description explaining retail calendar timing and advantages",
-    "retailWeeks": [1, 2, 3, 4],
-    "retailMonth": "January|February|March",
+    "retailWeeks": [${quarterData.months[0].weeks.join(', ')}],
+    "retailMonth": "${quarterData.months.map((m) => m.name).join('|')}",
     "monthStructure": "4-week|5-week",
     "channels": ["Primary marketing channels"],
     "budget": 15000,
@@ -180,7 +380,7 @@ Generate campaigns in this JSON format:
     "retailAdvantage": "Specific advantages from using retail calendar timing",
     "shoppingBehavior": "Target consumer shopping patterns and seasonal behaviors",
     "kpis": ["Retail-focused KPIs and success metrics"],
-    "promotionalTiming": "How 4-4-5 structure enhances promotional effectiveness",
+    "promotionalTiming": "How the ${pattern.split(' ')[0]} structure enhances promotional effectiveness",
     "yearOverYearTracking": "How to compare performance with previous retail periods"
   }
 ]
@@ -201,13 +401,18 @@ IMPORTANT: Focus on retail calendar-specific benefits like:
 
       const generatedCampaigns = JSON.parse(response.content)
       
-      return generatedCampaigns.map((campaign: any, index: number): RetailCampaign => ({
-        ...campaign,
-        id: `retail_q${quarter}_${year}_${Date.now()}_${index}`,
-        quarter,
-        year,
-        generatedAt: new Date().toISOString()
-      }))
+      return generatedCampaigns.map((campaign: any, index: number): RetailCampaign =>
+        this.alignToQuarter(
+          {
+            ...campaign,
+            id: `retail_q${quarter}_${year}_${Date.now()}_${index}`,
+            quarter,
+            year,
+            generatedAt: new Date().toISOString()
+          },
+          quarterData
+        )
+      )
     } catch (error) {
       console.error('Error generating retail campaigns:', error)
       throw new Error('Failed to generate retail calendar campaigns')
@@ -215,72 +420,53 @@ IMPORTANT: Focus on retail calendar-specific benefits like:
   }
 
   /**
-   * Get strategic information for a quarter
+   * Keep a generated campaign on the quarter's real weeks, and describe its
+   * month and key dates from those weeks rather than trusting the model
    */
-  private getQuarterStrategy(quarter: number): RetailQuarter {
-    const strategies: Record<number, Omit<RetailQuarter, 'quarter' | 'year'>> = {
-      1: {
-        theme: 'New Year Foundation & Brand Building',
-        focus: 'Leverage New Year shopping patterns and goal-setting behavior for brand establishment',
-        retailStrategy: 'Use 4-4-5 structure to build awareness in January-February, convert in extended March',
-        totalWeeks: 13,
-        extendedMonth: 'March'
-      },
-      2: {
-        theme: 'Spring Growth & Customer Expansion',
-        focus: 'Capitalize on spring renewal and increased consumer spending for growth campaigns',
-        retailStrategy: 'Build engagement through April-May, maximize conversions in extended June',
-        totalWeeks: 13,
-        extendedMonth: 'June'
-      },
-      3: {
-        theme: 'Summer Peak & Back-to-School Preparation',
-        focus: 'Leverage summer activities and back-to-school shopping for peak performance',
-        retailStrategy: 'Drive summer engagement July-August, capture back-to-school in extended September',
-        totalWeeks: 13,
-        extendedMonth: 'September'
-      },
-      4: {
-        theme: 'Holiday Shopping & Year-End Conversion',
-        focus: 'Maximize holiday shopping season and year-end purchase decisions',
-        retailStrategy: 'Build holiday anticipation October-November, peak conversions in extended December',
-        totalWeeks: 13,
-        extendedMonth: 'December'
-      }
-    }
-
-    return { quarter, year: 0, ...strategies[quarter] }
-  }
+  private alignToQuarter(campaign: RetailCampaign, quarterData: RetailQuarter): RetailCampaign {
+    const inQuarter = (campaign.retailWeeks || []).filter((week) => quarterData.weeks.includes(week))
+    const retailWeeks = inQuarter.length > 0
+      ? inQuarter
+      : this.calculateOptimalTiming(campaign.campaignType, quarterData.quarter, quarterData.year).optimalWeeks
+    const month = quarterData.months.find((m) => m.weeks.includes(retailWeeks[0])) || quarterData.months[0]
+    const weeks = this.getFiscalYear(quarterData.year).weeks.filter((w) => retailWeeks.includes(w.week))
+    const keyDates = quarterData.keyDates
+      .filter((event) => weeks.some((w) => eventOverlaps(event, w.startDate, w.endDate)))
+      .map((event) => event.name)
 
-  /**
-   * Get week numbers for a quarter
-   */
-  private getQuarterWeeks(quarter: number): number[] {
-    const startWeek = (quarter - 1) * this.WEEKS_PER_QUARTER + 1
-    return Array.from({ length: this.WEEKS_PER_QUARTER }, (_, i) => startWeek + i)
+    return {
+      ...campaign,
+      retailWeeks,
+      retailMonth: month.name,
+      monthStructure: month.weeks.length >= 5 ? '5-week' : '4-week',
+      ...(keyDates.length > 0 && { keyDates })
+    }
   }
 
   /**
-   * Calculate optimal campaign timing based on retail calendar
+   * Calculate optimal campaign timing based on retail calendar (the current
+   * fiscal year unless `year` is given)
    */
   calculateOptimalTiming(
     campaignType: RetailCampaign['campaignType'],
-    quarter: number
+    quarter: number,
+    year = this.getFiscalWeek(new Date()).fiscalYear
   ): { optimalWeeks: number[], reasoning: string } {
-    const quarterWeeks = this.getQuarterWeeks(quarter)
-    const extendedMonthWeeks = quarterWeeks.slice(-5) // Last 5 weeks of quarter
+    const { months, weeks: quarterWeeks } = this.getQuarter(quarter, year)
+    const extendedMonth = extendedMonthOf(months)
+    const [firstMonth, secondMonth] = months.filter((m) => m !== extendedMonth)
     
     const timingStrategies = {
       awareness: {
-        optimalWeeks: quarterWeeks.slice(0, 4), // First 4 weeks
+        optimalWeeks: firstMonth.weeks, // First 4-week month
         reasoning: 'Awareness campaigns benefit from consistent 4-week periods for brand building'
       },
       consideration: {
-        optimalWeeks: quarterWeeks.slice(4, 8), // Middle 4 weeks
+        optimalWeeks: secondMonth.weeks, // Other 4-week month
         reasoning: 'Consideration campaigns work well in the middle 4-week period for sustained engagement'
       },
       conversion: {
-        optimalWeeks: extendedMonthWeeks, // Extended 5-week month
+        optimalWeeks: extendedMonth.weeks, // Extended 5-week month
         reasoning: 'Conversion campaigns leverage the extended 5-week month for maximum promotional impact'
       },
       retention: {
@@ -303,12 +489,15 @@ IMPORTANT: Focus on retail calendar-specific benefits like:
   } {
     const extendedMonthCampaigns = campaigns.filter(c => c.monthStructure === '5-week')
     const conversionCampaigns = campaigns.filter(c => c.campaignType === 'conversion')
+    const leapWeekCampaigns = campaigns.filter(c => c.retailWeeks.includes(53))
     
     return {
-      yearOverYearComparison: `${campaigns.length} campaigns aligned to retail weeks for consistent YoY analysis`,
+      yearOverYearComparison: `${campaigns.length} campaigns aligned to retail weeks for consistent YoY analysis${
+        leapWeekCampaigns.length > 0 ? ` (${leapWeekCampaigns.length} run in week 53, which has no prior-year counterpart)` : ''
+      }`,
       extendedMonthAdvantage: `${extendedMonthCampaigns.length} campaigns leverage 5-week months for 25% extended promotional periods`,
       shoppingAlignmentScore: Math.round((conversionCampaigns.length / campaigns.length) * 100),
-      consistencyBenefit: 'All campaigns follow 4-4-5 structure for standardized reporting and benchmarking'
+      consistencyBenefit: `All campaigns follow the ${this.config.pattern} structure for standardized reporting and benchmarking`
     }
   }
 
@@ -348,19 +537,20 @@ IMPORTANT: Focus on retail calendar-specific benefits like:
    * Export retail calendar data
    */
   exportRetailCalendar(quarter: number, year: number, campaigns: RetailCampaign[]): string {
-    const quarterData = this.getQuarterStrategy(quarter)
     const retailWeeks = this.generateRetailCalendar(year).filter(w => w.quarter === quarter)
+    const { keyDates } = this.getQuarter(quarter, year)
     
-    let csvContent = 'Week Number,Start Date,End Date,Month,Structure,Campaign,Budget,Type,Retail Advantage\n'
+    let csvContent = 'Week Number,Start Date,End Date,Month,Structure,Key Dates,Campaign,Budget,Type,Retail Advantage\n'
     
     retailWeeks.forEach(week => {
       const weekCampaigns = campaigns.filter(c => c.retailWeeks.includes(week.week))
+      const weekKeyDates = keyDates.filter((event) => eventOverlaps(event, week.startDate, week.endDate)).map((event) => event.name).join('; ')
       if (weekCampaigns.length > 0) {
         weekCampaigns.forEach(campaign => {
-          csvContent += `${week.week},"${week.startDate}","${week.endDate}","${week.month}","${campaign.monthStructure}","${campaign.title}","$${campaign.budget}","${campaign.campaignType}","${campaign.retailAdvantage}"\n`
+          csvContent += `${week.week},"${week.startDate}","${week.endDate}","${week.month}","${campaign.monthStructure}","${weekKeyDates}","${campaign.title}","$${campaign.budget}","${campaign.campaignType}","${campaign.retailAdvantage}"\n`
         })
       } else {
-        csvContent += `${week.week},"${week.startDate}","${week.endDate}","${week.month}","${week.isExtendedMonth ? '5-week' : '4-week'}","","","",""\n`
+        csvContent += `${week.week},"${week.startDate}","${week.endDate}","${week.month}","${week.isExtendedMonth ? '5-week' : '4-week'}${week.isLeapWeek ? ' (53rd week)' : ''}","${weekKeyDates}","","","",""\n`
       }
     })
     
@@ -370,18 +560,26 @@ IMPORTANT: Focus on retail calendar-specific benefits like:
   /**
    * Get retail calendar insights and recommendations
    */
-  getRetailCalendarInsights(quarter: number, campaigns: RetailCampaign[]): {
+  getRetailCalendarInsights(
+    quarter: number,
+    campaigns: RetailCampaign[],
+    year = this.getFiscalWeek(new Date()).fiscalYear
+  ): {
     insights: string[]
     recommendations: string[]
     opportunities: string[]
   } {
-    const quarterData = this.getQuarterStrategy(quarter)
+    const quarterData = this.getQuarter(quarter, year)
     const extendedMonthCampaigns = campaigns.filter(c => c.monthStructure === '5-week')
     const conversionCampaigns = campaigns.filter(c => c.campaignType === 'conversion')
+    const uncovered = quarterData.keyDates.filter(
+      (event) => event.priority === 'high' && !campaigns.some((c) => c.keyDates?.includes(event.name))
+    )
     
     return {
       insights: [
-        `Q${quarter} follows 4-4-5 retail calendar structure with ${quarterData.extendedMonth} as the extended month`,
+        `Q${quarter} follows the ${this.config.pattern} retail calendar structure with ${quarterData.extendedMonth} as the extended month`,
+        ...(quarterData.totalWeeks > 13 ? [`Q${quarter} ${year} has ${quarterData.totalWeeks} weeks: week 53 falls in it`] : []),
         `${campaigns.length} campaigns generated with retail calendar optimization`,
         `${extendedMonthCampaigns.length} campaigns leverage 5-week month advantage`,
         'Retail calendar enables consistent year-over-year performance comparison'
@@ -396,7 +594,8 @@ IMPORTANT: Focus on retail calendar-specific benefits like:
         'Extend successful campaigns into 5-week month for additional reach',
         'Use retail week alignment for competitive analysis and market positioning',
         'Implement year-over-year tracking using consistent retail week structure',
-        'Optimize budget allocation using retail shopping pattern insights'
+        'Optimize budget allocation using retail shopping pattern insights',
+        ...uncovered.map((event) => `No campaign covers ${event.name} (week ${event.week}); start promoting ${event.leadDays} days ahead`)
       ]
     }
   }
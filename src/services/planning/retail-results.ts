@@ -0,0 +1,233 @@
+/**
+ * Actual weekly results (sales, orders, traffic…) imported per retail week,
+ * so plans can be compared like-for-like with the prior year. Results are
+ * kept per workspace and synced with the backend like the other stores.
+ */
+import { workspaceSync } from '../persistence/workspace-sync'
+import { workspaceManager } from '../persistence/workspaces'
+import type { FiscalCalendarConfig } from './fiscal-calendar'
+import { fiscalWeekOf } from './fiscal-calendar'
+
+export interface WeeklyResult {
+  fiscalYear: number
+  week: number
+  // Metric name → value, e.g. { sales: 120400, orders: 1830 }
+  metrics: Record<string, number>
+}
+
+export interface ResultsImport {
+  results: WeeklyResult[]
+  // Rows that couldn't be read, as "Row 4: …"
+  errors: string[]
+}
+
+const resultKey = (fiscalYear: number, week: number) => `${fiscalYear}-${week}`
+
+// Columns that place a row in a week rather than hold a metric
+const DATE_COLUMNS = ['date', 'week_start', 'week_starting', 'week_end', 'week_ending']
+const YEAR_COLUMNS = ['fiscal_year', 'year']
+const WEEK_COLUMNS = ['week', 'fiscal_week', 'retail_week']
+
+const normalizeHeader = (header: string) =>
+  header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+
+// A cell, quoted or not, and what ends it
+const CSV_CELL = /(?:"((?:[^"]|"")*)"|([^,\r\n]*))(,|\r\n|\n|\r|$)/g
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas,
+ * doubled quotes and line breaks.
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  for (const match of text.matchAll(CSV_CELL)) {
+    const [cell, quoted, plain, end] = match
+    row.push(quoted !== undefined ? quoted.replace(/""/g, '"') : plain)
+    if (end !== ',') {
+      rows.push(row)
+      row = []
+    }
+    if ((match.index ?? 0) + cell.length >= text.length) break
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''))
+}
+
+// "$1,204.50" → 1204.5; undefined when the cell isn't a number
+const parseNumber = (value: string): number | undefined => {
+  const cleaned = value.replace(/[$€£,%\s]/g, '')
+  if (cleaned === '') return undefined
+  const number = Number(cleaned)
+  return Number.isFinite(number) ? number : undefined
+}
+
+/**
+ * Read weekly results from CSV. Each row needs either a date in the week
+ * (date, week_start or week_ending) or fiscal_year and week columns; every
+ * other column is a metric. Rows for the same week are added together.
+ */
+export function parseResultsCsv(text: string, calendar: FiscalCalendarConfig): ResultsImport {
+  const [header, ...rows] = parseCsvRows(text)
+  if (!header) return { results: [], errors: ['The file is empty'] }
+
+  const columns = header.map(normalizeHeader)
+  const dateColumn = columns.findIndex((column) => DATE_COLUMNS.includes(column))
+  const yearColumn = columns.findIndex((column) => YEAR_COLUMNS.includes(column))
+  const weekColumn = columns.findIndex((column) => WEEK_COLUMNS.includes(column))
+  if (dateColumn < 0 && (yearColumn < 0 || weekColumn < 0)) {
+    return {
+      results: [],
+      errors: [
+        'Add a date column (date, week_start or week_ending) or fiscal_year and week columns',
+      ],
+    }
+  }
+
+  const placement = new Set([dateColumn, yearColumn, weekColumn])
+  const metricColumns = columns
+    .map((name, index) => ({ name, index }))
+    .filter(({ name, index }) => name && !placement.has(index))
+
+  const byWeek = new Map<string, WeeklyResult>()
+  const errors: string[] = []
+  rows.forEach((cells, index) => {
+    const where =
+      dateColumn >= 0
+        ? weekOfDate(cells[dateColumn], calendar)
+        : {
+            fiscalYear: parseNumber(cells[yearColumn] || ''),
+            week: parseNumber(cells[weekColumn] || ''),
+          }
+    if (!where?.fiscalYear || !where.week || where.week < 1 || where.week > 53) {
+      errors.push(`Row ${index + 2}: no valid date or fiscal week`)
+      return
+    }
+
+    const key = resultKey(where.fiscalYear, where.week)
+    const result = byWeek.get(key) || {
+      fiscalYear: where.fiscalYear,
+      week: where.week,
+      metrics: {},
+    }
+    for (const { name, index: column } of metricColumns) {
+      const value = parseNumber(cells[column] || '')
+      if (value !== undefined) result.metrics[name] = (result.metrics[name] ?? 0) + value
+    }
+    byWeek.set(key, result)
+  })
+
+  return { results: [...byWeek.values()], errors }
+}
+
+const weekOfDate = (value: string | undefined, calendar: FiscalCalendarConfig) => {
+  const date = value?.trim()
+  if (!date || Number.isNaN(Date.parse(date))) return undefined
+  // Dates without a time are calendar days; don't let the time zone move them
+  return fiscalWeekOf(/^\d{4}-\d{2}-\d{2}$/.test(date) ? date : new Date(date), calendar)
+}
+
+export class RetailResultsStore {
+  private results = new Map<string, WeeklyResult>()
+  private listeners: Set<() => void> = new Set()
+
+  constructor() {
+    workspaceSync.onRemoteUpdate('retailResults', (remote) => this.applyRemote(remote))
+    workspaceManager.onWorkspaceChange(() => {
+      this.results = new Map()
+      this.load()
+    })
+  }
+
+  private get storageKey(): string {
+    return workspaceManager.scopedKey('slotted_retail_results')
+  }
+
+  public getResults(): WeeklyResult[] {
+    return [...this.results.values()]
+  }
+
+  /**
+   * Add imported weeks, replacing the metrics of weeks already imported
+   */
+  public import(results: WeeklyResult[]): void {
+    for (const result of results) {
+      const key = resultKey(result.fiscalYear, result.week)
+      const existing = this.results.get(key)
+      this.results.set(key, {
+        ...result,
+        metrics: { ...existing?.metrics, ...result.metrics },
+      })
+    }
+    this.persist()
+  }
+
+  public clear(): void {
+    this.results = new Map()
+    this.persist()
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Load results from localStorage, then reconcile with the backend copy
+   */
+  public load(): void {
+    if (typeof window === 'undefined') return
+
+    const stored = localStorage.getItem(this.storageKey)
+    if (stored) {
+      try {
+        this.setAll(JSON.parse(stored))
+      } catch (error) {
+        console.error('Failed to load retail results:', error)
+      }
+    }
+    this.notify()
+
+    void workspaceSync
+      .reconcile('retailResults', this.results.size ? this.getResults() : null)
+      .then((remote) => remote && this.applyRemote(remote))
+  }
+
+  private persist(): void {
+    if (typeof window !== 'undefined') {
+      const results = this.getResults()
+      localStorage.setItem(this.storageKey, JSON.stringify(results))
+      workspaceSync.push('retailResults', results)
+    }
+    this.notify()
+  }
+
+  private applyRemote(remote: unknown): void {
+    if (!Array.isArray(remote)) return
+
+    this.setAll(remote)
+    localStorage.setItem(this.storageKey, JSON.stringify(remote))
+    this.notify()
+  }
+
+  private setAll(results: WeeklyResult[]): void {
+    this.results = new Map(
+      results.map((result) => [resultKey(result.fiscalYear, result.week), result])
+    )
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener()
+    }
+  }
+}
+
+export const retailResultsStore = new RetailResultsStore()
+
+retailResultsStore.load()
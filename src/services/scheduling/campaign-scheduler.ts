@@ -1,9 +1,70 @@
 /**
  * Campaign Scheduler Service
- * Handles automated posting and scheduling across multiple marketing channels
- * Supports social media, email, and content publishing automation
+ * Client for the backend scheduler, which stores schedules durably and
+ * publishes posts when they come due, even while this tab is closed.
+ * Schedules fetched here are cached so views can read them synchronously.
  */
 
+import { authFetch } from '../auth/session'
+import { getBackendUrl } from '../backend-url'
+import { workspaceManager } from '../persistence/workspaces'
+
+type PostStatus =
+  | 'scheduled'
+  | 'publishing'
+  | 'published'
+  // In the dead-letter queue: out of retries, or failed in a way retrying can't fix
+  | 'failed'
+  | 'cancelled'
+  // Missed its slot and waiting for someone to publish or skip it
+  | 'missed'
+  | 'skipped'
+  // No rule slot was free in its window; never published
+  | 'unplaced'
+  // Approval was late and escalated; placed again once approved
+  | 'awaiting_approval'
+
+/**
+ * What the backend does with a post it finds well past its slot, e.g. after
+ * it was down: publish it late, skip it, or hold it as `missed` to decide
+ */
+type CatchUpPolicy = 'publish_late' | 'skip' | 'ask'
+
+/**
+ * What the backend does when a post's slot arrives before its content is
+ * approved: move it to a later slot, or escalate and hold it
+ */
+type LateApprovalPolicy = 'reschedule' | 'escalate'
+
+type DeadLetterReason = 'retries_exhausted' | 'permanent_error' | 'interrupted' | 'claimed_elsewhere'
+
+interface PostMedia {
+  type: 'image' | 'video' | 'gif'
+  url: string
+  alt?: string
+}
+
+interface PublishAttempt {
+  at: string
+  error: string
+  code?: string
+  retryable: boolean
+  retryAfterMs?: number
+}
+
+interface DeadLetterResult {
+  postId: string
+  post?: ScheduledPost
+  error?: string
+}
+
+interface PostMetrics {
+  impressions: number
+  clicks: number
+  engagements: number
+  shares: number
+}
+
 interface ScheduledPost {
   id: string
   campaignId: string
@@ -12,30 +73,45 @@ interface ScheduledPost {
   content: {
     title?: string
     text: string
-    media?: {
-      type: 'image' | 'video' | 'gif'
-      url: string
-      alt?: string
-    }[]
+    media?: PostMedia[]
     hashtags?: string[]
     mentions?: string[]
   }
   scheduledFor: string // ISO date string
-  status: 'scheduled' | 'published' | 'failed' | 'cancelled'
+  status: PostStatus
+  // The approval-tracked asset the content comes from; publishes once it is approved
+  assetId?: string
+  approvalReminderSentAt?: string
+  approvalDelays?: number
+  // Local dates (YYYY-MM-DD) the backend may place the post on
+  slotWindow?: { from: string; to: string }
+  // Rescheduled by hand, so rebalancing leaves it alone
+  pinned?: boolean
+  // Why the post landed where it did, or why it couldn't be placed
+  placement?: {
+    ruleId?: string
+    timeZone?: string
+    reasons: string[]
+  }
   retryCount: number
+  nextAttemptAt?: string
   publishedAt?: string
+  publishedLateMinutes?: number
+  // Set from the platform's response once published
+  platformPostId?: string
+  platformUrl?: string
   error?: string
-  metrics?: {
-    impressions?: number
-    clicks?: number
-    engagements?: number
-    shares?: number
-  }
+  // Most recent failed sends, oldest first
+  attempts?: PublishAttempt[]
+  deadLetterReason?: DeadLetterReason
+  deadLetteredAt?: string
+  metrics?: Partial<PostMetrics>
 }
 
 interface CampaignSchedule {
   campaignId: string
   campaignTitle: string
+  workspaceId?: string
   startDate: string
   endDate: string
   posts: ScheduledPost[]
@@ -43,8 +119,43 @@ interface CampaignSchedule {
   channels: string[]
   autoPublish: boolean
   requiresApproval: boolean
+  // Higher priority campaigns get first pick of contested slots
+  priority: number
+  catchUpPolicy?: CatchUpPolicy
+  reviewers?: string[]
+  escalateTo?: string[]
+  lateApprovalPolicy?: LateApprovalPolicy
   approvedBy?: string
   approvedAt?: string
+  createdAt: string
+}
+
+/**
+ * One entry of a new schedule's content; posts cycle through the entries.
+ * Entries with an assetId publish that asset's approved text.
+ */
+interface ScheduleContentInput {
+  assetId?: string
+  title?: string
+  text?: string
+  description?: string
+  media?: PostMedia[]
+  hashtags?: string[]
+  mentions?: string[]
+}
+
+interface ScheduleAnalytics {
+  totalPosts: number
+  published: number
+  failed: number
+  scheduled: number
+  unplaced: number
+  awaitingApproval: number
+  // Percent of the schedule's posts published
+  successRate: number
+  totalMetrics: PostMetrics
+  // Per published post; null until one is published
+  averageMetrics: PostMetrics | null
 }
 
 interface SchedulingRule {
@@ -53,72 +164,47 @@ interface SchedulingRule {
   channelType: string
   daysOfWeek: number[] // 0=Sunday, 1=Monday, etc.
   timeSlots: string[] // e.g., ['09:00', '13:00', '17:00']
-  timeZone: string
+  // Defaults to the workspace's time zone
+  timeZone?: string
   maxPostsPerDay: number
   minIntervalHours: number
+  // The workspace of a custom rule; rules without one are set by the server
+  // operator for every workspace
+  workspaceId?: string
 }
 
 export class CampaignScheduler {
   private schedules: Map<string, CampaignSchedule> = new Map()
-  private rules: SchedulingRule[] = []
-  private isRunning = false
-  private checkInterval: NodeJS.Timeout | null = null
 
-  constructor() {
-    this.initializeDefaultRules()
-    this.startScheduler()
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await authFetch(`${getBackendUrl()}/api/schedules${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers }
+    })
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      throw new Error(body.error || `Scheduler responded ${response.status}`)
+    }
+    return response.status === 204 ? (undefined as T) : response.json()
   }
 
-  /**
-   * Initialize default scheduling rules for different platforms
-   */
-  private initializeDefaultRules(): void {
-    this.rules = [
-      {
-        id: 'twitter-optimal',
-        name: 'Twitter Optimal Times',
-        channelType: 'twitter',
-        daysOfWeek: [1, 2, 3, 4, 5], // Weekdays
-        timeSlots: ['09:00', '12:00', '15:00', '18:00'],
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        maxPostsPerDay: 3,
-        minIntervalHours: 2
-      },
-      {
-        id: 'facebook-optimal',
-        name: 'Facebook Optimal Times',
-        channelType: 'facebook',
-        daysOfWeek: [2, 3, 4], // Tue-Thu
-        timeSlots: ['13:00', '15:00'],
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        maxPostsPerDay: 1,
-        minIntervalHours: 24
-      },
-      {
-        id: 'linkedin-optimal',
-        name: 'LinkedIn Business Hours',
-        channelType: 'linkedin',
-        daysOfWeek: [2, 3, 4], // Tue-Thu
-        timeSlots: ['08:00', '12:00', '17:00'],
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        maxPostsPerDay: 1,
-        minIntervalHours: 24
-      },
-      {
-        id: 'instagram-optimal',
-        name: 'Instagram Peak Hours',
-        channelType: 'instagram',
-        daysOfWeek: [1, 2, 3, 4, 5, 6], // Mon-Sat
-        timeSlots: ['11:00', '14:00', '17:00'],
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        maxPostsPerDay: 2,
-        minIntervalHours: 6
-      }
-    ]
+  private cacheSchedule(schedule: CampaignSchedule): CampaignSchedule {
+    this.schedules.set(schedule.campaignId, schedule)
+    return schedule
+  }
+
+  private cachePost(post: ScheduledPost): ScheduledPost {
+    const schedule = this.schedules.get(post.campaignId)
+    if (schedule) {
+      schedule.posts = schedule.posts.map(p => (p.id === post.id ? post : p))
+    }
+    return post
   }
 
   /**
-   * Create a campaign schedule with automated posting
+   * Create a campaign schedule with automated posting. The backend places its
+   * posts around the workspace's other campaigns; see each post's placement.
+   * Content entries with an assetId publish only once that asset is approved.
    */
   async createCampaignSchedule(
     campaignId: string,
@@ -126,343 +212,215 @@ export class CampaignScheduler {
     startDate: string,
     endDate: string,
     channels: string[],
-    content: any[],
+    content: ScheduleContentInput[],
     options: {
       frequency?: 'daily' | 'weekly' | 'biweekly' | 'monthly'
       autoPublish?: boolean
       requiresApproval?: boolean
+      priority?: number
+      catchUpPolicy?: CatchUpPolicy
+      reviewers?: string[]
+      escalateTo?: string[]
+      lateApprovalPolicy?: LateApprovalPolicy
     } = {}
   ): Promise<CampaignSchedule> {
-    const {
-      frequency = 'daily',
-      autoPublish = false,
-      requiresApproval = true
-    } = options
-
-    // Generate scheduled posts based on content and rules
-    const posts = await this.generateScheduledPosts(
-      campaignId,
-      startDate,
-      endDate,
-      channels,
-      content,
-      frequency
-    )
-
-    const schedule: CampaignSchedule = {
-      campaignId,
-      campaignTitle,
-      startDate,
-      endDate,
-      posts,
-      frequency,
-      channels,
-      autoPublish,
-      requiresApproval
-    }
-
-    this.schedules.set(campaignId, schedule)
-    console.log(`Created schedule for campaign ${campaignId} with ${posts.length} posts`)
-    
-    return schedule
+    const schedule = await this.request<CampaignSchedule>('', {
+      method: 'POST',
+      body: JSON.stringify({
+        campaignId,
+        campaignTitle,
+        workspaceId: workspaceManager.getActiveWorkspaceId(),
+        startDate,
+        endDate,
+        channels,
+        content,
+        ...options
+      })
+    })
+
+    console.log(`Created schedule for campaign ${campaignId} with ${schedule.posts.length} posts`)
+    return this.cacheSchedule(schedule)
   }
 
   /**
-   * Generate scheduled posts based on campaign parameters
+   * Get campaign schedule as last fetched
    */
-  private async generateScheduledPosts(
-    campaignId: string,
-    startDate: string,
-    endDate: string,
-    channels: string[],
-    content: any[],
-    frequency: string
-  ): Promise<ScheduledPost[]> {
-    const posts: ScheduledPost[] = []
-    const start = new Date(startDate)
-    const end = new Date(endDate)
-    const totalDays = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24))
-
-    for (const channel of channels) {
-      const rule = this.rules.find(r => r.channelType === channel)
-      if (!rule) continue
-
-      // Calculate posting schedule based on frequency and rules
-      const postingDates = this.calculatePostingDates(start, end, rule, frequency)
-
-      for (const [index, date] of postingDates.entries()) {
-        const contentIndex = index % content.length
-        const postContent = content[contentIndex]
-
-        posts.push({
-          id: `${campaignId}_${channel}_${index}`,
-          campaignId,
-          channelType: this.mapChannelToType(channel),
-          channelId: channel,
-          content: {
-            text: postContent.text || postContent.description || '',
-            title: postContent.title,
-            media: postContent.media || [],
-            hashtags: postContent.hashtags || [],
-            mentions: postContent.mentions || []
-          },
-          scheduledFor: date.toISOString(),
-          status: 'scheduled',
-          retryCount: 0
-        })
-      }
-    }
-
-    return posts.sort((a, b) => 
-      new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime()
-    )
+  getCampaignSchedule(campaignId: string): CampaignSchedule | undefined {
+    return this.schedules.get(campaignId)
   }
 
   /**
-   * Calculate optimal posting dates based on rules and frequency
+   * Fetch the current state of a campaign schedule
    */
-  private calculatePostingDates(
-    startDate: Date,
-    endDate: Date,
-    rule: SchedulingRule,
-    frequency: string
-  ): Date[] {
-    const dates: Date[] = []
-    const current = new Date(startDate)
-
-    while (current <= endDate) {
-      // Check if current day is in allowed days of week
-      if (rule.daysOfWeek.includes(current.getDay())) {
-        // Add time slots for this day
-        for (const timeSlot of rule.timeSlots) {
-          const [hours, minutes] = timeSlot.split(':').map(Number)
-          const scheduledDate = new Date(current)
-          scheduledDate.setHours(hours, minutes, 0, 0)
-
-          if (scheduledDate >= startDate && scheduledDate <= endDate) {
-            dates.push(new Date(scheduledDate))
-          }
-
-          // Respect max posts per day limit
-          if (dates.filter(d => d.toDateString() === current.toDateString()).length >= rule.maxPostsPerDay) {
-            break
-          }
-        }
-      }
-
-      // Advance to next day based on frequency
-      switch (frequency) {
-        case 'daily':
-          current.setDate(current.getDate() + 1)
-          break
-        case 'weekly':
-          current.setDate(current.getDate() + 7)
-          break
-        case 'biweekly':
-          current.setDate(current.getDate() + 14)
-          break
-        case 'monthly':
-          current.setMonth(current.getMonth() + 1)
-          break
-        default:
-          current.setDate(current.getDate() + 1)
-      }
-    }
-
-    return dates
+  async refreshSchedule(campaignId: string): Promise<CampaignSchedule> {
+    const schedule = await this.request<CampaignSchedule>(`/${encodeURIComponent(campaignId)}`)
+    return this.cacheSchedule(schedule)
   }
 
   /**
-   * Map channel string to channel type
+   * Get all campaign schedules for the active workspace
    */
-  private mapChannelToType(channel: string): ScheduledPost['channelType'] {
-    if (['twitter', 'facebook', 'instagram', 'linkedin', 'tiktok'].includes(channel)) {
-      return 'social_media'
-    }
-    if (channel === 'email') return 'email'
-    if (channel === 'blog') return 'blog'
-    if (channel === 'press') return 'press_release'
-    return 'ad_campaign'
+  async getAllSchedules(): Promise<CampaignSchedule[]> {
+    const params = new URLSearchParams({ workspaceId: workspaceManager.getActiveWorkspaceId() })
+    const { schedules } = await this.request<{ schedules: CampaignSchedule[] }>(`?${params}`)
+    return schedules.map(schedule => this.cacheSchedule(schedule))
   }
 
   /**
-   * Start the scheduler to check for posts to publish
+   * Change which campaign wins contested slots. Other schedules in the
+   * workspace may move, so refresh them afterwards.
    */
-  private startScheduler(): void {
-    if (this.isRunning) return
-
-    this.isRunning = true
-    this.checkInterval = setInterval(() => {
-      this.checkScheduledPosts()
-    }, 60000) // Check every minute
-
-    console.log('Campaign scheduler started')
+  async setCampaignPriority(campaignId: string, priority: number): Promise<CampaignSchedule> {
+    const schedule = await this.request<CampaignSchedule>(`/${encodeURIComponent(campaignId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ priority })
+    })
+    return this.cacheSchedule(schedule)
   }
 
   /**
-   * Stop the scheduler
+   * Posts in the active workspace no rule slot was free for
    */
-  stopScheduler(): void {
-    if (this.checkInterval) {
-      clearInterval(this.checkInterval)
-      this.checkInterval = null
-    }
-    this.isRunning = false
-    console.log('Campaign scheduler stopped')
+  async getUnplacedPosts(): Promise<ScheduledPost[]> {
+    const params = new URLSearchParams({
+      status: 'unplaced',
+      workspaceId: workspaceManager.getActiveWorkspaceId()
+    })
+    const { posts } = await this.request<{ posts: ScheduledPost[] }>(`/posts?${params}`)
+    return posts
   }
 
   /**
-   * Check for posts that need to be published
+   * Update post content
    */
-  private async checkScheduledPosts(): Promise<void> {
-    const now = new Date()
-    const tolerance = 2 * 60 * 1000 // 2-minute tolerance
-
-    for (const schedule of this.schedules.values()) {
-      if (!schedule.autoPublish) continue
-
-      for (const post of schedule.posts) {
-        if (post.status !== 'scheduled') continue
-
-        const scheduledTime = new Date(post.scheduledFor).getTime()
-        const currentTime = now.getTime()
-
-        // Check if it's time to publish (within tolerance window)
-        if (currentTime >= scheduledTime - tolerance && currentTime <= scheduledTime + tolerance) {
-          await this.publishPost(post)
-        }
-      }
-    }
+  async updatePost(postId: string, content: Partial<ScheduledPost['content']>): Promise<ScheduledPost> {
+    const post = await this.request<ScheduledPost>(`/posts/${encodeURIComponent(postId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(content)
+    })
+    return this.cachePost(post)
   }
 
   /**
-   * Publish a scheduled post
+   * Cancel a scheduled post
    */
-  private async publishPost(post: ScheduledPost): Promise<void> {
-    try {
-      console.log(`Publishing post ${post.id} to ${post.channelId}`)
-      
-      // Update status to publishing
-      post.status = 'published'
-      post.publishedAt = new Date().toISOString()
-
-      // Here you would integrate with actual social media APIs
-      // For now, we'll simulate the publishing process
-      await this.simulatePublish(post)
-
-      console.log(`Successfully published post ${post.id}`)
-    } catch (error) {
-      console.error(`Failed to publish post ${post.id}:`, error)
-      post.status = 'failed'
-      post.error = error instanceof Error ? error.message : 'Unknown error'
-      post.retryCount++
-
-      // Retry failed posts (max 3 attempts)
-      if (post.retryCount < 3) {
-        // Schedule retry in 15 minutes
-        setTimeout(() => {
-          post.status = 'scheduled'
-          post.scheduledFor = new Date(Date.now() + 15 * 60 * 1000).toISOString()
-        }, 1000)
-      }
-    }
+  async cancelPost(postId: string): Promise<ScheduledPost> {
+    const post = await this.request<ScheduledPost>(`/posts/${encodeURIComponent(postId)}/cancel`, {
+      method: 'POST'
+    })
+    return this.cachePost(post)
   }
 
   /**
-   * Simulate publishing to social media (replace with actual API calls)
+   * Reschedule a post, including one that missed its slot or wasn't placed.
+   * The post keeps this time when the workspace is rebalanced.
    */
-  private async simulatePublish(post: ScheduledPost): Promise<void> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000))
-
-    // Simulate occasional failures (10% failure rate)
-    if (Math.random() < 0.1) {
-      throw new Error(`${post.channelId} API returned error 429: Rate limit exceeded`)
-    }
+  async reschedulePost(postId: string, newDateTime: string): Promise<ScheduledPost> {
+    const post = await this.request<ScheduledPost>(
+      `/posts/${encodeURIComponent(postId)}/reschedule`,
+      { method: 'POST', body: JSON.stringify({ scheduledFor: newDateTime }) }
+    )
+    return this.cachePost(post)
+  }
 
-    // Simulate metrics after publishing
-    post.metrics = {
-      impressions: Math.floor(Math.random() * 1000) + 100,
-      clicks: Math.floor(Math.random() * 50) + 5,
-      engagements: Math.floor(Math.random() * 30) + 2,
-      shares: Math.floor(Math.random() * 10)
-    }
+  /**
+   * Posts in the active workspace held for a decision after missing their slot
+   */
+  async getMissedPosts(): Promise<ScheduledPost[]> {
+    const params = new URLSearchParams({
+      status: 'missed',
+      workspaceId: workspaceManager.getActiveWorkspaceId()
+    })
+    const { posts } = await this.request<{ posts: ScheduledPost[] }>(`/posts?${params}`)
+    return posts
   }
 
   /**
-   * Get campaign schedule
+   * Publish a missed post now, or skip it
    */
-  getCampaignSchedule(campaignId: string): CampaignSchedule | undefined {
-    return this.schedules.get(campaignId)
+  async resolveMissedPost(postId: string, action: 'publish' | 'skip'): Promise<ScheduledPost> {
+    const post = await this.request<ScheduledPost>(`/posts/${encodeURIComponent(postId)}/missed`, {
+      method: 'POST',
+      body: JSON.stringify({ action })
+    })
+    return this.cachePost(post)
   }
 
   /**
-   * Update post content
+   * Posts in the active workspace that ran out of retries or failed
+   * permanently, most recent first
    */
-  updatePost(postId: string, content: Partial<ScheduledPost['content']>): void {
-    for (const schedule of this.schedules.values()) {
-      const post = schedule.posts.find(p => p.id === postId)
-      if (post && post.status === 'scheduled') {
-        post.content = { ...post.content, ...content }
-        console.log(`Updated post ${postId}`)
-        break
-      }
-    }
+  async getDeadLetters(): Promise<ScheduledPost[]> {
+    const params = new URLSearchParams({ workspaceId: workspaceManager.getActiveWorkspaceId() })
+    const { posts } = await this.request<{ posts: ScheduledPost[] }>(`/dead-letter?${params}`)
+    return posts
   }
 
   /**
-   * Cancel a scheduled post
+   * Queue dead-lettered posts again with a fresh set of retries, optionally
+   * fixing their content first. They go out at scheduledFor, or right away.
    */
-  cancelPost(postId: string): void {
-    for (const schedule of this.schedules.values()) {
-      const post = schedule.posts.find(p => p.id === postId)
-      if (post && post.status === 'scheduled') {
-        post.status = 'cancelled'
-        console.log(`Cancelled post ${postId}`)
-        break
-      }
-    }
+  async replayDeadLetters(
+    postIds: string[],
+    options: { content?: Partial<ScheduledPost['content']>; scheduledFor?: string } = {}
+  ): Promise<DeadLetterResult[]> {
+    return this.resolveDeadLetters('replay', { postIds, ...options })
   }
 
   /**
-   * Reschedule a post
+   * Change the content of dead-lettered posts without sending them
    */
-  reschedulePost(postId: string, newDateTime: string): void {
-    for (const schedule of this.schedules.values()) {
-      const post = schedule.posts.find(p => p.id === postId)
-      if (post && post.status === 'scheduled') {
-        post.scheduledFor = newDateTime
-        console.log(`Rescheduled post ${postId} to ${newDateTime}`)
-        break
-      }
+  async editDeadLetters(
+    postIds: string[],
+    content: Partial<ScheduledPost['content']>
+  ): Promise<DeadLetterResult[]> {
+    return this.resolveDeadLetters('edit', { postIds, content })
+  }
+
+  async cancelDeadLetters(postIds: string[]): Promise<DeadLetterResult[]> {
+    return this.resolveDeadLetters('cancel', { postIds })
+  }
+
+  private async resolveDeadLetters(
+    action: 'replay' | 'edit' | 'cancel',
+    body: { postIds: string[]; content?: Partial<ScheduledPost['content']>; scheduledFor?: string }
+  ): Promise<DeadLetterResult[]> {
+    const { results } = await this.request<{ results: DeadLetterResult[] }>(
+      `/dead-letter/${action}`,
+      { method: 'POST', body: JSON.stringify(body) }
+    )
+    for (const result of results) {
+      if (result.post) this.cachePost(result.post)
     }
+    return results
   }
 
   /**
    * Approve campaign for publishing
    */
-  approveCampaign(campaignId: string, approvedBy: string): void {
-    const schedule = this.schedules.get(campaignId)
-    if (schedule && schedule.requiresApproval) {
-      schedule.approvedBy = approvedBy
-      schedule.approvedAt = new Date().toISOString()
-      schedule.autoPublish = true
-      console.log(`Campaign ${campaignId} approved for publishing by ${approvedBy}`)
-    }
+  async approveCampaign(campaignId: string, approvedBy: string): Promise<CampaignSchedule> {
+    const schedule = await this.request<CampaignSchedule>(
+      `/${encodeURIComponent(campaignId)}/approve`,
+      { method: 'POST', body: JSON.stringify({ approvedBy }) }
+    )
+    console.log(`Campaign ${campaignId} approved for publishing by ${approvedBy}`)
+    return this.cacheSchedule(schedule)
   }
 
   /**
    * Get schedule analytics
    */
-  getScheduleAnalytics(campaignId: string): any {
+  getScheduleAnalytics(campaignId: string): ScheduleAnalytics | null {
     const schedule = this.schedules.get(campaignId)
     if (!schedule) return null
 
     const published = schedule.posts.filter(p => p.status === 'published')
     const failed = schedule.posts.filter(p => p.status === 'failed')
     const scheduled = schedule.posts.filter(p => p.status === 'scheduled')
+    const unplaced = schedule.posts.filter(p => p.status === 'unplaced')
+    const awaitingApproval = schedule.posts.filter(p => p.status === 'awaiting_approval')
 
-    const totalMetrics = published.reduce((acc, post) => {
+    const totalMetrics = published.reduce<PostMetrics>((acc, post) => {
       if (post.metrics) {
         acc.impressions += post.metrics.impressions || 0
         acc.clicks += post.metrics.clicks || 0
@@ -477,6 +435,8 @@ export class CampaignScheduler {
       published: published.length,
       failed: failed.length,
       scheduled: scheduled.length,
+      unplaced: unplaced.length,
+      awaitingApproval: awaitingApproval.length,
       successRate: schedule.posts.length > 0 ? (published.length / schedule.posts.length) * 100 : 0,
       totalMetrics,
       averageMetrics: published.length > 0 ? {
@@ -489,29 +449,46 @@ export class CampaignScheduler {
   }
 
   /**
-   * Add custom scheduling rule
+   * Add a custom scheduling rule to the active workspace. It replaces the
+   * default rule for its channel there.
    */
-  addSchedulingRule(rule: Omit<SchedulingRule, 'id'>): void {
-    const newRule: SchedulingRule = {
-      ...rule,
-      id: `custom_${Date.now()}`
-    }
-    this.rules.push(newRule)
+  async addSchedulingRule(rule: Omit<SchedulingRule, 'id' | 'workspaceId'>): Promise<SchedulingRule> {
+    const params = new URLSearchParams({ workspaceId: workspaceManager.getActiveWorkspaceId() })
+    const newRule = await this.request<SchedulingRule>(`/rules?${params}`, {
+      method: 'POST',
+      body: JSON.stringify(rule)
+    })
     console.log(`Added custom scheduling rule: ${newRule.name}`)
+    return newRule
   }
 
   /**
-   * Get all scheduling rules
+   * Update one of the active workspace's custom rules; default rules and
+   * rules for every workspace can't be changed
    */
-  getSchedulingRules(): SchedulingRule[] {
-    return [...this.rules]
+  async updateSchedulingRule(
+    ruleId: string,
+    updates: Partial<Omit<SchedulingRule, 'id' | 'workspaceId'>>
+  ): Promise<SchedulingRule> {
+    const params = new URLSearchParams({ workspaceId: workspaceManager.getActiveWorkspaceId() })
+    return this.request<SchedulingRule>(`/rules/${encodeURIComponent(ruleId)}?${params}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates)
+    })
+  }
+
+  async deleteSchedulingRule(ruleId: string): Promise<void> {
+    const params = new URLSearchParams({ workspaceId: workspaceManager.getActiveWorkspaceId() })
+    await this.request<void>(`/rules/${encodeURIComponent(ruleId)}?${params}`, { method: 'DELETE' })
   }
 
   /**
-   * Get all campaign schedules
+   * Get the scheduling rules that apply to the active workspace
    */
-  getAllSchedules(): CampaignSchedule[] {
-    return Array.from(this.schedules.values())
+  async getSchedulingRules(): Promise<SchedulingRule[]> {
+    const params = new URLSearchParams({ workspaceId: workspaceManager.getActiveWorkspaceId() })
+    const { rules } = await this.request<{ rules: SchedulingRule[] }>(`/rules?${params}`)
+    return rules
   }
 }
 
@@ -519,4 +496,14 @@ export class CampaignScheduler {
 export const campaignScheduler = new CampaignScheduler()
 
 // Export types
-export type { ScheduledPost, CampaignSchedule, SchedulingRule }
\ No newline at end of file
+export type {
+  ScheduledPost,
+  CampaignSchedule,
+  SchedulingRule,
+  CatchUpPolicy,
+  LateApprovalPolicy,
+  PostStatus,
+  DeadLetterReason,
+  DeadLetterResult,
+  PublishAttempt
+}
\ No newline at end of file
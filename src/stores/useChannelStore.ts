@@ -1,8 +1,10 @@
 import { create } from 'zustand'
-import { persist, createJSONStorage } from 'zustand/middleware'
+import { persist, createJSONStorage, type StateStorage } from 'zustand/middleware'
 import { produce } from 'immer'
 import { ChannelData } from '../types/marketing'
 import { modernAIOrchestrator } from '../services/ai/modern-ai-orchestrator'
+import { workspaceSync } from '../services/persistence/workspace-sync'
+import { workspaceManager } from '../services/persistence/workspaces'
 
 export interface KpiTarget {
   target: string
@@ -153,6 +155,19 @@ export const generateKpiTargets = async (channelId: string): Promise<Record<stri
   }
 }
 
+// Resolves the persist key against the active workspace at call time, so each
+// brand keeps its own channels. Writes are paused while switching workspaces
+// so clearing the previous brand's state doesn't overwrite the next one's.
+let switchingWorkspace = false
+
+const workspaceStorage: StateStorage = {
+  getItem: (name) => localStorage.getItem(workspaceManager.scopedKey(name)),
+  setItem: (name, value) => {
+    if (!switchingWorkspace) localStorage.setItem(workspaceManager.scopedKey(name), value)
+  },
+  removeItem: (name) => localStorage.removeItem(workspaceManager.scopedKey(name)),
+}
+
 export const useChannelStore = create<ChannelState>()(
   persist(
     (set, get) => ({
@@ -553,7 +568,7 @@ export const useChannelStore = create<ChannelState>()(
     }),
     {
       name: STORAGE_KEY,
-      storage: createJSONStorage(() => localStorage),
+      storage: createJSONStorage(() => workspaceStorage),
       version: 1,
       migrate: (persistedState: any, version: number) => {
         // Handle data migration if needed
@@ -571,6 +586,60 @@ export const useChannelStore = create<ChannelState>()(
   )
 )
 
+type SyncedChannelState = Pick<ChannelState, 'channels' | 'activeChannelId'>
+
+// Mirror channel changes to the workspace backend. Updates that came from the
+// backend are applied with syncing paused so they aren't pushed straight back.
+let applyingRemoteChannels = false
+
+const applyRemoteChannels = (remote: unknown) => {
+  const synced = remote as SyncedChannelState
+  if (!synced || !Array.isArray(synced.channels)) return
+
+  applyingRemoteChannels = true
+  useChannelStore.setState({
+    channels: synced.channels,
+    activeChannelId: synced.activeChannelId ?? null,
+  })
+  applyingRemoteChannels = false
+}
+
+useChannelStore.subscribe((state, previous) => {
+  if (applyingRemoteChannels) return
+  if (state.channels !== previous.channels || state.activeChannelId !== previous.activeChannelId) {
+    workspaceSync.push('channels', {
+      channels: state.channels,
+      activeChannelId: state.activeChannelId,
+    })
+  }
+})
+
+workspaceSync.onRemoteUpdate('channels', applyRemoteChannels)
+
+const reconcileChannels = () => {
+  const { channels, activeChannelId } = useChannelStore.getState()
+  void workspaceSync
+    .reconcile<SyncedChannelState>('channels', channels.length ? { channels, activeChannelId } : null)
+    .then((remote) => remote && applyRemoteChannels(remote))
+}
+
+// Load the next brand's channels when the workspace changes
+workspaceManager.onWorkspaceChange(() => {
+  switchingWorkspace = true
+  applyingRemoteChannels = true
+  useChannelStore.setState({ channels: [], activeChannelId: null, error: null })
+  switchingWorkspace = false
+
+  void Promise.resolve(useChannelStore.persist.rehydrate()).finally(() => {
+    applyingRemoteChannels = false
+    reconcileChannels()
+  })
+})
+
+if (typeof window !== 'undefined') {
+  reconcileChannels()
+}
+
 // Enhanced helper functions for touchpoints and KPI targeting
 export async function generateTouchpoints(stage: string, channelIds: string[]): Promise<string> {
   // Simulate API call delay
@@ -4,8 +4,10 @@ interface ImportMetaEnv {
   readonly VITE_OPENAI_API_KEY: string
   readonly VITE_ANTHROPIC_API_KEY: string
   readonly VITE_GOOGLE_AI_API_KEY: string
+  readonly VITE_AI_PROVIDER_CHAIN?: string
   readonly VITE_STRIPE_PUBLISHABLE_KEY: string
   readonly VITE_APP_URL: string
+  readonly VITE_BACKEND_URL?: string
   readonly VITE_ENVIRONMENT: string
   readonly VITE_ENABLE_MVP1: string
   readonly VITE_ENABLE_MVP2: string
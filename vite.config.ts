@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { resolve } from 'path'
 import react from '@vitejs/plugin-react'
 import { defineConfig } from 'vite'
@@ -27,4 +28,8 @@ export default defineConfig({
     include: ['react', 'react-dom'],
     exclude: ['playwright', 'playwright-core', 'chromium-bidi'],
   },
+  test: {
+    // The backend runs its own specs with its own dependencies
+    exclude: ['**/node_modules/**', '**/dist/**', 'backend/**'],
+  },
 })